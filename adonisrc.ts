@@ -81,6 +81,7 @@ export default defineConfig({
     () => import('#start/roles'),
     () => import('#start/agents'),
     () => import('#start/workflows'),
+    () => import('#start/jobs'),
   ],
 
   /*
@@ -6,7 +6,7 @@ import Post from '#models/post'
 
 type CreateFeedbackParams = {
   postId: string
-  userId: number
+  userId: number | null
   mode: 'approved' | 'review' | 'ai-review'
   content: string
   type: string
@@ -57,7 +57,7 @@ export default class CreateFeedback {
         user: { id: userId },
       },
       {
-        userId,
+        userId: userId ?? undefined,
         postType: post?.type,
       }
     )
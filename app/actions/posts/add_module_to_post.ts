@@ -7,6 +7,7 @@ import { randomUUID } from 'node:crypto'
 import { coerceJsonObject } from '../../helpers/jsonb.js'
 import { TransactionClientContract } from '@adonisjs/lucid/types/database'
 import PostSnapshotService from '#services/post_snapshot_service'
+import syncSearchIndexAction from '#actions/sync_search_index_action'
 
 type AddModuleToPostParams = {
   postId: string
@@ -233,6 +234,10 @@ export default class AddModuleToPost {
     // Refresh atomic draft if in a draft mode to keep JSON consistent with granular columns
     if (mode === 'review' || mode === 'ai-review') {
       await PostSnapshotService.refreshAtomicDraft(postId, mode)
+    } else if (!parentTrx) {
+      // Live module content is part of the search document (callers that pass a
+      // transaction sync after commit)
+      await syncSearchIndexAction.handle({ postIds: [postId] })
     }
 
     return result
@@ -1,14 +1,57 @@
+import db from '@adonisjs/lucid/services/db'
+import Post from '#models/post'
 import RevisionService from '#services/revision_service'
 import PostSnapshotService from '#services/post_snapshot_service'
 import PostSerializerService from '#services/post_serializer_service'
+import scheduledReviewApprovalService from '#services/scheduled_review_approval_service'
+import workflowExecutionService from '#services/workflow_execution_service'
+import translationStalenessService from '#services/translation_staleness_service'
+import syncSearchIndexAction from '#actions/sync_search_index_action'
+import { coerceJsonObject } from '#helpers/jsonb'
 
 type ApproveReviewDraftParams = {
   postId: string
-  userId: number
+  userId: number | null
+  /**
+   * Set when the approval is applied by the scheduler
+   */
+  scheduledApprovalId?: string
 }
 
 export default class ApproveReviewDraft {
-  static async handle({ postId, userId }: ApproveReviewDraftParams): Promise<void> {
+  /**
+   * Whether the post has any Review changes (post-level or module-level) to promote
+   */
+  static async hasChanges(postId: string): Promise<boolean> {
+    const current = await Post.findOrFail(postId)
+    const rd = coerceJsonObject(current.reviewDraft)
+    if (Object.keys(rd).length > 0) return true
+
+    const hasModuleChanges = await db
+      .from('module_instances')
+      .whereIn('id', db.from('post_modules').where('post_id', postId).select('module_id'))
+      .whereNotNull('review_props')
+      .first()
+    if (hasModuleChanges) return true
+
+    const hasJoinChanges = await db
+      .from('post_modules')
+      .where('post_id', postId)
+      .where((q) =>
+        q
+          .whereNotNull('review_overrides')
+          .orWhere('review_added', true)
+          .orWhere('review_deleted', true)
+      )
+      .first()
+    return !!hasJoinChanges
+  }
+
+  static async handle({
+    postId,
+    userId,
+    scheduledApprovalId,
+  }: ApproveReviewDraftParams): Promise<void> {
     // 1. Get the current Review snapshot
     const snapshot = await PostSerializerService.serialize(postId, 'review')
 
@@ -22,11 +65,24 @@ export default class ApproveReviewDraft {
     await RevisionService.recordActiveVersionsSnapshot({
       postId,
       mode: 'source',
-      action: 'approve-review-to-source',
+      action: scheduledApprovalId
+        ? 'scheduled-approve-review-to-source'
+        : 'approve-review-to-source',
       userId,
     })
 
-    // 5. Promote agent execution history
+    // 5. Refresh the site search index with the approved content
+    await syncSearchIndexAction.handle({ postIds: [postId] })
+
+    // 6. An approved vendor import brings the translation in sync with its source
+    await translationStalenessService.approveReview(postId)
+
+    // 7. A manual approval supersedes any scheduled one
+    if (!scheduledApprovalId) {
+      await scheduledReviewApprovalService.cancelPendingForPost(postId, 'approved', userId)
+    }
+
+    // 8. Promote agent execution history
     try {
       const agentExecutionService = await import('#services/agent_execution_service')
       await agentExecutionService.default.promoteReviewToSource(postId)
@@ -36,5 +92,28 @@ export default class ApproveReviewDraft {
         error: historyError?.message,
       })
     }
+
+    // 9. Trigger workflows
+    try {
+      const post = await Post.find(postId)
+      await workflowExecutionService.executeWorkflows(
+        'post.review.approve',
+        {
+          post: post?.toJSON(),
+          user: { id: userId },
+          scheduled: !!scheduledApprovalId,
+          scheduledApprovalId: scheduledApprovalId ?? null,
+        },
+        {
+          userId: userId ?? undefined,
+          postType: post?.type,
+        }
+      )
+    } catch (workflowError: any) {
+      console.error('Failed to run post.review.approve workflows:', {
+        postId,
+        error: workflowError?.message,
+      })
+    }
   }
 }
@@ -1,4 +1,6 @@
 import logActivityAction from '#actions/log_activity_action'
+import dispatchWebhookAction from '#actions/dispatch_webhook_action'
+import syncSearchIndexAction from '#actions/sync_search_index_action'
 import Post from '#models/post'
 import authorizationService from '#services/authorization_service'
 import db from '@adonisjs/lucid/services/db'
@@ -7,6 +9,7 @@ import PostCustomFieldValue from '#models/post_custom_field_value'
 import ModuleInstance from '#models/module_instance'
 import PostModule from '#models/post_module'
 import UrlRedirect from '#models/url_redirect'
+import redirectService from '#services/redirect_service'
 
 export default class BulkPostsAction {
   static async handle(input: {
@@ -154,19 +157,31 @@ export default class BulkPostsAction {
             // Check if redirect already exists
             const existing = await UrlRedirect.query().where('fromPath', oldPath).first()
             if (!existing) {
-              await UrlRedirect.create({
+              const redirect = await UrlRedirect.create({
                 fromPath: oldPath,
                 toPath: newPath,
                 httpStatus: 301,
                 locale: p.locale,
                 postId: p.id,
               })
+              await dispatchWebhookAction.handle({
+                event: 'redirect.created',
+                data: {
+                  id: redirect.id,
+                  fromPath: redirect.fromPath,
+                  toPath: redirect.toPath,
+                  httpStatus: redirect.httpStatus,
+                  locale: redirect.locale ?? null,
+                  postId: redirect.postId ?? null,
+                },
+              })
             }
           }
         }
 
         updated++
       }
+      redirectService.clearCache()
       return { message: `Regenerated permalinks for ${updated} posts`, count: updated }
     }
 
@@ -227,6 +242,7 @@ export default class BulkPostsAction {
     }
 
     await db.from('posts').whereIn('id', uniqueIds).update({ status: nextStatus, updated_at: now })
+    await syncSearchIndexAction.handle({ postIds: uniqueIds })
 
     await logActivityAction.handle({
       action: `post.bulk.${action}`,
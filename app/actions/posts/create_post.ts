@@ -10,6 +10,7 @@ import moduleRegistry from '#services/module_registry'
 
 import logActivityAction from '#actions/log_activity_action'
 import dispatchWebhookAction from '#actions/dispatch_webhook_action'
+import syncSearchIndexAction from '#actions/sync_search_index_action'
 
 type CreatePostParams = {
   type: string
@@ -251,6 +252,11 @@ export default class CreatePost {
       },
     })
 
+    // Posts created already published (imports, MCP) go straight into site search
+    if (status === 'published') {
+      await syncSearchIndexAction.handle({ postIds: [post.id] })
+    }
+
     return post
   }
 
@@ -1,6 +1,7 @@
 import Post from '#models/post'
 import logActivityAction from '#actions/log_activity_action'
 import dispatchWebhookAction from '#actions/dispatch_webhook_action'
+import syncSearchIndexAction from '#actions/sync_search_index_action'
 
 export interface DeletePostOptions {
   id: string
@@ -18,6 +19,7 @@ export class DeletePostAction {
     }
 
     await post.softDelete()
+    await syncSearchIndexAction.handle({ postIds: [id] })
 
     await logActivityAction.handle({
       action: 'post.delete',
@@ -1,6 +1,7 @@
 import db from '@adonisjs/lucid/services/db'
 import postTypeConfigService from '#services/post_type_config_service'
 import PostSnapshotService from '#services/post_snapshot_service'
+import syncSearchIndexAction from '#actions/sync_search_index_action'
 
 type DeletePostModuleParams = {
   postModuleId: string
@@ -61,6 +62,9 @@ export default class DeletePostModule {
     // Refresh atomic draft if in a draft mode to keep JSON consistent with granular columns
     if (mode === 'review' || mode === 'ai-review') {
       await PostSnapshotService.refreshAtomicDraft(row.post_id, mode)
+    } else {
+      // Live module content is part of the search document
+      await syncSearchIndexAction.handle({ postIds: [String(row.post_id)] })
     }
   }
 }
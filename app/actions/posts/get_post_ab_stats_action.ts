@@ -1,18 +1,51 @@
 import db from '@adonisjs/lucid/services/db'
 import Post from '#models/post'
 import postTypeConfigService from '#services/post_type_config_service'
+import abTestService, {
+  AB_BASELINE,
+  decideWinner,
+  probabilityToBeat,
+  wilsonInterval,
+  type AbDecision,
+  type AbTestSettings,
+} from '#services/ab_test_service'
 
 export interface GetPostAbStatsOptions {
   postId: string
 }
 
+export type AbVariationStats = {
+  views: number
+  submissions: number
+  /** Conversions for the group's goal (form submissions by default) */
+  conversions: number
+  conversionRate: number
+  /** 95% interval of the conversion rate, in percent */
+  interval: { low: number; high: number }
+  /** Probability (0–1) of beating variation A; null for A itself */
+  probabilityToBeatBaseline: number | null
+}
+
 export class GetPostAbStatsAction {
-  async handle(options: GetPostAbStatsOptions) {
-    const { postId } = options
+  async handle(options: GetPostAbStatsOptions): Promise<Record<string, AbVariationStats>> {
+    const { stats } = await this.evaluate(options.postId)
+    return stats
+  }
+
+  /**
+   * Stats of the post's A/B group together with its goal settings and the winner rule's decision
+   */
+  async evaluate(postId: string): Promise<{
+    abGroupId: string
+    settings: AbTestSettings
+    stats: Record<string, AbVariationStats>
+    decision: AbDecision
+  }> {
     const post = await Post.find(postId)
     if (!post) throw new Error('Post not found')
 
     const abGroupId = post.abGroupId || post.id
+    const settings = await abTestService.getSettings(abGroupId)
 
     const views = await db
       .from('post_variation_views')
@@ -24,11 +57,25 @@ export class GetPostAbStatsAction {
     const submissions = await db
       .from('form_submissions')
       .where('ab_group_id', abGroupId)
+      .where('status', '<>', 'spam')
       .select('ab_variation')
       .count('* as count')
       .groupBy('ab_variation')
 
-    const stats: Record<string, { views: number; submissions: number; conversionRate: number }> = {}
+    const conversions =
+      settings.goalType === 'form_submission'
+        ? null
+        : await abTestService.countConversions(abGroupId, settings)
+
+    const stats: Record<string, AbVariationStats> = {}
+    const empty = (): AbVariationStats => ({
+      views: 0,
+      submissions: 0,
+      conversions: 0,
+      conversionRate: 0,
+      interval: { low: 0, high: 0 },
+      probabilityToBeatBaseline: null,
+    })
 
     const uiConfig = postTypeConfigService.getUiConfig(post.type)
     const variations = uiConfig.abTesting.variations || []
@@ -37,39 +84,60 @@ export class GetPostAbStatsAction {
     const labels = new Set([
       ...variations.map((v) => v.value),
       ...(dbVariations.map((v) => v.abVariation).filter(Boolean) as string[]),
-      'A',
+      AB_BASELINE,
     ])
 
     for (const label of labels) {
-      stats[label] = { views: 0, submissions: 0, conversionRate: 0 }
+      stats[label] = empty()
     }
 
     views.forEach((v: any) => {
-      const label = v.ab_variation || 'A'
+      const label = v.ab_variation || AB_BASELINE
       if (!stats[label]) {
-        stats[label] = { views: 0, submissions: 0, conversionRate: 0 }
+        stats[label] = empty()
       }
-      stats[label].views = parseInt(v.count)
+      stats[label].views = Number.parseInt(v.count)
     })
 
     submissions.forEach((s: any) => {
-      const label = s.ab_variation || 'A'
+      const label = s.ab_variation || AB_BASELINE
       if (!stats[label]) {
-        stats[label] = { views: 0, submissions: 0, conversionRate: 0 }
+        stats[label] = empty()
       }
-      stats[label].submissions = parseInt(s.count)
+      stats[label].submissions = Number.parseInt(s.count)
     })
 
     Object.keys(stats).forEach((label) => {
       const s = stats[label]
+      s.conversions = conversions ? conversions[label] || 0 : s.submissions
       if (s.views > 0) {
-        s.conversionRate = (s.submissions / s.views) * 100
+        s.conversionRate = (s.conversions / s.views) * 100
+        const interval = wilsonInterval(s.conversions, s.views)
+        s.interval = { low: interval.low * 100, high: interval.high * 100 }
       }
     })
 
-    return stats
+    const baseline = stats[AB_BASELINE]
+    Object.keys(stats).forEach((label) => {
+      if (label !== AB_BASELINE) {
+        stats[label].probabilityToBeatBaseline = probabilityToBeat(baseline, stats[label])
+      }
+    })
+
+    // Only variations that exist as posts compete; configured-but-missing labels are ignored
+    const live = new Set([
+      AB_BASELINE,
+      ...(dbVariations.map((v) => v.abVariation).filter(Boolean) as string[]),
+    ])
+    const decision = decideWinner(
+      Object.entries(stats)
+        .filter(([label]) => live.has(label))
+        .map(([label, s]) => ({ label, views: s.views, conversions: s.conversions })),
+      settings
+    )
+
+    return { abGroupId, settings, stats, decision }
   }
 }
 
 export default new GetPostAbStatsAction()
-
@@ -1,9 +1,10 @@
 import Post from '#models/post'
 import db from '@adonisjs/lucid/services/db'
+import syncSearchIndexAction from '#actions/sync_search_index_action'
 
 type PromoteVariationParams = {
   postId: string // The ID of the variation that should become the main version
-  userId: number
+  userId: number | null // null when promoted automatically without an owner
 }
 
 export default class PromoteVariation {
@@ -21,7 +22,7 @@ export default class PromoteVariation {
 
     const mainPost = await Post.findOrFail(winner.abGroupId)
 
-    return await db.transaction(async (trx) => {
+    const promoted = await db.transaction(async (trx) => {
       if (winner.id !== mainPost.id) {
         // 1. Copy content from winner to mainPost
         // We preserve mainPost's ID, slug, type, locale, and parentId
@@ -87,5 +88,11 @@ export default class PromoteVariation {
 
       return mainPost
     })
+
+    // The main post now carries the winner's content (deleted variations drop out
+    // of the index with their rows)
+    await syncSearchIndexAction.handle({ postIds: [promoted.id] })
+
+    return promoted
   }
 }
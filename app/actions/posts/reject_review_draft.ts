@@ -1,6 +1,8 @@
 import Post from '#models/post'
 import db from '@adonisjs/lucid/services/db'
 import RevisionService from '#services/revision_service'
+import scheduledReviewApprovalService from '#services/scheduled_review_approval_service'
+import translationStalenessService from '#services/translation_staleness_service'
 
 type RejectReviewDraftParams = {
   postId: string
@@ -54,5 +56,11 @@ export default class RejectReviewDraft {
         .whereIn('id', trx.from('post_modules').where('post_id', postId).select('module_id'))
         .update({ [propsField]: null, updated_at: now } as any)
     })
+
+    // 4. Nothing left to apply for a scheduled approval, or to mark in sync, of the rejected draft
+    if (mode === 'review') {
+      await scheduledReviewApprovalService.cancelPendingForPost(postId, 'rejected', userId)
+      await translationStalenessService.discardReview(postId)
+    }
   }
 }
@@ -1,6 +1,7 @@
 import Post from '#models/post'
 import logActivityAction from '#actions/log_activity_action'
 import dispatchWebhookAction from '#actions/dispatch_webhook_action'
+import syncSearchIndexAction from '#actions/sync_search_index_action'
 
 export interface RestorePostOptions {
   id: string
@@ -20,6 +21,7 @@ export class RestorePostAction {
     if (!post.isDeleted) throw new Error('Post is not deleted')
 
     await post.restore()
+    await syncSearchIndexAction.handle({ postIds: [id] })
 
     await logActivityAction.handle({
       action: 'post.restore',
@@ -1,9 +1,11 @@
 import logActivityAction from '#actions/log_activity_action'
 import dispatchWebhookAction from '#actions/dispatch_webhook_action'
+import syncSearchIndexAction from '#actions/sync_search_index_action'
 import Post from '#models/post'
 import { DateTime } from 'luxon'
 import urlPatternService from '#services/url_pattern_service'
 import postTypeConfigService from '#services/post_type_config_service'
+import redirectService from '#services/redirect_service'
 import ApplyPostTaxonomyAssignments from '#actions/posts/apply_post_taxonomy_assignments'
 import db from '@adonisjs/lucid/services/db'
 import { TransactionClientContract } from '@adonisjs/lucid/types/database'
@@ -29,6 +31,7 @@ type UpdatePostParams = {
   featuredMediaId?: string | null
   taxonomyTermIds?: string[]
   scheduledAt?: string | null
+  unpublishAt?: string | null
 }
 
 export class UpdatePostException extends Error {
@@ -65,6 +68,7 @@ export default class UpdatePost {
       featuredMediaId,
       taxonomyTermIds,
       scheduledAt,
+      unpublishAt,
     }: UpdatePostParams,
     trx?: TransactionClientContract
   ): Promise<Post> {
@@ -132,19 +136,52 @@ export default class UpdatePost {
           const toPath = await urlPatternService.buildPostPathForPostWithSlug(post.id, newSlug, trx)
 
           try {
+            // The post now lives at toPath: an older redirect away from it (from a previous
+            // rename) would hide the post and loop back here
+            const stale = await db.from('url_redirects').where('from_path', toPath).first()
+            if (stale) {
+              await db.from('url_redirects').where('id', stale.id).delete()
+              await dispatchWebhookAction.handle({
+                event: 'redirect.deleted',
+                data: {
+                  id: stale.id,
+                  fromPath: stale.from_path,
+                  toPath: stale.to_path,
+                  httpStatus: stale.http_status,
+                  locale: stale.locale ?? null,
+                  postId: stale.post_id ?? null,
+                },
+              })
+            }
+
             const existing = await db.from('url_redirects').where('from_path', fromPath).first()
             if (!existing) {
               const now = new Date()
-              await db.table('url_redirects').insert({
-                from_path: fromPath,
-                to_path: toPath,
-                locale: post.locale,
-                http_status: 301,
-                post_id: post.id,
-                created_at: now,
-                updated_at: now,
+              const [redirect] = await db
+                .table('url_redirects')
+                .insert({
+                  from_path: fromPath,
+                  to_path: toPath,
+                  locale: post.locale,
+                  http_status: 301,
+                  post_id: post.id,
+                  created_at: now,
+                  updated_at: now,
+                })
+                .returning('id')
+              await dispatchWebhookAction.handle({
+                event: 'redirect.created',
+                data: {
+                  id: redirect.id,
+                  fromPath,
+                  toPath,
+                  httpStatus: 301,
+                  locale: post.locale,
+                  postId: post.id,
+                },
               })
             }
+            redirectService.clearCache()
           } catch {
             // ignore redirect insert errors
           }
@@ -202,6 +239,24 @@ export default class UpdatePost {
       post.scheduledAt = null
     }
 
+    // Expiry: empty string/null clears it; must fall after the scheduled publish time
+    if (unpublishAt !== undefined) {
+      if (!unpublishAt) {
+        post.unpublishAt = null
+      } else {
+        const ts = DateTime.fromISO(unpublishAt)
+        if (!ts.isValid) {
+          throw new UpdatePostException('Invalid unpublish date', 422, { unpublishAt })
+        }
+        if (post.scheduledAt && ts <= post.scheduledAt) {
+          throw new UpdatePostException('Unpublish date must be after the scheduled date', 422, {
+            unpublishAt,
+          })
+        }
+        post.unpublishAt = ts
+      }
+    }
+
     await post.save()
 
     // 3. Update taxonomy assignments if provided
@@ -252,6 +307,12 @@ export default class UpdatePost {
       })
     }
 
+    // Keep the site search index current (skipped inside an uncommitted transaction;
+    // callers that pass a transaction sync after commit)
+    if (!trx) {
+      await syncSearchIndexAction.handle({ postIds: [post.id] })
+    }
+
     return post
   }
 }
@@ -3,6 +3,7 @@ import postTypeConfigService from '#services/post_type_config_service'
 import { coerceJsonObject } from '../../helpers/jsonb.js'
 import db from '@adonisjs/lucid/services/db'
 import PostSnapshotService from '#services/post_snapshot_service'
+import syncSearchIndexAction from '#actions/sync_search_index_action'
 
 type UpdatePostModuleParams = {
   postModuleId: string
@@ -185,6 +186,9 @@ export default class UpdatePostModule {
     // Refresh atomic draft if in a draft mode to keep JSON consistent with granular columns
     if (mode === 'review' || mode === 'ai-review') {
       await PostSnapshotService.refreshAtomicDraft(postModule.postId, mode)
+    } else {
+      // Live module content is part of the search document
+      await syncSearchIndexAction.handle({ postIds: [postModule.postId] })
     }
 
     return postModule
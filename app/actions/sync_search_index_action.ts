@@ -0,0 +1,18 @@
+import searchIndexService from '#services/search_index_service'
+
+export interface SyncSearchIndexOptions {
+  postIds: string[]
+}
+
+export class SyncSearchIndexAction {
+  async handle(options: SyncSearchIndexOptions) {
+    try {
+      await searchIndexService.syncPosts(options.postIds)
+    } catch (error) {
+      // Fail silently for indexing to not block main operation
+      console.error('[SyncSearchIndexAction] Failed to sync search index:', error)
+    }
+  }
+}
+
+export default new SyncSearchIndexAction()
@@ -5,6 +5,8 @@ import PostCustomFieldValue from '#models/post_custom_field_value'
 import localeService from '#services/locale_service'
 import postTypeConfigService from '#services/post_type_config_service'
 import agentTriggerService from '#services/agent_trigger_service'
+import translationStalenessService from '#services/translation_staleness_service'
+import dispatchWebhookAction from '#actions/dispatch_webhook_action'
 import db from '@adonisjs/lucid/services/db'
 import { randomUUID } from 'node:crypto'
 import { DateTime } from 'luxon'
@@ -78,7 +80,23 @@ export default class CreateTranslation {
       metaDescription,
     })
 
-    // Step 5: Trigger automatic agents for translation creation
+    // Step 5: Record the source strings this translation starts from (staleness tracking)
+    await translationStalenessService.record(translation)
+
+    // Step 6: Notify webhook subscribers
+    await dispatchWebhookAction.handle({
+      event: 'translation.created',
+      data: {
+        id: translation.id,
+        translationOfId: basePost.id,
+        type: translation.type,
+        locale: translation.locale,
+        slug: translation.slug,
+        title: translation.title,
+      },
+    })
+
+    // Step 7: Trigger automatic agents for translation creation
     // We await this to ensure the translation is ready (or at least agents have started their work)
     // before returning to the UI. This keeps the loading indicator active.
     await agentTriggerService.runAgentsForScope('post.create-translation', translation.id, {
@@ -1,4 +1,5 @@
 import Post from '#models/post'
+import dispatchWebhookAction from '#actions/dispatch_webhook_action'
 
 /**
  * Parameters for deleting a translation
@@ -51,6 +52,19 @@ export default class DeleteTranslation {
     // Step 4: Delete the translation
     await translation.delete()
 
+    // Step 5: Notify webhook subscribers
+    await dispatchWebhookAction.handle({
+      event: 'translation.deleted',
+      data: {
+        id: translation.id,
+        translationOfId: translation.translationOfId,
+        type: translation.type,
+        locale: translation.locale,
+        slug: translation.slug,
+        title: translation.title,
+      },
+    })
+
     return translation
   }
 
@@ -0,0 +1,224 @@
+import Post from '#models/post'
+import PostSerializerService, { type CanonicalPost } from '#services/post_serializer_service'
+import postTypeConfigService from '#services/post_type_config_service'
+import localeService from '#services/locale_service'
+import {
+  XLIFF_POST_FIELDS,
+  XliffException,
+  mapTranslatableText,
+  moduleFieldSchema,
+  parseXliff,
+  type XliffFile,
+} from '#services/xliff_service'
+import CreateTranslation from '#actions/translations/create_translation'
+import SaveReviewDraft from '#actions/posts/save_review_draft'
+import translationStalenessService from '#services/translation_staleness_service'
+import type { CustomFieldDefinition } from '#types/custom_field'
+
+type ImportXliffParams = {
+  xml: string
+  userId: number
+  userEmail: string | null
+}
+
+export type ImportXliffFileResult = {
+  fileId: string
+  postId: string | null
+  translationId: string | null
+  created: boolean
+  applied: number
+  skipped: number
+  error?: string
+}
+
+export type ImportXliffResult = {
+  srcLang: string
+  trgLang: string
+  files: ImportXliffFileResult[]
+}
+
+/**
+ * Action to import a translated XLIFF 2.0 document
+ *
+ * Each `<file>` is matched to its source post; the targets are written to the
+ * review draft of the translation in the document's target locale, creating
+ * the translation first when it does not exist yet. Source content is never
+ * touched, so imported translations go through the normal review flow.
+ */
+export default class ImportXliff {
+  static async handle({ xml, userId, userEmail }: ImportXliffParams): Promise<ImportXliffResult> {
+    const doc = parseXliff(xml)
+    if (!localeService.isLocaleSupported(doc.trgLang)) {
+      throw new XliffException(`Unsupported target locale: ${doc.trgLang}`)
+    }
+    if (doc.files.length === 0) throw new XliffException('The document contains no files')
+
+    const files: ImportXliffFileResult[] = []
+    for (const file of doc.files) {
+      try {
+        files.push(await this.importFile(file, doc.srcLang, doc.trgLang, userId, userEmail))
+      } catch (error: any) {
+        files.push({
+          fileId: file.id,
+          postId: this.postIdOf(file),
+          translationId: null,
+          created: false,
+          applied: 0,
+          skipped: file.units.length,
+          error: error?.message || 'Import failed',
+        })
+      }
+    }
+
+    return { srcLang: doc.srcLang, trgLang: doc.trgLang, files }
+  }
+
+  /**
+   * Source post id from `original="post:<id>"` (or the `post-<id>` file id)
+   */
+  private static postIdOf(file: XliffFile): string | null {
+    const match = /^post[:-](.+)$/.exec(file.original || '') || /^post[:-](.+)$/.exec(file.id)
+    return match ? match[1] : null
+  }
+
+  private static async importFile(
+    file: XliffFile,
+    srcLang: string,
+    trgLang: string,
+    userId: number,
+    userEmail: string | null
+  ): Promise<ImportXliffFileResult> {
+    const postId = this.postIdOf(file)
+    if (!postId) throw new Error('File is not linked to a post')
+
+    const source = await Post.find(postId)
+    if (!source) throw new Error('Source post not found')
+    if (source.locale !== srcLang) {
+      throw new Error(`Source post locale is ${source.locale}, document says ${srcLang}`)
+    }
+
+    let translation = await source.getTranslation(trgLang)
+    let created = false
+    if (!translation) {
+      translation = await CreateTranslation.handle({ postId: source.id, locale: trgLang })
+      created = true
+    }
+
+    const targets = new Map<string, string>()
+    for (const unit of file.units) {
+      if (unit.id && typeof unit.target === 'string' && unit.target.trim()) {
+        targets.set(unit.id, unit.target)
+      }
+    }
+
+    const sourceCanonical = await PostSerializerService.serialize(source.id, 'source')
+    const canonical = await PostSerializerService.serialize(translation.id, 'review')
+    const { payload, applied } = this.applyTargets(sourceCanonical, canonical, targets)
+
+    if (applied > 0) {
+      await SaveReviewDraft.handle({
+        postId: translation.id,
+        payload,
+        userId,
+        userEmail,
+        mode: 'review',
+      })
+      // The vendor translated the current source; the translation is in sync once the
+      // review draft is approved
+      await translationStalenessService.recordForReview(translation)
+    }
+
+    return {
+      fileId: file.id,
+      postId: source.id,
+      translationId: translation.id,
+      created,
+      applied,
+      skipped: file.units.length - applied,
+    }
+  }
+
+  /**
+   * Write unit targets into the translation's canonical state. Module units
+   * reference the source post's module ids; translation modules are matched
+   * by type and position since CreateTranslation clones them in order.
+   */
+  private static applyTargets(
+    sourceCanonical: CanonicalPost,
+    canonical: CanonicalPost,
+    targets: Map<string, string>
+  ): { payload: Record<string, any>; applied: number } {
+    let applied = 0
+    const take = (id: string, current: string): string => {
+      const target = targets.get(id)
+      if (target === undefined) return current
+      applied++
+      return target
+    }
+
+    const post: Record<string, any> = { ...canonical.post }
+    for (const field of XLIFF_POST_FIELDS) {
+      if (targets.has(`post:${field}`)) post[field] = take(`post:${field}`, post[field])
+    }
+
+    const definitions = (postTypeConfigService.getUiConfig(canonical.post.type).fields ||
+      []) as CustomFieldDefinition[]
+    const defsBySlug = new Map(definitions.map((def) => [def.slug, def]))
+    post.customFields = (canonical.post.customFields || []).map((cf) => {
+      const def = defsBySlug.get(cf.slug)
+      if (!def) return cf
+      const value = mapTranslatableText(cf.value, def, [], (path, text) =>
+        take(path ? `field:${cf.slug}:${path}` : `field:${cf.slug}`, text)
+      )
+      return { ...cf, value }
+    })
+
+    const sourceToTranslation = this.matchModules(sourceCanonical, canonical)
+    const modules = canonical.modules.map((m) => {
+      const sourceId = sourceToTranslation.get(m.postModuleId)
+      if (!sourceId) return m
+      const schema: CustomFieldDefinition = {
+        slug: m.type,
+        type: 'object',
+        fields: moduleFieldSchema(m.type),
+      }
+      const props = mapTranslatableText(m.props || {}, schema, [], (path, text) =>
+        take(`module:${sourceId}:${path}`, text)
+      )
+      return { ...m, props }
+    })
+
+    return { payload: { ...post, modules }, applied }
+  }
+
+  /**
+   * Map translation postModuleId -> source postModuleId for local modules
+   */
+  private static matchModules(
+    sourceCanonical: CanonicalPost,
+    canonical: CanonicalPost
+  ): Map<string, string> {
+    const byType = (modules: CanonicalPost['modules']) => {
+      const groups = new Map<string, string[]>()
+      const local = modules
+        .filter((m) => m.scope !== 'global')
+        .sort((a, b) => a.orderIndex - b.orderIndex)
+      for (const m of local) {
+        const list = groups.get(m.type) || []
+        list.push(m.postModuleId)
+        groups.set(m.type, list)
+      }
+      return groups
+    }
+
+    const sourceGroups = byType(sourceCanonical.modules)
+    const map = new Map<string, string>()
+    for (const [type, ids] of byType(canonical.modules)) {
+      const sourceIds = sourceGroups.get(type) || []
+      ids.forEach((id, i) => {
+        if (sourceIds[i]) map.set(id, sourceIds[i])
+      })
+    }
+    return map
+  }
+}
@@ -20,7 +20,7 @@ const GeneralAssistantAgent: AgentDefinition = {
   enabled: true, // Set to true to enable
 
   llmConfig: {
-    // Provider: 'openai' | 'anthropic' | 'google' | 'nanobanana'
+    // Provider: 'openai' | 'anthropic' | 'google' | 'nanobanana' | 'openai-compatible'
     providerText: 'openai',
     modelText: 'gpt-4o',
 
@@ -33,6 +33,8 @@ const GeneralAssistantAgent: AgentDefinition = {
     // Anthropic: 'claude-3-opus-20240229', 'claude-3-sonnet-20240229', 'claude-3-haiku-20240307'
     // Google: 'gemini-pro', 'gemini-pro-vision'
     // Nano Banana: 'gemini-pro' (uses Gemini Pro API via Nano Banana service)
+    // OpenAI-compatible: whatever the server serves, e.g. 'llama3.1' on Ollama
+    //   (baseUrl defaults to the AI settings, e.g. 'http://localhost:11434/v1')
     // model: 'gpt-4o', // Using gpt-4o as default (more widely available)
 
     // API key (optional - will use AI_PROVIDER_OPENAI_API_KEY env var if not set)
@@ -0,0 +1,153 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import agentRegistry from '#services/agent_registry'
+import roleRegistry from '#services/role_registry'
+import Post from '#models/post'
+import AgentPlan from '#models/agent_plan'
+import agentPlanService, { AgentPlanException } from '#services/agent_plan_service'
+
+export default class AgentPlansController {
+  /**
+   * GET /api/posts/:id/agents/:agentId/plans
+   * Recent plans of an agent on a post (newest first)
+   */
+  async index({ params, response }: HttpContext) {
+    const plans = await AgentPlan.query()
+      .where('post_id', params.id)
+      .where('agent_id', params.agentId)
+      .orderBy('created_at', 'desc')
+      .limit(10)
+    return response.ok({ data: plans.map((plan) => this.serialize(plan)) })
+  }
+
+  /**
+   * POST /api/posts/:id/agents/:agentId/plan
+   * Ask the agent to propose a plan of steps. Body: { openEndedContext?: string }
+   */
+  async propose({ params, request, response, auth }: HttpContext) {
+    if (!this.canRun(auth)) return response.forbidden({ error: 'Not allowed to run agents' })
+
+    const agent = agentRegistry.get(params.agentId)
+    if (!agent) return response.notFound({ error: 'Agent not found' })
+    if (!agentRegistry.listByScope('dropdown').some((a) => a.id === agent.id)) {
+      return response.forbidden({ error: 'Agent not available for dropdown scope' })
+    }
+    if (!agent.llmConfig) return response.badRequest({ error: 'Agent missing configuration' })
+
+    const post = await Post.find(params.id)
+    if (!post) return response.notFound({ error: 'Post not found' })
+
+    try {
+      const plan = await agentPlanService.propose(post.id, agent, {
+        userId: (auth.use('web').user as any)?.id ?? null,
+        request: request.input('openEndedContext'),
+      })
+      return response.created({ data: this.serialize(plan) })
+    } catch (e) {
+      return this.handleError(e, response)
+    }
+  }
+
+  /**
+   * GET /api/agent-plans/:planId
+   */
+  async show({ params, response }: HttpContext) {
+    try {
+      const plan = await agentPlanService.find(params.planId)
+      return response.ok({ data: this.serialize(plan) })
+    } catch (e) {
+      return this.handleError(e, response)
+    }
+  }
+
+  /**
+   * PUT /api/agent-plans/:planId
+   * Edit, reorder or drop the steps of a proposed plan.
+   * Body: { steps: Array<{ id?, title, instructions, skip? }> }
+   */
+  async update({ params, request, response, auth }: HttpContext) {
+    if (!this.canRun(auth)) return response.forbidden({ error: 'Not allowed to run agents' })
+    try {
+      const plan = await agentPlanService.updateSteps(params.planId, request.input('steps'))
+      return response.ok({ data: this.serialize(plan) })
+    } catch (e) {
+      return this.handleError(e, response)
+    }
+  }
+
+  /**
+   * POST /api/agent-plans/:planId/approve
+   * Run the pending steps one after another; poll `show` for progress
+   */
+  async approve({ params, response, auth }: HttpContext) {
+    return this.startRun('approve', params.planId, response, auth)
+  }
+
+  /**
+   * POST /api/agent-plans/:planId/resume
+   * Retry a failed plan from the step that failed
+   */
+  async resume({ params, response, auth }: HttpContext) {
+    return this.startRun('resume', params.planId, response, auth)
+  }
+
+  /**
+   * POST /api/agent-plans/:planId/cancel
+   */
+  async cancel({ params, response, auth }: HttpContext) {
+    if (!this.canRun(auth)) return response.forbidden({ error: 'Not allowed to run agents' })
+    try {
+      const plan = await agentPlanService.cancel(params.planId)
+      return response.ok({ data: this.serialize(plan) })
+    } catch (e) {
+      return this.handleError(e, response)
+    }
+  }
+
+  private async startRun(
+    action: 'approve' | 'resume',
+    planId: string,
+    response: HttpContext['response'],
+    auth: HttpContext['auth']
+  ) {
+    if (!this.canRun(auth)) return response.forbidden({ error: 'Not allowed to run agents' })
+    try {
+      const existing = await agentPlanService.find(planId)
+      const agent = agentRegistry.get(existing.agentId)
+      if (!agent) return response.notFound({ error: 'Agent not found' })
+
+      const plan = await agentPlanService[action](planId, agent)
+      return response.accepted({ data: this.serialize(plan) })
+    } catch (e) {
+      return this.handleError(e, response)
+    }
+  }
+
+  private canRun(auth: HttpContext['auth']): boolean {
+    const role = (auth.use('web').user as any)?.role
+    return roleRegistry.hasPermission(role, 'agents.edit')
+  }
+
+  private handleError(e: any, response: HttpContext['response']) {
+    if (e instanceof AgentPlanException) {
+      if (e.status === 404) return response.notFound({ error: e.message })
+      if (e.status === 409) return response.conflict({ error: e.message })
+      return response.badRequest({ error: e.message })
+    }
+    console.error('Agent plan error:', { error: e?.message, stack: e?.stack })
+    return response.badRequest({ error: e?.message || 'Agent plan failed' })
+  }
+
+  private serialize(plan: AgentPlan) {
+    return {
+      id: plan.id,
+      postId: plan.postId,
+      agentId: plan.agentId,
+      request: plan.request,
+      status: plan.status,
+      steps: plan.steps,
+      error: plan.error,
+      createdAt: plan.createdAt,
+      updatedAt: plan.updatedAt,
+    }
+  }
+}
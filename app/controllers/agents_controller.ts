@@ -8,9 +8,7 @@ import PostSnapshotService from '#services/post_snapshot_service'
 import AgentPostPayloadDto from '#dtos/agent_post_payload_dto'
 import agentExecutor from '#services/agent_executor'
 import type { AgentExecutionContext, AgentScope } from '#types/agent_types'
-import moduleRegistry from '#services/module_registry'
 import agentExecutionService from '#services/agent_execution_service'
-import { coerceJsonObject } from '../helpers/jsonb.js'
 import env from '#start/env'
 
 export default class AgentsController {
@@ -468,66 +466,11 @@ export default class AgentsController {
 
     const targetViewMode = scope === 'field' ? viewMode : 'ai-review'
     const snapshot = await PostSerializerService.serialize(id, viewMode)
-    const applied: string[] = []
-
-    if (finalSuggestedPost && Object.keys(finalSuggestedPost).length > 0) {
-      for (const key of Object.keys(finalSuggestedPost)) {
-        if (finalSuggestedPost[key] !== undefined) {
-          ;(snapshot.post as any)[key] = finalSuggestedPost[key]
-          applied.push(`post.${key}`)
-        }
-      }
-    }
-
-    if (finalSuggestedModules.length > 0) {
-      for (const suggestedModule of finalSuggestedModules) {
-        const matches = snapshot.modules.filter((m) => {
-          if (suggestedModule.postModuleId && m.postModuleId === suggestedModule.postModuleId)
-            return true
-          if (
-            suggestedModule.moduleInstanceId &&
-            m.moduleInstanceId === suggestedModule.moduleInstanceId
-          )
-            return true
-          if (suggestedModule.type && m.type === suggestedModule.type) {
-            if (suggestedModule.orderIndex !== undefined) {
-              return m.orderIndex === suggestedModule.orderIndex
-            }
-            return true
-          }
-          return false
-        })
-
-        for (const matchingModule of matches) {
-          const isGlobal = matchingModule.scope === 'global'
-          if (suggestedModule.props) {
-            if (isGlobal) {
-              matchingModule.overrides = {
-                ...coerceJsonObject(matchingModule.overrides),
-                ...suggestedModule.props,
-              }
-            } else {
-              matchingModule.props = {
-                ...coerceJsonObject(matchingModule.props),
-                ...suggestedModule.props,
-              }
-            }
-          }
-          if (suggestedModule.overrides) {
-            matchingModule.overrides = {
-              ...coerceJsonObject(matchingModule.overrides),
-              ...suggestedModule.overrides,
-            }
-          }
-          let label = matchingModule.type
-          try {
-            if (moduleRegistry.has(matchingModule.type))
-              label = moduleRegistry.getSchema(matchingModule.type).name
-          } catch {}
-          applied.push(`${label} [${matchingModule.orderIndex}]`)
-        }
-      }
-    }
+    const applied = PostSnapshotService.mergeSuggestions(
+      snapshot,
+      finalSuggestedPost,
+      finalSuggestedModules
+    )
 
     if (applied.length > 0) {
       await PostSnapshotService.apply(id, snapshot, targetViewMode)
@@ -2,6 +2,8 @@ import type { HttpContext } from '@adonisjs/core/http'
 import aiSettingsService from '#services/ai_settings_service'
 import aiProviderService from '#services/ai_provider_service'
 import roleRegistry from '#services/role_registry'
+import agentRegistry from '#services/agent_registry'
+import aiUsageService, { DEFAULT_AI_PRICING, normalizePricing } from '#services/ai_usage_service'
 import type { AIProvider } from '#types/agent_types'
 
 export default class AISettingsController {
@@ -12,14 +14,18 @@ export default class AISettingsController {
     const settings = await aiSettingsService.get()
 
     // Get available models for each provider
-    const providers: AIProvider[] = ['openai', 'anthropic', 'google']
+    const providers: AIProvider[] = ['openai', 'anthropic', 'google', 'openai-compatible']
     const models: Record<string, string[]> = {}
     const textModels: Record<string, string[]> = {}
     const imageModels: Record<string, string[]> = {}
     const videoModels: Record<string, string[]> = {}
 
     for (const provider of providers) {
-      const allModels = await aiProviderService.listModels(provider)
+      const allModels = await aiProviderService.listModels(
+        provider,
+        undefined,
+        provider === 'openai-compatible' ? settings.openaiCompatibleBaseUrl || undefined : undefined
+      )
       models[provider] = allModels
       textModels[provider] = allModels.filter((m) =>
         aiProviderService.hasCapability(provider, m, 'text')
@@ -40,6 +46,7 @@ export default class AISettingsController {
         imageModels,
         videoModels,
         providers,
+        defaultPricing: DEFAULT_AI_PRICING,
       },
     })
   }
@@ -60,10 +67,95 @@ export default class AISettingsController {
       'defaultMediaModel',
       'defaultVideoProvider',
       'defaultVideoModel',
+      'openaiCompatibleBaseUrl',
+      'pricing',
       'options',
     ])
 
+    if (payload.pricing !== undefined) {
+      if (payload.pricing !== null && !Array.isArray(payload.pricing)) {
+        return response.badRequest({ error: 'Pricing must be a list of prices' })
+      }
+      // null resets to the built-in price table
+      payload.pricing = payload.pricing === null ? null : normalizePricing(payload.pricing)
+    }
+
+    if (payload.openaiCompatibleBaseUrl !== undefined) {
+      const baseUrl = String(payload.openaiCompatibleBaseUrl || '').trim()
+      if (baseUrl && !/^https?:\/\/[^\s]+$/i.test(baseUrl)) {
+        return response.badRequest({ error: 'Base URL must be an http(s) URL' })
+      }
+      payload.openaiCompatibleBaseUrl = baseUrl ? baseUrl.replace(/\/+$/, '') : null
+    }
+
     const updated = await aiSettingsService.upsert(payload)
     return response.ok({ data: updated })
   }
+
+  /**
+   * GET /api/ai-settings/usage?days=30
+   */
+  async usage({ request, response }: HttpContext) {
+    const days = Math.min(Math.max(Number(request.input('days', 30)) || 30, 1), 365)
+    const summary = await aiUsageService.summary(days)
+    return response.ok({ data: summary })
+  }
+
+  /**
+   * GET /api/ai-settings/budgets
+   */
+  async budgets({ response }: HttpContext) {
+    const budgets = await aiUsageService.listBudgets()
+    return response.ok({
+      data: budgets,
+      agents: agentRegistry.list().map((a) => ({ id: a.id, name: a.name })),
+      roles: roleRegistry.list().map((r) => r.name),
+    })
+  }
+
+  /**
+   * PUT /api/ai-settings/budgets
+   */
+  async saveBudget({ request, response, auth }: HttpContext) {
+    const role = (auth.use('web').user as any)?.role
+    if (!roleRegistry.hasPermission(role, 'admin.settings.update')) {
+      return response.forbidden({ error: 'Not allowed to update AI settings' })
+    }
+
+    const scopeType = String(request.input('scopeType', ''))
+    const scopeKey = String(request.input('scopeKey', '')).trim()
+    const limit = Number(request.input('monthlyLimitUsd'))
+
+    if (scopeType !== 'agent' && scopeType !== 'role') {
+      return response.badRequest({ error: 'Budget scope must be "agent" or "role"' })
+    }
+    const known =
+      scopeType === 'agent'
+        ? Boolean(agentRegistry.get(scopeKey))
+        : roleRegistry.list().some((r) => r.name === scopeKey)
+    if (!known) {
+      return response.badRequest({ error: `Unknown ${scopeType}: ${scopeKey}` })
+    }
+    if (!Number.isFinite(limit) || limit < 0) {
+      return response.badRequest({ error: 'Monthly limit must be a positive amount' })
+    }
+
+    await aiUsageService.setBudget(scopeType, scopeKey, limit)
+    const budgets = await aiUsageService.listBudgets()
+    return response.ok({ data: budgets })
+  }
+
+  /**
+   * DELETE /api/ai-settings/budgets/:id
+   */
+  async destroyBudget({ params, response, auth }: HttpContext) {
+    const role = (auth.use('web').user as any)?.role
+    if (!roleRegistry.hasPermission(role, 'admin.settings.update')) {
+      return response.forbidden({ error: 'Not allowed to update AI settings' })
+    }
+
+    const deleted = await aiUsageService.deleteBudget(Number(params.id))
+    if (!deleted) return response.notFound({ error: 'Budget not found' })
+    return response.noContent()
+  }
 }
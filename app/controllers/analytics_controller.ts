@@ -2,29 +2,54 @@ import type { HttpContext } from '@adonisjs/core/http'
 import db from '@adonisjs/lucid/services/db'
 import urlPatternService from '#services/url_pattern_service'
 import cmsConfig from '#config/cms'
+import analyticsService, {
+  AnalyticsRangeException,
+  parseDateRange,
+  previousPeriod,
+} from '#services/analytics_service'
+import privacyService, {
+  MAX_TRACK_BATCH,
+  hasConsent,
+  isBot,
+  sanitizeTrackedEvent,
+  trackingLevel,
+} from '#services/privacy_service'
 
 export default class AnalyticsController {
   /**
    * POST /api/public/analytics/track
-   * Tracking endpoint for public site
+   * Tracking endpoint for public site.
+   * Bots are ignored; the consent mode decides whether events are recorded in full,
+   * as anonymous page views, or not at all.
    */
   async track({ request, response }: HttpContext) {
     if (!cmsConfig.features.analytics) {
       return response.noContent()
     }
+    const userAgent = request.header('user-agent') || null
+    if (isBot(userAgent)) {
+      return response.noContent()
+    }
+
+    const consented = hasConsent(
+      request.plainCookie(cmsConfig.privacy.consentCookie, { encoded: false })
+    )
+    const level = trackingLevel(privacyService.consentMode, consented)
+    if (level === 'none') {
+      return response.noContent()
+    }
+
     const payload = request.body()
-    const events = Array.isArray(payload) ? payload : [payload]
+    const events = (Array.isArray(payload) ? payload : [payload]).slice(0, MAX_TRACK_BATCH)
+    const visitorHash =
+      level === 'full' ? await privacyService.visitorHash(request.ip(), userAgent) : null
 
     // Batch insert for performance
-    const toInsert = events.map((event) => ({
-      post_id: event.postId || null,
-      event_type: event.eventType,
-      x: event.x != null ? Number(event.x) : null,
-      y: event.y != null ? Number(event.y) : null,
-      viewport_width: event.viewportWidth != null ? Number(event.viewportWidth) : null,
-      metadata: event.metadata || null,
-      created_at: new Date(),
-    }))
+    const now = new Date()
+    const toInsert = events
+      .map((event) => sanitizeTrackedEvent(event, level, visitorHash))
+      .filter((row) => row !== null)
+      .map((row) => ({ ...row, created_at: now }))
 
     if (toInsert.length > 0) {
       try {
@@ -39,98 +64,88 @@ export default class AnalyticsController {
 
   /**
    * GET /api/analytics/summary
-   * Analytics summary for admin panel
+   * Analytics summary for admin panel.
+   * Query: from/to (YYYY-MM-DD, default last 30 days), locale, compare=1 for the previous period
    */
-  async getSummary({ response }: HttpContext) {
+  async getSummary({ request, response }: HttpContext) {
+    let range
+    try {
+      range = parseDateRange({ from: request.input('from'), to: request.input('to') })
+    } catch (e) {
+      if (e instanceof AnalyticsRangeException) return response.badRequest({ error: e.message })
+      throw e
+    }
+    const compare = ['1', 'true'].includes(String(request.input('compare', '')))
+
     if (!cmsConfig.features.analytics) {
       return response.ok({
+        range,
         summary: { totalViews: 0, totalClicks: 0 },
         topPosts: [],
         statsOverTime: [],
       })
     }
-    const views = await db
-      .from('analytics_events')
-      .where('event_type', 'view')
-      .count('* as count')
-      .first()
-
-    const clicks = await db
-      .from('analytics_events')
-      .where('event_type', 'click')
-      .count('* as count')
-      .first()
 
-    const topPosts = await db
-      .from('analytics_events')
-      .leftJoin('posts', 'posts.id', 'analytics_events.post_id')
-      .where('event_type', 'view')
-      .select('posts.id', 'posts.title', 'posts.slug')
-      .select(db.raw("analytics_events.metadata->>'path' as path"))
-      .count('analytics_events.id as views')
-      .groupBy('posts.id', 'posts.title', 'posts.slug', 'path')
-      .orderBy('views', 'desc')
-      .limit(10)
+    const filters = { locale: request.input('locale') || null }
+    const current = await analyticsService.summary(range, filters)
 
     const postsWithPaths = await Promise.all(
-      topPosts.map(async (p) => ({
-        id: p.id || p.path || 'unknown',
+      current.topPosts.map(async (p) => ({
+        id: p.postId || p.path || 'unknown',
         title: p.title || p.path || 'Unknown Page',
         slug: p.slug || p.path || '',
-        views: Number(p.views),
-        publicPath: p.id ? await urlPatternService.buildPostPathForPost(p.id) : (p.path || ''),
+        views: p.views,
+        publicPath: p.postId
+          ? await urlPatternService.buildPostPathForPost(p.postId)
+          : p.path || '',
       }))
     )
 
-    // Stats over time (last 30 days)
-    const thirtyDaysAgo = new Date()
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30)
-
-    const statsOverTime = await db
-      .from('analytics_events')
-      .where('created_at', '>=', thirtyDaysAgo)
-      .select(db.raw('DATE(created_at) as date'))
-      .select(db.raw("COUNT(*) FILTER (WHERE event_type = 'view') as views"))
-      .select(db.raw("COUNT(*) FILTER (WHERE event_type = 'click') as clicks"))
-      .groupBy('date')
-      .orderBy('date', 'asc')
+    let previous
+    if (compare) {
+      const previousRange = previousPeriod(range)
+      const before = await analyticsService.summary(previousRange, filters)
+      previous = {
+        range: previousRange,
+        summary: { totalViews: before.totals.views, totalClicks: before.totals.clicks },
+        statsOverTime: before.statsOverTime,
+      }
+    }
 
     return response.ok({
+      range,
       summary: {
-        totalViews: Number(views?.count || 0),
-        totalClicks: Number(clicks?.count || 0),
+        totalViews: current.totals.views,
+        totalClicks: current.totals.clicks,
       },
       topPosts: postsWithPaths,
-      statsOverTime: statsOverTime.map((s) => ({
-        date: s.date,
-        views: Number(s.views),
-        clicks: Number(s.clicks),
-      })),
+      statsOverTime: current.statsOverTime,
+      ...(previous ? { previous } : {}),
     })
   }
 
   /**
    * GET /api/analytics/heatmap
-   * Heatmap data for a specific post
+   * Heatmap grid for a specific post. Query: postId, eventType (default click), from/to.
+   * Each point is a grid cell with the number of interactions in it.
    */
   async getHeatmapData({ request, response }: HttpContext) {
     if (!cmsConfig.features.analytics) {
       return response.ok({ data: [] })
     }
-    const postId = request.input('postId')
-    const eventType = request.input('eventType', 'click')
-
-    let query = db.from('analytics_events').where('event_type', eventType)
-
-    if (postId) {
-      query = query.where('post_id', postId)
+    let range
+    try {
+      range = parseDateRange({ from: request.input('from'), to: request.input('to') })
+    } catch (e) {
+      if (e instanceof AnalyticsRangeException) return response.badRequest({ error: e.message })
+      throw e
     }
 
-    const data = await query
-      .select('x', 'y', 'viewport_width', 'created_at')
-      .orderBy('created_at', 'desc')
-      .limit(5000)
+    const data = await analyticsService.heatmap(range, {
+      postId: request.input('postId') || null,
+      eventType: request.input('eventType', 'click'),
+    })
 
-    return response.ok({ data })
+    return response.ok({ range, data })
   }
 }
@@ -0,0 +1,81 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import apiTokenService, { parseTokenExpiry } from '#services/api_token_service'
+import activityLogService from '#services/activity_log_service'
+import responseService from '#services/response_service'
+import roleRegistry from '#services/role_registry'
+import { createApiTokenValidator } from '#validators/api_token'
+import { PERMISSION_KEYS } from '#types/role_types'
+
+/**
+ * API Tokens Controller
+ *
+ * Personal API tokens of the signed-in user (profile page).
+ */
+export default class ApiTokensController {
+  /**
+   * GET /api/profile/tokens
+   * Returns the user's tokens and the scopes their role allows
+   */
+  async index({ auth, response }: HttpContext) {
+    const user = auth.getUserOrFail()
+    const tokens = await apiTokenService.listForUser(user.id)
+    const scopes = PERMISSION_KEYS.filter((key) => roleRegistry.hasPermission(user.role, key))
+    return response.ok({ data: tokens, scopes })
+  }
+
+  /**
+   * POST /api/profile/tokens
+   * Body: { name: string, scopes: PermissionKey[], expiresAt?: string }
+   * The plain token is only returned in this response.
+   */
+  async store({ request, response, auth }: HttpContext) {
+    const user = auth.getUserOrFail()
+    const {
+      name,
+      scopes,
+      expiresAt: expiresRaw,
+    } = await request.validateUsing(createApiTokenValidator)
+    const { expiresAt, error } = parseTokenExpiry(expiresRaw)
+    if (error) return responseService.badRequest(response, error)
+
+    const denied = scopes.filter((scope) => !roleRegistry.hasPermission(user.role, scope))
+    if (denied.length > 0) {
+      return responseService.badRequest(response, `Your role does not grant: ${denied.join(', ')}`)
+    }
+
+    const { token, record } = await apiTokenService.create(user, { name, scopes, expiresAt })
+
+    await activityLogService.log({
+      action: 'api-token.create',
+      userId: user.id,
+      entityType: 'api_token',
+      entityId: record.id,
+      metadata: { name, scopes: record.scopes, expiresAt: record.expiresAt },
+      ip: request.ip(),
+      userAgent: request.header('user-agent') || null,
+    })
+
+    return responseService.created(response, { ...record, token }, 'API token created')
+  }
+
+  /**
+   * DELETE /api/profile/tokens/:id
+   * Revokes the token; revoked tokens stay listed for auditing
+   */
+  async destroy({ params, request, response, auth }: HttpContext) {
+    const user = auth.getUserOrFail()
+    const revoked = await apiTokenService.revoke(String(params.id), user.id)
+    if (!revoked) return responseService.notFound(response, 'API token not found')
+
+    await activityLogService.log({
+      action: 'api-token.revoke',
+      userId: user.id,
+      entityType: 'api_token',
+      entityId: String(params.id),
+      ip: request.ip(),
+      userAgent: request.header('user-agent') || null,
+    })
+
+    return responseService.noContent(response)
+  }
+}
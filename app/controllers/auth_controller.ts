@@ -21,8 +21,12 @@ export default class AuthController {
       // This is timing-attack safe as per AdonisJS docs
       const user = await User.verifyCredentials(uid, password)
 
-      // Prevent AI agent accounts from logging in via the web interface
-      if ((user as any).role === 'ai_agent' || (user as any).role === 'workflow') {
+      // Prevent AI agent and service accounts from logging in via the web interface
+      if (
+        (user as any).role === 'ai_agent' ||
+        (user as any).role === 'workflow' ||
+        user.isServiceAccount
+      ) {
         await activityLogService.log({
           action: 'user.login_blocked',
           userId: user.id,
@@ -0,0 +1,65 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import contentDeliveryService from '#services/content_delivery_service'
+import postRenderingService from '#services/post_rendering_service'
+
+/**
+ * Content Delivery API (v1)
+ *
+ * Read-only, token-authenticated access to published content for headless
+ * clients (mobile apps, external front-ends). See DeliveryAuthMiddleware.
+ */
+export default class DeliveryController {
+  /**
+   * GET /api/delivery/v1/posts/:id
+   * Query: menus? (comma-separated menu slugs; all menus when omitted)
+   */
+  async show({ params, request, response }: HttpContext) {
+    const post = await contentDeliveryService.findPublishedById(String(params.id))
+    if (!post) return response.notFound({ error: 'Post not found' })
+
+    const data = await contentDeliveryService.build(post, this.buildOptions(request))
+    return response.ok({ data })
+  }
+
+  /**
+   * GET /api/delivery/v1/resolve?path=/blog/hello-world
+   * Query: path (required), menus?
+   */
+  async resolve({ request, response }: HttpContext) {
+    const path = String(request.input('path', '')).trim()
+    if (!path) return response.badRequest({ error: 'path is required' })
+
+    const post = await contentDeliveryService.findPublishedByPath(path)
+    if (!post) return response.notFound({ error: 'Post not found' })
+
+    const data = await contentDeliveryService.build(post, this.buildOptions(request))
+    return response.ok({ data })
+  }
+
+  /**
+   * GET /api/delivery/v1/menus/:slug
+   * Query: locale? (default 'en')
+   */
+  async menu({ params, request, response }: HttpContext) {
+    const locale = String(request.input('locale', 'en') || 'en')
+    const menu = await contentDeliveryService.getMenu(String(params.slug), locale)
+    if (!menu) return response.notFound({ error: 'Menu not found' })
+    return response.ok({ data: menu })
+  }
+
+  private buildOptions(request: HttpContext['request']) {
+    const menusParam = request.input('menus')
+    const menus =
+      typeof menusParam === 'string'
+        ? menusParam
+            .split(',')
+            .map((s) => s.trim())
+            .filter(Boolean)
+        : undefined
+    return {
+      protocol: postRenderingService.getProtocolFromRequest(request),
+      host: postRenderingService.getHostFromRequest(request),
+      menus,
+    }
+  }
+}
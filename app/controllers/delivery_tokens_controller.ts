@@ -0,0 +1,79 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import vine from '@vinejs/vine'
+import deliveryTokenService from '#services/delivery_token_service'
+import activityLogService from '#services/activity_log_service'
+import responseService from '#services/response_service'
+
+const createDeliveryTokenValidator = vine.compile(
+  vine.object({
+    name: vine.string().trim().minLength(1).maxLength(100),
+    expiresAt: vine.string().trim().optional(),
+  })
+)
+
+/**
+ * Delivery Tokens Controller
+ *
+ * Admin management of tokens for the content delivery API.
+ */
+export default class DeliveryTokensController {
+  /**
+   * GET /api/delivery-tokens
+   */
+  async index({ response }: HttpContext) {
+    const tokens = await deliveryTokenService.list()
+    return response.ok({ data: tokens })
+  }
+
+  /**
+   * POST /api/delivery-tokens
+   * Body: { name: string, expiresAt?: string }
+   * The plain token is only returned in this response.
+   */
+  async store({ request, response, auth }: HttpContext) {
+    const { name, expiresAt: expiresRaw } = await request.validateUsing(
+      createDeliveryTokenValidator
+    )
+    const expiresAt = expiresRaw ? new Date(expiresRaw) : null
+    if (expiresAt && Number.isNaN(expiresAt.getTime())) {
+      return responseService.badRequest(response, 'expiresAt must be a valid date')
+    }
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      return responseService.badRequest(response, 'expiresAt must be in the future')
+    }
+    const userId = auth.user?.id ?? null
+    const { token, record } = await deliveryTokenService.create(name, userId, expiresAt)
+
+    await activityLogService.log({
+      action: 'delivery-token.create',
+      userId,
+      entityType: 'delivery_token',
+      entityId: record.id,
+      metadata: { name, tokenPrefix: record.tokenPrefix, expiresAt: record.expiresAt },
+      ip: request.ip(),
+      userAgent: request.header('user-agent') || null,
+    })
+
+    return responseService.created(response, { ...record, token }, 'Delivery token created')
+  }
+
+  /**
+   * DELETE /api/delivery-tokens/:id
+   * Revokes the token; revoked tokens stay listed for auditing
+   */
+  async destroy({ params, request, response, auth }: HttpContext) {
+    const revoked = await deliveryTokenService.revoke(String(params.id))
+    if (!revoked) return responseService.notFound(response, 'Delivery token not found')
+
+    await activityLogService.log({
+      action: 'delivery-token.revoke',
+      userId: auth.user?.id ?? null,
+      entityType: 'delivery_token',
+      entityId: String(params.id),
+      ip: request.ip(),
+      userAgent: request.header('user-agent') || null,
+    })
+
+    return responseService.noContent(response)
+  }
+}
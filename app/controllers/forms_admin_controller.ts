@@ -1,7 +1,13 @@
 import type { HttpContext } from '@adonisjs/core/http'
 import db from '@adonisjs/lucid/services/db'
 import roleRegistry from '#services/role_registry'
-import formRegistry from '#services/form_registry'
+import formConfigService, { FormConfigException } from '#services/form_config_service'
+import formSubmissionService, {
+  FormSubmissionException,
+  parseSubmissionFilters,
+  type SubmissionChanges,
+} from '#services/form_submission_service'
+import { AnalyticsRangeException, parseDateRange } from '#services/analytics_service'
 import { adminPath } from '#services/admin_path_service'
 import { generateCsv } from '../helpers/csv.js'
 import { DateTime } from 'luxon'
@@ -9,35 +15,20 @@ import { DateTime } from 'luxon'
 export default class FormsAdminController {
   /**
    * GET /admin/forms
-   * Admin view for listing all submissions across all code-first forms.
+   * Submission inbox across all forms.
    */
   async index({ inertia, auth, request, response }: HttpContext) {
-    const role = (auth.use('web').user as any)?.role
-    if (!roleRegistry.hasPermission(role, 'forms.view')) {
+    const user = auth.use('web').user as any
+    if (!roleRegistry.hasPermission(user?.role, 'forms.view')) {
       return response.redirect(adminPath('forbidden'))
     }
 
-    const q = request.input('q', '').trim()
-    const formSlug = request.input('form_slug', '').trim()
-    const page = Number(request.input('page', 1))
-    const limit = Number(request.input('limit', 20))
-
-    const query = db.from('form_submissions')
-
-    if (formSlug) {
-      query.where('form_slug', formSlug)
-    }
-
-    if (q) {
-      // Postgres-specific ILIKE for JSONB search or cast to text
-      // For cross-DB compatibility, we cast payload to text and search
-      query.where((builder) => {
-        builder
-          .where('form_slug', 'LIKE', `%${q}%`)
-          .orWhereRaw('CAST(payload AS TEXT) LIKE ?', [`%${q}%`])
-      })
-    }
+    const input = request.qs()
+    const filters = parseSubmissionFilters(input, user?.id ?? null)
+    const page = Math.max(1, Number(request.input('page', 1)) || 1)
+    const limit = Math.min(100, Math.max(1, Number(request.input('limit', 20)) || 20))
 
+    const query = formSubmissionService.query(filters)
     const totalResult = await query.clone().count('* as total').first()
     const total = Number(totalResult?.total || 0)
 
@@ -46,6 +37,14 @@ export default class FormsAdminController {
       .offset((page - 1) * limit)
       .limit(limit)
       .select('id', 'form_slug', 'payload', 'created_at', 'ab_variation', 'ab_group_id')
+      .select('origin_post_id', 'assigned_to')
+      .select('status', 'spam_score', 'spam_reasons')
+      .select('notification_status', 'autoresponder_status', 'email_error')
+      .select(
+        db.raw(
+          '(SELECT COUNT(*) FROM form_submission_notes n WHERE n.submission_id = form_submissions.id) AS note_count'
+        )
+      )
 
     const submissions = submissionRows.map((r) => {
       const payload = r.payload || {}
@@ -62,10 +61,20 @@ export default class FormsAdminController {
         payload,
         abVariation: r.ab_variation ? String(r.ab_variation) : null,
         abGroupId: r.ab_group_id ? String(r.ab_group_id) : null,
+        originPostId: r.origin_post_id ? String(r.origin_post_id) : null,
+        assignedTo: r.assigned_to ?? null,
+        noteCount: Number(r.note_count || 0),
+        status: String(r.status),
+        spamScore: r.spam_score === null ? null : Number(r.spam_score),
+        spamReasons: Array.isArray(r.spam_reasons) ? r.spam_reasons : [],
+        notificationStatus: r.notification_status || null,
+        autoresponderStatus: r.autoresponder_status || null,
+        emailError: r.email_error || null,
       }
     })
 
-    const forms = formRegistry.list().map((f) => ({
+    const definitions = await formConfigService.list()
+    const forms = definitions.map((f) => ({
       slug: f.slug,
       title: f.title,
     }))
@@ -73,53 +82,53 @@ export default class FormsAdminController {
     return inertia.render('admin/forms/index', {
       submissions,
       forms,
+      users: await formSubmissionService.assignableUsers(),
+      filterOptions: await formSubmissionService.filterOptions(),
+      canEdit: roleRegistry.hasPermission(user?.role, 'forms.edit'),
+      currentUserId: user?.id ?? null,
       meta: {
         total,
         page,
         limit,
-        q,
-        formSlug,
+        q: filters.q,
+        formSlug: filters.formSlug,
+        status: filters.status === 'inbox' ? '' : filters.status,
+        assigned: typeof input.assigned === 'string' ? input.assigned : '',
+        from: filters.from || '',
+        to: filters.to || '',
+        variation: filters.abVariation,
+        originPostId: filters.originPostId,
       },
     })
   }
 
   /**
    * GET /api/forms-submissions/export
-   * Export submissions to CSV
+   * Export submissions to CSV (same filters as the inbox)
    */
   async exportCsv({ auth, request, response }: HttpContext) {
-    const role = (auth.use('web').user as any)?.role
-    if (!roleRegistry.hasPermission(role, 'forms.view')) {
+    const user = auth.use('web').user as any
+    if (!roleRegistry.hasPermission(user?.role, 'forms.view')) {
       return response.forbidden({ error: 'Not allowed to export submissions' })
     }
 
-    const q = request.input('q', '').trim()
-    const formSlug = request.input('form_slug', '').trim()
-
-    const query = db.from('form_submissions')
-
-    if (formSlug) {
-      query.where('form_slug', formSlug)
-    }
-
-    if (q) {
-      query.where((builder) => {
-        builder
-          .where('form_slug', 'LIKE', `%${q}%`)
-          .orWhereRaw('CAST(payload AS TEXT) LIKE ?', [`%${q}%`])
-      })
-    }
-
-    const rows = await query.orderBy('created_at', 'desc').select('*')
+    const filters = parseSubmissionFilters(request.qs(), user?.id ?? null)
+    const rows = await formSubmissionService
+      .query(filters)
+      .orderBy('created_at', 'desc')
+      .select('*')
 
     // Find all unique keys across all payloads to build headers
     const allKeys = new Set<string>([
       'id',
       'form_slug',
       'created_at',
+      'status',
+      'assigned_to',
       'ip_address',
       'ab_variation',
       'ab_group_id',
+      'origin_post_id',
     ])
     rows.forEach((r) => {
       const payload = r.payload || {}
@@ -133,9 +142,12 @@ export default class FormsAdminController {
         if (h === 'id') return r.id
         if (h === 'form_slug') return r.form_slug
         if (h === 'created_at') return r.created_at
+        if (h === 'status') return r.status
+        if (h === 'assigned_to') return r.assigned_to
         if (h === 'ip_address') return r.ip_address
         if (h === 'ab_variation') return r.ab_variation
         if (h === 'ab_group_id') return r.ab_group_id
+        if (h === 'origin_post_id') return r.origin_post_id
         if (h.startsWith('field:')) {
           const key = h.replace('field:', '')
           const val = payload[key]
@@ -153,12 +165,131 @@ export default class FormsAdminController {
     return response.send(csv)
   }
 
+  /**
+   * GET /api/forms-submissions/analytics?form_slug=&from=&to=
+   * Submissions over time and conversion by origin post for one form.
+   */
+  async analytics({ auth, request, response }: HttpContext) {
+    const role = (auth.use('web').user as any)?.role
+    if (!roleRegistry.hasPermission(role, 'forms.view')) {
+      return response.forbidden({ error: 'Not allowed to view form analytics' })
+    }
+
+    const formSlug = String(request.input('form_slug', '')).trim()
+    if (!formSlug) {
+      return response.badRequest({ error: 'form_slug is required' })
+    }
+
+    let range
+    try {
+      range = parseDateRange({ from: request.input('from'), to: request.input('to') })
+    } catch (error) {
+      if (!(error instanceof AnalyticsRangeException)) throw error
+      return response.badRequest({ error: error.message })
+    }
+    return response.ok({ data: await formSubmissionService.analytics(formSlug, range) })
+  }
+
+  /**
+   * GET /admin/forms/builder
+   * Form builder for forms stored in the database.
+   */
+  async builder({ inertia, auth, response }: HttpContext) {
+    const role = (auth.use('web').user as any)?.role
+    if (!roleRegistry.hasPermission(role, 'forms.view')) {
+      return response.redirect(adminPath('forbidden'))
+    }
+
+    return inertia.render('admin/forms/builder', {
+      forms: await formConfigService.list(),
+      canEdit: roleRegistry.hasPermission(role, 'forms.edit'),
+      canDelete: roleRegistry.hasPermission(role, 'forms.delete'),
+    })
+  }
+
   /**
    * GET /api/forms-definitions
-   * List all code-first form definitions (admin helper).
+   * List all form definitions: code-first forms and forms built in the admin.
+   */
+  async listDefinitions({ response, auth }: HttpContext) {
+    const role = (auth.use('web').user as any)?.role
+    if (!roleRegistry.hasPermission(role, 'forms.view')) {
+      return response.forbidden({ error: 'Not allowed to view forms' })
+    }
+
+    return response.ok({ data: await formConfigService.list() })
+  }
+
+  /**
+   * GET /api/forms-definitions/:slug
    */
-  async listDefinitions({ response }: HttpContext) {
-    return response.ok({ data: formRegistry.list() })
+  async showDefinition({ params, response, auth }: HttpContext) {
+    const role = (auth.use('web').user as any)?.role
+    if (!roleRegistry.hasPermission(role, 'forms.view')) {
+      return response.forbidden({ error: 'Not allowed to view forms' })
+    }
+
+    const form = await formConfigService.get(String(params.slug || ''))
+    if (!form) {
+      return response.notFound({ error: 'Form not found' })
+    }
+    return response.ok({ data: form })
+  }
+
+  /**
+   * POST /api/forms-definitions
+   */
+  async createDefinition({ request, response, auth }: HttpContext) {
+    const user = auth.use('web').user as any
+    if (!roleRegistry.hasPermission(user?.role, 'forms.edit')) {
+      return response.forbidden({ error: 'Not allowed to create forms' })
+    }
+
+    try {
+      const form = await formConfigService.create(request.body(), user?.id ?? null)
+      return response.created({ data: form })
+    } catch (error) {
+      return this.definitionError(response, error)
+    }
+  }
+
+  /**
+   * PUT /api/forms-definitions/:slug
+   */
+  async updateDefinition({ params, request, response, auth }: HttpContext) {
+    const user = auth.use('web').user as any
+    if (!roleRegistry.hasPermission(user?.role, 'forms.edit')) {
+      return response.forbidden({ error: 'Not allowed to edit forms' })
+    }
+
+    try {
+      const form = await formConfigService.update(
+        String(params.slug || ''),
+        request.body(),
+        user?.id ?? null
+      )
+      return response.ok({ data: form })
+    } catch (error) {
+      return this.definitionError(response, error)
+    }
+  }
+
+  /**
+   * DELETE /api/forms-definitions/:slug
+   * Submissions of the form are kept.
+   */
+  async deleteDefinition({ params, response, auth }: HttpContext) {
+    const role = (auth.use('web').user as any)?.role
+    if (!roleRegistry.hasPermission(role, 'forms.delete')) {
+      return response.forbidden({ error: 'Not allowed to delete forms' })
+    }
+
+    try {
+      await formConfigService.delete(String(params.slug || ''))
+      return response.noContent()
+    } catch (error) {
+      return this.definitionError(response, error)
+    }
   }
 
   /**
@@ -170,11 +301,156 @@ export default class FormsAdminController {
       return response.forbidden({ error: 'Not allowed to delete submissions' })
     }
 
-    const { id } = params
-    await db.from('form_submissions').where('id', id).delete()
+    await formSubmissionService.delete([String(params.id)])
     return response.noContent()
   }
 
+  /**
+   * GET /api/forms-submissions/:id/files/:field/:index
+   * Download an uploaded file. Always sent as an attachment so uploads never render inline.
+   */
+  async downloadFile({ params, response, auth }: HttpContext) {
+    const role = (auth.use('web').user as any)?.role
+    if (!roleRegistry.hasPermission(role, 'forms.view')) {
+      return response.forbidden({ error: 'Not allowed to view submissions' })
+    }
+
+    const index = Number.parseInt(String(params.index), 10)
+    if (!Number.isInteger(index) || index < 0) {
+      return response.badRequest({ error: 'Invalid file index' })
+    }
+
+    try {
+      const file = await formSubmissionService.upload(
+        String(params.id),
+        String(params.field),
+        index
+      )
+      response.header('Content-Type', 'application/octet-stream')
+      response.header('X-Content-Type-Options', 'nosniff')
+      response.header('Cache-Control', 'private, no-store')
+      return response.attachment(file.path, file.upload.name)
+    } catch (error) {
+      return this.submissionError(response, error)
+    }
+  }
+
+  /**
+   * POST /api/forms-submissions/:id/not-spam
+   * Release a quarantined submission and run the webhooks, workflows and agents it skipped.
+   */
+  async markNotSpam({ params, response, auth }: HttpContext) {
+    const role = (auth.use('web').user as any)?.role
+    if (!roleRegistry.hasPermission(role, 'forms.edit')) {
+      return response.forbidden({ error: 'Not allowed to review submissions' })
+    }
+
+    try {
+      await formSubmissionService.releaseSpam(String(params.id))
+      return response.ok({ message: 'Submission moved to the inbox' })
+    } catch (error) {
+      return this.submissionError(response, error)
+    }
+  }
+
+  /**
+   * PATCH /api/forms-submissions/:id
+   * Set the status (new, in_progress, done, spam) and/or the assignee (user id or null).
+   */
+  async updateSubmission({ params, request, response, auth }: HttpContext) {
+    const role = (auth.use('web').user as any)?.role
+    if (!roleRegistry.hasPermission(role, 'forms.edit')) {
+      return response.forbidden({ error: 'Not allowed to update submissions' })
+    }
+
+    try {
+      await formSubmissionService.update(String(params.id), this.readChanges(request.body()))
+      return response.ok({ message: 'Submission updated' })
+    } catch (error) {
+      return this.submissionError(response, error)
+    }
+  }
+
+  /**
+   * POST /api/forms-submissions/bulk-update
+   */
+  async bulkUpdate({ request, response, auth }: HttpContext) {
+    const role = (auth.use('web').user as any)?.role
+    if (!roleRegistry.hasPermission(role, 'forms.edit')) {
+      return response.forbidden({ error: 'Not allowed to update submissions' })
+    }
+
+    const body = request.body()
+    const ids = body.ids
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return response.badRequest({ error: 'No IDs provided' })
+    }
+
+    const changes = this.readChanges(body)
+    try {
+      for (const id of ids) await formSubmissionService.update(String(id), changes)
+      return response.ok({ message: `Updated ${ids.length} submissions` })
+    } catch (error) {
+      return this.submissionError(response, error)
+    }
+  }
+
+  /**
+   * GET /api/forms-submissions/:id/notes
+   */
+  async listNotes({ params, response, auth }: HttpContext) {
+    const role = (auth.use('web').user as any)?.role
+    if (!roleRegistry.hasPermission(role, 'forms.view')) {
+      return response.forbidden({ error: 'Not allowed to view notes' })
+    }
+
+    return response.ok({ data: await formSubmissionService.listNotes(String(params.id)) })
+  }
+
+  /**
+   * POST /api/forms-submissions/:id/notes
+   */
+  async addNote({ params, request, response, auth }: HttpContext) {
+    const user = auth.use('web').user as any
+    if (!roleRegistry.hasPermission(user?.role, 'forms.edit')) {
+      return response.forbidden({ error: 'Not allowed to add notes' })
+    }
+
+    try {
+      await formSubmissionService.addNote(
+        String(params.id),
+        user?.id ?? null,
+        request.input('body')
+      )
+      return response.created({ data: await formSubmissionService.listNotes(String(params.id)) })
+    } catch (error) {
+      return this.submissionError(response, error)
+    }
+  }
+
+  /**
+   * DELETE /api/forms-submissions/:id/notes/:noteId
+   * Authors can delete their own notes; forms.delete allows deleting any note.
+   */
+  async deleteNote({ params, response, auth }: HttpContext) {
+    const user = auth.use('web').user as any
+    if (!roleRegistry.hasPermission(user?.role, 'forms.edit')) {
+      return response.forbidden({ error: 'Not allowed to delete notes' })
+    }
+
+    try {
+      await formSubmissionService.deleteNote(
+        String(params.id),
+        String(params.noteId),
+        user?.id ?? null,
+        roleRegistry.hasPermission(user?.role, 'forms.delete')
+      )
+      return response.noContent()
+    } catch (error) {
+      return this.submissionError(response, error)
+    }
+  }
+
   /**
    * POST /api/forms-submissions/bulk-delete
    */
@@ -189,7 +465,25 @@ export default class FormsAdminController {
       return response.badRequest({ error: 'No IDs provided' })
     }
 
-    await db.from('form_submissions').whereIn('id', ids).delete()
+    await formSubmissionService.delete(ids.map(String))
     return response.ok({ message: `Deleted ${ids.length} submissions` })
   }
+
+  private readChanges(body: Record<string, any>): SubmissionChanges {
+    const changes: SubmissionChanges = {}
+    if (typeof body.status === 'string') changes.status = body.status
+    if (body.assignedTo === null || body.assignedTo === '') changes.assignedTo = null
+    else if (body.assignedTo !== undefined) changes.assignedTo = Number(body.assignedTo)
+    return changes
+  }
+
+  private submissionError(response: HttpContext['response'], error: unknown) {
+    if (!(error instanceof FormSubmissionException)) throw error
+    return response.status(error.status).send({ error: error.message })
+  }
+
+  private definitionError(response: HttpContext['response'], error: unknown) {
+    if (!(error instanceof FormConfigException)) throw error
+    return response.status(error.status).send({ error: error.message })
+  }
 }
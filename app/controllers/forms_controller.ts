@@ -1,8 +1,20 @@
 import type { HttpContext } from '@adonisjs/core/http'
 import db from '@adonisjs/lucid/services/db'
 import crypto from 'node:crypto'
-import webhookService from '#services/webhook_service'
-import formRegistry from '#services/form_registry'
+import formConfigService, { toPublicForm } from '#services/form_config_service'
+import privacyService from '#services/privacy_service'
+import formSpamService from '#services/form_spam_service'
+import formSubmissionService from '#services/form_submission_service'
+import formUploadService from '#services/form_upload_service'
+import {
+  parseStepParam,
+  resolveSteps,
+  validateSubmission,
+  type UploadedFileInfo,
+} from '#services/form_validation_service'
+import type { FormConfig } from '#types/form_types'
+
+type FormUpload = UploadedFileInfo & { tmpPath?: string }
 
 export default class FormsController {
   /**
@@ -11,31 +23,60 @@ export default class FormsController {
    */
   async show({ params, response }: HttpContext) {
     const slug = String(params.slug || '').trim()
-    const form = formRegistry.get(slug)
+    const form = await formConfigService.get(slug)
 
     if (!form) {
       return response.notFound({ error: 'Form not found' })
     }
 
-    return response.ok({ data: form })
+    // The definition carries a fresh form load token
+    response.header('Cache-Control', 'no-store')
+    return response.ok({
+      data: {
+        ...toPublicForm(form),
+        steps: resolveSteps(form),
+        spamProtection: formSpamService.clientConfig(form),
+      },
+    })
   }
 
   /**
    * POST /api/forms/:slug
    * Accepts a JSON body with field values keyed by field slug.
    * Example: { name: 'John', email: 'john@example.com', message: 'Hi' }
+   *
+   * Forms with file fields are sent as multipart: the values as JSON in `__json`
+   * and the files under their field slugs.
    */
   async submit({ params, request, response }: HttpContext) {
     const slug = String(params.slug || '').trim()
-    const form = formRegistry.get(slug)
+    const form = await formConfigService.get(slug)
 
     if (!form) {
       return response.notFound({ error: 'Form not found' })
     }
 
-    const body = request.body() as Record<string, unknown>
-    const errors: Record<string, string> = {}
-    const payload: Record<string, unknown> = {}
+    const body = this.readValues(request)
+    const uploads = this.readUploads(request, form)
+
+    // Multi-step forms validate each step before moving on: ?step=N only checks step N
+    const stepParam = request.qs().step
+    if (stepParam !== undefined) {
+      const step = parseStepParam(stepParam)
+      if (step === null) {
+        return response.badRequest({ error: 'Invalid step' })
+      }
+      const { errors } = validateSubmission(form, body, uploads, { step })
+      if (Object.keys(errors).length > 0) {
+        return response.badRequest({ errors })
+      }
+      return response.ok({ data: { valid: true } })
+    }
+
+    const { payload, errors, files } = validateSubmission(form, body, uploads)
+    if (Object.keys(errors).length > 0) {
+      return response.badRequest({ errors })
+    }
 
     // Extract A/B tracking info from silent fields or cookies
     const originPostId = body.__origin_post_id ? String(body.__origin_post_id) : null
@@ -55,44 +96,17 @@ export default class FormsController {
       }
     }
 
-    for (const field of form.fields) {
-      if (field.slug.startsWith('__')) continue // Skip internal fields
-      const raw = body[field.slug]
-      const val = typeof raw === 'string' ? raw.trim() : raw === undefined ? undefined : raw
-
-      if (field.required && (val === undefined || val === null || val === '')) {
-        errors[field.slug] = 'This field is required.'
-        continue
-      }
-
-      // Basic email validation for text fields with slug 'email' or if we want to be more explicit
-      if (
-        (field.slug === 'email' || field.type === ('email' as any)) &&
-        typeof val === 'string' &&
-        val
-      ) {
-        const simpleEmail = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-        if (!simpleEmail.test(val)) {
-          errors[field.slug] = 'Please enter a valid email address.'
-          continue
-        }
-      }
-
-      if (field.type === 'boolean') {
-        payload[field.slug] = Boolean(val)
-      } else if (val !== undefined) {
-        payload[field.slug] = val
-      } else {
-        payload[field.slug] = null
-      }
-    }
-
-    if (Object.keys(errors).length > 0) {
-      return response.badRequest({ errors })
+    // Spam is stored for review but its files are not kept
+    const spam = await formSpamService.check(form, body, payload, request.ip())
+    for (const [fieldSlug, fieldFiles] of Object.entries(files)) {
+      payload[fieldSlug] = spam.spam
+        ? null
+        : await Promise.all(fieldFiles.map((file) => formUploadService.store(slug, file)))
     }
 
     const now = new Date()
-    const ip = request.ip()
+    // Stored truncated, hashed or not at all depending on CMS_PRIVACY_IP_MODE
+    const ip = await privacyService.storedIp(request.ip())
     const userAgent = request.header('user-agent') || null
 
     const [inserted] = await db
@@ -106,6 +120,9 @@ export default class FormsController {
         origin_post_id: originPostId,
         ip_address: ip,
         user_agent: userAgent,
+        status: spam.spam ? 'spam' : 'new',
+        spam_score: spam.score,
+        spam_reasons: JSON.stringify(spam.reasons),
         created_at: now,
         updated_at: now,
       })
@@ -113,28 +130,9 @@ export default class FormsController {
 
     const submissionId = (inserted as any)?.id
 
-    // Fire global webhooks for form submission
-    try {
-      await webhookService.dispatch('form.submitted', {
-        formSlug: slug,
-        submissionId,
-        payload,
-      })
-    } catch {
-      // Webhook failures should not block the user-facing success response.
-    }
-
-    // Fire any per-form subscriptions
-    if (Array.isArray(form.subscriptions) && form.subscriptions.length > 0) {
-      try {
-        await webhookService.dispatchToWebhooks(form.subscriptions, 'form.submitted', {
-          formSlug: slug,
-          submissionId,
-          payload,
-        })
-      } catch {
-        // Ignore subscription-specific errors
-      }
+    // Quarantined submissions get the normal response so bots learn nothing
+    if (!spam.spam) {
+      await formSubmissionService.dispatchSubmitted({ form, submissionId, payload, originPostId })
     }
 
     // Optional thank-you redirect
@@ -154,4 +152,31 @@ export default class FormsController {
       },
     })
   }
+
+  private readValues(request: HttpContext['request']): Record<string, unknown> {
+    const body = request.body() as Record<string, unknown>
+    if (typeof body.__json !== 'string') return body
+    try {
+      const values = JSON.parse(body.__json)
+      return values && typeof values === 'object' && !Array.isArray(values) ? values : {}
+    } catch {
+      return {}
+    }
+  }
+
+  private readUploads(request: HttpContext['request'], form: FormConfig) {
+    const uploads: Record<string, FormUpload[]> = {}
+    for (const field of form.fields) {
+      if (field.type !== 'file') continue
+      const files = request.files(field.slug)
+      uploads[field.slug] = files.map((file) => ({
+        clientName: file.clientName,
+        size: file.size,
+        mime: file.type && file.subtype ? `${file.type}/${file.subtype}` : null,
+        extname: file.extname || null,
+        tmpPath: file.tmpPath,
+      }))
+    }
+    return uploads
+  }
 }
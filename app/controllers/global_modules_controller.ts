@@ -1,6 +1,20 @@
 import type { HttpContext } from '@adonisjs/core/http'
 import db from '@adonisjs/lucid/services/db'
 import roleRegistry from '#services/role_registry'
+import searchIndexService from '#services/search_index_service'
+import dispatchWebhookAction from '#actions/dispatch_webhook_action'
+
+/**
+ * Webhook payload shared by the module.global.* events
+ */
+function globalModuleWebhookData(row: any) {
+  return {
+    id: row.id,
+    type: row.type,
+    globalSlug: row.global_slug,
+    label: row.global_label ?? null,
+  }
+}
 
 export default class GlobalModulesController {
   /**
@@ -99,6 +113,10 @@ export default class GlobalModulesController {
           updated_at: now,
         })
         .returning('*')
+      await dispatchWebhookAction.handle({
+        event: 'module.global.created',
+        data: globalModuleWebhookData(row),
+      })
       return response.created({
         data: {
           id: (row as any).id,
@@ -149,6 +167,19 @@ export default class GlobalModulesController {
         .andWhere('scope', 'global')
         .update(update)
       if (!count) return response.notFound({ error: 'Global module not found' })
+      if (propsRaw !== undefined) {
+        // Global content is rendered on every post that references it
+        await searchIndexService.syncPostsUsingModule(id).catch(() => {})
+      }
+      const updated = await db.from('module_instances').where('id', id).first()
+      const usage = await db.from('post_modules').where('module_id', id).select('post_id')
+      await dispatchWebhookAction.handle({
+        event: 'module.global.updated',
+        data: {
+          ...globalModuleWebhookData(updated),
+          postIds: Array.from(new Set(usage.map((u: any) => String(u.post_id)))),
+        },
+      })
       return response.ok({ message: 'Updated' })
     } catch (e: any) {
       const msg = (e?.message || '').toLowerCase()
@@ -177,12 +208,17 @@ export default class GlobalModulesController {
     const cnt = Number((usage?.[0] as any)?.cnt || 0)
     if (cnt > 0)
       return response.badRequest({ error: 'Cannot delete a module while it is referenced' })
-    const deleted = await db
+    const row = await db
       .from('module_instances')
       .where('id', id)
       .andWhere('scope', 'global')
-      .delete()
-    if (!deleted) return response.notFound({ error: 'Global module not found' })
+      .first()
+    if (!row) return response.notFound({ error: 'Global module not found' })
+    await db.from('module_instances').where('id', id).andWhere('scope', 'global').delete()
+    await dispatchWebhookAction.handle({
+      event: 'module.global.deleted',
+      data: globalModuleWebhookData(row),
+    })
     return response.noContent()
   }
 
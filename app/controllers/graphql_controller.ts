@@ -0,0 +1,71 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import { execute, parse, printSchema, specifiedRules, validate, type DocumentNode } from 'graphql'
+import graphqlSchemaService from '#services/graphql_schema_service'
+import postRenderingService from '#services/post_rendering_service'
+
+/**
+ * GraphQL Controller
+ *
+ * Read-only GraphQL endpoint over published content, authenticated with a
+ * delivery token like the REST delivery API.
+ */
+export default class GraphqlController {
+  /**
+   * GET|POST /api/graphql
+   * Body/query: { query: string, variables?: object, operationName?: string }
+   */
+  async handle({ request, response }: HttpContext) {
+    const query = request.input('query')
+    if (!query || typeof query !== 'string') {
+      return response.badRequest({ errors: [{ message: 'query is required' }] })
+    }
+
+    let variables = request.input('variables')
+    if (typeof variables === 'string') {
+      try {
+        variables = JSON.parse(variables)
+      } catch {
+        return response.badRequest({ errors: [{ message: 'variables must be valid JSON' }] })
+      }
+    }
+
+    const schema = graphqlSchemaService.getSchema()
+    let document: DocumentNode
+    try {
+      document = parse(query)
+    } catch (error) {
+      return response.ok({ errors: [error] })
+    }
+
+    // Depth and complexity limits run with the spec rules, before any resolver
+    const errors = validate(schema, document, [
+      ...specifiedRules,
+      ...graphqlSchemaService.validationRules(),
+    ])
+    if (errors.length > 0) {
+      return response.ok({ errors })
+    }
+
+    const result = await execute({
+      schema,
+      document,
+      variableValues: variables || undefined,
+      operationName: request.input('operationName') || undefined,
+      contextValue: graphqlSchemaService.createContext(
+        postRenderingService.getProtocolFromRequest(request),
+        postRenderingService.getHostFromRequest(request)
+      ),
+    })
+
+    return response.ok(result)
+  }
+
+  /**
+   * GET /api/graphql/schema
+   * Schema in SDL, for client code generation
+   */
+  async schema({ response }: HttpContext) {
+    response.header('Content-Type', 'text/plain; charset=utf-8')
+    return response.send(printSchema(graphqlSchemaService.getSchema()))
+  }
+}
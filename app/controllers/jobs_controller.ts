@@ -0,0 +1,72 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import jobRegistry from '#services/job_registry'
+import jobSchedulerService from '#services/job_scheduler_service'
+import activityLogService from '#services/activity_log_service'
+
+/**
+ * Jobs Controller
+ *
+ * Admin endpoints for the scheduled job subsystem:
+ * - List registered jobs with schedule, next run and last run
+ * - Run history per job
+ * - Run a job now
+ */
+export default class JobsController {
+  /**
+   * GET /admin/jobs
+   * Jobs dashboard page
+   */
+  async index({ inertia }: HttpContext) {
+    return inertia.render('admin/jobs/index')
+  }
+
+  /**
+   * GET /api/jobs
+   */
+  async list({ response }: HttpContext) {
+    const jobs = await jobSchedulerService.listJobs()
+    return response.ok({ data: jobs })
+  }
+
+  /**
+   * GET /api/jobs/:id/runs
+   */
+  async runs({ params, request, response }: HttpContext) {
+    if (!jobRegistry.has(params.id)) {
+      return response.notFound({ error: 'Job not found' })
+    }
+    const limit = Math.min(200, Math.max(1, Number(request.input('limit', 50)) || 50))
+    const runs = await jobSchedulerService.listRuns(params.id, limit)
+    return response.ok({ data: runs })
+  }
+
+  /**
+   * POST /api/jobs/:id/run
+   * Run a job immediately (waits for it to finish)
+   */
+  async run({ params, auth, request, response }: HttpContext) {
+    if (!jobRegistry.has(params.id)) {
+      return response.notFound({ error: 'Job not found' })
+    }
+
+    const userId = auth.use('web').user?.id ?? null
+    const run = await jobSchedulerService.runNow(params.id, userId)
+    if (!run) {
+      return response.conflict({ error: 'Job is already running on another worker' })
+    }
+
+    try {
+      await activityLogService.log({
+        action: 'job.run',
+        userId,
+        entityType: 'job',
+        entityId: params.id,
+        ip: request.ip(),
+        userAgent: request.header('user-agent') || null,
+        metadata: { runId: run.id, status: run.status },
+      })
+    } catch {}
+
+    return response.ok({ data: run })
+  }
+}
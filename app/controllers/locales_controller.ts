@@ -4,6 +4,16 @@ import db from '@adonisjs/lucid/services/db'
 import { updateLocaleValidator } from '#validators/locale'
 import roleRegistry from '#services/role_registry'
 
+function serializeLocale(row: any) {
+  return {
+    code: row.code,
+    isDefault: row.is_default,
+    isEnabled: row.is_enabled,
+    fallbacks: Array.isArray(row.fallbacks) ? row.fallbacks : [],
+    hostname: row.hostname || null,
+  }
+}
+
 /**
  * Controller for managing locales
  */
@@ -22,7 +32,7 @@ export default class LocalesController {
     const defaultLocale = rows.find((r) => r.is_default)?.code
 
     return response.json({
-      data: rows.map((r) => ({ code: r.code, isDefault: r.is_default, isEnabled: r.is_enabled })),
+      data: rows.map(serializeLocale),
       meta: {
         defaultLocale: defaultLocale || 'en',
         total: rows.length,
@@ -45,13 +55,13 @@ export default class LocalesController {
       return response.notFound({ error: 'Locale not found', code: locale })
     }
     return response.json({
-      data: { code: row.code, isDefault: row.is_default, isEnabled: row.is_enabled },
+      data: serializeLocale(row),
     })
   }
 
   /**
    * PATCH /api/locales/:locale
-   * Body: { isEnabled?: boolean, isDefault?: boolean }
+   * Body: { isEnabled?: boolean, isDefault?: boolean, fallbacks?: string[], hostname?: string | null }
    */
   async update({ params, request, response, auth }: HttpContext) {
     const role = (auth.use('web').user as any)?.role
@@ -59,7 +69,8 @@ export default class LocalesController {
       return response.forbidden({ error: 'Not allowed to update locales' })
     }
     const { locale } = params
-    const { isEnabled, isDefault } = await request.validateUsing(updateLocaleValidator)
+    const { isEnabled, isDefault, fallbacks, hostname } =
+      await request.validateUsing(updateLocaleValidator)
     const code = String(locale).toLowerCase()
     const row = await db.from('locales').where('code', code).first()
     if (!row) {
@@ -89,8 +100,34 @@ export default class LocalesController {
         }
       }
     }
+    if (fallbacks !== undefined) {
+      const chain = Array.from(new Set(fallbacks)).filter((c) => c !== code)
+      const known = await db.from('locales').whereIn('code', chain).select('code')
+      const knownCodes = new Set(known.map((r) => r.code))
+      const unknown = chain.filter((c) => !knownCodes.has(c))
+      if (unknown.length > 0) {
+        return response.badRequest({ error: `Unknown fallback locale(s): ${unknown.join(', ')}` })
+      }
+      updates.fallbacks = JSON.stringify(chain)
+    }
+    if (hostname !== undefined) {
+      if (hostname) {
+        const taken = await db
+          .from('locales')
+          .where('hostname', hostname)
+          .whereNot('code', code)
+          .first()
+        if (taken) {
+          return response.badRequest({
+            error: `Hostname is already used by locale ${taken.code}`,
+          })
+        }
+      }
+      updates.hostname = hostname || null
+    }
     const [updated] = await db.from('locales').where('code', code).update(updates).returning('*')
-    return response.ok({ data: updated, message: 'Locale updated' })
+    await localeService.loadSettings(true)
+    return response.ok({ data: serializeLocale(updated), message: 'Locale updated' })
   }
 
   /**
@@ -112,6 +149,9 @@ export default class LocalesController {
       return response.badRequest({ error: 'Cannot delete the default locale' })
     }
     await db.from('locales').where('code', code).delete()
+    // Drop the deleted locale from other locales' fallback chains
+    await db.rawQuery('UPDATE locales SET fallbacks = fallbacks - ?::text', [code])
+    await localeService.loadSettings(true)
     return response.noContent()
   }
 }
@@ -4,6 +4,7 @@ import db from '@adonisjs/lucid/services/db'
 import { randomUUID } from 'node:crypto'
 import roleRegistry from '#services/role_registry'
 import menuService from '#services/menu_service'
+import dispatchWebhookAction from '#actions/dispatch_webhook_action'
 import {
   createMenuValidator,
   updateMenuValidator,
@@ -12,6 +13,29 @@ import {
   reorderMenuItemsValidator,
 } from '#validators/menu'
 
+type MenuChange =
+  | 'menu'
+  | 'item.created'
+  | 'item.updated'
+  | 'item.deleted'
+  | 'items.reordered'
+  | 'variations.generated'
+
+/**
+ * Webhook payload shared by the menu.* events. Item-level edits are reported as
+ * `menu.updated` with `change` set, so consumers only need to watch one event.
+ */
+function menuWebhookData(menu: any, change: MenuChange, extra: Record<string, unknown> = {}) {
+  return {
+    id: menu.id,
+    name: menu.name,
+    slug: menu.slug,
+    locale: menu.locale,
+    change,
+    ...extra,
+  }
+}
+
 export default class MenusController {
   async index({ response }: HttpContext) {
     const rows = await db.from('menus').orderBy('updated_at', 'desc')
@@ -49,8 +73,9 @@ export default class MenusController {
     }
     const { name, slug, locale, template, meta } = await request.validateUsing(createMenuValidator)
     const now = new Date()
+    const menuId = randomUUID()
     await db.table('menus').insert({
-      id: randomUUID(),
+      id: menuId,
       name,
       slug,
       locale,
@@ -62,6 +87,10 @@ export default class MenusController {
       created_at: now,
       updated_at: now,
     })
+    await dispatchWebhookAction.handle({
+      event: 'menu.created',
+      data: menuWebhookData({ id: menuId, name, slug, locale }, 'menu'),
+    })
     return response.created({ message: 'Created' })
   }
 
@@ -152,6 +181,10 @@ export default class MenusController {
         meta && typeof meta === 'object' ? JSON.stringify(meta) : JSON.stringify({})
     }
     await db.from('menus').where('id', id).update(update)
+    await dispatchWebhookAction.handle({
+      event: 'menu.updated',
+      data: menuWebhookData({ ...row, ...update }, 'menu'),
+    })
     return response.ok({ message: 'Updated' })
   }
 
@@ -168,6 +201,10 @@ export default class MenusController {
     const exists = await db.from('menus').where('id', id).first()
     if (!exists) return response.notFound({ error: 'Menu not found' })
     await db.from('menus').where('id', id).delete()
+    await dispatchWebhookAction.handle({
+      event: 'menu.deleted',
+      data: menuWebhookData(exists, 'menu'),
+    })
     return response.noContent()
   }
 
@@ -246,6 +283,10 @@ export default class MenusController {
       locale: itemLocale,
     }
     await db.table('menu_items').insert(row)
+    await dispatchWebhookAction.handle({
+      event: 'menu.updated',
+      data: menuWebhookData(menu, 'item.created', { itemId: row.id, itemLocale }),
+    })
     return response.created({ message: 'Created' })
   }
 
@@ -339,6 +380,16 @@ export default class MenusController {
     if (parentId !== undefined) update.parent_id = parentId
     if (orderIndex !== undefined) update.order_index = orderIndex
     await db.from('menu_items').where('id', id).update(update)
+    const menu = await db.from('menus').where('id', row.menu_id).first()
+    if (menu) {
+      await dispatchWebhookAction.handle({
+        event: 'menu.updated',
+        data: menuWebhookData(menu, 'item.updated', {
+          itemId: id,
+          itemLocale: update.locale ?? row.locale,
+        }),
+      })
+    }
     return response.ok({ message: 'Updated' })
   }
 
@@ -382,6 +433,17 @@ export default class MenusController {
     await db.transaction(async (trx) => {
       await trx.from('menu_items').whereIn('id', idsToDelete).delete()
     })
+    const menu = await db.from('menus').where('id', menuId).first()
+    if (menu) {
+      await dispatchWebhookAction.handle({
+        event: 'menu.updated',
+        data: menuWebhookData(menu, 'item.deleted', {
+          itemId: String(id),
+          itemLocale: locale || null,
+          deletedItemIds: idsToDelete,
+        }),
+      })
+    }
     return response.noContent()
   }
 
@@ -457,6 +519,13 @@ export default class MenusController {
           await trx.from('menu_items').where('id', it.id).update(update)
         }
       })
+      const menu = await db.from('menus').where('id', scopeMenuId).first()
+      if (menu) {
+        await dispatchWebhookAction.handle({
+          event: 'menu.updated',
+          data: menuWebhookData(menu, 'items.reordered', { itemLocale: scopeLocale }),
+        })
+      }
       return response.ok({ updated: sanitized.length })
     } catch (e: any) {
       return response.badRequest({ error: e?.message || 'Failed to reorder menu items' })
@@ -616,6 +685,10 @@ export default class MenusController {
         }
       })
     }
+    await dispatchWebhookAction.handle({
+      event: 'menu.updated',
+      data: menuWebhookData(menu, 'variations.generated', { fromLocale, toLocales }),
+    })
     return response.ok({ generated: toLocales.length })
   }
 }
@@ -10,3 +10,4 @@ export { default as PostsViewController } from './posts_view_controller.js'
 export { default as PostsModulesController } from './posts_modules_controller.js'
 export { default as PostsRevisionsController } from './posts_revisions_controller.js'
 export { default as PostsExportController } from './posts_export_controller.js'
+export { default as PostsScheduledApprovalsController } from './posts_scheduled_approvals_controller.js'
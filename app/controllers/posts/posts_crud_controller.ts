@@ -16,6 +16,7 @@ import restorePostAction from '#actions/posts/restore_post_action'
 import reorderPostsAction from '#actions/posts/reorder_posts_action'
 import updatePostAuthorAction from '#actions/posts/update_post_author_action'
 import getPostAbStatsAction from '#actions/posts/get_post_ab_stats_action'
+import abTestService from '#services/ab_test_service'
 import db from '@adonisjs/lucid/services/db'
 import authorizationService from '#services/authorization_service'
 import RevisionService from '#services/revision_service'
@@ -225,6 +226,7 @@ export default class PostsCrudController extends BasePostsController {
           ? ((payload as any).taxonomyTermIds as string[])
           : undefined,
         scheduledAt: (payload as any).scheduledAt,
+        unpublishAt: (payload as any).unpublishAt,
       })
 
       // Update custom fields
@@ -447,13 +449,46 @@ export default class PostsCrudController extends BasePostsController {
    */
   async getAbStats({ params, response }: HttpContext) {
     try {
-      const stats = await getPostAbStatsAction.handle({ postId: params.id })
-      return response.ok({ data: stats })
+      const { stats, settings, decision } = await getPostAbStatsAction.evaluate(params.id)
+      return response.ok({ data: stats, settings, decision })
     } catch (error: any) {
       return this.response.badRequest(response, error.message || 'Failed to get stats')
     }
   }
 
+  /**
+   * PUT /api/posts/:id/ab-settings
+   * Set the conversion goal and auto-promotion rule of the post's A/B group.
+   * Auto-promotion runs as the user who saved the settings, so it needs publish rights.
+   */
+  async updateAbSettings({ params, request, response, auth }: HttpContext) {
+    const post = await Post.find(params.id)
+    if (!post) return this.response.notFound(response, 'Post not found')
+
+    const role = (auth.use('web').user as any)?.role
+    if (!roleRegistry.hasPermission(role, 'posts.publish', post.type)) {
+      return this.response.forbidden(response, 'Not allowed to change A/B test settings')
+    }
+
+    try {
+      const settings = await abTestService.saveSettings(
+        post.abGroupId || post.id,
+        request.only([
+          'goalType',
+          'goalSelector',
+          'goalUrl',
+          'minViews',
+          'threshold',
+          'autoPromote',
+        ]),
+        auth.user?.id ?? null
+      )
+      return response.ok({ data: settings })
+    } catch (error: any) {
+      return this.response.badRequest(response, error.message || 'Failed to save A/B settings')
+    }
+  }
+
   // Private helper methods
 
   private async saveReviewDraft(
@@ -477,30 +512,7 @@ export default class PostsCrudController extends BasePostsController {
     auth: HttpContext['auth'],
     response: HttpContext['response']
   ) {
-    const current = await Post.findOrFail(id)
-    const rd = coerceJsonObject(current.reviewDraft)
-
-    // Check if there are any Review changes (post-level or module-level)
-    const hasPostDraft = Object.keys(rd).length > 0
-    const hasModuleChanges = await db
-      .from('module_instances')
-      .whereIn('id', db.from('post_modules').where('post_id', id).select('module_id'))
-      .whereNotNull('review_props')
-      .first()
-    const hasJoinChanges = await db
-      .from('post_modules')
-      .where('post_id', id)
-      .where((q) =>
-        q
-          .whereNotNull('review_overrides')
-          .orWhere('review_added', true)
-          .orWhere('review_deleted', true)
-      )
-      .first()
-
-    // Relaxed check: if the column exists in DB, we'll try to promote.
-    // We only block if we are CERTAIN there is nothing.
-    const hasAnyDraftData = hasPostDraft || !!hasModuleChanges || !!hasJoinChanges
+    const hasAnyDraftData = await ApproveReviewDraft.hasChanges(id)
 
     if (!hasAnyDraftData) {
       return response.ok({ message: 'No review changes found to promote', promoted: false })
@@ -7,6 +7,7 @@ import cmsConfig from '#config/cms'
 import PostListItemDto from '#dtos/post_list_item_dto'
 import postTypeConfigService from '#services/post_type_config_service'
 import postTypeRegistry from '#services/post_type_registry'
+import translationStalenessService from '#services/translation_staleness_service'
 
 /**
  * Posts List Controller
@@ -227,6 +228,8 @@ export default class PostsListController extends BasePostsController {
       // Optional: include translation family locales
       const withTranslations = String(request.input('withTranslations', '0')).trim() === '1'
       let baseIdToLocales: Map<string, Set<string>> | undefined
+      // Outdated translations per family: baseId -> locale -> changed field/module labels
+      let baseIdToOutdated: Map<string, Record<string, string[]>> | undefined
 
       if (withTranslations && rows.length > 0) {
         const baseIds = Array.from(new Set(rows.map((p) => p.translationOfId || p.id)))
@@ -234,7 +237,13 @@ export default class PostsListController extends BasePostsController {
           .where((builder) => {
             builder.whereIn('translation_of_id', baseIds).orWhereIn('id', baseIds)
           })
-          .select('id', 'translation_of_id', 'locale') // Optimized select
+          .select(
+            'id',
+            'translation_of_id',
+            'locale',
+            'translation_source_hashes',
+            'translation_synced_at'
+          ) // Optimized select
 
         baseIdToLocales = new Map()
         familyPosts.forEach((fp) => {
@@ -242,6 +251,16 @@ export default class PostsListController extends BasePostsController {
           if (!baseIdToLocales!.has(baseId)) baseIdToLocales!.set(baseId, new Set())
           baseIdToLocales!.get(baseId)!.add(fp.locale)
         })
+
+        const outdated = await translationStalenessService.outdatedMany(familyPosts)
+        baseIdToOutdated = new Map()
+        familyPosts.forEach((fp) => {
+          const changed = outdated.get(fp.id)
+          if (!changed || !fp.translationOfId) return
+          const byLocale = baseIdToOutdated!.get(fp.translationOfId) || {}
+          byLocale[fp.locale] = changed
+          baseIdToOutdated!.set(fp.translationOfId, byLocale)
+        })
       }
 
       const items = rows.map((p) => {
@@ -253,6 +272,7 @@ export default class PostsListController extends BasePostsController {
         return new PostListItemDto(p, {
           url: urlMap.get(p.id) || null,
           familyLocales,
+          outdatedLocales: withTranslations ? baseIdToOutdated?.get(baseId) || {} : undefined,
           hasReviewDraft: Boolean((p as any).reviewDraft),
           isDeleted: (p as any).deletedAt !== null,
         })
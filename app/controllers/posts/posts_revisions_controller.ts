@@ -4,6 +4,7 @@ import UpdatePost from '#actions/posts/update_post'
 import db from '@adonisjs/lucid/services/db'
 import authorizationService from '#services/authorization_service'
 import PostSnapshotService from '#services/post_snapshot_service'
+import syncSearchIndexAction from '#actions/sync_search_index_action'
 import BasePostsController from './base_posts_controller.js'
 
 /**
@@ -104,6 +105,7 @@ export default class PostsRevisionsController extends BasePostsController {
       }
 
       await PostSnapshotService.restoreActiveVersionsSnapshot(id, snapshot)
+      await syncSearchIndexAction.handle({ postIds: [id] })
 
       // Log activity
       try {
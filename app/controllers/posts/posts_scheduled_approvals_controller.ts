@@ -0,0 +1,114 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import Post from '#models/post'
+import ApproveReviewDraft from '#actions/posts/approve_review_draft'
+import activityLogService from '#services/activity_log_service'
+import roleRegistry from '#services/role_registry'
+import scheduledReviewApprovalService from '#services/scheduled_review_approval_service'
+import BasePostsController from './base_posts_controller.js'
+
+/**
+ * Posts Scheduled Approvals Controller
+ *
+ * Schedule, list and cancel timed promotion of a post's Review draft to Source.
+ */
+export default class PostsScheduledApprovalsController extends BasePostsController {
+  /**
+   * GET /api/posts/:id/scheduled-approvals
+   * Pending schedule plus recent history for a post
+   */
+  async index({ params, request, response }: HttpContext) {
+    const limit = Math.min(50, Math.max(1, Number(request.input('limit', 20)) || 20))
+    const items = await scheduledReviewApprovalService.listForPost(params.id, limit)
+    return response.ok({
+      data: items,
+      pending: items.find((i) => i.status === 'pending') || null,
+    })
+  }
+
+  /**
+   * POST /api/posts/:id/scheduled-approvals
+   * Schedule approval of the Review draft; replaces any pending schedule
+   */
+  async store({ params, request, response, auth }: HttpContext) {
+    const post = await Post.find(params.id)
+    if (!post) {
+      return this.response.notFound(response, 'Post not found')
+    }
+    const role = (auth.use('web').user as any)?.role
+    if (!roleRegistry.hasPermission(role, 'posts.review.approve', post.type)) {
+      return this.response.forbidden(response, 'Not allowed to approve review')
+    }
+
+    const raw = request.input('scheduledFor')
+    const scheduledFor = raw ? new Date(String(raw)) : null
+    if (!scheduledFor || Number.isNaN(scheduledFor.getTime())) {
+      return this.response.badRequest(response, 'scheduledFor must be a valid date')
+    }
+    if (scheduledFor.getTime() <= Date.now()) {
+      return this.response.badRequest(response, 'scheduledFor must be in the future')
+    }
+    if (!(await ApproveReviewDraft.hasChanges(post.id))) {
+      return this.response.badRequest(response, 'No review changes found to schedule')
+    }
+
+    const userId = auth.user?.id ?? null
+    const scheduled = await scheduledReviewApprovalService.schedule(post.id, scheduledFor, userId)
+
+    try {
+      await activityLogService.log({
+        action: 'post.review.schedule',
+        userId,
+        entityType: 'post',
+        entityId: post.id,
+        metadata: { scheduledApprovalId: scheduled.id, scheduledFor: scheduled.scheduledFor },
+        ip: request.ip(),
+        userAgent: request.header('user-agent') || null,
+      })
+    } catch {
+      /* ignore */
+    }
+
+    return this.response.created(response, scheduled, 'Review approval scheduled')
+  }
+
+  /**
+   * DELETE /api/posts/:id/scheduled-approvals/:approvalId
+   * Cancel a pending scheduled approval
+   */
+  async destroy({ params, request, response, auth }: HttpContext) {
+    const post = await Post.find(params.id)
+    if (!post) {
+      return this.response.notFound(response, 'Post not found')
+    }
+    const role = (auth.use('web').user as any)?.role
+    if (!roleRegistry.hasPermission(role, 'posts.review.approve', post.type)) {
+      return this.response.forbidden(response, 'Not allowed to approve review')
+    }
+
+    const userId = auth.user?.id ?? null
+    const cancelled = await scheduledReviewApprovalService.cancel(
+      post.id,
+      params.approvalId,
+      userId
+    )
+    if (!cancelled) {
+      return this.response.notFound(response, 'No pending scheduled approval found')
+    }
+
+    try {
+      await activityLogService.log({
+        action: 'post.review.schedule.cancel',
+        userId,
+        entityType: 'post',
+        entityId: post.id,
+        metadata: { scheduledApprovalId: params.approvalId },
+        ip: request.ip(),
+        userAgent: request.header('user-agent') || null,
+      })
+    } catch {
+      /* ignore */
+    }
+
+    return response.ok({ message: 'Scheduled approval cancelled' })
+  }
+}
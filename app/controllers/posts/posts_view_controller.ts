@@ -10,6 +10,7 @@ import roleRegistry from '#services/role_registry'
 import { adminPath } from '#services/admin_path_service'
 import taxonomyService from '#services/taxonomy_service'
 import activityLogService from '#services/activity_log_service'
+import localeService from '#services/locale_service'
 import BasePostsController from './base_posts_controller.js'
 import PostModule from '#models/post_module'
 import ModuleInstance from '#models/module_instance'
@@ -528,6 +529,7 @@ export default class PostsViewController extends BasePostsController {
           socialDescription: post.socialDescription,
           socialImageId: post.socialImageId,
           scheduledAt: post.scheduledAt ? post.scheduledAt.toISO() : null,
+          unpublishAt: post.unpublishAt ? post.unpublishAt.toISO() : null,
           orderIndex: post.orderIndex,
           createdAt: post.createdAt.toISO(),
           updatedAt: post.updatedAt.toISO(),
@@ -535,6 +537,7 @@ export default class PostsViewController extends BasePostsController {
           author,
           abVariation: post.abVariation || (post.abGroupId || variations.length > 0 ? 'A' : null),
           abGroupId: post.abGroupId,
+          translationOfId: post.translationOfId,
         },
         reviewDraft: hasRd ? rd : null,
         aiReviewDraft: hasArd ? ard : null,
@@ -632,7 +635,10 @@ export default class PostsViewController extends BasePostsController {
     const path = request.url().split('?')[0]
     const isAuthenticated = await auth.use('web').check()
 
-    const match = await urlPatternService.matchPath(path)
+    // Country domains (locales with their own hostname) prefer their own URL patterns
+    await localeService.loadSettings()
+    const hostLocale = localeService.getLocaleForHostname(request.hostname())
+    const match = await urlPatternService.matchPath(path, hostLocale)
 
     if (!match) {
       // Log 404 for SEO monitoring
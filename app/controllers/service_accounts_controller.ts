@@ -0,0 +1,156 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import apiTokenService, { parseTokenExpiry } from '#services/api_token_service'
+import serviceAccountService from '#services/service_account_service'
+import activityLogService from '#services/activity_log_service'
+import responseService from '#services/response_service'
+import roleRegistry from '#services/role_registry'
+import { createApiTokenValidator, createServiceAccountValidator } from '#validators/api_token'
+import type User from '#models/user'
+
+function serializeAccount(user: User) {
+  return {
+    id: user.id,
+    name: user.fullName,
+    username: user.username,
+    email: user.email,
+    role: user.role,
+    createdAt: user.createdAt?.toISO() ?? null,
+  }
+}
+
+/**
+ * Service Accounts Controller
+ *
+ * Non-interactive users for CI scripts and integrations, and their API tokens.
+ */
+export default class ServiceAccountsController {
+  /**
+   * GET /api/service-accounts
+   */
+  async index({ auth, response }: HttpContext) {
+    if (!roleRegistry.hasPermission(auth.user?.role, 'admin.users.manage')) {
+      return response.forbidden({ error: 'Not allowed to manage users' })
+    }
+    const accounts = await serviceAccountService.list()
+    return response.ok({ data: accounts.map(serializeAccount) })
+  }
+
+  /**
+   * POST /api/service-accounts
+   * Body: { name: string, role: string }
+   */
+  async store({ request, response, auth }: HttpContext) {
+    const me = auth.getUserOrFail()
+    if (!roleRegistry.hasPermission(me.role, 'admin.users.manage')) {
+      return response.forbidden({ error: 'Not allowed to manage users' })
+    }
+    const { name, role } = await request.validateUsing(createServiceAccountValidator)
+    // Non-admins cannot create Administrator accounts
+    if (me.role !== 'admin' && role === 'admin') {
+      return response.forbidden({ error: 'Not allowed to create Administrator accounts' })
+    }
+
+    const account = await serviceAccountService.create({ name, role })
+
+    await activityLogService.log({
+      action: 'service-account.create',
+      userId: me.id,
+      entityType: 'user',
+      entityId: account.id,
+      metadata: { name, role, username: account.username },
+      ip: request.ip(),
+      userAgent: request.header('user-agent') || null,
+    })
+
+    return responseService.created(response, serializeAccount(account), 'Service account created')
+  }
+
+  /**
+   * GET /api/service-accounts/:id/tokens
+   */
+  async tokens({ params, auth, response }: HttpContext) {
+    if (!roleRegistry.hasPermission(auth.user?.role, 'admin.users.manage')) {
+      return response.forbidden({ error: 'Not allowed to manage users' })
+    }
+    const account = await serviceAccountService.find(Number(params.id))
+    if (!account) return responseService.notFound(response, 'Service account not found')
+    const tokens = await apiTokenService.listForUser(account.id)
+    return response.ok({ data: tokens })
+  }
+
+  /**
+   * POST /api/service-accounts/:id/tokens
+   * Body: { name: string, scopes: PermissionKey[], expiresAt?: string }
+   * The plain token is only returned in this response.
+   */
+  async storeToken({ params, request, response, auth }: HttpContext) {
+    const me = auth.getUserOrFail()
+    if (!roleRegistry.hasPermission(me.role, 'admin.users.manage')) {
+      return response.forbidden({ error: 'Not allowed to manage users' })
+    }
+    const account = await serviceAccountService.find(Number(params.id))
+    if (!account) return responseService.notFound(response, 'Service account not found')
+
+    const {
+      name,
+      scopes,
+      expiresAt: expiresRaw,
+    } = await request.validateUsing(createApiTokenValidator)
+    const { expiresAt, error } = parseTokenExpiry(expiresRaw)
+    if (error) return responseService.badRequest(response, error)
+
+    const denied = scopes.filter((scope) => !roleRegistry.hasPermission(account.role, scope))
+    if (denied.length > 0) {
+      return responseService.badRequest(
+        response,
+        `The service account role does not grant: ${denied.join(', ')}`
+      )
+    }
+
+    const { token, record } = await apiTokenService.create(account, { name, scopes, expiresAt })
+
+    await activityLogService.log({
+      action: 'api-token.create',
+      userId: me.id,
+      entityType: 'api_token',
+      entityId: record.id,
+      metadata: {
+        name,
+        scopes: record.scopes,
+        expiresAt: record.expiresAt,
+        serviceAccountId: account.id,
+      },
+      ip: request.ip(),
+      userAgent: request.header('user-agent') || null,
+    })
+
+    return responseService.created(response, { ...record, token }, 'API token created')
+  }
+
+  /**
+   * DELETE /api/service-accounts/:id/tokens/:tokenId
+   */
+  async destroyToken({ params, request, response, auth }: HttpContext) {
+    const me = auth.getUserOrFail()
+    if (!roleRegistry.hasPermission(me.role, 'admin.users.manage')) {
+      return response.forbidden({ error: 'Not allowed to manage users' })
+    }
+    const account = await serviceAccountService.find(Number(params.id))
+    if (!account) return responseService.notFound(response, 'Service account not found')
+
+    const revoked = await apiTokenService.revoke(String(params.tokenId), account.id)
+    if (!revoked) return responseService.notFound(response, 'API token not found')
+
+    await activityLogService.log({
+      action: 'api-token.revoke',
+      userId: me.id,
+      entityType: 'api_token',
+      entityId: String(params.tokenId),
+      metadata: { serviceAccountId: account.id },
+      ip: request.ip(),
+      userAgent: request.header('user-agent') || null,
+    })
+
+    return responseService.noContent(response)
+  }
+}
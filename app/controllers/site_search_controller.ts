@@ -1,7 +1,10 @@
 import type { HttpContext } from '@adonisjs/core/http'
-import Post from '#models/post'
 import urlPatternService from '#services/url_pattern_service'
 import postTypeRegistry from '#services/post_type_registry'
+import searchIndexService, {
+  type SiteSearchFacets,
+  type SiteSearchResult,
+} from '#services/search_index_service'
 import { siteSearchQueryValidator } from '#validators/query'
 
 export default class SiteSearchController {
@@ -12,68 +15,54 @@ export default class SiteSearchController {
    * Query params:
    * - q: string
    * - type: post type slug (optional)
+   * - term: taxonomy term id (optional)
    * - locale: locale (optional; default "en")
+   * - page: results page (optional; default 1)
    */
   async index({ request, inertia }: HttpContext) {
     const {
       q: qRaw,
       type: typeRaw,
+      term: termRaw,
       locale: localeRaw,
+      page: pageRaw,
     } = await request.validateUsing(siteSearchQueryValidator)
     const locale = localeRaw || 'en'
     const qTrimmed = (qRaw || '').trim()
 
     const allowedTypes = postTypeRegistry.list()
     const type = typeRaw && allowedTypes.includes(typeRaw) ? typeRaw : ''
+    const term = termRaw || ''
 
     const limit = 30
-    const results: Array<{
-      id: string
-      type: string
-      title: string
-      excerpt: string | null
-      slug: string
-      locale: string
-      url: string
-      updatedAt: string
-    }> = []
+    const page = pageRaw || 1
+    let total = 0
+    let facets: SiteSearchFacets = { types: [], terms: [] }
+    const results: Array<Omit<SiteSearchResult, 'rank'> & { url: string }> = []
 
     if (qTrimmed.length > 0) {
-      const query = Post.query()
-        .apply((scopes) => {
-          scopes.published()
-          scopes.byLocale(locale)
-          if (type) scopes.ofType(type)
-        })
-        .where((sub) => {
-          // Basic, fast fields only (no module content scanning).
-          sub
-            .whereILike('title', `%${qTrimmed}%`)
-            .orWhereILike('excerpt', `%${qTrimmed}%`)
-            .orWhereILike('slug', `%${qTrimmed}%`)
-        })
-        .orderBy('updatedAt', 'desc')
-        .limit(limit)
-
-      const rows = await query
+      const found = await searchIndexService.search({
+        q: qTrimmed,
+        locale,
+        type: type || null,
+        termId: term || null,
+        limit,
+        offset: (page - 1) * limit,
+      })
+      total = found.total
+      facets = found.facets
 
-      for (const p of rows) {
-        let url = `/${encodeURIComponent(p.slug)}`
-        try {
-          const maybe = await urlPatternService.buildPostPathForPost(p.id)
-          if (typeof maybe === 'string' && maybe) url = maybe
-        } catch {
-          // fallback is fine
-        }
+      for (const r of found.results) {
         results.push({
-          id: p.id,
-          type: p.type,
-          title: p.title,
-          excerpt: p.excerpt,
-          slug: p.slug,
-          locale: p.locale,
-          url,
-          updatedAt: p.updatedAt.toISO() || p.updatedAt.toString(),
+          id: r.id,
+          type: r.type,
+          title: r.title,
+          excerpt: r.excerpt,
+          snippet: r.snippet,
+          slug: r.slug,
+          locale: r.locale,
+          updatedAt: r.updatedAt,
+          url: await this.resolveUrl(r.id, r.slug),
         })
       }
     }
@@ -81,9 +70,13 @@ export default class SiteSearchController {
     return inertia.render('site/overrides/search', {
       q: qTrimmed,
       type,
+      term,
       locale,
       postTypes: allowedTypes,
       results,
+      facets,
+      total,
+      page,
       limit,
     })
   }
@@ -95,60 +88,41 @@ export default class SiteSearchController {
   async autocomplete({ request, response }: HttpContext) {
     const q = String(request.input('q', '')).trim()
     const type = request.input('type')
-    const locale = request.input('locale')
+    const locale = String(request.input('locale') || 'en')
     const limit = 15
 
     if (!q || q.length < 2) return response.ok({ results: [] })
 
-    const query = Post.query()
-      .apply((scopes) => {
-        if (locale) scopes.byLocale(locale)
-        if (type) scopes.ofType(type)
-      })
-      .where((sub) => {
-        // Be inclusive: published status, or any status if we're in dev/admin context
-        // For public search, we generally want published content.
-        sub.where('status', 'published').orWhereNotNull('published_at')
-      })
-      .where((sub) => {
-        sub
-          .whereILike('title', `%${q}%`)
-          .orWhereILike('excerpt', `%${q}%`)
-          .orWhereILike('slug', `%${q}%`)
-          .orWhereExists((builder) => {
-            builder
-              .from('post_modules')
-              .join('module_instances', 'post_modules.module_id', 'module_instances.id')
-              .whereRaw('post_modules.post_id = posts.id')
-              .where((subBuilder) => {
-                subBuilder
-                  .whereRaw('CAST(module_instances.props AS TEXT) ILIKE ?', [`%${q}%`])
-                  .orWhereRaw('CAST(post_modules.overrides AS TEXT) ILIKE ?', [`%${q}%`])
-              })
-          })
-      })
-      .orderBy('updatedAt', 'desc')
-      .limit(limit)
+    const found = await searchIndexService.search({
+      q,
+      locale,
+      type: type ? String(type) : null,
+      limit,
+      withFacets: false,
+      prefix: true,
+    })
 
-    const rows = await query
     const results = []
-
-    for (const p of rows) {
-      let url = `/${encodeURIComponent(p.slug)}`
-      try {
-        const maybe = await urlPatternService.buildPostPathForPost(p.id)
-        if (typeof maybe === 'string' && maybe) url = maybe
-      } catch {
-        // fallback is fine
-      }
+    for (const r of found.results) {
       results.push({
-        id: p.id,
-        title: p.title,
-        excerpt: p.excerpt,
-        url,
+        id: r.id,
+        title: r.title,
+        excerpt: r.excerpt,
+        snippet: r.snippet,
+        url: await this.resolveUrl(r.id, r.slug),
       })
     }
 
     return response.ok({ results })
   }
+
+  private async resolveUrl(postId: string, slug: string): Promise<string> {
+    try {
+      const maybe = await urlPatternService.buildPostPathForPost(postId)
+      if (typeof maybe === 'string' && maybe) return maybe
+    } catch {
+      // fallback is fine
+    }
+    return `/${encodeURIComponent(slug)}`
+  }
 }
@@ -3,6 +3,21 @@ import db from '@adonisjs/lucid/services/db'
 import taxonomyService from '#services/taxonomy_service'
 import taxonomyCustomFieldsService from '#services/taxonomy_custom_fields_service'
 import roleRegistry from '#services/role_registry'
+import dispatchWebhookAction from '#actions/dispatch_webhook_action'
+
+/**
+ * Webhook payload shared by the taxonomy.term.* events
+ */
+function termWebhookData(term: any, taxonomySlug: string | null) {
+  return {
+    id: term.id,
+    taxonomyId: term.taxonomy_id,
+    taxonomy: taxonomySlug,
+    slug: term.slug,
+    name: term.name,
+    parentId: term.parent_id ?? null,
+  }
+}
 
 export default class TaxonomiesController {
   /**
@@ -156,6 +171,10 @@ export default class TaxonomiesController {
         updated_at: now,
       })
       .returning('*')
+    await dispatchWebhookAction.handle({
+      event: 'taxonomy.term.created',
+      data: termWebhookData(created, tax.slug),
+    })
     return response.created({ data: created })
   }
 
@@ -195,21 +214,24 @@ export default class TaxonomiesController {
     }
     await db.from('taxonomy_terms').where('id', id).update(updates)
 
+    const taxonomy = await db
+      .from('taxonomies')
+      .where('id', term.taxonomy_id)
+      .select('slug')
+      .first()
+
     // Handle custom fields
     const customFields = request.input('customFields')
-    if (customFields && typeof customFields === 'object') {
-      const taxonomy = await db
-        .from('taxonomies')
-        .where('id', term.taxonomy_id)
-        .select('slug')
-        .first()
-      if (taxonomy) {
-        await taxonomyCustomFieldsService.upsertValues(id, taxonomy.slug, customFields)
-      }
+    if (customFields && typeof customFields === 'object' && taxonomy) {
+      await taxonomyCustomFieldsService.upsertValues(id, taxonomy.slug, customFields)
     }
 
     const updated = await db.from('taxonomy_terms').where('id', id).first()
     const values = await taxonomyCustomFieldsService.getValues(id)
+    await dispatchWebhookAction.handle({
+      event: 'taxonomy.term.updated',
+      data: termWebhookData(updated, taxonomy?.slug ?? null),
+    })
     return response.ok({ data: { ...updated, customFields: values } })
   }
 
@@ -222,7 +244,19 @@ export default class TaxonomiesController {
       return response.forbidden({ error: 'Not allowed to delete taxonomy terms' })
     }
     const { id } = params
+    const term = await db
+      .from('taxonomy_terms')
+      .leftJoin('taxonomies', 'taxonomies.id', 'taxonomy_terms.taxonomy_id')
+      .where('taxonomy_terms.id', id)
+      .select('taxonomy_terms.*', 'taxonomies.slug as taxonomy_slug')
+      .first()
     await db.from('taxonomy_terms').where('id', id).delete()
+    if (term) {
+      await dispatchWebhookAction.handle({
+        event: 'taxonomy.term.deleted',
+        data: termWebhookData(term, term.taxonomy_slug ?? null),
+      })
+    }
     return response.noContent()
   }
 }
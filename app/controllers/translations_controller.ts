@@ -6,6 +6,14 @@ import CreateTranslation, {
 import DeleteTranslation, {
   DeleteTranslationException,
 } from '#actions/translations/delete_translation'
+import ImportXliff from '#actions/translations/import_xliff'
+import xliffService, { XliffException } from '#services/xliff_service'
+import activityLogService from '#services/activity_log_service'
+import roleRegistry from '#services/role_registry'
+import translationStalenessService, {
+  buildAgentInstructions,
+} from '#services/translation_staleness_service'
+import { readFile } from 'node:fs/promises'
 
 /**
  * Controller for managing post translations
@@ -31,6 +39,7 @@ export default class TranslationsController {
 
     // Get all translations (including original)
     const translations = await post.getAllTranslations()
+    const outdated = await translationStalenessService.outdatedMany(translations)
 
     return response.json({
       data: translations.map((translation) => ({
@@ -41,6 +50,9 @@ export default class TranslationsController {
         status: translation.status,
         isOriginal: !translation.isTranslation(),
         translationOfId: translation.translationOfId,
+        outdated: outdated.has(translation.id),
+        changedSince: outdated.get(translation.id) ?? [],
+        syncedAt: translation.translationSyncedAt,
         createdAt: translation.createdAt,
         updatedAt: translation.updatedAt,
       })),
@@ -144,6 +156,78 @@ export default class TranslationsController {
     })
   }
 
+  /**
+   * GET /api/posts/:id/translations/:locale/staleness
+   * Source fields/modules changed since the translation was last synced,
+   * with previous/current source text for the diff view
+   */
+  async staleness({ params, response }: HttpContext) {
+    const { id, locale } = params
+
+    const post = await Post.find(id)
+    if (!post) {
+      return response.notFound({ error: 'Post not found' })
+    }
+    const translation = await post.getTranslation(locale)
+    if (!translation || !translation.isTranslation()) {
+      return response.notFound({ error: 'Translation not found for this locale', locale })
+    }
+
+    const staleness = (await translationStalenessService.check(translation))!
+    const source = await translation.getOriginal()
+
+    return response.json({
+      data: {
+        ...staleness,
+        translationId: translation.id,
+        sourceId: source.id,
+        sourceLocale: source.locale,
+        locale: translation.locale,
+        agentInstructions: staleness.outdated
+          ? buildAgentInstructions(source.locale, translation.locale, staleness.changes)
+          : null,
+      },
+    })
+  }
+
+  /**
+   * POST /api/posts/:id/translations/:locale/sync
+   * Mark the translation as up to date with the current source
+   */
+  async markSynced({ params, request, response, auth }: HttpContext) {
+    const user = auth.getUserOrFail()
+    if (!roleRegistry.hasPermission(user.role, 'posts.edit')) {
+      return response.forbidden({ error: 'Not allowed to edit posts' })
+    }
+    const { id, locale } = params
+
+    const post = await Post.find(id)
+    if (!post) {
+      return response.notFound({ error: 'Post not found' })
+    }
+    const translation = await post.getTranslation(locale)
+    if (!translation || !translation.isTranslation()) {
+      return response.notFound({ error: 'Translation not found for this locale', locale })
+    }
+
+    await translationStalenessService.record(translation)
+
+    await activityLogService.log({
+      action: 'translation.sync',
+      userId: user.id,
+      entityType: 'post',
+      entityId: translation.id,
+      metadata: { locale, sourceId: translation.translationOfId },
+      ip: request.ip(),
+      userAgent: request.header('user-agent') || null,
+    })
+
+    return response.json({
+      message: 'Translation marked as up to date',
+      syncedAt: translation.translationSyncedAt,
+    })
+  }
+
   /**
    * DELETE /api/posts/:id/translations/:locale
    * Delete a translation
@@ -172,4 +256,126 @@ export default class TranslationsController {
       throw error
     }
   }
+
+  /**
+   * GET /api/posts/:id/xliff?locale=fr
+   * Download a post as XLIFF 2.0 for the target locale
+   */
+  async exportXliff(ctx: HttpContext) {
+    const locale = String(ctx.request.input('locale', '')).trim()
+    return this.sendXliff(ctx, [ctx.params.id], locale)
+  }
+
+  /**
+   * POST /api/translations/xliff/export
+   * Body: { postIds: string[], locale: string }
+   * One XLIFF document with a <file> per post
+   */
+  async exportXliffBulk(ctx: HttpContext) {
+    const { postIds, locale } = ctx.request.only(['postIds', 'locale'])
+    const ids = Array.isArray(postIds) ? postIds.map(String).filter(Boolean) : []
+    if (ids.length === 0) {
+      return ctx.response.badRequest({ error: 'postIds must be a non-empty array' })
+    }
+    return this.sendXliff(ctx, ids, String(locale || '').trim())
+  }
+
+  /**
+   * POST /api/translations/xliff/import
+   * Multipart `file` or JSON `{ xliff: string }`. Targets are saved as review
+   * drafts of the translations (created when missing).
+   */
+  async importXliff({ request, response, auth }: HttpContext) {
+    const user = auth.getUserOrFail()
+    if (!roleRegistry.hasPermission(user.role, 'posts.review.save')) {
+      return response.forbidden({ error: 'Not allowed to import translations' })
+    }
+
+    let xml = request.input('xliff')
+    const file = request.file('file', { size: '20mb', extnames: ['xlf', 'xliff', 'xml'] })
+    if (file) {
+      if (!file.isValid) {
+        return response.badRequest({ error: file.errors[0]?.message || 'Invalid file' })
+      }
+      if (!file.tmpPath) {
+        return response.badRequest({ error: 'File upload failed' })
+      }
+      xml = await readFile(file.tmpPath, 'utf8')
+    }
+    if (!xml || typeof xml !== 'string') {
+      return response.badRequest({ error: 'No XLIFF document provided' })
+    }
+
+    try {
+      const result = await ImportXliff.handle({ xml, userId: user.id, userEmail: user.email })
+
+      await activityLogService.log({
+        action: 'translation.xliff.import',
+        userId: user.id,
+        entityType: 'post',
+        entityId: result.files.find((f) => f.postId)?.postId ?? null,
+        metadata: {
+          srcLang: result.srcLang,
+          trgLang: result.trgLang,
+          files: result.files.map((f) => ({
+            postId: f.postId,
+            translationId: f.translationId,
+            applied: f.applied,
+            error: f.error,
+          })),
+        },
+        ip: request.ip(),
+        userAgent: request.header('user-agent') || null,
+      })
+
+      return response.ok({ data: result })
+    } catch (error) {
+      if (error instanceof XliffException) {
+        return response.status(error.statusCode).json({ error: error.message })
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Shared permission check, audit entry and download response for exports
+   */
+  private async sendXliff(
+    { request, response, auth }: HttpContext,
+    postIds: string[],
+    locale: string
+  ) {
+    const user = auth.getUserOrFail()
+    if (!roleRegistry.hasPermission(user.role, 'posts.export')) {
+      return response.forbidden({ error: 'Not allowed to export posts' })
+    }
+    if (!locale) {
+      return response.badRequest({ error: 'locale is required' })
+    }
+
+    try {
+      const xml = await xliffService.exportPosts(postIds, locale)
+
+      await activityLogService.log({
+        action: 'translation.xliff.export',
+        userId: user.id,
+        entityType: 'post',
+        entityId: postIds.length === 1 ? postIds[0] : null,
+        metadata: { postIds, locale },
+        ip: request.ip(),
+        userAgent: request.header('user-agent') || null,
+      })
+
+      const filename =
+        postIds.length === 1 ? `post-${postIds[0]}.${locale}.xlf` : `posts.${locale}.xlf`
+      response.header('Content-Type', 'application/xliff+xml; charset=utf-8')
+      response.header('Content-Disposition', `attachment; filename="${filename}"`)
+      return response.send(xml)
+    } catch (error) {
+      if (error instanceof XliffException) {
+        return response.status(error.statusCode).json({ error: error.message })
+      }
+      throw error
+    }
+  }
 }
@@ -2,6 +2,27 @@ import type { HttpContext } from '@adonisjs/core/http'
 import db from '@adonisjs/lucid/services/db'
 import UrlRedirect from '#models/url_redirect'
 import roleRegistry from '#services/role_registry'
+import dispatchWebhookAction from '#actions/dispatch_webhook_action'
+import redirectService, {
+  RedirectException,
+  normalizeRedirectInput,
+} from '#services/redirect_service'
+
+/**
+ * Webhook payload shared by the redirect.* events
+ */
+function redirectWebhookData(r: UrlRedirect) {
+  return {
+    id: r.id,
+    fromPath: r.fromPath,
+    toPath: r.toPath,
+    httpStatus: r.httpStatus,
+    matchType: r.matchType,
+    queryString: r.queryString,
+    locale: r.locale ?? null,
+    postId: r.postId ?? null,
+  }
+}
 
 export default class UrlRedirectsController {
   /**
@@ -27,9 +48,13 @@ export default class UrlRedirectsController {
         fromPath: r.fromPath,
         toPath: r.toPath,
         httpStatus: r.httpStatus,
+        matchType: r.matchType,
+        queryString: r.queryString,
         locale: r.locale ?? null,
         postId: r.postId ?? null,
         postTitle: r.post?.title ?? null,
+        hitCount: r.hitCount,
+        lastHitAt: r.lastHitAt?.toISO() ?? null,
         createdAt: r.createdAt.toISO(),
       })),
       meta: { count: rows.length },
@@ -38,36 +63,45 @@ export default class UrlRedirectsController {
 
   /**
    * POST /api/redirects
-   * Body: { fromPath: string, toPath: string, httpStatus?: number, locale?: string | null }
+   * Body: { fromPath, toPath, httpStatus?, matchType?, queryString?, locale?, postId? }
+   * Loops are rejected (409); chains are saved and returned as `warnings`.
    */
   async store({ request, response, auth }: HttpContext) {
     const role = (auth.use('web').user as any)?.role
     if (!roleRegistry.hasPermission(role, 'admin.settings.update')) {
       return response.forbidden({ error: 'Not allowed to create redirects' })
     }
-    const {
-      fromPath,
-      toPath,
-      httpStatus = 301,
-      locale = null,
-      postId = null,
-    } = request.only(['fromPath', 'toPath', 'httpStatus', 'locale', 'postId'])
-    if (!fromPath || !toPath) {
-      return response.badRequest({ error: 'fromPath and toPath are required' })
-    }
-    const created = await UrlRedirect.create({
-      fromPath,
-      toPath,
-      httpStatus,
-      locale: locale || null,
-      postId: postId || null,
+    const input = request.only([
+      'fromPath',
+      'toPath',
+      'httpStatus',
+      'matchType',
+      'queryString',
+      'locale',
+      'postId',
+    ])
+
+    let rule
+    let warnings
+    try {
+      rule = normalizeRedirectInput(input)
+      warnings = await redirectService.check({ ...rule, id: null })
+    } catch (error) {
+      return this.redirectError(response, error)
+    }
+
+    const created = await UrlRedirect.create({ ...rule, postId: input.postId || null })
+    redirectService.clearCache()
+    await dispatchWebhookAction.handle({
+      event: 'redirect.created',
+      data: redirectWebhookData(created),
     })
-    return response.created({ data: created, message: 'Redirect created' })
+    return response.created({ data: created, warnings, message: 'Redirect created' })
   }
 
   /**
    * PUT /api/redirects/:id
-   * Body: { fromPath?, toPath?, httpStatus?, locale? }
+   * Body: { fromPath?, toPath?, httpStatus?, matchType?, queryString?, locale? }
    */
   async update({ params, request, response, auth }: HttpContext) {
     const role = (auth.use('web').user as any)?.role
@@ -75,17 +109,47 @@ export default class UrlRedirectsController {
       return response.forbidden({ error: 'Not allowed to update redirects' })
     }
     const { id } = params
-    const payload = request.only(['fromPath', 'toPath', 'httpStatus', 'locale'])
+    const payload = request.only([
+      'fromPath',
+      'toPath',
+      'httpStatus',
+      'matchType',
+      'queryString',
+      'locale',
+    ])
     const rec = await UrlRedirect.find(id)
     if (!rec) {
       return response.notFound({ error: 'Redirect not found' })
     }
-    if (payload.fromPath !== undefined) rec.fromPath = payload.fromPath
-    if (payload.toPath !== undefined) rec.toPath = payload.toPath
-    if (payload.httpStatus !== undefined) rec.httpStatus = Number(payload.httpStatus)
-    if (payload.locale !== undefined) rec.locale = payload.locale || null
+
+    let rule
+    let warnings
+    try {
+      const current: Record<string, unknown> = {
+        fromPath: rec.fromPath,
+        toPath: rec.toPath,
+        httpStatus: rec.httpStatus,
+        matchType: rec.matchType,
+        queryString: rec.queryString,
+        locale: rec.locale,
+      }
+      for (const [key, value] of Object.entries(payload)) {
+        if (value !== undefined) current[key] = value
+      }
+      rule = normalizeRedirectInput(current)
+      warnings = await redirectService.check({ ...rule, id: rec.id })
+    } catch (error) {
+      return this.redirectError(response, error)
+    }
+
+    rec.merge(rule)
     await rec.save()
-    return response.ok({ data: rec, message: 'Redirect updated' })
+    redirectService.clearCache()
+    await dispatchWebhookAction.handle({
+      event: 'redirect.updated',
+      data: redirectWebhookData(rec),
+    })
+    return response.ok({ data: rec, warnings, message: 'Redirect updated' })
   }
 
   /**
@@ -97,10 +161,16 @@ export default class UrlRedirectsController {
       return response.forbidden({ error: 'Not allowed to delete redirects' })
     }
     const { id } = params
-    const deleted = await UrlRedirect.query().where('id', id).delete()
-    if (!deleted) {
+    const rec = await UrlRedirect.find(id)
+    if (!rec) {
       return response.notFound({ error: 'Redirect not found' })
     }
+    await rec.delete()
+    redirectService.clearCache()
+    await dispatchWebhookAction.handle({
+      event: 'redirect.deleted',
+      data: redirectWebhookData(rec),
+    })
     return response.noContent()
   }
 
@@ -119,24 +189,45 @@ export default class UrlRedirectsController {
       return response.badRequest({ error: 'No IDs provided' })
     }
 
+    const affected = await UrlRedirect.query().whereIn('id', ids)
+
     if (action === 'delete') {
       await UrlRedirect.query().whereIn('id', ids).delete()
+      redirectService.clearCache()
+      for (const rec of affected) {
+        await dispatchWebhookAction.handle({
+          event: 'redirect.deleted',
+          data: redirectWebhookData(rec),
+        })
+      }
       return response.ok({ message: `${ids.length} redirects deleted` })
     }
 
-    if (action === 'status-301') {
-      await UrlRedirect.query().whereIn('id', ids).update({ http_status: 301, updated_at: new Date() })
-      return response.ok({ message: `${ids.length} redirects updated to 301` })
-    }
-
-    if (action === 'status-302') {
-      await UrlRedirect.query().whereIn('id', ids).update({ http_status: 302, updated_at: new Date() })
-      return response.ok({ message: `${ids.length} redirects updated to 302` })
+    if (action === 'status-301' || action === 'status-302') {
+      const httpStatus = action === 'status-301' ? 301 : 302
+      // 410 rules have no target to redirect to
+      await UrlRedirect.query()
+        .whereIn('id', ids)
+        .whereNotNull('to_path')
+        .update({ http_status: httpStatus, updated_at: new Date() })
+      redirectService.clearCache()
+      for (const rec of affected) {
+        await dispatchWebhookAction.handle({
+          event: 'redirect.updated',
+          data: { ...redirectWebhookData(rec), httpStatus },
+        })
+      }
+      return response.ok({ message: `${ids.length} redirects updated to ${httpStatus}` })
     }
 
     return response.badRequest({ error: 'Invalid action' })
   }
 
+  private redirectError(response: HttpContext['response'], error: unknown) {
+    if (!(error instanceof RedirectException)) throw error
+    return response.status(error.status).send({ error: error.message })
+  }
+
   /**
    * GET /api/redirect-settings/:postType
    * Get redirect settings for a specific post type
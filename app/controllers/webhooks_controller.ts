@@ -1,5 +1,5 @@
 import type { HttpContext } from '@adonisjs/core/http'
-import webhookService, { type WebhookEvent } from '#services/webhook_service'
+import webhookService, { WEBHOOK_EVENTS, type WebhookEvent } from '#services/webhook_service'
 import responseService from '#services/response_service'
 import vine from '@vinejs/vine'
 
@@ -11,7 +11,7 @@ const webhookValidator = vine.compile(
     name: vine.string().trim().minLength(1).maxLength(100),
     url: vine.string().trim().url(),
     secret: vine.string().trim().maxLength(255).nullable().optional(),
-    events: vine.array(vine.string()).minLength(1),
+    events: vine.array(vine.enum(WEBHOOK_EVENTS)).minLength(1),
     active: vine.boolean().optional(),
     headers: vine.any().optional(),
     timeoutMs: vine.number().min(1000).max(30000).optional(),
@@ -49,6 +49,19 @@ export default class WebhooksController {
     })
   }
 
+  /**
+   * GET /api/webhooks/events
+   * Events a webhook can subscribe to, grouped by family (post, menu, redirect, ...)
+   */
+  async events({ response }: HttpContext) {
+    return response.ok({
+      data: WEBHOOK_EVENTS.map((event) => ({
+        event,
+        group: event.split('.')[0],
+      })),
+    })
+  }
+
   /**
    * POST /api/webhooks
    * Create a new webhook
@@ -64,7 +77,7 @@ export default class WebhooksController {
       name: payload.name,
       url: payload.url,
       secret: payload.secret ?? null,
-      events: payload.events as WebhookEvent[],
+      events: payload.events,
       active: payload.active ?? true,
       headers: payload.headers ?? null,
       timeoutMs: payload.timeoutMs || 5000,
@@ -100,7 +113,7 @@ export default class WebhooksController {
       name: payload.name,
       url: payload.url,
       secret: payload.secret ?? null,
-      events: payload.events as WebhookEvent[],
+      events: payload.events,
       active: payload.active ?? true,
       headers: payload.headers ?? null,
       timeoutMs: payload.timeoutMs,
@@ -165,11 +178,50 @@ export default class WebhooksController {
         durationMs: d.durationMs,
         attempt: d.attempt,
         error: d.error,
+        queueId: d.queueId,
+        queueStatus: d.queueStatus,
+        nextAttemptAt: d.nextAttemptAt ? d.nextAttemptAt.toISOString() : null,
         createdAt: d.createdAt.toISOString(),
       })),
     })
   }
 
+  /**
+   * POST /api/webhooks/:id/deliveries/:deliveryId/replay
+   * Re-send a logged delivery (e.g. a dead-lettered one) through the queue
+   */
+  async replay({ params, request, response, auth }: HttpContext) {
+    if (!webhookService.isEnabled()) {
+      return responseService.badRequest(response, 'Webhooks are not enabled')
+    }
+
+    const userId = auth.user?.id ?? null
+    const queued = await webhookService.replayDelivery(params.id, params.deliveryId, userId)
+    if (!queued) {
+      return responseService.notFound(response, 'Delivery not found')
+    }
+
+    try {
+      const { default: activityService } = await import('#services/activity_log_service')
+      await activityService.log({
+        action: 'webhook.delivery.replay',
+        userId,
+        entityType: 'webhook',
+        entityId: params.id,
+        metadata: { deliveryId: params.deliveryId, queueId: queued.id },
+        ip: request.ip(),
+        userAgent: request.header('user-agent') || null,
+      })
+    } catch {
+      /* ignore */
+    }
+
+    return response.ok({
+      message: 'Delivery queued for replay',
+      data: { queueId: queued.id, status: queued.status },
+    })
+  }
+
   /**
    * POST /api/webhooks/:id/test
    * Send a test webhook
@@ -189,21 +241,19 @@ export default class WebhooksController {
       return responseService.notFound(response, 'Webhook not found')
     }
 
-    // Send test payload
+    // Send test payload straight to this webhook (bypasses the queue so the result is immediate)
     const testEvent = webhook.events[0] || 'post.updated'
-    const results = await webhookService.dispatch(testEvent as WebhookEvent, {
+    const result = await webhookService.deliverNow(webhook, testEvent as WebhookEvent, {
       test: true,
       message: 'This is a test webhook delivery',
       timestamp: new Date().toISOString(),
     })
 
-    const result = results.find((r) => r.webhookId === id)
-
     return response.ok({
-      success: result?.success ?? false,
-      statusCode: result?.statusCode,
-      error: result?.error,
-      durationMs: result?.durationMs,
+      success: result.success,
+      statusCode: result.statusCode,
+      error: result.error,
+      durationMs: result.durationMs,
     })
   }
 }
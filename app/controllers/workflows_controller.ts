@@ -73,15 +73,23 @@ export default class WorkflowsController {
         type: workflow.type,
         enabled: workflow.enabled,
         triggers: workflow.triggers,
-        webhook: {
-          url: workflow.webhook.url,
-          method: workflow.webhook.method,
-          timeout: workflow.webhook.timeout,
-          retryOnFailure: workflow.webhook.retryOnFailure,
-          retryAttempts: workflow.webhook.retryAttempts,
-          retryDelay: workflow.webhook.retryDelay,
-          // Don't expose secrets in API response
-        },
+        webhook: workflow.webhook
+          ? {
+              url: workflow.webhook.url,
+              method: workflow.webhook.method,
+              timeout: workflow.webhook.timeout,
+              retryOnFailure: workflow.webhook.retryOnFailure,
+              retryAttempts: workflow.webhook.retryAttempts,
+              retryDelay: workflow.webhook.retryDelay,
+              // Don't expose secrets in API response
+            }
+          : null,
+        steps: (workflow.steps || []).map((step, index) => ({
+          id: step.id || `step-${index}`,
+          type: step.type,
+          conditional: !!step.condition,
+          continueOnError: !!step.continueOnError,
+        })),
       },
     })
   }
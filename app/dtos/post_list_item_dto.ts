@@ -21,6 +21,7 @@ export default class PostListItemDto extends BaseModelDto {
   declare updatedAt: string | null
   declare translationOfId: string | null
   declare familyLocales?: string[]
+  declare outdatedLocales?: Record<string, string[]>
   declare hasReviewDraft: boolean
   declare hasFeedback?: boolean
   declare isDeleted: boolean
@@ -30,6 +31,7 @@ export default class PostListItemDto extends BaseModelDto {
     extras?: {
       url?: string | null
       familyLocales?: string[]
+      outdatedLocales?: Record<string, string[]>
       hasReviewDraft?: boolean
       hasFeedback?: boolean
       isDeleted?: boolean
@@ -53,6 +55,7 @@ export default class PostListItemDto extends BaseModelDto {
       : ((post as any).updatedAt ?? null)
     this.translationOfId = post.translationOfId || null
     this.familyLocales = extras?.familyLocales
+    this.outdatedLocales = extras?.outdatedLocales
     this.hasReviewDraft = extras?.hasReviewDraft ?? Boolean((post as any).reviewDraft)
     this.hasFeedback = extras?.hasFeedback ?? (Number((post as any).$extras?.feedbacks_count) > 0)
     this.isDeleted = extras?.isDeleted ?? Boolean((post as any).deletedAt)
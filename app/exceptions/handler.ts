@@ -23,22 +23,9 @@ export default class HttpExceptionHandler extends ExceptionHandler {
    * to return the HTML contents to send as a response.
    */
   protected statusPages: Record<StatusPageRange, StatusPageRenderer> = {
-    '404': async (error, { inertia, request }) => {
-      const isAdmin = request.url().startsWith(adminPath())
-      const page = isAdmin ? 'admin/errors/not_found' : 'site/errors/not_found'
-
-      let isDatabaseEmpty = false
-      if (!isAdmin) {
-        try {
-          const postsCount = await db.from('posts').count('* as count').first()
-          isDatabaseEmpty = Number(postsCount?.count || 0) === 0
-        } catch {
-          /* ignore */
-        }
-      }
-
-      return inertia.render(page, { error, isDatabaseEmpty })
-    },
+    // 410 Gone (removed pages, see RedirectsMiddleware) looks like a missing page
+    '404': (error, ctx) => this.renderNotFound(error, ctx),
+    '410': (error, ctx) => this.renderNotFound(error, ctx),
     '500..599': (error, { inertia, request }) => {
       const isAdmin = request.url().startsWith(adminPath())
       const page = isAdmin ? 'admin/errors/server_error' : 'site/errors/server_error'
@@ -46,6 +33,23 @@ export default class HttpExceptionHandler extends ExceptionHandler {
     },
   }
 
+  private async renderNotFound(error: unknown, { inertia, request }: HttpContext) {
+    const isAdmin = request.url().startsWith(adminPath())
+    const page = isAdmin ? 'admin/errors/not_found' : 'site/errors/not_found'
+
+    let isDatabaseEmpty = false
+    if (!isAdmin) {
+      try {
+        const postsCount = await db.from('posts').count('* as count').first()
+        isDatabaseEmpty = Number(postsCount?.count || 0) === 0
+      } catch {
+        /* ignore */
+      }
+    }
+
+    return inertia.render(page, { error, isDatabaseEmpty })
+  }
+
   /**
    * The method is used for handling errors and returning
    * response to the client
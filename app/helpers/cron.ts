@@ -0,0 +1,148 @@
+/**
+ * Minimal 5-field cron expression support (minute hour day-of-month month day-of-week).
+ *
+ * Supports `*`, single values, ranges (`1-5`), lists (`1,15,30`), steps (`*\/15`, `0-30/10`)
+ * and the `@hourly`, `@daily`, `@weekly`, `@monthly`, `@yearly` macros.
+ * Expressions are evaluated in the process timezone (TZ).
+ */
+
+export type CronSchedule = {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  /** True when day-of-month was not `*` (used for standard dom/dow OR semantics) */
+  domRestricted: boolean
+  /** True when day-of-week was not `*` */
+  dowRestricted: boolean
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+}
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+]
+
+function parseField(raw: string, min: number, max: number, name: string): Set<number> {
+  const values = new Set<number>()
+  for (const part of raw.split(',')) {
+    const [rangePart, stepPart] = part.split('/')
+    const step = stepPart === undefined ? 1 : Number(stepPart)
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${part}" in cron ${name} field`)
+    }
+
+    let start = min
+    let end = max
+    if (rangePart !== '*') {
+      const bounds = rangePart.split('-')
+      start = Number(bounds[0])
+      end = bounds.length > 1 ? Number(bounds[1]) : stepPart === undefined ? start : max
+      if (
+        bounds.length > 2 ||
+        !Number.isInteger(start) ||
+        !Number.isInteger(end) ||
+        start < min ||
+        end > max ||
+        start > end
+      ) {
+        throw new Error(`Invalid value "${part}" in cron ${name} field`)
+      }
+    }
+
+    for (let v = start; v <= end; v += step) values.add(v)
+  }
+  return values
+}
+
+/**
+ * Parse a cron expression. Throws on invalid input.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = MACROS[expression.trim().toLowerCase()] ?? expression.trim()
+  const fields = normalized.split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`)
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELD_RANGES[i].min, FIELD_RANGES[i].max, FIELD_RANGES[i].name)
+  )
+  // 7 is an alias for Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7)
+    daysOfWeek.add(0)
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: fields[2] !== '*',
+    dowRestricted: fields[4] !== '*',
+  }
+}
+
+function dayMatches(s: CronSchedule, date: Date): boolean {
+  const domMatch = s.daysOfMonth.has(date.getDate())
+  const dowMatch = s.daysOfWeek.has(date.getDay())
+  // Standard cron: when both day fields are restricted, either may match
+  if (s.domRestricted && s.dowRestricted) return domMatch || dowMatch
+  return domMatch && dowMatch
+}
+
+/**
+ * Check whether the minute containing `date` matches the schedule.
+ */
+export function cronMatches(schedule: CronSchedule | string, date: Date): boolean {
+  const s = typeof schedule === 'string' ? parseCron(schedule) : schedule
+  return (
+    s.minutes.has(date.getMinutes()) &&
+    s.hours.has(date.getHours()) &&
+    s.months.has(date.getMonth() + 1) &&
+    dayMatches(s, date)
+  )
+}
+
+/**
+ * Find the next matching minute strictly after `from` (searches up to ~1 year ahead).
+ */
+export function nextCronOccurrence(schedule: CronSchedule | string, from: Date): Date | null {
+  const s = typeof schedule === 'string' ? parseCron(schedule) : schedule
+  const cursor = new Date(from.getTime())
+  cursor.setSeconds(0, 0)
+  cursor.setMinutes(cursor.getMinutes() + 1)
+
+  const limit = from.getTime() + 366 * 24 * 60 * 60 * 1000
+  while (cursor.getTime() <= limit) {
+    if (!s.months.has(cursor.getMonth() + 1)) {
+      cursor.setMonth(cursor.getMonth() + 1, 1)
+      cursor.setHours(0, 0)
+    } else if (!dayMatches(s, cursor)) {
+      cursor.setDate(cursor.getDate() + 1)
+      cursor.setHours(0, 0)
+    } else if (!s.hours.has(cursor.getHours())) {
+      cursor.setHours(cursor.getHours() + 1, 0)
+    } else if (!s.minutes.has(cursor.getMinutes())) {
+      cursor.setMinutes(cursor.getMinutes() + 1)
+    } else {
+      return cursor
+    }
+  }
+  return null
+}
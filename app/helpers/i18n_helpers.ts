@@ -7,6 +7,7 @@ import i18nConfig from '#config/i18n'
  */
 export async function generateHreflangTags(post: Post, baseUrl: string): Promise<string[]> {
   const tags: string[] = []
+  await localeService.loadSettings()
 
   // Get all translations (including original)
   const translations = await post.getAllTranslations()
@@ -35,7 +36,17 @@ export function generatePostUrl(post: Post, baseUrl: string): string {
   const path = `/${post.type}/${post.slug}`
   const localizedPath = localeService.generateLocalizedUrl(path, post.locale)
 
-  return `${baseUrl}${localizedPath}`
+  return `${baseUrlForLocale(post.locale, baseUrl)}${localizedPath}`
+}
+
+/**
+ * Swap the host of `baseUrl` for the locale's dedicated hostname, if it has one
+ */
+export function baseUrlForLocale(locale: string, baseUrl: string): string {
+  const hostname = localeService.getHostnameForLocale(locale)
+  if (!hostname) return baseUrl
+  const protocol = /^(https?):\/\//i.exec(baseUrl)?.[1] || 'https'
+  return `${protocol}://${hostname}`
 }
 
 /**
@@ -44,11 +55,11 @@ export function generatePostUrl(post: Post, baseUrl: string): string {
 export function generateLocalizedUrl(path: string, locale: string, baseUrl?: string): string {
   const localizedPath = localeService.generateLocalizedUrl(path, locale)
 
-  return baseUrl ? `${baseUrl}${localizedPath}` : localizedPath
+  return baseUrl ? `${baseUrlForLocale(locale, baseUrl)}${localizedPath}` : localizedPath
 }
 
 /**
- * Get post with fallback to default locale
+ * Get post following the locale's fallback chain (e.g. fr-ca -> fr -> en)
  * This is useful when a translation doesn't exist
  */
 export async function getPostWithFallback(
@@ -56,29 +67,18 @@ export async function getPostWithFallback(
   locale: string,
   postType?: string
 ): Promise<Post | null> {
-  // Try to find post in requested locale
-  const query = Post.query().where('slug', slug).where('locale', locale)
-
-  if (postType) {
-    query.where('type', postType)
-  }
-
-  let post = await query.first()
-
-  // If not found and locale is not default, try default locale
-  if (!post && locale !== localeService.getDefaultLocale()) {
-    const defaultQuery = Post.query()
-      .where('slug', slug)
-      .where('locale', localeService.getDefaultLocale())
+  for (const candidate of localeService.getFallbackChain(locale)) {
+    const query = Post.query().where('slug', slug).where('locale', candidate)
 
     if (postType) {
-      defaultQuery.where('type', postType)
+      query.where('type', postType)
     }
 
-    post = await defaultQuery.first()
+    const post = await query.first()
+    if (post) return post
   }
 
-  return post
+  return null
 }
 
 /**
@@ -94,15 +94,11 @@ export function getLocalizedContent<T = string>(
     return content as T
   }
 
-  // Try requested locale
-  if (locale in content) {
-    return (content as Record<string, T>)[locale]
-  }
-
-  // Try default locale
-  const defaultLocale = localeService.getDefaultLocale()
-  if (defaultLocale in content) {
-    return (content as Record<string, T>)[defaultLocale]
+  // Try requested locale, then its fallback chain (ending with the default locale)
+  for (const candidate of localeService.getFallbackChain(locale)) {
+    if (candidate in content) {
+      return (content as Record<string, T>)[candidate]
+    }
   }
 
   // Try any available locale
@@ -131,6 +127,7 @@ export async function buildLocaleSwitcher(
   }>
 > {
   const translations = await post.getAllTranslations()
+  await localeService.loadSettings()
   const supportedLocales = localeService.getSupportedLocales()
 
   return supportedLocales.map((locale) => {
@@ -141,7 +138,9 @@ export async function buildLocaleSwitcher(
     // If translation exists, generate proper URL
     const url = isAvailable
       ? generatePostUrl(translation!, baseUrl)
-      : localeService.generateLocalizedUrl(currentPath, locale)
+      : localeService.getHostnameForLocale(locale)
+        ? generateLocalizedUrl(currentPath, locale, baseUrl)
+        : localeService.generateLocalizedUrl(currentPath, locale)
 
     return {
       locale,
@@ -219,11 +218,11 @@ export function extractLocaleFromPath(path: string): {
     }
   }
 
-  const match = path.match(/^\/([a-z]{2})(\/|$)/)
+  const match = path.match(/^\/([a-z]{2}(?:-[a-z]{2})?)(\/|$)/i)
   if (match && localeService.isLocaleSupported(match[1])) {
     return {
-      locale: match[1],
-      cleanPath: path.slice(3) || '/',
+      locale: match[1].toLowerCase(),
+      cleanPath: path.slice(match[1].length + 1) || '/',
     }
   }
 
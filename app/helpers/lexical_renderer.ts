@@ -344,7 +344,7 @@ function renderText(node: TextNode, isInsideCode = false): string {
 /**
  * Escape HTML special characters
  */
-function escapeHtml(text: string): string {
+export function escapeHtml(text: string): string {
   const map: Record<string, string> = {
     '&': '&amp;',
     '<': '&lt;',
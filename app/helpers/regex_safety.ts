@@ -0,0 +1,77 @@
+/**
+ * Guards for regular expressions written by admins (redirect rules, form field
+ * patterns) that run against public input.
+ */
+
+/**
+ * Length of the quantifier at `index` and whether it repeats (`*`, `+`, `{2,}`, ...).
+ * A lazy `?` suffix is included in the length.
+ */
+function readQuantifier(source: string, index: number): { length: number; repeats: boolean } {
+  const char = source[index]
+  let length = 0
+  let repeats = false
+  if (char === '*' || char === '+' || char === '?') {
+    length = 1
+    repeats = char !== '?'
+  } else if (char === '{') {
+    const range = source.slice(index).match(/^\{(\d+)(,(\d*))?\}/)
+    if (range) {
+      length = range[0].length
+      const max = range[2] === undefined ? Number(range[1]) : range[3] ? Number(range[3]) : Infinity
+      repeats = max > 1
+    }
+  }
+  if (length && source[index + length] === '?') length++
+  return { length, repeats }
+}
+
+/**
+ * Whether a regular expression repeats a group that itself contains a repeat or
+ * alternatives, like `(a+)+`, `(\w*\.)*` or `(a|aa)+`. Those can take exponential
+ * time on input that almost matches. Alternatives are rejected even when they do
+ * not overlap: telling `(a|b)+` from `(\w|\d)+` is not worth the risk.
+ */
+export function hasAmbiguousRepeat(source: string): boolean {
+  // One entry per open group: whether it contains a repeat or alternatives
+  const groups: boolean[] = [false]
+  let i = 0
+  while (i < source.length) {
+    const char = source[i]
+    let nested = false
+    if (char === '(') {
+      i++
+      if (source[i] === '?') {
+        const prefix = source.slice(i).match(/^\?(?:[:=!]|<[=!]|<[^>]*>)/)
+        i += prefix ? prefix[0].length : 1
+      }
+      groups.push(false)
+      continue
+    }
+    if (char === ')') {
+      nested = groups.length > 1 ? groups.pop()! : false
+      i++
+    } else if (char === '|') {
+      groups[groups.length - 1] = true
+      i++
+      continue
+    } else if (char === '\\') {
+      i += 2
+    } else if (char === '[') {
+      i++
+      if (source[i] === '^') i++
+      if (source[i] === ']') i++
+      while (i < source.length && source[i] !== ']') i += source[i] === '\\' ? 2 : 1
+      i++
+    } else {
+      i++
+    }
+
+    const quantifier = readQuantifier(source, i)
+    if (nested && quantifier.repeats) return true
+    // The enclosing group now contains a repeat, directly or through this group
+    if (nested || quantifier.repeats) groups[groups.length - 1] = true
+    i += quantifier.length
+  }
+  return false
+}
@@ -0,0 +1,60 @@
+import ApproveReviewDraft from '#actions/posts/approve_review_draft'
+import activityLogService from '#services/activity_log_service'
+import scheduledReviewApprovalService from '#services/scheduled_review_approval_service'
+import type { JobDefinition } from '#types/job_types'
+
+/**
+ * Promote review drafts whose scheduled approval time has passed.
+ */
+export async function applyScheduledReviewApprovals(): Promise<{
+  applied: number
+  failed: number
+}> {
+  const due = await scheduledReviewApprovalService.claimDue()
+  let applied = 0
+  let failed = 0
+
+  for (const item of due) {
+    try {
+      if (!(await ApproveReviewDraft.hasChanges(item.postId))) {
+        throw new Error('No review changes to apply')
+      }
+      await ApproveReviewDraft.handle({
+        postId: item.postId,
+        userId: item.createdBy,
+        scheduledApprovalId: item.id,
+      })
+      await scheduledReviewApprovalService.markApplied(item.id)
+      applied++
+      try {
+        await activityLogService.log({
+          action: 'post.review.approve.auto',
+          userId: item.createdBy,
+          entityType: 'post',
+          entityId: item.postId,
+          metadata: { reason: 'scheduled', scheduledApprovalId: item.id, at: item.scheduledFor },
+        })
+      } catch {}
+    } catch (error) {
+      failed++
+      await scheduledReviewApprovalService.markFailed(
+        item.id,
+        error instanceof Error ? error.message : String(error)
+      )
+    }
+  }
+
+  return { applied, failed }
+}
+
+const job: JobDefinition = {
+  id: 'apply-scheduled-review-approvals',
+  name: 'Apply scheduled review approvals',
+  description: 'Promotes review drafts to Source when their scheduled approval time arrives.',
+  schedule: '* * * * *',
+  async handler() {
+    return applyScheduledReviewApprovals()
+  },
+}
+
+export default job
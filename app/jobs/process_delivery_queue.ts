@@ -0,0 +1,30 @@
+import deliveryQueueService from '#services/delivery_queue_service'
+import type { JobDefinition } from '#types/job_types'
+
+/**
+ * Upper bound on batches per run so one tick cannot run unbounded
+ */
+const MAX_BATCHES = 20
+
+const job: JobDefinition = {
+  id: 'process-delivery-queue',
+  name: 'Process delivery queue',
+  description:
+    'Delivers queued webhook and workflow events and form emails, retries failures with backoff and prunes delivered items.',
+  schedule: '* * * * *',
+  async handler() {
+    const totals = { processed: 0, delivered: 0, retrying: 0, dead: 0 }
+    for (let i = 0; i < MAX_BATCHES; i++) {
+      const batch = await deliveryQueueService.processDue()
+      totals.processed += batch.processed
+      totals.delivered += batch.delivered
+      totals.retrying += batch.retrying
+      totals.dead += batch.dead
+      if (batch.processed === 0) break
+    }
+    const pruned = await deliveryQueueService.pruneDelivered()
+    return { ...totals, pruned }
+  },
+}
+
+export default job
@@ -0,0 +1,15 @@
+import abTestService from '#services/ab_test_service'
+import type { JobDefinition } from '#types/job_types'
+
+const job: JobDefinition = {
+  id: 'promote-ab-test-winners',
+  name: 'Promote A/B test winners',
+  description:
+    'Promotes the winning variation of A/B tests with auto-promotion enabled once the winner rule is met.',
+  schedule: '15 * * * *',
+  async handler() {
+    return abTestService.autoPromoteDue()
+  },
+}
+
+export default job
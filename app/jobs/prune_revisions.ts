@@ -0,0 +1,31 @@
+import db from '@adonisjs/lucid/services/db'
+import cmsConfig from '#config/cms'
+import type { JobDefinition } from '#types/job_types'
+
+const job: JobDefinition = {
+  id: 'prune-revisions',
+  name: 'Prune revisions',
+  description: 'Removes revisions beyond the per-post revision limit (CMS_REVISIONS_LIMIT).',
+  schedule: '30 3 * * *',
+  async handler() {
+    const limit = Number(cmsConfig.revisions.limit)
+    if (!(limit > 0)) {
+      return { skipped: 'unlimited revisions' }
+    }
+
+    const result = await db.rawQuery(
+      `DELETE FROM post_revisions
+       WHERE id IN (
+         SELECT id FROM (
+           SELECT id, ROW_NUMBER() OVER (PARTITION BY post_id ORDER BY created_at DESC) AS rn
+           FROM post_revisions
+         ) ranked
+         WHERE ranked.rn > ?
+       )`,
+      [limit]
+    )
+    return { pruned: Number(result?.rowCount ?? 0), limit }
+  },
+}
+
+export default job
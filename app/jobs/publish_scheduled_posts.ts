@@ -0,0 +1,51 @@
+import db from '@adonisjs/lucid/services/db'
+import type { JobDefinition } from '#types/job_types'
+
+/**
+ * Publish posts whose scheduled_at has passed. Returns the number of posts published.
+ */
+export async function publishDueScheduledPosts(): Promise<number> {
+  const now = new Date()
+  const rows = await db
+    .from('posts')
+    .where('status', 'scheduled')
+    .andWhere('scheduled_at', '<=', now)
+    .select('id')
+  if (!Array.isArray(rows) || rows.length === 0) return 0
+  const ids = rows.map((r: any) => String((r as any).id))
+  const { default: activity } = await import('#services/activity_log_service')
+  const when = new Date()
+  await db.transaction(async (trx) => {
+    await trx
+      .from('posts')
+      .whereIn('id', ids)
+      .update({ status: 'published', published_at: when, updated_at: when } as any)
+  })
+  const { default: syncSearchIndexAction } = await import('#actions/sync_search_index_action')
+  await syncSearchIndexAction.handle({ postIds: ids })
+  // Fire-and-forget activity logs
+  for (const id of ids) {
+    try {
+      await activity.log({
+        action: 'post.publish.auto',
+        entityType: 'post',
+        entityId: id,
+        metadata: { reason: 'scheduled', at: when.toISOString() },
+      })
+    } catch {}
+  }
+  return ids.length
+}
+
+const job: JobDefinition = {
+  id: 'publish-scheduled-posts',
+  name: 'Publish scheduled posts',
+  description: 'Publishes posts whose scheduled publish time has passed.',
+  schedule: '* * * * *',
+  async handler() {
+    const published = await publishDueScheduledPosts()
+    return { published }
+  },
+}
+
+export default job
@@ -0,0 +1,45 @@
+import db from '@adonisjs/lucid/services/db'
+import cmsConfig from '#config/cms'
+import activityLogService from '#services/activity_log_service'
+import type { JobDefinition } from '#types/job_types'
+
+const job: JobDefinition = {
+  id: 'purge-soft-deleted-posts',
+  name: 'Purge soft-deleted posts',
+  description:
+    'Permanently deletes posts that have been in the trash longer than the soft-delete retention period.',
+  schedule: '0 3 * * *',
+  async handler() {
+    if (!cmsConfig.softDelete.enabled) {
+      return { skipped: 'soft deletes disabled' }
+    }
+    const retentionDays = Number(cmsConfig.softDelete.retentionDays)
+    if (!(retentionDays > 0)) {
+      return { skipped: 'no retention period configured' }
+    }
+
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000)
+    const rows = await db
+      .from('posts')
+      .whereNotNull('deleted_at')
+      .andWhere('deleted_at', '<', cutoff)
+      .select('id')
+    const ids = rows.map((r: any) => String(r.id))
+    if (ids.length === 0) return { purged: 0 }
+
+    // Modules, revisions, translations, etc. are removed via ON DELETE CASCADE
+    await db.from('posts').whereIn('id', ids).delete()
+
+    try {
+      await activityLogService.log({
+        action: 'post.purge.auto',
+        entityType: 'post',
+        metadata: { count: ids.length, retentionDays, postIds: ids },
+      })
+    } catch {}
+
+    return { purged: ids.length, retentionDays }
+  },
+}
+
+export default job
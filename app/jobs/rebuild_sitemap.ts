@@ -0,0 +1,17 @@
+import sitemapService from '#services/sitemap_service'
+import type { JobDefinition } from '#types/job_types'
+
+const job: JobDefinition = {
+  id: 'rebuild-sitemap',
+  name: 'Rebuild sitemap',
+  description: 'Regenerates the cached sitemap for every host this process has served.',
+  schedule: '*/15 * * * *',
+  // The sitemap cache lives in process memory, so every worker rebuilds its own copy
+  perProcess: true,
+  async handler() {
+    const hosts = await sitemapService.rebuildAll()
+    return { hosts }
+  },
+}
+
+export default job
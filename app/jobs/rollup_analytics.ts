@@ -0,0 +1,17 @@
+import analyticsService from '#services/analytics_service'
+import type { JobDefinition } from '#types/job_types'
+
+const job: JobDefinition = {
+  id: 'rollup-analytics',
+  name: 'Roll up analytics',
+  description:
+    'Aggregates completed days of analytics events into daily rollups and prunes raw events past CMS_ANALYTICS_RETENTION_DAYS.',
+  schedule: '20 * * * *',
+  async handler() {
+    const { days } = await analyticsService.rollupPending()
+    const pruned = await analyticsService.pruneRawEvents()
+    return { rolledUp: days, pruned }
+  },
+}
+
+export default job
@@ -0,0 +1,16 @@
+import searchIndexService from '#services/search_index_service'
+import type { JobDefinition } from '#types/job_types'
+
+const job: JobDefinition = {
+  id: 'sync-search-index',
+  name: 'Sync search index',
+  description:
+    'Indexes published posts missing from site search: an empty index after migrating, and posts whose publish date has passed.',
+  schedule: '* * * * *',
+  async handler() {
+    const indexed = await searchIndexService.indexMissing()
+    return { indexed }
+  },
+}
+
+export default job
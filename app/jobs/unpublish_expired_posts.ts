@@ -0,0 +1,75 @@
+import db from '@adonisjs/lucid/services/db'
+import type { JobDefinition } from '#types/job_types'
+
+/**
+ * Archive published posts whose unpublish_at has passed. Returns the number of posts archived.
+ */
+export async function unpublishExpiredPosts(): Promise<number> {
+  const now = new Date()
+  const rows = await db
+    .from('posts')
+    .where('status', 'published')
+    .whereNotNull('unpublish_at')
+    .andWhere('unpublish_at', '<=', now)
+    .whereNull('deleted_at')
+    .select('id', 'unpublish_at')
+  if (!Array.isArray(rows) || rows.length === 0) return 0
+  const expiredAt = new Map(rows.map((r: any) => [String(r.id), new Date(r.unpublish_at)]))
+  const { default: activity } = await import('#services/activity_log_service')
+  const { default: dispatchWebhookAction } = await import('#actions/dispatch_webhook_action')
+  const { default: syncSearchIndexAction } = await import('#actions/sync_search_index_action')
+  const when = new Date()
+  // Re-check the conditions: an editor may have re-scheduled or unpublished a post since the read.
+  // Clear unpublish_at so a later re-publish is not immediately archived again.
+  const archived = await db
+    .from('posts')
+    .whereIn('id', [...expiredAt.keys()])
+    .where('status', 'published')
+    .andWhere('unpublish_at', '<=', now)
+    .whereNull('deleted_at')
+    .update({ status: 'archived', unpublish_at: null, updated_at: when } as any)
+    .returning('id')
+  const ids = (archived as any[]).map((r) => String(r.id))
+  if (ids.length === 0) return 0
+
+  await syncSearchIndexAction.handle({ postIds: ids })
+  for (const id of ids) {
+    try {
+      await dispatchWebhookAction.handle({
+        event: 'post.unpublished',
+        data: { id, reason: 'expired', unpublishAt: expiredAt.get(id)?.toISOString() },
+      })
+    } catch (error: any) {
+      console.error('Failed to dispatch post.unpublished webhooks:', {
+        postId: id,
+        error: error?.message,
+      })
+    }
+    try {
+      await activity.log({
+        action: 'post.unpublish.auto',
+        entityType: 'post',
+        entityId: id,
+        metadata: {
+          reason: 'expired',
+          unpublishAt: expiredAt.get(id)?.toISOString(),
+          at: when.toISOString(),
+        },
+      })
+    } catch {}
+  }
+  return ids.length
+}
+
+const job: JobDefinition = {
+  id: 'unpublish-expired-posts',
+  name: 'Unpublish expired posts',
+  description: 'Archives published posts whose unpublish date has passed.',
+  schedule: '* * * * *',
+  async handler() {
+    const unpublished = await unpublishExpiredPosts()
+    return { unpublished }
+  },
+}
+
+export default job
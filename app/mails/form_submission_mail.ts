@@ -0,0 +1,23 @@
+import { BaseMail } from '@adonisjs/mail'
+import type { FormEmail } from '#services/form_email_service'
+
+export default class FormSubmissionMail extends BaseMail {
+  constructor(private email: FormEmail) {
+    super()
+  }
+
+  /**
+   * The "prepare" method is called by the mailer to prepare
+   * the email message for sending.
+   */
+  async prepare() {
+    for (const address of this.email.to) this.message.to(address)
+    if (this.email.replyTo) this.message.replyTo(this.email.replyTo)
+    this.message
+      .subject(this.email.subject)
+      .text(this.email.text)
+      .htmlView('emails/form_submission', {
+        paragraphs: this.email.text.split(/\n{2,}/),
+      })
+  }
+}
@@ -0,0 +1,85 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import type { NextFn } from '@adonisjs/core/types/http'
+import apiTokenService, {
+  API_TOKEN_PREFIX,
+  requiredScopeFor,
+  type ApiToken,
+} from '#services/api_token_service'
+import activityLogService from '#services/activity_log_service'
+import roleRegistry from '#services/role_registry'
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS']
+
+/**
+ * Authenticates admin API requests sent with a personal API token
+ * (`Authorization: Bearer eos_pat_...`).
+ *
+ * Runs before the route middleware: when a token is present, its user is set
+ * on the `web` guard for this request only (nothing is written to the session),
+ * so `middleware.auth()`, `middleware.admin()` and controllers work unchanged.
+ * Requests without a token are passed through to session auth.
+ */
+export default class ApiTokenAuthMiddleware {
+  async handle(ctx: HttpContext, next: NextFn) {
+    const header = ctx.request.header('authorization') || ''
+    const provided = header.replace(/^Bearer\s+/i, '').trim()
+    if (!provided.startsWith(API_TOKEN_PREFIX)) return next()
+
+    const method = ctx.request.method()
+    const path = ctx.request.url()
+    const ip = ctx.request.ip()
+    const userAgent = ctx.request.header('user-agent') || null
+
+    const verified = await apiTokenService.verify(provided, ip)
+    if (!verified) {
+      return ctx.response.unauthorized({ error: 'Invalid or expired API token' })
+    }
+    const { token, user } = verified
+
+    const scope = requiredScopeFor(method, path, ctx.request.all())
+    if (!scope || !token.scopes.includes(scope) || !roleRegistry.hasPermission(user.role, scope)) {
+      await activityLogService.log({
+        action: 'api-token.denied',
+        userId: user.id,
+        entityType: 'api_token',
+        entityId: token.id,
+        metadata: { method, path, requiredScope: scope },
+        ip,
+        userAgent,
+      })
+      return ctx.response.forbidden({
+        error: scope
+          ? `API token is missing the '${scope}' scope`
+          : 'This endpoint is not available to API tokens',
+      })
+    }
+
+    const guard = ctx.auth.use('web')
+    guard.user = user
+    guard.isAuthenticated = true
+    guard.authenticationAttempted = true
+    ctx.apiToken = token
+
+    // Every write is audited; reads once per last-used window to keep the log readable
+    if (!READ_METHODS.includes(method) || verified.touched) {
+      await activityLogService.log({
+        action: 'api-token.used',
+        userId: user.id,
+        entityType: 'api_token',
+        entityId: token.id,
+        metadata: { name: token.name, method, path, scope },
+        ip,
+        userAgent,
+      })
+    }
+
+    return next()
+  }
+}
+
+// Extend HttpContext with the API token of the current request
+declare module '@adonisjs/core/http' {
+  interface HttpContext {
+    apiToken?: ApiToken
+  }
+}
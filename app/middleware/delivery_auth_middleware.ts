@@ -0,0 +1,29 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import type { NextFn } from '@adonisjs/core/types/http'
+import deliveryTokenService, { type DeliveryToken } from '#services/delivery_token_service'
+
+/**
+ * Authenticates content delivery API requests with a delivery token
+ * (`Authorization: Bearer <token>` or `X-Delivery-Token: <token>`)
+ */
+export default class DeliveryAuthMiddleware {
+  async handle(ctx: HttpContext, next: NextFn) {
+    const bearer = ctx.request.header('authorization')?.replace(/^Bearer\s+/i, '')
+    const provided = String(ctx.request.header('x-delivery-token') || bearer || '').trim()
+
+    const token = provided ? await deliveryTokenService.verify(provided) : null
+    if (!token) {
+      return ctx.response.unauthorized({ error: 'Invalid or missing delivery token' })
+    }
+
+    ctx.deliveryToken = token
+    return next()
+  }
+}
+
+// Extend HttpContext with the authenticated delivery token
+declare module '@adonisjs/core/http' {
+  interface HttpContext {
+    deliveryToken?: DeliveryToken
+  }
+}
@@ -1,6 +1,5 @@
 import type { HttpContext } from '@adonisjs/core/http'
 import roleRegistry from '#services/role_registry'
-import formRegistry from '#services/form_registry'
 import taxonomyRegistry from '#services/taxonomy_registry'
 import menuTemplateRegistry from '#services/menu_template_registry'
 import localeService from '#services/locale_service'
@@ -86,7 +85,8 @@ export default class InertiaAuthShareMiddleware {
         siteSettings: siteSettingsWithMedia,
         primaryMenu,
         features: {
-          forms: formRegistry.list().length > 0,
+          // Forms can be built in the admin, so the section is always available
+          forms: true,
           taxonomies: taxonomyRegistry.list().length > 0,
           menus: menuTemplateRegistry.list().length > 0,
           locales: localeService.getSupportedLocales().length > 1,
@@ -98,6 +98,10 @@ export default class InertiaAuthShareMiddleware {
           activeSessions: isAdminOrEditor && cmsConfig.features.activeSessions,
           lottie: cmsConfig.features.lottie,
         },
+        analyticsPrivacy: {
+          consentMode: cmsConfig.privacy.consentMode,
+          consentCookie: cmsConfig.privacy.consentCookie,
+        },
         mediaAdmin: isAdminOrEditor
           ? {
             thumbnailVariant: process.env.MEDIA_ADMIN_THUMBNAIL_VARIANT || null,
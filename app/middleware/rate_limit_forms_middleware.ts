@@ -0,0 +1,14 @@
+import type { HttpContext } from '@adonisjs/core/http'
+import type { NextFn } from '@adonisjs/core/types/http'
+import RateLimitMiddleware from '#middleware/rate_limit_middleware'
+
+/**
+ * Rate limiting for public form submissions (per IP and form).
+ */
+export default class RateLimitFormsMiddleware {
+  private delegate = RateLimitMiddleware.forms()
+
+  async handle(ctx: HttpContext, next: NextFn) {
+    return this.delegate.handle(ctx, next)
+  }
+}
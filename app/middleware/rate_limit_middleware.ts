@@ -14,8 +14,13 @@ export type RateLimitOptions = {
   skipAuthenticated?: boolean
   /** Skip rate limiting for admin users */
   skipAdmins?: boolean
+  /** Per-request limits overriding `requests`/`window`; null skips rate limiting */
+  resolveLimit?: (ctx: HttpContext) => Promise<{ requests: number; window: number } | null>
 }
 
+type ResolvedOptions = Required<Omit<RateLimitOptions, 'resolveLimit'>> &
+  Pick<RateLimitOptions, 'resolveLimit'>
+
 /**
  * Rate Limiting Middleware
  *
@@ -23,7 +28,7 @@ export type RateLimitOptions = {
  * Configurable per-route with sensible defaults.
  */
 export default class RateLimitMiddleware {
-  private static defaultOptions: Required<RateLimitOptions> = {
+  private static defaultOptions: ResolvedOptions = {
     requests: cmsConfig.rateLimit.defaultRequests,
     window: cmsConfig.rateLimit.defaultWindow,
     keyGenerator: (ctx) => `rate:${ctx.request.ip()}:${ctx.request.url()}`,
@@ -71,7 +76,29 @@ export default class RateLimitMiddleware {
     })
   }
 
-  constructor(private options: Required<RateLimitOptions>) {}
+  /**
+   * Public form submissions, per IP and form. Forms can set their own limit or
+   * turn it off with `spamProtection.rateLimit`; step validation is not counted.
+   */
+  static forms() {
+    return new RateLimitMiddleware({
+      ...this.defaultOptions,
+      requests: cmsConfig.rateLimit.formRequests,
+      window: cmsConfig.rateLimit.formWindow,
+      keyGenerator: (ctx) => `rate:forms:${ctx.params.slug}:${ctx.request.ip()}`,
+      skipAdmins: true,
+      resolveLimit: async (ctx) => {
+        const { parseStepParam } = await import('#services/form_validation_service')
+        if (parseStepParam(ctx.request.qs().step) !== null) return null
+        const { default: formConfigService } = await import('#services/form_config_service')
+        const { resolveSpamSettings } = await import('#services/form_spam_service')
+        const form = await formConfigService.get(String(ctx.params.slug || ''))
+        return form ? resolveSpamSettings(form).rateLimit : null
+      },
+    })
+  }
+
+  constructor(private options: ResolvedOptions) {}
 
   async handle(ctx: HttpContext, next: NextFn) {
     // Skip if configured to skip authenticated users
@@ -84,9 +111,21 @@ export default class RateLimitMiddleware {
       return next()
     }
 
+    let limit = { requests: this.options.requests, window: this.options.window }
+    if (this.options.resolveLimit) {
+      try {
+        const resolved = await this.options.resolveLimit(ctx)
+        if (!resolved) return next()
+        limit = resolved
+      } catch (error) {
+        console.error('Rate limit middleware error:', error)
+        return next()
+      }
+    }
+
     const key = this.options.keyGenerator(ctx)
     const now = Date.now()
-    const windowMs = this.options.window * 1000
+    const windowMs = limit.window * 1000
     const windowStart = now - windowMs
 
     try {
@@ -99,14 +138,14 @@ export default class RateLimitMiddleware {
       // Count current requests in window
       const currentCount = await redis.zcard(redisKey)
 
-      if (currentCount >= this.options.requests) {
+      if (currentCount >= limit.requests) {
         // Get oldest entry to calculate retry-after
         const oldest = await redis.zrange(redisKey, 0, 0, 'WITHSCORES')
         const oldestTimestamp = oldest.length >= 2 ? Number(oldest[1]) : now
         const retryAfter = Math.ceil((oldestTimestamp + windowMs - now) / 1000)
 
         ctx.response.status(429)
-        ctx.response.header('X-RateLimit-Limit', String(this.options.requests))
+        ctx.response.header('X-RateLimit-Limit', String(limit.requests))
         ctx.response.header('X-RateLimit-Remaining', '0')
         ctx.response.header('X-RateLimit-Reset', String(Math.ceil((now + windowMs) / 1000)))
         ctx.response.header('Retry-After', String(Math.max(1, retryAfter)))
@@ -137,11 +176,11 @@ export default class RateLimitMiddleware {
       await redis.zadd(redisKey, now, `${now}:${Math.random()}`)
 
       // Set expiry on the key
-      await redis.expire(redisKey, this.options.window + 10)
+      await redis.expire(redisKey, limit.window + 10)
 
       // Set rate limit headers
-      ctx.response.header('X-RateLimit-Limit', String(this.options.requests))
-      ctx.response.header('X-RateLimit-Remaining', String(this.options.requests - currentCount - 1))
+      ctx.response.header('X-RateLimit-Limit', String(limit.requests))
+      ctx.response.header('X-RateLimit-Remaining', String(limit.requests - currentCount - 1))
       ctx.response.header('X-RateLimit-Reset', String(Math.ceil((now + windowMs) / 1000)))
 
       return next()
@@ -159,3 +198,4 @@ export default class RateLimitMiddleware {
 export const rateLimit = RateLimitMiddleware.make.bind(RateLimitMiddleware)
 export const rateLimitAuth = RateLimitMiddleware.auth.bind(RateLimitMiddleware)
 export const rateLimitApi = RateLimitMiddleware.api.bind(RateLimitMiddleware)
+export const rateLimitForms = RateLimitMiddleware.forms.bind(RateLimitMiddleware)
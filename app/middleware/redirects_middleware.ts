@@ -1,5 +1,6 @@
 import type { HttpContext } from '@adonisjs/core/http'
-import UrlRedirect from '#models/url_redirect'
+import { Exception } from '@adonisjs/core/exceptions'
+import redirectService from '#services/redirect_service'
 
 export default class RedirectsMiddleware {
   public async handle(ctx: HttpContext, next: () => Promise<void>) {
@@ -9,24 +10,19 @@ export default class RedirectsMiddleware {
       return
     }
 
-    const path = ctx.request.url().split('?')[0] // path without query
-    const locale = ctx.request.input('locale') || null
-
-    // Try specific-locale redirect, then fallback without locale
-    // First try exact locale match (when provided in query),
-    // then any redirect for this from_path regardless of locale.
-    const redirect =
-      (locale ? await UrlRedirect.query().where({ fromPath: path, locale }).first() : null) ||
-      (await UrlRedirect.query().where({ fromPath: path }).first())
-
-    if (redirect) {
-      // Correct argument order: redirect(url, status)
-      return ctx.response.redirect(
-        redirect.toPath,
-        (redirect as any).httpStatus || (redirect as any).http_status || 301
-      )
+    // Rules are matched in memory; see RedirectService
+    const [path, query] = ctx.request.url(true).split('?')
+    const match = await redirectService.match(path, query)
+    if (!match) {
+      await next()
+      return
     }
 
-    await next()
+    redirectService.recordHit(match.rule.id!)
+    if (match.location === null) {
+      throw new Exception('This page has been removed', { status: 410, code: 'E_GONE' })
+    }
+    // The rule decides whether the query string is passed on
+    return ctx.response.redirect(match.location, false, match.rule.httpStatus)
   }
 }
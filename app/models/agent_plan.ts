@@ -0,0 +1,71 @@
+import { DateTime } from 'luxon'
+import { BaseModel, column, belongsTo } from '@adonisjs/lucid/orm'
+import type { BelongsTo } from '@adonisjs/lucid/types/relations'
+import Post from './post.js'
+import User from './user.js'
+
+export type AgentPlanStatus = 'proposed' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+export type AgentPlanStepStatus = 'pending' | 'skipped' | 'running' | 'completed' | 'failed'
+
+export type AgentPlanStep = {
+  id: string
+  title: string
+  instructions: string
+  status: AgentPlanStepStatus
+  executionId?: string | null
+  summary?: string | null
+  applied?: string[]
+  error?: string | null
+}
+
+export default class AgentPlan extends BaseModel {
+  @column({ isPrimary: true })
+  declare id: string
+
+  @column()
+  declare postId: string
+
+  @column()
+  declare agentId: string
+
+  @column()
+  declare userId: number | null
+
+  @column()
+  declare request: string | null
+
+  @column()
+  declare status: AgentPlanStatus
+
+  @column({
+    prepare: (value: any) => JSON.stringify(value || []),
+    consume: (value: any) => {
+      if (!value) return []
+      if (typeof value === 'string') {
+        try {
+          return JSON.parse(value)
+        } catch {
+          return []
+        }
+      }
+      return value
+    },
+  })
+  declare steps: AgentPlanStep[]
+
+  @column()
+  declare error: string | null
+
+  @column.dateTime({ autoCreate: true })
+  declare createdAt: DateTime
+
+  @column.dateTime({ autoCreate: true, autoUpdate: true })
+  declare updatedAt: DateTime
+
+  @belongsTo(() => Post)
+  declare post: BelongsTo<typeof Post>
+
+  @belongsTo(() => User)
+  declare user: BelongsTo<typeof User>
+}
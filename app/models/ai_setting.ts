@@ -25,6 +25,15 @@ export default class AISetting extends BaseModel {
   @column({ columnName: 'default_video_model' })
   declare defaultVideoModel: string | null
 
+  @column({ columnName: 'openai_compatible_base_url' })
+  declare openaiCompatibleBaseUrl: string | null
+
+  @column({
+    columnName: 'pricing',
+    prepare: (value) => (value ? JSON.stringify(value) : value),
+  })
+  declare pricing: any[] | null
+
   @column({
     columnName: 'options',
     prepare: (value) => (value ? JSON.stringify(value) : value),
@@ -15,6 +15,7 @@ import User from './user.js'
 import MediaAsset from './media_asset.js'
 import Feedback from './feedback.js'
 import type { RobotsConfig, JsonLdOverrides } from '#types/seo'
+import type { SourceFingerprint } from '#types/post'
 
 export default class Post extends BaseModel {
   /**
@@ -136,6 +137,18 @@ export default class Post extends BaseModel {
   @column.dateTime()
   declare scheduledAt: DateTime | null
 
+  @column.dateTime()
+  declare unpublishAt: DateTime | null
+
+  @column({ columnName: 'translation_source_hashes' })
+  declare translationSourceHashes: SourceFingerprint | null
+
+  @column.dateTime({ columnName: 'translation_synced_at' })
+  declare translationSyncedAt: DateTime | null
+
+  @column({ columnName: 'translation_review_source_hashes' })
+  declare translationReviewSourceHashes: SourceFingerprint | null
+
   @column.dateTime({ columnName: 'deleted_at' })
   declare deletedAt: DateTime | null
 
@@ -2,6 +2,7 @@ import { BaseModel, column, belongsTo } from '@adonisjs/lucid/orm'
 import type { BelongsTo } from '@adonisjs/lucid/types/relations'
 import Post from './post.js'
 import { DateTime } from 'luxon'
+import type { RedirectMatchType, RedirectQueryStringMode } from '#services/redirect_service'
 
 /**
  * UrlRedirect
@@ -15,8 +16,9 @@ export default class UrlRedirect extends BaseModel {
   @column({ columnName: 'from_path' })
   declare fromPath: string
 
+  /** null for 410 Gone */
   @column({ columnName: 'to_path' })
-  declare toPath: string
+  declare toPath: string | null
 
   @column()
   declare locale: string | null
@@ -32,6 +34,18 @@ export default class UrlRedirect extends BaseModel {
   @column({ columnName: 'http_status' })
   declare httpStatus: number
 
+  @column({ columnName: 'match_type' })
+  declare matchType: RedirectMatchType
+
+  @column({ columnName: 'query_string' })
+  declare queryString: RedirectQueryStringMode
+
+  @column({ columnName: 'hit_count', consume: (value) => Number(value ?? 0) })
+  declare hitCount: number
+
+  @column.dateTime({ columnName: 'last_hit_at' })
+  declare lastHitAt: DateTime | null
+
   @column.dateTime({ columnName: 'active_from' })
   declare activeFrom: DateTime | null
 
@@ -28,6 +28,9 @@ export default class User extends compose(BaseModel, AuthFinder) {
   @column()
   declare role: 'admin' | 'editor_admin' | 'editor' | 'translator' | 'ai_agent' | 'workflow'
 
+  @column()
+  declare isServiceAccount: boolean
+
   @column.dateTime({ autoCreate: true })
   declare createdAt: DateTime
 
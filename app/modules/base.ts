@@ -1,3 +1,4 @@
+import localeService from '#services/locale_service'
 import type { ModuleConfig, ModuleRenderContext, MergedModuleData } from '#types/module_types'
 
 export type RenderingMode = 'static' | 'react' | 'hybrid'
@@ -96,28 +97,42 @@ export default abstract class BaseModule {
   /**
    * Extract localized content from fields
    *
-   * If a field value is an object with locale keys, extract the value for the current locale.
+   * If a field value is an object with locale keys, extract the value for the current locale,
+   * falling back through the locale's fallback chain (e.g. fr-ca -> fr -> en).
    * Otherwise, return the value as-is. Recursively handles nested objects.
    *
    * @param fields - Fields to localize
    * @param locale - Current locale
-   * @param fallbackLocale - Fallback locale if current not found
+   * @param fallbacks - Fallback locale(s) if current not found; defaults to the locale's chain
    * @returns Localized fields
    */
   localizeFields(
     fields: Record<string, any>,
     locale: string,
-    fallbackLocale: string = 'en'
+    fallbacks?: string | string[]
   ): Record<string, any> {
+    const chain = [
+      locale,
+      ...(fallbacks === undefined
+        ? localeService.getFallbackChain(locale)
+        : Array.isArray(fallbacks)
+          ? fallbacks
+          : [fallbacks]),
+    ].map((code) => code.toLowerCase())
+    return this.localizeWithChain(fields, Array.from(new Set(chain)))
+  }
+
+  private localizeWithChain(fields: Record<string, any>, chain: string[]): Record<string, any> {
     const localized: Record<string, any> = {}
 
     for (const [key, value] of Object.entries(fields)) {
       if (this.isLocalizedValue(value)) {
-        // Extract locale-specific value
-        localized[key] = value[locale] || value[fallbackLocale] || null
+        // Extract the first locale-specific value along the chain
+        const byLocale = new Map(Object.entries(value).map(([k, v]) => [k.toLowerCase(), v]))
+        localized[key] = chain.map((code) => byLocale.get(code)).find((v) => v) || null
       } else if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
         // Recursively localize nested objects
-        localized[key] = this.localizeFields(value, locale, fallbackLocale)
+        localized[key] = this.localizeWithChain(value, chain)
       } else {
         localized[key] = value
       }
@@ -151,13 +166,17 @@ export default abstract class BaseModule {
     // - Values are strings
     const localePattern = /^[a-z]{2}(-[a-z]{2})?$/i
 
-    return keys.every((key) => {
+    const looksLocalized = keys.every((key) => {
       if (typeof key !== 'string' || key.length < 2 || key.length > 5) {
         return false
       }
       // Must match locale pattern and have a string value
       return localePattern.test(key) && typeof value[key] === 'string'
     })
+
+    // At least one key must be a configured locale (so e.g. { id: '...' } is left alone)
+    const supported = localeService.getSupportedLocales()
+    return looksLocalized && keys.some((key) => supported.includes(key.toLowerCase()))
   }
 
   /**
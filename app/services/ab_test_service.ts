@@ -0,0 +1,431 @@
+import db from '@adonisjs/lucid/services/db'
+import Post from '#models/post'
+
+export type AbGoalType = 'form_submission' | 'click' | 'url_visit'
+
+/**
+ * How an A/B group measures conversions and when it may pick a winner
+ */
+export type AbTestSettings = {
+  goalType: AbGoalType
+  /** Element selector such as `a.btn-primary` or `#signup` (`click` goal); empty counts every click */
+  goalSelector: string | null
+  /** Path visited right after the variation (`url_visit` goal) */
+  goalUrl: string | null
+  /** Views every variation needs before a winner is declared */
+  minViews: number
+  /** Probability to beat (or lose to) the baseline needed to declare a winner */
+  threshold: number
+  autoPromote: boolean
+  promotedAt: string | null
+}
+
+/**
+ * A click goal parsed from its selector: the clicked element must have this tag and id
+ * (when given) and at least these classes
+ */
+export type AbGoalElement = { tag: string | null; id: string | null; classes: string[] }
+
+export type AbVariationCounts = { label: string; views: number; conversions: number }
+
+export type AbDecision =
+  | { status: 'insufficient_data'; minViews: number }
+  | { status: 'no_winner' }
+  | { status: 'winner'; winner: string; probability: number }
+
+export const AB_BASELINE = 'A'
+
+export const DEFAULT_AB_SETTINGS: AbTestSettings = {
+  goalType: 'form_submission',
+  goalSelector: null,
+  goalUrl: null,
+  minViews: 100,
+  threshold: 0.95,
+  autoPromote: false,
+  promotedAt: null,
+}
+
+/**
+ * SQL condition matching the analytics_events rows that A/B groups with a `click` or
+ * `url_visit` goal count as conversions, until a winner is promoted. Raw-event
+ * retention keeps these rows because the daily rollups do not carry the goal details.
+ * EXISTS keeps the condition false, never NULL, for events without a post or `fromPostId`
+ * (`NOT (x IN (...))` is NULL there and would keep every such event).
+ */
+export const RUNNING_AB_GOAL_EVENTS = `(
+  (analytics_events.event_type = 'click' AND EXISTS (
+    SELECT 1 FROM posts
+    JOIN ab_test_settings ON ab_test_settings.ab_group_id = posts.ab_group_id
+    WHERE posts.id = analytics_events.post_id
+      AND ab_test_settings.goal_type = 'click' AND ab_test_settings.promoted_at IS NULL
+  ))
+  OR (analytics_events.event_type = 'view' AND EXISTS (
+    SELECT 1 FROM posts
+    JOIN ab_test_settings ON ab_test_settings.ab_group_id = posts.ab_group_id
+    WHERE posts.id::text = analytics_events.metadata->>'fromPostId'
+      AND ab_test_settings.goal_type = 'url_visit' AND ab_test_settings.promoted_at IS NULL
+  ))
+)`
+
+// Lanczos approximation (g = 7)
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7,
+]
+
+function logGamma(x: number): number {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x)
+  x -= 1
+  let a = LANCZOS[0]
+  const t = x + 7.5
+  for (let i = 1; i < 9; i++) a += LANCZOS[i] / (x + i)
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a)
+}
+
+function logBeta(a: number, b: number): number {
+  return logGamma(a) + logGamma(b) - logGamma(a + b)
+}
+
+function normalCdf(z: number): number {
+  // Abramowitz & Stegun 7.1.26
+  const t = 1 / (1 + 0.3275911 * (Math.abs(z) / Math.SQRT2))
+  const erf =
+    1 -
+    t *
+      (0.254829592 +
+        t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+      Math.exp(-(z * z) / 2)
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+function clampCounts(counts: { views: number; conversions: number }) {
+  const views = Math.max(0, Math.floor(counts.views))
+  return { views, conversions: Math.min(views, Math.max(0, Math.floor(counts.conversions))) }
+}
+
+/**
+ * 95% Wilson score interval of a conversion rate (0–1)
+ */
+export function wilsonInterval(
+  conversions: number,
+  views: number,
+  z = 1.96
+): { low: number; high: number } {
+  const c = clampCounts({ views, conversions })
+  if (c.views === 0) return { low: 0, high: 0 }
+  const p = c.conversions / c.views
+  const z2 = z * z
+  const center = p + z2 / (2 * c.views)
+  const margin = z * Math.sqrt((p * (1 - p) + z2 / (4 * c.views)) / c.views)
+  const denominator = 1 + z2 / c.views
+  return {
+    low: Math.max(0, (center - margin) / denominator),
+    high: Math.min(1, (center + margin) / denominator),
+  }
+}
+
+/**
+ * Bayesian probability that the challenger's conversion rate beats the baseline's,
+ * with uniform Beta(1, 1) priors. Exact for up to 5000 challenger conversions,
+ * normal approximation above that.
+ */
+export function probabilityToBeat(
+  baseline: { views: number; conversions: number },
+  challenger: { views: number; conversions: number }
+): number {
+  const a = clampCounts(baseline)
+  const b = clampCounts(challenger)
+  const alphaA = a.conversions + 1
+  const betaA = a.views - a.conversions + 1
+  const alphaB = b.conversions + 1
+  const betaB = b.views - b.conversions + 1
+
+  if (alphaB > 5000) {
+    const mean = (alpha: number, beta: number) => alpha / (alpha + beta)
+    const variance = (alpha: number, beta: number) =>
+      (alpha * beta) / ((alpha + beta) ** 2 * (alpha + beta + 1))
+    const diff = mean(alphaB, betaB) - mean(alphaA, betaA)
+    return normalCdf(diff / Math.sqrt(variance(alphaA, betaA) + variance(alphaB, betaB)))
+  }
+
+  let total = 0
+  const base = logBeta(alphaA, betaA)
+  for (let i = 0; i < alphaB; i++) {
+    total += Math.exp(
+      logBeta(alphaA + i, betaA + betaB) - Math.log(betaB + i) - logBeta(1 + i, betaB) - base
+    )
+  }
+  return Math.min(1, Math.max(0, total))
+}
+
+/**
+ * Pick a winner once every variation has `minViews` views: the challenger most likely
+ * to beat the baseline if that probability reaches `threshold`, or the baseline when
+ * every challenger is at least that likely to lose to it.
+ */
+export function decideWinner(
+  variations: AbVariationCounts[],
+  settings: Pick<AbTestSettings, 'minViews' | 'threshold'>,
+  baselineLabel = AB_BASELINE
+): AbDecision {
+  const baseline = variations.find((v) => v.label === baselineLabel)
+  const challengers = variations.filter((v) => v.label !== baselineLabel)
+  if (!baseline || challengers.length === 0) return { status: 'no_winner' }
+  if (variations.some((v) => v.views < settings.minViews)) {
+    return { status: 'insufficient_data', minViews: settings.minViews }
+  }
+
+  const scored = challengers
+    .map((v) => ({ label: v.label, probability: probabilityToBeat(baseline, v) }))
+    .sort((x, y) => y.probability - x.probability)
+
+  if (scored[0].probability >= settings.threshold) {
+    return { status: 'winner', winner: scored[0].label, probability: scored[0].probability }
+  }
+  const worst = scored[0].probability
+  if (1 - worst >= settings.threshold) {
+    return { status: 'winner', winner: baselineLabel, probability: 1 - worst }
+  }
+  return { status: 'no_winner' }
+}
+
+/**
+ * Parse a click goal selector made of one element: `tag`, `#id` and `.class` parts in
+ * any combination (`a.btn-primary`, `button#signup.large`). Null for anything else
+ * (descendants, attributes, pseudo-classes).
+ */
+export function parseGoalSelector(selector: string): AbGoalElement | null {
+  const match = selector.trim().match(/^([a-zA-Z][a-zA-Z0-9-]*)?((?:[#.][\w-]+)*)$/)
+  if (!match || (!match[1] && !match[2])) return null
+  const goal: AbGoalElement = { tag: match[1]?.toLowerCase() || null, id: null, classes: [] }
+  for (const part of match[2].match(/[#.][\w-]+/g) || []) {
+    if (part[0] === '.') {
+      goal.classes.push(part.slice(1))
+    } else if (goal.id) {
+      return null
+    } else {
+      goal.id = part.slice(1)
+    }
+  }
+  return goal
+}
+
+/**
+ * Keep valid fields of admin-submitted settings
+ */
+export function normalizeAbSettings(
+  input: any,
+  current: AbTestSettings = DEFAULT_AB_SETTINGS
+): AbTestSettings {
+  const goalTypes: AbGoalType[] = ['form_submission', 'click', 'url_visit']
+  const text = (value: unknown, fallback: string | null) =>
+    value === undefined ? fallback : typeof value === 'string' && value.trim() ? value.trim() : null
+  const minViews = Number(input?.minViews)
+  const threshold = Number(input?.threshold)
+
+  const settings: AbTestSettings = {
+    goalType: goalTypes.includes(input?.goalType) ? input.goalType : current.goalType,
+    goalSelector: text(input?.goalSelector, current.goalSelector),
+    goalUrl: text(input?.goalUrl, current.goalUrl),
+    minViews: Number.isFinite(minViews) && minViews >= 1 ? Math.floor(minViews) : current.minViews,
+    threshold:
+      Number.isFinite(threshold) && threshold >= 0.5 && threshold < 1
+        ? threshold
+        : current.threshold,
+    autoPromote: typeof input?.autoPromote === 'boolean' ? input.autoPromote : current.autoPromote,
+    promotedAt: current.promotedAt,
+  }
+  if (settings.goalType === 'url_visit' && !settings.goalUrl) {
+    throw new Error('A target URL is required for the URL visit goal')
+  }
+  if (settings.goalType === 'click' && settings.goalSelector) {
+    if (!parseGoalSelector(settings.goalSelector)) {
+      throw new Error(
+        'The click goal selector must name one element, e.g. a.btn-primary or #signup'
+      )
+    }
+  }
+  return settings
+}
+
+/**
+ * A/B Test Service
+ *
+ * Conversion goals per A/B group and the winner rule used for auto-promotion.
+ */
+class AbTestService {
+  async getSettings(abGroupId: string): Promise<AbTestSettings> {
+    const row = await db.from('ab_test_settings').where('ab_group_id', abGroupId).first()
+    if (!row) return { ...DEFAULT_AB_SETTINGS }
+    return {
+      goalType: row.goal_type,
+      goalSelector: row.goal_selector,
+      goalUrl: row.goal_url,
+      minViews: Number(row.min_views),
+      threshold: Number(row.threshold),
+      autoPromote: !!row.auto_promote,
+      promotedAt: row.promoted_at ? new Date(row.promoted_at).toISOString() : null,
+    }
+  }
+
+  async saveSettings(abGroupId: string, input: unknown, userId: number | null) {
+    const settings = normalizeAbSettings(input, await this.getSettings(abGroupId))
+    await db.rawQuery(
+      `INSERT INTO ab_test_settings
+         (ab_group_id, goal_type, goal_selector, goal_url, min_views, threshold, auto_promote, updated_by, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, now(), now())
+       ON CONFLICT (ab_group_id) DO UPDATE
+         SET goal_type = EXCLUDED.goal_type,
+             goal_selector = EXCLUDED.goal_selector,
+             goal_url = EXCLUDED.goal_url,
+             min_views = EXCLUDED.min_views,
+             threshold = EXCLUDED.threshold,
+             auto_promote = EXCLUDED.auto_promote,
+             updated_by = EXCLUDED.updated_by,
+             updated_at = now()`,
+      [
+        abGroupId,
+        settings.goalType,
+        settings.goalSelector,
+        settings.goalUrl,
+        settings.minViews,
+        settings.threshold,
+        settings.autoPromote,
+        userId,
+      ]
+    )
+    return settings
+  }
+
+  /**
+   * Conversions per variation label for the group's goal
+   */
+  async countConversions(
+    abGroupId: string,
+    settings: AbTestSettings
+  ): Promise<Record<string, number>> {
+    let rows: any[]
+    if (settings.goalType === 'form_submission') {
+      rows = await db
+        .from('form_submissions')
+        .where('ab_group_id', abGroupId)
+        .where('status', '<>', 'spam')
+        .select('ab_variation')
+        .count('* as count')
+        .groupBy('ab_variation')
+    } else {
+      // Analytics events carry the post they were recorded on; map it to its variation
+      const query = db.from('analytics_events')
+      if (settings.goalType === 'click') {
+        query.join('posts', 'posts.id', 'analytics_events.post_id')
+      } else {
+        query.joinRaw("JOIN posts ON posts.id::text = analytics_events.metadata->>'fromPostId'")
+      }
+      query
+        .where('posts.ab_group_id', abGroupId)
+        .select('posts.ab_variation')
+        .count('* as count')
+        .groupBy('posts.ab_variation')
+
+      if (settings.goalType === 'click') {
+        query.where('analytics_events.event_type', 'click')
+        if (settings.goalSelector) {
+          // The tracker records the clicked link or button as { tag, id, classes }
+          const goal = parseGoalSelector(settings.goalSelector)
+          const element = "analytics_events.metadata->'element'"
+          if (!goal) {
+            query.whereRaw('false')
+          } else {
+            if (goal.tag) query.whereRaw(`${element}->>'tag' = ?`, [goal.tag])
+            if (goal.id) query.whereRaw(`${element}->>'id' = ?`, [goal.id])
+            if (goal.classes.length > 0) {
+              query.whereRaw(`${element}->'classes' @> ?::jsonb`, [JSON.stringify(goal.classes)])
+            }
+          }
+        }
+      } else {
+        query
+          .where('analytics_events.event_type', 'view')
+          .whereRaw("analytics_events.metadata->>'path' = ?", [settings.goalUrl || ''])
+      }
+      rows = await query
+    }
+
+    const counts: Record<string, number> = {}
+    for (const row of rows) {
+      const label = row.ab_variation || AB_BASELINE
+      counts[label] = (counts[label] || 0) + Number(row.count || 0)
+    }
+    return counts
+  }
+
+  /**
+   * Promote the winner of every group with auto-promotion enabled
+   */
+  async autoPromoteDue(): Promise<{ checked: number; promoted: number }> {
+    const { default: getPostAbStatsAction } = await import(
+      '#actions/posts/get_post_ab_stats_action'
+    )
+    const { default: PromoteVariation } = await import('#actions/posts/promote_variation')
+    const { default: activityLogService } = await import('#services/activity_log_service')
+
+    const groups = await db
+      .from('ab_test_settings')
+      .where('auto_promote', true)
+      .whereNull('promoted_at')
+      .select('ab_group_id', 'updated_by')
+
+    let promoted = 0
+    for (const group of groups) {
+      const members = await Post.query()
+        .where('abGroupId', group.ab_group_id)
+        .whereNull('deletedAt')
+        .whereNull('translationOfId')
+      const leader =
+        members.find((p) => p.id === group.ab_group_id) ||
+        members.find((p) => (p.abVariation || AB_BASELINE) === AB_BASELINE)
+      if (!leader) continue
+
+      const { decision } = await getPostAbStatsAction.evaluate(leader.id)
+      if (decision.status !== 'winner') continue
+
+      const winner = members.find((p) => (p.abVariation || AB_BASELINE) === decision.winner)
+      if (!winner) continue
+
+      try {
+        const main = await PromoteVariation.handle({
+          postId: winner.id,
+          userId: group.updated_by ?? null,
+        })
+        await db
+          .from('ab_test_settings')
+          .where('ab_group_id', group.ab_group_id)
+          .update({ promoted_at: new Date(), updated_at: new Date() })
+        await activityLogService.log({
+          action: 'post.ab_test.auto_promote',
+          userId: group.updated_by ?? null,
+          entityType: 'post',
+          entityId: main.id,
+          metadata: {
+            abGroupId: group.ab_group_id,
+            variation: decision.winner,
+            probability: decision.probability,
+            winnerId: winner.id,
+          },
+        })
+        promoted++
+      } catch (error: any) {
+        console.error('[ab-test] Auto-promotion failed', {
+          abGroupId: group.ab_group_id,
+          error: error?.message,
+        })
+      }
+    }
+
+    return { checked: groups.length, promoted }
+  }
+}
+
+const abTestService = new AbTestService()
+export default abTestService
@@ -0,0 +1,471 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { errors as vineErrors } from '@vinejs/vine'
+import agentExecutor from '#services/agent_executor'
+import aiProviderService from '#services/ai_provider_service'
+import aiUsageService from '#services/ai_usage_service'
+import { updatePostValidator } from '#validators/post'
+import AgentPostPayloadDto from '#dtos/agent_post_payload_dto'
+import type { CanonicalPost } from '#services/post_serializer_service'
+import type { AgentDefinition, AgentScope } from '#types/agent_types'
+
+/**
+ * Checks applied to the outcome of an eval run
+ */
+export type EvalAssertion =
+  | { type: 'metaTitleLength'; min?: number; max?: number }
+  | { type: 'metaDescriptionLength'; min?: number; max?: number }
+  | { type: 'jsonLdKeys'; keys: string[] }
+  | { type: 'noUntranslatedStrings'; minLength?: number; ignore?: string[] }
+  | { type: 'reviewPayloadSchema' }
+  | { type: 'toolCalled'; tool: string }
+
+/**
+ * One saved scenario: the post context an agent sees (the `get_post_context`
+ * result), the instructions it gets, and the provider responses recorded for it
+ */
+export type EvalFixture = {
+  name: string
+  agent: string
+  scope?: AgentScope
+  openEndedContext?: string
+  context: CanonicalPost
+  /** Results of other MCP tools, keyed by tool name */
+  toolResults?: Record<string, any>
+  /** Raw provider responses, one per turn */
+  responses: string[]
+  assertions: EvalAssertion[]
+  /** Path the fixture was loaded from */
+  file?: string
+}
+
+export type EvalToolCall = { tool: string; params: Record<string, any> }
+
+export type EvalOutcome = {
+  success: boolean
+  error: string | null
+  /** Post fields proposed through save_post_ai_review and the final response */
+  post: Record<string, any>
+  /** Module props proposed through update_post_module_ai_review and the final response */
+  modules: Array<{ postModuleId?: string; type?: string; props: Record<string, any> }>
+  toolCalls: EvalToolCall[]
+}
+
+export type EvalAssertionResult = { type: string; passed: boolean; message: string }
+
+export type EvalFixtureResult = {
+  name: string
+  agent: string
+  file: string | null
+  passed: boolean
+  durationMs: number
+  error: string | null
+  assertions: EvalAssertionResult[]
+}
+
+export type EvalReport = {
+  passed: boolean
+  total: number
+  failed: number
+  results: EvalFixtureResult[]
+}
+
+export type EvalRunOptions = {
+  /** Call the agent's real provider instead of replaying recorded responses */
+  live?: boolean
+}
+
+/**
+ * Post fields an agent may propose; strings among them are checked for
+ * untranslated text
+ */
+const TRANSLATABLE_POST_FIELDS = [
+  'title',
+  'excerpt',
+  'metaTitle',
+  'metaDescription',
+  'socialTitle',
+  'socialDescription',
+]
+
+export class AgentEvalException extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AgentEvalException'
+  }
+}
+
+function lengthAssertion(
+  type: string,
+  label: string,
+  value: unknown,
+  min = 0,
+  max = Number.POSITIVE_INFINITY
+): EvalAssertionResult {
+  if (typeof value !== 'string' || !value.trim()) {
+    return { type, passed: false, message: `No ${label} proposed` }
+  }
+  const length = value.trim().length
+  const passed = length >= min && length <= max
+  const range = Number.isFinite(max) ? `${min}-${max}` : `at least ${min}`
+  return { type, passed, message: `${label} is ${length} characters (expected ${range})` }
+}
+
+function jsonLdNodes(value: unknown): Record<string, any>[] {
+  let parsed = value
+  if (typeof parsed === 'string') {
+    try {
+      parsed = JSON.parse(parsed)
+    } catch {
+      return []
+    }
+  }
+  if (Array.isArray(parsed)) return parsed.flatMap(jsonLdNodes)
+  if (!parsed || typeof parsed !== 'object') return []
+  const node = parsed as Record<string, any>
+  return [node, ...(Array.isArray(node['@graph']) ? node['@graph'].flatMap(jsonLdNodes) : [])]
+}
+
+function collectStrings(value: unknown, out: string[] = []): string[] {
+  if (typeof value === 'string') out.push(value.trim())
+  else if (Array.isArray(value)) value.forEach((v) => collectStrings(v, out))
+  else if (value && typeof value === 'object') {
+    Object.values(value).forEach((v) => collectStrings(v, out))
+  }
+  return out
+}
+
+/**
+ * Proposed strings that are identical to a source string
+ */
+export function findUntranslated(
+  source: CanonicalPost,
+  outcome: EvalOutcome,
+  minLength = 12,
+  ignore: string[] = []
+): string[] {
+  const sourceStrings = new Set(
+    collectStrings([
+      TRANSLATABLE_POST_FIELDS.map((field) => (source.post as any)?.[field]),
+      source.modules.map((m) => m.props),
+    ]).filter((text) => text.length >= minLength)
+  )
+  const proposed = collectStrings([
+    TRANSLATABLE_POST_FIELDS.map((field) => outcome.post[field]),
+    outcome.modules.map((m) => m.props),
+  ])
+  return Array.from(
+    new Set(proposed.filter((text) => sourceStrings.has(text) && !ignore.includes(text)))
+  )
+}
+
+/**
+ * Validation errors of a save_post_ai_review call, empty when valid
+ */
+export async function validateReviewPayload(params: Record<string, any>): Promise<string[]> {
+  if (typeof params?.postId !== 'string' || !params.postId) return ['postId is required']
+  if (!params.patch || typeof params.patch !== 'object' || Array.isArray(params.patch)) {
+    return ['patch must be an object']
+  }
+  try {
+    await updatePostValidator.validate(params.patch)
+    return []
+  } catch (error) {
+    if (error instanceof vineErrors.E_VALIDATION_ERROR) {
+      return (error.messages as Array<{ field: string; message: string }>).map(
+        (m) => `${m.field}: ${m.message}`
+      )
+    }
+    throw error
+  }
+}
+
+/**
+ * Apply a fixture's assertions to the outcome of a run
+ */
+export async function runAssertions(
+  fixture: EvalFixture,
+  outcome: EvalOutcome
+): Promise<EvalAssertionResult[]> {
+  const results: EvalAssertionResult[] = []
+  for (const assertion of fixture.assertions) {
+    switch (assertion.type) {
+      case 'metaTitleLength':
+        results.push(
+          lengthAssertion(
+            assertion.type,
+            'Meta title',
+            outcome.post.metaTitle,
+            assertion.min,
+            assertion.max
+          )
+        )
+        break
+      case 'metaDescriptionLength':
+        results.push(
+          lengthAssertion(
+            assertion.type,
+            'Meta description',
+            outcome.post.metaDescription,
+            assertion.min,
+            assertion.max
+          )
+        )
+        break
+      case 'jsonLdKeys': {
+        const nodes = jsonLdNodes(outcome.post.jsonldOverrides)
+        const missing = assertion.keys.filter((key) => !nodes.some((node) => key in node))
+        results.push({
+          type: assertion.type,
+          passed: nodes.length > 0 && missing.length === 0,
+          message:
+            nodes.length === 0
+              ? 'No JSON-LD proposed'
+              : missing.length
+                ? `JSON-LD is missing ${missing.join(', ')}`
+                : 'JSON-LD has all required keys',
+        })
+        break
+      }
+      case 'noUntranslatedStrings': {
+        const untranslated = findUntranslated(
+          fixture.context,
+          outcome,
+          assertion.minLength,
+          assertion.ignore
+        )
+        results.push({
+          type: assertion.type,
+          passed: untranslated.length === 0,
+          message: untranslated.length
+            ? `Untranslated: ${untranslated.map((t) => JSON.stringify(t.slice(0, 60))).join(', ')}`
+            : 'All proposed strings differ from the source',
+        })
+        break
+      }
+      case 'reviewPayloadSchema': {
+        const calls = outcome.toolCalls.filter((c) => c.tool === 'save_post_ai_review')
+        const problems: string[] = []
+        for (const call of calls) problems.push(...(await validateReviewPayload(call.params)))
+        results.push({
+          type: assertion.type,
+          passed: calls.length > 0 && problems.length === 0,
+          message:
+            calls.length === 0
+              ? 'save_post_ai_review was not called'
+              : problems.length
+                ? `Invalid save_post_ai_review payload: ${problems.join('; ')}`
+                : `${calls.length} save_post_ai_review payload(s) valid`,
+        })
+        break
+      }
+      case 'toolCalled': {
+        const called = outcome.toolCalls.some((c) => c.tool === assertion.tool)
+        results.push({
+          type: assertion.type,
+          passed: called,
+          message: called ? `${assertion.tool} was called` : `${assertion.tool} was not called`,
+        })
+        break
+      }
+      default:
+        results.push({
+          type: (assertion as any).type,
+          passed: false,
+          message: `Unknown assertion type: ${(assertion as any).type}`,
+        })
+    }
+  }
+  return results
+}
+
+/**
+ * Agent Eval Service
+ *
+ * Replays saved post contexts through an agent with stubbed MCP tools and a
+ * recorded (or live) provider, then checks the proposed changes. Nothing is
+ * written to the database.
+ */
+class AgentEvalService {
+  /**
+   * Load fixtures from a directory (recursively), optionally for one agent
+   */
+  async loadSuite(dir: string, agentId?: string): Promise<EvalFixture[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true, recursive: true })
+    const files = entries
+      .filter((entry) => entry.isFile() && entry.name.endsWith('.json'))
+      .map((entry) => path.join(entry.parentPath, entry.name))
+      .sort()
+
+    const fixtures: EvalFixture[] = []
+    for (const file of files) {
+      const fixture = this.parseFixture(await fs.readFile(file, 'utf-8'), file)
+      if (!agentId || fixture.agent === agentId) fixtures.push(fixture)
+    }
+    return fixtures
+  }
+
+  parseFixture(json: string, file?: string): EvalFixture {
+    let data: any
+    try {
+      data = JSON.parse(json)
+    } catch (error: any) {
+      throw new AgentEvalException(`${file || 'Fixture'} is not valid JSON: ${error.message}`)
+    }
+    if (!data?.agent || !data?.context?.post || !Array.isArray(data?.assertions)) {
+      throw new AgentEvalException(
+        `${file || 'Fixture'} needs "agent", "context" (a get_post_context result) and "assertions"`
+      )
+    }
+    return {
+      ...data,
+      name: data.name || (file ? path.basename(file, '.json') : data.agent),
+      responses: Array.isArray(data.responses) ? data.responses : [],
+      file,
+    }
+  }
+
+  async saveFixture(fixture: EvalFixture): Promise<void> {
+    if (!fixture.file) throw new AgentEvalException('Fixture has no file to save to')
+    const { file, ...data } = fixture
+    await fs.writeFile(file, JSON.stringify(data, null, 2) + '\n', 'utf-8')
+  }
+
+  /**
+   * Run one fixture. With `live`, the provider responses are captured in
+   * `recorded` so they can be saved back to the fixture.
+   */
+  async runFixture(
+    fixture: EvalFixture,
+    agent: AgentDefinition,
+    options: EvalRunOptions = {}
+  ): Promise<{ result: EvalFixtureResult; outcome: EvalOutcome; recorded: string[] }> {
+    const startedAt = Date.now()
+    const toolCalls: EvalToolCall[] = []
+    const recorded: string[] = []
+    const postId = fixture.context.post.id
+    let turn = 0
+
+    const outcome: EvalOutcome = { success: false, error: null, post: {}, modules: [], toolCalls }
+
+    const run = await agentExecutor.execute(
+      agent,
+      {
+        agent,
+        scope: fixture.scope || 'dropdown',
+        data: { postId, post: fixture.context },
+        history: [],
+      },
+      new AgentPostPayloadDto(fixture.context, {
+        ...(fixture.openEndedContext ? { openEndedContext: fixture.openEndedContext } : {}),
+      }),
+      {
+        dryRun: true,
+        complete: async (messages, completionOptions, config) => {
+          if (options.live) {
+            aiProviderService.validateConfig(config)
+            const response = await aiProviderService.complete(messages, completionOptions, config)
+            // The dry run records nothing itself, but live calls are real spend
+            await aiUsageService.record({
+              agentId: agent.id,
+              provider: config.provider,
+              model: response.metadata?.model || config.model,
+              kind: 'text',
+              promptTokens: response.usage?.promptTokens,
+              completionTokens: response.usage?.completionTokens,
+              totalTokens: response.usage?.totalTokens,
+            })
+            recorded.push(response.content)
+            return response
+          }
+          const content = fixture.responses[turn++]
+          if (content === undefined) {
+            throw new AgentEvalException(
+              `No recorded response for turn ${turn}; re-record with --live --record`
+            )
+          }
+          return { content, metadata: { model: 'recorded' } }
+        },
+        callTool: async (tool, params) => {
+          toolCalls.push({ tool, params })
+          return this.stubTool(fixture, tool, params, outcome)
+        },
+      }
+    )
+
+    outcome.success = run.success
+    outcome.error = run.error?.message || null
+    if (run.success) this.mergeFinalResponse(outcome, run.data)
+
+    const assertions = await runAssertions(fixture, outcome)
+    return {
+      result: {
+        name: fixture.name,
+        agent: fixture.agent,
+        file: fixture.file || null,
+        passed: outcome.success && assertions.every((a) => a.passed),
+        durationMs: Date.now() - startedAt,
+        error: outcome.error,
+        assertions,
+      },
+      outcome,
+      recorded,
+    }
+  }
+
+  summarize(results: EvalFixtureResult[]): EvalReport {
+    const failed = results.filter((r) => !r.passed).length
+    return { passed: failed === 0, total: results.length, failed, results }
+  }
+
+  /**
+   * Answer MCP tool calls from the fixture; writes are captured, not applied
+   */
+  private stubTool(
+    fixture: EvalFixture,
+    tool: string,
+    params: Record<string, any>,
+    outcome: EvalOutcome
+  ): any {
+    switch (tool) {
+      case 'get_post_context':
+      case 'get_post_manifest':
+        return { success: true, ...fixture.context }
+      case 'save_post_ai_review':
+        Object.assign(outcome.post, params?.patch || {})
+        return { success: true, message: 'Suggestions saved to ai-review draft' }
+      case 'update_post_module_ai_review': {
+        const module = fixture.context.modules.find((m) => m.postModuleId === params?.postModuleId)
+        outcome.modules.push({
+          postModuleId: params?.postModuleId,
+          type: module?.type,
+          props: {
+            ...(params?.overrides || params?.props || {}),
+            ...(params?.contentMarkdown ? { contentMarkdown: params.contentMarkdown } : {}),
+          },
+        })
+        return { success: true, message: 'Module suggestions saved to ai-review draft' }
+      }
+      default:
+        if (fixture.toolResults && tool in fixture.toolResults) return fixture.toolResults[tool]
+        throw new AgentEvalException(`Tool '${tool}' has no result in this fixture`)
+    }
+  }
+
+  /**
+   * Fold the agent's final JSON (post fields and module edits) into the outcome
+   */
+  private mergeFinalResponse(outcome: EvalOutcome, data: any) {
+    if (data?.post && typeof data.post === 'object') Object.assign(outcome.post, data.post)
+    if (Array.isArray(data?.modules)) {
+      for (const m of data.modules) {
+        if (m && typeof m === 'object') {
+          outcome.modules.push({ postModuleId: m.postModuleId, type: m.type, props: m.props || {} })
+        }
+      }
+    }
+  }
+}
+
+const agentEvalService = new AgentEvalService()
+export default agentEvalService
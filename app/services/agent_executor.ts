@@ -1,15 +1,40 @@
 import type { AgentDefinition, AgentExecutionContext, AIProvider, AgentConfig } from '#types/agent_types'
-import aiProviderService from '#services/ai_provider_service'
+import aiProviderService, { providerApiKeyEnv } from '#services/ai_provider_service'
 import type {
   AIProviderConfig,
   AICompletionOptions,
+  AICompletionResult,
   AIMessage,
 } from '#services/ai_provider_service'
+import aiUsageService from '#services/ai_usage_service'
 import mcpClientService from '#services/mcp_client_service'
 import reactionExecutorService from '#services/reaction_executor_service'
 import agentDesignContextService from '#services/agent_design_context_service'
 import env from '#start/env'
 
+type AgentExecutionResult = {
+  success: boolean
+  data?: any
+  error?: Error
+  lastCreatedPostId?: string | null
+}
+
+/**
+ * Replacements used to run agents in isolation (e.g. `node ace agent:eval`)
+ */
+export type AgentExecutionOverrides = {
+  /** Answers completions instead of the configured provider (no credentials needed) */
+  complete?: (
+    messages: AIMessage[],
+    options: AICompletionOptions,
+    config: AIProviderConfig
+  ) => Promise<AICompletionResult>
+  /** Runs MCP tool calls instead of the MCP client */
+  callTool?: (tool: string, params: Record<string, any>, mode?: string) => Promise<any>
+  /** Skip budget checks, usage records and reactions */
+  dryRun?: boolean
+}
+
 /**
  * Agent Executor Service
  *
@@ -19,17 +44,36 @@ import env from '#start/env'
 class AgentExecutor {
   /**
    * Execute an agent
+   *
+   * Provider usage (including media generated by MCP tools) is recorded
+   * against the agent, the triggering user and the post in context.
    */
   async execute(
     agent: AgentDefinition,
     context: AgentExecutionContext,
-    payload: any
-  ): Promise<{
-    success: boolean
-    data?: any
-    error?: Error
-    lastCreatedPostId?: string | null
-  }> {
+    payload: any,
+    overrides: AgentExecutionOverrides = {}
+  ): Promise<AgentExecutionResult> {
+    if (overrides.dryRun) return this.run(agent, context, payload, null, overrides)
+
+    const attribution = {
+      agentId: agent.id,
+      userId: context.userId ?? null,
+      userRole: await aiUsageService.roleOf(context.userId),
+      postId: context.data?.postId ?? null,
+    }
+    return aiUsageService.runWithAttribution(attribution, () =>
+      this.run(agent, context, payload, attribution.userRole, overrides)
+    )
+  }
+
+  private async run(
+    agent: AgentDefinition,
+    context: AgentExecutionContext,
+    payload: any,
+    userRole: string | null,
+    overrides: AgentExecutionOverrides
+  ): Promise<AgentExecutionResult> {
     if (!agent.llmConfig) {
       throw new Error('Agent is not configured with LLM capabilities')
     }
@@ -37,18 +81,39 @@ class AgentExecutor {
     const startTime = Date.now()
     const isDebug = env.get('AI_AGENT_DEBUG') === true
     try {
+      // 0. Refuse once the agent's or the user role's monthly budget is used up
+      if (!overrides.dryRun) await aiUsageService.assertWithinBudget(agent.id, userRole)
+
       // 1. Build initial messages
       const messages = await this.buildMessages(agent, context, payload, isDebug)
 
       // 2. Get AI provider configuration
-      const aiConfig = await this.getAIConfig(agent.llmConfig)
-      aiProviderService.validateConfig(aiConfig)
+      const aiConfig = await this.getAIConfig(agent.llmConfig, 'text', !overrides.complete)
+      if (!overrides.complete) aiProviderService.validateConfig(aiConfig)
 
       // 3. Get completion options
       const completionOptions = this.getCompletionOptions(agent.llmConfig)
 
+      // OpenAI-compatible servers get the MCP tools for native function calling;
+      // their tool calls come back in the same JSON format handled below
+      if (agent.llmConfig.useMCP && aiConfig.provider === 'openai-compatible') {
+        const allowedTools = await this.getAllowedTools(agent)
+        completionOptions.tools = allowedTools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+        }))
+      }
+
+      const complete = async () => {
+        const result = overrides.complete
+          ? await overrides.complete(messages, completionOptions, aiConfig)
+          : await aiProviderService.complete(messages, completionOptions, aiConfig)
+        if (!overrides.dryRun) await this.recordCompletion(aiConfig, result)
+        return result
+      }
+
       // 4. First AI completion
-      let aiResult = await aiProviderService.complete(messages, completionOptions, aiConfig)
+      let aiResult = await complete()
       let finalContent = aiResult.content
 
       // Track usage and model info
@@ -113,7 +178,12 @@ class AgentExecutor {
               context.scope === 'field' ? (context.data?.viewMode || 'source') : 'ai-review'
 
             // Execute tools for this turn
-            const toolResults = await this.executeTools(agent, parsed.tool_calls, targetMode)
+            const toolResults = await this.executeTools(
+              agent,
+              parsed.tool_calls,
+              targetMode,
+              overrides.callTool
+            )
             allToolResults.push(...toolResults)
 
             transcript.push({
@@ -166,7 +236,7 @@ RESPOND WITH YOUR NEXT TOOL CALLS IN JSON FORMAT.`
             })
 
             // Get next AI completion
-            aiResult = await aiProviderService.complete(messages, completionOptions, aiConfig)
+            aiResult = await complete()
             finalContent = aiResult.content
             currentTurn++
 
@@ -280,7 +350,7 @@ RESPOND WITH YOUR NEXT TOOL CALLS IN JSON FORMAT.`
         transcript,
       }
 
-      if (agent.reactions && agent.reactions.length > 0) {
+      if (!overrides.dryRun && agent.reactions && agent.reactions.length > 0) {
         await reactionExecutorService.executeReactions(agent.reactions, context, result)
       }
 
@@ -297,7 +367,7 @@ RESPOND WITH YOUR NEXT TOOL CALLS IN JSON FORMAT.`
         error: error instanceof Error ? error : new Error(String(error)),
       }
 
-      if (agent.reactions && agent.reactions.length > 0) {
+      if (!overrides.dryRun && agent.reactions && agent.reactions.length > 0) {
         await reactionExecutorService.executeReactions(agent.reactions, context, errorResult)
       }
 
@@ -305,6 +375,17 @@ RESPOND WITH YOUR NEXT TOOL CALLS IN JSON FORMAT.`
     }
   }
 
+  private async recordCompletion(aiConfig: AIProviderConfig, aiResult: AICompletionResult) {
+    await aiUsageService.record({
+      provider: aiConfig.provider,
+      model: aiResult.metadata?.model || aiConfig.model,
+      kind: 'text',
+      promptTokens: aiResult.usage?.promptTokens,
+      completionTokens: aiResult.usage?.completionTokens,
+      totalTokens: aiResult.usage?.totalTokens,
+    })
+  }
+
   /**
    * Extract JSON string from raw text (handles markdown code blocks)
    */
@@ -321,7 +402,12 @@ RESPOND WITH YOUR NEXT TOOL CALLS IN JSON FORMAT.`
   /**
    * Execute MCP tools and return results
    */
-  private async executeTools(agent: AgentDefinition, toolCalls: any[], mode?: string): Promise<any[]> {
+  private async executeTools(
+    agent: AgentDefinition,
+    toolCalls: any[],
+    mode?: string,
+    callTool?: AgentExecutionOverrides['callTool']
+  ): Promise<any[]> {
     const results: any[] = []
     const mediaTools = ['generate_image', 'generate_video']
     
@@ -405,7 +491,9 @@ RESPOND WITH YOUR NEXT TOOL CALLS IN JSON FORMAT.`
         }
 
         // Execute the tool
-        const result = await mcpClientService.callTool(tool, params, agent.id, mode)
+        const result = callTool
+          ? await callTool(tool, params, mode)
+          : await mcpClientService.callTool(tool, params, agent.id, mode)
         results.push({
           tool,
           success: true,
@@ -698,11 +786,7 @@ Only include fields that you are actually changing. NEVER leave module copy fiel
 
     // Add MCP tools info if enabled
     if (agent.llmConfig?.useMCP) {
-      const availableTools = await mcpClientService.listTools()
-      const allowedTools =
-        agent.llmConfig?.allowedMCPTools && agent.llmConfig.allowedMCPTools.length > 0
-          ? availableTools.filter((t) => agent.llmConfig?.allowedMCPTools?.includes(t.name))
-          : availableTools
+      const allowedTools = await this.getAllowedTools(agent)
 
       parts.push('\n\nYou have access to the following MCP tools:')
       for (const tool of allowedTools) {
@@ -716,12 +800,25 @@ Only include fields that you are actually changing. NEVER leave module copy fiel
     return parts.join('\n')
   }
 
+  /**
+   * MCP tools the agent may call (all tools unless allowedMCPTools is set)
+   */
+  private async getAllowedTools(
+    agent: AgentDefinition
+  ): Promise<Array<{ name: string; description: string }>> {
+    const availableTools = await mcpClientService.listTools()
+    return agent.llmConfig?.allowedMCPTools && agent.llmConfig.allowedMCPTools.length > 0
+      ? availableTools.filter((t) => agent.llmConfig?.allowedMCPTools?.includes(t.name))
+      : availableTools
+  }
+
   /**
    * Get AI provider configuration from agent config
    */
   private async getAIConfig(
     config: AgentConfig,
-    type: 'text' | 'media' = 'text'
+    type: 'text' | 'media' = 'text',
+    requireCredentials = true
   ): Promise<AIProviderConfig> {
     // Determine provider and model based on type
     let provider: AIProvider | undefined
@@ -759,13 +856,26 @@ Only include fields that you are actually changing. NEVER leave module copy fiel
 
     // Get API key from config or environment
     let apiKey = config.apiKey
-    const envKey = `AI_PROVIDER_${provider.toUpperCase()}_API_KEY`
+    const envKey = providerApiKeyEnv(provider)
     if (!apiKey) {
       // Try environment variable via Adonis Env service
       apiKey = env.get(envKey as any) || ''
     }
 
-    if (!apiKey) {
+    let baseUrl = config.baseUrl
+    if (provider === 'openai-compatible') {
+      // Self-hosted servers need no key; the base URL comes from the AI settings by default
+      if (!baseUrl) {
+        const { default: aiSettingsService } = await import('#services/ai_settings_service')
+        const { openaiCompatibleBaseUrl } = await aiSettingsService.get()
+        baseUrl = openaiCompatibleBaseUrl || undefined
+      }
+      if (!baseUrl && requireCredentials) {
+        throw new Error(
+          'Base URL not found for provider openai-compatible. Set baseUrl in agent config or in the AI settings.'
+        )
+      }
+    } else if (!apiKey && requireCredentials) {
       throw new Error(
         `API key not found for provider ${provider}. Set apiKey in agent config or ${envKey} environment variable.`
       )
@@ -773,9 +883,9 @@ Only include fields that you are actually changing. NEVER leave module copy fiel
 
     return {
       provider,
-      apiKey,
+      apiKey: apiKey || '',
       model,
-      baseUrl: config.baseUrl,
+      baseUrl,
       options: config.options,
     }
   }
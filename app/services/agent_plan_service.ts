@@ -0,0 +1,456 @@
+import { randomUUID } from 'node:crypto'
+import db from '@adonisjs/lucid/services/db'
+import AgentPlan, { type AgentPlanStatus, type AgentPlanStep } from '#models/agent_plan'
+import PostSerializerService from '#services/post_serializer_service'
+import PostSnapshotService from '#services/post_snapshot_service'
+import RevisionService from '#services/revision_service'
+import AgentPostPayloadDto from '#dtos/agent_post_payload_dto'
+import agentExecutor from '#services/agent_executor'
+import agentExecutionService from '#services/agent_execution_service'
+import type { AgentDefinition } from '#types/agent_types'
+
+export const MAX_PLAN_STEPS = 10
+
+/**
+ * A running plan touches `updated_at` this often while a step runs. One that has not
+ * been touched for PLAN_STALE_SECONDS lost its runner (e.g. a restart) and can be resumed.
+ */
+export const PLAN_HEARTBEAT_SECONDS = 30
+export const PLAN_STALE_SECONDS = 300
+
+export class AgentPlanException extends Error {
+  constructor(
+    message: string,
+    public status: number = 400
+  ) {
+    super(message)
+    this.name = 'AgentPlanException'
+  }
+}
+
+/**
+ * A failed step whose execution (with the error) was saved to agent_executions
+ */
+class AgentPlanStepError extends Error {
+  constructor(
+    message: string,
+    public executionId: string | null
+  ) {
+    super(message)
+    this.name = 'AgentPlanStepError'
+  }
+}
+
+/**
+ * Instructions asking the agent for a plan instead of changes
+ */
+export function buildPlanningPrompt(agent: AgentDefinition, request: string | null): string {
+  const tools = agent.llmConfig?.useMCP
+    ? agent.llmConfig.allowedMCPTools?.length
+      ? agent.llmConfig.allowedMCPTools.join(', ')
+      : 'all available tools'
+    : 'none (you can only return post and module changes)'
+
+  return [
+    `Goal: ${request || agent.description || agent.name}`,
+    '',
+    'Do NOT change anything yet. Break the goal into a short, ordered plan of steps.',
+    'An editor will review the plan, and each step will then be run on its own with the result of the previous steps.',
+    `Tools you will have when running a step: ${tools}.`,
+    `Use at most ${MAX_PLAN_STEPS} steps. Respond with JSON only, in this format:`,
+    '{ "summary": "One sentence about the plan", "steps": [ { "title": "Short title", "instructions": "What to do in this step" } ] }',
+  ].join('\n')
+}
+
+/**
+ * Instructions for one step, with the goal and what earlier steps did
+ */
+export function buildStepPrompt(
+  request: string | null,
+  steps: AgentPlanStep[],
+  index: number
+): string {
+  const step = steps[index]
+  const done = steps
+    .slice(0, index)
+    .filter((s) => s.status === 'completed')
+    .map((s) => `- ${s.title}: ${s.summary || 'done'}`)
+
+  return [
+    ...(request ? [`Overall goal: ${request}`, ''] : []),
+    ...(done.length > 0 ? ['Steps already completed:', ...done, ''] : []),
+    `Current step (${index + 1} of ${steps.length}): ${step.title}`,
+    step.instructions,
+    '',
+    'Only do this step; later steps will handle the rest.',
+  ].join('\n')
+}
+
+/**
+ * Read the steps of an agent's planning response
+ */
+export function parsePlanSteps(data: any): AgentPlanStep[] {
+  let raw = data?.steps ?? data?.plan
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw)
+    } catch {
+      raw = null
+    }
+  }
+  if (!Array.isArray(raw)) return []
+
+  return raw
+    .map((item: any) =>
+      typeof item === 'string'
+        ? { title: item, instructions: item }
+        : {
+            title: String(item?.title || item?.name || '').trim(),
+            instructions: String(item?.instructions || item?.description || '').trim(),
+          }
+    )
+    .filter((item) => item.title || item.instructions)
+    .slice(0, MAX_PLAN_STEPS)
+    .map((item) => ({
+      id: randomUUID(),
+      title: (item.title || item.instructions).slice(0, 200),
+      instructions: item.instructions || item.title,
+      status: 'pending' as const,
+    }))
+}
+
+/**
+ * Apply an editor's changes to a proposed plan. Steps keep the order of `edits`;
+ * steps left out or marked `skip` are skipped, and steps without an id are added.
+ */
+export function applyStepEdits(current: AgentPlanStep[], edits: unknown): AgentPlanStep[] {
+  if (!Array.isArray(edits)) throw new AgentPlanException('steps must be an array')
+
+  const byId = new Map(current.map((step) => [step.id, step]))
+  const kept = new Set<string>()
+  const steps: AgentPlanStep[] = []
+
+  for (const edit of edits as any[]) {
+    const existing = edit?.id ? byId.get(edit.id) : undefined
+    if (edit?.id && !existing) throw new AgentPlanException(`Unknown step: ${edit.id}`)
+
+    const title = String(edit?.title ?? existing?.title ?? '').trim()
+    const instructions = String(edit?.instructions ?? existing?.instructions ?? '').trim()
+    if (!title && !instructions) continue
+
+    const step: AgentPlanStep = {
+      id: existing?.id || randomUUID(),
+      title: (title || instructions).slice(0, 200),
+      instructions: instructions || title,
+      status: edit?.skip === true ? 'skipped' : 'pending',
+    }
+    kept.add(step.id)
+    steps.push(step)
+  }
+
+  for (const step of current) {
+    if (!kept.has(step.id)) steps.push({ ...step, status: 'skipped' })
+  }
+
+  if (steps.filter((s) => s.status === 'pending').length > MAX_PLAN_STEPS) {
+    throw new AgentPlanException(`A plan can have at most ${MAX_PLAN_STEPS} steps`)
+  }
+  return steps
+}
+
+/**
+ * Whether a running plan's runner is gone
+ */
+export function isStalePlan(
+  plan: { status: AgentPlanStatus; updatedAt: { toJSDate(): Date } | null },
+  now: Date = new Date()
+): boolean {
+  if (plan.status !== 'running' || !plan.updatedAt) return false
+  return now.getTime() - plan.updatedAt.toJSDate().getTime() > PLAN_STALE_SECONDS * 1000
+}
+
+/**
+ * Agent Plan Service
+ *
+ * Runs larger agent jobs as a plan: the agent proposes steps, an editor edits
+ * and approves them, and each step then runs as its own agent execution whose
+ * changes are saved to the AI review draft before the next one starts.
+ */
+class AgentPlanService {
+  /**
+   * Ask the agent for a plan. Nothing is written to the post.
+   */
+  async propose(
+    postId: string,
+    agent: AgentDefinition,
+    options: { userId?: number | null; request?: string | null }
+  ): Promise<AgentPlan> {
+    const request = options.request?.trim() || null
+    const canonical = await PostSerializerService.serialize(postId, 'ai-review')
+    const openEndedContext = buildPlanningPrompt(agent, request)
+
+    // Planning must not call tools or trigger reactions
+    const planner: AgentDefinition = {
+      ...agent,
+      llmConfig: agent.llmConfig ? { ...agent.llmConfig, useMCP: false } : agent.llmConfig,
+      reactions: [],
+    }
+    const result: any = await agentExecutor.execute(
+      planner,
+      {
+        agent: planner,
+        scope: 'dropdown',
+        userId: options.userId ?? undefined,
+        data: { postId, post: canonical },
+        history: [],
+      },
+      new AgentPostPayloadDto(canonical, { openEndedContext })
+    )
+    if (!result.success) {
+      throw new AgentPlanException(result.error?.message || 'The agent could not propose a plan')
+    }
+
+    const steps = parsePlanSteps(result.data)
+    if (steps.length === 0) {
+      throw new AgentPlanException('The agent did not return any plan steps')
+    }
+
+    return AgentPlan.create({
+      postId,
+      agentId: agent.id,
+      userId: options.userId ?? null,
+      request,
+      status: 'proposed',
+      steps,
+      error: null,
+    })
+  }
+
+  async find(planId: string): Promise<AgentPlan> {
+    const plan = await AgentPlan.find(planId)
+    if (!plan) throw new AgentPlanException('Plan not found', 404)
+    return plan
+  }
+
+  async updateSteps(planId: string, edits: unknown): Promise<AgentPlan> {
+    const plan = await this.find(planId)
+    if (plan.status !== 'proposed') {
+      throw new AgentPlanException('Only proposed plans can be edited', 409)
+    }
+    plan.steps = applyStepEdits(plan.steps, edits)
+    await plan.save()
+    return plan
+  }
+
+  /**
+   * Start running the pending steps in the background
+   */
+  async approve(planId: string, agent: AgentDefinition): Promise<AgentPlan> {
+    const plan = await this.find(planId)
+    if (plan.status !== 'proposed') {
+      throw new AgentPlanException('Only proposed plans can be approved', 409)
+    }
+    return this.start(plan, agent)
+  }
+
+  /**
+   * Continue a failed plan from its failed step, or take over a running plan
+   * whose runner stopped (its interrupted step runs again)
+   */
+  async resume(planId: string, agent: AgentDefinition): Promise<AgentPlan> {
+    const plan = await this.find(planId)
+    if (plan.status !== 'failed' && !isStalePlan(plan)) {
+      throw new AgentPlanException('Only failed or stalled plans can be resumed', 409)
+    }
+    plan.steps = plan.steps.map((step) =>
+      step.status === 'failed' || step.status === 'running'
+        ? { ...step, status: 'pending', error: null }
+        : step
+    )
+    return this.start(plan, agent)
+  }
+
+  /**
+   * Cancel a plan. A running step finishes; later steps are skipped.
+   */
+  async cancel(planId: string): Promise<AgentPlan> {
+    const plan = await this.find(planId)
+    if (!['proposed', 'running', 'failed'].includes(plan.status)) {
+      throw new AgentPlanException(`Plan is already ${plan.status}`, 409)
+    }
+    plan.status = 'cancelled'
+    await plan.save()
+    return plan
+  }
+
+  /**
+   * Switch the plan to running only if it is still in the state it was loaded in,
+   * so concurrent approvals or resumes start a single runner
+   */
+  private async start(plan: AgentPlan, agent: AgentDefinition): Promise<AgentPlan> {
+    if (!plan.steps.some((step) => step.status === 'pending')) {
+      throw new AgentPlanException('The plan has no steps to run')
+    }
+    const now = new Date()
+    const staleBefore = new Date(now.getTime() - PLAN_STALE_SECONDS * 1000)
+    const result = await db.rawQuery(
+      `UPDATE agent_plans
+       SET status = 'running', error = NULL, steps = ?, updated_at = ?
+       WHERE id = ? AND status = ? AND (status <> 'running' OR updated_at < ?)
+       RETURNING id`,
+      [JSON.stringify(plan.steps), now, plan.id, plan.status, staleBefore]
+    )
+    if ((result?.rows || []).length === 0) {
+      throw new AgentPlanException('The plan was already started', 409)
+    }
+
+    this.runSteps(plan.id, agent).catch((error) => {
+      console.error('[agent-plan] Plan run failed', { planId: plan.id, error: error?.message })
+    })
+    return this.find(plan.id)
+  }
+
+  private async runSteps(planId: string, agent: AgentDefinition): Promise<void> {
+    for (;;) {
+      const plan = await this.find(planId)
+      if (plan.status !== 'running') return
+
+      const index = plan.steps.findIndex((step) => step.status === 'pending')
+      if (index === -1) {
+        plan.status = 'completed'
+        await plan.save()
+        return
+      }
+
+      plan.steps = plan.steps.map((s, i) => (i === index ? { ...s, status: 'running' } : s))
+      await plan.save()
+
+      let update: Partial<AgentPlanStep>
+      const heartbeat = setInterval(() => {
+        this.touch(planId).catch(() => {})
+      }, PLAN_HEARTBEAT_SECONDS * 1000)
+      try {
+        update = { status: 'completed', ...(await this.runStep(plan, index, agent)) }
+      } catch (error: any) {
+        update = {
+          status: 'failed',
+          error: error?.message || 'Step failed',
+          executionId: error instanceof AgentPlanStepError ? error.executionId : null,
+        }
+      } finally {
+        clearInterval(heartbeat)
+      }
+
+      // Reload: the plan may have been cancelled while the step ran
+      const latest = await this.find(planId)
+      latest.steps = latest.steps.map((s, i) => (i === index ? { ...s, ...update } : s))
+      if (update.status === 'failed') {
+        latest.status = 'failed'
+        latest.error = `Step ${index + 1} failed: ${update.error}`
+      }
+      await latest.save()
+      if (update.status === 'failed') return
+    }
+  }
+
+  /**
+   * Mark a running plan as alive
+   */
+  private async touch(planId: string): Promise<void> {
+    await db
+      .from('agent_plans')
+      .where('id', planId)
+      .where('status', 'running')
+      .update({ updated_at: new Date() })
+  }
+
+  /**
+   * Run one step against the current AI review draft and save its changes there,
+   * so the next step (and the editor) sees them even if a later step fails.
+   */
+  private async runStep(
+    plan: AgentPlan,
+    index: number,
+    agent: AgentDefinition
+  ): Promise<Partial<AgentPlanStep>> {
+    const canonical = await PostSerializerService.serialize(plan.postId, 'ai-review')
+    const openEndedContext = buildStepPrompt(plan.request, plan.steps, index)
+    const stepContext = { planId: plan.id, stepId: plan.steps[index].id, stepIndex: index }
+
+    const save = (response: Record<string, any>) =>
+      agentExecutionService.saveExecution({
+        postId: plan.postId,
+        agentId: agent.id,
+        viewMode: 'ai-review',
+        userId: plan.userId,
+        request: openEndedContext,
+        response,
+        context: stepContext,
+        scope: 'dropdown',
+      })
+
+    let result: any = null
+    let applied: string[] = []
+    try {
+      result = await agentExecutor.execute(
+        agent,
+        {
+          agent,
+          scope: 'dropdown',
+          userId: plan.userId ?? undefined,
+          data: { postId: plan.postId, post: canonical, ...stepContext },
+          history: [],
+        },
+        new AgentPostPayloadDto(canonical, { ...stepContext, openEndedContext })
+      )
+      if (!result.success) {
+        throw result.error || new Error('Agent execution failed')
+      }
+
+      const suggestions = result.data || {}
+      const snapshot = await PostSerializerService.serialize(plan.postId, 'ai-review')
+      applied = PostSnapshotService.mergeSuggestions(
+        snapshot,
+        suggestions.post || {},
+        (Array.isArray(suggestions.modules) ? suggestions.modules : []).filter(
+          (m: any) =>
+            (m.props && Object.keys(m.props).length > 0) ||
+            (m.overrides && Object.keys(m.overrides).length > 0)
+        )
+      )
+      if (applied.length > 0) {
+        await PostSnapshotService.apply(plan.postId, snapshot, 'ai-review')
+        await RevisionService.record({
+          postId: plan.postId,
+          mode: 'ai-review',
+          snapshot: snapshot as any,
+          userId: plan.userId,
+        })
+      }
+    } catch (error: any) {
+      // Failed steps are recorded too, so the error shows up in the execution history
+      const message = error?.message || 'Agent execution failed'
+      const execution = await save({
+        error: message,
+        rawResponse: result?.rawResponse,
+        applied,
+        executionMeta: result?.executionMeta,
+        transcript: result?.transcript,
+      }).catch(() => null)
+      throw new AgentPlanStepError(message, execution?.id ?? null)
+    }
+
+    const execution = await save({
+      rawResponse: result.rawResponse,
+      summary: result.summary,
+      applied,
+      executionMeta: result.executionMeta,
+      transcript: result.transcript,
+    })
+
+    return { executionId: execution.id, summary: result.summary || null, applied }
+  }
+}
+
+const agentPlanService = new AgentPlanService()
+export default agentPlanService
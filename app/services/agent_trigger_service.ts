@@ -1,4 +1,4 @@
-import type { AgentScope } from '#types/agent_types'
+import type { AgentDefinition, AgentScope } from '#types/agent_types'
 import agentRegistry from '#services/agent_registry'
 import agentExecutor from '#services/agent_executor'
 import PostSerializerService from '#services/post_serializer_service'
@@ -16,7 +16,7 @@ class AgentTriggerService {
     postId: string,
     context: Record<string, any> = {}
   ): Promise<void> {
-    const agents = agentRegistry.listByScope(scope)
+    const agents = agentRegistry.listByScope(scope, context.formSlug)
 
     if (agents.length === 0) {
       return
@@ -31,34 +31,61 @@ class AgentTriggerService {
     // Execute each agent
     for (const agent of agents) {
       try {
-        const executionContext = {
-          agent,
-          scope,
-          userId: context.userId,
-          data: {
-            postId,
-            post: postData,
-            ...context,
-          },
-        }
-
-        const payload = {
-          post: postData,
-          modules: postData.modules,
-          context: {
-            ...context,
-          },
-        }
-
         // We run these in sequence to avoid overwhelming the AI providers
         // and because some agents might depend on changes from previous ones
         // (though currently we don't re-serialize between agents in the same scope)
-        await agentExecutor.execute(agent, executionContext, payload)
+        await this.executeForPost(agent, scope, postId, postData, context)
       } catch (error) {
         console.error(`Failed to run automatic agent ${agent.id} for scope ${scope}:`, error)
       }
     }
   }
+
+  /**
+   * Run a single agent against a post (used by workflow `agent` steps)
+   */
+  async runAgentForPost(
+    agentId: string,
+    postId: string,
+    context: Record<string, any> = {},
+    scope: AgentScope = 'dropdown'
+  ) {
+    const agent = agentRegistry.get(agentId)
+    if (!agent) {
+      throw new Error(`Agent "${agentId}" is not registered`)
+    }
+    const postData = await PostSerializerService.serialize(postId, context.viewMode || 'source')
+    return this.executeForPost(agent, scope, postId, postData, context)
+  }
+
+  private async executeForPost(
+    agent: AgentDefinition,
+    scope: AgentScope,
+    postId: string,
+    postData: any,
+    context: Record<string, any>
+  ) {
+    const executionContext = {
+      agent,
+      scope,
+      userId: context.userId,
+      data: {
+        postId,
+        post: postData,
+        ...context,
+      },
+    }
+
+    const payload = {
+      post: postData,
+      modules: postData.modules,
+      context: {
+        ...context,
+      },
+    }
+
+    return agentExecutor.execute(agent, executionContext, payload)
+  }
 }
 
 const agentTriggerService = new AgentTriggerService()
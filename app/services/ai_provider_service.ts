@@ -6,7 +6,15 @@ import env from '#start/env'
 /**
  * Supported AI providers
  */
-export type AIProvider = 'openai' | 'anthropic' | 'google' | 'nanobanana'
+export type AIProvider = 'openai' | 'anthropic' | 'google' | 'nanobanana' | 'openai-compatible'
+
+/**
+ * Environment variable holding a provider's API key
+ * Example: openai-compatible -> AI_PROVIDER_OPENAI_COMPATIBLE_API_KEY
+ */
+export function providerApiKeyEnv(provider: string): string {
+  return `AI_PROVIDER_${provider.toUpperCase().replace(/-/g, '_')}_API_KEY`
+}
 
 /**
  * Model capabilities
@@ -52,6 +60,26 @@ export interface AIMessage {
   content: string
 }
 
+/**
+ * Tool the model may call natively (function calling)
+ */
+export interface AIToolDefinition {
+  name: string
+  description: string
+  /**
+   * JSON schema of the tool's params (defaults to any object)
+   */
+  parameters?: Record<string, any>
+}
+
+/**
+ * Tool call requested by the model, in the agent executor's format
+ */
+export interface AIToolCall {
+  tool: string
+  params: Record<string, any>
+}
+
 /**
  * Model-agnostic completion options
  */
@@ -76,6 +104,11 @@ export interface AICompletionOptions {
    */
   stop?: string[]
 
+  /**
+   * Tools offered for native function calling (openai-compatible provider)
+   */
+  tools?: AIToolDefinition[]
+
   /**
    * Additional provider-specific options
    */
@@ -100,6 +133,11 @@ export interface AICompletionResult {
     totalTokens?: number
   }
 
+  /**
+   * Native tool calls requested by the model (also encoded in `content`)
+   */
+  toolCalls?: AIToolCall[]
+
   /**
    * Provider-specific metadata
    */
@@ -110,7 +148,8 @@ export interface AICompletionResult {
  * AI Provider Service
  *
  * Model-agnostic abstraction layer for multiple AI providers.
- * Supports OpenAI, Anthropic (Claude), and Google (Gemini).
+ * Supports OpenAI, Anthropic (Claude), Google (Gemini), and any OpenAI-compatible
+ * server (Ollama, vLLM, LM Studio) reachable at a configured base URL.
  */
 class AIProviderService {
   /**
@@ -128,6 +167,8 @@ class AIProviderService {
         return this.completeAnthropic(messages, options, config)
       case 'google':
         return this.completeGoogle(messages, options, config)
+      case 'openai-compatible':
+        return this.completeOpenAICompatible(messages, options, config)
       default:
         throw new Error(`Unsupported AI provider: ${config.provider}`)
     }
@@ -224,6 +265,114 @@ class AIProviderService {
     }
   }
 
+  /**
+   * Complete using an OpenAI-compatible server (Ollama, vLLM, LM Studio, ...)
+   *
+   * Native tool calls are returned in the agent executor's JSON format
+   * (`{ "tool_calls": [{ "tool", "params" }] }`), so the agent loop handles them
+   * like tool calls written in the response text. Servers that reject `tools`
+   * are retried without them; the system prompt still describes the JSON format.
+   */
+  private async completeOpenAICompatible(
+    messages: AIMessage[],
+    options: AICompletionOptions,
+    config: AIProviderConfig
+  ): Promise<AICompletionResult> {
+    if (!config.baseUrl) {
+      throw new Error('Base URL is required for the openai-compatible provider')
+    }
+
+    const client = new OpenAI({
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: config.apiKey || 'not-needed',
+      baseURL: config.baseUrl,
+    })
+
+    const { maxTokens, topP, temperature: temp, stop, ...otherOptions } = config.options || {}
+    const requestParams: any = {
+      model: config.model,
+      messages: messages.map((msg) => ({ role: msg.role, content: msg.content })),
+      temperature: options.temperature ?? temp ?? 0.7,
+      ...otherOptions,
+    }
+    const maxTokensValue = options.maxTokens ?? maxTokens
+    if (maxTokensValue !== undefined) requestParams.max_tokens = maxTokensValue
+    const topPValue = options.topP ?? topP
+    if (topPValue !== undefined) requestParams.top_p = topPValue
+    const stopValue = options.stop ?? stop
+    if (stopValue !== undefined) requestParams.stop = stopValue
+
+    const tools = (options.tools || []).map((tool) => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters || { type: 'object', additionalProperties: true },
+      },
+    }))
+
+    let response: any
+    try {
+      try {
+        response = await client.chat.completions.create(
+          tools.length > 0 ? { ...requestParams, tools } : requestParams
+        )
+      } catch (error: any) {
+        // Models/servers without function calling reject the tools parameter
+        if (tools.length === 0 || error?.status !== 400) throw error
+        response = await client.chat.completions.create(requestParams)
+      }
+    } catch (error: any) {
+      if (error?.status === 401) {
+        throw new Error('OpenAI-compatible server rejected the API key')
+      }
+      if (error?.status === 404) {
+        throw new Error(
+          `Model '${config.model}' not found on the OpenAI-compatible server at ${config.baseUrl}`
+        )
+      }
+      if (!error?.status) {
+        throw new Error(
+          `Could not reach the OpenAI-compatible server at ${config.baseUrl}: ${error?.message || error}`
+        )
+      }
+      throw new Error(`OpenAI-compatible server error: ${error.message}`)
+    }
+
+    const choice = response?.choices?.[0]
+    if (!choice || !choice.message) {
+      throw new Error('OpenAI-compatible server returned empty response')
+    }
+
+    const toolCalls: AIToolCall[] = (choice.message.tool_calls || [])
+      .filter((call: any) => call?.function?.name)
+      .map((call: any) => {
+        let params: Record<string, any> = {}
+        try {
+          params = JSON.parse(call.function.arguments || '{}') || {}
+        } catch {
+          // Leave params empty when the model produced invalid JSON
+        }
+        return { tool: call.function.name, params }
+      })
+
+    const text = choice.message.content || ''
+    return {
+      content: toolCalls.length > 0 ? JSON.stringify({ tool_calls: toolCalls }) : text,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: {
+        promptTokens: response.usage?.prompt_tokens,
+        completionTokens: response.usage?.completion_tokens,
+        totalTokens: response.usage?.total_tokens,
+      },
+      metadata: {
+        finishReason: choice.finish_reason,
+        model: response.model || config.model,
+        ...(toolCalls.length > 0 && text ? { text } : {}),
+      },
+    }
+  }
+
   /**
    * Complete using Anthropic (Claude)
    */
@@ -358,11 +507,15 @@ class AIProviderService {
   /**
    * List available models for a provider
    */
-  async listModels(provider: AIProvider, apiKey?: string): Promise<string[]> {
+  async listModels(provider: AIProvider, apiKey?: string, baseUrl?: string): Promise<string[]> {
     if (!apiKey) {
       // Try to get from env if not provided
-      const envKey = `AI_PROVIDER_${provider.toUpperCase()}_API_KEY`
-      apiKey = env.get(envKey as any)
+      apiKey = env.get(providerApiKeyEnv(provider) as any)
+    }
+
+    // Local/self-hosted servers usually need no key, only a base URL
+    if (provider === 'openai-compatible') {
+      return baseUrl ? this.listOpenAICompatibleModels(baseUrl, apiKey) : []
     }
 
     if (!apiKey) {
@@ -403,6 +556,27 @@ class AIProviderService {
       .sort()
   }
 
+  /**
+   * List models from an OpenAI-compatible server's /models endpoint
+   */
+  private async listOpenAICompatibleModels(baseUrl: string, apiKey?: string): Promise<string[]> {
+    try {
+      const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/models`, {
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        signal: AbortSignal.timeout(5000),
+      })
+      if (!response.ok) return []
+      const data = (await response.json()) as any
+      return (data.data || data.models || [])
+        .map((m: any) => m.id || m.name)
+        .filter(Boolean)
+        .sort()
+    } catch (error: any) {
+      console.warn(`Could not list models from ${baseUrl}:`, error?.message || error)
+      return []
+    }
+  }
+
   /**
    * List Anthropic models
    * Note: Anthropic doesn't have a public models list API in the same way,
@@ -766,7 +940,11 @@ class AIProviderService {
       throw new Error('AI provider is required')
     }
 
-    if (!config.apiKey) {
+    if (config.provider === 'openai-compatible') {
+      if (!config.baseUrl) {
+        throw new Error('Base URL is required for provider: openai-compatible')
+      }
+    } else if (!config.apiKey) {
       throw new Error(`API key is required for provider: ${config.provider}`)
     }
 
@@ -774,7 +952,13 @@ class AIProviderService {
       throw new Error(`Model is required for provider: ${config.provider}`)
     }
 
-    const validProviders: AIProvider[] = ['openai', 'anthropic', 'google', 'nanobanana']
+    const validProviders: AIProvider[] = [
+      'openai',
+      'anthropic',
+      'google',
+      'nanobanana',
+      'openai-compatible',
+    ]
     if (!validProviders.includes(config.provider)) {
       throw new Error(
         `Invalid provider: ${config.provider}. Must be one of: ${validProviders.join(', ')}`
@@ -821,6 +1005,10 @@ class AIProviderService {
         }
         return false
 
+      case 'openai-compatible':
+        // Self-hosted servers are used for text; their model names follow no convention
+        return capability === 'text'
+
       default:
         return capability === 'text' // Fallback
     }
@@ -1,4 +1,6 @@
 import AISetting from '#models/ai_setting'
+import env from '#start/env'
+import type { AIPrice } from '#services/ai_usage_service'
 
 export type AISettings = {
   defaultTextProvider: string | null
@@ -7,6 +9,10 @@ export type AISettings = {
   defaultMediaModel: string | null
   defaultVideoProvider: string | null
   defaultVideoModel: string | null
+  /** Base URL of the OpenAI-compatible server (Ollama, vLLM, LM Studio) */
+  openaiCompatibleBaseUrl: string | null
+  /** Price table overrides; null uses DEFAULT_AI_PRICING */
+  pricing: AIPrice[] | null
   options: any | null
 }
 
@@ -28,6 +34,9 @@ class AISettingsService {
       defaultMediaModel: row?.defaultMediaModel || 'dall-e-3',
       defaultVideoProvider: row?.defaultVideoProvider || 'google',
       defaultVideoModel: row?.defaultVideoModel || 'veo-2.0-generate-001',
+      openaiCompatibleBaseUrl:
+        row?.openaiCompatibleBaseUrl || env.get('AI_PROVIDER_OPENAI_COMPATIBLE_BASE_URL') || null,
+      pricing: row?.pricing || null,
       options: row?.options || {},
     }
     this.cache = settings
@@ -0,0 +1,336 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import db from '@adonisjs/lucid/services/db'
+import User from '#models/user'
+import aiSettingsService from '#services/ai_settings_service'
+
+export type AIUsageKind = 'text' | 'image' | 'video'
+
+/**
+ * Price of a provider/model. `model` may end with `*` to match a prefix.
+ * Text is priced per million tokens, media per generated item.
+ */
+export type AIPrice = {
+  provider: string
+  model: string
+  inputPerMillion?: number
+  outputPerMillion?: number
+  perImage?: number
+  perVideo?: number
+}
+
+export type AIBudgetScope = 'agent' | 'role'
+
+export type AIBudget = {
+  id: number
+  scopeType: AIBudgetScope
+  scopeKey: string
+  monthlyLimitUsd: number
+  spentUsd: number
+}
+
+/**
+ * Who a provider call is made for; set around an agent execution so media
+ * generated by MCP tools is attributed to the same agent, user and post
+ */
+export type AIUsageAttribution = {
+  agentId?: string | null
+  userId?: number | null
+  userRole?: string | null
+  postId?: string | null
+}
+
+export type AIUsageRecord = AIUsageAttribution & {
+  provider: string
+  model: string
+  kind: AIUsageKind
+  promptTokens?: number
+  completionTokens?: number
+  totalTokens?: number
+  units?: number
+}
+
+export type AIUsageSummary = {
+  days: number
+  totalCostUsd: number
+  byDay: Array<{ day: string; costUsd: number; calls: number; totalTokens: number }>
+  byAgent: Array<{ agentId: string | null; costUsd: number; calls: number; totalTokens: number }>
+}
+
+/**
+ * Approximate list prices (USD). Admins override them in AI settings.
+ */
+export const DEFAULT_AI_PRICING: AIPrice[] = [
+  { provider: 'openai', model: 'gpt-4o-mini*', inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  { provider: 'openai', model: 'gpt-4o*', inputPerMillion: 2.5, outputPerMillion: 10 },
+  { provider: 'openai', model: 'gpt-4.1-mini*', inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  { provider: 'openai', model: 'gpt-4.1*', inputPerMillion: 2, outputPerMillion: 8 },
+  { provider: 'openai', model: 'dall-e-3', perImage: 0.04 },
+  { provider: 'openai', model: 'gpt-image-1', perImage: 0.04 },
+  { provider: 'anthropic', model: 'claude-3-5-haiku*', inputPerMillion: 0.8, outputPerMillion: 4 },
+  { provider: 'anthropic', model: 'claude-*', inputPerMillion: 3, outputPerMillion: 15 },
+  { provider: 'google', model: 'gemini-*flash*', inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  { provider: 'google', model: 'gemini-*', inputPerMillion: 1.25, outputPerMillion: 10 },
+  { provider: 'google', model: 'imagen-*', perImage: 0.04 },
+  { provider: 'google', model: 'veo-*', perVideo: 2.5 },
+  { provider: 'openai-compatible', model: '*' },
+]
+
+function matchesModel(pattern: string, model: string): boolean {
+  if (!pattern.includes('*')) return pattern === model
+  const escaped = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${escaped}$`).test(model)
+}
+
+/**
+ * First matching entry of the price table (so specific models go before wildcards)
+ */
+export function findPrice(pricing: AIPrice[], provider: string, model: string): AIPrice | null {
+  return (
+    pricing.find((price) => price.provider === provider && matchesModel(price.model, model)) || null
+  )
+}
+
+/**
+ * Cost in USD of one call; unknown models cost 0
+ */
+export function estimateCost(pricing: AIPrice[], usage: AIUsageRecord): number {
+  const price = findPrice(pricing, usage.provider, usage.model)
+  if (!price) return 0
+  if (usage.kind === 'image') return (usage.units || 0) * (price.perImage || 0)
+  if (usage.kind === 'video') return (usage.units || 0) * (price.perVideo || 0)
+  return (
+    ((usage.promptTokens || 0) * (price.inputPerMillion || 0) +
+      (usage.completionTokens || 0) * (price.outputPerMillion || 0)) /
+    1_000_000
+  )
+}
+
+/**
+ * Keep well-formed entries of an admin-submitted price table
+ */
+export function normalizePricing(input: unknown): AIPrice[] {
+  if (!Array.isArray(input)) return []
+  const amount = (value: unknown) => {
+    const n = Number(value)
+    return Number.isFinite(n) && n >= 0 ? n : undefined
+  }
+  return input
+    .filter((row) => row && typeof row.provider === 'string' && typeof row.model === 'string')
+    .map((row) => ({
+      provider: row.provider.trim(),
+      model: row.model.trim(),
+      inputPerMillion: amount(row.inputPerMillion),
+      outputPerMillion: amount(row.outputPerMillion),
+      perImage: amount(row.perImage),
+      perVideo: amount(row.perVideo),
+    }))
+    .filter((row) => row.provider && row.model)
+}
+
+function startOfMonth(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+}
+
+export class AIBudgetExceededException extends Error {
+  constructor(
+    message: string,
+    public scopeType: AIBudgetScope,
+    public scopeKey: string
+  ) {
+    super(message)
+    this.name = 'AIBudgetExceededException'
+  }
+}
+
+/**
+ * AI Usage Service
+ *
+ * Records every completion and media generation with its estimated cost and
+ * enforces monthly budgets per agent and per role.
+ */
+class AIUsageService {
+  private attribution = new AsyncLocalStorage<AIUsageAttribution>()
+
+  /**
+   * Run `fn` with usage attributed to an agent/user/post
+   */
+  runWithAttribution<T>(attribution: AIUsageAttribution, fn: () => Promise<T>): Promise<T> {
+    return this.attribution.run(attribution, fn)
+  }
+
+  currentAttribution(): AIUsageAttribution {
+    return this.attribution.getStore() || {}
+  }
+
+  async getPricing(): Promise<AIPrice[]> {
+    const settings = await aiSettingsService.get()
+    return Array.isArray(settings.pricing) ? settings.pricing : DEFAULT_AI_PRICING
+  }
+
+  /**
+   * Record a provider call. Never throws: usage tracking must not break agents.
+   */
+  async record(usage: AIUsageRecord): Promise<void> {
+    try {
+      const attribution = { ...this.currentAttribution(), ...this.definedOnly(usage) }
+      const costUsd = estimateCost(await this.getPricing(), usage)
+      await db.table('ai_usage_events').insert({
+        agent_id: attribution.agentId || null,
+        user_id: attribution.userId || null,
+        user_role: attribution.userRole || null,
+        post_id: attribution.postId || null,
+        provider: usage.provider,
+        model: usage.model,
+        kind: usage.kind,
+        prompt_tokens: usage.promptTokens || 0,
+        completion_tokens: usage.completionTokens || 0,
+        total_tokens: usage.totalTokens || 0,
+        units: usage.units || 0,
+        cost_usd: costUsd,
+        created_at: new Date(),
+      })
+    } catch (error: any) {
+      console.warn('[ai-usage] Failed to record usage', { error: error?.message })
+    }
+  }
+
+  async roleOf(userId: number | null | undefined): Promise<string | null> {
+    if (!userId) return null
+    const user = await User.find(userId)
+    return user?.role || null
+  }
+
+  /**
+   * Spend (USD) of an agent or role in the current calendar month (UTC)
+   */
+  async monthSpend(scopeType: AIBudgetScope, scopeKey: string): Promise<number> {
+    const column = scopeType === 'agent' ? 'agent_id' : 'user_role'
+    const row = await db
+      .from('ai_usage_events')
+      .where(column, scopeKey)
+      .where('created_at', '>=', startOfMonth())
+      .sum('cost_usd as total')
+      .first()
+    return Number(row?.total || 0)
+  }
+
+  /**
+   * Throw when the agent's or the user role's monthly budget is used up
+   */
+  async assertWithinBudget(agentId: string, userRole: string | null): Promise<void> {
+    const scopes: Array<[AIBudgetScope, string]> = [['agent', agentId]]
+    if (userRole) scopes.push(['role', userRole])
+
+    for (const [scopeType, scopeKey] of scopes) {
+      const budget = await db
+        .from('ai_budgets')
+        .where({ scope_type: scopeType, scope_key: scopeKey })
+        .first()
+      if (!budget) continue
+      const limit = Number(budget.monthly_limit_usd)
+      const spent = await this.monthSpend(scopeType, scopeKey)
+      if (spent >= limit) {
+        const subject = scopeType === 'agent' ? `Agent "${scopeKey}"` : `The ${scopeKey} role`
+        throw new AIBudgetExceededException(
+          `${subject} has reached its monthly AI budget ($${spent.toFixed(2)} of $${limit.toFixed(2)}). ` +
+            `Ask an administrator to raise the budget or wait until next month.`,
+          scopeType,
+          scopeKey
+        )
+      }
+    }
+  }
+
+  /**
+   * Cost totals of the last `days` days, by day and by agent
+   */
+  async summary(days: number): Promise<AIUsageSummary> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+
+    const dayRows = await db
+      .from('ai_usage_events')
+      .where('created_at', '>=', since)
+      .select(db.raw(`to_char(date_trunc('day', created_at), 'YYYY-MM-DD') as day`))
+      .sum('cost_usd as cost')
+      .sum('total_tokens as tokens')
+      .count('* as calls')
+      .groupByRaw(`date_trunc('day', created_at)`)
+      .orderBy('day', 'asc')
+
+    const agentRows = await db
+      .from('ai_usage_events')
+      .where('created_at', '>=', since)
+      .select('agent_id')
+      .sum('cost_usd as cost')
+      .sum('total_tokens as tokens')
+      .count('* as calls')
+      .groupBy('agent_id')
+      .orderBy('cost', 'desc')
+
+    const byDay = dayRows.map((r: any) => ({
+      day: r.day,
+      costUsd: Number(r.cost || 0),
+      calls: Number(r.calls || 0),
+      totalTokens: Number(r.tokens || 0),
+    }))
+    const byAgent = agentRows.map((r: any) => ({
+      agentId: r.agent_id,
+      costUsd: Number(r.cost || 0),
+      calls: Number(r.calls || 0),
+      totalTokens: Number(r.tokens || 0),
+    }))
+
+    return {
+      days,
+      totalCostUsd: byDay.reduce((sum, d) => sum + d.costUsd, 0),
+      byDay,
+      byAgent,
+    }
+  }
+
+  async listBudgets(): Promise<AIBudget[]> {
+    const rows = await db.from('ai_budgets').orderBy(['scope_type', 'scope_key'])
+    const budgets: AIBudget[] = []
+    for (const row of rows) {
+      budgets.push({
+        id: row.id,
+        scopeType: row.scope_type,
+        scopeKey: row.scope_key,
+        monthlyLimitUsd: Number(row.monthly_limit_usd),
+        spentUsd: await this.monthSpend(row.scope_type, row.scope_key),
+      })
+    }
+    return budgets
+  }
+
+  async setBudget(scopeType: AIBudgetScope, scopeKey: string, monthlyLimitUsd: number) {
+    await db.rawQuery(
+      `INSERT INTO ai_budgets (scope_type, scope_key, monthly_limit_usd, created_at, updated_at)
+       VALUES (?, ?, ?, now(), now())
+       ON CONFLICT (scope_type, scope_key) DO UPDATE
+         SET monthly_limit_usd = EXCLUDED.monthly_limit_usd,
+             updated_at = now()`,
+      [scopeType, scopeKey, monthlyLimitUsd]
+    )
+  }
+
+  async deleteBudget(id: number): Promise<boolean> {
+    const deleted = await db.from('ai_budgets').where('id', id).delete()
+    return Number(deleted) > 0
+  }
+
+  private definedOnly(usage: AIUsageAttribution): AIUsageAttribution {
+    const out: AIUsageAttribution = {}
+    if (usage.agentId !== undefined) out.agentId = usage.agentId
+    if (usage.userId !== undefined) out.userId = usage.userId
+    if (usage.userRole !== undefined) out.userRole = usage.userRole
+    if (usage.postId !== undefined) out.postId = usage.postId
+    return out
+  }
+}
+
+const aiUsageService = new AIUsageService()
+export default aiUsageService
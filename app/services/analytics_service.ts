@@ -0,0 +1,385 @@
+import db from '@adonisjs/lucid/services/db'
+import cmsConfig from '#config/cms'
+import { RUNNING_AB_GOAL_EVENTS } from '#services/ab_test_service'
+
+/**
+ * Inclusive range of UTC days, formatted YYYY-MM-DD
+ */
+export type AnalyticsRange = { from: string; to: string }
+
+export type AnalyticsFilters = {
+  locale?: string | null
+}
+
+export type AnalyticsSummary = {
+  totals: { views: number; clicks: number }
+  topPosts: Array<{
+    postId: string | null
+    title: string | null
+    slug: string | null
+    path: string | null
+    views: number
+  }>
+  statsOverTime: Array<{ date: string; views: number; clicks: number }>
+}
+
+export type HeatmapPoint = { x: number; y: number; viewport_width: number | null; count: number }
+
+export const DEFAULT_RANGE_DAYS = 30
+export const MAX_RANGE_DAYS = 366
+/** Heatmap coordinates are bucketed to this many pixels */
+export const HEATMAP_GRID = 10
+/** Viewport widths are bucketed to this many pixels */
+export const VIEWPORT_GRID = 100
+/** Days rolled up per run, so a large backlog is worked off over several runs */
+const MAX_DAYS_PER_RUN = 31
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export class AnalyticsRangeException extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AnalyticsRangeException'
+  }
+}
+
+/**
+ * UTC day of a date
+ */
+export function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+export function addDays(day: string, days: number): string {
+  return toDay(new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS))
+}
+
+function dayStart(day: string): Date {
+  return new Date(`${day}T00:00:00Z`)
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS)
+}
+
+function isValidDay(value: string): boolean {
+  return DAY_PATTERN.test(value) && toDay(dayStart(value)) === value
+}
+
+/**
+ * Parse `from`/`to` query values into a range. Defaults to the last 30 days ending today;
+ * a lone `from` runs until today and a lone `to` covers the 30 days before it.
+ */
+export function parseDateRange(
+  input: { from?: string | null; to?: string | null },
+  today: Date = new Date()
+): AnalyticsRange {
+  const from = input.from ? String(input.from) : null
+  const to = input.to ? String(input.to) : null
+  for (const value of [from, to]) {
+    if (value && !isValidDay(value)) {
+      throw new AnalyticsRangeException(`Invalid date "${value}" (expected YYYY-MM-DD)`)
+    }
+  }
+
+  const end = to || toDay(today)
+  const start = from || addDays(end, -(DEFAULT_RANGE_DAYS - 1))
+  if (start > end) {
+    throw new AnalyticsRangeException('"from" must not be after "to"')
+  }
+  if (daysBetween(start, end) + 1 > MAX_RANGE_DAYS) {
+    throw new AnalyticsRangeException(`Date ranges are limited to ${MAX_RANGE_DAYS} days`)
+  }
+  return { from: start, to: end }
+}
+
+/**
+ * The period of the same length immediately before a range
+ */
+export function previousPeriod(range: AnalyticsRange): AnalyticsRange {
+  const length = daysBetween(range.from, range.to) + 1
+  return { from: addDays(range.from, -length), to: addDays(range.from, -1) }
+}
+
+/**
+ * Split a range into the days served by rollups (up to and including the last rolled-up day)
+ * and the days still read from raw events.
+ */
+export function splitRange(
+  range: AnalyticsRange,
+  lastRolledDay: string | null
+): { rolled: AnalyticsRange | null; raw: AnalyticsRange | null } {
+  if (!lastRolledDay) return { rolled: null, raw: range }
+  if (lastRolledDay < range.from) return { rolled: null, raw: range }
+  if (lastRolledDay >= range.to) return { rolled: range, raw: null }
+  return {
+    rolled: { from: range.from, to: lastRolledDay },
+    raw: { from: addDays(lastRolledDay, 1), to: range.to },
+  }
+}
+
+type Source = { sql: string; bindings: any[] }
+
+class AnalyticsService {
+  /**
+   * Latest day present in the daily rollups. Every earlier day is rolled up (or had no events).
+   */
+  async lastRolledDay(): Promise<string | null> {
+    const result = await db.rawQuery(
+      `SELECT to_char(MAX(day), 'YYYY-MM-DD') AS day FROM analytics_daily_rollups`
+    )
+    return result.rows?.[0]?.day ?? null
+  }
+
+  /**
+   * Recompute the rollups of one UTC day from the raw events
+   */
+  async rollupDay(day: string): Promise<{ rows: number; heatmapRows: number }> {
+    const start = dayStart(day)
+    const end = dayStart(addDays(day, 1))
+
+    return db.transaction(async (trx) => {
+      await trx.from('analytics_daily_rollups').where('day', day).delete()
+      await trx.from('analytics_heatmap_rollups').where('day', day).delete()
+
+      const daily = await trx.rawQuery(
+        `INSERT INTO analytics_daily_rollups (day, post_id, path, event_type, locale, count)
+         SELECT ?::date, e.post_id, LEFT(e.metadata->>'path', 2048), e.event_type, p.locale, COUNT(*)
+         FROM analytics_events e
+         LEFT JOIN posts p ON p.id = e.post_id
+         WHERE e.created_at >= ? AND e.created_at < ?
+         GROUP BY e.post_id, LEFT(e.metadata->>'path', 2048), e.event_type, p.locale`,
+        [day, start, end]
+      )
+
+      const heatmap = await trx.rawQuery(
+        `INSERT INTO analytics_heatmap_rollups (day, post_id, event_type, viewport_width, x, y, count)
+         SELECT ?::date, post_id, event_type, ${this.bucketSql()}, COUNT(*)
+         FROM analytics_events
+         WHERE created_at >= ? AND created_at < ? AND x IS NOT NULL AND y IS NOT NULL
+         GROUP BY 2, 3, 4, 5, 6`,
+        [day, start, end]
+      )
+
+      return {
+        rows: Number(daily?.rowCount ?? 0),
+        heatmapRows: Number(heatmap?.rowCount ?? 0),
+      }
+    })
+  }
+
+  /**
+   * Roll up every completed day since the last rolled-up day (today stays raw)
+   */
+  async rollupPending(today: Date = new Date()): Promise<{ days: string[] }> {
+    const yesterday = addDays(toDay(today), -1)
+    const lastRolled = await this.lastRolledDay()
+
+    const pending = db.from('analytics_events').min('created_at as first')
+    if (lastRolled) pending.where('created_at', '>=', dayStart(addDays(lastRolled, 1)))
+    const row = await pending.first()
+    if (!row?.first) return { days: [] }
+
+    const days: string[] = []
+    let day = toDay(new Date(row.first))
+    while (day <= yesterday && days.length < MAX_DAYS_PER_RUN) {
+      await this.rollupDay(day)
+      days.push(day)
+      day = addDays(day, 1)
+    }
+    return { days }
+  }
+
+  /**
+   * Delete raw events older than the retention window. Events of days that are not
+   * rolled up yet are kept regardless, and so are the goal events of running A/B tests.
+   */
+  async pruneRawEvents(
+    days: number = cmsConfig.analytics.retentionDays,
+    today: Date = new Date()
+  ): Promise<number> {
+    if (!days || days <= 0) return 0
+    const lastRolled = await this.lastRolledDay()
+    if (!lastRolled) return 0
+
+    const retentionStart = addDays(toDay(today), -days)
+    const firstRawDay = addDays(lastRolled, 1)
+    const cutoff = dayStart(retentionStart < firstRawDay ? retentionStart : firstRawDay)
+    const deleted = await db
+      .from('analytics_events')
+      .where('created_at', '<', cutoff)
+      .whereRaw(`NOT ${RUNNING_AB_GOAL_EVENTS}`)
+      .delete()
+    return Array.isArray(deleted) ? deleted.length : Number(deleted) || 0
+  }
+
+  /**
+   * View/click totals, top posts and daily counts for a range
+   */
+  async summary(range: AnalyticsRange, filters: AnalyticsFilters = {}): Promise<AnalyticsSummary> {
+    const source = this.dailySource(range, await this.lastRolledDay(), filters)
+
+    const totals = await db.rawQuery(
+      `WITH source AS (${source.sql})
+       SELECT
+         COALESCE(SUM(count) FILTER (WHERE event_type = 'view'), 0) AS views,
+         COALESCE(SUM(count) FILTER (WHERE event_type = 'click'), 0) AS clicks
+       FROM source`,
+      source.bindings
+    )
+
+    const topPosts = await db.rawQuery(
+      `WITH source AS (${source.sql})
+       SELECT s.post_id, p.title, p.slug, s.path, SUM(s.count) AS views
+       FROM source s
+       LEFT JOIN posts p ON p.id = s.post_id
+       WHERE s.event_type = 'view'
+       GROUP BY s.post_id, p.title, p.slug, s.path
+       ORDER BY views DESC
+       LIMIT 10`,
+      source.bindings
+    )
+
+    const daily = await db.rawQuery(
+      `WITH source AS (${source.sql})
+       SELECT
+         to_char(day, 'YYYY-MM-DD') AS date,
+         COALESCE(SUM(count) FILTER (WHERE event_type = 'view'), 0) AS views,
+         COALESCE(SUM(count) FILTER (WHERE event_type = 'click'), 0) AS clicks
+       FROM source
+       GROUP BY day
+       ORDER BY day ASC`,
+      source.bindings
+    )
+
+    return {
+      totals: {
+        views: Number(totals.rows?.[0]?.views ?? 0),
+        clicks: Number(totals.rows?.[0]?.clicks ?? 0),
+      },
+      topPosts: (topPosts.rows || []).map((r: any) => ({
+        postId: r.post_id ?? null,
+        title: r.title ?? null,
+        slug: r.slug ?? null,
+        path: r.path ?? null,
+        views: Number(r.views),
+      })),
+      statsOverTime: (daily.rows || []).map((r: any) => ({
+        date: r.date,
+        views: Number(r.views),
+        clicks: Number(r.clicks),
+      })),
+    }
+  }
+
+  /**
+   * Views per post for a range, keyed by post id
+   */
+  async viewsByPost(range: AnalyticsRange, postIds: string[]): Promise<Record<string, number>> {
+    if (postIds.length === 0) return {}
+    const source = this.dailySource(range, await this.lastRolledDay(), {})
+    const result = await db.rawQuery(
+      `WITH source AS (${source.sql})
+       SELECT post_id, SUM(count) AS views
+       FROM source
+       WHERE event_type = 'view' AND post_id IN (${postIds.map(() => '?').join(', ')})
+       GROUP BY post_id`,
+      [...source.bindings, ...postIds]
+    )
+    return Object.fromEntries(
+      (result.rows || []).map((r: any) => [String(r.post_id), Number(r.views)])
+    )
+  }
+
+  /**
+   * Heatmap grid for a range, densest cells first
+   */
+  async heatmap(
+    range: AnalyticsRange,
+    options: { postId?: string | null; eventType?: string; limit?: number } = {}
+  ): Promise<HeatmapPoint[]> {
+    const eventType = options.eventType || 'click'
+    const { rolled, raw } = splitRange(range, await this.lastRolledDay())
+    const parts: string[] = []
+    const bindings: any[] = []
+
+    if (rolled) {
+      parts.push(
+        `SELECT viewport_width, x, y, count FROM analytics_heatmap_rollups
+         WHERE event_type = ? AND day >= ? AND day <= ?${options.postId ? ' AND post_id = ?' : ''}`
+      )
+      bindings.push(eventType, rolled.from, rolled.to)
+      if (options.postId) bindings.push(options.postId)
+    }
+    if (raw) {
+      parts.push(
+        `SELECT ${this.bucketSql()}, 1 AS count FROM analytics_events
+         WHERE event_type = ? AND created_at >= ? AND created_at < ?
+           AND x IS NOT NULL AND y IS NOT NULL${options.postId ? ' AND post_id = ?' : ''}`
+      )
+      bindings.push(eventType, dayStart(raw.from), dayStart(addDays(raw.to, 1)))
+      if (options.postId) bindings.push(options.postId)
+    }
+
+    const result = await db.rawQuery(
+      `SELECT viewport_width, x, y, SUM(count) AS count
+       FROM (${parts.join(' UNION ALL ')}) cells
+       GROUP BY viewport_width, x, y
+       ORDER BY count DESC
+       LIMIT ?`,
+      [...bindings, options.limit ?? 5000]
+    )
+    return (result.rows || []).map((r: any) => ({
+      x: Number(r.x),
+      y: Number(r.y),
+      viewport_width: r.viewport_width === null ? null : Number(r.viewport_width),
+      count: Number(r.count),
+    }))
+  }
+
+  /**
+   * Rows of (day, post_id, path, event_type, locale, count): rollups for rolled-up days,
+   * raw events for the rest
+   */
+  private dailySource(
+    range: AnalyticsRange,
+    lastRolledDay: string | null,
+    filters: AnalyticsFilters
+  ): Source {
+    const { rolled, raw } = splitRange(range, lastRolledDay)
+    const parts: string[] = []
+    const bindings: any[] = []
+
+    if (rolled) {
+      parts.push(
+        `SELECT day, post_id, path, event_type, locale, count FROM analytics_daily_rollups
+         WHERE day >= ? AND day <= ?${filters.locale ? ' AND locale = ?' : ''}`
+      )
+      bindings.push(rolled.from, rolled.to)
+      if (filters.locale) bindings.push(filters.locale)
+    }
+    if (raw) {
+      parts.push(
+        `SELECT (e.created_at AT TIME ZONE 'UTC')::date AS day, e.post_id,
+           LEFT(e.metadata->>'path', 2048) AS path, e.event_type, p.locale, 1 AS count
+         FROM analytics_events e
+         LEFT JOIN posts p ON p.id = e.post_id
+         WHERE e.created_at >= ? AND e.created_at < ?${filters.locale ? ' AND p.locale = ?' : ''}`
+      )
+      bindings.push(dayStart(raw.from), dayStart(addDays(raw.to, 1)))
+      if (filters.locale) bindings.push(filters.locale)
+    }
+
+    return { sql: parts.join(' UNION ALL '), bindings }
+  }
+
+  private bucketSql(): string {
+    return `(ROUND(viewport_width / ${VIEWPORT_GRID}.0) * ${VIEWPORT_GRID})::int AS viewport_width,
+      (ROUND(x / ${HEATMAP_GRID}) * ${HEATMAP_GRID})::int AS x,
+      (ROUND(y / ${HEATMAP_GRID}) * ${HEATMAP_GRID})::int AS y`
+  }
+}
+
+const analyticsService = new AnalyticsService()
+export default analyticsService
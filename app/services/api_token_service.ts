@@ -0,0 +1,393 @@
+import db from '@adonisjs/lucid/services/db'
+import { createHash, randomBytes } from 'node:crypto'
+import User from '#models/user'
+import roleRegistry from '#services/role_registry'
+import { PERMISSION_KEYS, type PermissionKey } from '#types/role_types'
+
+export type ApiToken = {
+  id: string
+  userId: number
+  name: string
+  tokenPrefix: string
+  scopes: PermissionKey[]
+  lastUsedAt: string | null
+  lastUsedIp: string | null
+  expiresAt: string | null
+  revokedAt: string | null
+  createdAt: string
+}
+
+export const API_TOKEN_PREFIX = 'eos_pat_'
+
+/**
+ * How often (ms) last_used_at is written for a busy token
+ */
+const LAST_USED_RESOLUTION_MS = 60_000
+
+/**
+ * A rule matches on method and path; `when` narrows it by the request input
+ * for routes whose required permission depends on what is sent (bulk actions,
+ * status changes, ...)
+ */
+type ScopeRule = {
+  methods: string[]
+  pattern: RegExp
+  scope: PermissionKey
+  when?: (input: Record<string, any>) => boolean
+}
+
+const READ = ['GET', 'HEAD']
+const WRITE = ['POST', 'PUT', 'PATCH']
+const UPDATE = ['PUT', 'PATCH']
+const DELETE = ['DELETE']
+const ANY = [...READ, ...WRITE, ...DELETE]
+
+/**
+ * Read / write / delete rules for a resource prefix
+ */
+function resource(
+  pattern: RegExp,
+  view: PermissionKey,
+  edit: PermissionKey,
+  remove: PermissionKey = edit
+): ScopeRule[] {
+  return [
+    { methods: READ, pattern, scope: view },
+    { methods: WRITE, pattern, scope: edit },
+    { methods: DELETE, pattern, scope: remove },
+  ]
+}
+
+/**
+ * Save mode of a post update, as PostsCrudController reads it
+ */
+function saveMode(input: Record<string, any>): string {
+  return String(input.mode || '').toLowerCase()
+}
+
+/**
+ * Admin API routes reachable with a token, and the scope each one requires.
+ * First match wins. Routes not listed here (token management, sessions, ...)
+ * are not available to tokens at all.
+ */
+const SCOPE_RULES: ScopeRule[] = [
+  // Agents & workflows
+  {
+    // Plans: AgentPlansController requires agents.edit to propose and run them
+    methods: [...READ, ...WRITE],
+    pattern: /^\/api\/(posts\/[^/]+\/agents\/[^/]+\/plans?|agent-plans\/[^/]+(\/\w+)?)$/,
+    scope: 'agents.edit',
+  },
+  { methods: READ, pattern: /^\/api\/(posts\/[^/]+\/)?agents(\/|$)/, scope: 'agents.view' },
+  {
+    methods: WRITE,
+    pattern: /^\/api\/(posts\/[^/]+\/|posts\/bulk-)?agents\/[^/]+\/run$/,
+    scope: 'agents.global',
+  },
+  { methods: READ, pattern: /^\/api\/workflows(\/|$)/, scope: 'workflows.view' },
+  { methods: WRITE, pattern: /^\/api\/workflows\/[^/]+\/trigger$/, scope: 'workflows.trigger' },
+  // Posts
+  { methods: WRITE, pattern: /^\/api\/posts(\/import)?$/, scope: 'posts.create' },
+  { methods: READ, pattern: /^\/api\/posts\/[^/]+\/(export|xliff)$/, scope: 'posts.export' },
+  { methods: WRITE, pattern: /^\/api\/translations\/xliff\/export$/, scope: 'posts.export' },
+  { methods: WRITE, pattern: /^\/api\/translations\/xliff\/import$/, scope: 'posts.review.save' },
+  { methods: WRITE, pattern: /^\/api\/posts\/[^/]+\/revisions\//, scope: 'posts.revisions.manage' },
+  {
+    methods: DELETE,
+    pattern: /^\/api\/posts\/[^/]+(\/variation|\/translations\/[^/]+)?$/,
+    scope: 'posts.delete',
+  },
+  {
+    methods: WRITE,
+    pattern: /^\/api\/posts\/bulk$/,
+    scope: 'posts.delete',
+    when: (input) => input.action === 'delete',
+  },
+  {
+    methods: WRITE,
+    pattern: /^\/api\/posts\/bulk$/,
+    scope: 'posts.archive',
+    when: (input) => input.action === 'archive',
+  },
+  {
+    methods: WRITE,
+    pattern: /^\/api\/posts\/bulk$/,
+    scope: 'posts.publish',
+    when: (input) => ['publish', 'regeneratePermalinks'].includes(input.action),
+  },
+  {
+    methods: UPDATE,
+    pattern: /^\/api\/posts\/[^/]+$/,
+    scope: 'posts.review.approve',
+    when: (input) => ['approve', 'reject-review'].includes(saveMode(input)),
+  },
+  {
+    methods: UPDATE,
+    pattern: /^\/api\/posts\/[^/]+$/,
+    scope: 'posts.ai-review.approve',
+    when: (input) => ['approve-ai-review', 'reject-ai-review'].includes(saveMode(input)),
+  },
+  {
+    methods: UPDATE,
+    pattern: /^\/api\/posts\/[^/]+$/,
+    scope: 'posts.review.save',
+    when: (input) => saveMode(input) === 'review',
+  },
+  {
+    methods: UPDATE,
+    pattern: /^\/api\/posts\/[^/]+$/,
+    scope: 'posts.ai-review.save',
+    when: (input) => saveMode(input) === 'ai-review',
+  },
+  {
+    methods: UPDATE,
+    pattern: /^\/api\/posts\/[^/]+$/,
+    scope: 'posts.archive',
+    when: (input) => input.status === 'archived',
+  },
+  {
+    methods: UPDATE,
+    pattern: /^\/api\/posts\/[^/]+$/,
+    scope: 'posts.publish',
+    when: (input) => !!input.status && input.status !== 'draft',
+  },
+  {
+    methods: [...WRITE, ...DELETE],
+    pattern: /^\/api\/posts\/[^/]+\/scheduled-approvals(\/[^/]+)?$/,
+    scope: 'posts.review.approve',
+  },
+  {
+    methods: WRITE,
+    pattern: /^\/api\/posts\/[^/]+\/(ab-settings|promote-variation)$/,
+    scope: 'posts.publish',
+  },
+  ...resource(
+    /^\/api\/(posts|post-types|post-modules|inline|feedbacks)(\/|$)/,
+    'posts.view',
+    'posts.edit'
+  ),
+  // Media
+  { methods: WRITE, pattern: /^\/api\/media$/, scope: 'media.upload' },
+  { methods: WRITE, pattern: /^\/api\/media\/[^/]+\/override$/, scope: 'media.replace' },
+  { methods: WRITE, pattern: /^\/api\/media\/delete-bulk$/, scope: 'media.delete' },
+  {
+    methods: WRITE,
+    pattern: /^\/api\/media\/([^/]+\/variants|variants-bulk)$/,
+    scope: 'media.variants.generate',
+  },
+  {
+    methods: WRITE,
+    pattern: /^\/api\/media\/([^/]+\/optimize|optimize-bulk)$/,
+    scope: 'media.optimize',
+  },
+  ...resource(/^\/api\/media(\/|$)/, 'media.view', 'media.edit', 'media.delete'),
+  // Menus
+  { methods: DELETE, pattern: /^\/api\/menus\/[^/]+$/, scope: 'menus.delete' },
+  ...resource(/^\/api\/(menus|menu-items|menu-templates)(\/|$)/, 'menus.view', 'menus.edit'),
+  // Taxonomies
+  ...resource(
+    /^\/api\/(taxonomies|taxonomy-terms)(\/|$)/,
+    'taxonomies.view',
+    'taxonomies.edit',
+    'taxonomies.delete'
+  ),
+  // Modules
+  { methods: READ, pattern: /^\/api\/modules\/(registry|[^/]+\/schema)$/, scope: 'posts.view' },
+  ...resource(
+    /^\/api\/(modules\/(global|static)|module-groups)(\/|$)/,
+    'globals.view',
+    'globals.edit',
+    'globals.delete'
+  ),
+  // Forms
+  {
+    methods: READ,
+    pattern: /^\/api\/forms-submissions\/export$/,
+    scope: 'forms.submissions.export',
+  },
+  { methods: WRITE, pattern: /^\/api\/forms-submissions\/bulk-delete$/, scope: 'forms.delete' },
+  {
+    methods: WRITE,
+    pattern: /^\/api\/forms-submissions\/[^/]+(\/not-spam|\/notes)?$/,
+    scope: 'forms.edit',
+  },
+  {
+    methods: DELETE,
+    pattern: /^\/api\/forms-submissions\/[^/]+\/notes\/[^/]+$/,
+    scope: 'forms.edit',
+  },
+  ...resource(/^\/api\/forms-definitions(\/|$)/, 'forms.view', 'forms.edit', 'forms.delete'),
+  ...resource(/^\/api\/forms-(definitions|submissions)(\/|$)/, 'forms.view', 'forms.delete'),
+  // Users & profiles
+  { methods: READ, pattern: /^\/api\/profile\/status$/, scope: 'profiles.view' },
+  { methods: WRITE, pattern: /^\/api\/users\/me\/profile$/, scope: 'profiles.edit' },
+  { methods: ANY, pattern: /^\/api\/users(\/|$)/, scope: 'admin.users.manage' },
+  // Settings & operations
+  { methods: READ, pattern: /^\/api\/database\/export(\/|$)/, scope: 'admin.database.export' },
+  {
+    methods: WRITE,
+    pattern: /^\/api\/database\/(import|validate)$/,
+    scope: 'admin.database.import',
+  },
+  ...resource(
+    /^\/api\/(site-settings|ai-settings|locales|url-patterns|redirects|redirect-settings|webhooks|delivery-tokens|seo|jobs|analytics|security\/(audit-logs|posture|webhooks|login-history))(\/|$)/,
+    'admin.settings.view',
+    'admin.settings.update'
+  ),
+]
+
+/**
+ * Scope a token needs for the given request, or null when the route is not
+ * available to API tokens. `input` is the request body and query string.
+ */
+export function requiredScopeFor(
+  method: string,
+  path: string,
+  input: Record<string, any> = {}
+): PermissionKey | null {
+  const verb = String(method || '').toUpperCase()
+  const pathname = String(path || '').split('?')[0]
+  for (const rule of SCOPE_RULES) {
+    if (!rule.methods.includes(verb) || !rule.pattern.test(pathname)) continue
+    if (rule.when && !rule.when(input)) continue
+    return rule.scope
+  }
+  return null
+}
+
+export function isPermissionKey(value: unknown): value is PermissionKey {
+  return (PERMISSION_KEYS as readonly string[]).includes(String(value))
+}
+
+/**
+ * Parse an optional expiry sent by a client; it must be a date in the future
+ */
+export function parseTokenExpiry(raw: string | undefined): {
+  expiresAt: Date | null
+  error?: string
+} {
+  if (!raw) return { expiresAt: null }
+  const expiresAt = new Date(raw)
+  if (Number.isNaN(expiresAt.getTime())) {
+    return { expiresAt: null, error: 'expiresAt must be a valid date' }
+  }
+  if (expiresAt.getTime() <= Date.now()) {
+    return { expiresAt: null, error: 'expiresAt must be in the future' }
+  }
+  return { expiresAt }
+}
+
+function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function mapRow(row: any): ApiToken {
+  const toIso = (v: any) => (v ? new Date(v).toISOString() : null)
+  const scopes = typeof row.scopes === 'string' ? JSON.parse(row.scopes) : row.scopes
+  return {
+    id: String(row.id),
+    userId: Number(row.user_id),
+    name: row.name,
+    tokenPrefix: row.token_prefix,
+    scopes: Array.isArray(scopes) ? scopes.filter(isPermissionKey) : [],
+    lastUsedAt: toIso(row.last_used_at),
+    lastUsedIp: row.last_used_ip ?? null,
+    expiresAt: toIso(row.expires_at),
+    revokedAt: toIso(row.revoked_at),
+    createdAt: toIso(row.created_at)!,
+  }
+}
+
+/**
+ * API Token Service
+ *
+ * Personal access tokens for the admin API. A token acts as its user, limited
+ * to the scopes it was issued with: a request needs both the scope on the
+ * token and the permission on the user's role.
+ */
+class ApiTokenService {
+  /**
+   * Create a token. The plain value is returned once and never stored.
+   */
+  async create(
+    user: User,
+    params: { name: string; scopes: PermissionKey[]; expiresAt?: Date | null }
+  ): Promise<{ token: string; record: ApiToken }> {
+    const scopes = Array.from(new Set(params.scopes)).filter((scope) =>
+      roleRegistry.hasPermission(user.role, scope)
+    )
+    const token = `${API_TOKEN_PREFIX}${randomBytes(24).toString('hex')}`
+    const now = new Date()
+    const [row] = await db
+      .table('api_tokens')
+      .insert({
+        user_id: user.id,
+        name: params.name,
+        token_hash: hashApiToken(token),
+        token_prefix: token.substring(0, API_TOKEN_PREFIX.length + 4),
+        scopes: JSON.stringify(scopes),
+        expires_at: params.expiresAt ?? null,
+        created_at: now,
+        updated_at: now,
+      })
+      .returning('*')
+    return { token, record: mapRow(row) }
+  }
+
+  /**
+   * Resolve a presented token to its record and user, or null when unknown,
+   * revoked or expired. `touched` is true when last-used tracking was updated.
+   */
+  async verify(
+    token: string,
+    ip: string | null = null
+  ): Promise<{ token: ApiToken; user: User; touched: boolean } | null> {
+    if (!token || !token.startsWith(API_TOKEN_PREFIX)) return null
+    const row = await db
+      .from('api_tokens')
+      .where('token_hash', hashApiToken(token))
+      .whereNull('revoked_at')
+      .first()
+    if (!row) return null
+    if (row.expires_at && new Date(row.expires_at).getTime() <= Date.now()) return null
+
+    const user = await User.find(row.user_id)
+    if (!user) return null
+
+    const lastUsed = row.last_used_at ? new Date(row.last_used_at).getTime() : 0
+    const touched = Date.now() - lastUsed > LAST_USED_RESOLUTION_MS
+    if (touched) {
+      const now = new Date()
+      await db
+        .from('api_tokens')
+        .where('id', row.id)
+        .update({ last_used_at: now, last_used_ip: ip })
+      row.last_used_at = now
+      row.last_used_ip = ip
+    }
+    return { token: mapRow(row), user, touched }
+  }
+
+  async listForUser(userId: number): Promise<ApiToken[]> {
+    const rows = await db.from('api_tokens').where('user_id', userId).orderBy('created_at', 'desc')
+    return rows.map(mapRow)
+  }
+
+  /**
+   * Revoke one of a user's tokens. Returns false when it does not exist, belongs
+   * to someone else or was already revoked.
+   */
+  async revoke(id: string, userId: number): Promise<boolean> {
+    const now = new Date()
+    const updated = await db
+      .from('api_tokens')
+      .where('id', id)
+      .where('user_id', userId)
+      .whereNull('revoked_at')
+      .update({ revoked_at: now, updated_at: now })
+    return Array.isArray(updated) ? updated.length > 0 : Number(updated) > 0
+  }
+}
+
+const apiTokenService = new ApiTokenService()
+export default apiTokenService
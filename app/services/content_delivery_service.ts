@@ -0,0 +1,234 @@
+import db from '@adonisjs/lucid/services/db'
+import Post from '#models/post'
+import postRenderingService from '#services/post_rendering_service'
+import urlPatternService from '#services/url_pattern_service'
+import menuService, { type MenuData } from '#services/menu_service'
+import { resolvePostReferences } from '#helpers/resolve_post_references'
+import type { PostSeoData } from '#types/seo'
+
+/**
+ * Custom fields that must never leave the server
+ */
+const PRIVATE_CUSTOM_FIELDS = ['protected_access_username', 'protected_access_password']
+
+export type DeliveredModule = {
+  id: string
+  type: string
+  componentName: string
+  renderingMode: 'static' | 'react' | 'hybrid'
+  scope: string
+  globalSlug: string | null
+  props: Record<string, unknown>
+}
+
+export type DeliveredPost = {
+  post: {
+    id: string
+    type: string
+    locale: string
+    slug: string
+    path: string
+    title: string
+    excerpt: string | null
+    featuredMediaId: string | null
+    publishedAt: string | null
+    updatedAt: string | null
+    author: { id: number; fullName: string | null; profileUrl: string | null } | null
+  }
+  modules: DeliveredModule[]
+  customFields: Record<string, unknown>
+  taxonomies: Record<
+    string,
+    Array<{ id: string; slug: string; name: string; parentId: string | null }>
+  >
+  seo: PostSeoData
+  translations: Array<{ id: string; locale: string; path: string }>
+  breadcrumbTrail: Array<{ label: string; url: string; current?: boolean }>
+  menus: Record<string, MenuData>
+}
+
+type DeliveryOptions = {
+  protocol: string
+  host: string
+  /**
+   * Menu slugs to embed; all menus when omitted
+   */
+  menus?: string[]
+  /**
+   * Render the latest draft (review/AI review) instead of the approved content.
+   * Callers must have validated a preview token for the post.
+   */
+  preview?: boolean
+}
+
+/**
+ * Content Delivery Service
+ *
+ * Builds the read-only, fully resolved representation of a published post for
+ * headless consumers. Uses the same rendering pipeline as the public site
+ * (globals merged, tokens and media resolved) without any review/admin data.
+ */
+class ContentDeliveryService {
+  async findPublishedById(id: string): Promise<Post | null> {
+    return this.livePosts().where('id', id).first()
+  }
+
+  /**
+   * Resolve a public path (e.g. `/blog/hello-world`) to its published post
+   */
+  async findPublishedByPath(path: string): Promise<Post | null> {
+    const normalized = `/${String(path || '').replace(/^\/+/, '')}`
+    const match = await urlPatternService.matchPath(normalized)
+    if (!match) return null
+
+    if (match.aggregatePostId) {
+      return this.findPublishedById(match.aggregatePostId)
+    }
+
+    const post = await this.livePosts()
+      .where('slug', match.slug)
+      .where('locale', match.locale)
+      .where('type', match.postType)
+      .first()
+    if (!post) return null
+
+    // Hierarchical patterns must match the full canonical path, as on the site
+    if (match.usesPath && match.fullPath) {
+      const expected = await urlPatternService.buildPostPathForPost(post.id)
+      const trimmed = normalized.length > 1 ? normalized.replace(/\/$/, '') : normalized
+      if (expected !== trimmed) return null
+    }
+    return post
+  }
+
+  async build(post: Post, options: DeliveryOptions): Promise<DeliveredPost> {
+    const pageData = await postRenderingService.buildPageData(post, {
+      protocol: options.protocol,
+      host: options.host,
+      wantReview: !!options.preview,
+      draftMode: 'auto',
+      permissions: [],
+    })
+
+    const modules: DeliveredModule[] = []
+    for (const m of pageData.modules) {
+      modules.push({
+        id: m.id,
+        type: m.type,
+        componentName: m.componentName,
+        renderingMode: m.renderingMode,
+        scope: m.scope || 'local',
+        globalSlug: m.globalSlug || null,
+        props: await resolvePostReferences(m.props),
+      })
+    }
+
+    const customFields: Record<string, unknown> = { ...(pageData.customFields || {}) }
+    for (const key of PRIVATE_CUSTOM_FIELDS) delete customFields[key]
+
+    const author = pageData.post.author
+    const [path, taxonomies, translations, menus] = await Promise.all([
+      urlPatternService.buildPostPathForPost(post.id),
+      this.loadTaxonomies(post.id),
+      this.loadTranslations(post),
+      this.loadMenus(post.locale, options.menus),
+    ])
+
+    return {
+      post: {
+        id: post.id,
+        type: post.type,
+        locale: post.locale,
+        slug: post.slug,
+        path,
+        title: pageData.post.title,
+        excerpt: pageData.post.excerpt,
+        featuredMediaId: pageData.post.featuredMediaId ?? null,
+        publishedAt: post.publishedAt ? post.publishedAt.toISO() : null,
+        updatedAt: post.updatedAt ? post.updatedAt.toISO() : null,
+        author: author
+          ? { id: author.id, fullName: author.fullName, profileUrl: author.profileUrl ?? null }
+          : null,
+      },
+      modules,
+      customFields,
+      taxonomies,
+      seo: pageData.seo,
+      translations,
+      breadcrumbTrail: pageData.breadcrumbTrail || [],
+      menus,
+    }
+  }
+
+  async getMenu(slug: string, locale: string): Promise<MenuData | null> {
+    return menuService.getBySlug(slug, locale, { permissions: [] })
+  }
+
+  /**
+   * Published posts whose publish date has come; scheduled ones stay hidden until then
+   */
+  private livePosts() {
+    return Post.query()
+      .where('status', 'published')
+      .where((q) => q.whereNull('publishedAt').orWhere('publishedAt', '<=', new Date()))
+  }
+
+  /**
+   * Assigned terms grouped by taxonomy slug
+   */
+  private async loadTaxonomies(postId: string): Promise<DeliveredPost['taxonomies']> {
+    const rows = await db
+      .from('post_taxonomy_terms as ptt')
+      .join('taxonomy_terms as tt', 'tt.id', 'ptt.taxonomy_term_id')
+      .join('taxonomies as t', 't.id', 'tt.taxonomy_id')
+      .where('ptt.post_id', postId)
+      .orderBy('tt.order_index', 'asc')
+      .select('t.slug as taxonomy', 'tt.id', 'tt.slug', 'tt.name', 'tt.parent_id')
+
+    const grouped: DeliveredPost['taxonomies'] = {}
+    for (const row of rows) {
+      if (!grouped[row.taxonomy]) grouped[row.taxonomy] = []
+      grouped[row.taxonomy].push({
+        id: String(row.id),
+        slug: row.slug,
+        name: row.name,
+        parentId: row.parent_id ?? null,
+      })
+    }
+    return grouped
+  }
+
+  /**
+   * Published members of the post's translation family (including itself)
+   */
+  private async loadTranslations(post: Post): Promise<DeliveredPost['translations']> {
+    const family = await post.getAllTranslations()
+    const published = family.filter(
+      (t) => t.status === 'published' && (!t.publishedAt || t.publishedAt.toMillis() <= Date.now())
+    )
+    return Promise.all(
+      published.map(async (t) => ({
+        id: t.id,
+        locale: t.locale,
+        path: await urlPatternService.buildPostPathForPost(t.id),
+      }))
+    )
+  }
+
+  private async loadMenus(locale: string, slugs?: string[]): Promise<Record<string, MenuData>> {
+    let menuSlugs = slugs
+    if (!menuSlugs) {
+      const rows = await db.from('menus').select('slug')
+      menuSlugs = rows.map((r: any) => String(r.slug))
+    }
+    const out: Record<string, MenuData> = {}
+    for (const slug of menuSlugs) {
+      const menu = await this.getMenu(slug, locale)
+      if (menu) out[slug] = menu
+    }
+    return out
+  }
+}
+
+const contentDeliveryService = new ContentDeliveryService()
+export default contentDeliveryService
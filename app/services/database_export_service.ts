@@ -43,7 +43,7 @@ const CONTENT_TYPE_TABLES: Record<ContentType, string[]> = {
     'preview_tokens',
   ],
   modules: ['module_instances', 'module_scopes'],
-  forms: ['forms', 'form_submissions'],
+  forms: ['forms', 'form_submissions', 'form_submission_notes'],
   menus: ['menus', 'menu_items'],
   categories: [
     'taxonomies',
@@ -61,6 +61,7 @@ const CONTENT_TYPE_TABLES: Record<ContentType, string[]> = {
     // Webhooks (automation configuration + delivery history)
     'webhooks',
     'webhook_deliveries',
+    'delivery_queue',
     // Workflows & Agents
     'workflow_executions',
     'agent_executions',
@@ -1,6 +1,7 @@
 import db from '@adonisjs/lucid/services/db'
 import { randomUUID } from 'node:crypto'
 import dbConfig from '#config/database'
+import searchIndexService from '#services/search_index_service'
 
 /**
  * Import strategy for handling existing data
@@ -102,7 +103,7 @@ class DatabaseImportService {
   // Known JSONB columns by table
   private jsonbColumns: Record<string, string[]> = {
     posts: ['robots_json', 'jsonld_overrides', 'review_draft', 'ai_review_draft'],
-    forms: ['fields_json', 'subscriptions_json'],
+    forms: ['fields', 'steps', 'subscriptions', 'notifications', 'autoresponder'],
     menus: ['meta_json'],
     media_assets: ['metadata'],
     module_instances: ['props', 'review_props', 'ai_review_props'],
@@ -112,10 +113,11 @@ class DatabaseImportService {
     site_custom_field_values: ['value'],
     custom_fields: ['config'],
     post_revisions: ['snapshot'],
-    form_submissions: ['payload'],
+    form_submissions: ['payload', 'spam_reasons'],
     activity_logs: ['metadata'],
     webhooks: ['headers'],
     webhook_deliveries: ['payload'],
+    delivery_queue: ['payload'],
     post_type_settings: ['settings'],
     agent_executions: ['response', 'context'],
   }
@@ -701,6 +703,14 @@ class DatabaseImportService {
         console.error('⚠️  Fallback documentation import failed:', (fallbackError as Error).message)
       }
 
+      // Imported rows bypass the post actions, so rebuild the site search index
+      try {
+        const indexed = await searchIndexService.reindexAll()
+        console.log(`🔎 Search index rebuilt: ${indexed} published posts`)
+      } catch (indexError) {
+        console.error('⚠️  Search index rebuild failed:', (indexError as Error).message)
+      }
+
       if (result.skippedTables.length > 0) {
         console.log(
           `⏭️  Skipped tables (${result.skippedTables.length}):`,
@@ -870,8 +880,10 @@ class DatabaseImportService {
       'menus',
       'menu_items',
       'form_submissions',
+      'form_submission_notes',
       'webhooks',
       'webhook_deliveries',
+      'delivery_queue',
       'workflow_executions',
       'agent_executions',
       'activity_logs',
@@ -0,0 +1,365 @@
+import db from '@adonisjs/lucid/services/db'
+import cmsConfig from '#config/cms'
+
+export type DeliveryKind = 'webhook' | 'workflow' | 'email'
+
+export type DeliveryStatus = 'pending' | 'processing' | 'delivered' | 'dead'
+
+export type QueuedDelivery = {
+  id: string
+  kind: DeliveryKind
+  webhookId: string | null
+  workflowId: string | null
+  event: string
+  payload: Record<string, any>
+  userId: number | null
+  status: DeliveryStatus
+  attempts: number
+  maxAttempts: number
+  baseDelayMs: number | null
+  nextAttemptAt: string
+  lastStatusCode: number | null
+  lastError: string | null
+  replayOf: string | null
+  deliveredAt: string | null
+  createdAt: string
+}
+
+/**
+ * Outcome of a single delivery attempt
+ */
+export type DeliveryAttemptResult = {
+  success: boolean
+  statusCode?: number
+  error?: string
+  /**
+   * False when retrying cannot help (blocked URL, target removed, ...)
+   */
+  retryable?: boolean
+}
+
+type EnqueueParams = {
+  kind: DeliveryKind
+  webhookId?: string | null
+  workflowId?: string | null
+  event: string
+  payload: Record<string, any>
+  userId?: number | null
+  maxAttempts?: number
+  baseDelayMs?: number | null
+  replayOf?: string | null
+}
+
+/**
+ * Seconds a claimed item stays locked; a worker that dies mid-delivery
+ * releases it back to the queue once this passes
+ */
+const LOCK_SECONDS = 300
+
+/**
+ * While a batch runs, its unfinished items have their lock extended this often,
+ * so a slow delivery (e.g. a long workflow) is never re-claimed by another worker
+ */
+const LOCK_HEARTBEAT_SECONDS = 60
+
+/**
+ * Exponential backoff delay (ms) after the given failed attempt (1-based)
+ */
+export function computeBackoffMs(
+  attempt: number,
+  baseMs: number = cmsConfig.deliveries.backoffBase * 1000,
+  maxMs: number = cmsConfig.deliveries.backoffMax * 1000
+): number {
+  const exponent = Math.max(0, attempt - 1)
+  return Math.min(maxMs, baseMs * Math.pow(2, exponent))
+}
+
+function mapRow(row: any): QueuedDelivery {
+  const toIso = (v: any) => (v ? new Date(v).toISOString() : null)
+  return {
+    id: String(row.id),
+    kind: row.kind,
+    webhookId: row.webhook_id ?? null,
+    workflowId: row.workflow_id ?? null,
+    event: row.event,
+    payload: typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload || {},
+    userId: row.user_id ?? null,
+    status: row.status,
+    attempts: Number(row.attempts || 0),
+    maxAttempts: Number(row.max_attempts || 1),
+    baseDelayMs: row.base_delay_ms ?? null,
+    nextAttemptAt: toIso(row.next_attempt_at)!,
+    lastStatusCode: row.last_status_code ?? null,
+    lastError: row.last_error ?? null,
+    replayOf: row.replay_of ?? null,
+    deliveredAt: toIso(row.delivered_at),
+    createdAt: toIso(row.created_at)!,
+  }
+}
+
+/**
+ * Delivery Queue Service
+ *
+ * Persistent outbound queue shared by webhooks, workflows and form emails. Events are stored
+ * before delivery so a restart or a slow endpoint never drops or blocks them.
+ * Failed attempts are retried with exponential backoff; items that run out of
+ * attempts move to the `dead` (dead-letter) state and can be replayed.
+ */
+class DeliveryQueueService {
+  private draining = false
+
+  /**
+   * Persist an outbound delivery and start processing it in the background
+   */
+  async enqueue(params: EnqueueParams): Promise<QueuedDelivery> {
+    const now = new Date()
+    const [row] = await db
+      .table('delivery_queue')
+      .insert({
+        kind: params.kind,
+        webhook_id: params.webhookId ?? null,
+        workflow_id: params.workflowId ?? null,
+        event: params.event,
+        payload: JSON.stringify(params.payload ?? {}),
+        user_id: params.userId ?? null,
+        status: 'pending',
+        attempts: 0,
+        max_attempts: Math.max(1, params.maxAttempts ?? 1),
+        base_delay_ms: params.baseDelayMs ?? null,
+        next_attempt_at: now,
+        replay_of: params.replayOf ?? null,
+        created_at: now,
+        updated_at: now,
+      })
+      .returning('*')
+
+    this.kick()
+    return mapRow(row)
+  }
+
+  /**
+   * Drain due items without blocking the caller (request handlers only pay for the insert).
+   * Skipped in tests; the `process-delivery-queue` job is the durable fallback.
+   */
+  kick(): void {
+    if (process.env.NODE_ENV === 'test' || this.draining) return
+    this.draining = true
+    setImmediate(async () => {
+      try {
+        let more = true
+        while (more) {
+          const { processed } = await this.processDue()
+          more = processed > 0
+        }
+      } catch (error) {
+        console.error('[DeliveryQueue] Background processing failed:', error)
+      } finally {
+        this.draining = false
+      }
+    })
+  }
+
+  /**
+   * Claim due items (including ones whose worker lock expired) so concurrent workers never share one.
+   * An expired lock counts as a failed attempt: items that used their last one move to `dead`.
+   */
+  async claimDue(limit: number = cmsConfig.deliveries.batchSize): Promise<QueuedDelivery[]> {
+    const now = new Date()
+    const lockedUntil = new Date(now.getTime() + LOCK_SECONDS * 1000)
+    await db
+      .from('delivery_queue')
+      .where('status', 'processing')
+      .where('locked_until', '<', now)
+      .whereRaw('attempts >= max_attempts')
+      .update({
+        status: 'dead',
+        locked_until: null,
+        last_error: 'The worker stopped before the delivery finished',
+        updated_at: now,
+      })
+    const result = await db.rawQuery(
+      `UPDATE delivery_queue
+       SET status = 'processing', locked_until = ?, attempts = attempts + 1, updated_at = ?
+       WHERE id IN (
+         SELECT id FROM delivery_queue
+         WHERE (status = 'pending' AND next_attempt_at <= ?)
+            OR (status = 'processing' AND locked_until < ? AND attempts < max_attempts)
+         ORDER BY next_attempt_at ASC
+         LIMIT ?
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [lockedUntil, now, now, now, limit]
+    )
+    return (result?.rows || []).map(mapRow)
+  }
+
+  /**
+   * Deliver one batch of due items
+   */
+  async processDue(limit?: number): Promise<{
+    processed: number
+    delivered: number
+    retrying: number
+    dead: number
+  }> {
+    const items = await this.claimDue(limit)
+    const summary = { processed: items.length, delivered: 0, retrying: 0, dead: 0 }
+    if (items.length === 0) return summary
+
+    const held = new Set(items.map((item) => item.id))
+    const heartbeat = setInterval(() => {
+      this.extendLocks([...held]).catch(() => {})
+    }, LOCK_HEARTBEAT_SECONDS * 1000)
+
+    try {
+      for (const item of items) {
+        let result: DeliveryAttemptResult
+        try {
+          result = await this.attempt(item)
+        } catch (error) {
+          result = {
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+          }
+        }
+
+        const outcome = await this.recordOutcome(item, result)
+        held.delete(item.id)
+        summary[outcome]++
+      }
+    } finally {
+      clearInterval(heartbeat)
+    }
+
+    return summary
+  }
+
+  /**
+   * Queue a fresh copy of an earlier delivery (typically a dead-lettered one)
+   */
+  async replay(id: string, userId: number | null = null): Promise<QueuedDelivery | null> {
+    const row = await db.from('delivery_queue').where('id', id).first()
+    if (!row) return null
+    const source = mapRow(row)
+    return this.enqueue({
+      kind: source.kind,
+      webhookId: source.webhookId,
+      workflowId: source.workflowId,
+      event: source.event,
+      payload: source.payload,
+      userId: userId ?? source.userId,
+      maxAttempts: source.maxAttempts,
+      baseDelayMs: source.baseDelayMs,
+      replayOf: source.id,
+    })
+  }
+
+  async find(id: string): Promise<QueuedDelivery | null> {
+    const row = await db.from('delivery_queue').where('id', id).first()
+    return row ? mapRow(row) : null
+  }
+
+  /**
+   * Recent queue items, newest first
+   */
+  async list(
+    filters: {
+      webhookId?: string
+      workflowId?: string
+      status?: DeliveryStatus
+    } = {},
+    limit = 50
+  ): Promise<QueuedDelivery[]> {
+    const query = db.from('delivery_queue').orderBy('created_at', 'desc').limit(limit)
+    if (filters.webhookId) query.where('webhook_id', filters.webhookId)
+    if (filters.workflowId) query.where('workflow_id', filters.workflowId)
+    if (filters.status) query.where('status', filters.status)
+    const rows = await query
+    return rows.map(mapRow)
+  }
+
+  /**
+   * Delete delivered items older than the retention window. Dead items are kept.
+   */
+  async pruneDelivered(days: number = cmsConfig.deliveries.retentionDays): Promise<number> {
+    if (!days || days <= 0) return 0
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+    const deleted = await db
+      .from('delivery_queue')
+      .where('status', 'delivered')
+      .andWhere('delivered_at', '<', cutoff)
+      .delete()
+    return Array.isArray(deleted) ? deleted.length : Number(deleted) || 0
+  }
+
+  /**
+   * Push back the lock of items this worker still holds
+   */
+  private async extendLocks(ids: string[]): Promise<void> {
+    if (ids.length === 0) return
+    const now = new Date()
+    await db
+      .from('delivery_queue')
+      .whereIn('id', ids)
+      .where('status', 'processing')
+      .update({ locked_until: new Date(now.getTime() + LOCK_SECONDS * 1000), updated_at: now })
+  }
+
+  private async attempt(item: QueuedDelivery): Promise<DeliveryAttemptResult> {
+    if (item.kind === 'webhook') {
+      const { default: webhookService } = await import('#services/webhook_service')
+      return webhookService.deliverQueued(item)
+    }
+    if (item.kind === 'workflow') {
+      const { default: workflowExecutionService } = await import(
+        '#services/workflow_execution_service'
+      )
+      return workflowExecutionService.deliverQueued(item)
+    }
+    if (item.kind === 'email') {
+      const { default: formEmailService } = await import('#services/form_email_service')
+      return formEmailService.deliverQueued(item)
+    }
+    return { success: false, error: `Unknown delivery kind: ${item.kind}`, retryable: false }
+  }
+
+  private async recordOutcome(
+    item: QueuedDelivery,
+    result: DeliveryAttemptResult
+  ): Promise<'delivered' | 'retrying' | 'dead'> {
+    const now = new Date()
+    const base = {
+      locked_until: null,
+      last_status_code: result.statusCode ?? null,
+      last_error: result.success ? null : (result.error || 'Delivery failed').substring(0, 2000),
+      updated_at: now,
+    }
+
+    if (result.success) {
+      await db
+        .from('delivery_queue')
+        .where('id', item.id)
+        .update({ ...base, status: 'delivered', delivered_at: now })
+      return 'delivered'
+    }
+
+    if (result.retryable === false || item.attempts >= item.maxAttempts) {
+      await db
+        .from('delivery_queue')
+        .where('id', item.id)
+        .update({ ...base, status: 'dead' })
+      return 'dead'
+    }
+
+    const delay = computeBackoffMs(item.attempts, item.baseDelayMs ?? undefined)
+    await db
+      .from('delivery_queue')
+      .where('id', item.id)
+      .update({ ...base, status: 'pending', next_attempt_at: new Date(now.getTime() + delay) })
+    return 'retrying'
+  }
+}
+
+const deliveryQueueService = new DeliveryQueueService()
+export default deliveryQueueService
@@ -0,0 +1,114 @@
+import db from '@adonisjs/lucid/services/db'
+import { createHash, randomBytes } from 'node:crypto'
+
+export type DeliveryToken = {
+  id: string
+  name: string
+  tokenPrefix: string
+  createdBy: number | null
+  lastUsedAt: string | null
+  expiresAt: string | null
+  revokedAt: string | null
+  createdAt: string
+}
+
+const TOKEN_PREFIX = 'eos_dlv_'
+
+/**
+ * How often (ms) last_used_at is written for a busy token
+ */
+const LAST_USED_RESOLUTION_MS = 60_000
+
+export function hashDeliveryToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function mapRow(row: any): DeliveryToken {
+  const toIso = (v: any) => (v ? new Date(v).toISOString() : null)
+  return {
+    id: String(row.id),
+    name: row.name,
+    tokenPrefix: row.token_prefix,
+    createdBy: row.created_by ?? null,
+    lastUsedAt: toIso(row.last_used_at),
+    expiresAt: toIso(row.expires_at),
+    revokedAt: toIso(row.revoked_at),
+    createdAt: toIso(row.created_at)!,
+  }
+}
+
+/**
+ * Delivery Token Service
+ *
+ * Read-only bearer tokens for the headless content delivery API.
+ * Tokens are not tied to a user and grant access to published content only.
+ */
+class DeliveryTokenService {
+  /**
+   * Create a token. The plain value is returned once and never stored.
+   */
+  async create(
+    name: string,
+    createdBy: number | null,
+    expiresAt: Date | null = null
+  ): Promise<{ token: string; record: DeliveryToken }> {
+    const token = `${TOKEN_PREFIX}${randomBytes(24).toString('hex')}`
+    const now = new Date()
+    const [row] = await db
+      .table('delivery_tokens')
+      .insert({
+        name,
+        token_hash: hashDeliveryToken(token),
+        token_prefix: token.substring(0, TOKEN_PREFIX.length + 4),
+        created_by: createdBy,
+        expires_at: expiresAt,
+        created_at: now,
+        updated_at: now,
+      })
+      .returning('*')
+    return { token, record: mapRow(row) }
+  }
+
+  /**
+   * Resolve a presented token to its record, or null when unknown, revoked or expired
+   */
+  async verify(token: string): Promise<DeliveryToken | null> {
+    if (!token || !token.startsWith(TOKEN_PREFIX)) return null
+    const row = await db
+      .from('delivery_tokens')
+      .where('token_hash', hashDeliveryToken(token))
+      .whereNull('revoked_at')
+      .first()
+    if (!row) return null
+    if (row.expires_at && new Date(row.expires_at).getTime() <= Date.now()) return null
+
+    const lastUsed = row.last_used_at ? new Date(row.last_used_at).getTime() : 0
+    if (Date.now() - lastUsed > LAST_USED_RESOLUTION_MS) {
+      const now = new Date()
+      await db.from('delivery_tokens').where('id', row.id).update({ last_used_at: now })
+      row.last_used_at = now
+    }
+    return mapRow(row)
+  }
+
+  async list(): Promise<DeliveryToken[]> {
+    const rows = await db.from('delivery_tokens').orderBy('created_at', 'desc')
+    return rows.map(mapRow)
+  }
+
+  /**
+   * Revoke a token. Returns false when it does not exist or was already revoked.
+   */
+  async revoke(id: string): Promise<boolean> {
+    const now = new Date()
+    const updated = await db
+      .from('delivery_tokens')
+      .where('id', id)
+      .whereNull('revoked_at')
+      .update({ revoked_at: now, updated_at: now })
+    return Array.isArray(updated) ? updated.length > 0 : Number(updated) > 0
+  }
+}
+
+const deliveryTokenService = new DeliveryTokenService()
+export default deliveryTokenService
@@ -1,14 +1,406 @@
+import db from '@adonisjs/lucid/services/db'
 import formRegistry from '#services/form_registry'
-import type { FormConfig } from '#types/form_types'
+import { hasAmbiguousRepeat } from '#helpers/regex_safety'
+import {
+  FORM_FIELD_TYPES,
+  type FormAutoresponderEmail,
+  type FormConfig,
+  type FormFieldDefinition,
+  type FormNotificationEmail,
+  type FormStep,
+} from '#types/form_types'
 
+/** Upper bound for a file field's size limit (the multipart body limit is 20mb) */
+export const MAX_FORM_FILE_SIZE = 20 * 1024 * 1024
+
+const FORM_SLUG_PATTERN = /^[a-z0-9][a-z0-9_-]{0,99}$/
+const FIELD_SLUG_PATTERN = /^[a-z][a-z0-9_]{0,63}$/
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+export class FormConfigException extends Error {
+  constructor(
+    message: string,
+    public status: number = 400
+  ) {
+    super(message)
+    this.name = 'FormConfigException'
+  }
+}
+
+function optionalNumber(value: unknown, label: string): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  const n = Number(value)
+  if (!Number.isFinite(n)) throw new FormConfigException(`${label} must be a number`)
+  return n
+}
+
+function optionalString(value: unknown): string | undefined {
+  const s = typeof value === 'string' ? value.trim() : ''
+  return s || undefined
+}
+
+function normalizeField(input: any, index: number): FormFieldDefinition {
+  const slug = String(input?.slug || '').trim()
+  const where = `Field ${index + 1}${slug ? ` (${slug})` : ''}`
+  if (!FIELD_SLUG_PATTERN.test(slug)) {
+    throw new FormConfigException(
+      `${where}: slug must start with a letter and use lowercase letters, digits and underscores`
+    )
+  }
+  if (!(FORM_FIELD_TYPES as readonly string[]).includes(input?.type)) {
+    throw new FormConfigException(`${where}: unknown field type "${input?.type}"`)
+  }
+
+  const field: FormFieldDefinition = {
+    slug,
+    label: optionalString(input.label) || slug,
+    type: input.type,
+    required: !!input.required,
+  }
+  const description = optionalString(input.description)
+  if (description) field.description = description
+  const placeholder = optionalString(input.placeholder)
+  if (placeholder) field.placeholder = placeholder
+
+  if (field.type === 'select' || field.type === 'multiselect') {
+    const options = (Array.isArray(input.options) ? input.options : [])
+      .map((o: any) => ({
+        label: String(o?.label ?? o?.value ?? '').trim(),
+        value: String(o?.value ?? '').trim(),
+      }))
+      .filter((o: { value: string }) => o.value !== '')
+    if (options.length === 0) throw new FormConfigException(`${where}: add at least one option`)
+    field.options = options
+  }
+
+  const v = input.validation || {}
+  const validation = {
+    minLength: optionalNumber(v.minLength, `${where}: minimum length`),
+    maxLength: optionalNumber(v.maxLength, `${where}: maximum length`),
+    min: optionalNumber(v.min, `${where}: minimum`),
+    max: optionalNumber(v.max, `${where}: maximum`),
+    minDate: optionalString(v.minDate),
+    maxDate: optionalString(v.maxDate),
+    pattern: optionalString(v.pattern),
+    patternMessage: optionalString(v.patternMessage),
+  }
+  if (validation.pattern) {
+    try {
+      new RegExp(validation.pattern)
+    } catch {
+      throw new FormConfigException(`${where}: pattern is not a valid regular expression`)
+    }
+    // Patterns run against public submissions, so they must not backtrack exponentially
+    if (hasAmbiguousRepeat(validation.pattern)) {
+      throw new FormConfigException(
+        `${where}: pattern repeats a group that already repeats or has alternatives (like "(a+)+" or "(a|b)+"), which can be very slow to match`
+      )
+    }
+  }
+  if (
+    validation.minLength !== undefined &&
+    validation.maxLength !== undefined &&
+    validation.minLength > validation.maxLength
+  ) {
+    throw new FormConfigException(`${where}: minimum length is greater than maximum length`)
+  }
+  if (
+    validation.min !== undefined &&
+    validation.max !== undefined &&
+    validation.min > validation.max
+  ) {
+    throw new FormConfigException(`${where}: minimum is greater than maximum`)
+  }
+  const cleaned = Object.fromEntries(
+    Object.entries(validation).filter(([, val]) => val !== undefined)
+  )
+  if (Object.keys(cleaned).length > 0) field.validation = cleaned
+
+  if (field.type === 'file') {
+    const f = input.file || {}
+    const maxSize = optionalNumber(f.maxSize, `${where}: maximum file size`)
+    if (maxSize !== undefined && (maxSize <= 0 || maxSize > MAX_FORM_FILE_SIZE)) {
+      throw new FormConfigException(`${where}: maximum file size must be between 1 byte and 20 MB`)
+    }
+    const maxFiles = optionalNumber(f.maxFiles, `${where}: maximum files`)
+    if (maxFiles !== undefined && (maxFiles < 1 || maxFiles > 10)) {
+      throw new FormConfigException(`${where}: maximum files must be between 1 and 10`)
+    }
+    const accept = (Array.isArray(f.accept) ? f.accept : String(f.accept || '').split(','))
+      .map((a: string) => String(a).trim().toLowerCase())
+      .filter(Boolean)
+    field.file = {
+      ...(accept.length ? { accept } : {}),
+      ...(maxSize !== undefined ? { maxSize } : {}),
+      ...(maxFiles !== undefined ? { maxFiles } : {}),
+    }
+  }
+
+  if (input.showIf?.field) {
+    const condition: FormFieldDefinition['showIf'] = { field: String(input.showIf.field) }
+    if (input.showIf.equals !== undefined && input.showIf.equals !== '') {
+      condition.equals = input.showIf.equals
+    }
+    if (input.showIf.notEquals !== undefined && input.showIf.notEquals !== '') {
+      condition.notEquals = input.showIf.notEquals
+    }
+    if (Array.isArray(input.showIf.in)) condition.in = input.showIf.in
+    if (typeof input.showIf.filled === 'boolean') condition.filled = input.showIf.filled
+    field.showIf = condition
+  }
+  return field
+}
+
+function emailField(fields: FormFieldDefinition[], slug: string, label: string): string {
+  const field = fields.find((f) => f.slug === slug)
+  if (!field || field.type !== 'email') {
+    throw new FormConfigException(`${label}: "${slug}" is not an email field of this form`)
+  }
+  return slug
+}
+
+function normalizeNotifications(
+  input: any,
+  fields: FormFieldDefinition[]
+): FormNotificationEmail | undefined {
+  const recipients = (
+    Array.isArray(input?.recipients) ? input.recipients : String(input?.recipients || '').split(',')
+  )
+    .map((r: unknown) => String(r).trim())
+    .filter(Boolean)
+  if (recipients.length === 0) return undefined
+  for (const recipient of recipients) {
+    if (!EMAIL_PATTERN.test(recipient)) {
+      throw new FormConfigException(`Notifications: "${recipient}" is not a valid email address`)
+    }
+  }
+  const replyToField = optionalString(input.replyToField)
+  return {
+    recipients,
+    ...(optionalString(input.subject) ? { subject: optionalString(input.subject) } : {}),
+    ...(optionalString(input.body) ? { body: optionalString(input.body) } : {}),
+    ...(replyToField ? { replyToField: emailField(fields, replyToField, 'Notifications') } : {}),
+  }
+}
+
+function normalizeAutoresponder(
+  input: any,
+  fields: FormFieldDefinition[]
+): FormAutoresponderEmail | undefined {
+  const toField = optionalString(input?.toField)
+  if (!toField) return undefined
+  const subject = optionalString(input.subject)
+  const body = optionalString(input.body)
+  if (!subject || !body) {
+    throw new FormConfigException('Autoresponder: subject and message are required')
+  }
+  const replyTo = optionalString(input.replyTo)
+  if (replyTo && !EMAIL_PATTERN.test(replyTo)) {
+    throw new FormConfigException(`Autoresponder: "${replyTo}" is not a valid email address`)
+  }
+  return {
+    toField: emailField(fields, toField, 'Autoresponder'),
+    subject,
+    body,
+    ...(replyTo ? { replyTo } : {}),
+  }
+}
+
+/**
+ * Validate a form definition coming from the admin form builder
+ */
+export function normalizeFormConfig(input: any): FormConfig {
+  const slug = String(input?.slug || '').trim()
+  if (!FORM_SLUG_PATTERN.test(slug)) {
+    throw new FormConfigException(
+      'Slug must use lowercase letters, digits, dashes and underscores (max. 100 characters)'
+    )
+  }
+  const title = optionalString(input?.title)
+  if (!title) throw new FormConfigException('Title is required')
+
+  const rawFields = Array.isArray(input?.fields) ? input.fields : []
+  if (rawFields.length === 0) throw new FormConfigException('Add at least one field')
+  const fields = rawFields.map(normalizeField)
+
+  const slugs = new Set<string>()
+  for (const field of fields) {
+    if (slugs.has(field.slug)) {
+      throw new FormConfigException(`Field slug "${field.slug}" is used more than once`)
+    }
+    slugs.add(field.slug)
+  }
+  for (const field of fields) {
+    if (!field.showIf) continue
+    if (field.showIf.field === field.slug || !slugs.has(field.showIf.field)) {
+      throw new FormConfigException(
+        `Field "${field.slug}" is shown based on an unknown field "${field.showIf.field}"`
+      )
+    }
+  }
+
+  let steps: FormStep[] | undefined
+  if (Array.isArray(input?.steps) && input.steps.length > 0) {
+    const placed = new Set<string>()
+    steps = input.steps.map((step: any, index: number) => {
+      const stepTitle = optionalString(step?.title) || `Step ${index + 1}`
+      const stepFields = (Array.isArray(step?.fields) ? step.fields : []).map(String)
+      for (const fieldSlug of stepFields) {
+        if (!slugs.has(fieldSlug)) {
+          throw new FormConfigException(`${stepTitle}: unknown field "${fieldSlug}"`)
+        }
+        if (placed.has(fieldSlug)) {
+          throw new FormConfigException(`Field "${fieldSlug}" is on more than one step`)
+        }
+        placed.add(fieldSlug)
+      }
+      const description = optionalString(step?.description)
+      return { title: stepTitle, ...(description ? { description } : {}), fields: stepFields }
+    })
+  }
+
+  const subscriptions = (Array.isArray(input?.subscriptions) ? input.subscriptions : [])
+    .map(String)
+    .filter(Boolean)
+
+  return {
+    slug,
+    title,
+    description: optionalString(input?.description),
+    fields,
+    steps,
+    successMessage: optionalString(input?.successMessage),
+    thankYouPostId: optionalString(input?.thankYouPostId),
+    subscriptions: subscriptions.length ? subscriptions : undefined,
+    notifications: normalizeNotifications(input?.notifications, fields),
+    autoresponder: normalizeAutoresponder(input?.autoresponder, fields),
+    source: 'admin',
+  }
+}
+
+/**
+ * The form definition as sent to the public site (no webhook subscriptions or email settings)
+ */
+export function toPublicForm(form: FormConfig) {
+  const publicForm = { ...form }
+  delete publicForm.subscriptions
+  delete publicForm.notifications
+  delete publicForm.autoresponder
+  delete publicForm.source
+  return publicForm
+}
+
+function fromRow(row: any): FormConfig {
+  return {
+    slug: row.slug,
+    title: row.title,
+    description: row.description || undefined,
+    fields: Array.isArray(row.fields) ? row.fields : [],
+    steps: Array.isArray(row.steps) && row.steps.length ? row.steps : undefined,
+    successMessage: row.success_message || undefined,
+    thankYouPostId: row.thank_you_post_id || undefined,
+    subscriptions: Array.isArray(row.subscriptions) ? row.subscriptions : undefined,
+    notifications: row.notifications || undefined,
+    autoresponder: row.autoresponder || undefined,
+    source: 'admin',
+  }
+}
+
+/**
+ * All forms: code-first forms from app/forms plus forms built in the admin.
+ * Admin forms are cached briefly; writes in this process clear the cache.
+ */
 class FormConfigService {
-  list(): FormConfig[] {
-    return formRegistry.list()
+  private cache: FormConfig[] | null = null
+  private lastLoadedAt = 0
+  private ttlMs = 10000
+
+  async list(): Promise<FormConfig[]> {
+    const code = formRegistry.list().map((form) => ({ ...form, source: 'code' as const }))
+    const stored = await this.storedForms()
+    const codeSlugs = new Set(code.map((f) => f.slug))
+    return [...code, ...stored.filter((f) => !codeSlugs.has(f.slug))]
+  }
+
+  async get(slug: string): Promise<FormConfig | null> {
+    const code = formRegistry.get(slug)
+    if (code) return { ...code, source: 'code' }
+    const stored = await this.storedForms()
+    return stored.find((f) => f.slug === slug) || null
+  }
+
+  async create(input: any, userId: number | null): Promise<FormConfig> {
+    const form = normalizeFormConfig(input)
+    if (await this.get(form.slug)) {
+      throw new FormConfigException(`A form with the slug "${form.slug}" already exists`, 409)
+    }
+    await db.table('forms').insert({
+      ...this.toRow(form),
+      slug: form.slug,
+      created_by: userId,
+      updated_by: userId,
+    })
+    this.clearCache()
+    return form
+  }
+
+  async update(slug: string, input: any, userId: number | null): Promise<FormConfig> {
+    await this.findEditable(slug)
+    const form = normalizeFormConfig({ ...input, slug })
+    await db
+      .from('forms')
+      .where('slug', slug)
+      .update({ ...this.toRow(form), updated_by: userId, updated_at: new Date() })
+    this.clearCache()
+    return form
+  }
+
+  async delete(slug: string): Promise<void> {
+    await this.findEditable(slug)
+    await db.from('forms').where('slug', slug).delete()
+    this.clearCache()
+  }
+
+  clearCache() {
+    this.cache = null
+    this.lastLoadedAt = 0
+  }
+
+  private async findEditable(slug: string): Promise<FormConfig> {
+    if (formRegistry.has(slug)) {
+      throw new FormConfigException(
+        `"${slug}" is defined in code (app/forms) and cannot be edited here`,
+        409
+      )
+    }
+    const form = await this.get(slug)
+    if (!form) throw new FormConfigException('Form not found', 404)
+    return form
+  }
+
+  private async storedForms(): Promise<FormConfig[]> {
+    const now = Date.now()
+    if (this.cache && now - this.lastLoadedAt < this.ttlMs) return this.cache
+    const rows = await db.from('forms').orderBy('title', 'asc')
+    this.cache = rows.map(fromRow)
+    this.lastLoadedAt = now
+    return this.cache
   }
 
-  get(slug: string): FormConfig | null {
-    return formRegistry.get(slug) || null
+  private toRow(form: FormConfig) {
+    return {
+      title: form.title,
+      description: form.description ?? null,
+      fields: JSON.stringify(form.fields),
+      steps: form.steps ? JSON.stringify(form.steps) : null,
+      success_message: form.successMessage ?? null,
+      thank_you_post_id: form.thankYouPostId ?? null,
+      subscriptions: form.subscriptions ? JSON.stringify(form.subscriptions) : null,
+      notifications: form.notifications ? JSON.stringify(form.notifications) : null,
+      autoresponder: form.autoresponder ? JSON.stringify(form.autoresponder) : null,
+    }
   }
 }
 
-export default new FormConfigService()
+const formConfigService = new FormConfigService()
+export default formConfigService
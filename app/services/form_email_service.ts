@@ -0,0 +1,199 @@
+import db from '@adonisjs/lucid/services/db'
+import mail from '@adonisjs/mail/services/main'
+import cmsConfig from '#config/cms'
+import { isStoredUpload } from '#services/form_upload_service'
+import FormSubmissionMail from '#mails/form_submission_mail'
+import deliveryQueueService, {
+  type DeliveryAttemptResult,
+  type QueuedDelivery,
+} from '#services/delivery_queue_service'
+import type { FormConfig } from '#types/form_types'
+
+export const FORM_EMAIL_TYPES = ['notification', 'autoresponder'] as const
+
+export type FormEmailType = (typeof FORM_EMAIL_TYPES)[number]
+
+/** Recorded in `form_submissions.<type>_status`; null when the form sends no such email */
+export type FormEmailStatus = 'queued' | 'retrying' | 'sent' | 'failed'
+
+/**
+ * A rendered email, stored as the delivery queue payload
+ */
+export type FormEmail = {
+  type: FormEmailType
+  submissionId: string
+  formSlug: string
+  to: string[]
+  subject: string
+  text: string
+  replyTo?: string
+}
+
+const DEFAULT_NOTIFICATION_SUBJECT = 'New submission: {{form.title}}'
+const DEFAULT_NOTIFICATION_BODY = '{{fields}}'
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const STATUS_COLUMNS: Record<FormEmailType, string> = {
+  notification: 'notification_status',
+  autoresponder: 'autoresponder_status',
+}
+
+/**
+ * Plain-text rendering of a submitted value
+ */
+export function formatSubmittedValue(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (Array.isArray(value)) return value.map(formatSubmittedValue).filter(Boolean).join(', ')
+  if (typeof value === 'object') {
+    // Uploads are private, so emails only name them; admins download them from the inbox
+    if (isStoredUpload(value)) return value.name
+    return JSON.stringify(value)
+  }
+  return String(value)
+}
+
+/**
+ * Interpolate `{{field_slug}}`, `{{form.title}}`, `{{form.slug}}`, `{{submission.id}}`
+ * and `{{fields}}`. Fields that were not submitted render empty; unknown placeholders stay as-is.
+ */
+export function renderFormTemplate(
+  template: string,
+  form: FormConfig,
+  submissionId: string,
+  payload: Record<string, unknown>
+): string {
+  const fieldSlugs = new Set(form.fields.map((f) => f.slug))
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, key: string) => {
+    if (key === 'fields') {
+      return form.fields
+        .filter((f) => payload[f.slug] !== undefined && payload[f.slug] !== null)
+        .map((f) => `${f.label || f.slug}: ${formatSubmittedValue(payload[f.slug])}`)
+        .join('\n')
+    }
+    if (key === 'form.title') return form.title
+    if (key === 'form.slug') return form.slug
+    if (key === 'submission.id') return submissionId
+    if (fieldSlugs.has(key)) return formatSubmittedValue(payload[key])
+    return match
+  })
+}
+
+function emailFromField(payload: Record<string, unknown>, slug: string | undefined) {
+  const value = slug ? payload[slug] : undefined
+  return typeof value === 'string' && EMAIL_PATTERN.test(value.trim()) ? value.trim() : undefined
+}
+
+/**
+ * The emails a submission sends: the team notification and the autoresponder, when configured
+ */
+export function buildFormEmails(
+  form: FormConfig,
+  submissionId: string,
+  payload: Record<string, unknown>
+): FormEmail[] {
+  const render = (template: string) => renderFormTemplate(template, form, submissionId, payload)
+  // Header values must stay on one line
+  const subjectLine = (template: string) =>
+    render(template)
+      .replace(/[\r\n]+/g, ' ')
+      .trim()
+  const emails: FormEmail[] = []
+
+  const notifications = form.notifications
+  const recipients = (notifications?.recipients || []).filter((r) => EMAIL_PATTERN.test(r))
+  if (notifications && recipients.length > 0) {
+    emails.push({
+      type: 'notification',
+      submissionId,
+      formSlug: form.slug,
+      to: recipients,
+      subject: subjectLine(notifications.subject || DEFAULT_NOTIFICATION_SUBJECT),
+      text: render(notifications.body || DEFAULT_NOTIFICATION_BODY),
+      replyTo: emailFromField(payload, notifications.replyToField),
+    })
+  }
+
+  const autoresponder = form.autoresponder
+  const submitter = emailFromField(payload, autoresponder?.toField)
+  if (autoresponder && submitter) {
+    emails.push({
+      type: 'autoresponder',
+      submissionId,
+      formSlug: form.slug,
+      to: [submitter],
+      subject: subjectLine(autoresponder.subject),
+      text: render(autoresponder.body),
+      replyTo: autoresponder.replyTo,
+    })
+  }
+
+  return emails
+}
+
+/**
+ * Form Email Service
+ *
+ * Queues notification and autoresponder emails for submissions. They are sent by the
+ * delivery queue (kind `email`), retried with backoff, and their status is recorded on
+ * the submission.
+ */
+class FormEmailService {
+  /**
+   * Render and queue the emails of a submission
+   */
+  async queue(
+    form: FormConfig,
+    submissionId: string,
+    payload: Record<string, unknown>
+  ): Promise<FormEmail[]> {
+    const emails = buildFormEmails(form, submissionId, payload)
+    for (const email of emails) {
+      await deliveryQueueService.enqueue({
+        kind: 'email',
+        event: `form.${email.type}`,
+        payload: email,
+        maxAttempts: cmsConfig.formEmails.maxAttempts,
+      })
+      await this.recordStatus(email, 'queued')
+    }
+    return emails
+  }
+
+  /**
+   * Send a queued email (called by the delivery queue)
+   */
+  async deliverQueued(item: QueuedDelivery): Promise<DeliveryAttemptResult> {
+    const email = item.payload as FormEmail
+    if (!FORM_EMAIL_TYPES.includes(email?.type) || !email.to?.length) {
+      return { success: false, error: 'Invalid form email payload', retryable: false }
+    }
+
+    try {
+      await mail.send(new FormSubmissionMail(email))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      const final = item.attempts >= item.maxAttempts
+      await this.recordStatus(email, final ? 'failed' : 'retrying', message)
+      return { success: false, error: message }
+    }
+
+    await this.recordStatus(email, 'sent')
+    return { success: true }
+  }
+
+  private async recordStatus(email: FormEmail, status: FormEmailStatus, error?: string) {
+    await db
+      .from('form_submissions')
+      .where('id', email.submissionId)
+      .update({
+        [STATUS_COLUMNS[email.type]]: status,
+        ...(error !== undefined ? { email_error: error.substring(0, 2000) } : {}),
+        updated_at: new Date(),
+      })
+  }
+}
+
+const formEmailService = new FormEmailService()
+export default formEmailService
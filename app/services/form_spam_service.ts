@@ -0,0 +1,302 @@
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import cmsConfig from '#config/cms'
+import type { FormConfig } from '#types/form_types'
+
+/** Hidden field rendered by the Form module; people never fill it in */
+export const DEFAULT_HONEYPOT_FIELD = '__website'
+
+/** Form load tokens older than this no longer prove when the form was loaded */
+export const FORM_TOKEN_MAX_AGE_MS = 24 * 60 * 60 * 1000
+
+/** Score each signal adds; a submission is spam once the sum reaches the threshold */
+export const SPAM_WEIGHTS = {
+  honeypot: 1,
+  challenge: 1,
+  tooFast: 1,
+  token: 0.5,
+  links: 0.5,
+} as const
+
+export type SpamReason = keyof typeof SPAM_WEIGHTS
+
+export type SpamSettings = {
+  enabled: boolean
+  honeypot: string | null
+  minFillSeconds: number
+  rateLimit: { requests: number; window: number } | null
+  challenge: string | null
+  threshold: number
+}
+
+export type SpamCheck = {
+  spam: boolean
+  score: number
+  reasons: SpamReason[]
+}
+
+export type SpamSignals = {
+  /** Value of the honeypot field */
+  honeypotValue?: unknown
+  /** When the form was loaded, from a valid token; null when the token is missing or invalid */
+  loadedAt: number | null
+  now: number
+  /** Challenge result; null when no challenge is configured */
+  challengePassed: boolean | null
+  values: Record<string, unknown>
+}
+
+/**
+ * Verifies the response of a challenge widget (CAPTCHA or similar)
+ */
+export type ChallengeVerifier = {
+  verify(response: string, context: { ip: string | null; form: FormConfig }): Promise<boolean>
+  /** What the Form module needs to render the widget */
+  widget?: {
+    script: string
+    className: string
+    /** Name of the hidden input the widget adds to the form */
+    responseField: string
+  }
+}
+
+/**
+ * The form's effective spam settings: its `spamProtection` over the CMS defaults
+ */
+export function resolveSpamSettings(form: FormConfig): SpamSettings {
+  const own = form.spamProtection || {}
+  const defaults = cmsConfig.formSpam
+
+  const rateLimit =
+    own.rateLimit === false
+      ? null
+      : own.rateLimit || {
+          requests: cmsConfig.rateLimit.formRequests,
+          window: cmsConfig.rateLimit.formWindow,
+        }
+  return {
+    enabled: own.enabled !== false,
+    honeypot: own.honeypot === false ? null : own.honeypot || DEFAULT_HONEYPOT_FIELD,
+    minFillSeconds: own.minFillSeconds ?? defaults.minFillSeconds,
+    rateLimit: rateLimit && rateLimit.requests > 0 ? rateLimit : null,
+    challenge: own.challenge === false ? null : own.challenge || defaults.challenge || null,
+    threshold: own.threshold ?? defaults.threshold,
+  }
+}
+
+function tokenSignature(secret: string, slug: string, issuedAt: number): string {
+  return createHmac('sha256', secret).update(`form:${slug}:${issuedAt}`).digest('hex')
+}
+
+/**
+ * A token recording when a form was loaded, handed out with the form definition
+ */
+export function signFormToken(secret: string, slug: string, issuedAt: number): string {
+  return `${issuedAt}.${tokenSignature(secret, slug, issuedAt)}`
+}
+
+/**
+ * When the form was loaded, or null if the token is missing, forged, for another form or expired
+ */
+export function verifyFormToken(
+  secret: string,
+  slug: string,
+  token: unknown,
+  now: number
+): number | null {
+  if (typeof token !== 'string') return null
+  const [rawIssuedAt, signature] = token.split('.')
+  const issuedAt = Number(rawIssuedAt)
+  if (!Number.isSafeInteger(issuedAt) || !signature) return null
+
+  const expected = Buffer.from(tokenSignature(secret, slug, issuedAt))
+  const given = Buffer.from(signature)
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null
+  if (issuedAt > now || now - issuedAt > FORM_TOKEN_MAX_AGE_MS) return null
+  return issuedAt
+}
+
+function countLinks(values: Record<string, unknown>): number {
+  let count = 0
+  for (const value of Object.values(values)) {
+    if (typeof value !== 'string') continue
+    count += (value.match(/https?:\/\/|www\./gi) || []).length
+  }
+  return count
+}
+
+/**
+ * Score a submission from its spam signals
+ */
+export function scoreSubmission(settings: SpamSettings, signals: SpamSignals): SpamCheck {
+  if (!settings.enabled) return { spam: false, score: 0, reasons: [] }
+
+  const reasons: SpamReason[] = []
+  const honeypot = signals.honeypotValue
+  if (settings.honeypot && honeypot !== undefined && honeypot !== null && honeypot !== '') {
+    reasons.push('honeypot')
+  }
+  if (signals.challengePassed === false) reasons.push('challenge')
+  if (signals.loadedAt === null) {
+    reasons.push('token')
+  } else if (signals.now - signals.loadedAt < settings.minFillSeconds * 1000) {
+    reasons.push('tooFast')
+  }
+  if (countLinks(signals.values) >= 3) reasons.push('links')
+
+  const score = reasons.reduce((sum, reason) => sum + SPAM_WEIGHTS[reason], 0)
+  return { spam: score >= settings.threshold, score, reasons }
+}
+
+/**
+ * Verifier for the siteverify API shared by Cloudflare Turnstile, hCaptcha and reCAPTCHA
+ */
+export function siteverifyVerifier(
+  url: string,
+  widget: ChallengeVerifier['widget'],
+  secret: () => string
+): ChallengeVerifier {
+  return {
+    widget,
+    async verify(response, { ip }) {
+      const body = new URLSearchParams({ secret: secret(), response })
+      if (ip) body.set('remoteip', ip)
+
+      const controller = new AbortController()
+      const timeout = setTimeout(() => controller.abort(), 5000)
+      try {
+        const res = await fetch(url, { method: 'POST', body, signal: controller.signal })
+        const json = (await res.json().catch(() => null)) as { success?: boolean } | null
+        return json?.success === true
+      } finally {
+        clearTimeout(timeout)
+      }
+    },
+  }
+}
+
+/**
+ * Form Spam Service
+ *
+ * Honeypot, timing, challenge and content checks for public form submissions.
+ * Rate limiting happens before the controller in RateLimitMiddleware.forms().
+ */
+class FormSpamService {
+  private verifiers = new Map<string, ChallengeVerifier>()
+
+  constructor() {
+    const secret = () => cmsConfig.formSpam.challengeSecret
+    this.registerVerifier(
+      'turnstile',
+      siteverifyVerifier(
+        'https://challenges.cloudflare.com/turnstile/v0/siteverify',
+        {
+          script: 'https://challenges.cloudflare.com/turnstile/v0/api.js',
+          className: 'cf-turnstile',
+          responseField: 'cf-turnstile-response',
+        },
+        secret
+      )
+    )
+    this.registerVerifier(
+      'hcaptcha',
+      siteverifyVerifier(
+        'https://api.hcaptcha.com/siteverify',
+        {
+          script: 'https://js.hcaptcha.com/1/api.js',
+          className: 'h-captcha',
+          responseField: 'h-captcha-response',
+        },
+        secret
+      )
+    )
+    this.registerVerifier(
+      'recaptcha',
+      siteverifyVerifier(
+        'https://www.google.com/recaptcha/api/siteverify',
+        {
+          script: 'https://www.google.com/recaptcha/api.js',
+          className: 'g-recaptcha',
+          responseField: 'g-recaptcha-response',
+        },
+        secret
+      )
+    )
+  }
+
+  /**
+   * Register a custom challenge verifier, usable as `spamProtection.challenge`
+   */
+  registerVerifier(name: string, verifier: ChallengeVerifier): void {
+    this.verifiers.set(name, verifier)
+  }
+
+  /**
+   * What the public form definition exposes to render the protections
+   */
+  clientConfig(form: FormConfig, now: number = Date.now()) {
+    const settings = resolveSpamSettings(form)
+    if (!settings.enabled) return null
+
+    const verifier = settings.challenge ? this.verifiers.get(settings.challenge) : undefined
+    return {
+      token: signFormToken(cmsConfig.formSpam.tokenSecret, form.slug, now),
+      honeypot: settings.honeypot,
+      challenge:
+        verifier?.widget && settings.challenge
+          ? {
+              provider: settings.challenge,
+              siteKey: cmsConfig.formSpam.challengeSiteKey,
+              ...verifier.widget,
+            }
+          : null,
+    }
+  }
+
+  /**
+   * Check a submission. Internal fields (`__token`, `__challenge`, the honeypot) are
+   * read from the raw body; `values` are the validated field values.
+   */
+  async check(
+    form: FormConfig,
+    body: Record<string, unknown>,
+    values: Record<string, unknown>,
+    ip: string | null
+  ): Promise<SpamCheck> {
+    const settings = resolveSpamSettings(form)
+    if (!settings.enabled) return { spam: false, score: 0, reasons: [] }
+
+    const now = Date.now()
+    return scoreSubmission(settings, {
+      honeypotValue: settings.honeypot ? body[settings.honeypot] : undefined,
+      loadedAt: verifyFormToken(cmsConfig.formSpam.tokenSecret, form.slug, body.__token, now),
+      now,
+      challengePassed: await this.verifyChallenge(settings, form, body.__challenge, ip),
+      values,
+    })
+  }
+
+  private async verifyChallenge(
+    settings: SpamSettings,
+    form: FormConfig,
+    response: unknown,
+    ip: string | null
+  ): Promise<boolean | null> {
+    if (!settings.challenge) return null
+    const verifier = this.verifiers.get(settings.challenge)
+    if (!verifier) {
+      console.warn(`Form "${form.slug}" uses unknown challenge verifier "${settings.challenge}"`)
+      return null
+    }
+    if (typeof response !== 'string' || response === '') return false
+    try {
+      return await verifier.verify(response, { ip, form })
+    } catch (error) {
+      // An unreachable provider should not quarantine every submission
+      console.error(`Challenge verification failed for form "${form.slug}":`, error)
+      return null
+    }
+  }
+}
+
+const formSpamService = new FormSpamService()
+export default formSpamService
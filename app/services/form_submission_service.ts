@@ -0,0 +1,466 @@
+import db from '@adonisjs/lucid/services/db'
+import webhookService from '#services/webhook_service'
+import workflowExecutionService from '#services/workflow_execution_service'
+import agentTriggerService from '#services/agent_trigger_service'
+import formConfigService from '#services/form_config_service'
+import formEmailService from '#services/form_email_service'
+import roleRegistry from '#services/role_registry'
+import formUploadService, {
+  isStoredUpload,
+  type StoredFormUpload,
+} from '#services/form_upload_service'
+import analyticsService, { addDays, type AnalyticsRange } from '#services/analytics_service'
+import {
+  FORM_SUBMISSION_STATUSES,
+  type FormConfig,
+  type FormSubmissionStatus,
+} from '#types/form_types'
+
+export type SubmittedForm = {
+  form: FormConfig
+  submissionId: string
+  payload: Record<string, unknown>
+  originPostId: string | null
+}
+
+/**
+ * Inbox filters; empty strings and nulls mean "any"
+ */
+export type SubmissionFilters = {
+  q: string
+  formSlug: string
+  /** `inbox` lists everything except spam */
+  status: FormSubmissionStatus | 'inbox'
+  assignedTo: number | 'unassigned' | null
+  /** Inclusive UTC days, YYYY-MM-DD */
+  from: string | null
+  to: string | null
+  abVariation: string
+  originPostId: string
+}
+
+export type SubmissionChanges = {
+  status?: string
+  assignedTo?: number | null
+}
+
+export type SubmissionNote = {
+  id: string
+  body: string
+  userId: number | null
+  author: string | null
+  createdAt: string
+}
+
+export type SubmissionAnalytics = {
+  range: AnalyticsRange
+  totals: { submissions: number; spam: number }
+  overTime: Array<{ date: string; submissions: number }>
+  byOrigin: Array<{
+    postId: string | null
+    title: string | null
+    slug: string | null
+    submissions: number
+    views: number
+    /** Submissions per view of the origin post; null without views */
+    conversionRate: number | null
+  }>
+}
+
+export class FormSubmissionException extends Error {
+  constructor(
+    message: string,
+    public status: number = 400
+  ) {
+    super(message)
+    this.name = 'FormSubmissionException'
+  }
+}
+
+/** Same expression as the GIN index on form_submissions.payload, so searches can use it */
+export const SUBMISSION_SEARCH_VECTOR = `jsonb_to_tsvector('simple'::regconfig, payload, '["string", "numeric"]'::jsonb)`
+
+export const MAX_NOTE_LENGTH = 5000
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Read inbox filters from query values. `assigned=me` resolves to the given user.
+ */
+export function parseSubmissionFilters(
+  input: Record<string, unknown>,
+  userId: number | null
+): SubmissionFilters {
+  const text = (key: string) => (typeof input[key] === 'string' ? String(input[key]).trim() : '')
+  const day = (key: string) => (DAY_PATTERN.test(text(key)) ? text(key) : null)
+
+  const status = text('status')
+  const assigned = text('assigned')
+  let assignedTo: SubmissionFilters['assignedTo'] = null
+  if (assigned === 'unassigned') assignedTo = 'unassigned'
+  else if (assigned === 'me') assignedTo = userId
+  else if (/^\d+$/.test(assigned)) assignedTo = Number(assigned)
+
+  return {
+    q: text('q'),
+    formSlug: text('form_slug'),
+    status: (FORM_SUBMISSION_STATUSES as readonly string[]).includes(status)
+      ? (status as FormSubmissionStatus)
+      : 'inbox',
+    assignedTo,
+    from: day('from'),
+    to: day('to'),
+    abVariation: text('variation'),
+    originPostId: UUID_PATTERN.test(text('origin_post_id')) ? text('origin_post_id') : '',
+  }
+}
+
+/**
+ * Daily counts for every day of a range, including days without submissions
+ */
+export function fillDailyCounts(
+  range: AnalyticsRange,
+  rows: Array<{ date: string; count: number }>
+): Array<{ date: string; submissions: number }> {
+  const counts = new Map(rows.map((r) => [r.date, r.count]))
+  const days: Array<{ date: string; submissions: number }> = []
+  for (let date = range.from; date <= range.to; date = addDays(date, 1)) {
+    days.push({ date, submissions: counts.get(date) ?? 0 })
+  }
+  return days
+}
+
+export function conversionRate(submissions: number, views: number): number | null {
+  return views > 0 ? submissions / views : null
+}
+
+/**
+ * Form Submission Service
+ *
+ * The submission inbox (filters, statuses, assignment, notes, analytics) and what a
+ * submission triggers. Quarantined (spam) submissions trigger nothing until an editor
+ * moves them out of spam.
+ */
+class FormSubmissionService {
+  /**
+   * Webhooks, per-form subscriptions, emails, `form.submit` workflows and agents.
+   * Failures are logged and never affect the submission.
+   */
+  async dispatchSubmitted({ form, submissionId, payload, originPostId }: SubmittedForm) {
+    const event = { formSlug: form.slug, submissionId, payload }
+
+    // Fire global webhooks for form submission
+    try {
+      await webhookService.dispatch('form.submitted', event)
+    } catch {
+      // Webhook failures should not block the user-facing success response.
+    }
+
+    // Fire any per-form subscriptions
+    if (Array.isArray(form.subscriptions) && form.subscriptions.length > 0) {
+      try {
+        await webhookService.dispatchToWebhooks(form.subscriptions, 'form.submitted', event)
+      } catch {
+        // Ignore subscription-specific errors
+      }
+    }
+
+    // Notification and autoresponder emails are sent and retried by the delivery queue
+    try {
+      await formEmailService.queue(form, submissionId, payload)
+    } catch (error) {
+      console.error(`Form "${form.slug}" emails could not be queued:`, error)
+    }
+
+    try {
+      await workflowExecutionService.executeWorkflows('form.submit', event, {
+        formSlug: form.slug,
+      })
+    } catch (error) {
+      console.error(`Form "${form.slug}" workflows failed:`, error)
+    }
+
+    // Agents work on posts, so they run against the page the form was submitted from.
+    // Not awaited: AI calls must not hold up the visitor's response.
+    if (originPostId) {
+      agentTriggerService
+        .runAgentsForScope('form.submit', originPostId, { ...event, viewMode: 'source' })
+        .catch((error) => console.error(`Form "${form.slug}" agents failed:`, error))
+    }
+  }
+
+  /**
+   * Submissions matching the inbox filters (an unordered query to page, count or export)
+   */
+  query(filters: SubmissionFilters) {
+    const query = db.from('form_submissions')
+
+    if (filters.status === 'inbox') query.where('status', '<>', 'spam')
+    else query.where('status', filters.status)
+
+    if (filters.formSlug) query.where('form_slug', filters.formSlug)
+    if (filters.assignedTo === 'unassigned') query.whereNull('assigned_to')
+    else if (filters.assignedTo !== null) query.where('assigned_to', filters.assignedTo)
+    if (filters.from) query.where('created_at', '>=', new Date(`${filters.from}T00:00:00Z`))
+    if (filters.to) query.where('created_at', '<', new Date(`${addDays(filters.to, 1)}T00:00:00Z`))
+    if (filters.abVariation) query.where('ab_variation', filters.abVariation)
+    if (filters.originPostId) query.where('origin_post_id', filters.originPostId)
+    if (filters.q) {
+      query.whereRaw(`${SUBMISSION_SEARCH_VECTOR} @@ websearch_to_tsquery('simple', ?)`, [
+        filters.q,
+      ])
+    }
+    return query
+  }
+
+  /**
+   * Change the status and/or assignee of a submission. Moving it out of spam runs what it skipped.
+   */
+  async update(id: string, changes: SubmissionChanges): Promise<void> {
+    const row = await db.from('form_submissions').where('id', id).first()
+    if (!row) throw new FormSubmissionException('Submission not found', 404)
+
+    const update: Record<string, unknown> = {}
+    if (changes.status !== undefined) {
+      if (!(FORM_SUBMISSION_STATUSES as readonly string[]).includes(changes.status)) {
+        throw new FormSubmissionException(`Unknown status "${changes.status}"`)
+      }
+      update.status = changes.status
+    }
+    if (changes.assignedTo !== undefined) {
+      if (changes.assignedTo !== null) await this.assertAssignable(changes.assignedTo)
+      update.assigned_to = changes.assignedTo
+    }
+    if (Object.keys(update).length === 0) return
+
+    const values = { ...update, updated_at: new Date() }
+
+    if (row.status === 'spam' && update.status !== undefined && update.status !== 'spam') {
+      // Only the request that actually moves the row out of spam runs what it skipped,
+      // so concurrent status changes do not fire webhooks and emails twice
+      const released = await db
+        .from('form_submissions')
+        .where('id', id)
+        .where('status', 'spam')
+        .update(values)
+      if ((Array.isArray(released) ? released.length : Number(released) || 0) === 1) {
+        const form = await formConfigService.get(row.form_slug)
+        if (!form) return
+        await this.dispatchSubmitted({
+          form,
+          submissionId: row.id,
+          payload: row.payload || {},
+          originPostId: row.origin_post_id || null,
+        })
+        return
+      }
+    }
+
+    await db.from('form_submissions').where('id', id).update(values)
+  }
+
+  /**
+   * Move a quarantined submission back to the inbox and run what it skipped
+   */
+  async releaseSpam(id: string): Promise<void> {
+    const row = await db.from('form_submissions').where('id', id).select('status').first()
+    if (!row) throw new FormSubmissionException('Submission not found', 404)
+    if (row.status !== 'spam') throw new FormSubmissionException('Submission is not marked as spam')
+    await this.update(id, { status: 'new' })
+  }
+
+  /**
+   * Delete submissions together with their uploaded files
+   */
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return
+    const rows = await db.from('form_submissions').whereIn('id', ids).select('payload')
+    await db.from('form_submissions').whereIn('id', ids).delete()
+    await formUploadService.deleteForPayloads(rows.map((row) => row.payload))
+  }
+
+  /**
+   * A stored upload of a submission with its path on disk
+   */
+  async upload(
+    id: string,
+    fieldSlug: string,
+    index: number
+  ): Promise<{ upload: StoredFormUpload; path: string }> {
+    const row = await db.from('form_submissions').where('id', id).select('payload').first()
+    if (!row) throw new FormSubmissionException('Submission not found', 404)
+    const files = row.payload?.[fieldSlug]
+    const upload = Array.isArray(files) ? files[index] : undefined
+    const path = isStoredUpload(upload) ? formUploadService.resolve(upload.key) : null
+    if (!isStoredUpload(upload) || !path) throw new FormSubmissionException('File not found', 404)
+    return { upload, path }
+  }
+
+  /**
+   * People who can work the inbox (users with forms.view, no service accounts)
+   */
+  async assignableUsers(): Promise<Array<{ id: number; email: string; fullName: string | null }>> {
+    const rows = await db
+      .from('users')
+      .where('is_service_account', false)
+      .orderBy('email', 'asc')
+      .select('id', 'email', 'full_name', 'role')
+    return rows
+      .filter((r) => roleRegistry.hasPermission(r.role, 'forms.view'))
+      .map((r) => ({ id: Number(r.id), email: String(r.email), fullName: r.full_name ?? null }))
+  }
+
+  async listNotes(submissionId: string): Promise<SubmissionNote[]> {
+    const rows = await db
+      .from('form_submission_notes as n')
+      .leftJoin('users as u', 'u.id', 'n.user_id')
+      .where('n.submission_id', submissionId)
+      .orderBy('n.created_at', 'asc')
+      .select('n.id', 'n.body', 'n.user_id', 'n.created_at', 'u.full_name', 'u.email')
+    return rows.map((r) => ({
+      id: String(r.id),
+      body: String(r.body),
+      userId: r.user_id ?? null,
+      author: r.full_name || r.email || null,
+      createdAt: new Date(r.created_at).toISOString(),
+    }))
+  }
+
+  async addNote(submissionId: string, userId: number | null, body: unknown): Promise<void> {
+    const text = typeof body === 'string' ? body.trim() : ''
+    if (!text) throw new FormSubmissionException('Note is empty')
+    if (text.length > MAX_NOTE_LENGTH) {
+      throw new FormSubmissionException(`Notes are limited to ${MAX_NOTE_LENGTH} characters`)
+    }
+    const submission = await db.from('form_submissions').where('id', submissionId).first()
+    if (!submission) throw new FormSubmissionException('Submission not found', 404)
+
+    await db.table('form_submission_notes').insert({
+      submission_id: submissionId,
+      user_id: userId,
+      body: text,
+      created_at: new Date(),
+    })
+  }
+
+  /**
+   * Delete a note. Only its author can, unless `anyAuthor` is set.
+   */
+  async deleteNote(
+    submissionId: string,
+    noteId: string,
+    userId: number | null,
+    anyAuthor: boolean
+  ): Promise<void> {
+    const note = await db
+      .from('form_submission_notes')
+      .where('id', noteId)
+      .where('submission_id', submissionId)
+      .first()
+    if (!note) throw new FormSubmissionException('Note not found', 404)
+    if (!anyAuthor && note.user_id !== userId) {
+      throw new FormSubmissionException('Only the author can delete this note', 403)
+    }
+    await db.from('form_submission_notes').where('id', noteId).delete()
+  }
+
+  /**
+   * Values to offer in the variation and origin post filters
+   */
+  async filterOptions(): Promise<{
+    variations: string[]
+    originPosts: Array<{ id: string; title: string }>
+  }> {
+    const variations = await db
+      .from('form_submissions')
+      .whereNotNull('ab_variation')
+      .distinct('ab_variation')
+      .orderBy('ab_variation', 'asc')
+    const originPosts = await db
+      .from('posts')
+      .whereIn(
+        'id',
+        db.from('form_submissions').whereNotNull('origin_post_id').select('origin_post_id')
+      )
+      .orderBy('title', 'asc')
+      .select('id', 'title')
+    return {
+      variations: variations.map((r) => String(r.ab_variation)),
+      originPosts: originPosts.map((r) => ({ id: String(r.id), title: String(r.title) })),
+    }
+  }
+
+  /**
+   * Submissions over time and conversion by origin post for one form
+   */
+  async analytics(formSlug: string, range: AnalyticsRange): Promise<SubmissionAnalytics> {
+    const start = new Date(`${range.from}T00:00:00Z`)
+    const end = new Date(`${addDays(range.to, 1)}T00:00:00Z`)
+    const inRange = () =>
+      db
+        .from('form_submissions')
+        .where('form_submissions.form_slug', formSlug)
+        .where('form_submissions.created_at', '>=', start)
+        .where('form_submissions.created_at', '<', end)
+
+    const totals = await inRange()
+      .select(db.raw(`COUNT(*) FILTER (WHERE status <> 'spam') AS submissions`))
+      .select(db.raw(`COUNT(*) FILTER (WHERE status = 'spam') AS spam`))
+      .first()
+
+    const daily = await inRange()
+      .where('status', '<>', 'spam')
+      .select(db.raw(`to_char((created_at AT TIME ZONE 'UTC')::date, 'YYYY-MM-DD') AS date`))
+      .count('* as count')
+      .groupByRaw('1')
+
+    const origins = await inRange()
+      .where('form_submissions.status', '<>', 'spam')
+      .leftJoin('posts', 'posts.id', 'form_submissions.origin_post_id')
+      .groupBy('form_submissions.origin_post_id', 'posts.title', 'posts.slug')
+      .select('form_submissions.origin_post_id', 'posts.title', 'posts.slug')
+      .count('* as count')
+      .orderBy('count', 'desc')
+      .limit(50)
+
+    const postIds = origins.map((r) => r.origin_post_id).filter(Boolean)
+    const views = await analyticsService.viewsByPost(range, postIds)
+
+    return {
+      range,
+      totals: {
+        submissions: Number(totals?.submissions ?? 0),
+        spam: Number(totals?.spam ?? 0),
+      },
+      overTime: fillDailyCounts(
+        range,
+        daily.map((r) => ({ date: String(r.date), count: Number(r.count) }))
+      ),
+      byOrigin: origins.map((r) => {
+        const submissions = Number(r.count)
+        const postViews = r.origin_post_id ? (views[r.origin_post_id] ?? 0) : 0
+        return {
+          postId: r.origin_post_id ?? null,
+          title: r.title ?? null,
+          slug: r.slug ?? null,
+          submissions,
+          views: postViews,
+          conversionRate: conversionRate(submissions, postViews),
+        }
+      }),
+    }
+  }
+
+  private async assertAssignable(userId: number) {
+    const user = Number.isInteger(userId)
+      ? await db.from('users').where('id', userId).select('role').first()
+      : null
+    if (!user || !roleRegistry.hasPermission(user.role, 'forms.view')) {
+      throw new FormSubmissionException('This user cannot be assigned submissions')
+    }
+  }
+}
+
+const formSubmissionService = new FormSubmissionService()
+export default formSubmissionService
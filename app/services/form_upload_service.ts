@@ -0,0 +1,99 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import crypto from 'node:crypto'
+import cmsConfig from '#config/cms'
+
+/**
+ * An uploaded file as stored in the submission payload. `key` is relative to the
+ * private upload root and is never served directly.
+ */
+export type StoredFormUpload = {
+  name: string
+  size: number
+  type: string | null
+  key: string
+}
+
+export type FormUploadInput = {
+  clientName: string
+  size: number
+  mime: string | null
+  tmpPath?: string
+}
+
+export function isStoredUpload(value: unknown): value is StoredFormUpload {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof (value as StoredFormUpload).key === 'string' &&
+    typeof (value as StoredFormUpload).name === 'string'
+  )
+}
+
+/**
+ * All stored uploads referenced by a submission payload
+ */
+export function payloadUploads(payload: unknown): StoredFormUpload[] {
+  if (!payload || typeof payload !== 'object') return []
+  const uploads: StoredFormUpload[] = []
+  for (const value of Object.values(payload as Record<string, unknown>)) {
+    if (!Array.isArray(value)) continue
+    uploads.push(...value.filter(isStoredUpload))
+  }
+  return uploads
+}
+
+/**
+ * Filename safe for storage, keeping the extension of the client name
+ */
+export function safeUploadName(clientName: string): string {
+  return (
+    clientName
+      .normalize('NFKD')
+      .replace(/[^\w.-]+/g, '_')
+      .replace(/^[._]+/, '')
+      .slice(-120) || 'upload'
+  )
+}
+
+class FormUploadService {
+  /**
+   * Uploads live outside public/ so they are only reachable through the admin download route
+   */
+  private root(): string {
+    return path.resolve(process.cwd(), cmsConfig.formUploads.root)
+  }
+
+  /**
+   * Absolute path of a stored key, or null when it would escape the upload root
+   */
+  resolve(key: string): string | null {
+    const root = this.root()
+    const abs = path.resolve(root, key)
+    return abs.startsWith(root + path.sep) ? abs : null
+  }
+
+  async store(formSlug: string, file: FormUploadInput): Promise<StoredFormUpload> {
+    if (!file.tmpPath) throw new Error(`Upload ${file.clientName} was not received`)
+    const key = path.posix.join(formSlug, crypto.randomUUID(), safeUploadName(file.clientName))
+    const dest = this.resolve(key)
+    if (!dest) throw new Error(`Invalid upload path for ${file.clientName}`)
+    await fs.mkdir(path.dirname(dest), { recursive: true })
+    await fs.copyFile(file.tmpPath, dest)
+    return { name: file.clientName, size: file.size, type: file.mime, key }
+  }
+
+  /**
+   * Delete the stored files of the given payloads, including their per-upload directory
+   */
+  async deleteForPayloads(payloads: unknown[]): Promise<void> {
+    for (const upload of payloads.flatMap(payloadUploads)) {
+      const abs = this.resolve(upload.key)
+      if (!abs) continue
+      await fs.rm(path.dirname(abs), { recursive: true, force: true })
+    }
+  }
+}
+
+const formUploadService = new FormUploadService()
+export default formUploadService
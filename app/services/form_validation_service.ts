@@ -0,0 +1,340 @@
+import type {
+  FormConfig,
+  FormFieldCondition,
+  FormFieldDefinition,
+  FormStep,
+} from '#types/form_types'
+
+/**
+ * Metadata of an uploaded file, as far as validation is concerned
+ */
+export type UploadedFileInfo = {
+  clientName: string
+  size: number
+  /** Detected MIME type, e.g. image/png */
+  mime: string | null
+  /** Extension without the dot */
+  extname: string | null
+}
+
+export type SubmissionValidation<F extends UploadedFileInfo = UploadedFileInfo> = {
+  payload: Record<string, unknown>
+  errors: Record<string, string>
+  /** Accepted files of visible file fields, to be stored by the caller */
+  files: Record<string, F[]>
+}
+
+/** Default per-file size limit for file fields */
+export const DEFAULT_FILE_MAX_SIZE = 10 * 1024 * 1024
+
+/** Longest value a pattern rule is run against when the field sets no maxLength */
+export const DEFAULT_PATTERN_MAX_LENGTH = 1000
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const REQUIRED = 'This field is required.'
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    value === false ||
+    (Array.isArray(value) && value.length === 0)
+  )
+}
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false
+  const date = new Date(`${value}T00:00:00Z`)
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+}
+
+/**
+ * Whether a value satisfies a showIf condition; every given operator must hold
+ */
+export function conditionMatches(condition: FormFieldCondition, value: unknown): boolean {
+  const values = Array.isArray(value) ? value.map(String) : [String(value ?? '')]
+  if (condition.filled !== undefined && condition.filled === isEmpty(value)) return false
+  if (condition.equals !== undefined && !values.includes(String(condition.equals))) return false
+  if (condition.notEquals !== undefined && values.includes(String(condition.notEquals))) {
+    return false
+  }
+  if (Array.isArray(condition.in)) {
+    const allowed = condition.in.map(String)
+    if (!values.some((v) => allowed.includes(v))) return false
+  }
+  return true
+}
+
+/**
+ * Slugs of the fields that are shown for the given values. A field whose condition
+ * refers to a hidden field sees that field as empty.
+ */
+export function visibleFieldSlugs(
+  form: Pick<FormConfig, 'fields'>,
+  values: Record<string, unknown>
+): Set<string> {
+  const bySlug = new Map(form.fields.map((f) => [f.slug, f]))
+  const memo = new Map<string, boolean>()
+
+  const isVisible = (slug: string, trail: Set<string>): boolean => {
+    if (memo.has(slug)) return memo.get(slug)!
+    const field = bySlug.get(slug)
+    if (!field) return false
+    let visible = true
+    if (field.showIf && !trail.has(slug)) {
+      const other = field.showIf.field
+      const otherVisible = bySlug.has(other) && isVisible(other, new Set([...trail, slug]))
+      visible = conditionMatches(field.showIf, otherVisible ? values[other] : undefined)
+    }
+    memo.set(slug, visible)
+    return visible
+  }
+
+  return new Set(form.fields.filter((f) => isVisible(f.slug, new Set())).map((f) => f.slug))
+}
+
+/**
+ * The form's steps with every field placed: fields not listed on a step go on the last one
+ */
+export function resolveSteps(form: FormConfig): FormStep[] {
+  if (!form.steps || form.steps.length === 0) return []
+  const known = new Set(form.fields.map((f) => f.slug))
+  const steps = form.steps.map((step) => ({
+    ...step,
+    fields: step.fields.filter((slug) => known.has(slug)),
+  }))
+  const placed = new Set(steps.flatMap((step) => step.fields))
+  const rest = form.fields.map((f) => f.slug).filter((slug) => !placed.has(slug))
+  steps[steps.length - 1].fields.push(...rest)
+  return steps
+}
+
+/**
+ * Step index from a `?step=N` query, or null when the value is not one. Shared by
+ * the submit endpoint and its rate limit, which does not count step validation.
+ */
+export function parseStepParam(value: unknown): number | null {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) return null
+  return Number(value)
+}
+
+/** Types a browser may render or execute; rejected unless a field's accept list allows them */
+const ACTIVE_FILE_EXTENSIONS = new Set([
+  'html',
+  'htm',
+  'xhtml',
+  'shtml',
+  'svg',
+  'svgz',
+  'xml',
+  'xsl',
+  'js',
+  'mjs',
+])
+const ACTIVE_FILE_MIMES = new Set([
+  'text/html',
+  'application/xhtml+xml',
+  'image/svg+xml',
+  'text/xml',
+  'application/xml',
+  'text/xsl',
+  'text/javascript',
+  'application/javascript',
+  'application/x-javascript',
+])
+
+/**
+ * Whether a file is HTML, SVG, XML or JavaScript by its MIME type or extension
+ */
+export function isActiveFile(file: UploadedFileInfo): boolean {
+  const mime = (file.mime || '').toLowerCase()
+  const ext = (file.extname || '').toLowerCase().replace(/^\./, '')
+  return ACTIVE_FILE_MIMES.has(mime) || ACTIVE_FILE_EXTENSIONS.has(ext)
+}
+
+/**
+ * Whether a file matches an accept list of MIME types (`image/*`) or extensions (`.pdf`).
+ * Without an accept list every type except active content is allowed.
+ */
+export function fileMatchesAccept(file: UploadedFileInfo, accept: string[] | undefined): boolean {
+  if (!accept || accept.length === 0) return !isActiveFile(file)
+  const mime = (file.mime || '').toLowerCase()
+  const ext = (file.extname || '').toLowerCase().replace(/^\./, '')
+  return accept.some((rule) => {
+    const r = rule.trim().toLowerCase()
+    if (r.startsWith('.')) return ext === r.slice(1)
+    if (r.endsWith('/*')) return mime.startsWith(r.slice(0, -1))
+    return mime === r
+  })
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`
+  return `${Math.round(bytes / 1024)} KB`
+}
+
+function isEmailField(field: FormFieldDefinition): boolean {
+  // Older code-first forms use a text field named "email"
+  return field.type === 'email' || (field.type === 'text' && field.slug === 'email')
+}
+
+/**
+ * Validate and coerce a single non-file value. Returns the stored value or an error.
+ */
+export function validateFieldValue(
+  field: FormFieldDefinition,
+  raw: unknown
+): { value?: unknown; error?: string } {
+  const rules = field.validation || {}
+  const val = typeof raw === 'string' ? raw.trim() : raw
+
+  if (field.type === 'boolean' || field.type === 'checkbox') {
+    const checked = val === true || val === 'true' || val === 'on' || val === '1' || val === 1
+    if (field.required && !checked) return { error: REQUIRED }
+    return { value: checked }
+  }
+
+  if (field.type === 'multiselect') {
+    const list = (Array.isArray(val) ? val : isEmpty(val) ? [] : [val]).map(String)
+    if (field.required && list.length === 0) return { error: REQUIRED }
+    const allowed = (field.options || []).map((o) => String(o.value))
+    if (list.some((v) => !allowed.includes(v))) return { error: 'Please choose from the list.' }
+    return { value: list }
+  }
+
+  if (isEmpty(val)) {
+    if (field.required) return { error: REQUIRED }
+    return { value: null }
+  }
+
+  if (field.type === 'number') {
+    const n = typeof val === 'number' ? val : Number(val)
+    if (!Number.isFinite(n)) return { error: 'Please enter a number.' }
+    if (rules.min !== undefined && n < rules.min) return { error: `Must be at least ${rules.min}.` }
+    if (rules.max !== undefined && n > rules.max) return { error: `Must be at most ${rules.max}.` }
+    return { value: n }
+  }
+
+  if (typeof val !== 'string') return { error: 'Invalid value.' }
+
+  if (field.type === 'select') {
+    const allowed = (field.options || []).map((o) => String(o.value))
+    if (!allowed.includes(val)) return { error: 'Please choose from the list.' }
+    return { value: val }
+  }
+
+  if (field.type === 'date') {
+    if (!isValidDate(val)) return { error: 'Please enter a valid date.' }
+    if (rules.minDate && val < rules.minDate)
+      return { error: `Must be on or after ${rules.minDate}.` }
+    if (rules.maxDate && val > rules.maxDate)
+      return { error: `Must be on or before ${rules.maxDate}.` }
+    return { value: val }
+  }
+
+  if (isEmailField(field) && !EMAIL_PATTERN.test(val)) {
+    return { error: 'Please enter a valid email address.' }
+  }
+  if (field.type === 'phone') {
+    const digits = val.replace(/\D/g, '').length
+    if (!PHONE_PATTERN.test(val) || digits < 7 || digits > 15) {
+      return { error: 'Please enter a valid phone number.' }
+    }
+  }
+  if (field.type === 'url') {
+    let valid = false
+    try {
+      valid = ['http:', 'https:'].includes(new URL(val).protocol)
+    } catch {
+      valid = false
+    }
+    if (!valid) return { error: 'Please enter a valid URL.' }
+  }
+  if (rules.minLength !== undefined && val.length < rules.minLength) {
+    return { error: `Must be at least ${rules.minLength} characters.` }
+  }
+  if (rules.maxLength !== undefined && val.length > rules.maxLength) {
+    return { error: `Must be at most ${rules.maxLength} characters.` }
+  }
+  if (rules.pattern) {
+    if (rules.maxLength === undefined && val.length > DEFAULT_PATTERN_MAX_LENGTH) {
+      return { error: `Must be at most ${DEFAULT_PATTERN_MAX_LENGTH} characters.` }
+    }
+    let matches = false
+    try {
+      matches = new RegExp(`^(?:${rules.pattern})$`).test(val)
+    } catch {
+      matches = false
+    }
+    if (!matches) return { error: rules.patternMessage || 'Invalid format.' }
+  }
+  return { value: val }
+}
+
+/**
+ * Validate the files of a file field
+ */
+export function validateFieldFiles<F extends UploadedFileInfo>(
+  field: FormFieldDefinition,
+  files: F[]
+): { files: F[]; error?: string } {
+  const options = field.file || {}
+  const maxFiles = options.maxFiles && options.maxFiles > 0 ? options.maxFiles : 1
+  const maxSize = options.maxSize && options.maxSize > 0 ? options.maxSize : DEFAULT_FILE_MAX_SIZE
+
+  if (files.length === 0) return field.required ? { files, error: REQUIRED } : { files }
+  if (files.length > maxFiles) {
+    return { files, error: `Upload at most ${maxFiles} file${maxFiles === 1 ? '' : 's'}.` }
+  }
+  for (const file of files) {
+    if (file.size > maxSize) {
+      return { files, error: `${file.clientName} is larger than ${formatBytes(maxSize)}.` }
+    }
+    if (!fileMatchesAccept(file, options.accept)) {
+      return { files, error: `${file.clientName} is not an accepted file type.` }
+    }
+  }
+  return { files }
+}
+
+/**
+ * Validate a submission against a form: only visible fields are validated and stored.
+ * With `step`, only the visible fields of that step are checked (multi-step forms).
+ */
+export function validateSubmission<F extends UploadedFileInfo>(
+  form: FormConfig,
+  body: Record<string, unknown>,
+  uploads: Record<string, F[]> = {},
+  options: { step?: number } = {}
+): SubmissionValidation<F> {
+  const visible = visibleFieldSlugs(form, body)
+  let inScope: Set<string> | null = null
+  if (options.step !== undefined) {
+    const step = resolveSteps(form)[options.step]
+    inScope = new Set(step ? step.fields : [])
+  }
+
+  const result: SubmissionValidation<F> = { payload: {}, errors: {}, files: {} }
+  for (const field of form.fields) {
+    if (field.slug.startsWith('__')) continue // Skip internal fields
+    if (!visible.has(field.slug)) continue
+    if (inScope && !inScope.has(field.slug)) continue
+
+    if (field.type === 'file') {
+      const checked = validateFieldFiles(field, uploads[field.slug] || [])
+      if (checked.error) result.errors[field.slug] = checked.error
+      else if (checked.files.length > 0) result.files[field.slug] = checked.files
+      else result.payload[field.slug] = null
+      continue
+    }
+
+    const { value, error } = validateFieldValue(field, body[field.slug])
+    if (error) result.errors[field.slug] = error
+    else result.payload[field.slug] = value
+  }
+  return result
+}
@@ -0,0 +1,755 @@
+import {
+  GraphQLBoolean,
+  GraphQLFloat,
+  GraphQLID,
+  GraphQLInputObjectType,
+  GraphQLInt,
+  GraphQLInterfaceType,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLScalarType,
+  GraphQLSchema,
+  GraphQLString,
+  GraphQLUnionType,
+  GraphQLError,
+  Kind,
+  getNamedType,
+  getNullableType,
+  isInterfaceType,
+  isListType,
+  isObjectType,
+  valueFromASTUntyped,
+  type GraphQLFieldConfig,
+  type GraphQLFieldConfigMap,
+  type GraphQLNamedType,
+  type GraphQLOutputType,
+  type SelectionSetNode,
+  type ValidationContext,
+  type ValidationRule,
+} from 'graphql'
+import db from '@adonisjs/lucid/services/db'
+import cmsConfig from '#config/cms'
+import Post from '#models/post'
+import postTypeRegistry from '#services/post_type_registry'
+import moduleRegistry from '#services/module_registry'
+import contentDeliveryService, { type DeliveredPost } from '#services/content_delivery_service'
+import postRenderingService from '#services/post_rendering_service'
+import previewService from '#services/preview_service'
+import type { CustomFieldDefinition } from '#types/custom_field'
+
+/**
+ * Per-request GraphQL context
+ */
+export type GraphqlContext = {
+  protocol: string
+  host: string
+  /**
+   * Posts unlocked by a valid preview token in this request
+   */
+  previewPostIds: Set<string>
+  delivered: Map<string, Promise<DeliveredPost>>
+}
+
+type PreviewArg = { token: string; sig: string; exp: string } | null | undefined
+
+/**
+ * Layout-only field types that hold no value
+ */
+const LAYOUT_FIELD_TYPES = new Set(['tab', 'group'])
+
+const MAX_PAGE_SIZE = 100
+
+/**
+ * `hero_with_media` / `post-reference` -> `heroWithMedia` / `postReference`
+ */
+export function toGraphqlFieldName(slug: string): string {
+  const parts = String(slug || '')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+  const name = parts
+    .map((p, i) =>
+      i === 0 ? p.charAt(0).toLowerCase() + p.slice(1) : p.charAt(0).toUpperCase() + p.slice(1)
+    )
+    .join('')
+  if (!name) return '_'
+  return /^[0-9]/.test(name) ? `_${name}` : name
+}
+
+/**
+ * `hero_with_media` -> `HeroWithMedia`
+ */
+export function toGraphqlTypeName(slug: string): string {
+  const name = toGraphqlFieldName(slug)
+  return name.charAt(0).toUpperCase() + name.slice(1)
+}
+
+/**
+ * Assumed length of lists without a `limit` argument (modules, terms, translations, ...)
+ */
+const ESTIMATED_LIST_SIZE = 10
+
+export type QueryLimits = { maxDepth: number; maxComplexity: number }
+
+/**
+ * Depth and estimated cost of a selection set. Every field costs 1, and list fields
+ * multiply their own cost and that of their selections by `limit` (or an estimate).
+ * Introspection fields are free.
+ */
+function measureSelections(
+  context: ValidationContext,
+  selectionSet: SelectionSetNode | undefined,
+  parentType: GraphQLNamedType | null | undefined,
+  fragments: Set<string>
+): { depth: number; cost: number } {
+  let depth = 0
+  let cost = 0
+  for (const selection of selectionSet?.selections || []) {
+    let measured = { depth: 0, cost: 0 }
+    if (selection.kind === Kind.FIELD) {
+      if (selection.name.value.startsWith('__')) continue
+      const field =
+        isObjectType(parentType) || isInterfaceType(parentType)
+          ? parentType.getFields()[selection.name.value]
+          : undefined
+      const inner = measureSelections(
+        context,
+        selection.selectionSet,
+        field ? getNamedType(field.type) : null,
+        fragments
+      )
+      let multiplier = 1
+      if (field && isListType(getNullableType(field.type))) {
+        const limit = selection.arguments?.find((arg) => arg.name.value === 'limit')
+        const limitDefault = field.args.find((arg) => arg.name === 'limit')?.defaultValue
+        multiplier =
+          limit?.value.kind === Kind.INT
+            ? Math.min(MAX_PAGE_SIZE, Math.max(1, Number.parseInt(limit.value.value, 10)))
+            : limit
+              ? MAX_PAGE_SIZE
+              : typeof limitDefault === 'number'
+                ? limitDefault
+                : ESTIMATED_LIST_SIZE
+      }
+      measured = { depth: inner.depth + 1, cost: multiplier * (1 + inner.cost) }
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      const type = selection.typeCondition
+        ? context.getSchema().getType(selection.typeCondition.name.value)
+        : parentType
+      measured = measureSelections(context, selection.selectionSet, type, fragments)
+    } else {
+      const name = selection.name.value
+      const fragment = context.getFragment(name)
+      if (!fragment || fragments.has(name)) continue
+      measured = measureSelections(
+        context,
+        fragment.selectionSet,
+        context.getSchema().getType(fragment.typeCondition.name.value),
+        new Set([...fragments, name])
+      )
+    }
+    depth = Math.max(depth, measured.depth)
+    cost += measured.cost
+  }
+  return { depth, cost }
+}
+
+/**
+ * Validation rule rejecting operations nested deeper or estimated costlier than the limits
+ */
+export function queryLimitRule(limits: QueryLimits): ValidationRule {
+  return (context) => ({
+    OperationDefinition(node) {
+      const { depth, cost } = measureSelections(
+        context,
+        node.selectionSet,
+        context.getSchema().getRootType(node.operation),
+        new Set()
+      )
+      if (depth > limits.maxDepth) {
+        context.reportError(
+          new GraphQLError(`Query depth ${depth} exceeds the limit of ${limits.maxDepth}`, {
+            nodes: [node],
+          })
+        )
+      }
+      if (cost > limits.maxComplexity) {
+        context.reportError(
+          new GraphQLError(
+            `Query complexity ${cost} exceeds the limit of ${limits.maxComplexity}`,
+            { nodes: [node] }
+          )
+        )
+      }
+      return false
+    },
+  })
+}
+
+const JSONScalar = new GraphQLScalarType({
+  name: 'JSON',
+  description: 'Arbitrary JSON value',
+  serialize: (value) => value,
+  parseValue: (value) => value,
+  parseLiteral: (ast, variables) => valueFromASTUntyped(ast, variables),
+})
+
+/**
+ * GraphQL Schema Service
+ *
+ * Generates a read-only GraphQL schema from the code-first registries: every
+ * post type becomes an object type (with its custom fields) and every module a
+ * member of the `Module` union (with props typed from its fieldSchema). The
+ * schema is built on first use, so a module added with `make:module` or a new
+ * post type file shows up after the next restart without touching this file.
+ */
+class GraphqlSchemaService {
+  private schema: GraphQLSchema | null = null
+
+  getSchema(): GraphQLSchema {
+    if (!this.schema) this.schema = this.build()
+    return this.schema
+  }
+
+  /**
+   * Drop the cached schema (e.g. after registering types at runtime)
+   */
+  reset(): void {
+    this.schema = null
+  }
+
+  /**
+   * Validation rules applied to every query on top of the GraphQL spec rules
+   */
+  validationRules(): ValidationRule[] {
+    return [
+      queryLimitRule({
+        maxDepth: cmsConfig.graphql.maxDepth,
+        maxComplexity: cmsConfig.graphql.maxComplexity,
+      }),
+    ]
+  }
+
+  createContext(protocol: string, host: string): GraphqlContext {
+    return { protocol, host, previewPostIds: new Set(), delivered: new Map() }
+  }
+
+  build(): GraphQLSchema {
+    const mediaType = new GraphQLObjectType({
+      name: 'MediaAsset',
+      fields: {
+        id: { type: new GraphQLNonNull(GraphQLID) },
+        url: { type: GraphQLString },
+        mimeType: { type: GraphQLString },
+        altText: { type: GraphQLString },
+        caption: { type: GraphQLString },
+        description: { type: GraphQLString },
+        optimizedUrl: { type: GraphQLString },
+        metadata: { type: JSONScalar },
+      },
+    })
+
+    const termType = new GraphQLObjectType({
+      name: 'TaxonomyTerm',
+      fields: {
+        id: { type: new GraphQLNonNull(GraphQLID) },
+        taxonomy: { type: new GraphQLNonNull(GraphQLString) },
+        slug: { type: new GraphQLNonNull(GraphQLString) },
+        name: { type: new GraphQLNonNull(GraphQLString) },
+        parentId: { type: GraphQLID },
+      },
+    })
+
+    const menuItemType: GraphQLObjectType = new GraphQLObjectType({
+      name: 'MenuItem',
+      fields: () => ({
+        id: { type: new GraphQLNonNull(GraphQLID) },
+        label: { type: GraphQLString },
+        kind: { type: GraphQLString },
+        type: { type: GraphQLString },
+        postId: { type: GraphQLID },
+        customUrl: { type: GraphQLString },
+        anchor: { type: GraphQLString },
+        target: { type: GraphQLString },
+        rel: { type: GraphQLString },
+        children: {
+          type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(menuItemType))),
+          resolve: (item: any) => item.children || [],
+        },
+      }),
+    })
+
+    const menuType = new GraphQLObjectType({
+      name: 'Menu',
+      fields: {
+        id: { type: new GraphQLNonNull(GraphQLID) },
+        name: { type: GraphQLString },
+        slug: { type: new GraphQLNonNull(GraphQLString) },
+        locale: { type: GraphQLString },
+        template: { type: GraphQLString },
+        meta: { type: JSONScalar },
+        items: {
+          type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(menuItemType))),
+          resolve: (menu: any) => menu.tree || [],
+        },
+      },
+    })
+
+    const previewInput = new GraphQLInputObjectType({
+      name: 'PreviewInput',
+      description: 'Signed preview link parameters (token, sig, exp)',
+      fields: {
+        token: { type: new GraphQLNonNull(GraphQLString) },
+        sig: { type: new GraphQLNonNull(GraphQLString) },
+        exp: { type: new GraphQLNonNull(GraphQLString) },
+      },
+    })
+
+    const fieldTypes = new FieldTypeBuilder(mediaType)
+
+    // Modules: one union member per registered module
+    const moduleMembers = new Map<string, GraphQLObjectType>()
+    for (const config of moduleRegistry.getAllConfigs()) {
+      const typeName = `${toGraphqlTypeName(config.type)}Module`
+      const propsType = fieldTypes.objectFor(`${typeName}Props`, config.fieldSchema || [])
+      moduleMembers.set(
+        config.type,
+        new GraphQLObjectType({
+          name: typeName,
+          description: config.description,
+          fields: this.moduleFields(propsType),
+        })
+      )
+    }
+    const genericModule = new GraphQLObjectType({
+      name: 'GenericModule',
+      description: 'Module whose type is no longer registered',
+      fields: this.moduleFields(null),
+    })
+    const moduleUnion = new GraphQLUnionType({
+      name: 'Module',
+      types: [...moduleMembers.values(), genericModule],
+      resolveType: (m: any) => (moduleMembers.get(m.type) || genericModule).name,
+    })
+
+    const translationType = new GraphQLObjectType({
+      name: 'PostTranslation',
+      fields: {
+        id: { type: new GraphQLNonNull(GraphQLID) },
+        locale: { type: new GraphQLNonNull(GraphQLString) },
+        path: { type: GraphQLString },
+      },
+    })
+
+    // Post types: one object type per registered post type, sharing the Post interface
+    const postInterface: GraphQLInterfaceType = new GraphQLInterfaceType({
+      name: 'Post',
+      fields: () =>
+        this.postFields(postInterface, moduleUnion, termType, mediaType, translationType),
+      resolveType: (post: Post) => (postTypes.get(post.type) || genericPost).name,
+    })
+    const postTypes = new Map<string, GraphQLObjectType>()
+    for (const [slug, config] of postTypeRegistry.entries()) {
+      const typeName = `${toGraphqlTypeName(slug)}Post`
+      const fieldsType = fieldTypes.objectFor(`${typeName}Fields`, config.fields || [])
+      postTypes.set(
+        slug,
+        new GraphQLObjectType({
+          name: typeName,
+          description: config.description || config.label,
+          interfaces: [postInterface],
+          fields: () => ({
+            ...this.postFields(postInterface, moduleUnion, termType, mediaType, translationType),
+            ...(fieldsType
+              ? {
+                  fields: {
+                    type: fieldsType,
+                    resolve: async (post: Post, _args: unknown, ctx: GraphqlContext) => {
+                      const { customFields } = await this.delivered(post, ctx)
+                      return customFields
+                    },
+                  },
+                }
+              : {}),
+          }),
+        })
+      )
+    }
+    const genericPost = new GraphQLObjectType({
+      name: 'GenericPost',
+      description: 'Post whose type is no longer registered',
+      interfaces: [postInterface],
+      fields: () =>
+        this.postFields(postInterface, moduleUnion, termType, mediaType, translationType),
+    })
+
+    const pageArgs = {
+      locale: { type: GraphQLString },
+      limit: { type: GraphQLInt, defaultValue: 20 },
+      offset: { type: GraphQLInt, defaultValue: 0 },
+      term: { type: GraphQLString, description: 'Only posts assigned this taxonomy term slug' },
+    }
+    const singleArgs = {
+      id: { type: GraphQLID },
+      slug: { type: GraphQLString },
+      locale: { type: GraphQLString },
+      preview: { type: previewInput },
+    }
+
+    const queryFields: GraphQLFieldConfigMap<unknown, GraphqlContext> = {
+      post: {
+        type: postInterface,
+        args: { ...singleArgs, path: { type: GraphQLString } },
+        resolve: (_root, args, ctx) => this.findPost(args, ctx),
+      },
+      posts: {
+        type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(postInterface))),
+        args: { ...pageArgs, type: { type: GraphQLString } },
+        resolve: (_root, args) => this.listPosts(args),
+      },
+      menu: {
+        type: menuType,
+        args: {
+          slug: { type: new GraphQLNonNull(GraphQLString) },
+          locale: { type: GraphQLString, defaultValue: 'en' },
+        },
+        resolve: (_root, args) => contentDeliveryService.getMenu(args.slug, args.locale),
+      },
+      taxonomyTerms: {
+        type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(termType))),
+        args: { taxonomy: { type: new GraphQLNonNull(GraphQLString) } },
+        resolve: (_root, args) => this.listTerms(args.taxonomy),
+      },
+      mediaAsset: {
+        type: mediaType,
+        args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+        resolve: (_root, args) => loadMedia(String(args.id)),
+      },
+    }
+
+    for (const [slug, objectType] of postTypes) {
+      const fieldName = toGraphqlFieldName(slug)
+      queryFields[`${fieldName}Post`] = {
+        type: objectType,
+        args: singleArgs,
+        resolve: (_root, args, ctx) => this.findPost({ ...args, type: slug }, ctx),
+      }
+      queryFields[`${fieldName}Posts`] = {
+        type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(objectType))),
+        args: pageArgs,
+        resolve: (_root, args) => this.listPosts({ ...args, type: slug }),
+      }
+    }
+
+    return new GraphQLSchema({
+      query: new GraphQLObjectType({ name: 'Query', fields: queryFields }),
+      types: [...postTypes.values(), genericPost],
+    })
+  }
+
+  private moduleFields(
+    propsType: GraphQLObjectType | null
+  ): GraphQLFieldConfigMap<DeliveredPost['modules'][number], GraphqlContext> {
+    return {
+      id: { type: new GraphQLNonNull(GraphQLID) },
+      type: { type: new GraphQLNonNull(GraphQLString) },
+      scope: { type: GraphQLString },
+      globalSlug: { type: GraphQLString },
+      componentName: { type: GraphQLString },
+      renderingMode: { type: GraphQLString },
+      rawProps: { type: JSONScalar, resolve: (m) => m.props },
+      ...(propsType ? { props: { type: propsType, resolve: (m) => m.props } } : {}),
+    }
+  }
+
+  private postFields(
+    postInterface: GraphQLInterfaceType,
+    moduleUnion: GraphQLUnionType,
+    termType: GraphQLObjectType,
+    mediaType: GraphQLObjectType,
+    translationType: GraphQLObjectType
+  ): GraphQLFieldConfigMap<Post, GraphqlContext> {
+    const fromDelivered =
+      <K extends keyof DeliveredPost>(key: K) =>
+      async (post: Post, _args: unknown, ctx: GraphqlContext) => {
+        const delivered = await this.delivered(post, ctx)
+        return delivered[key]
+      }
+    const fromPost =
+      <K extends keyof DeliveredPost['post']>(key: K) =>
+      async (post: Post, _args: unknown, ctx: GraphqlContext) => {
+        const delivered = await this.delivered(post, ctx)
+        return delivered.post[key]
+      }
+
+    return {
+      id: { type: new GraphQLNonNull(GraphQLID) },
+      type: { type: new GraphQLNonNull(GraphQLString) },
+      locale: { type: new GraphQLNonNull(GraphQLString) },
+      slug: { type: new GraphQLNonNull(GraphQLString) },
+      status: { type: new GraphQLNonNull(GraphQLString) },
+      title: {
+        type: new GraphQLNonNull(GraphQLString),
+        resolve: fromPost('title'),
+      },
+      excerpt: {
+        type: GraphQLString,
+        resolve: fromPost('excerpt'),
+      },
+      path: {
+        type: GraphQLString,
+        resolve: fromPost('path'),
+      },
+      publishedAt: {
+        type: GraphQLString,
+        resolve: (post) => (post.publishedAt ? post.publishedAt.toISO() : null),
+      },
+      updatedAt: {
+        type: GraphQLString,
+        resolve: (post) => (post.updatedAt ? post.updatedAt.toISO() : null),
+      },
+      author: {
+        type: JSONScalar,
+        resolve: fromPost('author'),
+      },
+      featuredMedia: {
+        type: mediaType,
+        resolve: async (post, _args, ctx) => {
+          const id = await fromPost('featuredMediaId')(post, _args, ctx)
+          return id ? loadMedia(id) : null
+        },
+      },
+      modules: {
+        type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(moduleUnion))),
+        resolve: fromDelivered('modules'),
+      },
+      customFields: { type: JSONScalar, resolve: fromDelivered('customFields') },
+      terms: {
+        type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(termType))),
+        args: { taxonomy: { type: GraphQLString } },
+        resolve: async (post, args: { taxonomy?: string }, ctx) => {
+          const { taxonomies: grouped } = await this.delivered(post, ctx)
+          return Object.entries(grouped)
+            .filter(([taxonomy]) => !args.taxonomy || taxonomy === args.taxonomy)
+            .flatMap(([taxonomy, terms]) => terms.map((t) => ({ ...t, taxonomy })))
+        },
+      },
+      seo: { type: JSONScalar, resolve: fromDelivered('seo') },
+      breadcrumbTrail: { type: JSONScalar, resolve: fromDelivered('breadcrumbTrail') },
+      translations: {
+        type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(translationType))),
+        resolve: fromDelivered('translations'),
+      },
+      translation: {
+        type: postInterface,
+        args: { locale: { type: new GraphQLNonNull(GraphQLString) } },
+        resolve: async (post, args: { locale: string }, ctx) => {
+          const { translations } = await this.delivered(post, ctx)
+          const match = translations.find((t) => t.locale === args.locale)
+          return match ? contentDeliveryService.findPublishedById(match.id) : null
+        },
+      },
+    }
+  }
+
+  /**
+   * Render a post once per request, no matter how many fields ask for it
+   */
+  private delivered(post: Post, ctx: GraphqlContext): Promise<DeliveredPost> {
+    const key = post.id
+    let pending = ctx.delivered.get(key)
+    if (!pending) {
+      pending = contentDeliveryService.build(post, {
+        protocol: ctx.protocol,
+        host: ctx.host,
+        menus: [],
+        preview: ctx.previewPostIds.has(post.id),
+      })
+      ctx.delivered.set(key, pending)
+    }
+    return pending
+  }
+
+  private async findPost(
+    args: {
+      id?: string
+      slug?: string
+      path?: string
+      locale?: string
+      type?: string
+      preview?: PreviewArg
+    },
+    ctx: GraphqlContext
+  ): Promise<Post | null> {
+    if (args.preview) {
+      if (!args.id) throw new Error('id is required when previewing')
+      const valid = await previewService.validatePreviewToken(
+        String(args.id),
+        args.preview.token,
+        args.preview.sig,
+        args.preview.exp
+      )
+      if (!valid) throw new Error('Invalid or expired preview token')
+      const post = await Post.find(String(args.id))
+      if (!post || (args.type && post.type !== args.type)) return null
+      ctx.previewPostIds.add(post.id)
+      return post
+    }
+
+    let post: Post | null = null
+    if (args.id) {
+      post = await contentDeliveryService.findPublishedById(String(args.id))
+    } else if (args.path) {
+      post = await contentDeliveryService.findPublishedByPath(args.path)
+    } else if (args.slug) {
+      const query = Post.query()
+        .where('slug', args.slug)
+        .where('locale', args.locale || 'en')
+        .where('status', 'published')
+      if (args.type) query.where('type', args.type)
+      post = await query.first()
+    } else {
+      throw new Error('Provide id, slug or path')
+    }
+    if (!post || (args.type && post.type !== args.type)) return null
+
+    // Follow the translation family when a different locale is requested
+    if (args.locale && post.locale !== args.locale) {
+      const family = await post.getAllTranslations()
+      const translated = family.find((t) => t.locale === args.locale && t.status === 'published')
+      return translated || null
+    }
+    return post
+  }
+
+  private async listPosts(args: {
+    type?: string
+    locale?: string
+    limit: number
+    offset: number
+    term?: string
+  }): Promise<Post[]> {
+    const query = Post.query().where('status', 'published').orderBy('published_at', 'desc')
+    if (args.type) query.where('type', args.type)
+    if (args.locale) query.where('locale', args.locale)
+    if (args.term) {
+      query.whereIn(
+        'id',
+        db
+          .from('post_taxonomy_terms as ptt')
+          .join('taxonomy_terms as tt', 'tt.id', 'ptt.taxonomy_term_id')
+          .where('tt.slug', args.term)
+          .select('ptt.post_id')
+      )
+    }
+    return query
+      .limit(Math.min(MAX_PAGE_SIZE, Math.max(1, args.limit)))
+      .offset(Math.max(0, args.offset))
+  }
+
+  private async listTerms(taxonomySlug: string) {
+    const rows = await db
+      .from('taxonomy_terms as tt')
+      .join('taxonomies as t', 't.id', 'tt.taxonomy_id')
+      .where('t.slug', taxonomySlug)
+      .orderBy('tt.order_index', 'asc')
+      .select('tt.id', 'tt.slug', 'tt.name', 'tt.parent_id')
+    return rows.map((r: any) => ({
+      id: String(r.id),
+      taxonomy: taxonomySlug,
+      slug: r.slug,
+      name: r.name,
+      parentId: r.parent_id ?? null,
+    }))
+  }
+}
+
+async function loadMedia(id: string) {
+  const resolved = await postRenderingService.resolveMediaAssets([id])
+  return resolved.get(id.toLowerCase()) || null
+}
+
+/**
+ * Maps custom field definitions (post type `fields`, module `fieldSchema`) to GraphQL types
+ */
+class FieldTypeBuilder {
+  constructor(private mediaType: GraphQLObjectType) {}
+
+  /**
+   * Object type for a list of field definitions, or null when none carry a value
+   */
+  objectFor(name: string, definitions: CustomFieldDefinition[]): GraphQLObjectType | null {
+    const fields: GraphQLFieldConfigMap<any, GraphqlContext> = {}
+    for (const def of definitions) {
+      if (!def?.slug || LAYOUT_FIELD_TYPES.has(def.type)) continue
+      const fieldName = toGraphqlFieldName(def.slug)
+      // First definition wins when two slugs normalize to the same name
+      if (fields[fieldName]) continue
+      fields[fieldName] = this.fieldFor(`${name}${toGraphqlTypeName(def.slug)}`, def)
+    }
+    if (Object.keys(fields).length === 0) return null
+    return new GraphQLObjectType({ name, fields })
+  }
+
+  private fieldFor(
+    typeName: string,
+    def: CustomFieldDefinition
+  ): GraphQLFieldConfig<any, GraphqlContext> {
+    const read = (source: any) => source?.[def.slug]
+    const type = this.outputType(typeName, def)
+    if (type === this.mediaType) {
+      return { type, description: def.label, resolve: (source) => resolveMediaValue(read(source)) }
+    }
+    return { type, description: def.label, resolve: read }
+  }
+
+  private outputType(typeName: string, def: CustomFieldDefinition): GraphQLOutputType {
+    switch (def.type) {
+      case 'text':
+      case 'textarea':
+      case 'url':
+      case 'icon':
+      case 'date':
+      case 'select':
+        return GraphQLString
+      case 'number':
+      case 'slider':
+        return GraphQLFloat
+      case 'boolean':
+        return GraphQLBoolean
+      case 'multiselect':
+        return new GraphQLList(GraphQLString)
+      case 'media':
+      case 'file':
+        return this.mediaType
+      case 'object':
+        return this.objectFor(typeName, def.fields || []) || JSONScalar
+      case 'repeater': {
+        if (!def.item) return new GraphQLList(JSONScalar)
+        if (def.item.type === 'object') {
+          const itemType = this.objectFor(`${typeName}Item`, def.item.fields || [])
+          return new GraphQLList(itemType || JSONScalar)
+        }
+        const itemType = this.outputType(`${typeName}Item`, def.item)
+        if (itemType === this.mediaType) return new GraphQLList(JSONScalar)
+        return new GraphQLList(itemType)
+      }
+      default:
+        // richtext, link, post-reference, taxonomy, form-reference and custom field types
+        return JSONScalar
+    }
+  }
+}
+
+/**
+ * Media values are resolved asset objects in rendered modules and plain ids in custom fields
+ */
+async function resolveMediaValue(value: unknown) {
+  if (!value) return null
+  if (typeof value === 'object' && (value as any).url) return value
+  const id = typeof value === 'string' ? value : (value as any)?.id
+  return typeof id === 'string' ? loadMedia(id) : null
+}
+
+const graphqlSchemaService = new GraphqlSchemaService()
+export default graphqlSchemaService
@@ -0,0 +1,67 @@
+import type { JobDefinition } from '#types/job_types'
+import { parseCron } from '#helpers/cron'
+
+/**
+ * Central registry for scheduled job definitions
+ * Singleton service that provides runtime access to job configurations
+ */
+class JobRegistry {
+  private jobs = new Map<string, JobDefinition>()
+
+  /**
+   * Register a new job definition
+   */
+  register(definition: JobDefinition): void {
+    if (this.jobs.has(definition.id)) {
+      throw new Error(`Job with ID "${definition.id}" is already registered`)
+    }
+
+    // Validate the schedule up-front so a typo fails at boot, not at 3am
+    try {
+      parseCron(definition.schedule)
+    } catch (error) {
+      throw new Error(`Job "${definition.id}" has an invalid schedule: ${(error as Error).message}`)
+    }
+
+    definition.enabled = definition.enabled !== false
+    this.jobs.set(definition.id, definition)
+  }
+
+  /**
+   * Get a job by ID
+   */
+  get(id: string): JobDefinition | undefined {
+    return this.jobs.get(id)
+  }
+
+  /**
+   * Check if a job is registered
+   */
+  has(id: string): boolean {
+    return this.jobs.has(id)
+  }
+
+  /**
+   * List all registered jobs
+   */
+  list(): JobDefinition[] {
+    return Array.from(this.jobs.values())
+  }
+
+  /**
+   * List jobs that run on their schedule
+   */
+  listEnabled(): JobDefinition[] {
+    return this.list().filter((job) => job.enabled !== false)
+  }
+
+  /**
+   * Clear all registered jobs (for testing)
+   */
+  clear(): void {
+    this.jobs.clear()
+  }
+}
+
+const jobRegistry = new JobRegistry()
+export default jobRegistry
@@ -0,0 +1,317 @@
+import db from '@adonisjs/lucid/services/db'
+import { randomUUID } from 'node:crypto'
+import os from 'node:os'
+import cmsConfig from '#config/cms'
+import jobRegistry from '#services/job_registry'
+import { cronMatches, nextCronOccurrence } from '#helpers/cron'
+import type { JobDefinition, JobRun, JobTrigger } from '#types/job_types'
+
+type RunOptions = {
+  trigger: JobTrigger
+  userId?: number | null
+  scheduledFor?: Date | null
+}
+
+/**
+ * While a job runs, its lock is pushed forward this often (or twice per TTL for shorter
+ * locks), so a job that outlives the TTL is never started by a second worker
+ */
+const LOCK_HEARTBEAT_MS = 60_000
+
+export type JobSummary = {
+  id: string
+  name: string
+  description: string | null
+  schedule: string
+  enabled: boolean
+  perProcess: boolean
+  nextRunAt: string | null
+  running: boolean
+  lastRun: JobRun | null
+}
+
+function mapRun(row: any): JobRun {
+  const toIso = (v: any) => (v ? new Date(v).toISOString() : null)
+  return {
+    id: String(row.id),
+    jobId: String(row.job_id),
+    trigger: row.trigger,
+    status: row.status,
+    worker: row.worker ?? null,
+    triggeredBy: row.triggered_by ?? null,
+    startedAt: toIso(row.started_at)!,
+    finishedAt: toIso(row.finished_at),
+    durationMs: row.duration_ms ?? null,
+    result: row.result ?? null,
+    error: row.error ?? null,
+  }
+}
+
+/**
+ * Job Scheduler Service
+ *
+ * Ticks once per minute in every web process and runs the registered jobs whose
+ * cron schedule matches that minute. A row in `job_locks` is claimed per job and
+ * tick so that, in cluster mode, exactly one worker runs each job (unless the job
+ * is marked perProcess). Due jobs run side by side, and a slow job never delays the
+ * next tick. Every run is recorded in `job_runs`.
+ */
+class JobSchedulerService {
+  private timer: NodeJS.Timeout | null = null
+  private readonly workerId = `${os.hostname()}:${process.pid}`
+  /** Jobs currently running in this process */
+  private running = new Set<string>()
+
+  /**
+   * Start ticking on minute boundaries
+   */
+  start(): void {
+    if (this.timer) return
+    this.scheduleNextTick()
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = null
+  }
+
+  private scheduleNextTick(): void {
+    const now = Date.now()
+    // Fire slightly after the minute boundary so clocks that drift a little still agree
+    const delay = 60_000 - (now % 60_000) + 500
+    this.timer = setTimeout(() => {
+      // Schedule the next minute before running this one, so long jobs cannot skip it
+      this.scheduleNextTick()
+      this.tick(new Date()).catch((error) => console.error('[JobScheduler] Tick failed:', error))
+    }, delay)
+  }
+
+  /**
+   * Run every enabled job whose schedule matches the minute of `now`, concurrently.
+   * A job still running in this process from an earlier tick is skipped; across
+   * processes its lock does the same.
+   */
+  async tick(now: Date): Promise<void> {
+    const minute = new Date(now.getTime())
+    minute.setSeconds(0, 0)
+
+    const due = jobRegistry
+      .listEnabled()
+      .filter((job) => cronMatches(job.schedule, minute) && !this.running.has(job.id))
+    await Promise.all(
+      due.map(async (job) => {
+        try {
+          await this.execute(job, { trigger: 'schedule', scheduledFor: minute })
+        } catch (error) {
+          console.error(`[JobScheduler] Job "${job.id}" failed to start:`, error)
+        }
+      })
+    )
+  }
+
+  /**
+   * Run a job immediately ("run now"). Returns null when another worker holds the lock.
+   */
+  async runNow(jobId: string, userId: number | null): Promise<JobRun | null> {
+    const job = jobRegistry.get(jobId)
+    if (!job) {
+      throw new Error(`Job "${jobId}" not found`)
+    }
+    return this.execute(job, { trigger: 'manual', userId })
+  }
+
+  private async execute(job: JobDefinition, options: RunOptions): Promise<JobRun | null> {
+    const lockTtlMs = job.timeoutMs ?? Number(cmsConfig.scheduling.lockTtl) * 1000
+    if (!job.perProcess) {
+      const acquired = await this.acquireLock(job.id, lockTtlMs, options.scheduledFor ?? null)
+      if (!acquired) return null
+    }
+
+    this.running.add(job.id)
+    const heartbeat = job.perProcess
+      ? null
+      : setInterval(
+          () => {
+            this.extendLock(job.id, lockTtlMs).catch(() => {})
+          },
+          Math.min(LOCK_HEARTBEAT_MS, lockTtlMs / 2)
+        )
+
+    const startedAt = new Date()
+    const runId = randomUUID()
+    let status: 'succeeded' | 'failed' = 'succeeded'
+    let result: Record<string, any> | null = null
+    let errorMessage: string | null = null
+    try {
+      await db.table('job_runs').insert({
+        id: runId,
+        job_id: job.id,
+        trigger: options.trigger,
+        status: 'running',
+        worker: this.workerId,
+        triggered_by: options.userId ?? null,
+        scheduled_for: options.scheduledFor ?? null,
+        started_at: startedAt,
+      })
+
+      try {
+        result =
+          (await job.handler({
+            runId,
+            trigger: options.trigger,
+            userId: options.userId ?? null,
+            scheduledFor: options.scheduledFor ?? null,
+          })) || null
+      } catch (error) {
+        status = 'failed'
+        errorMessage = error instanceof Error ? error.stack || error.message : String(error)
+        console.error(`[JobScheduler] Job "${job.id}" failed:`, error)
+      }
+    } finally {
+      if (heartbeat) clearInterval(heartbeat)
+      this.running.delete(job.id)
+      if (!job.perProcess) {
+        await this.releaseLock(job.id).catch(() => {})
+      }
+    }
+
+    const finishedAt = new Date()
+    await db
+      .from('job_runs')
+      .where('id', runId)
+      .update({
+        status,
+        finished_at: finishedAt,
+        duration_ms: finishedAt.getTime() - startedAt.getTime(),
+        result: result ? JSON.stringify(result) : null,
+        error: errorMessage,
+      })
+    await this.pruneHistory(job.id).catch(() => {})
+
+    const row = await db.from('job_runs').where('id', runId).first()
+    return mapRun(row)
+  }
+
+  /**
+   * Claim the job's lock row. For scheduled runs the claim also records the tick, so a
+   * worker whose timer fires late cannot run the same minute twice.
+   */
+  private async acquireLock(jobId: string, ttlMs: number, tick: Date | null): Promise<boolean> {
+    const now = new Date()
+    const lockedUntil = new Date(now.getTime() + ttlMs)
+    const result = await db.rawQuery(
+      `INSERT INTO job_locks (job_id, locked_by, locked_until, last_tick_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT (job_id) DO UPDATE
+         SET locked_by = EXCLUDED.locked_by,
+             locked_until = EXCLUDED.locked_until,
+             last_tick_at = COALESCE(EXCLUDED.last_tick_at, job_locks.last_tick_at)
+       WHERE job_locks.locked_until < ?
+         AND (
+           EXCLUDED.last_tick_at IS NULL
+           OR job_locks.last_tick_at IS NULL
+           OR job_locks.last_tick_at < EXCLUDED.last_tick_at
+         )
+       RETURNING job_id`,
+      [jobId, this.workerId, lockedUntil, tick, now]
+    )
+    return (result?.rows || []).length > 0
+  }
+
+  /**
+   * Push the lock of a running job forward, as long as this worker still holds it
+   */
+  private async extendLock(jobId: string, ttlMs: number): Promise<void> {
+    await db
+      .from('job_locks')
+      .where('job_id', jobId)
+      .andWhere('locked_by', this.workerId)
+      .update({ locked_until: new Date(Date.now() + ttlMs) })
+  }
+
+  private async releaseLock(jobId: string): Promise<void> {
+    await db
+      .from('job_locks')
+      .where('job_id', jobId)
+      .andWhere('locked_by', this.workerId)
+      .update({ locked_until: new Date() })
+  }
+
+  private async pruneHistory(jobId: string): Promise<void> {
+    const limit = Number(cmsConfig.scheduling.historyLimit)
+    if (!(limit > 0)) return
+    const oldRows = await db
+      .from('job_runs')
+      .where('job_id', jobId)
+      .orderBy('started_at', 'desc')
+      .offset(limit)
+      .select('id')
+    if (oldRows.length > 0) {
+      await db
+        .from('job_runs')
+        .whereIn(
+          'id',
+          oldRows.map((r: any) => r.id)
+        )
+        .delete()
+    }
+  }
+
+  /**
+   * List registered jobs with their next run time and most recent run
+   */
+  async listJobs(): Promise<JobSummary[]> {
+    const jobs = jobRegistry.list()
+    if (jobs.length === 0) return []
+
+    const lastRuns = await db
+      .from('job_runs')
+      .distinctOn('job_id')
+      .whereIn(
+        'job_id',
+        jobs.map((j) => j.id)
+      )
+      .orderBy([
+        { column: 'job_id', order: 'asc' },
+        { column: 'started_at', order: 'desc' },
+      ])
+      .select('*')
+    const lastRunByJob = new Map<string, JobRun>()
+    for (const row of lastRuns) lastRunByJob.set(String(row.job_id), mapRun(row))
+
+    const now = new Date()
+    const activeLocks = await db.from('job_locks').where('locked_until', '>', now).select('job_id')
+    const lockedIds = new Set(activeLocks.map((r: any) => String(r.job_id)))
+
+    return jobs.map((job) => {
+      const next = job.enabled !== false ? nextCronOccurrence(job.schedule, now) : null
+      return {
+        id: job.id,
+        name: job.name,
+        description: job.description ?? null,
+        schedule: job.schedule,
+        enabled: job.enabled !== false,
+        perProcess: !!job.perProcess,
+        nextRunAt: next ? next.toISOString() : null,
+        running: lockedIds.has(job.id),
+        lastRun: lastRunByJob.get(job.id) ?? null,
+      }
+    })
+  }
+
+  /**
+   * Run history for a job (newest first)
+   */
+  async listRuns(jobId: string, limit = 50): Promise<JobRun[]> {
+    const rows = await db
+      .from('job_runs')
+      .where('job_id', jobId)
+      .orderBy('started_at', 'desc')
+      .limit(limit)
+      .select('*')
+    return rows.map(mapRun)
+  }
+}
+
+const jobSchedulerService = new JobSchedulerService()
+export default jobSchedulerService
@@ -2,10 +2,61 @@ import type { HttpContext } from '@adonisjs/core/http'
 import db from '@adonisjs/lucid/services/db'
 import i18nConfig from '#config/i18n'
 
+/**
+ * Per-locale settings stored on the locales table
+ */
+export type LocaleSettings = {
+  code: string
+  /** Ordered locale codes tried when content is missing in this locale */
+  fallbacks: string[]
+  /** Dedicated domain serving this locale (e.g. example.fr) */
+  hostname: string | null
+}
+
+/**
+ * How long locale settings are cached before being reloaded from the DB
+ */
+const SETTINGS_TTL_MS = 60_000
+
+/**
+ * Ordered list of locales to try for content in `locale`: the locale itself,
+ * its configured fallbacks (breadth-first, so a locale's own list wins over
+ * its fallbacks' lists), then the default locale. Cycles are ignored.
+ *
+ * Example: fr-ca -> [fr], fr -> [] gives ['fr-ca', 'fr', 'en']
+ */
+export function resolveFallbackChain(
+  locale: string,
+  fallbacks: Record<string, string[]>,
+  defaultLocale: string
+): string[] {
+  const chain: string[] = []
+  const queue = [locale.toLowerCase()]
+  while (queue.length > 0) {
+    const code = queue.shift()!
+    if (chain.includes(code)) continue
+    chain.push(code)
+    for (const next of fallbacks[code] || []) queue.push(next.toLowerCase())
+  }
+  const fallbackDefault = defaultLocale.toLowerCase()
+  if (!chain.includes(fallbackDefault)) chain.push(fallbackDefault)
+  return chain
+}
+
+/**
+ * Normalize a hostname for comparison (lowercase, no port, no trailing dot)
+ */
+export function normalizeHostname(hostname: string): string {
+  return hostname.trim().toLowerCase().replace(/:\d+$/, '').replace(/\.$/, '')
+}
+
 /**
  * LocaleService handles locale detection and management
  */
 export class LocaleService {
+  private settings = new Map<string, LocaleSettings>()
+  private settingsLoadedAt = 0
+
   private async hasLocalesTable(): Promise<boolean> {
     try {
       await db.from('locales').count('* as c').first()
@@ -62,6 +113,69 @@ export class LocaleService {
       .where('code', defaultLocale)
       .update({ is_default: true, is_enabled: true })
   }
+  /**
+   * Load fallback chains and hostnames from the locales table into memory.
+   * Cached for a minute; pass `force` after changing locale settings.
+   */
+  async loadSettings(force: boolean = false): Promise<void> {
+    if (!force && Date.now() - this.settingsLoadedAt < SETTINGS_TTL_MS) return
+    this.settingsLoadedAt = Date.now()
+    try {
+      if (!(await this.hasLocalesTable())) return
+      const rows = await db.from('locales').select('code', 'fallbacks', 'hostname')
+      const next = new Map<string, LocaleSettings>()
+      for (const row of rows) {
+        const code = String(row.code).toLowerCase()
+        const fallbacks = Array.isArray(row.fallbacks) ? row.fallbacks : []
+        next.set(code, {
+          code,
+          fallbacks: fallbacks.map((f: unknown) => String(f).toLowerCase()),
+          hostname: row.hostname ? normalizeHostname(String(row.hostname)) : null,
+        })
+      }
+      this.settings = next
+    } catch {
+      // Keep the previous settings (e.g. columns not migrated yet)
+    }
+  }
+
+  /**
+   * Cached settings for a locale (call loadSettings() first)
+   */
+  getLocaleSettings(locale: string): LocaleSettings {
+    const code = locale.toLowerCase()
+    return this.settings.get(code) || { code, fallbacks: [], hostname: null }
+  }
+
+  /**
+   * Ordered locales to try when content is missing in `locale`,
+   * starting with the locale itself and ending with the default locale
+   */
+  getFallbackChain(locale: string): string[] {
+    const fallbacks: Record<string, string[]> = {}
+    for (const [code, settings] of this.settings) fallbacks[code] = settings.fallbacks
+    return resolveFallbackChain(locale, fallbacks, this.getDefaultLocale())
+  }
+
+  /**
+   * Dedicated hostname for a locale, if one is configured
+   */
+  getHostnameForLocale(locale: string): string | null {
+    return this.settings.get(locale.toLowerCase())?.hostname ?? null
+  }
+
+  /**
+   * Locale served by a dedicated hostname, if any
+   */
+  getLocaleForHostname(hostname: string | null | undefined): string | null {
+    if (!hostname) return null
+    const host = normalizeHostname(hostname)
+    for (const settings of this.settings.values()) {
+      if (settings.hostname === host) return settings.code
+    }
+    return null
+  }
+
   /**
    * Get list of supported locales (sync, env-based)
    */
@@ -90,8 +204,17 @@ export class LocaleService {
   /**
    * Detect locale from HTTP context
    * Priority: URL prefix > Domain > Accept-Language header > Session > Default
+   *
+   * A hostname assigned to a locale on the locales table always wins, so
+   * country domains are not overridden by headers or the session.
    */
   async detectLocale(ctx: HttpContext): Promise<string> {
+    await this.loadSettings()
+    const hostLocale = this.getLocaleForHostname(ctx.request.hostname())
+    if (hostLocale && this.isLocaleSupported(hostLocale)) {
+      return hostLocale
+    }
+
     for (const strategy of i18nConfig.detectionStrategy) {
       let locale: string | null = null
 
@@ -120,7 +243,7 @@ export class LocaleService {
 
   /**
    * Detect locale from URL prefix
-   * Example: /es/blog/post -> 'es'
+   * Example: /es/blog/post -> 'es', /fr-ca/blog/post -> 'fr-ca'
    */
   private detectFromUrl(ctx: HttpContext): string | null {
     if (!i18nConfig.useUrlPrefix) {
@@ -128,9 +251,9 @@ export class LocaleService {
     }
 
     const path = ctx.request.url()
-    const match = path.match(/^\/([a-z]{2})(\/|$)/)
+    const match = path.match(/^\/([a-z]{2}(?:-[a-z]{2})?)(\/|$)/i)
 
-    return match ? match[1] : null
+    return match ? match[1].toLowerCase() : null
   }
 
   /**
@@ -166,17 +289,19 @@ export class LocaleService {
       .map((lang) => {
         const [locale, qRaw] = lang.trim().split(';q=')
         const q = qRaw ? Number.parseFloat(qRaw) : 1.0
-        // Extract just the language code (en-US -> en)
-        const code = locale.split('-')[0]
-        return { locale: code, q }
+        return { locale: locale.trim().toLowerCase(), q }
       })
       .sort((a, b) => b.q - a.q)
 
-    // Find first supported locale
+    // Find first supported locale, trying the region code before the language (fr-CA -> fr)
     for (const { locale } of languages) {
       if (this.isLocaleSupported(locale)) {
         return locale
       }
+      const code = locale.split('-')[0]
+      if (this.isLocaleSupported(code)) {
+        return code
+      }
     }
 
     return null
@@ -221,9 +346,9 @@ export class LocaleService {
    * Generate locale-specific URL
    */
   generateLocalizedUrl(path: string, locale: string): string {
-    // If using URL prefix and locale is not default
+    // If using URL prefix and locale is not default (or served on its own domain)
     const defaultLocale = this.getDefaultLocale()
-    if (i18nConfig.useUrlPrefix && locale !== defaultLocale) {
+    if (i18nConfig.useUrlPrefix && locale !== defaultLocale && !this.getHostnameForLocale(locale)) {
       // Remove leading slash if present
       const cleanPath = path.startsWith('/') ? path.slice(1) : path
       return `/${locale}/${cleanPath}`
@@ -240,10 +365,10 @@ export class LocaleService {
       return path
     }
 
-    const match = path.match(/^\/([a-z]{2})(\/|$)/)
+    const match = path.match(/^\/([a-z]{2}(?:-[a-z]{2})?)(\/|$)/i)
     // Best-effort strip; DB check not needed
     if (match) {
-      return path.slice(3) || '/'
+      return path.slice(match[1].length + 1) || '/'
     }
 
     return path
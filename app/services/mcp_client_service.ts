@@ -11,7 +11,7 @@ import SaveReviewDraft from '#actions/posts/save_review_draft'
 import PostSerializerService from '#services/post_serializer_service'
 import postTypeConfigService from '#services/post_type_config_service'
 import postTypeRegistry from '#services/post_type_registry'
-import formRegistry from '#services/form_registry'
+import formConfigService from '#services/form_config_service'
 import webhookService from '#services/webhook_service'
 import Post from '#models/post'
 import RevisionService from '#services/revision_service'
@@ -28,6 +28,7 @@ import storageService from '#services/storage_service'
 
 const execAsync = promisify(exec)
 import mediaService from '#services/media_service'
+import aiUsageService from '#services/ai_usage_service'
 
 /**
  * MCP Client Service
@@ -293,7 +294,8 @@ class MCPClientService {
           }
         })
 
-        const forms = formRegistry.list().map((f) => ({
+        const formConfigs = await formConfigService.list()
+        const forms = formConfigs.map((f) => ({
           slug: f.slug,
           name: f.title,
           description: f.description,
@@ -1520,6 +1522,13 @@ class MCPClientService {
           )
           imageUrl = result.imageUrl
           revisedPrompt = result.revisedPrompt
+          await aiUsageService.record({
+            agentId: aiUsageService.currentAttribution().agentId || agentId || null,
+            provider: providerMedia,
+            model: modelMedia,
+            kind: 'image',
+            units: 1,
+          })
         } catch (error: any) {
           console.error(`[generate_image] ${providerMedia} generation failed`, {
             error: error.message,
@@ -1757,6 +1766,13 @@ class MCPClientService {
             }
           )
           videoUrl = res.videoUrl
+          await aiUsageService.record({
+            agentId: aiUsageService.currentAttribution().agentId || agentId || null,
+            provider: providerVideo,
+            model: modelVideo,
+            kind: 'video',
+            units: 1,
+          })
         } catch (error: any) {
           console.error(`[generate_video] ${providerVideo} generation failed`, {
             error: error.message,
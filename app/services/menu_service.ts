@@ -1,4 +1,5 @@
 import db from '@adonisjs/lucid/services/db'
+import localeService from '#services/locale_service'
 
 export type MenuItem = {
   id: string
@@ -130,6 +131,48 @@ class MenuService {
     return roots
   }
 
+  /**
+   * First locale along the fallback chain (e.g. fr-ca -> fr -> en) that has items in this menu
+   */
+  private async resolveItemsLocale(menuId: string, locale: string): Promise<string> {
+    await localeService.loadSettings()
+    const chain = localeService.getFallbackChain(locale)
+    const rows = await db
+      .from('menu_items')
+      .where('menu_id', menuId)
+      .whereIn('locale', chain)
+      .distinct('locale')
+    const available = new Set(rows.map((r) => String(r.locale)))
+    return chain.find((code) => available.has(code)) || locale
+  }
+
+  /**
+   * Point post items borrowed from a fallback locale at their translation in
+   * `locale`, when one exists
+   */
+  private async linkTranslations(rows: any[], locale: string): Promise<void> {
+    const postIds = rows.filter((r) => r.type === 'post' && r.postId).map((r) => String(r.postId))
+    if (postIds.length === 0) return
+
+    const linked = await db.from('posts').whereIn('id', postIds).select('id', 'translation_of_id')
+    const rootOf = new Map(linked.map((p) => [String(p.id), String(p.translation_of_id || p.id)]))
+    const roots = Array.from(new Set(rootOf.values()))
+    const translations = await db
+      .from('posts')
+      .where('locale', locale)
+      .where((q) => q.whereIn('id', roots).orWhereIn('translation_of_id', roots))
+      .select('id', 'translation_of_id', 'status')
+    const byRoot = new Map(translations.map((t) => [String(t.translation_of_id || t.id), t]))
+
+    for (const row of rows) {
+      const translation = row.postId ? byRoot.get(rootOf.get(String(row.postId)) || '') : null
+      if (translation) {
+        row.postId = translation.id
+        row.postStatus = translation.status
+      }
+    }
+  }
+
   async getBySlug(
     slug: string,
     locale: string = 'en',
@@ -143,11 +186,14 @@ class MenuService {
       options.permissions?.includes('posts.edit') ||
       options.permissions?.includes('posts.publish')
 
+    // Locales without their own items borrow them from the fallback chain
+    const itemsLocale = await this.resolveItemsLocale(menu.id, locale)
+
     const rows = await db
       .from('menu_items')
       .leftJoin('posts', 'menu_items.post_id', 'posts.id')
       .where('menu_items.menu_id', menu.id)
-      .andWhere('menu_items.locale', locale)
+      .andWhere('menu_items.locale', itemsLocale)
       .orderBy('menu_items.order_index', 'asc')
       .select(
         'menu_items.id',
@@ -168,6 +214,10 @@ class MenuService {
         'posts.status as postStatus'
       )
 
+    if (itemsLocale !== locale) {
+      await this.linkTranslations(rows, locale)
+    }
+
     // Filter out items where the linked post is not published, unless authorized
     const filteredBaseRows = rows.filter((row) => {
       if (row.type === 'post' && row.postId) {
@@ -178,7 +228,7 @@ class MenuService {
       return true
     })
 
-    const expandedRows = await this.expandDynamicMenuItems(filteredBaseRows, locale, options)
+    const expandedRows = await this.expandDynamicMenuItems(filteredBaseRows, itemsLocale, options)
 
     // Resolve URLs for all post-type menu items
     const urlPatternService = (await import('#services/url_pattern_service')).default
@@ -3,6 +3,7 @@ import MediaAsset from '#models/media_asset'
 import Post from '#models/post'
 import PostModule from '#models/post_module'
 import urlPatternService from '#services/url_pattern_service'
+import localeService from '#services/locale_service'
 import siteSettingsService from '#services/site_settings_service'
 import moduleRegistry from '#services/module_registry'
 import tokenService from '#services/token_service'
@@ -207,6 +208,8 @@ class PostRenderingService {
       draftMode?: 'review' | 'ai-review' | 'auto'
       featuredMediaId?: string | null
       includeAdminMetadata?: boolean
+      /** Pick locale-keyed prop values for this locale, following its fallback chain */
+      locale?: string | null
     } = {}
   ): Promise<{
     modules: Array<{
@@ -236,6 +239,7 @@ class PostRenderingService {
       draftMode = 'review',
       featuredMediaId = null,
       includeAdminMetadata = false,
+      locale = null,
     } = options
 
     // Get removed module IDs from review draft
@@ -444,6 +448,7 @@ class PostRenderingService {
       const fieldSchema = module.getConfig().fieldSchema || []
       const propsWithPosts = injectResolvedFn(mergedProps)
       let finalProps = this.injectResolvedMedia(fieldSchema, propsWithPosts, resolvedMedia)
+      if (locale) finalProps = module.localizeFields(finalProps, locale)
 
       // Helper to apply Hero fallback to a prop set
       const applyHeroFallback = (props: any) => {
@@ -762,11 +767,7 @@ class PostRenderingService {
     if (post.type === 'company') {
       schemaType = 'LocalBusiness'
       // Load custom fields to populate schema
-      const fieldRows = await db
-        .from('post_custom_field_values')
-        .where('post_id', post.id)
-        .select('field_slug', 'value')
-      const fields = new Map(fieldRows.map((r) => [r.field_slug, r.value]))
+      const fields = new Map(Object.entries(await this.loadCustomFieldValues(post)))
 
       if (fields.has('address'))
         schemaExtras.address = { '@type': 'PostalAddress', 'streetAddress': fields.get('address') }
@@ -958,6 +959,42 @@ class PostRenderingService {
     }
   }
 
+  /**
+   * Custom field values keyed by slug. Fields a translation leaves empty are
+   * taken from its family along the locale's fallback chain (fr-ca -> fr -> en).
+   */
+  async loadCustomFieldValues(post: Post): Promise<Record<string, any>> {
+    const baseId = post.translationOfId || post.id
+    const chain = localeService.getFallbackChain(post.locale)
+    const family = await db
+      .from('posts')
+      .where((q) => q.where('id', baseId).orWhere('translation_of_id', baseId))
+      .whereIn('locale', chain)
+      .whereNot('id', post.id)
+      .select('id', 'locale')
+    const postIds = [post.id]
+    for (const code of chain.slice(1)) {
+      const member = family.find((p) => p.locale === code)
+      if (member) postIds.push(String(member.id))
+    }
+
+    const rows = await db
+      .from('post_custom_field_values')
+      .whereIn('post_id', postIds)
+      .select('post_id', 'field_slug', 'value')
+
+    const isEmpty = (v: unknown) =>
+      v === null || v === undefined || v === '' || (Array.isArray(v) && v.length === 0)
+    const values: Record<string, any> = {}
+    for (const id of postIds) {
+      for (const row of rows) {
+        if (String(row.post_id) !== id || !isEmpty(values[row.field_slug])) continue
+        values[row.field_slug] = row.value
+      }
+    }
+    return values
+  }
+
   /**
    * Build complete page render data
    */
@@ -980,14 +1017,8 @@ class PostRenderingService {
 
     // Load site settings and custom fields first for token resolution
     const siteSettings = await siteSettingsService.get()
-    const customFieldRows = await db
-      .from('post_custom_field_values')
-      .where('post_id', post.id)
-      .select('field_slug', 'value')
-    const customFields: Record<string, any> = {}
-    customFieldRows.forEach((row) => {
-      customFields[row.field_slug] = row.value
-    })
+    await localeService.loadSettings()
+    const customFields = await this.loadCustomFieldValues(post)
 
     // Pre-resolve media IDs in site settings if they exist
     const siteMediaIds = new Set<string>()
@@ -1093,6 +1124,7 @@ class PostRenderingService {
       draftMode: draftMode === 'auto' ? (reviewDraft ? 'review' : 'ai-review') : draftMode,
       featuredMediaId: postData.featuredMediaId,
       includeAdminMetadata: isAdminOrEditor,
+      locale: post.locale,
     })
 
     // Resolve recursive tokens in post data
@@ -49,6 +49,7 @@ export type CanonicalPost = {
     customFields?: Array<{ slug: string; value: any }>
     taxonomyTermIds?: string[]
     scheduledAt?: string | null
+    unpublishAt?: string | null
   }
   modules: CanonicalModule[]
   translations?: Array<{ id: string; locale: string }>
@@ -195,6 +196,7 @@ export default class PostSerializerService {
       nofollow: Boolean((post as any).nofollow),
       featuredMediaId: (post as any).featuredMediaId ?? (post as any).featured_media_id ?? null,
       scheduledAt: post.scheduledAt ? post.scheduledAt.toISO() : null,
+      unpublishAt: post.unpublishAt ? post.unpublishAt.toISO() : null,
     }
 
     if (mode === 'review') {
@@ -244,6 +246,9 @@ export default class PostSerializerService {
           ...(reviewDraft.scheduledAt !== undefined
             ? { scheduledAt: reviewDraft.scheduledAt }
             : {}),
+          ...(reviewDraft.unpublishAt !== undefined
+            ? { unpublishAt: reviewDraft.unpublishAt }
+            : {}),
         }
       }
     } else if (mode === 'ai-review') {
@@ -296,6 +301,9 @@ export default class PostSerializerService {
             ...(reviewDraft.scheduledAt !== undefined
               ? { scheduledAt: reviewDraft.scheduledAt }
               : {}),
+            ...(reviewDraft.unpublishAt !== undefined
+              ? { unpublishAt: reviewDraft.unpublishAt }
+              : {}),
           }
         }
         // Then merge ai_review_draft on top
@@ -346,6 +354,9 @@ export default class PostSerializerService {
           ...(aiReviewDraft.scheduledAt !== undefined
             ? { scheduledAt: aiReviewDraft.scheduledAt }
             : {}),
+          ...(aiReviewDraft.unpublishAt !== undefined
+            ? { unpublishAt: aiReviewDraft.unpublishAt }
+            : {}),
         }
       } else {
         // No ai_review_draft, fall back to review_draft if exists
@@ -394,6 +405,9 @@ export default class PostSerializerService {
             ...(reviewDraft.scheduledAt !== undefined
               ? { scheduledAt: reviewDraft.scheduledAt }
               : {}),
+            ...(reviewDraft.unpublishAt !== undefined
+              ? { unpublishAt: reviewDraft.unpublishAt }
+              : {}),
           }
         }
       }
@@ -8,6 +8,7 @@ import { TransactionClientContract } from '@adonisjs/lucid/types/database'
 import moduleRegistry from '#services/module_registry'
 import { markdownToLexical } from '#helpers/markdown_to_lexical'
 import { generateProfileTitleFromCustomFields } from '#helpers/post_helpers'
+import { coerceJsonObject } from '#helpers/jsonb'
 
 export type SnapshotApplyMode = 'source' | 'review' | 'ai-review'
 
@@ -40,6 +41,76 @@ export default class PostSnapshotService {
     }
   }
 
+  /**
+   * Merge agent suggestions (post fields and module props/overrides) into a snapshot.
+   * Modules are matched by postModuleId, moduleInstanceId, or type (+ orderIndex).
+   * Returns labels of what changed, e.g. ['post.title', 'Hero [0]'].
+   */
+  static mergeSuggestions(
+    snapshot: CanonicalPost,
+    suggestedPost: Record<string, any>,
+    suggestedModules: any[]
+  ): string[] {
+    const applied: string[] = []
+
+    for (const key of Object.keys(suggestedPost || {})) {
+      if (suggestedPost[key] !== undefined) {
+        ;(snapshot.post as any)[key] = suggestedPost[key]
+        applied.push(`post.${key}`)
+      }
+    }
+
+    for (const suggestedModule of suggestedModules || []) {
+      const matches = snapshot.modules.filter((m) => {
+        if (suggestedModule.postModuleId && m.postModuleId === suggestedModule.postModuleId)
+          return true
+        if (
+          suggestedModule.moduleInstanceId &&
+          m.moduleInstanceId === suggestedModule.moduleInstanceId
+        )
+          return true
+        if (suggestedModule.type && m.type === suggestedModule.type) {
+          if (suggestedModule.orderIndex !== undefined) {
+            return m.orderIndex === suggestedModule.orderIndex
+          }
+          return true
+        }
+        return false
+      })
+
+      for (const matchingModule of matches) {
+        const isGlobal = matchingModule.scope === 'global'
+        if (suggestedModule.props) {
+          if (isGlobal) {
+            matchingModule.overrides = {
+              ...coerceJsonObject(matchingModule.overrides),
+              ...suggestedModule.props,
+            }
+          } else {
+            matchingModule.props = {
+              ...coerceJsonObject(matchingModule.props),
+              ...suggestedModule.props,
+            }
+          }
+        }
+        if (suggestedModule.overrides) {
+          matchingModule.overrides = {
+            ...coerceJsonObject(matchingModule.overrides),
+            ...suggestedModule.overrides,
+          }
+        }
+        let label = matchingModule.type
+        try {
+          if (moduleRegistry.has(matchingModule.type))
+            label = moduleRegistry.getSchema(matchingModule.type).name
+        } catch {}
+        applied.push(`${label} [${matchingModule.orderIndex}]`)
+      }
+    }
+
+    return applied
+  }
+
   /**
    * Fully restore a post and all its versions from a composite revision snapshot.
    * This handles Source, Review, and AI Review versions at once, including
@@ -419,6 +490,7 @@ export default class PostSnapshotService {
         noindex: p.noindex ?? false,
         nofollow: p.nofollow ?? false,
         featuredMediaId: p.featuredMediaId ?? null,
+        unpublishAt: p.unpublishAt ?? null,
       },
       trx
     )
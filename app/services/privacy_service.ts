@@ -0,0 +1,409 @@
+import db from '@adonisjs/lucid/services/db'
+import { createHash, randomBytes } from 'node:crypto'
+import { isIP } from 'node:net'
+import cmsConfig from '#config/cms'
+import formUploadService, { isStoredUpload } from '#services/form_upload_service'
+
+export type ConsentMode = 'off' | 'required' | 'cookieless'
+export type IpMode = 'full' | 'truncate' | 'hash' | 'none'
+
+/**
+ * full: every event with a visitor hash; anonymous: page views without coordinates,
+ * metadata or visitor hash; none: nothing is recorded
+ */
+export type TrackingLevel = 'full' | 'anonymous' | 'none'
+
+export type TrackedEventRow = {
+  post_id: string | null
+  event_type: string
+  x: number | null
+  y: number | null
+  viewport_width: number | null
+  metadata: Record<string, any> | null
+  visitor_hash: string | null
+}
+
+export type DataSubjectQuery = {
+  email?: string | null
+  ip?: string | null
+  userAgent?: string | null
+}
+
+/**
+ * A file uploaded with one of the subject's form submissions
+ */
+export type DataSubjectUpload = {
+  submissionId: string
+  formSlug: string
+  field: string
+  name: string
+  size: number
+  type: string | null
+  key: string
+}
+
+export type DataSubjectRecords = {
+  formSubmissions: Array<Record<string, any>>
+  formUploads: DataSubjectUpload[]
+  /**
+   * Rendered form emails (notifications and autoresponders) still in the delivery queue
+   */
+  queuedEmails: Array<Record<string, any>>
+  analyticsEvents: Array<Record<string, any>>
+}
+
+export type DataSubjectErasure = {
+  formSubmissions: number
+  formUploads: number
+  queuedEmails: number
+  analyticsEvents: number
+}
+
+/** Events accepted per tracking request */
+export const MAX_TRACK_BATCH = 50
+
+const CONSENT_VALUES = ['granted', 'true', '1', 'yes']
+
+const BOT_PATTERN =
+  /bot\b|bot\/|crawl|spider|slurp|archiver|headless|lighthouse|pagespeed|facebookexternalhit|embedly|preview|monitor|uptime|curl\/|wget\/|python-requests|python-urllib|aiohttp|httpclient|okhttp|go-http-client|java\/|node-fetch|axios\/|phantomjs|selenium|puppeteer|playwright/i
+
+export class PrivacyException extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PrivacyException'
+  }
+}
+
+/**
+ * Crawlers, monitors and scripted clients; an empty user agent counts as a bot
+ */
+export function isBot(userAgent: string | null | undefined): boolean {
+  const ua = String(userAgent || '').trim()
+  return ua === '' || BOT_PATTERN.test(ua)
+}
+
+export function hasConsent(cookieValue: unknown): boolean {
+  return CONSENT_VALUES.includes(
+    String(cookieValue ?? '')
+      .trim()
+      .toLowerCase()
+  )
+}
+
+export function trackingLevel(mode: ConsentMode, consented: boolean): TrackingLevel {
+  if (mode === 'off' || consented) return 'full'
+  return mode === 'cookieless' ? 'anonymous' : 'none'
+}
+
+/**
+ * Zero the host part of an IP: the last octet of IPv4, everything after the /48 of IPv6
+ */
+export function anonymizeIp(ip: string | null | undefined): string | null {
+  if (!ip) return null
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)
+  const value = mapped ? mapped[1] : ip
+
+  const version = isIP(value)
+  if (version === 4) {
+    return [...value.split('.').slice(0, 3), '0'].join('.')
+  }
+  if (version === 6) {
+    const [head, tail] = value.split('::')
+    const headGroups = head ? head.split(':') : []
+    const tailGroups = tail ? tail.split(':') : []
+    const groups =
+      tail === undefined
+        ? headGroups
+        : [
+            ...headGroups,
+            ...Array.from({ length: 8 - headGroups.length - tailGroups.length }, () => '0'),
+            ...tailGroups,
+          ]
+    return `${groups
+      .slice(0, 3)
+      .map((g) => g.toLowerCase().replace(/^0+(?=.)/, ''))
+      .join(':')}::`
+  }
+  return null
+}
+
+export function hashValue(salt: string, ...parts: string[]): string {
+  return createHash('sha256')
+    .update([salt, ...parts].join('\n'))
+    .digest('hex')
+}
+
+/**
+ * Index of the salt rotation period a moment falls into
+ */
+export function saltPeriod(now: Date, rotationHours: number): number {
+  const hours = rotationHours > 0 ? rotationHours : 24
+  return Math.floor(now.getTime() / (hours * 60 * 60 * 1000))
+}
+
+/**
+ * Validate a tracking payload entry and strip it down to what the tracking level allows.
+ * Returns null when the event must not be recorded.
+ */
+export function sanitizeTrackedEvent(
+  event: any,
+  level: TrackingLevel,
+  visitorHash: string | null
+): TrackedEventRow | null {
+  if (level === 'none' || !event || typeof event !== 'object') return null
+  const eventType = typeof event.eventType === 'string' ? event.eventType.trim() : ''
+  if (!eventType || eventType.length > 50) return null
+
+  const postId = typeof event.postId === 'string' && event.postId ? event.postId : null
+  const metadata =
+    event.metadata && typeof event.metadata === 'object' && !Array.isArray(event.metadata)
+      ? event.metadata
+      : null
+
+  if (level === 'anonymous') {
+    if (eventType !== 'view') return null
+    const path = typeof metadata?.path === 'string' ? metadata.path.slice(0, 2048) : null
+    return {
+      post_id: postId,
+      event_type: 'view',
+      x: null,
+      y: null,
+      viewport_width: null,
+      metadata: path ? { path } : null,
+      visitor_hash: null,
+    }
+  }
+
+  const toNumber = (value: unknown) => {
+    if (value === null || value === undefined || value === '') return null
+    const n = Number(value)
+    return Number.isFinite(n) ? n : null
+  }
+  const viewportWidth = toNumber(event.viewportWidth)
+  return {
+    post_id: postId,
+    event_type: eventType,
+    x: toNumber(event.x),
+    y: toNumber(event.y),
+    viewport_width: viewportWidth === null ? null : Math.round(viewportWidth),
+    metadata,
+    visitor_hash: visitorHash,
+  }
+}
+
+/**
+ * Files referenced by form submission rows (`id`, `form_slug`, `payload`)
+ */
+export function submissionUploads(rows: Array<Record<string, any>>): DataSubjectUpload[] {
+  const uploads: DataSubjectUpload[] = []
+  for (const row of rows) {
+    const payload = typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload
+    if (!payload || typeof payload !== 'object') continue
+    for (const [field, value] of Object.entries(payload)) {
+      if (!Array.isArray(value)) continue
+      for (const upload of value.filter(isStoredUpload)) {
+        uploads.push({
+          submissionId: String(row.id),
+          formSlug: row.form_slug,
+          field,
+          name: upload.name,
+          size: upload.size,
+          type: upload.type,
+          key: upload.key,
+        })
+      }
+    }
+  }
+  return uploads
+}
+
+class PrivacyService {
+  private saltCache: { period: number; salt: string } | null = null
+
+  get consentMode(): ConsentMode {
+    return cmsConfig.privacy.consentMode as ConsentMode
+  }
+
+  /**
+   * Salt of the current rotation period, created on first use. Salts older than the
+   * previous period are deleted, so visitor and IP hashes become unlinkable after rotation.
+   */
+  async currentSalt(now: Date = new Date()): Promise<string> {
+    const period = saltPeriod(now, cmsConfig.privacy.saltRotationHours)
+    if (this.saltCache?.period === period) return this.saltCache.salt
+
+    await db.rawQuery(
+      `INSERT INTO privacy_salts (period, salt, created_at) VALUES (?, ?, ?)
+       ON CONFLICT (period) DO NOTHING`,
+      [period, randomBytes(32).toString('hex'), now]
+    )
+    const row = await db.from('privacy_salts').where('period', period).first()
+    await db
+      .from('privacy_salts')
+      .where('period', '<', period - 1)
+      .delete()
+
+    this.saltCache = { period, salt: row.salt }
+    return row.salt
+  }
+
+  /**
+   * Salts that can still link hashes to a visitor (current and previous period)
+   */
+  async activeSalts(): Promise<string[]> {
+    const rows = await db.from('privacy_salts').select('salt').orderBy('period', 'desc')
+    return rows.map((r: any) => r.salt)
+  }
+
+  async visitorHash(ip: string | null, userAgent: string | null): Promise<string | null> {
+    if (!ip) return null
+    return hashValue(await this.currentSalt(), ip, userAgent || '')
+  }
+
+  /**
+   * The IP as stored on form submissions, per CMS_PRIVACY_IP_MODE
+   */
+  async storedIp(ip: string | null | undefined): Promise<string | null> {
+    if (!ip) return null
+    const mode = cmsConfig.privacy.ipMode as IpMode
+    if (mode === 'full') return ip
+    if (mode === 'none') return null
+    if (mode === 'hash') return hashValue(await this.currentSalt(), ip)
+    return anonymizeIp(ip)
+  }
+
+  /**
+   * Form submissions (with their uploaded files and queued emails) and analytics events
+   * that belong to a visitor.
+   *
+   * Submissions match on an email value in the payload, or the visitor's IP as stored
+   * (full or hashed with a still-active salt). A truncated IP only matches together with
+   * the same user agent. Queued emails match on one of those submissions or on the email
+   * as recipient or reply-to. Analytics events need both IP and user agent and can only be
+   * found while the salt their visitor hash was made with is active.
+   */
+  async findSubjectData(subject: DataSubjectQuery): Promise<DataSubjectRecords> {
+    const salts = await this.activeSalts()
+    const formSubmissions = await this.submissionsQuery(subject, salts)
+      .select('id', 'form_slug', 'payload', 'ip_address', 'user_agent', 'created_at')
+      .orderBy('created_at', 'asc')
+    const queuedEmails = await this.emailsQuery(
+      subject,
+      formSubmissions.map((s: any) => String(s.id))
+    )
+      .select('id', 'event', 'status', 'payload', 'created_at', 'delivered_at')
+      .orderBy('created_at', 'asc')
+    const hashes = this.visitorHashes(subject, salts)
+    const analyticsEvents = hashes.length
+      ? await db
+          .from('analytics_events')
+          .whereIn('visitor_hash', hashes)
+          .select('id', 'post_id', 'event_type', 'x', 'y', 'viewport_width', 'metadata')
+          .select('created_at')
+          .orderBy('created_at', 'asc')
+      : []
+    return {
+      formSubmissions,
+      formUploads: submissionUploads(formSubmissions),
+      queuedEmails,
+      analyticsEvents,
+    }
+  }
+
+  /**
+   * Delete everything findSubjectData finds. Uploaded files are removed once the
+   * rows are gone.
+   */
+  async eraseSubjectData(subject: DataSubjectQuery): Promise<DataSubjectErasure> {
+    const salts = await this.activeSalts()
+    const hashes = this.visitorHashes(subject, salts)
+
+    const { erased, payloads } = await db.transaction(async (trx) => {
+      const submissions = await this.submissionsQuery(subject, salts, trx).select(
+        'id',
+        'form_slug',
+        'payload'
+      )
+      const ids = submissions.map((s: any) => String(s.id))
+      const emails = await this.emailsQuery(subject, ids, trx).delete()
+      if (ids.length) await trx.from('form_submissions').whereIn('id', ids).delete()
+      const events = hashes.length
+        ? await trx.from('analytics_events').whereIn('visitor_hash', hashes).delete()
+        : 0
+      const count = (deleted: unknown) =>
+        Array.isArray(deleted) ? deleted.length : Number(deleted) || 0
+      return {
+        erased: {
+          formSubmissions: ids.length,
+          formUploads: submissionUploads(submissions).length,
+          queuedEmails: count(emails),
+          analyticsEvents: count(events),
+        },
+        payloads: submissions.map((s: any) => s.payload),
+      }
+    })
+
+    await formUploadService.deleteForPayloads(payloads)
+    return erased
+  }
+
+  private submissionsQuery(subject: DataSubjectQuery, salts: string[], client: any = db) {
+    const email = subject.email?.trim().toLowerCase() || null
+    const ip = subject.ip?.trim() || null
+    if (!email && !ip) {
+      throw new PrivacyException('Provide an email address or an IP address')
+    }
+
+    return client.from('form_submissions').where((query: any) => {
+      if (email) {
+        query.orWhereRaw(
+          'EXISTS (SELECT 1 FROM jsonb_each_text(form_submissions.payload) kv WHERE lower(kv.value) = ?)',
+          [email]
+        )
+      }
+      if (ip) {
+        query.orWhereIn('ip_address', [ip, ...salts.map((salt) => hashValue(salt, ip))])
+        const truncated = anonymizeIp(ip)
+        if (truncated && subject.userAgent) {
+          query.orWhere((q: any) =>
+            q.where('ip_address', truncated).where('user_agent', subject.userAgent)
+          )
+        }
+      }
+    })
+  }
+
+  private emailsQuery(subject: DataSubjectQuery, submissionIds: string[], client: any = db) {
+    const email = subject.email?.trim().toLowerCase() || null
+
+    return client
+      .from('delivery_queue')
+      .where('kind', 'email')
+      .where((query: any) => {
+        // Never matches when there is nothing to match on
+        query.whereRaw('1 = 0')
+        if (submissionIds.length) {
+          query.orWhereRaw(
+            `payload->>'submissionId' IN (${submissionIds.map(() => '?').join(', ')})`,
+            submissionIds
+          )
+        }
+        if (email) {
+          query.orWhereRaw(`lower(payload->>'replyTo') = ?`, [email])
+          query.orWhereRaw(
+            `EXISTS (SELECT 1 FROM jsonb_array_elements_text(delivery_queue.payload->'to') t WHERE lower(t) = ?)`,
+            [email]
+          )
+        }
+      })
+  }
+
+  private visitorHashes(subject: DataSubjectQuery, salts: string[]): string[] {
+    const ip = subject.ip?.trim()
+    if (!ip || !subject.userAgent) return []
+    return salts.map((salt) => hashValue(salt, ip, subject.userAgent || ''))
+  }
+}
+
+const privacyService = new PrivacyService()
+export default privacyService
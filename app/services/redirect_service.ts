@@ -0,0 +1,475 @@
+import db from '@adonisjs/lucid/services/db'
+import { adminPath } from '#services/admin_path_service'
+import { hasAmbiguousRepeat } from '#helpers/regex_safety'
+
+export const REDIRECT_MATCH_TYPES = ['exact', 'wildcard', 'regex'] as const
+export type RedirectMatchType = (typeof REDIRECT_MATCH_TYPES)[number]
+
+/** `preserve` passes the visitor's query string on; `drop` redirects to the target as-is */
+export const REDIRECT_QUERY_STRING_MODES = ['preserve', 'drop'] as const
+export type RedirectQueryStringMode = (typeof REDIRECT_QUERY_STRING_MODES)[number]
+
+/** 410 Gone answers without a target */
+export const REDIRECT_STATUSES = [301, 302, 307, 308, 410] as const
+
+/** Redirects followed when checking a rule for chains and loops */
+export const MAX_REDIRECT_HOPS = 10
+
+/** `*` allowed in one wildcard rule */
+export const MAX_REDIRECT_WILDCARDS = 5
+
+/** Longer request paths are only checked against exact rules */
+export const MAX_REDIRECT_MATCH_PATH_LENGTH = 2048
+
+export type RedirectRule = {
+  id: string | null
+  fromPath: string
+  toPath: string | null
+  httpStatus: number
+  matchType: RedirectMatchType
+  queryString: RedirectQueryStringMode
+  locale: string | null
+  /** Epoch milliseconds; null means no limit */
+  activeFrom?: number | null
+  activeTo?: number | null
+}
+
+export type CompiledRedirect = RedirectRule & {
+  /** Captures when the path matches, else null; null for exact rules */
+  match: ((path: string) => Array<string | undefined> | null) | null
+}
+
+/**
+ * Rules ready for matching: exact rules by path, then patterns in match order
+ */
+export type RedirectTable = {
+  exact: Map<string, CompiledRedirect>
+  patterns: CompiledRedirect[]
+}
+
+export type RedirectMatch = {
+  rule: CompiledRedirect
+  /** Where to send the visitor; null for 410 Gone */
+  location: string | null
+}
+
+export type RedirectMatchOptions = {
+  /** Query string of the request, without `?` */
+  query?: string
+  /** Skips rules outside their active window; omitted to ignore the windows */
+  now?: number
+  /** Paths (and their subpaths) that wildcard and regex rules never apply to */
+  protectedPaths?: string[]
+}
+
+export class RedirectException extends Error {
+  constructor(
+    message: string,
+    public status: number = 400
+  ) {
+    super(message)
+    this.name = 'RedirectException'
+  }
+}
+
+/**
+ * `/blog/*` matches `/blog/` and everything below it; each `*` captures what it
+ * covers, as much as it can. Matched without a regular expression: several `.*`
+ * in a row backtrack polynomially on long paths that do not match.
+ */
+export function matchWildcard(fromPath: string, path: string): string[] | null {
+  const parts = fromPath.split('*')
+  const first = parts[0]
+  const last = parts[parts.length - 1]
+  if (parts.length === 1) return path === first ? [] : null
+  if (path.length < first.length + last.length) return null
+  if (!path.startsWith(first) || !path.endsWith(last)) return null
+
+  // Place the text between stars from the right, each part as far right as it fits
+  const starts: number[] = []
+  starts[parts.length - 1] = path.length - last.length
+  for (let i = parts.length - 2; i >= 1; i--) {
+    const from = starts[i + 1] - parts[i].length
+    const start = from < first.length ? -1 : path.lastIndexOf(parts[i], from)
+    if (start < first.length) return null
+    starts[i] = start
+  }
+
+  const captures: string[] = []
+  let cursor = first.length
+  for (let i = 1; i < parts.length; i++) {
+    captures.push(path.slice(cursor, starts[i]))
+    cursor = starts[i] + parts[i].length
+  }
+  return captures
+}
+
+/**
+ * Compile a rule. Regex rules must match the whole path.
+ */
+export function compileRedirect(rule: RedirectRule): CompiledRedirect {
+  if (rule.matchType === 'exact') return { ...rule, match: null }
+  if (rule.matchType === 'wildcard') {
+    if (rule.fromPath.split('*').length - 1 > MAX_REDIRECT_WILDCARDS) {
+      throw new RedirectException(`Wildcard rules are limited to ${MAX_REDIRECT_WILDCARDS} "*"`)
+    }
+    return { ...rule, match: (path) => matchWildcard(rule.fromPath, path) }
+  }
+  // Matching runs on every request, so a catastrophic pattern would block the server
+  if (hasAmbiguousRepeat(rule.fromPath)) {
+    throw new RedirectException(
+      'Regular expression repeats a group that already repeats or has alternatives (like "(a+)+" or "(a|b)+"), which can be very slow to match'
+    )
+  }
+  try {
+    const pattern = new RegExp(`^(?:${rule.fromPath})$`)
+    return {
+      ...rule,
+      match: (path) => {
+        const match = pattern.exec(path)
+        return match ? match.slice(1) : null
+      },
+    }
+  } catch (error) {
+    throw new RedirectException(`Invalid regular expression: ${(error as Error).message}`)
+  }
+}
+
+/**
+ * Build the match table. Wildcards come first, the most specific (longest) first,
+ * then regular expressions in the given order. Rules that do not compile are skipped.
+ */
+export function buildRedirectTable(rules: RedirectRule[]): RedirectTable {
+  const exact = new Map<string, CompiledRedirect>()
+  const wildcards: CompiledRedirect[] = []
+  const regexes: CompiledRedirect[] = []
+  for (const rule of rules) {
+    let compiled: CompiledRedirect
+    try {
+      compiled = compileRedirect(rule)
+    } catch (error) {
+      console.warn(`Skipping redirect "${rule.fromPath}": ${(error as Error).message}`)
+      continue
+    }
+    if (rule.matchType === 'exact') {
+      if (!exact.has(rule.fromPath)) exact.set(rule.fromPath, compiled)
+    } else if (rule.matchType === 'wildcard') {
+      wildcards.push(compiled)
+    } else {
+      regexes.push(compiled)
+    }
+  }
+  wildcards.sort(
+    (a, b) => b.fromPath.replace(/\*/g, '').length - a.fromPath.replace(/\*/g, '').length
+  )
+  return { exact, patterns: [...wildcards, ...regexes] }
+}
+
+/**
+ * Replace `$1`…`$9` with capture groups; missing groups are empty
+ */
+export function substituteCaptures(target: string, captures: Array<string | undefined>): string {
+  const location = target.replace(/\$(\d)/g, (_, n: string) => captures[Number(n) - 1] ?? '')
+  // A capture must not turn a local target into a protocol-relative URL (//other.example)
+  return location.startsWith('/') ? location.replace(/^\/[/\\]+/, '/') : location
+}
+
+/**
+ * Pass the request's query string on to the target. Parameters of the target win.
+ */
+export function applyQueryString(
+  location: string,
+  query: string | undefined,
+  mode: RedirectQueryStringMode
+): string {
+  if (mode !== 'preserve' || !query) return location
+  const hashIndex = location.indexOf('#')
+  const hash = hashIndex === -1 ? '' : location.slice(hashIndex)
+  const [base, own = ''] = (hashIndex === -1 ? location : location.slice(0, hashIndex)).split('?')
+
+  const params = new URLSearchParams(own)
+  const ownKeys = new Set(params.keys())
+  for (const [key, value] of new URLSearchParams(query)) {
+    if (!ownKeys.has(key)) params.append(key, value)
+  }
+  const search = params.toString()
+  return `${base}${search ? `?${search}` : ''}${hash}`
+}
+
+function isActive(rule: RedirectRule, now: number | undefined): boolean {
+  if (now === undefined) return true
+  if (rule.activeFrom && now < rule.activeFrom) return false
+  if (rule.activeTo && now > rule.activeTo) return false
+  return true
+}
+
+function isProtected(path: string, protectedPaths: string[] = []): boolean {
+  return protectedPaths.some((p) => path === p || path.startsWith(`${p}/`))
+}
+
+/**
+ * The redirect for a request path: an exact rule, else the first matching pattern
+ */
+export function matchRedirect(
+  table: RedirectTable,
+  path: string,
+  options: RedirectMatchOptions = {}
+): RedirectMatch | null {
+  const resolve = (rule: CompiledRedirect, captures: Array<string | undefined>) => ({
+    rule,
+    location:
+      rule.httpStatus === 410 || !rule.toPath
+        ? null
+        : applyQueryString(
+            substituteCaptures(rule.toPath, captures),
+            options.query,
+            rule.queryString
+          ),
+  })
+
+  const exact = table.exact.get(path)
+  if (exact && isActive(exact, options.now)) return resolve(exact, [])
+  if (isProtected(path, options.protectedPaths)) return null
+  if (path.length > MAX_REDIRECT_MATCH_PATH_LENGTH) return null
+
+  for (const rule of table.patterns) {
+    if (!isActive(rule, options.now)) continue
+    const captures = rule.match!(path)
+    if (captures) return resolve(rule, captures)
+  }
+  return null
+}
+
+/**
+ * Path of a local target without query and hash; null for other sites
+ */
+function localPath(location: string): string | null {
+  if (!location.startsWith('/') || location.startsWith('//')) return null
+  return location.split(/[?#]/)[0]
+}
+
+export type RedirectIssues = {
+  /** Paths the rule's target redirects through, in order */
+  chain: string[]
+  loop: boolean
+  /** Sources of rules whose target this rule now redirects again */
+  redirectedFrom: string[]
+}
+
+/**
+ * Follow a rule's target through the other rules. Targets with captures are
+ * followed with empty captures.
+ */
+export function findRedirectIssues(rules: RedirectRule[], rule: RedirectRule): RedirectIssues {
+  const others = rules.filter((r) => r.id !== rule.id)
+  const table = buildRedirectTable([rule, ...others])
+  const issues: RedirectIssues = { chain: [], loop: false, redirectedFrom: [] }
+
+  const own = buildRedirectTable([rule])
+  for (const other of others) {
+    const target = other.toPath ? localPath(substituteCaptures(other.toPath, [])) : null
+    if (target && matchRedirect(own, target)) issues.redirectedFrom.push(other.fromPath)
+  }
+
+  if (rule.httpStatus === 410 || !rule.toPath) return issues
+  // Sources are unique, so the source identifies the rule in the table
+  const isRule = (match: RedirectMatch) =>
+    match.rule.fromPath === rule.fromPath && match.rule.matchType === rule.matchType
+
+  let path = localPath(substituteCaptures(rule.toPath, []))
+  const visited = new Set<string>()
+  while (path !== null && issues.chain.length < MAX_REDIRECT_HOPS) {
+    const match = matchRedirect(table, path)
+    if (!match) break
+    if (isRule(match) || visited.has(path)) {
+      issues.loop = true
+      break
+    }
+    visited.add(path)
+    issues.chain.push(path)
+    path = match.location === null ? null : localPath(match.location)
+  }
+  return issues
+}
+
+/**
+ * Validate rule settings from a request
+ */
+export function normalizeRedirectInput(
+  input: Record<string, unknown>
+): Omit<RedirectRule, 'id' | 'activeFrom' | 'activeTo'> {
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '')
+
+  const matchType = (text(input.matchType) || 'exact') as RedirectMatchType
+  if (!REDIRECT_MATCH_TYPES.includes(matchType)) {
+    throw new RedirectException(`Unknown match type "${matchType}"`)
+  }
+  const queryString = (text(input.queryString) || 'preserve') as RedirectQueryStringMode
+  if (!REDIRECT_QUERY_STRING_MODES.includes(queryString)) {
+    throw new RedirectException(`Unknown query string option "${queryString}"`)
+  }
+  const httpStatus = Number(input.httpStatus ?? 301)
+  if (!(REDIRECT_STATUSES as readonly number[]).includes(httpStatus)) {
+    throw new RedirectException(`HTTP status must be one of ${REDIRECT_STATUSES.join(', ')}`)
+  }
+
+  const fromPath = text(input.fromPath)
+  if (!fromPath) throw new RedirectException('fromPath is required')
+  if (matchType !== 'regex' && !fromPath.startsWith('/')) {
+    throw new RedirectException('fromPath must start with "/"')
+  }
+  if (matchType === 'wildcard' && !fromPath.includes('*')) {
+    throw new RedirectException('Wildcard rules need a "*" in fromPath')
+  }
+
+  const toPath = httpStatus === 410 ? null : text(input.toPath)
+  if (toPath === '') throw new RedirectException('toPath is required')
+  if (toPath !== null && !/^(\/|https?:\/\/)/i.test(toPath)) {
+    throw new RedirectException('toPath must start with "/" or "http(s)://"')
+  }
+  for (const value of [fromPath, toPath]) {
+    if (value && value.length > 500)
+      throw new RedirectException('Paths are limited to 500 characters')
+  }
+
+  const rule = {
+    fromPath,
+    toPath,
+    httpStatus,
+    matchType,
+    queryString,
+    locale: text(input.locale) || null,
+  }
+  // Throws for invalid regular expressions
+  compileRedirect({ ...rule, id: null })
+  return rule
+}
+
+function fromRow(row: any): RedirectRule {
+  const time = (value: any) => (value ? new Date(value).getTime() : null)
+  return {
+    id: String(row.id),
+    fromPath: String(row.from_path),
+    toPath: row.to_path ?? null,
+    httpStatus: Number(row.http_status),
+    matchType: REDIRECT_MATCH_TYPES.includes(row.match_type) ? row.match_type : 'exact',
+    queryString: row.query_string === 'drop' ? 'drop' : 'preserve',
+    locale: row.locale ?? null,
+    activeFrom: time(row.active_from),
+    activeTo: time(row.active_to),
+  }
+}
+
+/**
+ * Redirect Service
+ *
+ * Matches requests against a compiled rule table held in memory. The table is
+ * reloaded every few seconds, and right away after changes in this process.
+ * Hits are counted in memory and written in batches.
+ */
+class RedirectService {
+  private table: RedirectTable | null = null
+  private loading: Promise<RedirectTable> | null = null
+  private lastLoadedAt = 0
+  private ttlMs = 10000
+
+  private hits = new Map<string, { count: number; lastHitAt: Date }>()
+  private flushTimer: NodeJS.Timeout | null = null
+  private flushDelayMs = 10000
+
+  async match(path: string, query?: string): Promise<RedirectMatch | null> {
+    const table = await this.getTable()
+    return matchRedirect(table, path, {
+      query,
+      now: Date.now(),
+      protectedPaths: ['/api', adminPath()],
+    })
+  }
+
+  recordHit(id: string) {
+    const entry = this.hits.get(id)
+    if (entry) {
+      entry.count++
+      entry.lastHitAt = new Date()
+    } else {
+      this.hits.set(id, { count: 1, lastHitAt: new Date() })
+    }
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null
+        this.flushHits().catch((error) => console.error('Failed to record redirect hits:', error))
+      }, this.flushDelayMs)
+      this.flushTimer.unref()
+    }
+  }
+
+  async flushHits(): Promise<void> {
+    const pending = this.hits
+    this.hits = new Map()
+    for (const [id, { count, lastHitAt }] of pending) {
+      await db
+        .from('url_redirects')
+        .where('id', id)
+        .update({
+          hit_count: db.raw('hit_count + ?', [count]),
+          last_hit_at: db.raw('GREATEST(COALESCE(last_hit_at, ?), ?)', [lastHitAt, lastHitAt]),
+        })
+    }
+  }
+
+  /**
+   * Check a rule before saving it. Loops and duplicate sources are rejected;
+   * chains are returned as warnings.
+   */
+  async check(rule: RedirectRule): Promise<string[]> {
+    const rows = await db.from('url_redirects').orderBy('created_at', 'asc')
+    const rules = rows.map(fromRow)
+    if (rules.some((r) => r.fromPath === rule.fromPath && r.id !== rule.id)) {
+      throw new RedirectException(`A redirect from "${rule.fromPath}" already exists`, 409)
+    }
+
+    const issues = findRedirectIssues(rules, rule)
+    if (issues.loop) {
+      const path = [rule.fromPath, ...issues.chain].join(' → ')
+      throw new RedirectException(`This redirect would create a loop (${path} → …)`, 409)
+    }
+
+    const warnings: string[] = []
+    if (issues.chain.length > 0) {
+      warnings.push(
+        `${rule.toPath} redirects again (${issues.chain.join(' → ')}); consider pointing to the final URL`
+      )
+    }
+    for (const from of issues.redirectedFrom) {
+      warnings.push(`The redirect from ${from} now leads through this one`)
+    }
+    return warnings
+  }
+
+  clearCache() {
+    this.table = null
+    this.lastLoadedAt = 0
+  }
+
+  private async getTable(): Promise<RedirectTable> {
+    if (this.table && Date.now() - this.lastLoadedAt < this.ttlMs) return this.table
+    // Concurrent requests share one reload
+    if (!this.loading) {
+      this.loading = this.load().finally(() => {
+        this.loading = null
+      })
+    }
+    return this.loading
+  }
+
+  private async load(): Promise<RedirectTable> {
+    const rows = await db.from('url_redirects').orderBy('created_at', 'asc')
+    this.table = buildRedirectTable(rows.map(fromRow))
+    this.lastLoadedAt = Date.now()
+    return this.table
+  }
+}
+
+const redirectService = new RedirectService()
+export default redirectService
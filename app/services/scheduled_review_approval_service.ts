@@ -0,0 +1,174 @@
+import db from '@adonisjs/lucid/services/db'
+
+export type ScheduledReviewApprovalStatus =
+  | 'pending'
+  | 'applying'
+  | 'applied'
+  | 'cancelled'
+  | 'failed'
+
+export type ScheduledReviewApproval = {
+  id: string
+  postId: string
+  scheduledFor: string
+  status: ScheduledReviewApprovalStatus
+  createdBy: number | null
+  cancelledBy: number | null
+  cancelReason: string | null
+  appliedAt: string | null
+  error: string | null
+  createdAt: string
+}
+
+/**
+ * Seconds a claimed approval may stay `applying`; a runner that dies mid-apply
+ * releases it to the next run once this passes
+ */
+export const APPLYING_TIMEOUT_SECONDS = 300
+
+function mapRow(row: any): ScheduledReviewApproval {
+  const toIso = (v: any) => (v ? new Date(v).toISOString() : null)
+  return {
+    id: String(row.id),
+    postId: String(row.post_id),
+    scheduledFor: toIso(row.scheduled_for)!,
+    status: row.status,
+    createdBy: row.created_by ?? null,
+    cancelledBy: row.cancelled_by ?? null,
+    cancelReason: row.cancel_reason ?? null,
+    appliedAt: toIso(row.applied_at),
+    error: row.error ?? null,
+    createdAt: toIso(row.created_at)!,
+  }
+}
+
+/**
+ * Scheduled Review Approval Service
+ *
+ * Tracks requests to promote a post's Review draft to Source at a future time.
+ * The `apply-scheduled-review-approvals` job claims due rows and runs them through
+ * ApproveReviewDraft, the same path as a manual approval.
+ */
+class ScheduledReviewApprovalService {
+  /**
+   * Schedule approval of the post's review draft. Replaces any pending schedule.
+   */
+  async schedule(
+    postId: string,
+    scheduledFor: Date,
+    userId: number | null
+  ): Promise<ScheduledReviewApproval> {
+    const now = new Date()
+    const row = await db.transaction(async (trx) => {
+      await trx
+        .from('scheduled_review_approvals')
+        .where('post_id', postId)
+        .andWhere('status', 'pending')
+        .update({
+          status: 'cancelled',
+          cancelled_by: userId,
+          cancel_reason: 'rescheduled',
+          updated_at: now,
+        })
+      const [inserted] = await trx
+        .table('scheduled_review_approvals')
+        .insert({
+          post_id: postId,
+          scheduled_for: scheduledFor,
+          status: 'pending',
+          created_by: userId,
+          created_at: now,
+          updated_at: now,
+        })
+        .returning('*')
+      return inserted
+    })
+    return mapRow(row)
+  }
+
+  /**
+   * Cancel a pending scheduled approval. Returns false when nothing was pending.
+   */
+  async cancel(postId: string, id: string, userId: number | null): Promise<boolean> {
+    const updated = await db
+      .from('scheduled_review_approvals')
+      .where('id', id)
+      .andWhere('post_id', postId)
+      .andWhere('status', 'pending')
+      .update({ status: 'cancelled', cancelled_by: userId, updated_at: new Date() })
+    return Array.isArray(updated) ? updated.length > 0 : Number(updated) > 0
+  }
+
+  /**
+   * Cancel whatever is pending for a post (e.g. the draft was approved or rejected by hand)
+   */
+  async cancelPendingForPost(
+    postId: string,
+    reason: string,
+    userId: number | null = null
+  ): Promise<void> {
+    await db
+      .from('scheduled_review_approvals')
+      .where('post_id', postId)
+      .andWhere('status', 'pending')
+      .update({
+        status: 'cancelled',
+        cancelled_by: userId,
+        cancel_reason: reason,
+        updated_at: new Date(),
+      })
+  }
+
+  /**
+   * Pending schedule plus recent history for a post (newest first)
+   */
+  async listForPost(postId: string, limit = 20): Promise<ScheduledReviewApproval[]> {
+    const rows = await db
+      .from('scheduled_review_approvals')
+      .where('post_id', postId)
+      .orderBy('created_at', 'desc')
+      .limit(limit)
+      .select('*')
+    return rows.map(mapRow)
+  }
+
+  /**
+   * Atomically claim due approvals (including ones whose runner stopped while applying)
+   * so concurrent runners never apply one twice
+   */
+  async claimDue(now: Date = new Date()): Promise<ScheduledReviewApproval[]> {
+    const staleBefore = new Date(now.getTime() - APPLYING_TIMEOUT_SECONDS * 1000)
+    const result = await db.rawQuery(
+      `UPDATE scheduled_review_approvals
+       SET status = 'applying', updated_at = ?
+       WHERE id IN (
+         SELECT id FROM scheduled_review_approvals
+         WHERE (status = 'pending' AND scheduled_for <= ?)
+            OR (status = 'applying' AND updated_at < ?)
+         ORDER BY scheduled_for ASC
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [now, now, staleBefore]
+    )
+    return (result?.rows || []).map(mapRow)
+  }
+
+  async markApplied(id: string): Promise<void> {
+    const now = new Date()
+    await db
+      .from('scheduled_review_approvals')
+      .where('id', id)
+      .update({ status: 'applied', applied_at: now, updated_at: now })
+  }
+
+  async markFailed(id: string, error: string): Promise<void> {
+    await db
+      .from('scheduled_review_approvals')
+      .where('id', id)
+      .update({ status: 'failed', error, updated_at: new Date() })
+  }
+}
+
+const scheduledReviewApprovalService = new ScheduledReviewApprovalService()
+export default scheduledReviewApprovalService
@@ -0,0 +1,452 @@
+import db from '@adonisjs/lucid/services/db'
+import cmsConfig from '#config/cms'
+import Post from '#models/post'
+import moduleRegistry from '#services/module_registry'
+import postRenderingService from '#services/post_rendering_service'
+import { extractPlainText } from '#helpers/lexical_renderer'
+import type { CustomFieldDefinition } from '#types/custom_field'
+
+/**
+ * Markers passed to ts_headline. They are swapped for <mark> tags after the
+ * snippet has been HTML-escaped, so indexed text can never inject markup.
+ */
+const HIGHLIGHT_START = '{{{'
+const HIGHLIGHT_STOP = '}}}'
+
+export interface SiteSearchResult {
+  id: string
+  type: string
+  title: string
+  excerpt: string | null
+  snippet: string | null
+  slug: string
+  locale: string
+  rank: number
+  updatedAt: string
+}
+
+export interface SiteSearchFacets {
+  types: Array<{ type: string; count: number }>
+  terms: Array<{
+    id: string
+    name: string
+    slug: string
+    taxonomy: string
+    taxonomyName: string
+    count: number
+  }>
+}
+
+export interface SiteSearchResponse {
+  results: SiteSearchResult[]
+  total: number
+  facets: SiteSearchFacets
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;')
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * to_tsquery input for search-as-you-type: every word must match and the last one
+ * may be a prefix (`hello wor` -> `hello & wor:*`). Only letters and digits are kept,
+ * so the result never contains tsquery operators from the user. Null without words.
+ */
+export function buildPrefixQuery(q: string): string | null {
+  const words = q
+    .normalize('NFKC')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .slice(0, 10)
+  if (words.length === 0) return null
+  const last = words.pop()
+  return [...words, `${last}:*`].join(' & ')
+}
+
+/**
+ * Search Index Service
+ *
+ * Maintains the `search_documents` table (one row per published post) and
+ * queries it with Postgres full-text search. Module content is flattened to
+ * plain text using each module's field schema, so anything editors write in
+ * Prose, FAQ, Accordion (etc.) modules becomes searchable.
+ */
+class SearchIndexService {
+  /**
+   * Postgres text search configuration for a locale ('fr-CA' uses 'fr').
+   */
+  getSearchConfig(locale: string): string {
+    const configs = cmsConfig.search.languageConfigs
+    const code = String(locale || '').toLowerCase()
+    return configs[code] || configs[code.split('-')[0]] || 'simple'
+  }
+
+  /**
+   * Extract plain text from module field values using the module's field schema.
+   * Only textual fields are collected (text, textarea, richtext), recursing into
+   * objects and repeaters.
+   */
+  extractFieldText(schema: CustomFieldDefinition[], values: Record<string, any>): string[] {
+    const out: string[] = []
+    for (const field of schema) {
+      if (!field?.slug || field.type === 'tab' || field.type === 'group') continue
+      this.collectValueText(field, values?.[field.slug], out)
+    }
+    return out
+  }
+
+  private collectValueText(field: CustomFieldDefinition, value: any, out: string[]) {
+    if (value === null || value === undefined) return
+
+    switch (field.type) {
+      case 'text':
+      case 'textarea': {
+        if (typeof value === 'string' && value.trim()) out.push(normalizeWhitespace(value))
+        return
+      }
+      case 'richtext': {
+        const text = this.richtextToPlain(value)
+        if (text) out.push(text)
+        return
+      }
+      case 'object': {
+        if (typeof value === 'object' && !Array.isArray(value)) {
+          out.push(...this.extractFieldText(field.fields || [], value))
+        }
+        return
+      }
+      case 'repeater': {
+        if (!Array.isArray(value) || !field.item) return
+        for (const item of value) {
+          if (field.item.type === 'object') {
+            out.push(...this.extractFieldText(field.item.fields || [], item || {}))
+          } else {
+            this.collectValueText(field.item, item, out)
+          }
+        }
+        return
+      }
+      default:
+        return
+    }
+  }
+
+  private richtextToPlain(value: any): string {
+    let parsed = value
+    if (typeof value === 'string') {
+      const trimmed = value.trim()
+      if (!trimmed) return ''
+      try {
+        parsed = JSON.parse(trimmed)
+      } catch {
+        // Plain HTML/text
+        return normalizeWhitespace(trimmed.replace(/<[^>]*>/g, ' '))
+      }
+    }
+    if (parsed && typeof parsed === 'object' && parsed.root) {
+      return normalizeWhitespace(extractPlainText(parsed))
+    }
+    return ''
+  }
+
+  /**
+   * Build the searchable body text for a post from its (source) modules.
+   */
+  async buildModuleText(postId: string, locale: string): Promise<string> {
+    const modules = await postRenderingService.loadPostModules(postId)
+    const parts: string[] = []
+
+    for (const pm of modules) {
+      if (pm.reviewAdded || pm.aiReviewAdded) continue
+      if (!moduleRegistry.has(pm.type)) continue
+
+      const module = moduleRegistry.get(pm.type)
+      const config = module.getConfig()
+      const merged = module.mergeFields(
+        { ...(config.defaultValues || {}), ...(pm.props || {}) },
+        (pm.overrides as Record<string, any>) || null
+      )
+      const localized = module.localizeFields(merged, locale)
+      parts.push(...this.extractFieldText(config.fieldSchema || [], localized))
+    }
+
+    return parts.join('\n')
+  }
+
+  /**
+   * Index (or re-index) a single post. Posts that are not publicly visible are
+   * removed from the index instead.
+   */
+  async indexPost(postId: string): Promise<boolean> {
+    const post = await Post.query().where('id', postId).first()
+    const isPublic =
+      !!post &&
+      post.status === 'published' &&
+      (!post.publishedAt || post.publishedAt.toMillis() <= Date.now()) &&
+      !post.noindex
+
+    if (!post || !isPublic) {
+      await this.removePost(postId)
+      return false
+    }
+
+    const config = this.getSearchConfig(post.locale)
+    const title = [post.title, post.metaTitle].filter(Boolean).join(' ')
+    const summary = [post.excerpt, post.metaDescription].filter(Boolean).join(' ')
+    const body = await this.buildModuleText(post.id, post.locale)
+
+    await db.rawQuery(
+      `INSERT INTO search_documents
+        (post_id, post_type, locale, search_config, title, excerpt, body, search_vector, indexed_at)
+       VALUES (
+        ?, ?, ?, ?, ?, ?, ?,
+        setweight(to_tsvector(?::regconfig, ?), 'A') ||
+        setweight(to_tsvector(?::regconfig, ?), 'B') ||
+        setweight(to_tsvector(?::regconfig, ?), 'C'),
+        now()
+       )
+       ON CONFLICT (post_id) DO UPDATE SET
+        post_type = EXCLUDED.post_type,
+        locale = EXCLUDED.locale,
+        search_config = EXCLUDED.search_config,
+        title = EXCLUDED.title,
+        excerpt = EXCLUDED.excerpt,
+        body = EXCLUDED.body,
+        search_vector = EXCLUDED.search_vector,
+        indexed_at = EXCLUDED.indexed_at`,
+      [
+        post.id,
+        post.type,
+        post.locale,
+        config,
+        post.title,
+        post.excerpt,
+        body,
+        config,
+        title,
+        config,
+        summary,
+        config,
+        body,
+      ]
+    )
+
+    return true
+  }
+
+  /**
+   * Remove a post from the index.
+   */
+  async removePost(postId: string): Promise<void> {
+    await db.from('search_documents').where('post_id', postId).delete()
+  }
+
+  /**
+   * Sync a set of posts (index published ones, drop everything else).
+   */
+  async syncPosts(postIds: string[]): Promise<void> {
+    for (const id of Array.from(new Set(postIds.map(String)))) {
+      await this.indexPost(id)
+    }
+  }
+
+  /**
+   * Re-index every post that uses a given (global) module instance.
+   */
+  async syncPostsUsingModule(moduleInstanceId: string): Promise<void> {
+    const rows = await db
+      .from('post_modules')
+      .where('module_id', moduleInstanceId)
+      .distinct('post_id')
+    await this.syncPosts(rows.map((r: any) => String(r.post_id)))
+  }
+
+  /**
+   * Rebuild the whole index. Returns the number of indexed posts.
+   */
+  async reindexAll(): Promise<number> {
+    await db.from('search_documents').delete()
+    const rows = await db
+      .from('posts')
+      .where('status', 'published')
+      .whereNull('deleted_at')
+      .select('id')
+    let indexed = 0
+    for (const row of rows) {
+      if (await this.indexPost(String(row.id))) indexed++
+    }
+    return indexed
+  }
+
+  /**
+   * Index visible posts that have no index row yet: the whole site right after the
+   * migration, and posts whose future publishedAt has since passed. Returns the
+   * number of indexed posts.
+   */
+  async indexMissing(): Promise<number> {
+    const rows = await db
+      .from('posts')
+      .where('status', 'published')
+      .whereNull('deleted_at')
+      .where('noindex', false)
+      .where((q) => q.whereNull('published_at').orWhere('published_at', '<=', new Date()))
+      .whereNotExists((sub) => {
+        sub.from('search_documents as sd').whereRaw('sd.post_id = posts.id')
+      })
+      .select('id')
+    let indexed = 0
+    for (const row of rows) {
+      if (await this.indexPost(String(row.id))) indexed++
+    }
+    return indexed
+  }
+
+  /**
+   * Ranked full-text search with highlighted snippets and facets.
+   */
+  async search(options: {
+    q: string
+    locale: string
+    type?: string | null
+    termId?: string | null
+    limit?: number
+    offset?: number
+    withFacets?: boolean
+    /** Match the last word as a prefix (autocomplete) instead of web search syntax */
+    prefix?: boolean
+  }): Promise<SiteSearchResponse> {
+    const { locale, type, termId, limit = 30, offset = 0, withFacets = true } = options
+    const config = this.getSearchConfig(locale)
+    const q = options.prefix ? buildPrefixQuery(options.q) : options.q
+    if (!q) return { results: [], total: 0, facets: { types: [], terms: [] } }
+    const tsQuery = options.prefix
+      ? 'to_tsquery(?::regconfig, ?)'
+      : 'websearch_to_tsquery(?::regconfig, ?)'
+
+    const base = () =>
+      db
+        .from('search_documents as sd')
+        .join('posts as p', 'p.id', 'sd.post_id')
+        .where('sd.locale', locale)
+        .where('p.status', 'published')
+        .whereNull('p.deleted_at')
+        .whereRaw(`sd.search_vector @@ ${tsQuery}`, [config, q])
+
+    const withTerm = (query: ReturnType<typeof base>) =>
+      termId
+        ? query.whereExists((sub) => {
+            sub
+              .from('post_taxonomy_terms as ptt')
+              .whereRaw('ptt.post_id = sd.post_id')
+              .where('ptt.taxonomy_term_id', termId)
+          })
+        : query
+
+    const withType = (query: ReturnType<typeof base>) =>
+      type ? query.where('sd.post_type', type) : query
+
+    const headlineOptions = [
+      `StartSel="${HIGHLIGHT_START}"`,
+      `StopSel="${HIGHLIGHT_STOP}"`,
+      `MaxWords=${cmsConfig.search.snippetMaxWords}`,
+      'MinWords=12',
+      'MaxFragments=2',
+      'FragmentDelimiter=" … "',
+    ].join(', ')
+
+    const rows = await withType(withTerm(base()))
+      .select(
+        'sd.post_id',
+        'sd.post_type',
+        'sd.title',
+        'sd.excerpt',
+        'p.slug',
+        'p.locale',
+        'p.updated_at',
+        db.raw(`ts_rank_cd(sd.search_vector, ${tsQuery}) as rank`, [config, q]),
+        db.raw(`ts_headline(?::regconfig, coalesce(sd.body, ''), ${tsQuery}, ?) as snippet`, [
+          config,
+          config,
+          q,
+          headlineOptions,
+        ])
+      )
+      .orderBy('rank', 'desc')
+      .orderBy('p.updated_at', 'desc')
+      .limit(limit)
+      .offset(offset)
+
+    const totalRow = await withType(withTerm(base())).count('* as total').first()
+
+    const results: SiteSearchResult[] = rows.map((r: any) => ({
+      id: String(r.post_id),
+      type: String(r.post_type),
+      title: String(r.title),
+      excerpt: r.excerpt ?? null,
+      snippet: this.formatSnippet(r.snippet),
+      slug: String(r.slug),
+      locale: String(r.locale),
+      rank: Number(r.rank) || 0,
+      updatedAt: new Date(r.updated_at).toISOString(),
+    }))
+
+    const facets: SiteSearchFacets = { types: [], terms: [] }
+    if (withFacets) {
+      // Each facet ignores its own filter so visitors can switch between values.
+      const typeRows = await withTerm(base())
+        .select('sd.post_type')
+        .count('* as count')
+        .groupBy('sd.post_type')
+        .orderBy('count', 'desc')
+      facets.types = typeRows.map((r: any) => ({
+        type: String(r.post_type),
+        count: Number(r.count) || 0,
+      }))
+
+      const termRows = await withType(base())
+        .join('post_taxonomy_terms as ptt', 'ptt.post_id', 'sd.post_id')
+        .join('taxonomy_terms as tt', 'tt.id', 'ptt.taxonomy_term_id')
+        .join('taxonomies as tx', 'tx.id', 'tt.taxonomy_id')
+        .select('tt.id', 'tt.name', 'tt.slug', 'tx.slug as taxonomy', 'tx.name as taxonomy_name')
+        .count('* as count')
+        .groupBy('tt.id', 'tt.name', 'tt.slug', 'tx.slug', 'tx.name')
+        .orderBy('count', 'desc')
+        .limit(50)
+      facets.terms = termRows.map((r: any) => ({
+        id: String(r.id),
+        name: String(r.name),
+        slug: String(r.slug),
+        taxonomy: String(r.taxonomy),
+        taxonomyName: String(r.taxonomy_name),
+        count: Number(r.count) || 0,
+      }))
+    }
+
+    return { results, total: Number((totalRow as any)?.total || 0), facets }
+  }
+
+  /**
+   * Escape a ts_headline result and turn the highlight markers into <mark> tags.
+   */
+  formatSnippet(raw: string | null | undefined): string | null {
+    const text = normalizeWhitespace(String(raw || ''))
+    if (!text || !text.includes(HIGHLIGHT_START)) return null
+    return escapeHtml(text)
+      .split(HIGHLIGHT_START)
+      .join('<mark>')
+      .split(HIGHLIGHT_STOP)
+      .join('</mark>')
+  }
+}
+
+const searchIndexService = new SearchIndexService()
+export default searchIndexService
@@ -0,0 +1,84 @@
+import hash from '@adonisjs/core/services/hash'
+import { randomBytes } from 'node:crypto'
+import User from '#models/user'
+
+function sanitizeToken(input: string): string {
+  return String(input || '')
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9._+-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+function buildDefaultEmail(name: string): string {
+  const token = sanitizeToken(name) || 'service'
+  const local = `service+${token}`.slice(0, 64)
+  return `${local}@service-accounts.local`
+}
+
+function buildDefaultUsername(name: string): string {
+  const token = sanitizeToken(name) || 'service'
+  // 50 char limit in migration; keep prefix + token within that.
+  const prefix = 'service:'
+  const available = 50 - prefix.length
+  return `${prefix}${token.slice(0, Math.max(0, available))}`
+}
+
+async function findUniqueEmail(preferredEmail: string): Promise<string> {
+  const base = preferredEmail.trim().toLowerCase()
+  const existing = await User.findBy('email', base)
+  if (!existing) return base
+
+  const [local, domain] = base.split('@')
+  for (let i = 2; i < 1000; i++) {
+    const candidate = `${`${local}-${i}`.slice(0, 64)}@${domain || 'service-accounts.local'}`
+    const taken = await User.findBy('email', candidate)
+    if (!taken) return candidate
+  }
+  return `${base}.${Date.now()}@service-accounts.local`
+}
+
+async function findUniqueUsername(base: string): Promise<string> {
+  const existing = await User.query().whereRaw('LOWER(username) = LOWER(?)', [base]).first()
+  if (!existing) return base
+
+  for (let i = 2; i < 1000; i++) {
+    const candidate = `${base}-${i}`.slice(0, 50)
+    const taken = await User.query().whereRaw('LOWER(username) = LOWER(?)', [candidate]).first()
+    if (!taken) return candidate
+  }
+  return `${base.slice(0, 36)}-${Date.now()}`
+}
+
+class ServiceAccountService {
+  /**
+   * Create a service account: a non-interactive user that can only
+   * authenticate with API tokens.
+   *
+   * - Gets a generated `service:<name>` username and internal email.
+   * - The password is random and never returned, so web login is impossible
+   *   (and additionally blocked by AuthController).
+   * - The role caps what its tokens can do; pick the least privileged one.
+   */
+  async create(params: { name: string; role: User['role'] }): Promise<User> {
+    const user = new User()
+    user.fullName = params.name
+    user.role = params.role
+    user.username = await findUniqueUsername(buildDefaultUsername(params.name))
+    user.email = await findUniqueEmail(buildDefaultEmail(params.name))
+    user.password = await hash.make(`service:${randomBytes(32).toString('hex')}`)
+    user.isServiceAccount = true
+    await user.save()
+    return user
+  }
+
+  async list(): Promise<User[]> {
+    return User.query().where('is_service_account', true).orderBy('created_at', 'desc')
+  }
+
+  async find(id: number): Promise<User | null> {
+    return User.query().where('id', id).where('is_service_account', true).first()
+  }
+}
+
+export default new ServiceAccountService()
@@ -69,6 +69,20 @@ class SitemapService {
     return this.lastBuiltAt.get(key) ?? null
   }
 
+  /**
+   * Regenerate the sitemap for every host built so far in this process.
+   * Returns the number of hosts rebuilt.
+   */
+  async rebuildAll(): Promise<number> {
+    const keys = Array.from(this.lastBuiltAt.keys())
+    this.cache.clear()
+    for (const key of keys) {
+      const [protocol, host] = key.split('://')
+      await this.generate({ protocol, host })
+    }
+    return keys.length
+  }
+
   /**
    * Generate sitemap XML (single file). Respects:
    * - published posts only
@@ -137,6 +151,7 @@ class SitemapService {
 
     // Preload default patterns for all type+locale combos
     const defaultLocale = localeService.getDefaultLocale()
+    await localeService.loadSettings()
     const patternCache = new Map<string, string>()
     for (const row of indexable) {
       const key = `${row.type}:${row.locale}`
@@ -224,13 +239,13 @@ class SitemapService {
 
     const entries = ordered.map((row) => {
       const path = buildPath(row)
+      // Locales served on their own domain are listed under that hostname
+      const host = localeService.getHostnameForLocale(row.locale) || options.host
       const locRaw =
         row.canonicalUrl && row.canonicalUrl.trim()
           ? row.canonicalUrl.trim()
-          : `${options.protocol}://${options.host}${path}`
-      const loc = locRaw.startsWith('http')
-        ? locRaw
-        : `${options.protocol}://${options.host}${locRaw}`
+          : `${options.protocol}://${host}${path}`
+      const loc = locRaw.startsWith('http') ? locRaw : `${options.protocol}://${host}${locRaw}`
       locById.set(row.id, loc)
       const lastDate = row.updatedAt || row.publishedAt || row.createdAt
       const lastmod = lastDate ? new Date(lastDate).toISOString() : null
@@ -0,0 +1,227 @@
+import { createHash } from 'node:crypto'
+import { DateTime } from 'luxon'
+import Post from '#models/post'
+import PostSerializerService from '#services/post_serializer_service'
+import { extractUnits, type XliffUnit } from '#services/xliff_service'
+import type { SourceFingerprint } from '#types/post'
+
+export type StaleUnit = {
+  id: string
+  label: string | null
+  status: 'changed' | 'added' | 'removed'
+  previous: string | null
+  current: string | null
+}
+
+export type TranslationStaleness = {
+  /** False for translations created before tracking existed */
+  tracked: boolean
+  outdated: boolean
+  syncedAt: string | null
+  /** Labels of the fields/modules that changed, in source order */
+  changedLabels: string[]
+  changes: StaleUnit[]
+}
+
+/**
+ * Max length of the instructions sent to the translator agent (its openEndedContext limit)
+ */
+const AGENT_INSTRUCTIONS_MAX = 5000
+
+export function hashSourceText(text: string): string {
+  return createHash('sha256').update(text).digest('hex').slice(0, 16)
+}
+
+export function fingerprintUnits(units: XliffUnit[]): SourceFingerprint {
+  const out: SourceFingerprint = {}
+  for (const unit of units) {
+    out[unit.id] = {
+      hash: hashSourceText(unit.source),
+      source: unit.source,
+      label: unit.note ?? null,
+    }
+  }
+  return out
+}
+
+/**
+ * Compare the fingerprint recorded on a translation with the source's current one
+ */
+export function diffFingerprints(
+  recorded: SourceFingerprint,
+  current: SourceFingerprint
+): StaleUnit[] {
+  const changes: StaleUnit[] = []
+  for (const [id, now] of Object.entries(current)) {
+    const before = recorded[id]
+    if (!before) {
+      changes.push({ id, label: now.label, status: 'added', previous: null, current: now.source })
+    } else if (before.hash !== now.hash) {
+      changes.push({
+        id,
+        label: now.label,
+        status: 'changed',
+        previous: before.source,
+        current: now.source,
+      })
+    }
+  }
+  for (const [id, before] of Object.entries(recorded)) {
+    if (!current[id]) {
+      changes.push({
+        id,
+        label: before.label,
+        status: 'removed',
+        previous: before.source,
+        current: null,
+      })
+    }
+  }
+  return changes
+}
+
+/**
+ * Instructions asking the translator agent to update only the changed parts
+ */
+export function buildAgentInstructions(
+  sourceLocale: string,
+  targetLocale: string,
+  changes: StaleUnit[]
+): string {
+  const header =
+    `The ${sourceLocale.toUpperCase()} source of this ${targetLocale.toUpperCase()} translation changed. ` +
+    `Update only the parts listed below and leave everything else in the translation as it is.`
+  const lines: string[] = [header, '']
+  let truncated = false
+  for (const change of changes) {
+    const name = change.label ? `${change.label} (${change.id})` : change.id
+    let entry: string
+    if (change.status === 'removed') {
+      entry = `- ${name}: removed from the source; remove the matching text.`
+    } else if (change.status === 'added') {
+      entry = `- ${name}: new in the source, translate:\n  "${change.current}"`
+    } else {
+      entry = `- ${name}: was "${change.previous}"\n  now "${change.current}"`
+    }
+    if ([...lines, entry].join('\n').length > AGENT_INSTRUCTIONS_MAX - 80) {
+      truncated = true
+      break
+    }
+    lines.push(entry)
+  }
+  if (truncated) lines.push('', 'More fields changed; compare the translation with the source.')
+  return lines.join('\n')
+}
+
+function uniqueLabels(changes: StaleUnit[]): string[] {
+  return Array.from(new Set(changes.map((c) => c.label || c.id)))
+}
+
+/**
+ * Translation Staleness Service
+ *
+ * Records which source strings a translation was made from and reports the
+ * fields/modules that changed on the source since.
+ */
+class TranslationStalenessService {
+  /**
+   * Current fingerprint of a source post's translatable strings
+   */
+  async sourceFingerprint(sourcePostId: string): Promise<SourceFingerprint> {
+    const canonical = await PostSerializerService.serialize(sourcePostId, 'source')
+    return fingerprintUnits(extractUnits(canonical))
+  }
+
+  /**
+   * Mark a translation as in sync with its source as of now
+   */
+  async record(translation: Post, fingerprint?: SourceFingerprint): Promise<void> {
+    if (!translation.translationOfId) return
+    translation.translationSourceHashes =
+      fingerprint ?? (await this.sourceFingerprint(translation.translationOfId))
+    translation.translationSyncedAt = DateTime.now()
+    await translation.save()
+  }
+
+  /**
+   * Remember the source a translation's review draft was made from. The translation
+   * stays outdated until the draft is approved (see `approveReview`).
+   */
+  async recordForReview(translation: Post, fingerprint?: SourceFingerprint): Promise<void> {
+    if (!translation.translationOfId) return
+    translation.translationReviewSourceHashes =
+      fingerprint ?? (await this.sourceFingerprint(translation.translationOfId))
+    await translation.save()
+  }
+
+  /**
+   * The review draft was approved: the translation is in sync with the source it was
+   * made from. Does nothing when the draft did not come from an import.
+   */
+  async approveReview(postId: string): Promise<void> {
+    const translation = await Post.find(postId)
+    const pending = translation?.translationReviewSourceHashes
+    if (!translation || !pending) return
+    translation.translationReviewSourceHashes = null
+    await this.record(translation, pending)
+  }
+
+  /**
+   * The review draft was rejected: forget the source it was made from
+   */
+  async discardReview(postId: string): Promise<void> {
+    await Post.query()
+      .where('id', postId)
+      .whereNotNull('translation_review_source_hashes')
+      .update({ translation_review_source_hashes: null } as any)
+  }
+
+  /**
+   * Staleness of one translation; null for original posts
+   */
+  async check(
+    translation: Post,
+    sourceCache: Map<string, SourceFingerprint> = new Map()
+  ): Promise<TranslationStaleness | null> {
+    const sourceId = translation.translationOfId
+    if (!sourceId) return null
+
+    const recorded = translation.translationSourceHashes
+    if (!recorded) {
+      return { tracked: false, outdated: false, syncedAt: null, changedLabels: [], changes: [] }
+    }
+
+    let current = sourceCache.get(sourceId)
+    if (!current) {
+      current = await this.sourceFingerprint(sourceId)
+      sourceCache.set(sourceId, current)
+    }
+
+    const changes = diffFingerprints(recorded, current)
+    return {
+      tracked: true,
+      outdated: changes.length > 0,
+      syncedAt: translation.translationSyncedAt?.toISO() ?? null,
+      changedLabels: uniqueLabels(changes),
+      changes,
+    }
+  }
+
+  /**
+   * Changed labels of outdated translations, keyed by translation id.
+   * Each source post is serialized once.
+   */
+  async outdatedMany(translations: Post[]): Promise<Map<string, string[]>> {
+    const sourceCache = new Map<string, SourceFingerprint>()
+    const out = new Map<string, string[]>()
+    for (const translation of translations) {
+      if (!translation.translationSourceHashes) continue
+      const staleness = await this.check(translation, sourceCache)
+      if (staleness?.outdated) out.set(translation.id, staleness.changedLabels)
+    }
+    return out
+  }
+}
+
+const translationStalenessService = new TranslationStalenessService()
+export default translationStalenessService
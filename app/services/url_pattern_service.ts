@@ -133,8 +133,12 @@ class UrlPatternService {
    * Try to match an incoming path to a stored pattern.
    * Returns { postType, locale, slug, fullPath, usesPath } or null.
    * When pattern uses {path}, fullPath contains the hierarchical path for canonical_url matching.
+   * Patterns of `preferredLocale` (e.g. the locale of the request's hostname) are tried first.
    */
-  async matchPath(path: string): Promise<{
+  async matchPath(
+    path: string,
+    preferredLocale?: string | null
+  ): Promise<{
     postType: string
     locale: string
     slug: string
@@ -145,7 +149,13 @@ class UrlPatternService {
     // Normalize path: remove trailing slash (unless it's just "/")
     const normalizedPath = path.length > 1 && path.endsWith('/') ? path.slice(0, -1) : path
 
-    const patterns = await this.getAllPatterns()
+    const allPatterns = await this.getAllPatterns()
+    const patterns = preferredLocale
+      ? [
+          ...allPatterns.filter((p) => p.locale === preferredLocale),
+          ...allPatterns.filter((p) => p.locale !== preferredLocale),
+        ]
+      : allPatterns
     for (const p of patterns) {
       const re = this.compilePattern(p.pattern)
       const m = re.exec(normalizedPath)
@@ -297,10 +307,18 @@ class UrlPatternService {
 
   /**
    * Build full absolute URL for a post.
+   * Posts in a locale with its own hostname (e.g. example.fr) use that host.
    */
   async buildPostUrlForPost(postId: string, protocol: string, host: string): Promise<string> {
-    const path = await this.buildPostPathForPost(postId)
-    return `${protocol}://${host}${path}`
+    const row = await Post.query()
+      .where('id', postId)
+      .select('id', 'parent_id', 'type', 'locale', 'slug', 'created_at')
+      .first()
+    if (!row) return `${protocol}://${host}/`
+    const path = await this.buildPostPathForRow(row)
+    await localeService.loadSettings()
+    const localeHost = localeService.getHostnameForLocale(String(row.locale))
+    return `${protocol}://${localeHost || host}${path}`
   }
 
   /**
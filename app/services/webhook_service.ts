@@ -1,6 +1,10 @@
 import db from '@adonisjs/lucid/services/db'
 import { createHmac } from 'node:crypto'
 import cmsConfig from '#config/cms'
+import deliveryQueueService, {
+  type DeliveryAttemptResult,
+  type QueuedDelivery,
+} from '#services/delivery_queue_service'
 
 function isPrivateOrLocalHost(hostname: string): boolean {
   const h = String(hostname || '')
@@ -37,21 +41,42 @@ function isAllowedWebhookHost(hostname: string): boolean {
 }
 
 /**
- * Webhook events
+ * Webhook events, in the order they are offered when configuring a webhook
  */
-export type WebhookEvent =
-  | 'post.created'
-  | 'post.updated'
-  | 'post.published'
-  | 'post.unpublished'
-  | 'post.deleted'
-  | 'post.restored'
-  | 'media.uploaded'
-  | 'media.deleted'
-  | 'user.created'
-  | 'user.updated'
-  | 'settings.updated'
-  | 'form.submitted'
+export const WEBHOOK_EVENTS = [
+  'post.created',
+  'post.updated',
+  'post.published',
+  'post.unpublished',
+  'post.deleted',
+  'post.restored',
+  'translation.created',
+  'translation.deleted',
+  'media.uploaded',
+  'media.deleted',
+  'taxonomy.term.created',
+  'taxonomy.term.updated',
+  'taxonomy.term.deleted',
+  'menu.created',
+  'menu.updated',
+  'menu.deleted',
+  'module.global.created',
+  'module.global.updated',
+  'module.global.deleted',
+  'redirect.created',
+  'redirect.updated',
+  'redirect.deleted',
+  'user.created',
+  'user.updated',
+  'settings.updated',
+  'form.submitted',
+] as const
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number]
+
+export function isWebhookEvent(value: string): value is WebhookEvent {
+  return (WEBHOOK_EVENTS as readonly string[]).includes(value)
+}
 
 /**
  * Webhook payload
@@ -80,14 +105,25 @@ export interface WebhookConfig {
 /**
  * Delivery result
  */
-export interface DeliveryResult {
+export interface DeliveryResult extends DeliveryAttemptResult {
   webhookId: string
-  success: boolean
-  statusCode?: number
-  error?: string
   durationMs?: number
 }
 
+function mapWebhookRow(r: any): WebhookConfig {
+  return {
+    id: r.id,
+    name: r.name,
+    url: r.url,
+    secret: r.secret,
+    events: r.events,
+    active: r.active,
+    headers: r.headers,
+    timeoutMs: r.timeout_ms,
+    maxRetries: r.max_retries,
+  }
+}
+
 /**
  * Webhook Service
  *
@@ -133,12 +169,14 @@ class WebhookService {
   }
 
   /**
-   * Dispatch webhook to a single endpoint
+   * Make a single delivery attempt to one endpoint and log it in webhook_deliveries.
+   * Retries are scheduled by the delivery queue, not here.
    */
   private async deliverWebhook(
     webhook: WebhookConfig,
     payload: WebhookPayload,
-    attempt: number = 1
+    attempt: number = 1,
+    queueId: string | null = null
   ): Promise<DeliveryResult> {
     const startTime = Date.now()
     const payloadString = JSON.stringify(payload)
@@ -170,6 +208,7 @@ class WebhookService {
           attempt,
           status: 'failed',
           error: `Blocked webhook dispatch: ${errorMessage}`,
+          queue_id: queueId,
         })
       } catch {
         // ignore
@@ -178,6 +217,7 @@ class WebhookService {
         webhookId: webhook.id,
         success: false,
         error: `Blocked webhook dispatch: ${errorMessage}`,
+        retryable: false,
         durationMs,
       }
     }
@@ -187,6 +227,7 @@ class WebhookService {
       'X-Webhook-Event': payload.event,
       'X-Webhook-Timestamp': payload.timestamp,
       'X-Webhook-Delivery-Attempt': String(attempt),
+      ...(queueId ? { 'X-Webhook-Delivery-Id': queueId } : {}),
       ...(webhook.headers || {}),
     }
 
@@ -214,6 +255,7 @@ class WebhookService {
           payload: payload,
           attempt,
           status: 'pending',
+          queue_id: queueId,
         })
         .returning('id')
 
@@ -262,6 +304,7 @@ class WebhookService {
         webhookId: webhook.id,
         success: response.ok,
         statusCode: response.status,
+        error: response.ok ? undefined : `HTTP ${response.status}`,
         durationMs,
       }
     } catch (error) {
@@ -270,14 +313,11 @@ class WebhookService {
 
       // Update delivery record
       if (deliveryId) {
-        await db
-          .from('webhook_deliveries')
-          .where('id', deliveryId)
-          .update({
-            duration_ms: durationMs,
-            status: attempt < webhook.maxRetries ? 'retrying' : 'failed',
-            error: errorMessage,
-          })
+        await db.from('webhook_deliveries').where('id', deliveryId).update({
+          duration_ms: durationMs,
+          status: 'failed',
+          error: errorMessage,
+        })
       }
 
       // Update webhook last status
@@ -290,14 +330,6 @@ class WebhookService {
           updated_at: new Date(),
         })
 
-      // Retry if not exhausted
-      if (attempt < webhook.maxRetries) {
-        // Exponential backoff: 1s, 2s, 4s, ...
-        const delay = Math.pow(2, attempt - 1) * 1000
-        await new Promise((resolve) => setTimeout(resolve, delay))
-        return this.deliverWebhook(webhook, payload, attempt + 1)
-      }
-
       return {
         webhookId: webhook.id,
         success: false,
@@ -308,52 +340,62 @@ class WebhookService {
   }
 
   /**
-   * Dispatch event to all subscribed webhooks
+   * Queue an event for all subscribed webhooks
    */
-  async dispatch(event: WebhookEvent, data: Record<string, unknown>): Promise<DeliveryResult[]> {
+  async dispatch(event: WebhookEvent, data: Record<string, unknown>): Promise<QueuedDelivery[]> {
     if (!this.isEnabled()) return []
 
     const webhooks = await this.getWebhooksForEvent(event)
-    if (webhooks.length === 0) return []
-
-    const payload: WebhookPayload = {
-      event,
-      timestamp: new Date().toISOString(),
-      data,
-    }
-    // Deliver to all webhooks in parallel
-    const results = await Promise.all(
-      webhooks.map((webhook) => this.deliverWebhook(webhook, payload))
-    )
-
-    return results
+    return this.enqueueFor(webhooks, event, data)
   }
 
   /**
-   * Dispatch event to a specific set of webhook IDs (bypassing event filters).
+   * Queue an event for a specific set of webhook IDs (bypassing event filters).
    */
   async dispatchToWebhooks(
     webhookIds: string[],
     event: WebhookEvent,
     data: Record<string, unknown>
-  ): Promise<DeliveryResult[]> {
+  ): Promise<QueuedDelivery[]> {
     if (!this.isEnabled() || webhookIds.length === 0) return []
 
     const rows = await db.from('webhooks').whereIn('id', webhookIds).andWhere('active', true)
+    return this.enqueueFor(rows.map(mapWebhookRow), event, data)
+  }
 
-    if (rows.length === 0) return []
+  /**
+   * Deliver straight away, skipping the queue (used by the "test" action)
+   */
+  async deliverNow(
+    webhook: WebhookConfig,
+    event: WebhookEvent,
+    data: Record<string, unknown>
+  ): Promise<DeliveryResult> {
+    return this.deliverWebhook(webhook, { event, timestamp: new Date().toISOString(), data })
+  }
 
-    const webhooks: WebhookConfig[] = rows.map((r) => ({
-      id: r.id,
-      name: r.name,
-      url: r.url,
-      secret: r.secret,
-      events: r.events,
-      active: r.active,
-      headers: r.headers,
-      timeoutMs: r.timeout_ms,
-      maxRetries: r.max_retries,
-    }))
+  /**
+   * Delivery queue callback: one attempt for a queued webhook item
+   */
+  async deliverQueued(item: QueuedDelivery): Promise<DeliveryResult> {
+    const webhook = item.webhookId ? await this.get(item.webhookId) : null
+    if (!webhook || !webhook.active) {
+      return {
+        webhookId: item.webhookId || '',
+        success: false,
+        error: 'Webhook not found or inactive',
+        retryable: false,
+      }
+    }
+    return this.deliverWebhook(webhook, item.payload as WebhookPayload, item.attempts, item.id)
+  }
+
+  private async enqueueFor(
+    webhooks: WebhookConfig[],
+    event: WebhookEvent,
+    data: Record<string, unknown>
+  ): Promise<QueuedDelivery[]> {
+    if (webhooks.length === 0) return []
 
     const payload: WebhookPayload = {
       event,
@@ -361,11 +403,27 @@ class WebhookService {
       data,
     }
 
-    const results = await Promise.all(
-      webhooks.map((webhook) => this.deliverWebhook(webhook, payload))
-    )
+    const queued: QueuedDelivery[] = []
+    for (const webhook of webhooks) {
+      queued.push(
+        await deliveryQueueService.enqueue({
+          kind: 'webhook',
+          webhookId: webhook.id,
+          event,
+          payload: payload as unknown as Record<string, any>,
+          maxAttempts: webhook.maxRetries || cmsConfig.webhooks.maxRetries,
+        })
+      )
+    }
+    return queued
+  }
 
-    return results
+  /**
+   * Get a webhook by ID
+   */
+  async get(id: string): Promise<WebhookConfig | null> {
+    const row = await db.from('webhooks').where('id', id).first()
+    return row ? mapWebhookRow(row) : null
   }
 
   /**
@@ -462,7 +520,7 @@ class WebhookService {
   }
 
   /**
-   * Get delivery history for a webhook
+   * Get delivery history for a webhook, with the state of each attempt's queue item
    */
   async getDeliveryHistory(
     webhookId: string,
@@ -476,14 +534,19 @@ class WebhookService {
       durationMs: number | null
       attempt: number
       error: string | null
+      queueId: string | null
+      queueStatus: string | null
+      nextAttemptAt: Date | null
       createdAt: Date
     }>
   > {
     const rows = await db
-      .from('webhook_deliveries')
-      .where('webhook_id', webhookId)
-      .orderBy('created_at', 'desc')
+      .from('webhook_deliveries as d')
+      .leftJoin('delivery_queue as q', 'd.queue_id', 'q.id')
+      .where('d.webhook_id', webhookId)
+      .orderBy('d.created_at', 'desc')
       .limit(limit)
+      .select('d.*', 'q.status as queue_status', 'q.next_attempt_at as queue_next_attempt_at')
 
     return rows.map((r) => ({
       id: r.id,
@@ -493,9 +556,48 @@ class WebhookService {
       durationMs: r.duration_ms,
       attempt: r.attempt,
       error: r.error,
+      queueId: r.queue_id ?? null,
+      queueStatus: r.queue_status ?? null,
+      nextAttemptAt:
+        r.queue_status === 'pending' && r.queue_next_attempt_at
+          ? new Date(r.queue_next_attempt_at)
+          : null,
       createdAt: new Date(r.created_at),
     }))
   }
+
+  /**
+   * Re-send the event behind a logged delivery attempt through the queue
+   */
+  async replayDelivery(
+    webhookId: string,
+    deliveryId: string,
+    userId: number | null = null
+  ): Promise<QueuedDelivery | null> {
+    const row = await db
+      .from('webhook_deliveries')
+      .where('id', deliveryId)
+      .andWhere('webhook_id', webhookId)
+      .first()
+    if (!row) return null
+
+    if (row.queue_id) {
+      const replayed = await deliveryQueueService.replay(row.queue_id, userId)
+      if (replayed) return replayed
+    }
+
+    // Attempts logged before the queue existed (or whose item was pruned)
+    const webhook = await this.get(webhookId)
+    return deliveryQueueService.enqueue({
+      kind: 'webhook',
+      webhookId,
+      event: row.event,
+      payload: typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload,
+      userId,
+      maxAttempts: webhook?.maxRetries || cmsConfig.webhooks.maxRetries,
+      replayOf: row.queue_id ?? null,
+    })
+  }
 }
 
 const webhookService = new WebhookService()
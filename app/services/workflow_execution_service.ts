@@ -1,7 +1,27 @@
-import type { WorkflowDefinition, WorkflowTrigger } from '#types/workflow_types'
+import type {
+  WorkflowDefinition,
+  WorkflowStepContext,
+  WorkflowTrigger,
+} from '#types/workflow_types'
 import workflowRegistry from '#services/workflow_registry'
+import workflowStepExecutorService from '#services/workflow_step_executor_service'
+import deliveryQueueService, {
+  type DeliveryAttemptResult,
+  type QueuedDelivery,
+} from '#services/delivery_queue_service'
 import db from '@adonisjs/lucid/services/db'
 
+/**
+ * Limit for nested `call-workflow` steps
+ */
+const MAX_CALL_DEPTH = 5
+
+type WorkflowRunResult = DeliveryAttemptResult & {
+  workflowId: string
+  skipped?: boolean
+  steps?: Record<string, any>
+}
+
 /**
  * Workflow Execution Service
  * Handles execution of workflows triggered by various events
@@ -20,7 +40,16 @@ class WorkflowExecutionService {
       workflowId?: string
       userId?: number
     }
-  ): Promise<Array<{ workflowId: string; success: boolean; error?: string }>> {
+  ): Promise<
+    Array<{
+      workflowId: string
+      success: boolean
+      error?: string
+      skipped?: boolean
+      queued?: boolean
+      deliveryId?: string
+    }>
+  > {
     const workflows = workflowRegistry.listByTrigger(trigger, context)
 
     if (workflows.length === 0) {
@@ -38,8 +67,27 @@ class WorkflowExecutionService {
           }
         }
 
-        // Execute the workflow
-        return await this.executeWorkflow(workflow, trigger, payload, context?.userId)
+        // Transform before queueing, so transformPayload still sees the live payload
+        // (models, DateTimes); only its result is stored
+        const transformed = await this.applyTransform(workflow, payload)
+        if ('error' in transformed) {
+          return { workflowId: workflow.id, success: false, error: transformed.error }
+        }
+
+        // Persist the run; the delivery queue executes it and retries failures
+        const queued = await deliveryQueueService.enqueue({
+          kind: 'workflow',
+          workflowId: workflow.id,
+          event: trigger,
+          payload: transformed.payload,
+          userId: context?.userId ?? null,
+          maxAttempts:
+            workflow.type === 'webhook' && workflow.webhook?.retryOnFailure
+              ? workflow.webhook.retryAttempts || 3
+              : 1,
+          baseDelayMs: workflow.type === 'webhook' ? (workflow.webhook?.retryDelay ?? null) : null,
+        })
+        return { workflowId: workflow.id, success: true, queued: true, deliveryId: queued.id }
       })
     )
 
@@ -56,6 +104,29 @@ class WorkflowExecutionService {
     })
   }
 
+  /**
+   * Delivery queue callback: run a queued workflow once. The stored payload was
+   * transformed when it was queued.
+   */
+  async deliverQueued(item: QueuedDelivery): Promise<WorkflowRunResult> {
+    const workflow = item.workflowId ? workflowRegistry.get(item.workflowId) : undefined
+    if (!workflow || workflow.enabled === false) {
+      return {
+        workflowId: item.workflowId || '',
+        success: false,
+        error: 'Workflow not registered or disabled',
+        retryable: false,
+      }
+    }
+    return this.executeWorkflow(
+      workflow,
+      item.event as WorkflowTrigger,
+      item.payload,
+      item.userId ?? undefined,
+      { attempt: item.attempts, transformed: true }
+    )
+  }
+
   /**
    * Execute a single workflow
    */
@@ -63,9 +134,11 @@ class WorkflowExecutionService {
     workflow: WorkflowDefinition,
     trigger: WorkflowTrigger,
     payload: Record<string, any>,
-    userId?: number
-  ): Promise<{ workflowId: string; success: boolean; error?: string; skipped?: boolean }> {
-    if (workflow.type !== 'webhook') {
+    userId?: number,
+    options: { callStack?: string[]; attempt?: number; transformed?: boolean } = {}
+  ): Promise<WorkflowRunResult> {
+    const { callStack = [], attempt = 1, transformed = false } = options
+    if (workflow.type !== 'webhook' && workflow.type !== 'steps') {
       return {
         workflowId: workflow.id,
         success: false,
@@ -73,104 +146,217 @@ class WorkflowExecutionService {
       }
     }
 
-    const webhookUrl = workflowRegistry.getWebhookUrl(workflow.id)
-    if (!webhookUrl) {
+    let finalPayload = payload
+    if (!transformed) {
+      const result = await this.applyTransform(workflow, payload)
+      if ('error' in result) {
+        return { workflowId: workflow.id, success: false, error: result.error }
+      }
+      finalPayload = result.payload
+    }
+
+    if (workflow.type === 'steps') {
+      return this.executeSteps(workflow, trigger, finalPayload, userId, callStack, attempt)
+    }
+
+    return this.executeWebhook(workflow, trigger, finalPayload, userId, attempt)
+  }
+
+  /**
+   * Apply the workflow's transformPayload, if it has one
+   */
+  private async applyTransform(
+    workflow: WorkflowDefinition,
+    payload: Record<string, any>
+  ): Promise<{ payload: Record<string, any> } | { error: string }> {
+    if (!workflow.transformPayload) return { payload }
+    try {
+      return { payload: await workflow.transformPayload(payload) }
+    } catch (error: any) {
+      return { error: `Payload transformation failed: ${error?.message}` }
+    }
+  }
+
+  /**
+   * Run the built-in steps of a `steps` workflow in order.
+   * Each step's condition and transformPayload see the payload as left by the previous step.
+   */
+  private async executeSteps(
+    workflow: WorkflowDefinition,
+    trigger: WorkflowTrigger,
+    payload: Record<string, any>,
+    userId: number | undefined,
+    callStack: string[],
+    attempt: number
+  ): Promise<WorkflowRunResult> {
+    const stack = [...callStack, workflow.id]
+    if (stack.length > MAX_CALL_DEPTH) {
       return {
         workflowId: workflow.id,
         success: false,
-        error: 'Webhook URL not configured',
+        error: `Workflow call depth exceeded (${stack.join(' → ')})`,
       }
     }
 
-    // Transform payload if transformation function is provided
-    let finalPayload = payload
-    if (workflow.transformPayload) {
+    const context: WorkflowStepContext = { workflowId: workflow.id, trigger, userId, results: {} }
+    let current: any = payload
+    const errors: string[] = []
+
+    const steps = workflow.steps || []
+    for (const [index, step] of steps.entries()) {
+      const key = step.id || `step-${index}`
       try {
-        finalPayload = await workflow.transformPayload(payload)
-      } catch (error: any) {
-        return {
-          workflowId: workflow.id,
-          success: false,
-          error: `Payload transformation failed: ${error?.message}`,
+        if (step.condition && !(await step.condition(current, context))) {
+          context.results[key] = { skipped: true }
+          continue
+        }
+        if (step.transformPayload) {
+          current = await step.transformPayload(current, context)
+        }
+
+        if (step.type === 'call-workflow') {
+          context.results[key] = await this.callWorkflow(
+            step.workflowId,
+            trigger,
+            current,
+            userId,
+            stack
+          )
+        } else {
+          context.results[key] = await workflowStepExecutorService.execute(step, current, context)
         }
+      } catch (error: any) {
+        const message = `Step "${key}" (${step.type}) failed: ${error?.message || 'Unknown error'}`
+        context.results[key] = { error: error?.message || 'Unknown error' }
+        errors.push(message)
+        if (!step.continueOnError) break
+      }
+    }
+
+    const success = errors.length === 0
+    await this.logExecution(workflow.id, trigger, userId, {
+      success,
+      attempt,
+      error: success ? undefined : errors.join('; '),
+    })
+
+    return {
+      workflowId: workflow.id,
+      success,
+      error: success ? undefined : errors.join('; '),
+      steps: context.results,
+    }
+  }
+
+  /**
+   * `call-workflow` step: run another registered workflow with the current payload
+   */
+  private async callWorkflow(
+    workflowId: string,
+    trigger: WorkflowTrigger,
+    payload: any,
+    userId: number | undefined,
+    callStack: string[]
+  ): Promise<WorkflowRunResult> {
+    if (callStack.includes(workflowId)) {
+      throw new Error(`Workflow call cycle detected (${[...callStack, workflowId].join(' → ')})`)
+    }
+    const target = workflowRegistry.get(workflowId)
+    if (!target) {
+      throw new Error(`Workflow "${workflowId}" is not registered`)
+    }
+    if (target.enabled === false) {
+      return { workflowId, success: false, skipped: true }
+    }
+    const result = await this.executeWorkflow(target, trigger, payload, userId, { callStack })
+    if (!result.success) {
+      throw new Error(result.error || `Workflow "${workflowId}" failed`)
+    }
+    return result
+  }
+
+  /**
+   * POST the payload to the workflow's webhook (one attempt; the delivery queue retries)
+   */
+  private async executeWebhook(
+    workflow: WorkflowDefinition,
+    trigger: WorkflowTrigger,
+    finalPayload: Record<string, any>,
+    userId: number | undefined,
+    attempt: number
+  ): Promise<WorkflowRunResult> {
+    const webhook = workflow.webhook!
+    const webhookUrl = workflowRegistry.getWebhookUrl(workflow.id)
+    if (!webhookUrl) {
+      return {
+        workflowId: workflow.id,
+        success: false,
+        error: 'Webhook URL not configured',
+        retryable: false,
       }
     }
 
     // Build headers
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
-      ...(workflow.webhook.headers || {}),
+      ...(webhook.headers || {}),
     }
 
     // Add authentication
-    if (workflow.webhook.secret) {
-      if (workflow.webhook.secretHeader) {
-        headers[workflow.webhook.secretHeader] = workflow.webhook.secret
+    if (webhook.secret) {
+      if (webhook.secretHeader) {
+        headers[webhook.secretHeader] = webhook.secret
       } else {
-        headers['Authorization'] = `Bearer ${workflow.webhook.secret}`
+        headers['Authorization'] = `Bearer ${webhook.secret}`
       }
     }
 
     // Get timeout
     const timeout = workflowRegistry.getTimeout(workflow.id)
 
-    // Execute webhook with retry logic
-    const maxAttempts = workflow.webhook.retryOnFailure ? workflow.webhook.retryAttempts || 3 : 1
-
-    let lastError: Error | null = null
-
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-      try {
-        const controller = new AbortController()
-        const timeoutId = setTimeout(() => controller.abort(), timeout)
-
-        const response = await fetch(webhookUrl, {
-          method: workflow.webhook.method || 'POST',
-          headers,
-          body: JSON.stringify(finalPayload),
-          signal: controller.signal,
-        })
+    let statusCode: number | undefined
+    try {
+      const controller = new AbortController()
+      const timeoutId = setTimeout(() => controller.abort(), timeout)
 
-        clearTimeout(timeoutId)
+      const response = await fetch(webhookUrl, {
+        method: webhook.method || 'POST',
+        headers,
+        body: JSON.stringify(finalPayload),
+        signal: controller.signal,
+      })
 
-        if (!response.ok) {
-          const text = await response.text().catch(() => '')
-          throw new Error(`HTTP ${response.status}: ${text}`)
-        }
+      clearTimeout(timeoutId)
+      statusCode = response.status
 
-        // Success - log execution
-        await this.logExecution(workflow.id, trigger, userId, {
-          success: true,
-          attempt,
-          statusCode: response.status,
-        })
+      if (!response.ok) {
+        const text = await response.text().catch(() => '')
+        throw new Error(`HTTP ${response.status}: ${text}`)
+      }
 
-        return { workflowId: workflow.id, success: true }
-      } catch (error: any) {
-        lastError = error
+      // Success - log execution
+      await this.logExecution(workflow.id, trigger, userId, {
+        success: true,
+        attempt,
+        statusCode: response.status,
+      })
 
-        // If this is the last attempt, don't retry
-        if (attempt >= maxAttempts) {
-          break
-        }
+      return { workflowId: workflow.id, success: true, statusCode }
+    } catch (error: any) {
+      await this.logExecution(workflow.id, trigger, userId, {
+        success: false,
+        attempt,
+        statusCode,
+        error: error?.message || 'Unknown error',
+      })
 
-        // Wait before retrying
-        const delay = workflow.webhook.retryDelay || 1000
-        await new Promise((resolve) => setTimeout(resolve, delay * attempt)) // Exponential backoff
+      return {
+        workflowId: workflow.id,
+        success: false,
+        statusCode,
+        error: error?.message || 'Workflow execution failed',
       }
     }
-
-    // All attempts failed - log execution
-    await this.logExecution(workflow.id, trigger, userId, {
-      success: false,
-      error: lastError?.message || 'Unknown error',
-    })
-
-    return {
-      workflowId: workflow.id,
-      success: false,
-      error: lastError?.message || 'Workflow execution failed',
-    }
   }
 
   /**
@@ -1,10 +1,20 @@
 import type {
   WorkflowDefinition,
+  WorkflowStep,
   WorkflowTrigger,
   WorkflowTriggerConfig,
 } from '#types/workflow_types'
 import env from '#start/env'
 
+const STEP_TYPES: WorkflowStep['type'][] = [
+  'email',
+  'agent',
+  'change-status',
+  'assign-terms',
+  'create-feedback',
+  'call-workflow',
+]
+
 /**
  * Central registry for managing workflow definitions
  * Singleton service that provides runtime access to workflow configurations
@@ -24,16 +34,33 @@ class WorkflowRegistry {
     if (definition.type === 'webhook' && !definition.webhook) {
       throw new Error(`Workflow "${definition.id}" is webhook type but missing webhook config`)
     }
+    if (definition.type === 'steps') {
+      if (!Array.isArray(definition.steps) || definition.steps.length === 0) {
+        throw new Error(`Workflow "${definition.id}" is steps type but has no steps`)
+      }
+      for (const step of definition.steps) {
+        if (!STEP_TYPES.includes(step.type)) {
+          throw new Error(
+            `Workflow "${definition.id}" has unknown step type "${(step as any).type}"`
+          )
+        }
+        if (step.type === 'call-workflow' && step.workflowId === definition.id) {
+          throw new Error(`Workflow "${definition.id}" cannot call itself`)
+        }
+      }
+    }
 
     // Set defaults
     definition.enabled = definition.enabled !== false
-    definition.webhook = {
-      ...definition.webhook,
-      method: definition.webhook.method || 'POST',
-      timeout: definition.webhook.timeout || 30000,
-      retryOnFailure: definition.webhook.retryOnFailure || false,
-      retryAttempts: definition.webhook.retryAttempts || 3,
-      retryDelay: definition.webhook.retryDelay || 1000,
+    if (definition.webhook) {
+      definition.webhook = {
+        ...definition.webhook,
+        method: definition.webhook.method || 'POST',
+        timeout: definition.webhook.timeout || 30000,
+        retryOnFailure: definition.webhook.retryOnFailure || false,
+        retryAttempts: definition.webhook.retryAttempts || 3,
+        retryDelay: definition.webhook.retryDelay || 1000,
+      }
     }
 
     definition.triggers = definition.triggers.map((trigger) => ({
@@ -52,6 +79,20 @@ class WorkflowRegistry {
     return this.workflows.get(id)
   }
 
+  /**
+   * Check if a workflow is registered
+   */
+  has(id: string): boolean {
+    return this.workflows.has(id)
+  }
+
+  /**
+   * Remove all workflows (used by tests)
+   */
+  clear(): void {
+    this.workflows.clear()
+  }
+
   /**
    * List all registered workflows
    */
@@ -0,0 +1,204 @@
+import type {
+  AgentWorkflowStep,
+  AssignTermsWorkflowStep,
+  ChangeStatusWorkflowStep,
+  CreateFeedbackWorkflowStep,
+  EmailWorkflowStep,
+  WorkflowStep,
+  WorkflowStepContext,
+  WorkflowValue,
+} from '#types/workflow_types'
+import db from '@adonisjs/lucid/services/db'
+import mail from '@adonisjs/mail/services/main'
+import Post from '#models/post'
+import { getUserIdForWorkflow } from '#services/workflow_user_service'
+import { escapeHtml } from '#helpers/lexical_renderer'
+
+/**
+ * Workflow Step Executor Service
+ *
+ * Runs the built-in (in-process) step types of `steps` workflows.
+ * `call-workflow` is handled by workflow_execution_service since it recurses.
+ */
+class WorkflowStepExecutorService {
+  /**
+   * Execute a single step and return its result (stored under the step id)
+   */
+  async execute(
+    step: Exclude<WorkflowStep, { type: 'call-workflow' }>,
+    payload: any,
+    context: WorkflowStepContext
+  ): Promise<any> {
+    switch (step.type) {
+      case 'email':
+        return this.sendEmail(step, payload, context)
+      case 'agent':
+        return this.runAgent(step, payload, context)
+      case 'change-status':
+        return this.changeStatus(step, payload, context)
+      case 'assign-terms':
+        return this.assignTerms(step, payload, context)
+      case 'create-feedback':
+        return this.createFeedback(step, payload, context)
+      default:
+        throw new Error(`Unknown step type: ${(step as any).type}`)
+    }
+  }
+
+  /**
+   * Resolve a literal or function value; strings get `{{path}}` interpolation.
+   * With `html`, interpolated values are HTML-escaped (the template itself is not).
+   */
+  async resolve<T>(
+    value: WorkflowValue<T> | undefined,
+    payload: any,
+    context: WorkflowStepContext,
+    options: { html?: boolean } = {}
+  ): Promise<T | undefined> {
+    const resolved =
+      typeof value === 'function'
+        ? await (value as (p: any, c: WorkflowStepContext) => T | Promise<T>)(payload, context)
+        : value
+    if (typeof resolved === 'string') {
+      return this.interpolate(resolved, { ...payload, steps: context.results }, options) as T
+    }
+    return resolved
+  }
+
+  /**
+   * Replace `{{path.to.value}}` placeholders; unknown paths are left as-is
+   */
+  interpolate(
+    template: string,
+    variables: Record<string, any>,
+    options: { html?: boolean } = {}
+  ): string {
+    return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (match, path: string) => {
+      const value = path.split('.').reduce((current: any, key) => current?.[key], variables)
+      if (value === undefined || value === null) return match
+      return options.html ? escapeHtml(String(value)) : String(value)
+    })
+  }
+
+  private async resolvePostId(
+    value: WorkflowValue<string> | undefined,
+    payload: any,
+    context: WorkflowStepContext
+  ): Promise<string> {
+    const postId = value
+      ? await this.resolve(value, payload, context)
+      : payload?.post?.id || payload?.postId
+    if (!postId) {
+      throw new Error('No post id in payload (set postId on the step)')
+    }
+    return String(postId)
+  }
+
+  private async sendEmail(step: EmailWorkflowStep, payload: any, context: WorkflowStepContext) {
+    const toValue = await this.resolve(step.to, payload, context)
+    const to = (Array.isArray(toValue) ? toValue : [toValue])
+      .map((address) => String(address || '').trim())
+      .filter(Boolean)
+    if (to.length === 0) {
+      throw new Error('Email step has no recipients')
+    }
+    const subject = (await this.resolve(step.subject, payload, context)) || ''
+    const html = await this.resolve(step.html, payload, context, { html: true })
+    const text = await this.resolve(step.text, payload, context)
+    if (!html && !text) {
+      throw new Error('Email step needs html or text content')
+    }
+
+    await mail.send((message) => {
+      message.to(to[0])
+      for (const address of to.slice(1)) message.to(address)
+      if (step.from) message.from(step.from)
+      message.subject(subject)
+      if (html) message.html(html)
+      if (text) message.text(text)
+    })
+
+    return { to, subject }
+  }
+
+  private async runAgent(step: AgentWorkflowStep, payload: any, context: WorkflowStepContext) {
+    const postId = await this.resolvePostId(step.postId, payload, context)
+    const extra = (await this.resolve(step.context, payload, context)) || {}
+    const { default: agentTriggerService } = await import('#services/agent_trigger_service')
+    const result = await agentTriggerService.runAgentForPost(step.agentId, postId, {
+      ...extra,
+      viewMode: step.viewMode || 'source',
+      userId: context.userId,
+      workflowId: context.workflowId,
+    })
+    if (!result.success) {
+      throw result.error || new Error(`Agent "${step.agentId}" failed`)
+    }
+    return { agentId: step.agentId, postId, success: true }
+  }
+
+  private async changeStatus(
+    step: ChangeStatusWorkflowStep,
+    payload: any,
+    context: WorkflowStepContext
+  ) {
+    const postId = await this.resolvePostId(step.postId, payload, context)
+    const { default: UpdatePost } = await import('#actions/posts/update_post')
+    const post = await UpdatePost.handle({ postId, status: step.status })
+    return { postId, status: post.status }
+  }
+
+  private async assignTerms(
+    step: AssignTermsWorkflowStep,
+    payload: any,
+    context: WorkflowStepContext
+  ) {
+    const postId = await this.resolvePostId(step.postId, payload, context)
+    const post = await Post.findOrFail(postId)
+    const requested = ((await this.resolve(step.termIds, payload, context)) || []).map(String)
+
+    let termIds = requested
+    if (!step.replace) {
+      const existing = await db
+        .from('post_taxonomy_terms')
+        .where('post_id', postId)
+        .select('taxonomy_term_id')
+      termIds = Array.from(
+        new Set([...existing.map((r: any) => String(r.taxonomy_term_id)), ...requested])
+      )
+    }
+
+    const { default: ApplyPostTaxonomyAssignments } = await import(
+      '#actions/posts/apply_post_taxonomy_assignments'
+    )
+    await ApplyPostTaxonomyAssignments.handle({ postId, postType: post.type, termIds })
+    return { postId, termIds }
+  }
+
+  private async createFeedback(
+    step: CreateFeedbackWorkflowStep,
+    payload: any,
+    context: WorkflowStepContext
+  ) {
+    const postId = await this.resolvePostId(step.postId, payload, context)
+    const content = await this.resolve(step.content, payload, context)
+    if (!content) {
+      throw new Error('Feedback step has no content')
+    }
+    // Attribute to the workflow's own user account when it has one
+    const userId = (await getUserIdForWorkflow(context.workflowId)) ?? context.userId ?? null
+    const { default: CreateFeedback } = await import('#actions/feedbacks/create_feedback')
+    const feedback = await CreateFeedback.handle({
+      postId,
+      userId,
+      mode: step.mode || 'review',
+      content,
+      type: step.feedbackType || 'comment',
+      context: { workflowId: context.workflowId, trigger: context.trigger },
+    })
+    return { postId, feedbackId: feedback.id }
+  }
+}
+
+const workflowStepExecutorService = new WorkflowStepExecutorService()
+export default workflowStepExecutorService
@@ -0,0 +1,365 @@
+import { XMLParser } from 'fast-xml-parser'
+import Post from '#models/post'
+import PostSerializerService, { type CanonicalPost } from '#services/post_serializer_service'
+import postTypeConfigService from '#services/post_type_config_service'
+import moduleRegistry from '#services/module_registry'
+import type { CustomFieldDefinition } from '#types/custom_field'
+
+export type XliffUnit = {
+  id: string
+  source: string
+  target?: string | null
+  note?: string | null
+}
+
+export type XliffFile = {
+  id: string
+  original: string | null
+  units: XliffUnit[]
+}
+
+export type XliffDocument = {
+  srcLang: string
+  trgLang: string
+  files: XliffFile[]
+}
+
+/**
+ * Thrown for malformed or unsupported XLIFF input
+ */
+export class XliffException extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message)
+    this.name = 'XliffException'
+  }
+}
+
+/**
+ * Core post fields that are always sent for translation
+ */
+export const XLIFF_POST_FIELDS = ['title', 'excerpt', 'metaTitle', 'metaDescription'] as const
+
+type TextVisitor = (path: string, text: string) => string
+
+function joinPath(path: string[]): string {
+  return path.join('.')
+}
+
+/**
+ * Visit the text nodes of a Lexical JSON tree, returning a copy with the
+ * visitor's replacements applied
+ */
+function mapLexicalText(node: any, path: string[], visit: TextVisitor): any {
+  if (!node || typeof node !== 'object') return node
+  let next = node
+  if (node.type === 'text' && typeof node.text === 'string' && node.text.trim()) {
+    next = { ...next, text: visit(joinPath([...path, 'text']), node.text) }
+  }
+  if (Array.isArray(node.children)) {
+    next = {
+      ...next,
+      children: node.children.map((child: any, i: number) =>
+        mapLexicalText(child, [...path, 'children', String(i)], visit)
+      ),
+    }
+  }
+  return next
+}
+
+/**
+ * Walk a field value along its definition and visit every translatable string.
+ *
+ * A field is translatable when it, or a containing object/repeater, is marked
+ * `translatable: true`. Rich text is visited per Lexical text node. The same
+ * walk is used to extract source strings and to write translations back, so
+ * unit paths always line up.
+ */
+export function mapTranslatableText(
+  value: any,
+  def: CustomFieldDefinition,
+  path: string[],
+  visit: TextVisitor,
+  inherited = false
+): any {
+  const translatable = inherited || def.translatable === true
+  if (value === null || value === undefined) return value
+
+  switch (def.type) {
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) return value
+      const next = { ...value }
+      for (const field of def.fields || []) {
+        if (!(field.slug in next)) continue
+        next[field.slug] = mapTranslatableText(
+          next[field.slug],
+          field,
+          [...path, field.slug],
+          visit,
+          translatable
+        )
+      }
+      return next
+    }
+    case 'repeater': {
+      if (!Array.isArray(value) || !def.item) return value
+      return value.map((item, i) =>
+        mapTranslatableText(item, def.item!, [...path, String(i)], visit, translatable)
+      )
+    }
+    case 'richtext': {
+      if (!translatable) return value
+      if (typeof value === 'object') {
+        return value.root
+          ? { ...value, root: mapLexicalText(value.root, [...path, 'root'], visit) }
+          : value
+      }
+      if (typeof value !== 'string' || !value.trim()) return value
+      try {
+        const parsed = JSON.parse(value)
+        if (parsed && typeof parsed === 'object' && parsed.root) {
+          return JSON.stringify({
+            ...parsed,
+            root: mapLexicalText(parsed.root, [...path, 'root'], visit),
+          })
+        }
+      } catch {
+        // Markdown / plain text rich text
+      }
+      return visit(joinPath(path), value)
+    }
+    case 'text':
+    case 'textarea':
+      if (!translatable || typeof value !== 'string' || !value.trim()) return value
+      return visit(joinPath(path), value)
+    default:
+      return value
+  }
+}
+
+/**
+ * Unit id for a custom field or module prop path: `field:<slug>[:<path>]`,
+ * `module:<postModuleId>[:<path>]` or `post:<field>`
+ */
+function unitId(scope: 'post' | 'field' | 'module', key: string, path: string): string {
+  return path ? `${scope}:${key}:${path}` : `${scope}:${key}`
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_m, cdata: string) => escapeXml(cdata))
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_m, hex: string) =>
+      String.fromCodePoint(Number.parseInt(hex, 16))
+    )
+    .replace(/&#(\d+);/g, (_m, dec: string) => String.fromCodePoint(Number(dec)))
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * Serialize a document as XLIFF 2.0. Units are emitted with
+ * `canResegment="no"` so CAT tools keep one segment per field.
+ */
+export function buildXliff(doc: XliffDocument): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="${escapeXml(doc.srcLang)}" trgLang="${escapeXml(doc.trgLang)}">`,
+  ]
+  for (const file of doc.files) {
+    const original = file.original ? ` original="${escapeXml(file.original)}"` : ''
+    lines.push(`  <file id="${escapeXml(file.id)}"${original}>`)
+    for (const unit of file.units) {
+      lines.push(`    <unit id="${escapeXml(unit.id)}" canResegment="no" xml:space="preserve">`)
+      if (unit.note) {
+        lines.push(`      <notes><note category="context">${escapeXml(unit.note)}</note></notes>`)
+      }
+      lines.push('      <segment>')
+      lines.push(`        <source>${escapeXml(unit.source)}</source>`)
+      if (unit.target !== undefined && unit.target !== null) {
+        lines.push(`        <target>${escapeXml(unit.target)}</target>`)
+      }
+      lines.push('      </segment>')
+      lines.push('    </unit>')
+    }
+    lines.push('  </file>')
+  }
+  lines.push('</xliff>')
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Parse an XLIFF 2.0 document. Inline markup in source/target (e.g. `<mrk>`
+ * added by CAT tools) is reduced to its text.
+ */
+export function parseXliff(xml: string): XliffDocument {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    parseTagValue: false,
+    parseAttributeValue: false,
+    trimValues: false,
+    stopNodes: ['*.source', '*.target'],
+    isArray: (name) => ['file', 'unit', 'segment', 'group'].includes(name),
+  })
+
+  let parsed: any
+  try {
+    parsed = parser.parse(String(xml || ''))
+  } catch (error: any) {
+    throw new XliffException(`Invalid XML: ${error?.message || 'parse error'}`)
+  }
+
+  const root = parsed?.xliff
+  if (!root || typeof root !== 'object') throw new XliffException('Missing <xliff> root element')
+  if (!String(root.version || '').startsWith('2.')) {
+    throw new XliffException('Only XLIFF 2.x documents are supported')
+  }
+  if (!root.srcLang || !root.trgLang) {
+    throw new XliffException('srcLang and trgLang are required')
+  }
+
+  const text = (node: any): string | null => {
+    if (node === undefined || node === null) return null
+    const raw = typeof node === 'object' ? String(node['#text'] ?? '') : String(node)
+    return decodeXml(raw)
+  }
+
+  // Units may be nested in <group> elements
+  const collectUnits = (container: any, out: XliffUnit[]) => {
+    for (const unit of container?.unit || []) {
+      const segments = unit.segment || []
+      const targets = segments.map((s: any) => text(s.target))
+      out.push({
+        id: String(unit.id || ''),
+        source: segments.map((s: any) => text(s.source) ?? '').join(''),
+        target: targets.every((t: string | null) => t === null) ? null : targets.join(''),
+      })
+    }
+    for (const group of container?.group || []) collectUnits(group, out)
+  }
+
+  const files: XliffFile[] = (root.file || []).map((file: any) => {
+    const units: XliffUnit[] = []
+    collectUnits(file, units)
+    return { id: String(file.id || ''), original: file.original ?? null, units }
+  })
+
+  return { srcLang: String(root.srcLang), trgLang: String(root.trgLang), files }
+}
+
+/**
+ * Field schema of a module type, or an empty list when it is not registered
+ */
+export function moduleFieldSchema(type: string): CustomFieldDefinition[] {
+  if (!moduleRegistry.has(type)) return []
+  return (moduleRegistry.get(type).getConfig().fieldSchema || []) as CustomFieldDefinition[]
+}
+
+/**
+ * Translatable strings of a serialized post, keyed by XLIFF unit id
+ */
+export function extractUnits(canonical: CanonicalPost): XliffUnit[] {
+  const units: XliffUnit[] = []
+
+  for (const field of XLIFF_POST_FIELDS) {
+    const value = (canonical.post as any)[field]
+    if (typeof value === 'string' && value.trim()) {
+      units.push({ id: unitId('post', field, ''), source: value, note: field })
+    }
+  }
+
+  const definitions = postTypeConfigService.getUiConfig(canonical.post.type).fields || []
+  const values = new Map((canonical.post.customFields || []).map((cf) => [cf.slug, cf.value]))
+  for (const def of definitions as CustomFieldDefinition[]) {
+    if (!values.has(def.slug)) continue
+    mapTranslatableText(values.get(def.slug), def, [], (path, text) => {
+      units.push({
+        id: unitId('field', def.slug, path),
+        source: text,
+        note: def.label || def.slug,
+      })
+      return text
+    })
+  }
+
+  for (const m of canonical.modules) {
+    // Global modules are shared across posts and translated where they are managed
+    if (m.scope === 'global') continue
+    const schema: CustomFieldDefinition = {
+      slug: m.type,
+      type: 'object',
+      fields: moduleFieldSchema(m.type),
+    }
+    mapTranslatableText(m.props || {}, schema, [], (path, text) => {
+      units.push({
+        id: unitId('module', m.postModuleId, path),
+        source: text,
+        note: m.adminLabel || m.type,
+      })
+      return text
+    })
+  }
+
+  return units
+}
+
+/**
+ * XLIFF Service
+ *
+ * Exports posts for professional translation as XLIFF 2.0, one `<file>` per
+ * post. Import is handled by the ImportXliff action.
+ */
+class XliffService {
+  /**
+   * Build an XLIFF document for the given posts and target locale.
+   * Translations are exported from their original post.
+   */
+  async exportPosts(postIds: string[], targetLocale: string): Promise<string> {
+    const originals = new Map<string, Post>()
+    for (const id of postIds) {
+      const post = await Post.find(id)
+      if (!post) throw new XliffException(`Post not found: ${id}`, 404)
+      const original = post.isTranslation() ? await post.getOriginal() : post
+      originals.set(original.id, original)
+    }
+    if (originals.size === 0) throw new XliffException('No posts to export')
+
+    const sourceLocales = new Set(Array.from(originals.values()).map((p) => p.locale))
+    if (sourceLocales.size > 1) {
+      throw new XliffException('Posts must share one source locale to be exported together')
+    }
+    const [srcLang] = Array.from(sourceLocales)
+    if (srcLang === targetLocale) {
+      throw new XliffException('Target locale must differ from the source locale')
+    }
+
+    const files: XliffFile[] = []
+    for (const post of originals.values()) {
+      const canonical = await PostSerializerService.serialize(post.id, 'source')
+      files.push({
+        id: `post-${post.id}`,
+        original: `post:${post.id}`,
+        units: extractUnits(canonical),
+      })
+    }
+
+    return buildXliff({ srcLang, trgLang: targetLocale, files })
+  }
+}
+
+const xliffService = new XliffService()
+export default xliffService
@@ -24,7 +24,7 @@ export type AgentScope =
 /**
  * AI Provider type
  */
-export type AIProvider = 'openai' | 'anthropic' | 'google'
+export type AIProvider = 'openai' | 'anthropic' | 'google' | 'openai-compatible'
 
 /**
  * Configuration for agents (AI service-based)
@@ -84,6 +84,7 @@ export interface AgentConfig {
 
   /**
    * Base URL for custom providers (optional)
+   * For 'openai-compatible', defaults to the base URL in the AI settings
    */
   baseUrl?: string
 
@@ -1,11 +1,142 @@
-import type { CustomFieldDefinition } from './custom_field.js'
+export const FORM_FIELD_TYPES = [
+  'text',
+  'textarea',
+  'email',
+  'phone',
+  'number',
+  'date',
+  'url',
+  'select',
+  'multiselect',
+  'boolean',
+  'checkbox',
+  'file',
+] as const
+
+export type FormFieldType = (typeof FORM_FIELD_TYPES)[number]
+
+export interface FormFieldValidation {
+  /** Text length limits */
+  minLength?: number
+  maxLength?: number
+  /** Regular expression the whole value must match */
+  pattern?: string
+  /** Error shown when `pattern` does not match */
+  patternMessage?: string
+  /** Number range */
+  min?: number
+  max?: number
+  /** Date range (YYYY-MM-DD) */
+  minDate?: string
+  maxDate?: string
+}
+
+/**
+ * Show a field only when another field's value matches. Hidden fields are neither
+ * validated nor stored.
+ */
+export interface FormFieldCondition {
+  field: string
+  equals?: any
+  notEquals?: any
+  in?: any[]
+  /** true: the other field has a value; false: it is empty */
+  filled?: boolean
+}
+
+export interface FormFileOptions {
+  /** MIME types (`image/*`, `application/pdf`) or extensions (`.pdf`) */
+  accept?: string[]
+  /** Maximum size per file in bytes */
+  maxSize?: number
+  /** Maximum number of files (default 1) */
+  maxFiles?: number
+}
+
+export interface FormFieldDefinition {
+  slug: string
+  label?: string
+  type: FormFieldType
+  required?: boolean
+  description?: string
+  placeholder?: string
+  default?: any
+  options?: Array<{ label: string; value: any }>
+  validation?: FormFieldValidation
+  showIf?: FormFieldCondition
+  file?: FormFileOptions
+}
+
+export interface FormStep {
+  title: string
+  description?: string
+  /** Slugs of the fields on this step */
+  fields: string[]
+}
+
+/**
+ * Per-form spam protection; unset options fall back to the CMS_FORMS_* defaults
+ */
+export interface FormSpamProtection {
+  /** Set to false to turn off every check for this form */
+  enabled?: boolean
+  /** Name of the hidden field people leave empty, or false to disable the honeypot */
+  honeypot?: string | false
+  /** Submissions sent sooner after the form was loaded count as spam */
+  minFillSeconds?: number
+  /** Submissions per IP and window (seconds), or false to disable */
+  rateLimit?: { requests: number; window: number } | false
+  /** Challenge verifier (turnstile, hcaptcha, recaptcha or a registered one), or false */
+  challenge?: string | false
+  /** Score from which a submission is quarantined as spam */
+  threshold?: number
+}
+
+/**
+ * Email to the team for every submission. Subject and body are templates: `{{field_slug}}`,
+ * `{{form.title}}`, `{{submission.id}}` and `{{fields}}` (all submitted fields, one per line).
+ */
+export interface FormNotificationEmail {
+  recipients: string[]
+  /** Defaults to "New submission: {{form.title}}" */
+  subject?: string
+  /** Defaults to "{{fields}}" */
+  body?: string
+  /** Email field whose value becomes the Reply-To, so replies go to the submitter */
+  replyToField?: string
+}
+
+/**
+ * Confirmation email to the submitter, using the same templates as notifications
+ */
+export interface FormAutoresponderEmail {
+  /** Email field holding the submitter's address; nothing is sent when it is empty */
+  toField: string
+  subject: string
+  body: string
+  replyTo?: string
+}
+
+/**
+ * Inbox statuses of a submission; `spam` submissions are quarantined
+ */
+export const FORM_SUBMISSION_STATUSES = ['new', 'in_progress', 'done', 'spam'] as const
+
+export type FormSubmissionStatus = (typeof FORM_SUBMISSION_STATUSES)[number]
 
 export interface FormConfig {
   slug: string
   title: string
   description?: string
-  fields: CustomFieldDefinition[]
+  fields: FormFieldDefinition[]
+  /** Split the form into steps; fields not listed on any step are appended to the last one */
+  steps?: FormStep[]
   successMessage?: string
   thankYouPostId?: string
   subscriptions?: string[] // Webhook IDs
+  spamProtection?: FormSpamProtection
+  notifications?: FormNotificationEmail
+  autoresponder?: FormAutoresponderEmail
+  /** Where the form is defined: a file in app/forms or the admin form builder */
+  source?: 'code' | 'admin'
 }
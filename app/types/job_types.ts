@@ -0,0 +1,99 @@
+/**
+ * Job Types
+ * Defines the structure for file-based scheduled job definitions
+ */
+
+/**
+ * What started a job run
+ */
+export type JobTrigger = 'schedule' | 'manual'
+
+export type JobRunStatus = 'running' | 'succeeded' | 'failed'
+
+/**
+ * Context passed to a job handler
+ */
+export interface JobContext {
+  /**
+   * ID of the job_runs row recording this run
+   */
+  runId: string
+
+  trigger: JobTrigger
+
+  /**
+   * User who pressed "run now" (manual runs only)
+   */
+  userId: number | null
+
+  /**
+   * Scheduled minute this run belongs to (schedule runs only)
+   */
+  scheduledFor: Date | null
+}
+
+/**
+ * Scheduled job definition
+ */
+export interface JobDefinition {
+  /**
+   * Unique identifier (kebab-case)
+   */
+  id: string
+
+  /**
+   * Display name
+   */
+  name: string
+
+  /**
+   * Description of what the job does
+   */
+  description?: string
+
+  /**
+   * 5-field cron expression or macro (e.g. "0 3 * * *", "@hourly")
+   */
+  schedule: string
+
+  /**
+   * Whether the job runs on its schedule (default: true).
+   * Disabled jobs can still be run manually.
+   */
+  enabled?: boolean
+
+  /**
+   * Run in every process instead of taking the cluster-wide lock.
+   * Only for process-local work such as warming in-memory caches.
+   */
+  perProcess?: boolean
+
+  /**
+   * Lock lifetime (ms). A running job keeps extending it; another worker only takes
+   * over once a worker stopped (crashed) and the lock ran out.
+   * Falls back to cmsConfig.scheduling.lockTtl.
+   */
+  timeoutMs?: number
+
+  /**
+   * Job body. The returned object is stored on the run as its result summary.
+   */
+  handler: (context: JobContext) => Promise<Record<string, any> | void>
+}
+
+/**
+ * A recorded job run (job_runs row)
+ */
+export interface JobRun {
+  id: string
+  jobId: string
+  trigger: JobTrigger
+  status: JobRunStatus
+  worker: string | null
+  triggeredBy: number | null
+  startedAt: string
+  finishedAt: string | null
+  durationMs: number | null
+  result: Record<string, any> | null
+  error: string | null
+}
@@ -20,3 +20,16 @@ export function normalizeActiveVersion(input: unknown): ActiveVersion {
   if (v === 'ai-review' || v === 'ai_review') return 'ai-review'
   return 'source'
 }
+
+/**
+ * Translatable source strings recorded on a translation when it was last synced,
+ * keyed by XLIFF unit id (`post:title`, `field:<slug>:<path>`, `module:<id>:<path>`)
+ */
+export type SourceFingerprint = Record<
+  string,
+  {
+    hash: string
+    source: string
+    label: string | null
+  }
+>
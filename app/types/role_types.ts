@@ -9,65 +9,68 @@ export type RoleName = 'admin' | 'editor_admin' | 'editor' | 'translator' | 'ai_
  *
  * We keep these coarse-grained to avoid overfitting to implementation details.
  */
-export type PermissionKey =
+export const PERMISSION_KEYS = [
   // Site-level/admin shell
-  | 'admin.access'
-  | 'admin.users.manage'
-  | 'admin.roles.manage'
-  | 'admin.settings.view'
-  | 'admin.settings.update'
-  | 'admin.database.export'
-  | 'admin.database.import'
+  'admin.access',
+  'admin.users.manage',
+  'admin.roles.manage',
+  'admin.settings.view',
+  'admin.settings.update',
+  'admin.database.export',
+  'admin.database.import',
   // Content / posts
-  | 'posts.view'
-  | 'posts.create'
-  | 'posts.edit'
-  | 'posts.publish'
-  | 'posts.archive'
-  | 'posts.delete'
-  | 'posts.revisions.manage'
-  | 'posts.export'
-  | 'posts.review.save'
-  | 'posts.review.approve'
-  | 'posts.ai-review.save'
-  | 'posts.ai-review.approve'
+  'posts.view',
+  'posts.create',
+  'posts.edit',
+  'posts.publish',
+  'posts.archive',
+  'posts.delete',
+  'posts.revisions.manage',
+  'posts.export',
+  'posts.review.save',
+  'posts.review.approve',
+  'posts.ai-review.save',
+  'posts.ai-review.approve',
   // Media
-  | 'media.view'
-  | 'media.upload'
-  | 'media.edit'
-  | 'media.replace'
-  | 'media.delete'
-  | 'media.variants.generate'
-  | 'media.optimize'
+  'media.view',
+  'media.upload',
+  'media.edit',
+  'media.replace',
+  'media.delete',
+  'media.variants.generate',
+  'media.optimize',
   // Menus & navigation
-  | 'menus.view'
-  | 'menus.edit'
-  | 'menus.delete'
+  'menus.view',
+  'menus.edit',
+  'menus.delete',
   // Taxonomies
-  | 'taxonomies.view'
-  | 'taxonomies.edit'
-  | 'taxonomies.delete'
+  'taxonomies.view',
+  'taxonomies.edit',
+  'taxonomies.delete',
   // Forms
-  | 'forms.view'
-  | 'forms.edit'
-  | 'forms.delete'
-  | 'forms.submissions.export'
+  'forms.view',
+  'forms.edit',
+  'forms.delete',
+  'forms.submissions.export',
   // Global modules / design system
-  | 'globals.view'
-  | 'globals.edit'
-  | 'globals.delete'
+  'globals.view',
+  'globals.edit',
+  'globals.delete',
   // Agents / AI helpers
-  | 'agents.view'
-  | 'agents.edit'
-  | 'agents.dropdown' // Use agents in dropdown scope
-  | 'agents.global' // Use global floating agent button
-  | 'agents.field' // Use per-field agent buttons
+  'agents.view',
+  'agents.edit',
+  'agents.dropdown', // Use agents in dropdown scope
+  'agents.global', // Use global floating agent button
+  'agents.field', // Use per-field agent buttons
   // Workflows / Automation
-  | 'workflows.view' // View workflow definitions
-  | 'workflows.trigger' // Manually trigger workflows (for testing)
+  'workflows.view', // View workflow definitions
+  'workflows.trigger', // Manually trigger workflows (for testing)
   // Profiles
-  | 'profiles.view'
-  | 'profiles.edit'
+  'profiles.view',
+  'profiles.edit',
+] as const
+
+export type PermissionKey = (typeof PERMISSION_KEYS)[number]
 
 export interface RoleDefinition {
   /**
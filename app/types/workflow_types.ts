@@ -63,7 +63,7 @@ export interface WebhookWorkflowConfig {
   timeout?: number
 
   /**
-   * Whether to retry on failure (default: false)
+   * Whether the delivery queue should retry on failure (default: false)
    */
   retryOnFailure?: boolean
 
@@ -73,11 +73,170 @@ export interface WebhookWorkflowConfig {
   retryAttempts?: number
 
   /**
-   * Retry delay in milliseconds (default: 1000)
+   * Base retry delay in milliseconds, doubled per attempt (default: 1000)
    */
   retryDelay?: number
 }
 
+/**
+ * A step value: either a literal or a function of the (transformed) payload.
+ * String values may also reference payload fields with `{{path.to.value}}`.
+ */
+export type WorkflowValue<T> = T | ((payload: any, context: WorkflowStepContext) => T | Promise<T>)
+
+/**
+ * State shared between the steps of a single workflow run
+ */
+export interface WorkflowStepContext {
+  /**
+   * The workflow being executed
+   */
+  workflowId: string
+
+  /**
+   * The trigger that activated the workflow
+   */
+  trigger: WorkflowTrigger
+
+  /**
+   * User who triggered the workflow (if applicable)
+   */
+  userId?: number
+
+  /**
+   * Results of previously executed steps, keyed by step id (or `step-<index>`)
+   */
+  results: Record<string, any>
+}
+
+/**
+ * Fields shared by every built-in step type
+ */
+interface BaseWorkflowStep {
+  /**
+   * Step identifier used to key results (default: `step-<index>`)
+   */
+  id?: string
+
+  /**
+   * Skip this step unless the function returns true
+   */
+  condition?: (payload: any, context: WorkflowStepContext) => boolean | Promise<boolean>
+
+  /**
+   * Transform the payload before this step runs. The result is also
+   * handed to every following step.
+   */
+  transformPayload?: (payload: any, context: WorkflowStepContext) => any | Promise<any>
+
+  /**
+   * Keep running later steps if this one fails (default: false)
+   */
+  continueOnError?: boolean
+}
+
+/**
+ * Send an email through the configured mailer
+ */
+export interface EmailWorkflowStep extends BaseWorkflowStep {
+  type: 'email'
+  to: WorkflowValue<string | string[]>
+  subject: WorkflowValue<string>
+  html?: WorkflowValue<string>
+  text?: WorkflowValue<string>
+  /**
+   * Overrides the default `from` address in config/mail.ts
+   */
+  from?: string
+}
+
+/**
+ * Run an AI agent against a post
+ */
+export interface AgentWorkflowStep extends BaseWorkflowStep {
+  type: 'agent'
+  agentId: string
+  /**
+   * Target post (default: `payload.post.id` or `payload.postId`)
+   */
+  postId?: WorkflowValue<string>
+  /**
+   * Which version of the post the agent reads (default: 'source')
+   */
+  viewMode?: 'source' | 'review' | 'ai-review'
+  /**
+   * Extra context passed to the agent
+   */
+  context?: WorkflowValue<Record<string, any>>
+}
+
+/**
+ * Change a post's status
+ */
+export interface ChangeStatusWorkflowStep extends BaseWorkflowStep {
+  type: 'change-status'
+  status: 'draft' | 'review' | 'scheduled' | 'published' | 'private' | 'protected' | 'archived'
+  /**
+   * Target post (default: `payload.post.id` or `payload.postId`)
+   */
+  postId?: WorkflowValue<string>
+}
+
+/**
+ * Assign taxonomy terms to a post
+ */
+export interface AssignTermsWorkflowStep extends BaseWorkflowStep {
+  type: 'assign-terms'
+  termIds: WorkflowValue<string[]>
+  /**
+   * Replace existing assignments instead of adding to them (default: false)
+   */
+  replace?: boolean
+  /**
+   * Target post (default: `payload.post.id` or `payload.postId`)
+   */
+  postId?: WorkflowValue<string>
+}
+
+/**
+ * Create a feedback item on a post
+ */
+export interface CreateFeedbackWorkflowStep extends BaseWorkflowStep {
+  type: 'create-feedback'
+  content: WorkflowValue<string>
+  /**
+   * Feedback type (default: 'comment')
+   */
+  feedbackType?: string
+  /**
+   * Version the feedback applies to (default: 'review')
+   */
+  mode?: 'approved' | 'review' | 'ai-review'
+  /**
+   * Target post (default: `payload.post.id` or `payload.postId`)
+   */
+  postId?: WorkflowValue<string>
+}
+
+/**
+ * Run another registered workflow with the current payload
+ */
+export interface CallWorkflowWorkflowStep extends BaseWorkflowStep {
+  type: 'call-workflow'
+  workflowId: string
+}
+
+/**
+ * Built-in step executed in-process by workflow_execution_service
+ */
+export type WorkflowStep =
+  | EmailWorkflowStep
+  | AgentWorkflowStep
+  | ChangeStatusWorkflowStep
+  | AssignTermsWorkflowStep
+  | CreateFeedbackWorkflowStep
+  | CallWorkflowWorkflowStep
+
 /**
  * Trigger-specific configuration
  */
@@ -151,14 +310,21 @@ export interface WorkflowDefinition {
   description?: string
 
   /**
-   * Workflow type (currently only webhook is supported)
+   * Workflow type
+   * - webhook: POST the payload to an external endpoint
+   * - steps: run built-in steps in-process, in order
    */
-  type: 'webhook'
+  type: 'webhook' | 'steps'
 
   /**
    * Webhook configuration (required if type is 'webhook')
    */
-  webhook: WebhookWorkflowConfig
+  webhook?: WebhookWorkflowConfig
+
+  /**
+   * Steps to run in order (required if type is 'steps')
+   */
+  steps?: WorkflowStep[]
 
   /**
    * List of triggers that activate this workflow
@@ -173,7 +339,9 @@ export interface WorkflowDefinition {
 
   /**
    * Optional payload transformation
-   * If provided, the payload will be transformed before sending to webhook
+   * If provided, the payload will be transformed before the run is queued, so it
+   * sees the payload as emitted (models, DateTimes). Its result is stored as JSON:
+   * the webhook and the steps receive that serialized form.
    */
   transformPayload?: (payload: any) => any | Promise<any>
 
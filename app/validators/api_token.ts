@@ -0,0 +1,29 @@
+import vine from '@vinejs/vine'
+import { PERMISSION_KEYS } from '#types/role_types'
+
+/**
+ * API token validators
+ *
+ * Validation rules for personal API tokens and service accounts.
+ */
+
+/**
+ * Create API token validator
+ */
+export const createApiTokenValidator = vine.compile(
+  vine.object({
+    name: vine.string().trim().minLength(1).maxLength(100),
+    scopes: vine.array(vine.enum(PERMISSION_KEYS)).minLength(1),
+    expiresAt: vine.string().trim().optional(),
+  })
+)
+
+/**
+ * Create service account validator
+ */
+export const createServiceAccountValidator = vine.compile(
+  vine.object({
+    name: vine.string().trim().minLength(1).maxLength(100),
+    role: vine.enum(['admin', 'editor_admin', 'editor', 'translator']),
+  })
+)
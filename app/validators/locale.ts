@@ -14,10 +14,28 @@ export const updateLocaleValidator = vine.compile(
   vine.object({
     isEnabled: vine.boolean().optional(),
     isDefault: vine.boolean().optional(),
+    fallbacks: vine
+      .array(
+        vine
+          .string()
+          .trim()
+          .toLowerCase()
+          .regex(/^[a-z]{2}(-[a-z]{2})?$/)
+      )
+      .optional(),
+    hostname: vine
+      .string()
+      .trim()
+      .toLowerCase()
+      .regex(/^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)+$/)
+      .nullable()
+      .optional(),
   })
 )
 
 updateLocaleValidator.messagesProvider = new SimpleMessagesProvider({
   'isEnabled.boolean': 'isEnabled must be a boolean',
   'isDefault.boolean': 'isDefault must be a boolean',
+  'fallbacks.*.regex': 'Fallbacks must be locale codes (e.g. fr or fr-ca)',
+  'hostname.regex': 'Hostname must be a domain name without protocol or path (e.g. example.fr)',
 })
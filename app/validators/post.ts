@@ -81,6 +81,7 @@ export const updatePostValidator = vine.compile(
     robotsJson: vine.any().optional(),
     jsonldOverrides: vine.any().optional(),
     scheduledAt: vine.string().optional(),
+    unpublishAt: vine.string().nullable().optional(),
     mode: vine
       .enum([
         'publish',
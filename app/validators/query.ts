@@ -58,7 +58,9 @@ export const siteSearchQueryValidator = vine.compile(
     q: vine.string().trim().maxLength(500).optional(),
     type: vine.string().trim().maxLength(50).optional(),
     locale: vine.string().trim().minLength(2).maxLength(10).optional(),
+    term: vine.string().uuid().optional(),
     limit: vine.number().min(1).max(100).optional(),
+    page: vine.number().min(1).optional(),
   })
 )
 
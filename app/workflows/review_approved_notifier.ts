@@ -0,0 +1,51 @@
+import type { WorkflowDefinition } from '#types/workflow_types'
+
+/**
+ * Review Approved Notifier Workflow
+ *
+ * Emails the editorial team when a review draft is promoted to Source and,
+ * for scheduled approvals, leaves a feedback note on the post.
+ * Runs in-process with built-in steps (no external service).
+ *
+ * To enable:
+ * 1. Set enabled: true
+ * 2. Set REVIEW_NOTIFY_EMAIL (comma-separated for several recipients)
+ */
+const ReviewApprovedNotifierWorkflow: WorkflowDefinition = {
+  id: 'review-approved-notifier',
+  name: 'Review Approved Notifier',
+  description: 'Emails editors when review changes go live',
+  type: 'steps',
+  enabled: false, // Set to true to enable
+
+  triggers: [
+    {
+      trigger: 'post.review.approve',
+      order: 10,
+      enabled: true,
+    },
+  ],
+
+  steps: [
+    {
+      id: 'notify-editors',
+      type: 'email',
+      to: () => (process.env.REVIEW_NOTIFY_EMAIL || '').split(','),
+      subject: 'Review approved: {{post.title}}',
+      text: 'Review changes to "{{post.title}}" ({{post.type}}) are now live.',
+    },
+    {
+      id: 'note',
+      type: 'create-feedback',
+      mode: 'approved',
+      content: 'Scheduled review approval was applied.',
+      condition: (payload) => payload.scheduled === true,
+    },
+  ],
+
+  userAccount: {
+    enabled: true,
+  },
+}
+
+export default ReviewApprovedNotifierWorkflow
@@ -37,6 +37,11 @@ new Ignitor(APP_ROOT, { importer: IMPORTER })
     app.ready(() => {
       console.log('[ info ] HTTP server is ready')
     })
+    app.terminating(async () => {
+      // Write buffered redirect hit counts while the database connection is still open
+      const { default: redirectService } = await import('#services/redirect_service')
+      await redirectService.flushHits()
+    })
     app.listen('SIGTERM', () => app.terminate())
     app.listenIf(app.managedByPm2, 'SIGINT', () => app.terminate())
   })
@@ -0,0 +1,106 @@
+import { BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import fs from 'node:fs/promises'
+import agentRegistry from '#services/agent_registry'
+import agentEvalService, { type EvalFixtureResult } from '#services/agent_eval_service'
+
+export default class AgentEval extends BaseCommand {
+  static commandName = 'agent:eval'
+  static description =
+    'Replay saved post contexts through agents against recorded provider responses and check the results'
+
+  static options: CommandOptions = {
+    startApp: true,
+  }
+
+  @flags.string({
+    description: 'Directory of eval fixtures',
+    default: 'tests/agent_evals',
+  })
+  declare suite: string
+
+  @flags.string({ description: 'Only run fixtures for this agent id' })
+  declare agent?: string
+
+  @flags.boolean({
+    description: "Call the agent's configured provider instead of the recorded responses",
+  })
+  declare live: boolean
+
+  @flags.boolean({ description: 'With --live, save the new provider responses to the fixtures' })
+  declare record: boolean
+
+  @flags.string({ description: 'Write the JSON report to this path' })
+  declare out?: string
+
+  async run() {
+    if (this.record && !this.live) {
+      this.logger.error('--record requires --live')
+      this.exitCode = 1
+      return
+    }
+
+    const fixtures = await agentEvalService.loadSuite(this.app.makePath(this.suite), this.agent)
+    if (fixtures.length === 0) {
+      this.logger.warning(`No fixtures found in ${this.suite}`)
+      return
+    }
+
+    const results: EvalFixtureResult[] = []
+    for (const fixture of fixtures) {
+      const agent = agentRegistry.get(fixture.agent)
+      if (!agent) {
+        results.push({
+          name: fixture.name,
+          agent: fixture.agent,
+          file: fixture.file || null,
+          passed: false,
+          durationMs: 0,
+          error: `Unknown agent: ${fixture.agent}`,
+          assertions: [],
+        })
+        this.logger.error(`${fixture.name}: unknown agent "${fixture.agent}"`)
+        continue
+      }
+
+      const { result, recorded } = await agentEvalService.runFixture(fixture, agent, {
+        live: this.live,
+      })
+      results.push(result)
+      this.printResult(result)
+
+      if (this.record && recorded.length > 0) {
+        await agentEvalService.saveFixture({ ...fixture, responses: recorded })
+        this.logger.info(`Recorded ${recorded.length} response(s) to ${fixture.file}`)
+      }
+    }
+
+    const report = agentEvalService.summarize(results)
+    if (this.out) {
+      await fs.writeFile(this.out, JSON.stringify(report, null, 2), 'utf-8')
+      this.logger.info(`Wrote report to ${this.out}`)
+    }
+
+    const summary = `${report.total - report.failed}/${report.total} fixtures passed`
+    if (report.passed) {
+      this.logger.success(summary)
+    } else {
+      this.logger.error(summary)
+      this.exitCode = 1
+    }
+  }
+
+  private printResult(result: EvalFixtureResult) {
+    const label = `${result.agent} › ${result.name} (${result.durationMs}ms)`
+    if (result.passed) this.logger.success(label)
+    else this.logger.error(label)
+
+    for (const assertion of result.assertions) {
+      const mark = assertion.passed ? this.colors.green('✔') : this.colors.red('✖')
+      this.logger.log(`    ${mark} ${assertion.type}: ${assertion.message}`)
+    }
+    if (result.error) {
+      this.logger.log(`    ${this.colors.red('!')} Agent failed: ${result.error}`)
+    }
+  }
+}
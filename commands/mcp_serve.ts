@@ -5,7 +5,7 @@ import moduleScopeService from '#services/module_scope_service'
 import postTypeRegistry from '#services/post_type_registry'
 import postTypeConfigService from '#services/post_type_config_service'
 import agentRegistry from '#services/agent_registry'
-import formRegistry from '#services/form_registry'
+import formConfigService from '#services/form_config_service'
 import webhookService from '#services/webhook_service'
 import db from '@adonisjs/lucid/services/db'
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
@@ -271,7 +271,8 @@ function createServerInstance() {
           }
         })
 
-        const forms = formRegistry.list().map((f) => ({
+        const formConfigs = await formConfigService.list()
+        const forms = formConfigs.map((f) => ({
           slug: f.slug,
           name: f.title,
           description: f.description,
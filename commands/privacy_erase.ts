@@ -0,0 +1,64 @@
+import { BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import privacyService, { PrivacyException } from '#services/privacy_service'
+import activityLogService from '#services/activity_log_service'
+
+export default class PrivacyErase extends BaseCommand {
+  static commandName = 'privacy:erase'
+  static description =
+    "Delete a visitor's form submissions, uploads, queued emails and analytics events (data subject erasure request)"
+
+  static options: CommandOptions = {
+    startApp: true,
+  }
+
+  @flags.string({ description: 'Email address submitted in forms' })
+  declare email?: string
+
+  @flags.string({ description: "Visitor's IP address" })
+  declare ip?: string
+
+  @flags.string({ description: "Visitor's browser user agent (needed to match analytics events)" })
+  declare userAgent?: string
+
+  @flags.boolean({ description: 'Delete without asking for confirmation' })
+  declare force: boolean
+
+  async run() {
+    const subject = { email: this.email, ip: this.ip, userAgent: this.userAgent }
+    let records
+    try {
+      records = await privacyService.findSubjectData(subject)
+    } catch (e) {
+      if (!(e instanceof PrivacyException)) throw e
+      this.logger.error(e.message)
+      this.exitCode = 1
+      return
+    }
+
+    const found = `${records.formSubmissions.length} form submission(s), ${records.formUploads.length} uploaded file(s), ${records.queuedEmails.length} queued email(s) and ${records.analyticsEvents.length} analytics event(s)`
+    if (
+      records.formSubmissions.length === 0 &&
+      records.queuedEmails.length === 0 &&
+      records.analyticsEvents.length === 0
+    ) {
+      this.logger.info('No records found for this visitor')
+      return
+    }
+    if (!this.force && !(await this.prompt.confirm(`Delete ${found}?`))) {
+      this.logger.info('Nothing deleted')
+      return
+    }
+
+    const deleted = await privacyService.eraseSubjectData(subject)
+    // The log records counts only, never the identifiers that were searched for
+    await activityLogService.log({
+      action: 'privacy.erase',
+      entityType: 'data_subject',
+      metadata: deleted,
+    })
+    this.logger.success(
+      `Deleted ${deleted.formSubmissions} form submission(s), ${deleted.formUploads} uploaded file(s), ${deleted.queuedEmails} queued email(s) and ${deleted.analyticsEvents} analytics event(s)`
+    )
+  }
+}
@@ -0,0 +1,79 @@
+import { BaseCommand, flags } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import privacyService, { PrivacyException } from '#services/privacy_service'
+import formUploadService from '#services/form_upload_service'
+
+export default class PrivacyExport extends BaseCommand {
+  static commandName = 'privacy:export'
+  static description =
+    "Export a visitor's form submissions, uploads, queued emails and analytics events (data subject access request)"
+
+  static options: CommandOptions = {
+    startApp: true,
+  }
+
+  @flags.string({ description: 'Email address submitted in forms' })
+  declare email?: string
+
+  @flags.string({ description: "Visitor's IP address" })
+  declare ip?: string
+
+  @flags.string({ description: "Visitor's browser user agent (needed to match analytics events)" })
+  declare userAgent?: string
+
+  @flags.string({
+    description:
+      'Write the JSON export to this path instead of stdout (uploaded files are copied next to it)',
+  })
+  declare out?: string
+
+  async run() {
+    let records
+    try {
+      records = await privacyService.findSubjectData({
+        email: this.email,
+        ip: this.ip,
+        userAgent: this.userAgent,
+      })
+    } catch (e) {
+      if (!(e instanceof PrivacyException)) throw e
+      this.logger.error(e.message)
+      this.exitCode = 1
+      return
+    }
+
+    const json = JSON.stringify({ exportedAt: new Date().toISOString(), ...records }, null, 2)
+    if (this.out) {
+      await fs.writeFile(this.out, json, 'utf-8')
+      const copied = await this.copyUploads(records.formUploads.map((u) => u.key))
+      this.logger.success(
+        `Exported ${records.formSubmissions.length} form submission(s), ${copied} uploaded file(s), ${records.queuedEmails.length} queued email(s) and ${records.analyticsEvents.length} analytics event(s) to ${this.out}`
+      )
+    } else {
+      this.logger.log(json)
+    }
+  }
+
+  /**
+   * Copy uploaded files to `<out>-files/<key>`, so they sit next to the export
+   */
+  private async copyUploads(keys: string[]): Promise<number> {
+    const dir = `${this.out!.replace(/\.json$/i, '')}-files`
+    let copied = 0
+    for (const key of keys) {
+      const source = formUploadService.resolve(key)
+      if (!source) continue
+      const dest = path.join(dir, key)
+      try {
+        await fs.mkdir(path.dirname(dest), { recursive: true })
+        await fs.copyFile(source, dest)
+        copied++
+      } catch {
+        this.logger.warning(`Uploaded file ${key} is missing`)
+      }
+    }
+    return copied
+  }
+}
@@ -0,0 +1,18 @@
+import { BaseCommand } from '@adonisjs/core/ace'
+import type { CommandOptions } from '@adonisjs/core/types/ace'
+import searchIndexService from '#services/search_index_service'
+
+export default class SearchReindex extends BaseCommand {
+  static commandName = 'search:reindex'
+  static description = 'Rebuild the site search index from published posts and their module content'
+
+  static options: CommandOptions = {
+    startApp: true,
+  }
+
+  async run() {
+    const startedAt = Date.now()
+    const indexed = await searchIndexService.reindexAll()
+    this.logger.success(`Indexed ${indexed} published posts in ${Date.now() - startedAt}ms`)
+  }
+}
@@ -82,6 +82,42 @@ const cmsConfig = {
     apiRequests: env.get('CMS_RATE_LIMIT_API_REQUESTS') ?? 120,
     /** API endpoint window duration */
     apiWindow: env.get('CMS_RATE_LIMIT_API_WINDOW') ?? 60,
+    /** Public form submissions per IP and form */
+    formRequests: env.get('CMS_FORMS_RATE_LIMIT_REQUESTS') ?? 10,
+    /** Public form submission window in seconds */
+    formWindow: env.get('CMS_FORMS_RATE_LIMIT_WINDOW') ?? 3600,
+  },
+
+  /**
+   * Spam protection defaults for public forms (forms can override them via `spamProtection`)
+   */
+  formSpam: {
+    /** Minimum seconds between loading a form and submitting it */
+    minFillSeconds: env.get('CMS_FORMS_MIN_FILL_SECONDS') ?? 3,
+    /** Spam score from which a submission is quarantined */
+    threshold: env.get('CMS_FORMS_SPAM_THRESHOLD') ?? 1,
+    /** Challenge verifier for all forms (turnstile | hcaptcha | recaptcha), empty for none */
+    challenge: env.get('CMS_FORMS_CHALLENGE') ?? '',
+    challengeSiteKey: env.get('CMS_FORMS_CHALLENGE_SITE_KEY') ?? '',
+    challengeSecret: env.get('CMS_FORMS_CHALLENGE_SECRET') ?? '',
+    /** Secret for signing the form load tokens used by the timing check */
+    tokenSecret: env.get('APP_KEY'),
+  },
+
+  /**
+   * Form notification and autoresponder emails (sent through the delivery queue)
+   */
+  formEmails: {
+    /** Send attempts before an email is marked as failed */
+    maxAttempts: env.get('CMS_FORMS_EMAIL_MAX_ATTEMPTS') ?? 5,
+  },
+
+  /**
+   * Files uploaded through public forms
+   */
+  formUploads: {
+    /** Private directory (relative to the app root) outside public/; files are served to admins only */
+    root: env.get('CMS_FORMS_UPLOAD_ROOT') ?? 'storage/form-uploads',
   },
 
   /**
@@ -113,14 +149,81 @@ const cmsConfig = {
       .filter(Boolean),
   },
 
+  /**
+   * GraphQL query limits; queries over either limit are rejected before they run
+   */
+  graphql: {
+    /** Deepest nesting of fields */
+    maxDepth: env.get('CMS_GRAPHQL_MAX_DEPTH') ?? 8,
+    /** Estimated cost: one per field, multiplied by list sizes */
+    maxComplexity: env.get('CMS_GRAPHQL_MAX_COMPLEXITY') ?? 5000,
+  },
+
+  /**
+   * Outbound delivery queue (webhooks and workflows)
+   */
+  deliveries: {
+    /** Seconds before the first retry; doubles on each later attempt */
+    backoffBase: env.get('CMS_DELIVERY_BACKOFF_BASE') ?? 30,
+    /** Upper bound for the retry delay in seconds */
+    backoffMax: env.get('CMS_DELIVERY_BACKOFF_MAX') ?? 21600,
+    /** Items claimed per worker pass */
+    batchSize: env.get('CMS_DELIVERY_BATCH_SIZE') ?? 50,
+    /** Days to keep delivered items (dead-lettered items are kept until replayed or deleted) */
+    retentionDays: env.get('CMS_DELIVERY_RETENTION_DAYS') ?? 14,
+  },
+
   /**
    * Scheduling settings
    */
   scheduling: {
-    /** Scheduler check interval in seconds (dev) */
-    devInterval: env.get('CMS_SCHEDULER_DEV_INTERVAL') ?? 30,
-    /** Scheduler check interval in seconds (prod) */
-    prodInterval: env.get('CMS_SCHEDULER_PROD_INTERVAL') ?? 60,
+    /** Seconds a job lock lasts without being extended; running jobs keep extending it */
+    lockTtl: env.get('CMS_SCHEDULER_LOCK_TTL') ?? 600,
+    /** Run history rows kept per job (0 = unlimited) */
+    historyLimit: env.get('CMS_SCHEDULER_HISTORY_LIMIT') ?? 200,
+  },
+
+  /**
+   * Native analytics settings
+   */
+  analytics: {
+    /** Days to keep raw analytics events once rolled up into daily totals (0 = keep forever) */
+    retentionDays: env.get('CMS_ANALYTICS_RETENTION_DAYS') ?? 90,
+  },
+
+  /**
+   * Visitor privacy (public analytics tracking and form submissions)
+   */
+  privacy: {
+    /**
+     * off: track every visitor; required: track only after consent;
+     * cookieless: without consent, record anonymous page views only
+     */
+    consentMode: env.get('CMS_ANALYTICS_CONSENT_MODE') ?? 'off',
+    /** Cookie set by the site's consent banner ("granted" enables full tracking) */
+    consentCookie: env.get('CMS_ANALYTICS_CONSENT_COOKIE') ?? 'cms_analytics_consent',
+    /** How form submissions store the visitor IP: full | truncate | hash | none */
+    ipMode: env.get('CMS_PRIVACY_IP_MODE') ?? 'truncate',
+    /** Hours before the salt used for visitor and IP hashes is replaced */
+    saltRotationHours: env.get('CMS_PRIVACY_SALT_ROTATION_HOURS') ?? 24,
+  },
+
+  /**
+   * Site search settings
+   */
+  search: {
+    /** Postgres text search configuration per locale (falls back to 'simple') */
+    languageConfigs: {
+      en: 'english',
+      es: 'spanish',
+      fr: 'french',
+      de: 'german',
+      it: 'italian',
+      pt: 'portuguese',
+      nl: 'dutch',
+    } as Record<string, string>,
+    /** Maximum words in a highlighted snippet */
+    snippetMaxWords: 35,
   },
 
   /**
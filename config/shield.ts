@@ -92,7 +92,11 @@ const shieldConfig = defineConfig({
    */
   csrf: {
     enabled: !isTest,
-    exceptRoutes: ['/api/forms/:slug', '/api/public/analytics/track'],
+    // API token requests authenticate with the Authorization header, not the session cookie
+    exceptRoutes: (ctx) =>
+      ['/api/forms/:slug', '/api/public/analytics/track', '/api/graphql'].includes(
+        ctx.route?.pattern || ''
+      ) || /^Bearer\s+eos_pat_/i.test(ctx.request.header('authorization') || ''),
     enableXsrfCookie: true,
     methods: ['POST', 'PUT', 'PATCH', 'DELETE'],
   },
@@ -0,0 +1,44 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+/**
+ * Full-text search index
+ *
+ * One row per published post. `body` holds the plain text extracted from the
+ * post's modules; `search_vector` is the weighted tsvector built with the
+ * Postgres text search configuration that matches the post's locale.
+ */
+export default class extends BaseSchema {
+  protected tableName = 'search_documents'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.uuid('id').primary().defaultTo(this.db.rawQuery('gen_random_uuid()').knexQuery)
+      table
+        .uuid('post_id')
+        .notNullable()
+        .unique()
+        .references('id')
+        .inTable('posts')
+        .onDelete('CASCADE')
+      table.string('post_type', 50).notNullable()
+      table.string('locale', 10).notNullable()
+      table.string('search_config', 50).notNullable().defaultTo('simple')
+      table.string('title', 500).notNullable()
+      table.text('excerpt').nullable()
+      table.text('body').nullable()
+      table.specificType('search_vector', 'tsvector').notNullable()
+      table.timestamp('indexed_at', { useTz: true }).notNullable().defaultTo(this.now())
+
+      table.index(['locale', 'post_type'], 'idx_search_documents_locale_type')
+    })
+
+    // Queued after createTable (awaiting it would run it before the table exists)
+    this.schema.raw(
+      'CREATE INDEX IF NOT EXISTS idx_search_documents_vector ON search_documents USING GIN (search_vector)'
+    )
+  }
+
+  async down() {
+    this.schema.dropTable(this.tableName)
+  }
+}
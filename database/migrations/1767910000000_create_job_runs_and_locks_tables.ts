@@ -0,0 +1,46 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+/**
+ * Scheduled jobs
+ *
+ * - job_locks: one row per job, claimed by the worker that runs the current tick
+ * - job_runs: run history (duration, result summary, errors)
+ */
+export default class extends BaseSchema {
+  async up() {
+    this.schema.createTable('job_locks', (table) => {
+      table.string('job_id', 100).primary()
+      table.string('locked_by', 255).nullable()
+      table.timestamp('locked_until', { useTz: true }).notNullable()
+      // Last scheduled minute claimed (prevents double runs of the same tick)
+      table.timestamp('last_tick_at', { useTz: true }).nullable()
+    })
+
+    this.schema.createTable('job_runs', (table) => {
+      table.uuid('id').primary().defaultTo(this.raw('gen_random_uuid()'))
+      table.string('job_id', 100).notNullable()
+      table.string('trigger', 20).notNullable() // schedule, manual
+      table.string('status', 20).notNullable().defaultTo('running') // running, succeeded, failed
+      table.string('worker', 255).nullable()
+      table
+        .integer('triggered_by')
+        .nullable()
+        .references('id')
+        .inTable('users')
+        .onDelete('SET NULL')
+      table.timestamp('scheduled_for', { useTz: true }).nullable()
+      table.timestamp('started_at', { useTz: true }).notNullable().defaultTo(this.now())
+      table.timestamp('finished_at', { useTz: true }).nullable()
+      table.integer('duration_ms').nullable()
+      table.jsonb('result').nullable()
+      table.text('error').nullable()
+
+      table.index(['job_id', 'started_at'], 'idx_job_runs_history')
+    })
+  }
+
+  async down() {
+    this.schema.dropTableIfExists('job_runs')
+    this.schema.dropTableIfExists('job_locks')
+  }
+}
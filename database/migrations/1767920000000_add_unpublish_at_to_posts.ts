@@ -0,0 +1,20 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'posts'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      // When set, the scheduler archives the post once this time has passed
+      table.timestamp('unpublish_at').nullable()
+      table.index(['status', 'unpublish_at'], 'idx_posts_unpublish')
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropIndex(['status', 'unpublish_at'], 'idx_posts_unpublish')
+      table.dropColumn('unpublish_at')
+    })
+  }
+}
@@ -0,0 +1,45 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'scheduled_review_approvals'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.uuid('id').primary().defaultTo(this.raw('gen_random_uuid()'))
+      table.uuid('post_id').notNullable().references('id').inTable('posts').onDelete('CASCADE')
+
+      // When the review draft should be promoted to Source
+      table.timestamp('scheduled_for', { useTz: true }).notNullable()
+
+      // pending, applying, applied, cancelled, failed
+      table.string('status', 20).notNullable().defaultTo('pending')
+
+      table.integer('created_by').nullable().references('id').inTable('users').onDelete('SET NULL')
+      table
+        .integer('cancelled_by')
+        .nullable()
+        .references('id')
+        .inTable('users')
+        .onDelete('SET NULL')
+      table.string('cancel_reason', 100).nullable()
+      table.timestamp('applied_at', { useTz: true }).nullable()
+      table.text('error').nullable()
+
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(this.now())
+      table.timestamp('updated_at', { useTz: true }).nullable()
+
+      table.index(['status', 'scheduled_for'], 'idx_scheduled_review_approvals_due')
+      table.index(['post_id', 'created_at'], 'idx_scheduled_review_approvals_post')
+    })
+
+    // At most one pending approval per post (queued after createTable, not awaited)
+    this.schema.raw(
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_scheduled_review_approvals_one_pending
+       ON scheduled_review_approvals (post_id) WHERE status = 'pending'`
+    )
+  }
+
+  async down() {
+    this.schema.dropTableIfExists(this.tableName)
+  }
+}
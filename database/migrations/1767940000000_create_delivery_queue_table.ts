@@ -0,0 +1,57 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'delivery_queue'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.uuid('id').primary().defaultTo(this.raw('gen_random_uuid()'))
+
+      // webhook | workflow | email
+      table.string('kind', 20).notNullable()
+      table.uuid('webhook_id').nullable().references('id').inTable('webhooks').onDelete('CASCADE')
+      table.string('workflow_id', 100).nullable()
+
+      // Webhook event or workflow trigger
+      table.string('event', 100).notNullable()
+      table.jsonb('payload').notNullable()
+      table.integer('user_id').nullable().references('id').inTable('users').onDelete('SET NULL')
+
+      // pending, processing, delivered, dead
+      table.string('status', 20).notNullable().defaultTo('pending')
+      table.integer('attempts').notNullable().defaultTo(0)
+      table.integer('max_attempts').notNullable().defaultTo(1)
+      // Per-item backoff base (falls back to CMS_DELIVERY_BACKOFF_BASE)
+      table.integer('base_delay_ms').nullable()
+      table.timestamp('next_attempt_at', { useTz: true }).notNullable().defaultTo(this.now())
+      table.timestamp('locked_until', { useTz: true }).nullable()
+      table.integer('last_status_code').nullable()
+      table.text('last_error').nullable()
+
+      // Set when this item re-sends an earlier delivery
+      table.uuid('replay_of').nullable()
+
+      table.timestamp('delivered_at', { useTz: true }).nullable()
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(this.now())
+      table.timestamp('updated_at', { useTz: true }).nullable()
+
+      table.index(['status', 'next_attempt_at'], 'idx_delivery_queue_due')
+      table.index(['webhook_id', 'created_at'], 'idx_delivery_queue_webhook')
+      table.index(['workflow_id', 'created_at'], 'idx_delivery_queue_workflow')
+    })
+
+    // Link each logged webhook attempt to its queue item
+    this.schema.alterTable('webhook_deliveries', (table) => {
+      table.uuid('queue_id').nullable()
+      table.index(['queue_id'], 'idx_webhook_deliveries_queue')
+    })
+  }
+
+  async down() {
+    this.schema.alterTable('webhook_deliveries', (table) => {
+      table.dropIndex(['queue_id'], 'idx_webhook_deliveries_queue')
+      table.dropColumn('queue_id')
+    })
+    this.schema.dropTableIfExists(this.tableName)
+  }
+}
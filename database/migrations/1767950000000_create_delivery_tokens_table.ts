@@ -0,0 +1,28 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'delivery_tokens'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.uuid('id').primary().defaultTo(this.raw('gen_random_uuid()'))
+      table.string('name', 100).notNullable()
+
+      // Only a SHA-256 hash is stored; the plain token is shown once at creation
+      table.string('token_hash', 64).notNullable().unique()
+      // First characters of the token so admins can tell tokens apart
+      table.string('token_prefix', 16).notNullable()
+
+      table.integer('created_by').nullable().references('id').inTable('users').onDelete('SET NULL')
+      table.timestamp('last_used_at', { useTz: true }).nullable()
+      table.timestamp('expires_at', { useTz: true }).nullable()
+      table.timestamp('revoked_at', { useTz: true }).nullable()
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(this.now())
+      table.timestamp('updated_at', { useTz: true }).nullable()
+    })
+  }
+
+  async down() {
+    this.schema.dropTableIfExists(this.tableName)
+  }
+}
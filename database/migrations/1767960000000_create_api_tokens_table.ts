@@ -0,0 +1,41 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'api_tokens'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.uuid('id').primary().defaultTo(this.raw('gen_random_uuid()'))
+      table.integer('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE')
+      table.string('name', 100).notNullable()
+
+      // Only a SHA-256 hash is stored; the plain token is shown once at creation
+      table.string('token_hash', 64).notNullable().unique()
+      table.string('token_prefix', 16).notNullable()
+
+      // PermissionKey values the token may exercise (intersected with the user's role)
+      table.jsonb('scopes').notNullable().defaultTo('[]')
+
+      table.timestamp('last_used_at', { useTz: true }).nullable()
+      table.string('last_used_ip', 64).nullable()
+      table.timestamp('expires_at', { useTz: true }).nullable()
+      table.timestamp('revoked_at', { useTz: true }).nullable()
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(this.now())
+      table.timestamp('updated_at', { useTz: true }).nullable()
+
+      table.index(['user_id'], 'idx_api_tokens_user')
+    })
+
+    this.schema.alterTable('users', (table) => {
+      // Non-interactive accounts used by integrations; they authenticate with API tokens only
+      table.boolean('is_service_account').notNullable().defaultTo(false)
+    })
+  }
+
+  async down() {
+    this.schema.alterTable('users', (table) => {
+      table.dropColumn('is_service_account')
+    })
+    this.schema.dropTableIfExists(this.tableName)
+  }
+}
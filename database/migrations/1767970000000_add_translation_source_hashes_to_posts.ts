@@ -0,0 +1,20 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'posts'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      // Per-field hashes (and text) of the source post when a translation was last synced
+      table.jsonb('translation_source_hashes').nullable()
+      table.timestamp('translation_synced_at').nullable()
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropColumn('translation_source_hashes')
+      table.dropColumn('translation_synced_at')
+    })
+  }
+}
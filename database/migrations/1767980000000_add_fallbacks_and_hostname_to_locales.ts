@@ -0,0 +1,21 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'locales'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      // Ordered locale codes tried when content is missing (e.g. fr-ca -> ["fr"])
+      table.jsonb('fallbacks').notNullable().defaultTo('[]')
+      // Dedicated domain for this locale (e.g. example.fr)
+      table.string('hostname', 255).nullable().unique()
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropColumn('fallbacks')
+      table.dropColumn('hostname')
+    })
+  }
+}
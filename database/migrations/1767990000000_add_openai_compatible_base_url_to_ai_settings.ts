@@ -0,0 +1,18 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'ai_settings'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      // Base URL of a self-hosted OpenAI-compatible server (e.g. http://localhost:11434/v1)
+      table.string('openai_compatible_base_url').nullable()
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropColumn('openai_compatible_base_url')
+    })
+  }
+}
@@ -0,0 +1,52 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  async up() {
+    this.schema.createTable('ai_usage_events', (table) => {
+      table.bigIncrements('id').primary()
+      table.string('agent_id', 100).nullable()
+      table.integer('user_id').nullable().references('id').inTable('users').onDelete('SET NULL')
+      // Role at the time of the call, so role budgets survive role changes
+      table.string('user_role', 50).nullable()
+      table.uuid('post_id').nullable()
+      table.string('provider', 50).notNullable()
+      table.string('model', 150).notNullable()
+      table.string('kind', 10).notNullable() // text | image | video
+      table.integer('prompt_tokens').notNullable().defaultTo(0)
+      table.integer('completion_tokens').notNullable().defaultTo(0)
+      table.integer('total_tokens').notNullable().defaultTo(0)
+      // Generated images/videos
+      table.integer('units').notNullable().defaultTo(0)
+      table.decimal('cost_usd', 12, 6).notNullable().defaultTo(0)
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(this.now())
+
+      table.index(['created_at'], 'idx_ai_usage_created')
+      table.index(['agent_id', 'created_at'], 'idx_ai_usage_agent')
+      table.index(['user_role', 'created_at'], 'idx_ai_usage_role')
+    })
+
+    this.schema.createTable('ai_budgets', (table) => {
+      table.increments('id').primary()
+      table.string('scope_type', 10).notNullable() // agent | role
+      table.string('scope_key', 100).notNullable()
+      table.decimal('monthly_limit_usd', 12, 2).notNullable()
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(this.now())
+      table.timestamp('updated_at', { useTz: true }).nullable()
+
+      table.unique(['scope_type', 'scope_key'])
+    })
+
+    this.schema.alterTable('ai_settings', (table) => {
+      // Price table overrides; null uses the built-in defaults
+      table.jsonb('pricing').nullable()
+    })
+  }
+
+  async down() {
+    this.schema.alterTable('ai_settings', (table) => {
+      table.dropColumn('pricing')
+    })
+    this.schema.dropTableIfExists('ai_budgets')
+    this.schema.dropTableIfExists('ai_usage_events')
+  }
+}
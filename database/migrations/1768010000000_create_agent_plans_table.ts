@@ -0,0 +1,33 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'agent_plans'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.uuid('id').primary().defaultTo(this.db.rawQuery('gen_random_uuid()').knexQuery)
+      table.uuid('post_id').notNullable().references('id').inTable('posts').onDelete('CASCADE')
+      table.string('agent_id', 100).notNullable()
+      table.integer('user_id').unsigned().nullable().references('users.id').onDelete('SET NULL')
+
+      // The editor's goal for the whole plan
+      table.text('request').nullable()
+
+      // proposed | running | completed | failed | cancelled
+      table.string('status', 20).notNullable().defaultTo('proposed')
+
+      // [{ id, title, instructions, status, executionId, summary, applied, error }]
+      table.jsonb('steps').notNullable().defaultTo('[]')
+
+      table.text('error').nullable()
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(this.now())
+      table.timestamp('updated_at', { useTz: true }).notNullable().defaultTo(this.now())
+
+      table.index(['post_id', 'created_at'])
+    })
+  }
+
+  async down() {
+    this.schema.dropTable(this.tableName)
+  }
+}
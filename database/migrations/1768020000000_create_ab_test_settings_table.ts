@@ -0,0 +1,29 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'ab_test_settings'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      // One row per A/B group (posts.ab_group_id)
+      table.uuid('ab_group_id').primary()
+      table.string('goal_type', 20).notNullable().defaultTo('form_submission') // form_submission | click | url_visit
+      table.string('goal_selector', 255).nullable()
+      table.string('goal_url', 2048).nullable()
+      table.integer('min_views').notNullable().defaultTo(100)
+      table.decimal('threshold', 5, 4).notNullable().defaultTo(0.95)
+      table.boolean('auto_promote').notNullable().defaultTo(false)
+      table.timestamp('promoted_at', { useTz: true }).nullable()
+      // Auto-promotions are logged as this user
+      table.integer('updated_by').nullable().references('id').inTable('users').onDelete('SET NULL')
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(this.now())
+      table.timestamp('updated_at', { useTz: true }).notNullable().defaultTo(this.now())
+
+      table.index(['auto_promote', 'promoted_at'])
+    })
+  }
+
+  async down() {
+    this.schema.dropTable(this.tableName)
+  }
+}
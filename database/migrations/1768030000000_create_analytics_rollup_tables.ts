@@ -0,0 +1,39 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  async up() {
+    // Daily event counts per post, path, event type and locale (UTC days)
+    this.schema.createTable('analytics_daily_rollups', (table) => {
+      table.increments('id').primary()
+      table.date('day').notNullable()
+      table.uuid('post_id').nullable().references('posts.id').onDelete('CASCADE')
+      table.string('path', 2048).nullable()
+      table.string('event_type', 50).notNullable()
+      table.string('locale', 10).nullable()
+      table.integer('count').notNullable().defaultTo(0)
+
+      table.index(['day', 'event_type'])
+      table.index(['post_id', 'day'])
+    })
+
+    // Daily heatmap grid: coordinates bucketed so click maps outlive raw events
+    this.schema.createTable('analytics_heatmap_rollups', (table) => {
+      table.increments('id').primary()
+      table.date('day').notNullable()
+      table.uuid('post_id').nullable().references('posts.id').onDelete('CASCADE')
+      table.string('event_type', 50).notNullable()
+      table.integer('viewport_width').nullable()
+      table.integer('x').notNullable()
+      table.integer('y').notNullable()
+      table.integer('count').notNullable().defaultTo(0)
+
+      table.index(['post_id', 'event_type', 'day'])
+      table.index(['day'])
+    })
+  }
+
+  async down() {
+    this.schema.dropTable('analytics_heatmap_rollups')
+    this.schema.dropTable('analytics_daily_rollups')
+  }
+}
@@ -0,0 +1,24 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  async up() {
+    // Salted hash of IP + user agent; unlinkable once the salt has rotated out
+    this.schema.alterTable('analytics_events', (table) => {
+      table.string('visitor_hash', 64).nullable().index()
+    })
+
+    // One random salt per rotation period; old salts are deleted so hashes cannot be recomputed
+    this.schema.createTable('privacy_salts', (table) => {
+      table.bigInteger('period').primary()
+      table.string('salt', 64).notNullable()
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(this.now())
+    })
+  }
+
+  async down() {
+    this.schema.dropTable('privacy_salts')
+    this.schema.alterTable('analytics_events', (table) => {
+      table.dropColumn('visitor_hash')
+    })
+  }
+}
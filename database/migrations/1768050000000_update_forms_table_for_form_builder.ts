@@ -0,0 +1,38 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'forms'
+
+  async up() {
+    // Forms created in the admin form builder (code-first forms live in app/forms)
+    this.schema.alterTable(this.tableName, (table) => {
+      table.renameColumn('fields_json', 'fields')
+      table.renameColumn('subscriptions_json', 'subscriptions')
+    })
+
+    this.schema.alterTable(this.tableName, (table) => {
+      table.jsonb('subscriptions').nullable().alter()
+      table.jsonb('steps').nullable()
+      table.integer('created_by').nullable().references('id').inTable('users').onDelete('SET NULL')
+      table.integer('updated_by').nullable().references('id').inTable('users').onDelete('SET NULL')
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropColumn('updated_by')
+      table.dropColumn('created_by')
+      table.dropColumn('steps')
+    })
+
+    this.schema.raw(`UPDATE forms SET subscriptions = '[]'::jsonb WHERE subscriptions IS NULL`)
+    this.schema.alterTable(this.tableName, (table) => {
+      table.jsonb('subscriptions').notNullable().alter()
+    })
+
+    this.schema.alterTable(this.tableName, (table) => {
+      table.renameColumn('subscriptions', 'subscriptions_json')
+      table.renameColumn('fields', 'fields_json')
+    })
+  }
+}
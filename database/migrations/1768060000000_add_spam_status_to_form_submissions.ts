@@ -0,0 +1,24 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'form_submissions'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      // 'spam' submissions are quarantined: stored, but no webhooks, workflows or agents
+      table.string('status', 20).notNullable().defaultTo('new')
+      table.float('spam_score').nullable()
+      table.jsonb('spam_reasons').nullable()
+      table.index(['status', 'created_at'], 'idx_form_submissions_status_created_at')
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropIndex(['status', 'created_at'], 'idx_form_submissions_status_created_at')
+      table.dropColumn('spam_reasons')
+      table.dropColumn('spam_score')
+      table.dropColumn('status')
+    })
+  }
+}
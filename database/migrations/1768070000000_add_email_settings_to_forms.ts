@@ -0,0 +1,19 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'forms'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.jsonb('notifications').nullable()
+      table.jsonb('autoresponder').nullable()
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropColumn('autoresponder')
+      table.dropColumn('notifications')
+    })
+  }
+}
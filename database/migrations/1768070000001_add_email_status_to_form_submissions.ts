@@ -0,0 +1,22 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'form_submissions'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      // queued | retrying | sent | failed; null when the form sends no such email
+      table.string('notification_status', 20).nullable()
+      table.string('autoresponder_status', 20).nullable()
+      table.text('email_error').nullable()
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropColumn('email_error')
+      table.dropColumn('autoresponder_status')
+      table.dropColumn('notification_status')
+    })
+  }
+}
@@ -0,0 +1,26 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'form_submissions'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.integer('assigned_to').nullable().references('id').inTable('users').onDelete('SET NULL')
+      table.index(['assigned_to'], 'idx_form_submissions_assigned_to')
+    })
+
+    // Full-text search across the submitted values (must match SUBMISSION_SEARCH_VECTOR)
+    this.schema.raw(
+      `CREATE INDEX IF NOT EXISTS idx_form_submissions_payload_search ON form_submissions
+       USING GIN (jsonb_to_tsvector('simple'::regconfig, payload, '["string", "numeric"]'::jsonb))`
+    )
+  }
+
+  async down() {
+    this.schema.raw('DROP INDEX IF EXISTS idx_form_submissions_payload_search')
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropIndex(['assigned_to'], 'idx_form_submissions_assigned_to')
+      table.dropColumn('assigned_to')
+    })
+  }
+}
@@ -0,0 +1,27 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'form_submission_notes'
+
+  async up() {
+    // Internal notes on submissions; never shown to the submitter
+    this.schema.createTable(this.tableName, (table) => {
+      table.uuid('id').primary().defaultTo(this.db.rawQuery('gen_random_uuid()').knexQuery)
+      table
+        .uuid('submission_id')
+        .notNullable()
+        .references('id')
+        .inTable('form_submissions')
+        .onDelete('CASCADE')
+      table.integer('user_id').nullable().references('id').inTable('users').onDelete('SET NULL')
+      table.text('body').notNullable()
+      table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(this.now())
+
+      table.index(['submission_id', 'created_at'], 'idx_form_submission_notes_submission')
+    })
+  }
+
+  async down() {
+    this.schema.dropTable(this.tableName)
+  }
+}
@@ -0,0 +1,29 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'url_redirects'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      // exact | wildcard | regex
+      table.string('match_type', 20).notNullable().defaultTo('exact')
+      // preserve | drop: whether the request's query string is passed on to the target
+      table.string('query_string', 20).notNullable().defaultTo('preserve')
+      table.bigInteger('hit_count').notNullable().defaultTo(0)
+      table.timestamp('last_hit_at', { useTz: true }).nullable()
+      // 410 Gone rules have no target
+      table.string('to_path', 500).nullable().alter()
+    })
+  }
+
+  async down() {
+    this.schema.raw(`UPDATE url_redirects SET to_path = '/' WHERE to_path IS NULL`)
+    this.schema.alterTable(this.tableName, (table) => {
+      table.string('to_path', 500).notNullable().alter()
+      table.dropColumn('match_type')
+      table.dropColumn('query_string')
+      table.dropColumn('hit_count')
+      table.dropColumn('last_hit_at')
+    })
+  }
+}
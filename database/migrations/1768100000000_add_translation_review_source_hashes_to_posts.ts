@@ -0,0 +1,19 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'posts'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      // Source hashes of a vendor import waiting in the review draft; they become
+      // translation_source_hashes when the draft is approved
+      table.jsonb('translation_review_source_hashes').nullable()
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropColumn('translation_review_source_hashes')
+    })
+  }
+}
@@ -29,7 +29,7 @@ import {
   faRobot,
   faTimeline,
 } from '@fortawesome/free-solid-svg-icons'
-import { faGauge } from '@fortawesome/free-solid-svg-icons'
+import { faGauge, faClock } from '@fortawesome/free-solid-svg-icons'
 
 export function AdminSidebar() {
   const page = usePage()
@@ -268,6 +268,11 @@ export function AdminSidebar() {
                 <FontAwesomeIcon icon={faGauge} size="sm" /> <span>Performance</span>
               </span>
             </SidebarMenuItem>
+            <SidebarMenuItem href={adminPath('jobs')} active={isActive(adminPath('jobs'))}>
+              <span className="inline-flex items-center gap-2">
+                <FontAwesomeIcon icon={faClock} size="sm" /> <span>Jobs</span>
+              </span>
+            </SidebarMenuItem>
             <SidebarMenuItem href={adminPath('database')} active={isActive(adminPath('database'))}>
               <span className="inline-flex items-center gap-2">
                 <FontAwesomeIcon icon={faDatabase} size="sm" /> <span>Database</span>
@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Input } from '~/components/ui/input'
+import { Checkbox } from '~/components/ui/checkbox'
+import { getXsrf } from '~/utils/xsrf'
+
+interface ApiToken {
+  id: string
+  name: string
+  tokenPrefix: string
+  scopes: string[]
+  lastUsedAt: string | null
+  lastUsedIp: string | null
+  expiresAt: string | null
+  revokedAt: string | null
+  createdAt: string
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '—'
+}
+
+function tokenStatus(token: ApiToken): string {
+  if (token.revokedAt) return 'Revoked'
+  if (token.expiresAt && new Date(token.expiresAt).getTime() <= Date.now()) return 'Expired'
+  return 'Active'
+}
+
+/**
+ * Personal API tokens of the signed-in user: create (shown once), list, revoke
+ */
+export function ApiTokensPanel() {
+  const [tokens, setTokens] = useState<ApiToken[]>([])
+  const [availableScopes, setAvailableScopes] = useState<string[]>([])
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<string[]>([])
+  const [expiresAt, setExpiresAt] = useState('')
+  const [created, setCreated] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  async function load() {
+    try {
+      const res = await fetch('/api/profile/tokens', { credentials: 'same-origin' })
+      const j = await res.json().catch(() => ({}))
+      setTokens(Array.isArray(j?.data) ? j.data : [])
+      setAvailableScopes(Array.isArray(j?.scopes) ? j.scopes : [])
+    } catch {
+      toast.error('Failed to load API tokens')
+    }
+  }
+
+  useEffect(() => {
+    load()
+  }, [])
+
+  async function createToken() {
+    setSaving(true)
+    try {
+      const res = await fetch('/api/profile/tokens', {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+          ...(getXsrf() ? { 'X-XSRF-TOKEN': getXsrf()! } : {}),
+        },
+        credentials: 'same-origin',
+        body: JSON.stringify({
+          name,
+          scopes,
+          ...(expiresAt ? { expiresAt: new Date(expiresAt).toISOString() } : {}),
+        }),
+      })
+      const j = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        toast.error(j?.error || j?.errors?.[0]?.message || 'Failed to create token')
+        return
+      }
+      setCreated(j?.data?.token || null)
+      setName('')
+      setScopes([])
+      setExpiresAt('')
+      load()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function revokeToken(id: string) {
+    if (!window.confirm('Revoke this token? Scripts using it will stop working.')) return
+    const res = await fetch(`/api/profile/tokens/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      headers: { ...(getXsrf() ? { 'X-XSRF-TOKEN': getXsrf()! } : {}) },
+      credentials: 'same-origin',
+    })
+    if (res.ok) {
+      toast.success('Token revoked')
+      load()
+    } else {
+      toast.error('Failed to revoke token')
+    }
+  }
+
+  return (
+    <div className="bg-backdrop-low rounded-lg border border-line-low p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-neutral-high">API Tokens</h2>
+        <p className="text-sm text-neutral-medium">
+          Tokens let scripts call the admin API as you, limited to the selected scopes. Send them as{' '}
+          <code>Authorization: Bearer &lt;token&gt;</code>.
+        </p>
+      </div>
+
+      {created && (
+        <div className="rounded border border-line-low bg-backdrop-medium p-4 space-y-2">
+          <p className="text-sm text-neutral-high">
+            Copy your new token now. It will not be shown again.
+          </p>
+          <code className="block break-all text-sm">{created}</code>
+          <button
+            className="px-3 py-1.5 text-xs border border-line-low rounded"
+            onClick={() => {
+              navigator.clipboard?.writeText(created)
+              setCreated(null)
+            }}
+          >
+            Copy and close
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Token name" />
+          <Input
+            type="datetime-local"
+            value={expiresAt}
+            onChange={(e) => setExpiresAt(e.target.value)}
+            aria-label="Expires at (optional)"
+          />
+        </div>
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2">
+          {availableScopes.map((scope) => (
+            <label key={scope} className="flex items-center gap-2 text-sm text-neutral-medium">
+              <Checkbox
+                checked={scopes.includes(scope)}
+                onCheckedChange={(checked) =>
+                  setScopes((prev) =>
+                    checked ? [...prev, scope] : prev.filter((s) => s !== scope)
+                  )
+                }
+              />
+              {scope}
+            </label>
+          ))}
+        </div>
+        <button
+          className="px-3 py-2 text-sm border border-line-low rounded bg-standout-high text-on-high disabled:opacity-50"
+          disabled={saving || !name.trim() || scopes.length === 0}
+          onClick={createToken}
+        >
+          Create token
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-neutral-low">
+              <th className="py-2 pr-4">Name</th>
+              <th className="py-2 pr-4">Scopes</th>
+              <th className="py-2 pr-4">Last used</th>
+              <th className="py-2 pr-4">Expires</th>
+              <th className="py-2 pr-4">Status</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {tokens.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="py-4 text-neutral-low">
+                  No tokens yet.
+                </td>
+              </tr>
+            ) : (
+              tokens.map((token) => (
+                <tr key={token.id} className="border-t border-line-low align-top">
+                  <td className="py-2 pr-4 text-neutral-high">
+                    {token.name}
+                    <div className="text-xs text-neutral-low">{token.tokenPrefix}…</div>
+                  </td>
+                  <td className="py-2 pr-4 text-xs text-neutral-medium">
+                    {token.scopes.join(', ')}
+                  </td>
+                  <td className="py-2 pr-4 text-neutral-medium">
+                    {formatDate(token.lastUsedAt)}
+                    {token.lastUsedIp && (
+                      <div className="text-xs text-neutral-low">{token.lastUsedIp}</div>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4 text-neutral-medium">{formatDate(token.expiresAt)}</td>
+                  <td className="py-2 pr-4 text-neutral-medium">{tokenStatus(token)}</td>
+                  <td className="py-2 text-right">
+                    {tokenStatus(token) === 'Active' && (
+                      <button
+                        className="px-3 py-1.5 text-xs border border-red-500 text-red-500 rounded"
+                        onClick={() => revokeToken(token.id)}
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,443 @@
+/**
+ * AI Usage Panel
+ *
+ * Spend of the last days (by day and by agent), monthly budgets per agent or
+ * role, and the price table used to estimate costs.
+ */
+
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Input } from '~/components/ui/input'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '~/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '~/components/ui/select'
+import { getXsrf } from '~/utils/xsrf'
+
+export type AIPrice = {
+  provider: string
+  model: string
+  inputPerMillion?: number
+  outputPerMillion?: number
+  perImage?: number
+  perVideo?: number
+}
+
+type UsageSummary = {
+  days: number
+  totalCostUsd: number
+  byDay: Array<{ day: string; costUsd: number; calls: number; totalTokens: number }>
+  byAgent: Array<{ agentId: string | null; costUsd: number; calls: number; totalTokens: number }>
+}
+
+type Budget = {
+  id: number
+  scopeType: 'agent' | 'role'
+  scopeKey: string
+  monthlyLimitUsd: number
+  spentUsd: number
+}
+
+const PRICE_COLUMNS: Array<{ key: keyof AIPrice; label: string }> = [
+  { key: 'inputPerMillion', label: 'Input / 1M tokens' },
+  { key: 'outputPerMillion', label: 'Output / 1M tokens' },
+  { key: 'perImage', label: 'Per image' },
+  { key: 'perVideo', label: 'Per video' },
+]
+
+function usd(value: number): string {
+  return `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 2)}`
+}
+
+function jsonHeaders(): Record<string, string> {
+  const xsrf = getXsrf()
+  return {
+    'Accept': 'application/json',
+    'Content-Type': 'application/json',
+    ...(xsrf ? { 'X-XSRF-TOKEN': xsrf } : {}),
+  }
+}
+
+export function AIUsagePanel({
+  pricing,
+  defaultPricing,
+  onPricingSaved,
+}: {
+  pricing: AIPrice[] | null
+  defaultPricing: AIPrice[]
+  onPricingSaved: (pricing: AIPrice[] | null) => void
+}) {
+  const [days, setDays] = useState('30')
+  const [usage, setUsage] = useState<UsageSummary | null>(null)
+  const [budgets, setBudgets] = useState<Budget[]>([])
+  const [agents, setAgents] = useState<Array<{ id: string; name: string }>>([])
+  const [roles, setRoles] = useState<string[]>([])
+  const [budgetScope, setBudgetScope] = useState<'agent' | 'role'>('agent')
+  const [budgetKey, setBudgetKey] = useState('')
+  const [budgetLimit, setBudgetLimit] = useState('')
+  const [prices, setPrices] = useState<AIPrice[]>(pricing || defaultPricing)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    setPrices(pricing || defaultPricing)
+  }, [pricing, defaultPricing])
+
+  async function loadUsage() {
+    try {
+      const res = await fetch(`/api/ai-settings/usage?days=${days}`, { credentials: 'same-origin' })
+      const j = await res.json().catch(() => ({}))
+      setUsage(j?.data || null)
+    } catch {
+      toast.error('Failed to load AI usage')
+    }
+  }
+
+  async function loadBudgets() {
+    try {
+      const res = await fetch('/api/ai-settings/budgets', { credentials: 'same-origin' })
+      const j = await res.json().catch(() => ({}))
+      setBudgets(Array.isArray(j?.data) ? j.data : [])
+      setAgents(Array.isArray(j?.agents) ? j.agents : [])
+      setRoles(Array.isArray(j?.roles) ? j.roles : [])
+    } catch {
+      toast.error('Failed to load AI budgets')
+    }
+  }
+
+  useEffect(() => {
+    loadUsage()
+  }, [days])
+
+  useEffect(() => {
+    loadBudgets()
+  }, [])
+
+  async function saveBudget() {
+    const res = await fetch('/api/ai-settings/budgets', {
+      method: 'PUT',
+      headers: jsonHeaders(),
+      credentials: 'same-origin',
+      body: JSON.stringify({
+        scopeType: budgetScope,
+        scopeKey: budgetKey,
+        monthlyLimitUsd: Number(budgetLimit),
+      }),
+    })
+    const j = await res.json().catch(() => ({}))
+    if (!res.ok) {
+      toast.error(j?.error || 'Failed to save budget')
+      return
+    }
+    setBudgets(Array.isArray(j?.data) ? j.data : [])
+    setBudgetKey('')
+    setBudgetLimit('')
+    toast.success('Budget saved')
+  }
+
+  async function deleteBudget(id: number) {
+    const res = await fetch(`/api/ai-settings/budgets/${id}`, {
+      method: 'DELETE',
+      headers: jsonHeaders(),
+      credentials: 'same-origin',
+    })
+    if (!res.ok) {
+      toast.error('Failed to delete budget')
+      return
+    }
+    setBudgets((prev) => prev.filter((b) => b.id !== id))
+  }
+
+  async function savePricing(next: AIPrice[] | null) {
+    setSaving(true)
+    try {
+      const res = await fetch('/api/ai-settings', {
+        method: 'PATCH',
+        headers: jsonHeaders(),
+        credentials: 'same-origin',
+        body: JSON.stringify({ pricing: next }),
+      })
+      const j = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        toast.error(j?.error || 'Failed to save prices')
+        return
+      }
+      onPricingSaved(j?.data?.pricing ?? null)
+      toast.success(next ? 'Prices saved' : 'Prices reset to defaults')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  function updatePrice(index: number, key: keyof AIPrice, value: string) {
+    setPrices((prev) =>
+      prev.map((row, i) => {
+        if (i !== index) return row
+        if (key === 'provider' || key === 'model') return { ...row, [key]: value }
+        return { ...row, [key]: value === '' ? undefined : Number(value) }
+      })
+    )
+  }
+
+  const budgetKeys =
+    budgetScope === 'agent'
+      ? agents.map((a) => ({ value: a.id, label: a.name }))
+      : roles.map((r) => ({ value: r, label: r }))
+  const maxDayCost = Math.max(0, ...(usage?.byDay || []).map((d) => d.costUsd))
+
+  return (
+    <div className="space-y-8">
+      <section>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold">Usage &amp; Costs</h3>
+          <div className="w-40">
+            <Select value={days} onValueChange={setDays}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="7">Last 7 days</SelectItem>
+                <SelectItem value="30">Last 30 days</SelectItem>
+                <SelectItem value="90">Last 90 days</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <p className="text-sm text-neutral-medium mb-6">
+          Estimated from the price table below. Total:{' '}
+          <span className="font-semibold text-neutral-high">{usd(usage?.totalCostUsd || 0)}</span>
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <h4 className="text-sm font-medium text-neutral-medium mb-2">By day</h4>
+            {usage?.byDay.length ? (
+              <div className="space-y-1">
+                {usage.byDay.map((d) => (
+                  <div key={d.day} className="flex items-center gap-2 text-xs">
+                    <span className="w-20 text-neutral-low">{d.day}</span>
+                    <div className="flex-1 h-2 rounded bg-backdrop-medium">
+                      <div
+                        className="h-2 rounded bg-standout-high"
+                        style={{ width: `${maxDayCost ? (d.costUsd / maxDayCost) * 100 : 0}%` }}
+                      />
+                    </div>
+                    <span className="w-16 text-right">{usd(d.costUsd)}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-neutral-low">No usage recorded.</p>
+            )}
+          </div>
+          <div>
+            <h4 className="text-sm font-medium text-neutral-medium mb-2">By agent</h4>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Agent</TableHead>
+                  <TableHead>Calls</TableHead>
+                  <TableHead>Tokens</TableHead>
+                  <TableHead>Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(usage?.byAgent || []).map((a) => (
+                  <TableRow key={a.agentId || 'none'}>
+                    <TableCell className="font-medium">{a.agentId || '—'}</TableCell>
+                    <TableCell>{a.calls}</TableCell>
+                    <TableCell>{a.totalTokens.toLocaleString()}</TableCell>
+                    <TableCell>{usd(a.costUsd)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </section>
+
+      <div className="border-t border-line-low" />
+
+      <section>
+        <h3 className="text-lg font-semibold mb-4">Monthly Budgets</h3>
+        <p className="text-sm text-neutral-medium mb-6">
+          Agents refuse to run once their budget, or the budget of the user&apos;s role, is used up
+          for the current month (UTC).
+        </p>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Scope</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Spent this month</TableHead>
+              <TableHead>Limit</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {budgets.map((b) => (
+              <TableRow key={b.id}>
+                <TableCell>{b.scopeType}</TableCell>
+                <TableCell className="font-medium">{b.scopeKey}</TableCell>
+                <TableCell className={b.spentUsd >= b.monthlyLimitUsd ? 'text-red-600' : ''}>
+                  {usd(b.spentUsd)}
+                </TableCell>
+                <TableCell>{usd(b.monthlyLimitUsd)}</TableCell>
+                <TableCell className="text-right">
+                  <button
+                    type="button"
+                    className="text-xs text-red-600 underline"
+                    onClick={() => deleteBudget(b.id)}
+                  >
+                    Remove
+                  </button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <Select
+            value={budgetScope}
+            onValueChange={(val) => {
+              setBudgetScope(val as 'agent' | 'role')
+              setBudgetKey('')
+            }}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="agent">Agent</SelectItem>
+              <SelectItem value="role">Role</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={budgetKey} onValueChange={setBudgetKey}>
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder={budgetScope === 'agent' ? 'Select agent' : 'Select role'} />
+            </SelectTrigger>
+            <SelectContent>
+              {budgetKeys.map((k) => (
+                <SelectItem key={k.value} value={k.value}>
+                  {k.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            value={budgetLimit}
+            onChange={(e) => setBudgetLimit(e.target.value)}
+            placeholder="Monthly limit (USD)"
+          />
+          <button
+            type="button"
+            disabled={!budgetKey || budgetLimit === ''}
+            onClick={saveBudget}
+            className="px-4 py-2 text-sm font-semibold rounded-lg bg-standout-high text-on-high disabled:opacity-50"
+          >
+            Set budget
+          </button>
+        </div>
+      </section>
+
+      <div className="border-t border-line-low" />
+
+      <section>
+        <h3 className="text-lg font-semibold mb-4">Price Table</h3>
+        <p className="text-sm text-neutral-medium mb-6">
+          Prices in USD. The first row matching the provider and model is used; <code>*</code> in a
+          model name matches any characters. Usage of unlisted models is recorded at no cost.
+        </p>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Provider</TableHead>
+              <TableHead>Model</TableHead>
+              {PRICE_COLUMNS.map((c) => (
+                <TableHead key={c.key}>{c.label}</TableHead>
+              ))}
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {prices.map((row, index) => (
+              <TableRow key={index}>
+                <TableCell>
+                  <Input
+                    value={row.provider}
+                    onChange={(e) => updatePrice(index, 'provider', e.target.value)}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    value={row.model}
+                    onChange={(e) => updatePrice(index, 'model', e.target.value)}
+                  />
+                </TableCell>
+                {PRICE_COLUMNS.map((c) => (
+                  <TableCell key={c.key}>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={row[c.key] ?? ''}
+                      onChange={(e) => updatePrice(index, c.key, e.target.value)}
+                    />
+                  </TableCell>
+                ))}
+                <TableCell className="text-right">
+                  <button
+                    type="button"
+                    className="text-xs text-red-600 underline"
+                    onClick={() => setPrices((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    Remove
+                  </button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <div className="flex items-center gap-3 pt-4">
+          <button
+            type="button"
+            className="px-4 py-2 text-sm rounded-lg border border-line-medium text-neutral-medium"
+            onClick={() => setPrices((prev) => [...prev, { provider: '', model: '' }])}
+          >
+            Add price
+          </button>
+          <button
+            type="button"
+            disabled={saving}
+            onClick={() => savePricing(prices)}
+            className="px-4 py-2 text-sm font-semibold rounded-lg bg-standout-high text-on-high disabled:opacity-50"
+          >
+            Save prices
+          </button>
+          {pricing && (
+            <button
+              type="button"
+              disabled={saving}
+              onClick={() => savePricing(null)}
+              className="text-xs text-neutral-medium underline"
+            >
+              Reset to defaults
+            </button>
+          )}
+        </div>
+      </section>
+    </div>
+  )
+}
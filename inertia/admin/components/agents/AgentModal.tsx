@@ -6,12 +6,14 @@
  * - Request/response handling
  * - Loading states
  * - Auto-scroll to bottom
+ * - Multi-step plans ("Plan first") for post agents
  */
 
 import { useEffect, useRef, useState } from 'react'
 import { router } from '@inertiajs/react'
 import { toast } from 'sonner'
 import { bypassUnsavedChanges } from '~/hooks/unsavedChangesState'
+import { getXsrf } from '~/utils/xsrf'
 import {
   AlertDialog,
   AlertDialogAction,
@@ -24,6 +26,7 @@ import {
 } from '~/components/ui/alert-dialog'
 import { Textarea } from '~/components/ui/textarea'
 import { Spinner } from '~/components/ui/spinner'
+import { AgentPlanPanel, type AgentPlan } from './AgentPlanPanel'
 
 export interface Agent {
   id: string
@@ -111,6 +114,8 @@ export function AgentModal({
   const [agentResponse, setAgentResponse] = useState<AgentResponse | null>(null)
   const [agentHistory, setAgentHistory] = useState<AgentHistoryItem[]>([])
   const [loadingAgentHistory, setLoadingAgentHistory] = useState(false)
+  const [plan, setPlan] = useState<AgentPlan | null>(null)
+  const canPlan = scope === 'dropdown' && !!contextId
   const agentModalContentRef = useRef<HTMLDivElement | null>(null)
 
   // Load agent history when dialog opens and agent is selected
@@ -292,14 +297,63 @@ export function AgentModal({
     }
   }
 
+  const handleProposePlan = async () => {
+    if (!agent || !contextId) return
+    setRunningAgent(true)
+    try {
+      const xsrf = getXsrf()
+      const res = await fetch(
+        `/api/posts/${contextId}/agents/${encodeURIComponent(agent.id)}/plan`,
+        {
+          method: 'POST',
+          headers: {
+            'Accept': 'application/json',
+            'Content-Type': 'application/json',
+            ...(xsrf ? { 'X-XSRF-TOKEN': xsrf } : {}),
+          },
+          credentials: 'same-origin',
+          body: JSON.stringify({ openEndedContext: agentOpenEndedContext.trim() || undefined }),
+        }
+      )
+      const j = await res.json().catch(() => ({}))
+      if (res.ok && j?.data) {
+        setPlan(j.data)
+      } else {
+        toast.error(j?.error || 'Could not propose a plan')
+      }
+    } catch (error: any) {
+      toast.error(error?.message || 'Could not propose a plan')
+    } finally {
+      setRunningAgent(false)
+    }
+  }
+
+  const reloadAfterPlanStep = () => {
+    bypassUnsavedChanges(true)
+    router.reload({ only: ['post', 'modules', 'aiReviewDraft', 'reviewDraft'] })
+  }
+
+  const closePlan = () => {
+    const changed = plan?.steps.some((s) => s.status === 'completed')
+    setPlan(null)
+    setAgentOpenEndedContext('')
+    onOpenChange(false)
+    if (changed) {
+      const url = new URL(window.location.href)
+      url.searchParams.set('view', 'ai-review')
+      window.history.replaceState({}, '', url.toString())
+      reloadAfterPlanStep()
+    }
+  }
+
   const handleOpenChange = (newOpen: boolean) => {
     // Always allow opening (even if running - shouldn't happen but be safe)
     if (newOpen && !open) {
       onOpenChange(true)
       return
     }
-    // Don't allow closing if agent is running or has a response
-    if ((runningAgent || agentResponse) && !newOpen) {
+    // Don't allow closing if agent is running or has a response or plan
+    if ((runningAgent || agentResponse || plan) && !newOpen) {
       // Force dialog to stay open - prevent closing
       return
     }
@@ -322,7 +376,14 @@ export function AgentModal({
         ref={agentModalContentRef}
         className="max-w-2xl max-h-[80vh] overflow-y-auto"
       >
-        {agentResponse ? (
+        {plan ? (
+          <AlertDialogHeader>
+            <AlertDialogTitle>{agent.name} plan</AlertDialogTitle>
+            <AlertDialogDescription>
+              {plan.request || 'Steps proposed by the agent'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+        ) : agentResponse ? (
           <AlertDialogHeader>
             <AlertDialogTitle>Agent Response</AlertDialogTitle>
             <AlertDialogDescription>
@@ -348,6 +409,14 @@ export function AgentModal({
               Please wait while the agent processes your request.
             </div>
           </div>
+        ) : plan ? (
+          <div className="mt-3">
+            <AgentPlanPanel
+              plan={plan}
+              onPlanChange={setPlan}
+              onStepCompleted={reloadAfterPlanStep}
+            />
+          </div>
         ) : !agentResponse ? (
           <div className="mt-3 space-y-4">
             {/* Agent History */}
@@ -823,7 +892,11 @@ export function AgentModal({
         )}
 
         <AlertDialogFooter>
-          {agentResponse ? (
+          {plan ? (
+            <AlertDialogCancel type="button" onClick={closePlan}>
+              {plan.steps.some((s) => s.status === 'completed') ? 'View Changes' : 'Close'}
+            </AlertDialogCancel>
+          ) : agentResponse ? (
             <>
               <AlertDialogCancel
                 type="button"
@@ -878,6 +951,16 @@ export function AgentModal({
               >
                 Cancel
               </AlertDialogCancel>
+              {canPlan && (
+                <button
+                  type="button"
+                  disabled={runningAgent}
+                  className="px-4 py-2 text-sm rounded-lg border border-line-medium text-neutral-medium disabled:opacity-50"
+                  onClick={handleProposePlan}
+                >
+                  Plan steps first
+                </button>
+              )}
               <AlertDialogAction
                 type="button"
                 disabled={runningAgent || (scope !== 'global' && !contextId)}
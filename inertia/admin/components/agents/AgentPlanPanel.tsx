@@ -0,0 +1,283 @@
+/**
+ * Agent Plan Panel
+ *
+ * Shows the steps an agent proposed for a larger job. While the plan is proposed
+ * the editor can edit, drop or add steps before approving it; once approved the
+ * panel polls the plan and shows each step's result as it runs.
+ */
+
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Textarea } from '~/components/ui/textarea'
+import { Input } from '~/components/ui/input'
+import { Badge } from '~/components/ui/badge'
+import { Spinner } from '~/components/ui/spinner'
+import { getXsrf } from '~/utils/xsrf'
+
+export type AgentPlanStepStatus = 'pending' | 'skipped' | 'running' | 'completed' | 'failed'
+
+export interface AgentPlanStep {
+  id: string
+  title: string
+  instructions: string
+  status: AgentPlanStepStatus
+  executionId?: string | null
+  summary?: string | null
+  applied?: string[]
+  error?: string | null
+}
+
+export interface AgentPlan {
+  id: string
+  postId: string
+  agentId: string
+  request: string | null
+  status: 'proposed' | 'running' | 'completed' | 'failed' | 'cancelled'
+  steps: AgentPlanStep[]
+  error: string | null
+  updatedAt: string
+}
+
+/** Matches PLAN_STALE_SECONDS: a running plan not updated for this long lost its runner */
+const PLAN_STALE_MS = 5 * 60 * 1000
+
+type DraftStep = { id?: string; title: string; instructions: string; skip: boolean }
+
+const STATUS_VARIANT: Record<
+  AgentPlanStepStatus,
+  'default' | 'secondary' | 'destructive' | 'outline'
+> = {
+  pending: 'outline',
+  skipped: 'secondary',
+  running: 'default',
+  completed: 'default',
+  failed: 'destructive',
+}
+
+function jsonHeaders(): Record<string, string> {
+  const xsrf = getXsrf()
+  return {
+    'Accept': 'application/json',
+    'Content-Type': 'application/json',
+    ...(xsrf ? { 'X-XSRF-TOKEN': xsrf } : {}),
+  }
+}
+
+function toDraft(plan: AgentPlan): DraftStep[] {
+  return plan.steps.map((s) => ({
+    id: s.id,
+    title: s.title,
+    instructions: s.instructions,
+    skip: s.status === 'skipped',
+  }))
+}
+
+export function AgentPlanPanel({
+  plan,
+  onPlanChange,
+  onStepCompleted,
+}: {
+  plan: AgentPlan
+  onPlanChange: (plan: AgentPlan) => void
+  onStepCompleted?: (plan: AgentPlan) => void
+}) {
+  const [draft, setDraft] = useState<DraftStep[]>(() => toDraft(plan))
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    if (plan.status === 'proposed') setDraft(toDraft(plan))
+  }, [plan.id])
+
+  // Poll while steps run
+  useEffect(() => {
+    if (plan.status !== 'running') return
+    const completed = plan.steps.filter((s) => s.status === 'completed').length
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/agent-plans/${plan.id}`, { credentials: 'same-origin' })
+        const j = await res.json().catch(() => ({}))
+        if (!j?.data) return
+        onPlanChange(j.data)
+        const nowCompleted = j.data.steps.filter((s: AgentPlanStep) => s.status === 'completed')
+        if (nowCompleted.length > completed) onStepCompleted?.(j.data)
+        if (j.data.status === 'completed') toast.success('Plan completed')
+        if (j.data.status === 'failed') toast.error(j.data.error || 'Plan failed')
+      } catch {
+        // Retry on the next tick
+      }
+    }, 2000)
+    return () => clearTimeout(timer)
+  }, [plan])
+
+  async function send(url: string, method: 'PUT' | 'POST', body?: unknown) {
+    setBusy(true)
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: jsonHeaders(),
+        credentials: 'same-origin',
+        body: body ? JSON.stringify(body) : undefined,
+      })
+      const j = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        toast.error(j?.error || 'Request failed')
+        return null
+      }
+      onPlanChange(j.data)
+      return j.data as AgentPlan
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function approve() {
+    const saved = await send(`/api/agent-plans/${plan.id}`, 'PUT', { steps: draft })
+    if (saved) await send(`/api/agent-plans/${plan.id}/approve`, 'POST')
+  }
+
+  function updateDraft(index: number, patch: Partial<DraftStep>) {
+    setDraft((prev) => prev.map((s, i) => (i === index ? { ...s, ...patch } : s)))
+  }
+
+  if (plan.status === 'proposed') {
+    return (
+      <div className="space-y-3">
+        <div className="text-sm text-neutral-medium">
+          Review the proposed steps. Edit or skip any step, then approve to run them one by one.
+          Each step saves its changes to the AI review draft.
+        </div>
+        {draft.map((step, index) => (
+          <div
+            key={step.id || `new-${index}`}
+            className={`space-y-2 rounded-lg border border-line-medium p-3 ${step.skip ? 'opacity-50' : ''}`}
+          >
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-semibold text-neutral-medium">{index + 1}.</span>
+              <Input
+                value={step.title}
+                onChange={(e) => updateDraft(index, { title: e.target.value })}
+                disabled={step.skip}
+              />
+              <label className="flex items-center gap-1 text-xs text-neutral-medium whitespace-nowrap">
+                <input
+                  type="checkbox"
+                  checked={step.skip}
+                  onChange={(e) => updateDraft(index, { skip: e.target.checked })}
+                />
+                Skip
+              </label>
+            </div>
+            <Textarea
+              value={step.instructions}
+              onChange={(e) => updateDraft(index, { instructions: e.target.value })}
+              disabled={step.skip}
+              className="min-h-[60px] text-sm"
+            />
+          </div>
+        ))}
+        <div className="flex justify-between gap-2">
+          <button
+            type="button"
+            className="px-4 py-2 text-sm rounded-lg border border-line-medium text-neutral-medium"
+            onClick={() =>
+              setDraft((prev) => [...prev, { title: '', instructions: '', skip: false }])
+            }
+          >
+            Add step
+          </button>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              disabled={busy}
+              className="px-4 py-2 text-sm rounded-lg border border-line-medium text-neutral-medium"
+              onClick={() => send(`/api/agent-plans/${plan.id}/cancel`, 'POST')}
+            >
+              Discard plan
+            </button>
+            <button
+              type="button"
+              disabled={busy || draft.every((s) => s.skip)}
+              onClick={approve}
+              className="px-4 py-2 text-sm font-semibold rounded-lg bg-standout-high text-on-high disabled:opacity-50"
+            >
+              {busy ? 'Starting…' : 'Approve and run'}
+            </button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {plan.steps.map((step, index) => (
+        <div key={step.id} className="space-y-1 rounded-lg border border-line-medium p-3">
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-semibold text-neutral-medium">{index + 1}.</span>
+            <span className="text-sm font-medium text-neutral-high flex-1">{step.title}</span>
+            {step.status === 'running' && <Spinner className="size-4" />}
+            <Badge variant={STATUS_VARIANT[step.status]}>{step.status}</Badge>
+          </div>
+          {step.summary && <div className="text-sm text-neutral-high">{step.summary}</div>}
+          {step.applied && step.applied.length > 0 && (
+            <div className="text-xs text-neutral-medium">Applied: {step.applied.join(', ')}</div>
+          )}
+          {step.error && <div className="text-xs text-red-600">{step.error}</div>}
+        </div>
+      ))}
+
+      {plan.status === 'failed' && (
+        <div className="flex items-center justify-between gap-2">
+          <div className="text-xs text-neutral-medium">
+            Changes from completed steps are kept in the AI review draft.
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              disabled={busy}
+              className="px-4 py-2 text-sm rounded-lg border border-line-medium text-neutral-medium"
+              onClick={() => send(`/api/agent-plans/${plan.id}/cancel`, 'POST')}
+            >
+              Stop here
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => send(`/api/agent-plans/${plan.id}/resume`, 'POST')}
+              className="px-4 py-2 text-sm font-semibold rounded-lg bg-standout-high text-on-high disabled:opacity-50"
+            >
+              Retry failed step
+            </button>
+          </div>
+        </div>
+      )}
+      {plan.status === 'running' && (
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            disabled={busy}
+            className="px-4 py-2 text-sm rounded-lg border border-line-medium text-neutral-medium"
+            onClick={() => send(`/api/agent-plans/${plan.id}/cancel`, 'POST')}
+          >
+            Cancel remaining steps
+          </button>
+          {Date.now() - new Date(plan.updatedAt).getTime() > PLAN_STALE_MS && (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => send(`/api/agent-plans/${plan.id}/resume`, 'POST')}
+              className="px-4 py-2 text-sm font-semibold rounded-lg bg-standout-high text-on-high disabled:opacity-50"
+            >
+              Resume stalled plan
+            </button>
+          )}
+        </div>
+      )}
+      {plan.status === 'cancelled' && (
+        <div className="text-xs text-neutral-medium">
+          Plan cancelled. Changes from completed steps are kept in the AI review draft.
+        </div>
+      )}
+    </div>
+  )
+}
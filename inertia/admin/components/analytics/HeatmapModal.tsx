@@ -6,12 +6,16 @@ import { faFire, faSpinner } from '@fortawesome/free-solid-svg-icons'
 
 interface HeatmapModalProps {
   post: { id: string; title: string; slug: string; publicPath: string } | null
+  /** Inclusive UTC day range (YYYY-MM-DD); defaults to the last 30 days */
+  range?: { from: string; to: string }
   open: boolean
   onOpenChange: (open: boolean) => void
 }
 
-export function HeatmapModal({ post, open, onOpenChange }: HeatmapModalProps) {
-  const [data, setData] = useState<any[]>([])
+type HeatmapPoint = { x: number; y: number; viewport_width: number | null; count: number }
+
+export function HeatmapModal({ post, range, open, onOpenChange }: HeatmapModalProps) {
+  const [data, setData] = useState<HeatmapPoint[]>([])
   const [loading, setLoading] = useState(false)
   const [iframeLoaded, setIframeLoaded] = useState(false)
   const canvasRef = useRef<HTMLCanvasElement>(null)
@@ -23,12 +27,17 @@ export function HeatmapModal({ post, open, onOpenChange }: HeatmapModalProps) {
       setIframeLoaded(false)
       loadData()
     }
-  }, [open, post])
+  }, [open, post, range?.from, range?.to])
 
   async function loadData() {
     setLoading(true)
     try {
-      const res = await fetch(`/api/analytics/heatmap?postId=${post?.id}`, {
+      const params = new URLSearchParams({ postId: post?.id || '' })
+      if (range) {
+        params.set('from', range.from)
+        params.set('to', range.to)
+      }
+      const res = await fetch(`/api/analytics/heatmap?${params.toString()}`, {
         credentials: 'same-origin',
       })
       const json = await res.json()
@@ -63,16 +72,18 @@ export function HeatmapModal({ post, open, onOpenChange }: HeatmapModalProps) {
 
     ctx.clearRect(0, 0, canvas.width, canvas.height)
 
-    // Draw heat points
+    // Draw heat points; each point is a grid cell weighted by its interaction count
+    const maxCount = Math.max(...data.map((point) => point.count || 1))
     data.forEach((point) => {
       const x = point.x
       const y = point.y
 
       // Only draw if within bounds and meaningful
       if (x != null && y != null && x > 0 && y > 0) {
+        const weight = 0.3 + 0.7 * ((point.count || 1) / maxCount)
         const gradient = ctx.createRadialGradient(x, y, 0, x, y, 25)
-        gradient.addColorStop(0, 'rgba(255, 69, 0, 0.5)')
-        gradient.addColorStop(0.5, 'rgba(255, 140, 0, 0.2)')
+        gradient.addColorStop(0, `rgba(255, 69, 0, ${0.5 * weight})`)
+        gradient.addColorStop(0.5, `rgba(255, 140, 0, ${0.2 * weight})`)
         gradient.addColorStop(1, 'rgba(255, 140, 0, 0)')
 
         ctx.fillStyle = gradient
@@ -100,7 +111,7 @@ export function HeatmapModal({ post, open, onOpenChange }: HeatmapModalProps) {
                 <FontAwesomeIcon icon={faSpinner} className="animate-spin text-neutral-medium" />
               )}
               <Badge variant="outline" className="font-mono text-[10px]">
-                {data.length} interactions
+                {data.reduce((sum, point) => sum + (point.count || 1), 0)} interactions
               </Badge>
             </div>
           </div>
@@ -0,0 +1,227 @@
+/**
+ * A/B Test Panel
+ *
+ * Shows each variation's conversion rate with its 95% interval and probability
+ * to beat variation A, and lets publishers set the conversion goal and the
+ * auto-promotion rule of the post's A/B group.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Input } from '~/components/ui/input'
+import { Switch } from '~/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '~/components/ui/select'
+import { getXsrf } from '~/utils/xsrf'
+
+type AbGoalType = 'form_submission' | 'click' | 'url_visit'
+
+type AbSettings = {
+  goalType: AbGoalType
+  goalSelector: string | null
+  goalUrl: string | null
+  minViews: number
+  threshold: number
+  autoPromote: boolean
+  promotedAt: string | null
+}
+
+type AbVariationStats = {
+  views: number
+  conversions: number
+  conversionRate: number
+  interval: { low: number; high: number }
+  probabilityToBeatBaseline: number | null
+}
+
+type AbDecision =
+  | { status: 'insufficient_data'; minViews: number }
+  | { status: 'no_winner' }
+  | { status: 'winner'; winner: string; probability: number }
+
+const GOAL_LABELS: Record<AbGoalType, string> = {
+  form_submission: 'Form submission',
+  click: 'Click',
+  url_visit: 'Target URL visit',
+}
+
+function pct(value: number): string {
+  return `${value.toFixed(1)}%`
+}
+
+export function AbTestPanel({ postId, canEdit }: { postId: string; canEdit: boolean }) {
+  const [stats, setStats] = useState<Record<string, AbVariationStats>>({})
+  const [decision, setDecision] = useState<AbDecision | null>(null)
+  const [settings, setSettings] = useState<AbSettings | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/posts/${encodeURIComponent(postId)}/ab-stats`, {
+        headers: { Accept: 'application/json' },
+        credentials: 'same-origin',
+      })
+      const json = await res.json().catch(() => ({}))
+      setStats(json?.data || {})
+      setDecision(json?.decision || null)
+      setSettings(json?.settings || null)
+    } catch {
+      setStats({})
+    }
+  }, [postId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  async function save() {
+    if (!settings) return
+    setSaving(true)
+    try {
+      const xsrf = getXsrf()
+      const res = await fetch(`/api/posts/${encodeURIComponent(postId)}/ab-settings`, {
+        method: 'PUT',
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+          ...(xsrf ? { 'X-XSRF-TOKEN': xsrf } : {}),
+        },
+        credentials: 'same-origin',
+        body: JSON.stringify(settings),
+      })
+      const json = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        toast.error(json?.error || 'Failed to save A/B settings')
+        return
+      }
+      toast.success('A/B settings saved')
+      await load()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!settings) return null
+  const labels = Object.keys(stats).sort()
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="space-y-1">
+        {labels.map((label) => {
+          const s = stats[label]
+          return (
+            <div key={label} className="flex items-center justify-between gap-2">
+              <span className="font-semibold text-neutral-high">Var {label}</span>
+              <span className="text-neutral-medium">
+                {s.conversions}/{s.views} · {pct(s.conversionRate)}
+                {s.views > 0 && (
+                  <span className="opacity-70">
+                    {' '}
+                    ({pct(s.interval.low)}–{pct(s.interval.high)})
+                  </span>
+                )}
+                {s.probabilityToBeatBaseline !== null && (
+                  <span className="ml-1 font-semibold">
+                    {Math.round(s.probabilityToBeatBaseline * 100)}% vs A
+                  </span>
+                )}
+              </span>
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="text-neutral-medium">
+        {settings.promotedAt
+          ? `Winner promoted automatically on ${new Date(settings.promotedAt).toLocaleString()}.`
+          : decision?.status === 'winner'
+            ? `Variation ${decision.winner} wins (${Math.round(decision.probability * 100)}% probability).`
+            : decision?.status === 'insufficient_data'
+              ? `Collecting data: every variation needs ${decision.minViews} views.`
+              : 'No winner yet.'}
+      </div>
+
+      {canEdit && (
+        <div className="space-y-2 pt-2 border-t border-line-low">
+          <Select
+            value={settings.goalType}
+            onValueChange={(value) => setSettings({ ...settings, goalType: value as AbGoalType })}
+          >
+            <SelectTrigger className="w-full h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(GOAL_LABELS) as AbGoalType[]).map((goal) => (
+                <SelectItem key={goal} value={goal}>
+                  {GOAL_LABELS[goal]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {settings.goalType === 'click' && (
+            <Input
+              className="h-8 text-xs"
+              placeholder="Selector, e.g. a.btn-primary (empty = any click)"
+              value={settings.goalSelector || ''}
+              onChange={(e) => setSettings({ ...settings, goalSelector: e.target.value })}
+            />
+          )}
+          {settings.goalType === 'url_visit' && (
+            <Input
+              className="h-8 text-xs"
+              placeholder="Target path, e.g. /pricing"
+              value={settings.goalUrl || ''}
+              onChange={(e) => setSettings({ ...settings, goalUrl: e.target.value })}
+            />
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            <label className="space-y-1">
+              <span className="text-neutral-low">Min. views each</span>
+              <Input
+                type="number"
+                min={1}
+                className="h-8 text-xs"
+                value={settings.minViews}
+                onChange={(e) => setSettings({ ...settings, minViews: Number(e.target.value) })}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-neutral-low">Confidence (%)</span>
+              <Input
+                type="number"
+                min={50}
+                max={99.9}
+                step={0.1}
+                className="h-8 text-xs"
+                value={Math.round(settings.threshold * 1000) / 10}
+                onChange={(e) =>
+                  setSettings({ ...settings, threshold: Number(e.target.value) / 100 })
+                }
+              />
+            </label>
+          </div>
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-neutral-medium">Auto-promote the winner</span>
+            <Switch
+              checked={settings.autoPromote}
+              onCheckedChange={(checked) => setSettings({ ...settings, autoPromote: checked })}
+            />
+          </label>
+          <button
+            type="button"
+            disabled={saving}
+            onClick={save}
+            className="w-full px-3 py-1.5 text-xs font-semibold rounded-lg bg-standout-high text-on-high disabled:opacity-50"
+          >
+            {saving ? 'Saving…' : 'Save A/B settings'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+/**
+ * Scheduled Approval Panel
+ *
+ * Lets reviewers promote the Review draft to Source at a future time,
+ * and shows the pending schedule plus recent history for the post.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Input } from '~/components/ui/input'
+import { Popover, PopoverTrigger, PopoverContent } from '~/components/ui/popover'
+import { Calendar } from '~/components/ui/calendar'
+import { getXsrf } from '~/utils/xsrf'
+
+type ScheduledApproval = {
+  id: string
+  scheduledFor: string
+  status: 'pending' | 'applying' | 'applied' | 'cancelled' | 'failed'
+  cancelReason: string | null
+  appliedAt: string | null
+  error: string | null
+  createdAt: string
+}
+
+function defaultScheduleDate(): Date {
+  const d = new Date()
+  d.setDate(d.getDate() + 1)
+  d.setHours(9, 0, 0, 0)
+  return d
+}
+
+export function ScheduledApprovalPanel({
+  postId,
+  disabled = false,
+}: {
+  postId: string
+  disabled?: boolean
+}) {
+  const [items, setItems] = useState<ScheduledApproval[]>([])
+  const [when, setWhen] = useState<Date>(defaultScheduleDate)
+  const [saving, setSaving] = useState(false)
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/posts/${encodeURIComponent(postId)}/scheduled-approvals`, {
+        headers: { Accept: 'application/json' },
+        credentials: 'same-origin',
+      })
+      const json = await res.json().catch(() => ({}))
+      setItems(Array.isArray(json?.data) ? json.data : [])
+    } catch {
+      setItems([])
+    }
+  }, [postId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const pending = items.find((i) => i.status === 'pending') || null
+  const history = items.filter((i) => i.status !== 'pending').slice(0, 5)
+
+  async function schedule() {
+    if (when.getTime() <= Date.now()) {
+      toast.error('Pick a time in the future')
+      return
+    }
+    setSaving(true)
+    try {
+      const xsrf = getXsrf()
+      const res = await fetch(`/api/posts/${encodeURIComponent(postId)}/scheduled-approvals`, {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+          ...(xsrf ? { 'X-XSRF-TOKEN': xsrf } : {}),
+        },
+        credentials: 'same-origin',
+        body: JSON.stringify({ scheduledFor: when.toISOString() }),
+      })
+      const json = await res.json().catch(() => null)
+      if (!res.ok) {
+        toast.error(json?.error || 'Failed to schedule approval')
+        return
+      }
+      toast.success('Approval scheduled')
+      await load()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function cancel(id: string) {
+    const xsrf = getXsrf()
+    const res = await fetch(
+      `/api/posts/${encodeURIComponent(postId)}/scheduled-approvals/${encodeURIComponent(id)}`,
+      {
+        method: 'DELETE',
+        headers: { Accept: 'application/json', ...(xsrf ? { 'X-XSRF-TOKEN': xsrf } : {}) },
+        credentials: 'same-origin',
+      }
+    )
+    if (res.ok) {
+      toast.success('Scheduled approval cancelled')
+    } else {
+      const json = await res.json().catch(() => null)
+      toast.error(json?.error || 'Failed to cancel')
+    }
+    await load()
+  }
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-xs font-medium text-neutral-medium">Scheduled Approval</label>
+      {pending ? (
+        <div className="flex items-center justify-between gap-2 rounded-lg border border-line-low px-3 py-2">
+          <span className="text-xs text-neutral-high">
+            Promotes to Source on {new Date(pending.scheduledFor).toLocaleString()}
+          </span>
+          <button
+            type="button"
+            className="text-xs text-neutral-medium hover:text-neutral-high"
+            onClick={() => cancel(pending.id)}
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-neutral-low">No approval scheduled.</p>
+      )}
+      <div className="flex items-center gap-2">
+        <Popover>
+          <PopoverTrigger asChild>
+            <button
+              type="button"
+              className="px-3 py-2 text-sm border border-line-low rounded hover:bg-backdrop-medium text-neutral-high"
+              disabled={disabled}
+            >
+              {when.toLocaleDateString()}
+            </button>
+          </PopoverTrigger>
+          <PopoverContent className="p-0">
+            <Calendar
+              mode="single"
+              selected={when}
+              onSelect={(d: Date | undefined) => {
+                if (!d) return
+                setWhen(
+                  new Date(
+                    d.getFullYear(),
+                    d.getMonth(),
+                    d.getDate(),
+                    when.getHours(),
+                    when.getMinutes(),
+                    0
+                  )
+                )
+              }}
+            />
+          </PopoverContent>
+        </Popover>
+        <Input
+          type="time"
+          className="w-[110px] h-9"
+          disabled={disabled}
+          value={`${String(when.getHours()).padStart(2, '0')}:${String(when.getMinutes()).padStart(2, '0')}`}
+          onChange={(e) => {
+            const [h, m] = e.target.value.split(':').map(Number)
+            if (Number.isNaN(h) || Number.isNaN(m)) return
+            const d = new Date(when)
+            d.setHours(h, m, 0, 0)
+            setWhen(d)
+          }}
+        />
+        <button
+          type="button"
+          className="h-8 px-3 text-xs border border-border rounded-lg hover:bg-backdrop-medium text-neutral-medium disabled:opacity-50"
+          disabled={disabled || saving}
+          onClick={schedule}
+        >
+          {pending ? 'Reschedule' : 'Schedule'}
+        </button>
+      </div>
+      {history.length > 0 && (
+        <ul className="space-y-1">
+          {history.map((item) => (
+            <li key={item.id} className="text-xs text-neutral-low">
+              {new Date(item.scheduledFor).toLocaleString()} — {item.status}
+              {item.status === 'cancelled' && item.cancelReason ? ` (${item.cancelReason})` : ''}
+              {item.status === 'failed' && item.error ? ` (${item.error})` : ''}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
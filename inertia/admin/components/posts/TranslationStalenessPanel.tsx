@@ -0,0 +1,243 @@
+/**
+ * Translation Staleness Panel
+ *
+ * Shown on translations whose source post changed since they were last synced:
+ * lists the changed fields/modules with a word diff of the source text, and
+ * lets editors send just those parts to the Translator agent.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import { router } from '@inertiajs/react'
+import { toast } from 'sonner'
+import { getXsrf } from '~/utils/xsrf'
+
+type StaleUnit = {
+  id: string
+  label: string | null
+  status: 'changed' | 'added' | 'removed'
+  previous: string | null
+  current: string | null
+}
+
+type Staleness = {
+  tracked: boolean
+  outdated: boolean
+  syncedAt: string | null
+  changedLabels: string[]
+  changes: StaleUnit[]
+  sourceLocale: string
+  agentInstructions: string | null
+}
+
+type DiffPart = { text: string; kind: 'same' | 'added' | 'removed' }
+
+/**
+ * Word-level diff (LCS); long texts fall back to a plain before/after
+ */
+function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.split(/(\s+)/)
+  const b = after.split(/(\s+)/)
+  if (a.length * b.length > 250_000) {
+    return [
+      { text: before, kind: 'removed' },
+      { text: after, kind: 'added' },
+    ]
+  }
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+  const parts: DiffPart[] = []
+  const push = (text: string, kind: DiffPart['kind']) => {
+    const last = parts[parts.length - 1]
+    if (last && last.kind === kind) last.text += text
+    else parts.push({ text, kind })
+  }
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], 'same')
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(a[i++], 'removed')
+    } else {
+      push(b[j++], 'added')
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed')
+  while (j < b.length) push(b[j++], 'added')
+  return parts
+}
+
+function ChangeDiff({ change }: { change: StaleUnit }) {
+  const parts =
+    change.status === 'changed'
+      ? diffWords(change.previous || '', change.current || '')
+      : change.status === 'added'
+        ? [{ text: change.current || '', kind: 'added' as const }]
+        : [{ text: change.previous || '', kind: 'removed' as const }]
+  return (
+    <p className="text-xs text-neutral-medium whitespace-pre-wrap break-words">
+      {parts.map((part, idx) =>
+        part.kind === 'same' ? (
+          <span key={idx}>{part.text}</span>
+        ) : part.kind === 'added' ? (
+          <ins key={idx} className="no-underline bg-emerald-500/15 text-emerald-700">
+            {part.text}
+          </ins>
+        ) : (
+          <del key={idx} className="bg-red-500/10 text-red-600">
+            {part.text}
+          </del>
+        )
+      )}
+    </p>
+  )
+}
+
+export function TranslationStalenessPanel({
+  postId,
+  locale,
+  canRunAgent = false,
+}: {
+  postId: string
+  locale: string
+  canRunAgent?: boolean
+}) {
+  const [data, setData] = useState<Staleness | null>(null)
+  const [open, setOpen] = useState(false)
+  const [busy, setBusy] = useState(false)
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(
+        `/api/posts/${encodeURIComponent(postId)}/translations/${encodeURIComponent(locale)}/staleness`,
+        { headers: { Accept: 'application/json' }, credentials: 'same-origin' }
+      )
+      const json = await res.json().catch(() => ({}))
+      setData(res.ok ? json?.data || null : null)
+    } catch {
+      setData(null)
+    }
+  }, [postId, locale])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  if (!data?.outdated) return null
+
+  async function markSynced() {
+    setBusy(true)
+    try {
+      const xsrf = getXsrf()
+      const res = await fetch(
+        `/api/posts/${encodeURIComponent(postId)}/translations/${encodeURIComponent(locale)}/sync`,
+        {
+          method: 'POST',
+          headers: { Accept: 'application/json', ...(xsrf ? { 'X-XSRF-TOKEN': xsrf } : {}) },
+          credentials: 'same-origin',
+        }
+      )
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({}))
+        toast.error(json?.error || 'Failed to update translation status')
+        return
+      }
+      toast.success('Translation marked as up to date')
+      await load()
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function sendToTranslator() {
+    if (!data?.agentInstructions) return
+    setBusy(true)
+    try {
+      const xsrf = getXsrf()
+      const res = await fetch(`/api/posts/${encodeURIComponent(postId)}/agents/translator/run`, {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+          ...(xsrf ? { 'X-XSRF-TOKEN': xsrf } : {}),
+        },
+        credentials: 'same-origin',
+        body: JSON.stringify({
+          context: { scope: 'dropdown', staleUnitIds: data.changes.map((c) => c.id) },
+          openEndedContext: data.agentInstructions,
+        }),
+      })
+      const json = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        toast.error(json?.error || 'Translator agent failed')
+        return
+      }
+      toast.success('Translator suggestions saved to AI Review')
+      router.visit(`${window.location.pathname}?view=ai-review`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-amber-500/40 bg-amber-500/5 p-4 space-y-3">
+      <div>
+        <p className="text-sm font-semibold text-neutral-high">Source changed</p>
+        <p className="text-xs text-neutral-medium">
+          The {data.sourceLocale.toUpperCase()} source changed
+          {data.syncedAt ? ` since ${new Date(data.syncedAt).toLocaleDateString()}` : ''}:{' '}
+          {data.changedLabels.join(', ')}
+        </p>
+      </div>
+
+      <button
+        type="button"
+        className="text-xs text-standout-high underline"
+        onClick={() => setOpen((v) => !v)}
+      >
+        {open ? 'Hide changes' : `Show changes (${data.changes.length})`}
+      </button>
+
+      {open && (
+        <div className="space-y-3 max-h-80 overflow-y-auto pr-1">
+          {data.changes.map((change) => (
+            <div key={change.id} className="space-y-1">
+              <p className="text-[10px] font-bold uppercase tracking-widest text-neutral-low">
+                {change.label || change.id}
+                {change.status !== 'changed' && ` (${change.status})`}
+              </p>
+              <ChangeDiff change={change} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2">
+        {canRunAgent && (
+          <button
+            type="button"
+            disabled={busy}
+            onClick={sendToTranslator}
+            className="w-full py-2 text-xs font-bold rounded-xl bg-standout-high text-on-high disabled:opacity-50"
+          >
+            Send changed parts to Translator
+          </button>
+        )}
+        <button
+          type="button"
+          disabled={busy}
+          onClick={markSynced}
+          className="w-full py-2 text-xs font-bold rounded-xl border border-line-medium text-neutral-medium disabled:opacity-50"
+        >
+          Mark as up to date
+        </button>
+      </div>
+    </div>
+  )
+}
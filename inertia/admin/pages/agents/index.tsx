@@ -16,7 +16,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from '../../../components/ui/select'
+import { Input } from '../../../components/ui/input'
 import { toast } from 'sonner'
+import { AIUsagePanel, type AIPrice } from '../../components/agents/AIUsagePanel'
 
 type Agent = {
   id: string
@@ -41,11 +43,18 @@ type AISettings = {
   defaultMediaModel: string | null
   defaultVideoProvider: string | null
   defaultVideoModel: string | null
+  openaiCompatibleBaseUrl: string | null
+  pricing?: AIPrice[] | null
   options?: any
 }
 
 type ProviderModels = Record<string, string[]>
 
+function providerLabel(provider: string): string {
+  if (provider === 'openai-compatible') return 'OpenAI-compatible (self-hosted)'
+  return provider.charAt(0).toUpperCase() + provider.slice(1)
+}
+
 function getXsrf(): string | undefined {
   if (typeof document === 'undefined') return undefined
   const m = document.cookie.match(/(?:^|; )XSRF-TOKEN=([^;]+)/)
@@ -69,11 +78,13 @@ export default function AgentsIndex() {
     defaultMediaModel: 'dall-e-3',
     defaultVideoProvider: 'google',
     defaultVideoModel: 'veo-2.0-generate-001',
+    openaiCompatibleBaseUrl: null,
   })
   const [textModelsByProvider, setTextModelsByProvider] = useState<ProviderModels>({})
   const [imageModelsByProvider, setImageModelsByProvider] = useState<ProviderModels>({})
   const [videoModelsByProvider, setVideoModelsByProvider] = useState<ProviderModels>({})
   const [providers, setProviders] = useState<string[]>([])
+  const [defaultPricing, setDefaultPricing] = useState<AIPrice[]>([])
 
   async function loadAgents() {
     setAgentsLoading(true)
@@ -100,6 +111,7 @@ export default function AgentsIndex() {
         setImageModelsByProvider(j.data.imageModels || {})
         setVideoModelsByProvider(j.data.videoModels || {})
         setProviders(j.data.providers)
+        setDefaultPricing(j.data.defaultPricing || [])
       }
     } catch (error) {
       toast.error('Failed to load AI settings')
@@ -128,6 +140,8 @@ export default function AgentsIndex() {
       })
       if (res.ok) {
         toast.success('AI Settings saved')
+        // Model lists depend on the OpenAI-compatible base URL
+        await loadSettings()
       } else {
         const j = await res.json().catch(() => ({}))
         toast.error(j?.error || 'Failed to save')
@@ -269,7 +283,7 @@ export default function AgentsIndex() {
                     <SelectContent>
                       {providers.map((p) => (
                         <SelectItem key={p} value={p}>
-                          {p.charAt(0).toUpperCase() + p.slice(1)}
+                          {providerLabel(p)}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -299,6 +313,28 @@ export default function AgentsIndex() {
 
             <div className="border-t border-line-low" />
 
+            <section>
+              <h3 className="text-lg font-semibold mb-4">OpenAI-Compatible Server</h3>
+              <p className="text-sm text-neutral-medium mb-6">
+                Run agents on a self-hosted model server (Ollama, vLLM, LM Studio) so drafts never
+                leave your network. Models are listed from the server&apos;s <code>/models</code>{' '}
+                endpoint after saving. An optional API key is read from
+                AI_PROVIDER_OPENAI_COMPATIBLE_API_KEY.
+              </p>
+              <div className="space-y-2 md:w-1/2">
+                <label className="text-sm font-medium text-neutral-medium">Base URL</label>
+                <Input
+                  value={settings.openaiCompatibleBaseUrl || ''}
+                  onChange={(e) =>
+                    setSettings({ ...settings, openaiCompatibleBaseUrl: e.target.value || null })
+                  }
+                  placeholder="http://localhost:11434/v1"
+                />
+              </div>
+            </section>
+
+            <div className="border-t border-line-low" />
+
             <section>
               <h3 className="text-lg font-semibold mb-4">Media (Generation) Defaults</h3>
               <p className="text-sm text-neutral-medium mb-6">
@@ -327,7 +363,7 @@ export default function AgentsIndex() {
                     <SelectContent>
                       {providers.map((p) => (
                         <SelectItem key={p} value={p}>
-                          {p.charAt(0).toUpperCase() + p.slice(1)}
+                          {providerLabel(p)}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -385,7 +421,7 @@ export default function AgentsIndex() {
                     <SelectContent>
                       {providers.map((p) => (
                         <SelectItem key={p} value={p}>
-                          {p.charAt(0).toUpperCase() + p.slice(1)}
+                          {providerLabel(p)}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -431,6 +467,14 @@ export default function AgentsIndex() {
                 </span>
               )}
             </div>
+
+            <div className="border-t border-line-low" />
+
+            <AIUsagePanel
+              pricing={settings.pricing ?? null}
+              defaultPricing={defaultPricing}
+              onPricingSaved={(pricing) => setSettings((prev) => ({ ...prev, pricing }))}
+            />
           </div>
         )}
       </main>
@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react'
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '~/components/ui/chart'
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import { toast } from 'sonner'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../../../components/ui/table'
+
+interface SubmissionAnalyticsData {
+  range: { from: string; to: string }
+  totals: { submissions: number; spam: number }
+  overTime: Array<{ date: string; submissions: number }>
+  byOrigin: Array<{
+    postId: string | null
+    title: string | null
+    slug: string | null
+    submissions: number
+    views: number
+    conversionRate: number | null
+  }>
+}
+
+const chartConfig = {
+  submissions: {
+    label: 'Submissions',
+    color: '#3b82f6',
+  },
+} satisfies ChartConfig
+
+/**
+ * Submissions over time and conversion by origin post for one form.
+ * Uses the inbox date filters; without them the last 30 days.
+ */
+export function SubmissionAnalytics({
+  formSlug,
+  from,
+  to,
+}: {
+  formSlug: string
+  from: string
+  to: string
+}) {
+  const [data, setData] = useState<SubmissionAnalyticsData | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    const load = async () => {
+      setLoading(true)
+      try {
+        const params = new URLSearchParams({ form_slug: formSlug })
+        if (from) params.set('from', from)
+        if (to) params.set('to', to)
+        const res = await fetch(`/api/forms-submissions/analytics?${params.toString()}`, {
+          credentials: 'same-origin',
+        })
+        const j = await res.json().catch(() => ({}))
+        if (cancelled) return
+        if (!res.ok) {
+          toast.error(j?.error || 'Failed to load form analytics')
+          return
+        }
+        setData(j.data)
+      } catch {
+        if (!cancelled) toast.error('Failed to load form analytics')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [formSlug, from, to])
+
+  if (!data) {
+    return loading ? (
+      <div className="px-6 py-4 text-sm text-neutral-low">Loading analytics...</div>
+    ) : null
+  }
+
+  return (
+    <div className="px-6 py-4 border-b border-line-low space-y-4">
+      <div className="flex flex-wrap items-baseline gap-6">
+        <div>
+          <div className="text-xs text-neutral-medium">Submissions</div>
+          <div className="text-2xl font-bold text-neutral-high">
+            {data.totals.submissions.toLocaleString()}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-neutral-medium">Spam</div>
+          <div className="text-2xl font-bold text-neutral-high">
+            {data.totals.spam.toLocaleString()}
+          </div>
+        </div>
+        <div className="text-xs text-neutral-low">
+          {data.range.from} – {data.range.to}
+        </div>
+      </div>
+
+      <div className="h-[200px] w-full">
+        <ChartContainer config={chartConfig} className="h-full w-full">
+          <LineChart data={data.overTime} margin={{ top: 5, right: 30, left: 0, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="rgba(0,0,0,0.05)" />
+            <XAxis
+              dataKey="date"
+              axisLine={false}
+              tickLine={false}
+              tick={{ fill: '#94a3b8', fontSize: 10 }}
+              tickFormatter={(value) => {
+                const date = new Date(value)
+                return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+              }}
+            />
+            <YAxis
+              allowDecimals={false}
+              axisLine={false}
+              tickLine={false}
+              tick={{ fill: '#94a3b8', fontSize: 10 }}
+            />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Line
+              type="monotone"
+              dataKey="submissions"
+              stroke="var(--color-submissions)"
+              strokeWidth={2}
+              dot={false}
+              activeDot={{ r: 4, strokeWidth: 0 }}
+            />
+          </LineChart>
+        </ChartContainer>
+      </div>
+
+      {data.byOrigin.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Submitted from</TableHead>
+              <TableHead className="text-right">Submissions</TableHead>
+              <TableHead className="text-right">Views</TableHead>
+              <TableHead className="text-right">Conversion</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.byOrigin.map((row) => (
+              <TableRow key={row.postId || 'none'}>
+                <TableCell className="text-neutral-high">
+                  {row.title || <span className="text-neutral-low">Unknown page</span>}
+                </TableCell>
+                <TableCell className="text-right">{row.submissions.toLocaleString()}</TableCell>
+                <TableCell className="text-right">{row.views.toLocaleString()}</TableCell>
+                <TableCell className="text-right">
+                  {row.conversionRate === null ? (
+                    <span className="text-neutral-low">—</span>
+                  ) : (
+                    `${(row.conversionRate * 100).toFixed(1)}%`
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,947 @@
+import { useState, type ReactNode } from 'react'
+import { Head, Link, router } from '@inertiajs/react'
+import { useAdminPath } from '~/utils/adminPath'
+import { AdminHeader } from '../../components/AdminHeader'
+import { AdminFooter } from '../../components/AdminFooter'
+import { Input } from '../../../components/ui/input'
+import { Textarea } from '../../../components/ui/textarea'
+import { Checkbox } from '../../../components/ui/checkbox'
+import { useConfirm } from '~/components/ConfirmDialogProvider'
+import { toast } from 'sonner'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import {
+  faArrowDown,
+  faArrowLeft,
+  faArrowUp,
+  faPlus,
+  faTrash,
+} from '@fortawesome/free-solid-svg-icons'
+import { ThankYouPagePicker } from './ThankYouPagePicker'
+import { FORM_FIELD_TYPES, type FormConfig, type FormFieldType } from '#types/form_types'
+
+type ConditionOperator = 'equals' | 'notEquals' | 'filled' | 'empty'
+
+type FieldDraft = {
+  key: string
+  slug: string
+  label: string
+  type: FormFieldType
+  required: boolean
+  description: string
+  placeholder: string
+  /** One option per line: `value` or `value | Label` */
+  optionsText: string
+  minLength: string
+  maxLength: string
+  pattern: string
+  patternMessage: string
+  min: string
+  max: string
+  minDate: string
+  maxDate: string
+  accept: string
+  maxSizeMb: string
+  maxFiles: string
+  showIfField: string
+  showIfOperator: ConditionOperator
+  showIfValue: string
+  step: number
+}
+
+type StepDraft = { key: string; title: string; description: string }
+
+type FormDraft = {
+  slug: string
+  title: string
+  description: string
+  successMessage: string
+  thankYouPostId: string
+  fields: FieldDraft[]
+  steps: StepDraft[]
+  notifyRecipients: string
+  notifySubject: string
+  notifyBody: string
+  notifyReplyToField: string
+  autoresponderField: string
+  autoresponderSubject: string
+  autoresponderBody: string
+  autoresponderReplyTo: string
+}
+
+interface FormBuilderProps {
+  forms: FormConfig[]
+  canEdit: boolean
+  canDelete: boolean
+}
+
+const TEXT_TYPES: FormFieldType[] = ['text', 'textarea', 'email', 'phone', 'url']
+
+let keySeq = 0
+const nextKey = () => `k${++keySeq}`
+
+function getXsrfToken(): string | undefined {
+  if (typeof document === 'undefined') return undefined
+  const m = document.cookie.match(/(?:^|; )XSRF-TOKEN=([^;]+)/)
+  return m ? decodeURIComponent(m[1]) : undefined
+}
+
+const str = (value: unknown) => (value === undefined || value === null ? '' : String(value))
+
+function emptyField(index: number): FieldDraft {
+  return {
+    key: nextKey(),
+    slug: `field_${index + 1}`,
+    label: '',
+    type: 'text',
+    required: false,
+    description: '',
+    placeholder: '',
+    optionsText: '',
+    minLength: '',
+    maxLength: '',
+    pattern: '',
+    patternMessage: '',
+    min: '',
+    max: '',
+    minDate: '',
+    maxDate: '',
+    accept: '',
+    maxSizeMb: '',
+    maxFiles: '',
+    showIfField: '',
+    showIfOperator: 'equals',
+    showIfValue: '',
+    step: 0,
+  }
+}
+
+function toDraft(form: FormConfig | null): FormDraft {
+  if (!form) {
+    return {
+      slug: '',
+      title: '',
+      description: '',
+      successMessage: '',
+      thankYouPostId: '',
+      fields: [emptyField(0)],
+      steps: [],
+      notifyRecipients: '',
+      notifySubject: '',
+      notifyBody: '',
+      notifyReplyToField: '',
+      autoresponderField: '',
+      autoresponderSubject: '',
+      autoresponderBody: '',
+      autoresponderReplyTo: '',
+    }
+  }
+  const steps = form.steps || []
+  return {
+    slug: form.slug,
+    title: form.title,
+    description: str(form.description),
+    successMessage: str(form.successMessage),
+    thankYouPostId: str(form.thankYouPostId),
+    notifyRecipients: (form.notifications?.recipients || []).join(', '),
+    notifySubject: str(form.notifications?.subject),
+    notifyBody: str(form.notifications?.body),
+    notifyReplyToField: str(form.notifications?.replyToField),
+    autoresponderField: str(form.autoresponder?.toField),
+    autoresponderSubject: str(form.autoresponder?.subject),
+    autoresponderBody: str(form.autoresponder?.body),
+    autoresponderReplyTo: str(form.autoresponder?.replyTo),
+    steps: steps.map((s) => ({ key: nextKey(), title: s.title, description: str(s.description) })),
+    fields: form.fields.map((f) => {
+      const v = f.validation || {}
+      const stepIndex = steps.findIndex((s) => s.fields.includes(f.slug))
+      const condition = f.showIf
+      let showIfOperator: ConditionOperator = 'equals'
+      let showIfValue = ''
+      if (condition?.filled !== undefined) showIfOperator = condition.filled ? 'filled' : 'empty'
+      else if (condition?.notEquals !== undefined) {
+        showIfOperator = 'notEquals'
+        showIfValue = str(condition.notEquals)
+      } else if (condition?.in) showIfValue = condition.in.join(', ')
+      else showIfValue = str(condition?.equals)
+      return {
+        ...emptyField(0),
+        slug: f.slug,
+        label: str(f.label),
+        type: f.type,
+        required: !!f.required,
+        description: str(f.description),
+        placeholder: str(f.placeholder),
+        optionsText: (f.options || [])
+          .map((o) =>
+            str(o.label) && str(o.label) !== str(o.value) ? `${o.value} | ${o.label}` : str(o.value)
+          )
+          .join('\n'),
+        minLength: str(v.minLength),
+        maxLength: str(v.maxLength),
+        pattern: str(v.pattern),
+        patternMessage: str(v.patternMessage),
+        min: str(v.min),
+        max: str(v.max),
+        minDate: str(v.minDate),
+        maxDate: str(v.maxDate),
+        accept: (f.file?.accept || []).join(', '),
+        maxSizeMb: f.file?.maxSize ? String(Math.round((f.file.maxSize / 1048576) * 10) / 10) : '',
+        maxFiles: str(f.file?.maxFiles),
+        showIfField: str(condition?.field),
+        showIfOperator,
+        showIfValue,
+        step: stepIndex === -1 ? Math.max(steps.length - 1, 0) : stepIndex,
+      }
+    }),
+  }
+}
+
+function toPayload(draft: FormDraft) {
+  const fields = draft.fields.map((f) => {
+    let showIf: Record<string, unknown> | undefined
+    if (f.showIfField) {
+      showIf = { field: f.showIfField }
+      if (f.showIfOperator === 'filled') showIf.filled = true
+      else if (f.showIfOperator === 'empty') showIf.filled = false
+      else if (f.showIfOperator === 'notEquals') showIf.notEquals = f.showIfValue
+      else if (f.showIfValue.includes(',')) {
+        showIf.in = f.showIfValue
+          .split(',')
+          .map((v) => v.trim())
+          .filter(Boolean)
+      } else showIf.equals = f.showIfValue
+    }
+    return {
+      slug: f.slug.trim(),
+      label: f.label,
+      type: f.type,
+      required: f.required,
+      description: f.description,
+      placeholder: f.placeholder,
+      options: f.optionsText
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .map((line) => {
+          const [value, ...label] = line.split('|')
+          return { value: value.trim(), label: label.join('|').trim() || value.trim() }
+        }),
+      validation: {
+        minLength: f.minLength,
+        maxLength: f.maxLength,
+        pattern: f.pattern,
+        patternMessage: f.patternMessage,
+        min: f.min,
+        max: f.max,
+        minDate: f.minDate,
+        maxDate: f.maxDate,
+      },
+      file: {
+        accept: f.accept,
+        maxSize: f.maxSizeMb ? Math.round(Number(f.maxSizeMb) * 1048576) : '',
+        maxFiles: f.maxFiles,
+      },
+      showIf,
+    }
+  })
+  const steps = draft.steps.map((s, index) => ({
+    title: s.title,
+    description: s.description,
+    fields: draft.fields.filter((f) => f.step === index).map((f) => f.slug.trim()),
+  }))
+  return {
+    slug: draft.slug.trim(),
+    title: draft.title,
+    description: draft.description,
+    successMessage: draft.successMessage,
+    thankYouPostId: draft.thankYouPostId,
+    fields,
+    steps,
+    notifications: {
+      recipients: draft.notifyRecipients,
+      subject: draft.notifySubject,
+      body: draft.notifyBody,
+      replyToField: draft.notifyReplyToField,
+    },
+    autoresponder: {
+      toField: draft.autoresponderField,
+      subject: draft.autoresponderSubject,
+      body: draft.autoresponderBody,
+      replyTo: draft.autoresponderReplyTo,
+    },
+  }
+}
+
+const selectClass =
+  'h-9 w-full rounded-md border border-line-low bg-backdrop-input px-2 text-sm text-neutral-high'
+
+function Labeled({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="block space-y-1">
+      <span className="text-xs font-medium text-neutral-medium">{label}</span>
+      {children}
+    </label>
+  )
+}
+
+export default function FormBuilder({ forms, canEdit, canDelete }: FormBuilderProps) {
+  const adminPath = useAdminPath()
+  const { confirm } = useConfirm()
+  const [selected, setSelected] = useState<string | null>(null)
+  const [draft, setDraft] = useState<FormDraft>(() => toDraft(null))
+  const [saving, setSaving] = useState(false)
+
+  const current = selected ? forms.find((f) => f.slug === selected) || null : null
+  const readOnly = !canEdit || current?.source === 'code'
+  const emailFields = draft.fields.filter((f) => f.type === 'email').map((f) => f.slug.trim())
+
+  const open = (form: FormConfig | null) => {
+    setSelected(form?.slug ?? null)
+    setDraft(toDraft(form))
+  }
+
+  const updateField = (key: string, patch: Partial<FieldDraft>) => {
+    setDraft((d) => ({
+      ...d,
+      fields: d.fields.map((f) => (f.key === key ? { ...f, ...patch } : f)),
+    }))
+  }
+
+  const moveField = (index: number, delta: number) => {
+    setDraft((d) => {
+      const fields = [...d.fields]
+      const target = index + delta
+      if (target < 0 || target >= fields.length) return d
+      ;[fields[index], fields[target]] = [fields[target], fields[index]]
+      return { ...d, fields }
+    })
+  }
+
+  const removeStep = (index: number) => {
+    setDraft((d) => ({
+      ...d,
+      steps: d.steps.filter((_, i) => i !== index),
+      fields: d.fields.map((f) => ({
+        ...f,
+        step: f.step > index ? f.step - 1 : f.step === index ? Math.max(index - 1, 0) : f.step,
+      })),
+    }))
+  }
+
+  const save = async () => {
+    setSaving(true)
+    try {
+      const res = await fetch(
+        current
+          ? `/api/forms-definitions/${encodeURIComponent(current.slug)}`
+          : '/api/forms-definitions',
+        {
+          method: current ? 'PUT' : 'POST',
+          headers: {
+            'Accept': 'application/json',
+            'Content-Type': 'application/json',
+            ...(getXsrfToken() ? { 'X-XSRF-TOKEN': getXsrfToken()! } : {}),
+          },
+          credentials: 'same-origin',
+          body: JSON.stringify(toPayload(draft)),
+        }
+      )
+      const json = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        toast.error(json?.error || 'Failed to save form')
+        return
+      }
+      toast.success('Form saved')
+      setSelected(json.data.slug)
+      router.reload({ only: ['forms'] })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const remove = async () => {
+    if (!current) return
+    const ok = await confirm({
+      title: 'Delete Form?',
+      description: `Delete "${current.title}"? Existing submissions are kept. Modules using this form will stop rendering it.`,
+      variant: 'destructive',
+    })
+    if (!ok) return
+    const res = await fetch(`/api/forms-definitions/${encodeURIComponent(current.slug)}`, {
+      method: 'DELETE',
+      headers: { ...(getXsrfToken() ? { 'X-XSRF-TOKEN': getXsrfToken()! } : {}) },
+      credentials: 'same-origin',
+    })
+    if (res.status === 204) {
+      toast.success('Form deleted')
+      open(null)
+      router.reload({ only: ['forms'] })
+    } else {
+      const json = await res.json().catch(() => ({}))
+      toast.error(json?.error || 'Failed to delete form')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-backdrop-medium">
+      <Head title="Form Builder" />
+      <AdminHeader title="Form Builder" />
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-4">
+          <Link
+            href={adminPath('forms')}
+            className="inline-flex items-center gap-2 text-sm text-neutral-medium hover:text-neutral-high"
+          >
+            <FontAwesomeIcon icon={faArrowLeft} size="xs" />
+            Submissions
+          </Link>
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <aside className="bg-backdrop-low border border-line-low rounded-lg p-4 space-y-2 h-fit">
+            {canEdit && (
+              <button
+                type="button"
+                onClick={() => open(null)}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium bg-standout-high text-on-high rounded-md hover:bg-standout-high/90"
+              >
+                <FontAwesomeIcon icon={faPlus} size="xs" />
+                New form
+              </button>
+            )}
+            {forms.map((f) => (
+              <button
+                key={f.slug}
+                type="button"
+                onClick={() => open(f)}
+                className={`w-full text-left px-3 py-2 rounded-md text-sm ${selected === f.slug ? 'bg-backdrop-medium text-neutral-high' : 'text-neutral-medium hover:bg-backdrop-medium'}`}
+              >
+                <span className="block font-medium">{f.title}</span>
+                <span className="block text-xs text-neutral-low">
+                  {f.slug}
+                  {f.source === 'code' ? ' · defined in code' : ''}
+                </span>
+              </button>
+            ))}
+          </aside>
+
+          <section className="lg:col-span-3 bg-backdrop-low border border-line-low rounded-lg">
+            <div className="px-6 py-4 border-b border-line-low flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-neutral-high">
+                {current ? current.title : 'New form'}
+              </h2>
+              {current?.source === 'code' && (
+                <span className="text-xs text-neutral-low">
+                  Defined in app/forms — edit the file to change it
+                </span>
+              )}
+            </div>
+
+            <fieldset disabled={readOnly} className="p-6 space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Labeled label="Title">
+                  <Input
+                    value={draft.title}
+                    onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                  />
+                </Labeled>
+                <Labeled label="Slug">
+                  <Input
+                    value={draft.slug}
+                    disabled={!!current}
+                    placeholder="newsletter-signup"
+                    onChange={(e) => setDraft({ ...draft, slug: e.target.value })}
+                  />
+                </Labeled>
+                <Labeled label="Description">
+                  <Input
+                    value={draft.description}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  />
+                </Labeled>
+                <Labeled label="Success message">
+                  <Input
+                    value={draft.successMessage}
+                    placeholder="Thank you! Your submission has been received."
+                    onChange={(e) => setDraft({ ...draft, successMessage: e.target.value })}
+                  />
+                </Labeled>
+              </div>
+              <Labeled label="Thank-you page (optional redirect after submitting)">
+                <ThankYouPagePicker
+                  value={draft.thankYouPostId}
+                  onChange={(id) => setDraft({ ...draft, thankYouPostId: id })}
+                />
+              </Labeled>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-neutral-high">Steps</h3>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setDraft({
+                        ...draft,
+                        steps: [...draft.steps, { key: nextKey(), title: '', description: '' }],
+                      })
+                    }
+                    className="text-xs text-neutral-medium hover:text-neutral-high"
+                  >
+                    <FontAwesomeIcon icon={faPlus} size="xs" /> Add step
+                  </button>
+                </div>
+                {draft.steps.length === 0 && (
+                  <p className="text-xs text-neutral-low">
+                    Single-page form. Add steps to split the fields over several pages.
+                  </p>
+                )}
+                {draft.steps.map((s, index) => (
+                  <div key={s.key} className="flex items-center gap-2">
+                    <span className="text-xs text-neutral-low w-12">Step {index + 1}</span>
+                    <Input
+                      value={s.title}
+                      placeholder="Title"
+                      onChange={(e) =>
+                        setDraft({
+                          ...draft,
+                          steps: draft.steps.map((x, i) =>
+                            i === index ? { ...x, title: e.target.value } : x
+                          ),
+                        })
+                      }
+                    />
+                    <Input
+                      value={s.description}
+                      placeholder="Description"
+                      onChange={(e) =>
+                        setDraft({
+                          ...draft,
+                          steps: draft.steps.map((x, i) =>
+                            i === index ? { ...x, description: e.target.value } : x
+                          ),
+                        })
+                      }
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeStep(index)}
+                      className="text-danger px-2"
+                      aria-label="Remove step"
+                    >
+                      <FontAwesomeIcon icon={faTrash} size="xs" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-3">
+                <h3 className="text-sm font-semibold text-neutral-high">Fields</h3>
+                {draft.fields.map((f, index) => (
+                  <div key={f.key} className="border border-line-low rounded-md p-4 space-y-3">
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                      <Labeled label="Label">
+                        <Input
+                          value={f.label}
+                          onChange={(e) => updateField(f.key, { label: e.target.value })}
+                        />
+                      </Labeled>
+                      <Labeled label="Slug">
+                        <Input
+                          value={f.slug}
+                          onChange={(e) => updateField(f.key, { slug: e.target.value })}
+                        />
+                      </Labeled>
+                      <Labeled label="Type">
+                        <select
+                          className={selectClass}
+                          value={f.type}
+                          onChange={(e) =>
+                            updateField(f.key, { type: e.target.value as FormFieldType })
+                          }
+                        >
+                          {FORM_FIELD_TYPES.map((t) => (
+                            <option key={t} value={t}>
+                              {t}
+                            </option>
+                          ))}
+                        </select>
+                      </Labeled>
+                      {draft.steps.length > 0 ? (
+                        <Labeled label="Step">
+                          <select
+                            className={selectClass}
+                            value={f.step}
+                            onChange={(e) => updateField(f.key, { step: Number(e.target.value) })}
+                          >
+                            {draft.steps.map((s, i) => (
+                              <option key={s.key} value={i}>
+                                {i + 1}. {s.title || 'Untitled'}
+                              </option>
+                            ))}
+                          </select>
+                        </Labeled>
+                      ) : (
+                        <div />
+                      )}
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <Labeled label="Help text">
+                        <Input
+                          value={f.description}
+                          onChange={(e) => updateField(f.key, { description: e.target.value })}
+                        />
+                      </Labeled>
+                      <Labeled label="Placeholder">
+                        <Input
+                          value={f.placeholder}
+                          onChange={(e) => updateField(f.key, { placeholder: e.target.value })}
+                        />
+                      </Labeled>
+                    </div>
+
+                    {(f.type === 'select' || f.type === 'multiselect') && (
+                      <Labeled label="Options (one per line, optionally `value | Label`)">
+                        <Textarea
+                          rows={3}
+                          value={f.optionsText}
+                          onChange={(e) => updateField(f.key, { optionsText: e.target.value })}
+                        />
+                      </Labeled>
+                    )}
+
+                    {TEXT_TYPES.includes(f.type) && (
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <Labeled label="Min. length">
+                          <Input
+                            type="number"
+                            value={f.minLength}
+                            onChange={(e) => updateField(f.key, { minLength: e.target.value })}
+                          />
+                        </Labeled>
+                        <Labeled label="Max. length">
+                          <Input
+                            type="number"
+                            value={f.maxLength}
+                            onChange={(e) => updateField(f.key, { maxLength: e.target.value })}
+                          />
+                        </Labeled>
+                        <Labeled label="Pattern (regular expression)">
+                          <Input
+                            value={f.pattern}
+                            onChange={(e) => updateField(f.key, { pattern: e.target.value })}
+                          />
+                        </Labeled>
+                        <Labeled label="Pattern error message">
+                          <Input
+                            value={f.patternMessage}
+                            onChange={(e) => updateField(f.key, { patternMessage: e.target.value })}
+                          />
+                        </Labeled>
+                      </div>
+                    )}
+
+                    {f.type === 'number' && (
+                      <div className="grid grid-cols-2 gap-3">
+                        <Labeled label="Minimum">
+                          <Input
+                            type="number"
+                            value={f.min}
+                            onChange={(e) => updateField(f.key, { min: e.target.value })}
+                          />
+                        </Labeled>
+                        <Labeled label="Maximum">
+                          <Input
+                            type="number"
+                            value={f.max}
+                            onChange={(e) => updateField(f.key, { max: e.target.value })}
+                          />
+                        </Labeled>
+                      </div>
+                    )}
+
+                    {f.type === 'date' && (
+                      <div className="grid grid-cols-2 gap-3">
+                        <Labeled label="Earliest date">
+                          <Input
+                            type="date"
+                            value={f.minDate}
+                            onChange={(e) => updateField(f.key, { minDate: e.target.value })}
+                          />
+                        </Labeled>
+                        <Labeled label="Latest date">
+                          <Input
+                            type="date"
+                            value={f.maxDate}
+                            onChange={(e) => updateField(f.key, { maxDate: e.target.value })}
+                          />
+                        </Labeled>
+                      </div>
+                    )}
+
+                    {f.type === 'file' && (
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        <Labeled label="Accepted types (e.g. image/*, .pdf)">
+                          <Input
+                            value={f.accept}
+                            onChange={(e) => updateField(f.key, { accept: e.target.value })}
+                          />
+                        </Labeled>
+                        <Labeled label="Max. size per file (MB, default 10)">
+                          <Input
+                            type="number"
+                            value={f.maxSizeMb}
+                            onChange={(e) => updateField(f.key, { maxSizeMb: e.target.value })}
+                          />
+                        </Labeled>
+                        <Labeled label="Max. files (default 1)">
+                          <Input
+                            type="number"
+                            value={f.maxFiles}
+                            onChange={(e) => updateField(f.key, { maxFiles: e.target.value })}
+                          />
+                        </Labeled>
+                      </div>
+                    )}
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                      <Labeled label="Show only if field">
+                        <select
+                          className={selectClass}
+                          value={f.showIfField}
+                          onChange={(e) => updateField(f.key, { showIfField: e.target.value })}
+                        >
+                          <option value="">Always shown</option>
+                          {draft.fields
+                            .filter((other) => other.key !== f.key)
+                            .map((other) => (
+                              <option key={other.key} value={other.slug}>
+                                {other.label || other.slug}
+                              </option>
+                            ))}
+                        </select>
+                      </Labeled>
+                      {f.showIfField && (
+                        <>
+                          <Labeled label="Condition">
+                            <select
+                              className={selectClass}
+                              value={f.showIfOperator}
+                              onChange={(e) =>
+                                updateField(f.key, {
+                                  showIfOperator: e.target.value as ConditionOperator,
+                                })
+                              }
+                            >
+                              <option value="equals">is (comma-separate for any of)</option>
+                              <option value="notEquals">is not</option>
+                              <option value="filled">has a value</option>
+                              <option value="empty">is empty</option>
+                            </select>
+                          </Labeled>
+                          {(f.showIfOperator === 'equals' || f.showIfOperator === 'notEquals') && (
+                            <Labeled label="Value">
+                              <Input
+                                value={f.showIfValue}
+                                onChange={(e) =>
+                                  updateField(f.key, { showIfValue: e.target.value })
+                                }
+                              />
+                            </Labeled>
+                          )}
+                        </>
+                      )}
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <label className="inline-flex items-center gap-2 text-sm text-neutral-medium">
+                        <Checkbox
+                          checked={f.required}
+                          onCheckedChange={(checked) =>
+                            updateField(f.key, { required: checked === true })
+                          }
+                        />
+                        Required
+                      </label>
+                      <div className="flex items-center gap-3 text-neutral-medium">
+                        <button
+                          type="button"
+                          onClick={() => moveField(index, -1)}
+                          aria-label="Move up"
+                        >
+                          <FontAwesomeIcon icon={faArrowUp} size="xs" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveField(index, 1)}
+                          aria-label="Move down"
+                        >
+                          <FontAwesomeIcon icon={faArrowDown} size="xs" />
+                        </button>
+                        <button
+                          type="button"
+                          className="text-danger"
+                          onClick={() =>
+                            setDraft({
+                              ...draft,
+                              fields: draft.fields.filter((x) => x.key !== f.key),
+                            })
+                          }
+                          aria-label="Remove field"
+                        >
+                          <FontAwesomeIcon icon={faTrash} size="xs" />
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() =>
+                    setDraft({
+                      ...draft,
+                      fields: [
+                        ...draft.fields,
+                        {
+                          ...emptyField(draft.fields.length),
+                          step: Math.max(draft.steps.length - 1, 0),
+                        },
+                      ],
+                    })
+                  }
+                  className="flex items-center gap-2 px-3 py-2 text-sm border border-dashed border-line-medium rounded-md text-neutral-medium hover:bg-backdrop-medium"
+                >
+                  <FontAwesomeIcon icon={faPlus} size="xs" />
+                  Add field
+                </button>
+              </div>
+
+              <div className="space-y-4">
+                <div>
+                  <h3 className="text-sm font-semibold text-neutral-high">Emails</h3>
+                  <p className="text-xs text-neutral-low">
+                    Subjects and messages can use {'{{field_slug}}'}, {'{{form.title}}'},{' '}
+                    {'{{submission.id}}'} and {'{{fields}}'} (all submitted fields).
+                  </p>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Labeled label="Notify (comma-separated addresses)">
+                    <Input
+                      value={draft.notifyRecipients}
+                      placeholder="team@example.com"
+                      onChange={(e) => setDraft({ ...draft, notifyRecipients: e.target.value })}
+                    />
+                  </Labeled>
+                  <Labeled label="Reply to the submitter's address from">
+                    <select
+                      className={selectClass}
+                      value={draft.notifyReplyToField}
+                      onChange={(e) => setDraft({ ...draft, notifyReplyToField: e.target.value })}
+                    >
+                      <option value="">—</option>
+                      {emailFields.map((slug) => (
+                        <option key={slug} value={slug}>
+                          {slug}
+                        </option>
+                      ))}
+                    </select>
+                  </Labeled>
+                  <Labeled label="Notification subject">
+                    <Input
+                      value={draft.notifySubject}
+                      placeholder="New submission: {{form.title}}"
+                      onChange={(e) => setDraft({ ...draft, notifySubject: e.target.value })}
+                    />
+                  </Labeled>
+                  <Labeled label="Notification message">
+                    <Textarea
+                      rows={3}
+                      value={draft.notifyBody}
+                      placeholder="{{fields}}"
+                      onChange={(e) => setDraft({ ...draft, notifyBody: e.target.value })}
+                    />
+                  </Labeled>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Labeled label="Autoresponder: send to the address from">
+                    <select
+                      className={selectClass}
+                      value={draft.autoresponderField}
+                      onChange={(e) => setDraft({ ...draft, autoresponderField: e.target.value })}
+                    >
+                      <option value="">No autoresponder</option>
+                      {emailFields.map((slug) => (
+                        <option key={slug} value={slug}>
+                          {slug}
+                        </option>
+                      ))}
+                    </select>
+                  </Labeled>
+                  {draft.autoresponderField && (
+                    <>
+                      <Labeled label="Autoresponder reply-to (optional)">
+                        <Input
+                          value={draft.autoresponderReplyTo}
+                          placeholder="hello@example.com"
+                          onChange={(e) =>
+                            setDraft({ ...draft, autoresponderReplyTo: e.target.value })
+                          }
+                        />
+                      </Labeled>
+                      <Labeled label="Autoresponder subject">
+                        <Input
+                          value={draft.autoresponderSubject}
+                          placeholder="Thanks for contacting us"
+                          onChange={(e) =>
+                            setDraft({ ...draft, autoresponderSubject: e.target.value })
+                          }
+                        />
+                      </Labeled>
+                      <Labeled label="Autoresponder message">
+                        <Textarea
+                          rows={4}
+                          value={draft.autoresponderBody}
+                          placeholder="Hi {{name}}, we received your message and will reply soon."
+                          onChange={(e) =>
+                            setDraft({ ...draft, autoresponderBody: e.target.value })
+                          }
+                        />
+                      </Labeled>
+                    </>
+                  )}
+                </div>
+              </div>
+            </fieldset>
+
+            {!readOnly && (
+              <div className="px-6 py-4 border-t border-line-low flex items-center justify-between">
+                <div>
+                  {current && canDelete && (
+                    <button
+                      type="button"
+                      onClick={remove}
+                      className="flex items-center gap-2 px-3 py-1.5 text-sm bg-danger/10 text-danger hover:bg-danger/20 rounded-md"
+                    >
+                      <FontAwesomeIcon icon={faTrash} size="xs" />
+                      Delete form
+                    </button>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  onClick={save}
+                  disabled={saving}
+                  className="px-4 py-2 text-sm font-medium bg-standout-high text-on-high rounded-md hover:bg-standout-high/90 disabled:opacity-50"
+                >
+                  {saving ? 'Saving…' : current ? 'Save changes' : 'Create form'}
+                </button>
+              </div>
+            )}
+          </section>
+        </div>
+      </main>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <AdminFooter />
+      </div>
+    </div>
+  )
+}
@@ -1,5 +1,5 @@
 import { useMemo, useState, useEffect } from 'react'
-import { Head, router } from '@inertiajs/react'
+import { Head, Link, router } from '@inertiajs/react'
 import { useAdminPath } from '~/utils/adminPath'
 import { AdminHeader } from '../../components/AdminHeader'
 import { AdminFooter } from '../../components/AdminFooter'
@@ -27,10 +27,18 @@ import {
   SelectValue,
 } from '../../../components/ui/select'
 import { Checkbox } from '../../../components/ui/checkbox'
+import { Textarea } from '../../../components/ui/textarea'
+import { SubmissionAnalytics } from './SubmissionAnalytics'
 import { toast } from 'sonner'
 import { useConfirm } from '~/components/ConfirmDialogProvider'
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
-import { faDownload, faTrash, faSpinner, faSearch } from '@fortawesome/free-solid-svg-icons'
+import {
+  faDownload,
+  faTrash,
+  faSpinner,
+  faSearch,
+  faPenToSquare,
+} from '@fortawesome/free-solid-svg-icons'
 
 interface FormSubmissionSummary {
   id: string
@@ -40,6 +48,15 @@ interface FormSubmissionSummary {
   email?: string | null
   payload: Record<string, any>
   abVariation?: string | null
+  originPostId: string | null
+  assignedTo: number | null
+  noteCount: number
+  status: string
+  spamScore: number | null
+  spamReasons: string[]
+  notificationStatus: string | null
+  autoresponderStatus: string | null
+  emailError: string | null
 }
 
 interface FormDefinition {
@@ -47,27 +64,110 @@ interface FormDefinition {
   title: string
 }
 
+interface AssignableUser {
+  id: number
+  email: string
+  fullName: string | null
+}
+
+interface SubmissionNote {
+  id: string
+  body: string
+  userId: number | null
+  author: string | null
+  createdAt: string
+}
+
 interface FormsIndexProps {
   forms: FormDefinition[]
   submissions: FormSubmissionSummary[]
+  users: AssignableUser[]
+  filterOptions: {
+    variations: string[]
+    originPosts: Array<{ id: string; title: string }>
+  }
+  canEdit: boolean
+  currentUserId: number | null
   meta: {
     total: number
     page: number
     limit: number
     q: string
     formSlug: string
+    status: string
+    assigned: string
+    from: string
+    to: string
+    variation: string
+    originPostId: string
   }
 }
 
-export default function FormsIndex({ forms, submissions, meta }: FormsIndexProps) {
+const STATUS_LABELS: Record<string, string> = {
+  new: 'New',
+  in_progress: 'In progress',
+  done: 'Done',
+  spam: 'Spam',
+}
+
+const STATUS_BADGES: Record<string, string> = {
+  new: 'bg-standout-high/10 text-standout-high',
+  in_progress: 'bg-amber-500/10 text-amber-600',
+  done: 'bg-backdrop-medium text-neutral-medium',
+  spam: 'bg-danger/10 text-danger',
+}
+
+type StoredUpload = { name: string; key: string }
+
+/** Uploaded files are stored as [{ name, size, type, key }] and downloaded through the admin API */
+function isUploadList(value: unknown): value is StoredUpload[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((file) => file && typeof file.key === 'string' && typeof file.name === 'string')
+  )
+}
+
+type Filters = {
+  q: string
+  formSlug: string
+  status: string
+  assigned: string
+  from: string
+  to: string
+  variation: string
+  originPostId: string
+}
+
+export default function FormsIndex({
+  forms,
+  submissions,
+  users,
+  filterOptions,
+  canEdit,
+  currentUserId,
+  meta,
+}: FormsIndexProps) {
   const adminPath = useAdminPath()
   const { confirm } = useConfirm()
   const [selectedSubmission, setSelectedSubmission] = useState<FormSubmissionSummary | null>(null)
   const [isDeleting, setIsDeleting] = useState<string | boolean>(false)
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
   const [q, setQ] = useState(meta.q || '')
-  const [formSlug, setFormSlug] = useState(meta.formSlug || 'all')
+  const [filters, setFilters] = useState<Filters>({
+    q: meta.q || '',
+    formSlug: meta.formSlug || 'all',
+    status: meta.status || 'inbox',
+    assigned: meta.assigned || 'anyone',
+    from: meta.from || '',
+    to: meta.to || '',
+    variation: meta.variation || 'all',
+    originPostId: meta.originPostId || 'all',
+  })
   const [isExporting, setIsExporting] = useState(false)
+  const [notes, setNotes] = useState<SubmissionNote[]>([])
+  const [noteDraft, setNoteDraft] = useState('')
+  const [isSavingNote, setIsSavingNote] = useState(false)
 
   // CSRF token for API calls
   const xsrfFromCookie: string | undefined = (() => {
@@ -76,21 +176,157 @@ export default function FormsIndex({ forms, submissions, meta }: FormsIndexProps
     return match ? decodeURIComponent(match[1]) : undefined
   })()
 
-  const handleSearch = () => {
-    router.get(
-      adminPath('forms'),
-      { q, form_slug: formSlug === 'all' ? '' : formSlug, page: 1 },
-      { preserveState: true }
-    )
+  // Query parameters understood by the inbox and the CSV export
+  const queryParams = (f: Filters) => ({
+    q: f.q,
+    form_slug: f.formSlug === 'all' ? '' : f.formSlug,
+    status: f.status === 'inbox' ? '' : f.status,
+    assigned: f.assigned === 'anyone' ? '' : f.assigned,
+    from: f.from,
+    to: f.to,
+    variation: f.variation === 'all' ? '' : f.variation,
+    origin_post_id: f.originPostId === 'all' ? '' : f.originPostId,
+  })
+
+  const applyFilters = (changes: Partial<Filters>) => {
+    const next = { ...filters, ...changes }
+    setFilters(next)
+    router.get(adminPath('forms'), { ...queryParams(next), page: 1 }, { preserveState: true })
+  }
+
+  const goToPage = (page: number) => {
+    router.get(adminPath('forms'), { ...queryParams(filters), page }, { preserveState: true })
   }
 
   useEffect(() => {
     const timeout = setTimeout(() => {
-      if (q !== meta.q) handleSearch()
+      if (q !== meta.q) applyFilters({ q })
     }, 500)
     return () => clearTimeout(timeout)
   }, [q])
 
+  const userLabel = (id: number | null) => {
+    const user = users.find((u) => u.id === id)
+    return user ? user.fullName || user.email : null
+  }
+
+  const jsonHeaders = {
+    'Content-Type': 'application/json',
+    'Accept': 'application/json',
+    ...(xsrfFromCookie ? { 'X-XSRF-TOKEN': xsrfFromCookie } : {}),
+  }
+
+  useEffect(() => {
+    setNotes([])
+    setNoteDraft('')
+    if (!selectedSubmission) return
+    let cancelled = false
+    fetch(`/api/forms-submissions/${selectedSubmission.id}/notes`, {
+      credentials: 'same-origin',
+    })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((j) => {
+        if (!cancelled && j) setNotes(j.data || [])
+      })
+      .catch(() => {})
+    return () => {
+      cancelled = true
+    }
+  }, [selectedSubmission?.id])
+
+  const handleUpdate = async (
+    id: string,
+    changes: { status?: string; assignedTo?: number | null }
+  ) => {
+    try {
+      const res = await fetch(`/api/forms-submissions/${id}`, {
+        method: 'PATCH',
+        headers: jsonHeaders,
+        body: JSON.stringify(changes),
+      })
+      if (res.ok) {
+        toast.success('Submission updated')
+        setSelectedSubmission((prev) => (prev && prev.id === id ? { ...prev, ...changes } : prev))
+        router.reload()
+      } else {
+        const j = await res.json().catch(() => ({}))
+        toast.error(j?.error || 'Failed to update submission')
+      }
+    } catch {
+      toast.error('Failed to update submission')
+    }
+  }
+
+  const handleBulkStatus = async (value: string) => {
+    if (selectedIds.size === 0) return
+    try {
+      const res = await fetch('/api/forms-submissions/bulk-update', {
+        method: 'POST',
+        headers: jsonHeaders,
+        body: JSON.stringify({ ids: Array.from(selectedIds), status: value }),
+      })
+      if (res.ok) {
+        toast.success(`Updated ${selectedIds.size} submissions`)
+        setSelectedIds(new Set())
+        router.reload()
+      } else {
+        const j = await res.json().catch(() => ({}))
+        toast.error(j?.error || 'Failed to update submissions')
+      }
+    } catch {
+      toast.error('Failed to update submissions')
+    }
+  }
+
+  const handleAddNote = async () => {
+    if (!selectedSubmission || !noteDraft.trim()) return
+    setIsSavingNote(true)
+    try {
+      const res = await fetch(`/api/forms-submissions/${selectedSubmission.id}/notes`, {
+        method: 'POST',
+        headers: jsonHeaders,
+        body: JSON.stringify({ body: noteDraft }),
+      })
+      const j = await res.json().catch(() => ({}))
+      if (res.ok) {
+        setNotes(j.data || [])
+        setNoteDraft('')
+        router.reload()
+      } else {
+        toast.error(j?.error || 'Failed to add note')
+      }
+    } catch {
+      toast.error('Failed to add note')
+    } finally {
+      setIsSavingNote(false)
+    }
+  }
+
+  const handleDeleteNote = async (noteId: string) => {
+    if (!selectedSubmission) return
+    const ok = await confirm({
+      title: 'Delete Note?',
+      description: 'Are you sure you want to delete this note?',
+      variant: 'destructive',
+    })
+    if (!ok) return
+    try {
+      const res = await fetch(`/api/forms-submissions/${selectedSubmission.id}/notes/${noteId}`, {
+        method: 'DELETE',
+        headers: jsonHeaders,
+      })
+      if (res.ok) {
+        setNotes((prev) => prev.filter((n) => n.id !== noteId))
+        router.reload()
+      } else {
+        const j = await res.json().catch(() => ({}))
+        toast.error(j?.error || 'Failed to delete note')
+      }
+    } catch {
+      toast.error('Failed to delete note')
+    }
+  }
+
   const handleDelete = async (id: string) => {
     const ok = await confirm({
       title: 'Delete Submission?',
@@ -118,6 +354,28 @@ export default function FormsIndex({ forms, submissions, meta }: FormsIndexProps
     }
   }
 
+  const handleNotSpam = async (id: string) => {
+    try {
+      const res = await fetch(`/api/forms-submissions/${id}/not-spam`, {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          ...(xsrfFromCookie ? { 'X-XSRF-TOKEN': xsrfFromCookie } : {}),
+        },
+      })
+      if (res.ok) {
+        toast.success('Moved to inbox')
+        setSelectedSubmission(null)
+        router.reload()
+      } else {
+        const j = await res.json().catch(() => ({}))
+        toast.error(j?.error || 'Failed to update submission')
+      }
+    } catch {
+      toast.error('Failed to update submission')
+    }
+  }
+
   const handleBulkDelete = async () => {
     if (selectedIds.size === 0) return
     const ok = await confirm({
@@ -131,11 +389,7 @@ export default function FormsIndex({ forms, submissions, meta }: FormsIndexProps
     try {
       const res = await fetch('/api/forms-submissions/bulk-delete', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-          ...(xsrfFromCookie ? { 'X-XSRF-TOKEN': xsrfFromCookie } : {}),
-        },
+        headers: jsonHeaders,
         body: JSON.stringify({ ids: Array.from(selectedIds) }),
       })
 
@@ -157,8 +411,9 @@ export default function FormsIndex({ forms, submissions, meta }: FormsIndexProps
     setIsExporting(true)
     try {
       const params = new URLSearchParams()
-      if (meta.q) params.set('q', meta.q)
-      if (meta.formSlug) params.set('form_slug', meta.formSlug)
+      for (const [key, value] of Object.entries(queryParams(filters))) {
+        if (value) params.set(key, value)
+      }
 
       window.location.href = `/api/forms-submissions/export?${params.toString()}`
       toast.success('Export started')
@@ -208,15 +463,8 @@ export default function FormsIndex({ forms, submissions, meta }: FormsIndexProps
                 </div>
 
                 <Select
-                  value={formSlug}
-                  onValueChange={(val) => {
-                    setFormSlug(val)
-                    router.get(
-                      adminPath('forms'),
-                      { q, form_slug: val === 'all' ? '' : val, page: 1 },
-                      { preserveState: true }
-                    )
-                  }}
+                  value={filters.formSlug}
+                  onValueChange={(val) => applyFilters({ formSlug: val })}
                 >
                   <SelectTrigger className="w-48 h-9 text-sm">
                     <SelectValue placeholder="All Forms" />
@@ -231,6 +479,111 @@ export default function FormsIndex({ forms, submissions, meta }: FormsIndexProps
                   </SelectContent>
                 </Select>
 
+                <Select
+                  value={filters.status}
+                  onValueChange={(val) => applyFilters({ status: val })}
+                >
+                  <SelectTrigger className="w-36 h-9 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="inbox">Inbox</SelectItem>
+                    <SelectItem value="new">New</SelectItem>
+                    <SelectItem value="in_progress">In progress</SelectItem>
+                    <SelectItem value="done">Done</SelectItem>
+                    <SelectItem value="spam">Spam</SelectItem>
+                  </SelectContent>
+                </Select>
+
+                <Select
+                  value={filters.assigned}
+                  onValueChange={(val) => applyFilters({ assigned: val })}
+                >
+                  <SelectTrigger className="w-40 h-9 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="anyone">Anyone</SelectItem>
+                    <SelectItem value="me">Assigned to me</SelectItem>
+                    <SelectItem value="unassigned">Unassigned</SelectItem>
+                    {users.map((u) => (
+                      <SelectItem key={u.id} value={String(u.id)}>
+                        {u.fullName || u.email}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                {filterOptions.variations.length > 0 && (
+                  <Select
+                    value={filters.variation}
+                    onValueChange={(val) => applyFilters({ variation: val })}
+                  >
+                    <SelectTrigger className="w-32 h-9 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All variations</SelectItem>
+                      {filterOptions.variations.map((v) => (
+                        <SelectItem key={v} value={v}>
+                          Var {v}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
+                {filterOptions.originPosts.length > 0 && (
+                  <Select
+                    value={filters.originPostId}
+                    onValueChange={(val) => applyFilters({ originPostId: val })}
+                  >
+                    <SelectTrigger className="w-48 h-9 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All pages</SelectItem>
+                      {filterOptions.originPosts.map((p) => (
+                        <SelectItem key={p.id} value={p.id}>
+                          {p.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
+                <Input
+                  type="date"
+                  value={filters.from}
+                  max={filters.to || undefined}
+                  onChange={(e) => applyFilters({ from: e.target.value })}
+                  className="w-auto h-9 text-sm"
+                  aria-label="From"
+                />
+                <Input
+                  type="date"
+                  value={filters.to}
+                  min={filters.from || undefined}
+                  onChange={(e) => applyFilters({ to: e.target.value })}
+                  className="w-auto h-9 text-sm"
+                  aria-label="To"
+                />
+
+                {canEdit && selectedIds.size > 0 && (
+                  <Select value="" onValueChange={handleBulkStatus}>
+                    <SelectTrigger className="w-40 h-9 text-sm">
+                      <SelectValue placeholder={`Set status (${selectedIds.size})`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
                 {selectedIds.size > 0 && (
                   <button
                     onClick={handleBulkDelete}
@@ -244,6 +597,13 @@ export default function FormsIndex({ forms, submissions, meta }: FormsIndexProps
               </div>
 
               <div className="flex items-center gap-3">
+                <Link
+                  href={adminPath('forms/builder')}
+                  className="flex items-center gap-2 px-4 py-2 text-sm font-medium border border-line-low rounded-md hover:bg-backdrop-medium transition-colors"
+                >
+                  <FontAwesomeIcon icon={faPenToSquare} size="sm" />
+                  Form builder
+                </Link>
                 <button
                   onClick={handleExport}
                   disabled={isExporting}
@@ -260,6 +620,10 @@ export default function FormsIndex({ forms, submissions, meta }: FormsIndexProps
             </div>
           </div>
 
+          {filters.formSlug !== 'all' && (
+            <SubmissionAnalytics formSlug={filters.formSlug} from={filters.from} to={filters.to} />
+          )}
+
           <div className="p-6">
             {submissions.length === 0 ? (
               <div className="py-12 text-center">
@@ -283,6 +647,8 @@ export default function FormsIndex({ forms, submissions, meta }: FormsIndexProps
                       <TableHead>Form</TableHead>
                       <TableHead>Name</TableHead>
                       <TableHead>Email</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Assignee</TableHead>
                       <TableHead>Var</TableHead>
                       <TableHead>Submitted</TableHead>
                       <TableHead className="text-right">Actions</TableHead>
@@ -312,6 +678,21 @@ export default function FormsIndex({ forms, submissions, meta }: FormsIndexProps
                         <TableCell className="text-neutral-medium">
                           {s.email || <span className="text-neutral-low">—</span>}
                         </TableCell>
+                        <TableCell>
+                          <span
+                            className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_BADGES[s.status] || ''}`}
+                          >
+                            {STATUS_LABELS[s.status] || s.status}
+                          </span>
+                          {s.noteCount > 0 && (
+                            <span className="ml-2 text-xs text-neutral-low">
+                              {s.noteCount} {s.noteCount === 1 ? 'note' : 'notes'}
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-neutral-medium">
+                          {userLabel(s.assignedTo) || <span className="text-neutral-low">—</span>}
+                        </TableCell>
                         <TableCell className="text-neutral-medium">
                           {s.abVariation ? (
                             <span className="inline-flex items-center rounded-full bg-standout-high/10 text-standout-high px-2 py-0.5 text-xs font-bold">
@@ -329,6 +710,15 @@ export default function FormsIndex({ forms, submissions, meta }: FormsIndexProps
                           )}
                         </TableCell>
                         <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
+                          {s.status === 'spam' && (
+                            <button
+                              type="button"
+                              className="px-2 py-1 text-xs text-neutral-low hover:text-neutral-high"
+                              onClick={() => handleNotSpam(s.id)}
+                            >
+                              Not spam
+                            </button>
+                          )}
                           <button
                             type="button"
                             className="px-2 py-1 text-xs text-neutral-low hover:text-danger disabled:opacity-50"
@@ -352,13 +742,7 @@ export default function FormsIndex({ forms, submissions, meta }: FormsIndexProps
                   <div className="flex items-center gap-2">
                     <button
                       className="px-3 py-1.5 border border-line-low rounded-md disabled:opacity-50 hover:bg-backdrop-medium"
-                      onClick={() =>
-                        router.get(
-                          adminPath('forms'),
-                          { ...meta, page: meta.page - 1 },
-                          { preserveState: true }
-                        )
-                      }
+                      onClick={() => goToPage(meta.page - 1)}
                       disabled={meta.page <= 1}
                     >
                       Previous
@@ -368,13 +752,7 @@ export default function FormsIndex({ forms, submissions, meta }: FormsIndexProps
                     </span>
                     <button
                       className="px-3 py-1.5 border border-line-low rounded-md disabled:opacity-50 hover:bg-backdrop-medium"
-                      onClick={() =>
-                        router.get(
-                          adminPath('forms'),
-                          { ...meta, page: meta.page + 1 },
-                          { preserveState: true }
-                        )
-                      }
+                      onClick={() => goToPage(meta.page + 1)}
                       disabled={meta.page * meta.limit >= meta.total}
                     >
                       Next
@@ -406,7 +784,83 @@ export default function FormsIndex({ forms, submissions, meta }: FormsIndexProps
             </DialogDescription>
           </DialogHeader>
           <div className="mt-4 space-y-4">
-            <div className="grid grid-cols-1 gap-4 overflow-auto max-h-[60vh] p-1">
+            {selectedSubmission && (
+              <div className="flex flex-wrap items-center gap-3">
+                <Select
+                  value={selectedSubmission.status}
+                  disabled={!canEdit}
+                  onValueChange={(val) => handleUpdate(selectedSubmission.id, { status: val })}
+                >
+                  <SelectTrigger className="w-36 h-9 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={
+                    selectedSubmission.assignedTo === null
+                      ? 'unassigned'
+                      : String(selectedSubmission.assignedTo)
+                  }
+                  disabled={!canEdit}
+                  onValueChange={(val) =>
+                    handleUpdate(selectedSubmission.id, {
+                      assignedTo: val === 'unassigned' ? null : Number(val),
+                    })
+                  }
+                >
+                  <SelectTrigger className="w-48 h-9 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="unassigned">Unassigned</SelectItem>
+                    {users.map((u) => (
+                      <SelectItem key={u.id} value={String(u.id)}>
+                        {u.fullName || u.email}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {selectedSubmission?.status === 'spam' && (
+              <div className="rounded-md bg-danger/10 text-danger px-4 py-3 text-sm flex items-center justify-between gap-4">
+                <span>
+                  Quarantined as spam (score {selectedSubmission.spamScore ?? 0}
+                  {selectedSubmission.spamReasons.length > 0 &&
+                    `: ${selectedSubmission.spamReasons.join(', ')}`}
+                  ). Emails, webhooks, workflows and agents did not run.
+                </span>
+                <button
+                  type="button"
+                  className="shrink-0 px-3 py-1.5 text-xs rounded border border-danger/40 hover:bg-danger/10"
+                  onClick={() => handleNotSpam(selectedSubmission.id)}
+                >
+                  Not spam
+                </button>
+              </div>
+            )}
+            {(selectedSubmission?.notificationStatus ||
+              selectedSubmission?.autoresponderStatus) && (
+              <div className="flex flex-wrap gap-4 text-xs text-neutral-medium">
+                {selectedSubmission.notificationStatus && (
+                  <span>Notification: {selectedSubmission.notificationStatus}</span>
+                )}
+                {selectedSubmission.autoresponderStatus && (
+                  <span>Autoresponder: {selectedSubmission.autoresponderStatus}</span>
+                )}
+                {selectedSubmission.emailError && (
+                  <span className="text-danger">Last error: {selectedSubmission.emailError}</span>
+                )}
+              </div>
+            )}
+            <div className="grid grid-cols-1 gap-4 overflow-auto max-h-[40vh] p-1">
               {selectedSubmission &&
                 Object.entries(selectedSubmission.payload).map(([key, value]) => (
                   <div key={key} className="border-b border-line-low pb-2 last:border-0">
@@ -414,10 +868,76 @@ export default function FormsIndex({ forms, submissions, meta }: FormsIndexProps
                       {key}
                     </div>
                     <div className="text-sm text-neutral-high whitespace-pre-wrap">
-                      {typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value)}
+                      {isUploadList(value) ? (
+                        <ul className="space-y-1">
+                          {value.map((file, index) => (
+                            <li key={file.key}>
+                              <a
+                                className="underline"
+                                href={`/api/forms-submissions/${selectedSubmission.id}/files/${encodeURIComponent(key)}/${index}`}
+                              >
+                                {file.name}
+                              </a>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : typeof value === 'object' ? (
+                        JSON.stringify(value, null, 2)
+                      ) : (
+                        String(value)
+                      )}
+                    </div>
+                  </div>
+                ))}
+            </div>
+            <div className="border-t border-line-low pt-4 space-y-3">
+              <div className="text-[10px] font-bold text-neutral-low uppercase tracking-wider">
+                Notes
+              </div>
+              {notes.length === 0 && (
+                <p className="text-sm text-neutral-low italic">No notes yet.</p>
+              )}
+              <div className="space-y-2 overflow-auto max-h-[20vh]">
+                {notes.map((note) => (
+                  <div key={note.id} className="rounded-md bg-backdrop-medium px-3 py-2">
+                    <div className="flex items-center justify-between gap-2 text-xs text-neutral-low">
+                      <span>
+                        {note.author || 'Deleted user'} •{' '}
+                        {new Date(note.createdAt).toLocaleString()}
+                      </span>
+                      {canEdit && note.userId === currentUserId && (
+                        <button
+                          type="button"
+                          className="hover:text-danger"
+                          onClick={() => handleDeleteNote(note.id)}
+                        >
+                          Delete
+                        </button>
+                      )}
                     </div>
+                    <div className="text-sm text-neutral-high whitespace-pre-wrap">{note.body}</div>
                   </div>
                 ))}
+              </div>
+              {canEdit && (
+                <div className="flex items-end gap-2">
+                  <Textarea
+                    value={noteDraft}
+                    onChange={(e) => setNoteDraft(e.target.value)}
+                    placeholder="Add an internal note..."
+                    rows={2}
+                    className="text-sm"
+                  />
+                  <button
+                    type="button"
+                    className="shrink-0 px-3 py-2 text-sm rounded border border-line-medium text-neutral-high hover:bg-backdrop-medium transition-colors disabled:opacity-50"
+                    onClick={handleAddNote}
+                    disabled={isSavingNote || !noteDraft.trim()}
+                  >
+                    Add note
+                  </button>
+                </div>
+              )}
             </div>
             <div className="flex justify-end pt-4 border-t border-line-low">
               <button
@@ -0,0 +1,316 @@
+import { Fragment, useEffect, useState } from 'react'
+import { Head } from '@inertiajs/react'
+import { AdminHeader } from '../../components/AdminHeader'
+import { AdminFooter } from '../../components/AdminFooter'
+import { Badge } from '../../../components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../../../components/ui/table'
+import { toast } from 'sonner'
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
+import { faClock, faPlay, faRefresh, faChevronDown, faChevronRight } from '@fortawesome/free-solid-svg-icons'
+import { getXsrf } from '~/utils/xsrf'
+
+interface JobRun {
+  id: string
+  jobId: string
+  trigger: 'schedule' | 'manual'
+  status: 'running' | 'succeeded' | 'failed'
+  worker: string | null
+  triggeredBy: number | null
+  startedAt: string
+  finishedAt: string | null
+  durationMs: number | null
+  result: Record<string, any> | null
+  error: string | null
+}
+
+interface JobSummary {
+  id: string
+  name: string
+  description: string | null
+  schedule: string
+  enabled: boolean
+  perProcess: boolean
+  nextRunAt: string | null
+  running: boolean
+  lastRun: JobRun | null
+}
+
+function formatDate(value: string | null) {
+  if (!value) return '—'
+  return new Date(value).toLocaleString()
+}
+
+function formatDuration(ms: number | null) {
+  if (ms === null) return '—'
+  if (ms < 1000) return `${ms}ms`
+  return `${(ms / 1000).toFixed(1)}s`
+}
+
+function StatusBadge({ status }: { status: JobRun['status'] }) {
+  const className =
+    status === 'succeeded' ? 'bg-green-500' : status === 'failed' ? 'bg-red-500' : 'bg-blue-500'
+  return <Badge className={className}>{status}</Badge>
+}
+
+export default function JobsIndex() {
+  const [jobs, setJobs] = useState<JobSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [runningId, setRunningId] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [runs, setRuns] = useState<JobRun[]>([])
+  const [runsLoading, setRunsLoading] = useState(false)
+
+  useEffect(() => {
+    loadJobs()
+  }, [])
+
+  async function loadJobs() {
+    setLoading(true)
+    try {
+      const res = await fetch('/api/jobs', { credentials: 'same-origin' })
+      const json = await res.json()
+      setJobs(Array.isArray(json?.data) ? json.data : [])
+    } catch (err) {
+      console.error('Failed to load jobs', err)
+      toast.error('Failed to load jobs')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function loadRuns(jobId: string) {
+    setRunsLoading(true)
+    try {
+      const res = await fetch(`/api/jobs/${encodeURIComponent(jobId)}/runs`, {
+        credentials: 'same-origin',
+      })
+      const json = await res.json()
+      setRuns(Array.isArray(json?.data) ? json.data : [])
+    } catch {
+      toast.error('Failed to load run history')
+    } finally {
+      setRunsLoading(false)
+    }
+  }
+
+  function toggleHistory(jobId: string) {
+    if (expandedId === jobId) {
+      setExpandedId(null)
+      return
+    }
+    setExpandedId(jobId)
+    setRuns([])
+    loadRuns(jobId)
+  }
+
+  async function runNow(job: JobSummary) {
+    setRunningId(job.id)
+    try {
+      const res = await fetch(`/api/jobs/${encodeURIComponent(job.id)}/run`, {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+          ...(getXsrf() ? { 'X-XSRF-TOKEN': getXsrf()! } : {}),
+        },
+        credentials: 'same-origin',
+      })
+      const json = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        toast.error(json?.error || 'Failed to run job')
+      } else if (json?.data?.status === 'failed') {
+        toast.error(`${job.name} failed`)
+      } else {
+        toast.success(`${job.name} completed`)
+      }
+      await loadJobs()
+      if (expandedId === job.id) await loadRuns(job.id)
+    } catch {
+      toast.error('Error running job')
+    } finally {
+      setRunningId(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-backdrop-medium">
+      <Head title="Jobs" />
+      <AdminHeader title="Scheduled Jobs" />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h2 className="text-2xl font-bold text-neutral-high flex items-center gap-3">
+              <FontAwesomeIcon icon={faClock} className="text-standout-high" />
+              Scheduled Jobs
+            </h2>
+            <p className="text-neutral-medium mt-1">
+              Background jobs run on their cron schedule by a single worker at a time.
+            </p>
+          </div>
+          <button
+            onClick={loadJobs}
+            disabled={loading}
+            className="px-4 py-2 bg-backdrop-high border border-line-low rounded-lg text-neutral-high hover:bg-backdrop-light transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <FontAwesomeIcon icon={faRefresh} className={loading ? 'animate-spin' : ''} />
+            Refresh
+          </button>
+        </div>
+
+        <div className="bg-backdrop-high border border-line-low rounded-xl overflow-hidden shadow-sm">
+          {loading && jobs.length === 0 ? (
+            <div className="flex justify-center py-20">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-standout-high"></div>
+            </div>
+          ) : jobs.length === 0 ? (
+            <p className="px-6 py-10 text-center text-neutral-medium">No jobs registered.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead className="hidden md:table-cell">Next run</TableHead>
+                  <TableHead>Last run</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => (
+                  <Fragment key={job.id}>
+                    <TableRow>
+                      <TableCell>
+                        <button
+                          type="button"
+                          onClick={() => toggleHistory(job.id)}
+                          className="flex items-start gap-2 text-left"
+                        >
+                          <FontAwesomeIcon
+                            icon={expandedId === job.id ? faChevronDown : faChevronRight}
+                            className="mt-1 text-neutral-low"
+                            size="xs"
+                          />
+                          <span>
+                            <span className="font-medium text-neutral-high block">{job.name}</span>
+                            {job.description && (
+                              <span className="text-xs text-neutral-medium block">
+                                {job.description}
+                              </span>
+                            )}
+                          </span>
+                        </button>
+                      </TableCell>
+                      <TableCell>
+                        <code className="text-xs">{job.schedule}</code>
+                        {!job.enabled && (
+                          <Badge variant="outline" className="ml-2 text-[10px] uppercase">
+                            disabled
+                          </Badge>
+                        )}
+                        {job.perProcess && (
+                          <Badge variant="outline" className="ml-2 text-[10px] uppercase">
+                            per worker
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="hidden md:table-cell text-sm text-neutral-medium">
+                        {formatDate(job.nextRunAt)}
+                      </TableCell>
+                      <TableCell>
+                        {job.running ? (
+                          <StatusBadge status="running" />
+                        ) : job.lastRun ? (
+                          <div className="flex flex-col gap-1">
+                            <div className="flex items-center gap-2">
+                              <StatusBadge status={job.lastRun.status} />
+                              <span className="text-xs text-neutral-medium">
+                                {formatDuration(job.lastRun.durationMs)}
+                              </span>
+                            </div>
+                            <span className="text-xs text-neutral-low">
+                              {formatDate(job.lastRun.startedAt)}
+                            </span>
+                          </div>
+                        ) : (
+                          <span className="text-sm text-neutral-low">Never</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <button
+                          type="button"
+                          onClick={() => runNow(job)}
+                          disabled={runningId !== null || job.running}
+                          className="px-3 py-2 text-sm rounded bg-standout-high text-on-high hover:opacity-90 disabled:opacity-50 inline-flex items-center gap-2"
+                        >
+                          <FontAwesomeIcon
+                            icon={runningId === job.id ? faRefresh : faPlay}
+                            className={runningId === job.id ? 'animate-spin' : ''}
+                          />
+                          Run now
+                        </button>
+                      </TableCell>
+                    </TableRow>
+                    {expandedId === job.id && (
+                      <TableRow>
+                        <TableCell colSpan={5} className="bg-backdrop-light">
+                          {runsLoading ? (
+                            <p className="text-sm text-neutral-medium py-2">Loading history…</p>
+                          ) : runs.length === 0 ? (
+                            <p className="text-sm text-neutral-medium py-2">No runs recorded yet.</p>
+                          ) : (
+                            <div className="divide-y divide-line-low">
+                              {runs.map((run) => (
+                                <div key={run.id} className="py-2 text-sm">
+                                  <div className="flex flex-wrap items-center gap-3">
+                                    <StatusBadge status={run.status} />
+                                    <span className="text-neutral-high">
+                                      {formatDate(run.startedAt)}
+                                    </span>
+                                    <span className="text-neutral-medium">
+                                      {formatDuration(run.durationMs)}
+                                    </span>
+                                    <Badge variant="outline" className="text-[10px] uppercase">
+                                      {run.trigger}
+                                    </Badge>
+                                    {run.worker && (
+                                      <span className="text-xs text-neutral-low">{run.worker}</span>
+                                    )}
+                                    {run.result && (
+                                      <code className="text-xs text-neutral-medium">
+                                        {JSON.stringify(run.result)}
+                                      </code>
+                                    )}
+                                  </div>
+                                  {run.error && (
+                                    <pre className="mt-2 text-xs text-red-600 whitespace-pre-wrap bg-red-500/5 p-2 rounded border border-red-500/20">
+                                      {run.error}
+                                    </pre>
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </main>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <AdminFooter />
+      </div>
+    </div>
+  )
+}
@@ -91,6 +91,9 @@ import { useAdminPath } from '~/utils/adminPath'
 import { MediaThumb } from '../../components/media/MediaThumb'
 import { GlobalAgentButton } from '../../components/agents/GlobalAgentButton'
 import { AgentModal, type Agent } from '../../components/agents/AgentModal'
+import { ScheduledApprovalPanel } from '../../components/posts/ScheduledApprovalPanel'
+import { AbTestPanel } from '../../components/posts/AbTestPanel'
+import { TranslationStalenessPanel } from '../../components/posts/TranslationStalenessPanel'
 import { FeedbackPanel } from '~/components/FeedbackPanel'
 import { FeedbackMarkers } from '~/components/FeedbackMarkers'
 // Field components are auto-discovered via Vite glob below
@@ -295,6 +298,7 @@ interface EditorProps {
     author?: { id: number; email: string; fullName: string | null } | null
     abVariation?: string | null
     abGroupId?: string | null
+    translationOfId?: string | null
     socialTitle?: string | null
     socialDescription?: string | null
     socialImageId?: string | null
@@ -770,6 +774,7 @@ export default function Editor({
     jsonldOverrides: post.jsonldOverrides ? JSON.stringify(post.jsonldOverrides, null, 2) : '',
     featuredMediaId: post.featuredMediaId || '',
     scheduledAt: (post as any).scheduledAt || '',
+    unpublishAt: (post as any).unpublishAt || '',
     customFields: initialCustomFieldsData,
     taxonomyTermIds: initialTaxonomyIds,
   } as any)
@@ -792,6 +797,7 @@ export default function Editor({
     jsonldOverrides: post.jsonldOverrides ? JSON.stringify(post.jsonldOverrides, null, 2) : '',
     featuredMediaId: post.featuredMediaId || '',
     scheduledAt: (post as any).scheduledAt || '',
+    unpublishAt: (post as any).unpublishAt || '',
     customFields: initialCustomFieldsData,
     taxonomyTermIds: initialTaxonomyIds,
   } as any)
@@ -828,6 +834,7 @@ export default function Editor({
               : '',
         featuredMediaId: String(reviewDraft.featuredMediaId ?? (post.featuredMediaId || '')),
         scheduledAt: String(reviewDraft.scheduledAt ?? (post as any).scheduledAt ?? ''),
+        unpublishAt: String(reviewDraft.unpublishAt ?? (post as any).unpublishAt ?? ''),
         customFields: Array.isArray(reviewDraft.customFields)
           ? reviewDraft.customFields
           : Array.isArray(initialCustomFields)
@@ -874,6 +881,7 @@ export default function Editor({
               : '',
         featuredMediaId: String(aiReviewDraft.featuredMediaId ?? (post.featuredMediaId || '')),
         scheduledAt: String(aiReviewDraft.scheduledAt ?? (post as any).scheduledAt ?? ''),
+        unpublishAt: String(aiReviewDraft.unpublishAt ?? (post as any).unpublishAt ?? ''),
         customFields: Array.isArray(aiReviewDraft.customFields)
           ? aiReviewDraft.customFields
           : Array.isArray(initialCustomFields)
@@ -1148,6 +1156,7 @@ export default function Editor({
       })(),
       featuredMediaId: String(d.featuredMediaId || '').trim() || '',
       scheduledAt: String(d.scheduledAt || '').trim() || '',
+      unpublishAt: String(d.unpublishAt || '').trim() || '',
       customFields: Array.isArray(d.customFields)
         ? [...d.customFields]
           .sort((a, b) => (a.slug || '').localeCompare(b.slug || ''))
@@ -1205,6 +1214,7 @@ export default function Editor({
   const canApproveAiReview = useHasPermission('posts.ai-review.approve')
   const canPublish = useHasPermission('posts.publish')
   const canDelete = useHasPermission('posts.delete')
+  const canRunAgents = useHasPermission('agents.edit')
   const [isImportModeOpen, setIsImportModeOpen] = useState(false)
   const [pendingImportJson, setPendingImportJson] = useState<any | null>(null)
   const importFileRef = useRef<HTMLInputElement | null>(null)
@@ -1581,6 +1591,7 @@ export default function Editor({
         jsonldOverrides: data.jsonldOverrides?.trim() || null,
         featuredMediaId: data.featuredMediaId?.trim() || null,
         scheduledAt: data.scheduledAt?.trim() || null,
+        unpublishAt: data.unpublishAt?.trim() || null,
         customFields: data.customFields,
         taxonomyTermIds: data.taxonomyTermIds,
       }
@@ -4155,6 +4166,15 @@ export default function Editor({
                   </div>
                 </div>
 
+                {/* Source changes since this translation was last synced */}
+                {post.translationOfId && (
+                  <TranslationStalenessPanel
+                    postId={post.id}
+                    locale={post.locale}
+                    canRunAgent={canRunAgents}
+                  />
+                )}
+
                 {/* A/B Variation toggle */}
                 {uiConfig.abTesting?.enabled && (
                   <div className="space-y-3">
@@ -4308,6 +4328,9 @@ export default function Editor({
                         return null
                       })()}
                     </div>
+                    {abVariations.length > 1 && (
+                      <AbTestPanel postId={post.id} canEdit={canPublish} />
+                    )}
                   </div>
                 )}
 
@@ -5096,6 +5119,84 @@ export default function Editor({
                         </p>
                       </div>
                     )}
+                    {(data.status === 'published' || data.status === 'scheduled') && (
+                      <div className="mt-3 space-y-2">
+                        <label className="block text-xs font-medium text-neutral-medium">
+                          Unpublish Date
+                        </label>
+                        <div className="flex items-center gap-2">
+                          <Popover>
+                            <PopoverTrigger asChild>
+                              <button
+                                type="button"
+                                className="px-3 py-2 text-sm border border-line-low rounded hover:bg-backdrop-medium text-neutral-high"
+                              >
+                                {(data as any).unpublishAt
+                                  ? new Date((data as any).unpublishAt).toLocaleDateString()
+                                  : 'Never'}
+                              </button>
+                            </PopoverTrigger>
+                            <PopoverContent className="p-0">
+                              <Calendar
+                                mode="single"
+                                selected={
+                                  (data as any).unpublishAt
+                                    ? new Date((data as any).unpublishAt)
+                                    : undefined
+                                }
+                                onSelect={(d: Date | undefined) => {
+                                  if (!d) {
+                                    setData('unpublishAt' as any, '')
+                                    return
+                                  }
+                                  const prev = (data as any).unpublishAt
+                                    ? new Date((data as any).unpublishAt)
+                                    : null
+                                  const local = new Date(
+                                    d.getFullYear(),
+                                    d.getMonth(),
+                                    d.getDate(),
+                                    prev ? prev.getHours() : 0,
+                                    prev ? prev.getMinutes() : 0,
+                                    0
+                                  )
+                                  setData('unpublishAt' as any, local.toISOString())
+                                }}
+                              />
+                            </PopoverContent>
+                          </Popover>
+                          {(data as any).unpublishAt && (
+                            <>
+                              <Input
+                                type="time"
+                                className="w-[110px] h-9"
+                                value={(() => {
+                                  const d = new Date((data as any).unpublishAt)
+                                  return `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`
+                                })()}
+                                onChange={(e) => {
+                                  const [h, m] = e.target.value.split(':').map(Number)
+                                  if (Number.isNaN(h) || Number.isNaN(m)) return
+                                  const d = new Date((data as any).unpublishAt)
+                                  d.setHours(h, m, 0, 0)
+                                  setData('unpublishAt' as any, d.toISOString())
+                                }}
+                              />
+                              <button
+                                type="button"
+                                className="text-xs text-neutral-medium hover:text-neutral-high"
+                                onClick={() => setData('unpublishAt' as any, '')}
+                              >
+                                Clear
+                              </button>
+                            </>
+                          )}
+                        </div>
+                        <p className="text-xs text-neutral-low">
+                          Scheduler will archive the post at this time.
+                        </p>
+                      </div>
+                    )}
                   </div>
                 )}
                 {/* Save edits (Source can save to Source or Review) */}
@@ -5362,6 +5463,11 @@ export default function Editor({
                     </div>
                   )}
 
+                {/* Scheduled approval of the Review draft */}
+                {viewMode === 'review' && hasReviewBaseline && canApproveReview && (
+                  <ScheduledApprovalPanel postId={post.id} disabled={isDirty} />
+                )}
+
                 {/* Save confirmation dialog for overwriting Review draft */}
                 <AlertDialog open={saveConfirmOpen} onOpenChange={setSaveConfirmOpen}>
                   <AlertDialogContent>
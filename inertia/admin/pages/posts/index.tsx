@@ -5,7 +5,7 @@ import { FontAwesomeIcon } from '@fortawesome/react-fontawesome'
 import { toast } from 'sonner'
 import { useConfirm } from '~/components/ConfirmDialogProvider'
 import { faTurnUp, faMessage } from '@fortawesome/free-solid-svg-icons'
-import { useEffect, useMemo, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import { useAdminPath } from '~/utils/adminPath'
 import { AdminHeader } from '../../components/AdminHeader'
 import { AdminFooter } from '../../components/AdminFooter'
@@ -64,6 +64,9 @@ export default function PostsIndexPage({ }: PostsIndexProps) {
   const canCreatePost = useHasPermission('posts.create')
   const canPublish = useHasPermission('posts.publish')
   const canDelete = useHasPermission('posts.delete')
+  const canExport = useHasPermission('posts.export')
+  const canSaveReview = useHasPermission('posts.review.save')
+  const xliffInputRef = useRef<HTMLInputElement>(null)
   const [posts, setPosts] = useState<
     Array<{
       id: string
@@ -76,6 +79,7 @@ export default function PostsIndexPage({ }: PostsIndexProps) {
       parentId?: string | null
       translationOfId?: string | null
       familyLocales?: string[]
+      outdatedLocales?: Record<string, string[]>
       hasReviewDraft?: boolean
       hasFeedback?: boolean
     }>
@@ -437,6 +441,62 @@ export default function PostsIndexPage({ }: PostsIndexProps) {
     }
   }
 
+  async function exportXliff(targetLocale: string) {
+    if (selected.size === 0) return
+    const res = await fetch('/api/translations/xliff/export', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(xsrfFromCookie ? { 'X-XSRF-TOKEN': xsrfFromCookie } : {}),
+      },
+      credentials: 'same-origin',
+      body: JSON.stringify({ postIds: Array.from(selected), locale: targetLocale }),
+    })
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}))
+      toast.error(err?.error || 'XLIFF export failed')
+      return
+    }
+    const blob = await res.blob()
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `posts.${targetLocale}.xlf`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  async function importXliff(file: File) {
+    const form = new FormData()
+    form.append('file', file)
+    const res = await fetch('/api/translations/xliff/import', {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        ...(xsrfFromCookie ? { 'X-XSRF-TOKEN': xsrfFromCookie } : {}),
+      },
+      credentials: 'same-origin',
+      body: form,
+    })
+    const j = await res.json().catch(() => ({}))
+    if (!res.ok) {
+      toast.error(j?.error || 'XLIFF import failed')
+      return
+    }
+    const files: Array<{ applied: number; error?: string }> = j?.data?.files || []
+    const failed = files.filter((f) => f.error)
+    const applied = files.reduce((sum, f) => sum + (f.applied || 0), 0)
+    if (failed.length > 0) {
+      toast.error(`${failed.length} of ${files.length} posts failed: ${failed[0].error}`)
+    }
+    if (files.length > failed.length) {
+      toast.success(
+        `Imported ${applied} strings into ${files.length - failed.length} review drafts (${j.data.trgLang})`
+      )
+    }
+    await fetchPosts(false)
+  }
+
   function toggleSort(
     column: 'title' | 'status' | 'locale' | 'updated_at' | 'created_at' | 'order_index'
   ) {
@@ -752,7 +812,28 @@ export default function PostsIndexPage({ }: PostsIndexProps) {
           {/* Posts Header */}
           <div className="px-6 py-4">
             {/* Top right: Create New button */}
-            <div className="flex items-center justify-end mb-3">
+            <div className="flex items-center justify-end gap-2 mb-3">
+              {canSaveReview && (
+                <>
+                  <input
+                    ref={xliffInputRef}
+                    type="file"
+                    accept=".xlf,.xliff,.xml"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0]
+                      e.target.value = ''
+                      if (file) importXliff(file)
+                    }}
+                  />
+                  <button
+                    onClick={() => xliffInputRef.current?.click()}
+                    className="px-3 py-2 text-sm border border-line-low rounded text-neutral-medium cursor-pointer"
+                  >
+                    Import XLIFF
+                  </button>
+                </>
+              )}
               {canCreatePost && (
                 <button
                   onClick={() => setIsCreateOpen(true)}
@@ -921,6 +1002,11 @@ export default function PostsIndexPage({ }: PostsIndexProps) {
                       | 'regeneratePermalinks'
                       | string
                   ) => {
+                    if (val.startsWith('xliff:')) {
+                      exportXliff(val.slice('xliff:'.length))
+                      setBulkKey((k) => k + 1)
+                      return
+                    }
                     if (val.startsWith('agent:')) {
                       const agentId = val.split(':')[1]
                       const agent = bulkAgents.find((a) => a.id === agentId)
@@ -952,6 +1038,19 @@ export default function PostsIndexPage({ }: PostsIndexProps) {
                     )}
                     {canDelete && <SelectItem value="delete">Delete (archived only)</SelectItem>}
 
+                    {canExport && supportedLocales.length > 1 && (
+                      <>
+                        <div className="px-2 py-1.5 text-xs font-semibold text-neutral-medium border-t border-line-low mt-1">
+                          Export XLIFF
+                        </div>
+                        {supportedLocales.map((loc) => (
+                          <SelectItem key={loc} value={`xliff:${loc}`}>
+                            {loc.toUpperCase()}
+                          </SelectItem>
+                        ))}
+                      </>
+                    )}
+
                     {bulkAgents.length > 0 && (
                       <>
                         <div className="px-2 py-1.5 text-xs font-semibold text-neutral-medium border-t border-line-low mt-1">
@@ -1281,18 +1380,24 @@ export default function PostsIndexPage({ }: PostsIndexProps) {
                                   : [post.locale]
                                 ).map((loc) => {
                                   const exists = (post.familyLocales || [post.locale]).includes(loc)
+                                  const changed = post.outdatedLocales?.[loc]
                                   return (
                                     <Tooltip key={`${post.id}-${loc}`}>
                                       <TooltipTrigger asChild>
-                                        <Badge variant={exists ? 'default' : 'outline'}>
+                                        <Badge
+                                          variant={exists ? 'default' : 'outline'}
+                                          className={changed ? 'bg-amber-500 text-white' : undefined}
+                                        >
                                           {loc.toUpperCase()}
                                         </Badge>
                                       </TooltipTrigger>
                                       <TooltipContent>
                                         <p>
-                                          {exists
-                                            ? `Has ${loc.toUpperCase()}`
-                                            : `Missing ${loc.toUpperCase()}`}
+                                          {changed
+                                            ? `${loc.toUpperCase()} outdated: ${changed.join(', ')} changed`
+                                            : exists
+                                              ? `Has ${loc.toUpperCase()}`
+                                              : `Missing ${loc.toUpperCase()}`}
                                         </p>
                                       </TooltipContent>
                                     </Tooltip>
@@ -1417,14 +1522,18 @@ export default function PostsIndexPage({ }: PostsIndexProps) {
                             {(supportedLocales.length > 1 ? supportedLocales : [post.locale]).map(
                               (loc) => {
                                 const exists = (post.familyLocales || [post.locale]).includes(loc)
+                                const changed = post.outdatedLocales?.[loc]
                                 return (
                                   <Badge
                                     key={`${post.id}-${loc}`}
                                     variant={exists ? 'default' : 'outline'}
+                                    className={changed ? 'bg-amber-500 text-white' : undefined}
                                     title={
-                                      exists
-                                        ? `Has ${loc.toUpperCase()}`
-                                        : `Missing ${loc.toUpperCase()}`
+                                      changed
+                                        ? `${loc.toUpperCase()} outdated: ${changed.join(', ')} changed`
+                                        : exists
+                                          ? `Has ${loc.toUpperCase()}`
+                                          : `Missing ${loc.toUpperCase()}`
                                     }
                                   >
                                     {loc.toUpperCase()}
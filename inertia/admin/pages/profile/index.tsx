@@ -6,6 +6,7 @@ import { AdminFooter } from '../../components/AdminFooter'
 import { getXsrf } from '~/utils/xsrf'
 import { toast } from 'sonner'
 import { bypassUnsavedChanges } from '~/hooks/unsavedChangesState'
+import { ApiTokensPanel } from '../../components/ApiTokensPanel'
 
 export default function ProfileIndex() {
   const adminPath = useAdminPath()
@@ -24,10 +25,6 @@ export default function ProfileIndex() {
         const j = await res.json().catch(() => ({}))
         if (j?.data) {
           setStatus(j.data)
-          if (j.data.hasProfile && j.data.profilePostId) {
-            bypassUnsavedChanges(true)
-            router.visit(adminPath(`posts/${j.data.profilePostId}/edit`))
-          }
         }
       } finally {
         setLoading(false)
@@ -39,12 +36,22 @@ export default function ProfileIndex() {
     <div className="min-h-screen bg-backdrop-medium">
       <Head title="Profile" />
       <AdminHeader title="Profile" />
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
         <div className="bg-backdrop-low rounded-lg border border-line-low p-6">
           {loading ? (
             <p className="text-sm text-neutral-low">Loading…</p>
           ) : !status ? (
             <p className="text-sm text-neutral-low">Unable to load profile status.</p>
+          ) : status.hasProfile && status.profilePostId ? (
+            <button
+              className="px-3 py-2 text-sm border border-line-low rounded bg-standout-high text-on-high"
+              onClick={() => {
+                bypassUnsavedChanges(true)
+                router.visit(adminPath(`posts/${status.profilePostId}/edit`))
+              }}
+            >
+              Edit Profile
+            </button>
           ) : status.enabledForRole ? (
             <div className="space-y-3">
               <p className="text-sm text-neutral-medium">You don’t have a Profile yet.</p>
@@ -80,6 +87,7 @@ export default function ProfileIndex() {
             <p className="text-sm text-neutral-medium">Profiles are not enabled for your role.</p>
           )}
         </div>
+        <ApiTokensPanel />
       </main>
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <AdminFooter />
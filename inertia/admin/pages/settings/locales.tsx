@@ -3,6 +3,7 @@ import { Head } from '@inertiajs/react'
 import { AdminHeader } from '../../components/AdminHeader'
 import { AdminFooter } from '../../components/AdminFooter'
 import { useConfirm } from '~/components/ConfirmDialogProvider'
+import { toast } from 'sonner'
 import {
   Table,
   TableBody,
@@ -12,7 +13,13 @@ import {
   TableRow,
 } from '../../../components/ui/table'
 
-type LocaleRow = { code: string; isDefault: boolean; isEnabled: boolean }
+type LocaleRow = {
+  code: string
+  isDefault: boolean
+  isEnabled: boolean
+  fallbacks: string[]
+  hostname: string | null
+}
 
 function getXsrfToken(): string | undefined {
   if (typeof document === 'undefined') return undefined
@@ -83,6 +90,33 @@ export default function LocalesPage() {
     }
   }
 
+  async function saveSettings(
+    code: string,
+    patch: { fallbacks?: string[]; hostname?: string | null }
+  ) {
+    setUpdating(code)
+    try {
+      const res = await fetch(`/api/locales/${encodeURIComponent(code)}`, {
+        method: 'PATCH',
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+          ...(getXsrfToken() ? { 'X-XSRF-TOKEN': getXsrfToken()! } : {}),
+        },
+        credentials: 'same-origin',
+        body: JSON.stringify(patch),
+      })
+      const json = await res.json().catch(() => ({}))
+      if (res.ok && json?.data) {
+        setRows((prev) => prev.map((r) => (r.code === code ? { ...r, ...json.data } : r)))
+      } else {
+        toast.error(json?.error || json?.errors?.[0]?.message || 'Failed to update locale')
+      }
+    } finally {
+      setUpdating(null)
+    }
+  }
+
   async function removeLocale(code: string) {
     const ok = await confirm({
       title: 'Delete Locale?',
@@ -127,6 +161,8 @@ export default function LocalesPage() {
                     <TableHead>Code</TableHead>
                     <TableHead>Default</TableHead>
                     <TableHead>Enabled</TableHead>
+                    <TableHead>Fallbacks</TableHead>
+                    <TableHead>Hostname</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -162,6 +198,39 @@ export default function LocalesPage() {
                           <span>{r.isEnabled ? 'Enabled' : 'Disabled'}</span>
                         </label>
                       </TableCell>
+                      <TableCell>
+                        <input
+                          key={`fallbacks-${r.code}-${r.fallbacks.join(',')}`}
+                          className="w-40 px-2 py-1 text-xs border border-line-medium rounded bg-backdrop-low text-neutral-high font-mono"
+                          defaultValue={r.fallbacks.join(', ')}
+                          placeholder="e.g. fr"
+                          disabled={updating === r.code}
+                          onBlur={(e) => {
+                            const next = e.target.value
+                              .split(',')
+                              .map((s) => s.trim().toLowerCase())
+                              .filter(Boolean)
+                            if (next.join(',') !== r.fallbacks.join(',')) {
+                              saveSettings(r.code, { fallbacks: next })
+                            }
+                          }}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <input
+                          key={`hostname-${r.code}-${r.hostname || ''}`}
+                          className="w-48 px-2 py-1 text-xs border border-line-medium rounded bg-backdrop-low text-neutral-high font-mono"
+                          defaultValue={r.hostname || ''}
+                          placeholder="e.g. example.fr"
+                          disabled={updating === r.code}
+                          onBlur={(e) => {
+                            const next = e.target.value.trim().toLowerCase() || null
+                            if (next !== (r.hostname || null)) {
+                              saveSettings(r.code, { hostname: next })
+                            }
+                          }}
+                        />
+                      </TableCell>
                       <TableCell className="text-right">
                         <button
                           className="px-2 py-1 text-xs border border-line-medium rounded hover:bg-backdrop-medium text-neutral-medium"
@@ -181,6 +250,11 @@ export default function LocalesPage() {
               Locales are sourced from environment variables DEFAULT_LOCALE and SUPPORTED_LOCALES,
               and persisted in the database.
             </p>
+            <p className="text-xs text-neutral-low">
+              Fallbacks are tried in order when content is missing in a locale (e.g. FR-CA → FR),
+              followed by the default locale. A hostname serves the locale on its own domain and is
+              used for its canonical and hreflang URLs.
+            </p>
           </div>
         </div>
       </main>
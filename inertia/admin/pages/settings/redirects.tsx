@@ -40,15 +40,29 @@ import {
 type Redirect = {
   id: string
   fromPath: string
-  toPath: string
+  toPath: string | null
   httpStatus: number
+  matchType: 'exact' | 'wildcard' | 'regex'
+  queryString: 'preserve' | 'drop'
   locale: string | null
   postId: string | null
   postTitle: string | null
+  hitCount: number
+  lastHitAt: string | null
   createdAt: string
   updatedAt: string
 }
 
+const EMPTY_FORM = {
+  fromPath: '',
+  toPath: '',
+  httpStatus: 301,
+  matchType: 'exact' as Redirect['matchType'],
+  queryString: 'preserve' as Redirect['queryString'],
+  postId: null as string | null,
+  locale: null as string | null,
+}
+
 function getXsrfToken(): string | undefined {
   if (typeof document === 'undefined') return undefined
   const m = document.cookie.match(/(?:^|; )XSRF-TOKEN=([^;]+)/)
@@ -66,19 +80,8 @@ export default function RedirectsPage() {
   const [saveSuccess, setSaveSuccess] = useState(false)
   const [loading, setLoading] = useState(false)
   const [creating, setCreating] = useState(false)
-  const [form, setForm] = useState<{
-    fromPath: string
-    toPath: string
-    httpStatus: number
-    postId: string | null
-    locale: string | null
-  }>({
-    fromPath: '',
-    toPath: '',
-    httpStatus: 301,
-    postId: null,
-    locale: null,
-  })
+  const [form, setForm] = useState<typeof EMPTY_FORM>(EMPTY_FORM)
+  const isGone = form.httpStatus === 410
 
   // List of available locales
   const [availableLocales, setAvailableLocales] = useState<string[]>([])
@@ -118,7 +121,7 @@ export default function RedirectsPage() {
       result = result.filter(
         (item) =>
           item.fromPath.toLowerCase().includes(q) ||
-          item.toPath.toLowerCase().includes(q) ||
+          item.toPath?.toLowerCase().includes(q) ||
           item.postTitle?.toLowerCase().includes(q)
       )
     }
@@ -196,7 +199,7 @@ export default function RedirectsPage() {
           const newStatus = action === 'status-301' ? 301 : 302
           setItems((prev) =>
             prev.map((item) =>
-              selected.has(item.id) ? { ...item, httpStatus: newStatus } : item
+              selected.has(item.id) && item.toPath !== null ? { ...item, httpStatus: newStatus } : item
             )
           )
         }
@@ -332,14 +335,17 @@ export default function RedirectsPage() {
   }
 
   async function createRedirect() {
-    if (!form.fromPath || !form.toPath) {
+    if (!form.fromPath || (!form.toPath && !isGone)) {
       alert({
         title: 'Validation Error',
         description: 'fromPath and toPath are required',
       })
       return
     }
-    const inferredLocale = inferLocale(form.fromPath) ?? inferLocale(form.toPath)
+    const inferredLocale =
+      form.matchType === 'exact'
+        ? (inferLocale(form.fromPath) ?? inferLocale(form.toPath))
+        : inferLocale(form.toPath)
     setCreating(true)
     try {
       const res = await fetch('/api/redirects', {
@@ -352,8 +358,10 @@ export default function RedirectsPage() {
         credentials: 'same-origin',
         body: JSON.stringify({
           fromPath: form.fromPath,
-          toPath: form.toPath,
+          toPath: isGone ? null : form.toPath,
           httpStatus: form.httpStatus,
+          matchType: form.matchType,
+          queryString: form.queryString,
           locale: form.locale || inferredLocale,
           postId: form.postId,
         }),
@@ -367,10 +375,12 @@ export default function RedirectsPage() {
         return
       }
       const json = await res.json()
-      setItems((prev) => [json.data, ...prev])
-      setForm({ fromPath: '', toPath: '', httpStatus: 301, postId: null, locale: null })
+      setItems((prev) => [{ ...json.data, hitCount: 0, lastHitAt: null }, ...prev])
+      setForm(EMPTY_FORM)
       setPostSearchQuery('')
       toast.success('Redirect created')
+      // Chains still work but cost visitors an extra request
+      for (const warning of json.warnings || []) toast.warning(warning)
     } finally {
       setCreating(false)
     }
@@ -503,7 +513,13 @@ export default function RedirectsPage() {
                     <input
                       type="text"
                       className="w-full px-3 py-2 border border-line-low rounded-lg bg-backdrop-low text-neutral-high focus:ring-2 focus:ring-standout-high/20 focus:border-standout-high outline-none transition-all"
-                      placeholder="/old-path"
+                      placeholder={
+                        form.matchType === 'wildcard'
+                          ? '/old-section/*'
+                          : form.matchType === 'regex'
+                            ? '/blog/(\\d+)-(.*)'
+                            : '/old-path'
+                      }
                       value={form.fromPath}
                       onChange={(e) => setForm((f) => ({ ...f, fromPath: e.target.value }))}
                     />
@@ -517,8 +533,15 @@ export default function RedirectsPage() {
                       <input
                         type="text"
                         className="w-full px-3 py-2 border border-line-low rounded-lg bg-backdrop-low text-neutral-high pr-10 focus:ring-2 focus:ring-standout-high/20 focus:border-standout-high outline-none transition-all"
-                        placeholder="/new-path or select a post"
-                        value={form.toPath}
+                        placeholder={
+                          isGone
+                            ? 'No target for 410 Gone'
+                            : form.matchType === 'exact'
+                              ? '/new-path or select a post'
+                              : '/new-section/$1'
+                        }
+                        disabled={isGone}
+                        value={isGone ? '' : form.toPath}
                         onChange={(e) => setForm((f) => ({ ...f, toPath: e.target.value, postId: null }))}
                       />
                       <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1">
@@ -613,6 +636,51 @@ export default function RedirectsPage() {
                         <SelectContent className="bg-backdrop-low border-line-low">
                           <SelectItem value="301">301 (Permanent)</SelectItem>
                           <SelectItem value="302">302 (Temporary)</SelectItem>
+                          <SelectItem value="307">307 (Temporary, keep method)</SelectItem>
+                          <SelectItem value="308">308 (Permanent, keep method)</SelectItem>
+                          <SelectItem value="410">410 (Gone)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-1.5">
+                      <label className="text-xs font-bold text-neutral-medium uppercase tracking-wider ml-1">
+                        Match
+                      </label>
+                      <Select
+                        value={form.matchType}
+                        onValueChange={(val) =>
+                          setForm((f) => ({ ...f, matchType: val as Redirect['matchType'] }))
+                        }
+                      >
+                        <SelectTrigger className="w-36 h-10 rounded-lg bg-backdrop-low border-line-low">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-backdrop-low border-line-low">
+                          <SelectItem value="exact">Exact path</SelectItem>
+                          <SelectItem value="wildcard">Wildcard (*)</SelectItem>
+                          <SelectItem value="regex">Regular expression</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-1.5">
+                      <label className="text-xs font-bold text-neutral-medium uppercase tracking-wider ml-1">
+                        Query String
+                      </label>
+                      <Select
+                        value={form.queryString}
+                        disabled={isGone}
+                        onValueChange={(val) =>
+                          setForm((f) => ({ ...f, queryString: val as Redirect['queryString'] }))
+                        }
+                      >
+                        <SelectTrigger className="w-32 h-10 rounded-lg bg-backdrop-low border-line-low">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-backdrop-low border-line-low">
+                          <SelectItem value="preserve">Pass on</SelectItem>
+                          <SelectItem value="drop">Drop</SelectItem>
                         </SelectContent>
                       </Select>
                     </div>
@@ -644,7 +712,7 @@ export default function RedirectsPage() {
                         type="button"
                         className="h-10 px-4 text-xs font-semibold text-neutral-low hover:text-neutral-high transition-colors"
                         onClick={() => {
-                          setForm({ fromPath: '', toPath: '', httpStatus: 301, postId: null, locale: null })
+                          setForm(EMPTY_FORM)
                           setPostSearchQuery('')
                         }}
                       >
@@ -656,7 +724,7 @@ export default function RedirectsPage() {
                   <button
                     type="button"
                     className="h-10 px-6 font-bold text-sm rounded-lg bg-standout-high text-on-high hover:shadow-lg hover:shadow-standout-high/20 active:scale-95 transition-all disabled:opacity-50 disabled:active:scale-100 flex items-center gap-2"
-                    disabled={creating || !form.fromPath || !form.toPath}
+                    disabled={creating || !form.fromPath || (!form.toPath && !isGone)}
                     onClick={createRedirect}
                   >
                     <FontAwesomeIcon icon={faPlus} />
@@ -742,6 +810,9 @@ export default function RedirectsPage() {
                       <SelectItem value="all">All Status</SelectItem>
                       <SelectItem value="301">301 (Perm)</SelectItem>
                       <SelectItem value="302">302 (Temp)</SelectItem>
+                      <SelectItem value="307">307 (Temp)</SelectItem>
+                      <SelectItem value="308">308 (Perm)</SelectItem>
+                      <SelectItem value="410">410 (Gone)</SelectItem>
                     </SelectContent>
                   </Select>
 
@@ -815,6 +886,7 @@ export default function RedirectsPage() {
                         <TableHead className="text-[10px] font-bold text-neutral-medium uppercase tracking-widest py-4">To Path / Linked Post</TableHead>
                         <TableHead className="text-[10px] font-bold text-neutral-medium uppercase tracking-widest py-4">Status</TableHead>
                         <TableHead className="text-[10px] font-bold text-neutral-medium uppercase tracking-widest py-4">Locale</TableHead>
+                        <TableHead className="text-[10px] font-bold text-neutral-medium uppercase tracking-widest py-4">Hits</TableHead>
                         <TableHead className="text-right text-[10px] font-bold text-neutral-medium uppercase tracking-widest py-4 whitespace-nowrap px-6">Actions</TableHead>
                       </TableRow>
                     </TableHeader>
@@ -834,6 +906,11 @@ export default function RedirectsPage() {
                           <TableCell className="font-mono text-[13px] text-neutral-high py-5 relative">
                             <div className="flex items-center gap-2">
                               <span>{r.fromPath}</span>
+                              {r.matchType !== 'exact' && (
+                                <span className="px-1.5 py-0.5 rounded bg-backdrop-medium text-[9px] font-sans font-bold uppercase text-neutral-medium">
+                                  {r.matchType}
+                                </span>
+                              )}
                               <button
                                 type="button"
                                 onClick={() => {
@@ -849,31 +926,42 @@ export default function RedirectsPage() {
                           </TableCell>
                           <TableCell className="py-4">
                             <div className="flex items-center gap-2">
-                              <span className="font-mono text-[13px] text-neutral-high">{r.toPath}</span>
-                              <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-all">
-                                <button
-                                  type="button"
-                                  onClick={() => {
-                                    navigator.clipboard.writeText(r.toPath)
-                                    toast.success('Copied to clipboard')
-                                  }}
-                                  className="p-1 text-neutral-low hover:text-standout-high"
-                                  title="Copy path"
-                                >
-                                  <FontAwesomeIcon icon={faCopy} className="text-[10px]" />
-                                </button>
-                                {r.toPath.startsWith('/') && (
-                                  <a
-                                    href={r.toPath}
-                                    target="_blank"
-                                    rel="noopener noreferrer"
+                              {r.toPath === null ? (
+                                <span className="text-neutral-low italic text-xs">Gone</span>
+                              ) : (
+                                <span className="font-mono text-[13px] text-neutral-high">{r.toPath}</span>
+                              )}
+                              {r.toPath !== null && r.queryString === 'drop' && (
+                                <span className="text-[9px] text-neutral-low" title="The query string is not passed on">
+                                  no query
+                                </span>
+                              )}
+                              {r.toPath !== null && (
+                                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-all">
+                                  <button
+                                    type="button"
+                                    onClick={() => {
+                                      navigator.clipboard.writeText(r.toPath || '')
+                                      toast.success('Copied to clipboard')
+                                    }}
                                     className="p-1 text-neutral-low hover:text-standout-high"
-                                    title="Open link"
+                                    title="Copy path"
                                   >
-                                    <FontAwesomeIcon icon={faExternalLinkAlt} className="text-[10px]" />
-                                  </a>
-                                )}
-                              </div>
+                                    <FontAwesomeIcon icon={faCopy} className="text-[10px]" />
+                                  </button>
+                                  {r.toPath.startsWith('/') && r.matchType === 'exact' && (
+                                    <a
+                                      href={r.toPath}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="p-1 text-neutral-low hover:text-standout-high"
+                                      title="Open link"
+                                    >
+                                      <FontAwesomeIcon icon={faExternalLinkAlt} className="text-[10px]" />
+                                    </a>
+                                  )}
+                                </div>
+                              )}
                             </div>
                             {r.postTitle && (
                               <div className="text-[10px] text-standout-high font-bold uppercase mt-1.5 flex items-center gap-1.5 bg-standout-high/5 w-fit px-1.5 py-0.5 rounded border border-standout-high/10 shadow-sm">
@@ -884,7 +972,7 @@ export default function RedirectsPage() {
                           </TableCell>
                           <TableCell className="py-4">
                             <div className="flex flex-col gap-1">
-                              <span className={`w-fit px-2 py-0.5 rounded text-[10px] font-black tracking-wider ${r.httpStatus === 301 ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-950/40 dark:text-emerald-400' : 'bg-sky-100 text-sky-700 dark:bg-sky-950/40 dark:text-sky-400'}`}>
+                              <span className={`w-fit px-2 py-0.5 rounded text-[10px] font-black tracking-wider ${r.httpStatus === 410 ? 'bg-red-100 text-red-700 dark:bg-red-950/40 dark:text-red-400' : r.httpStatus === 301 || r.httpStatus === 308 ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-950/40 dark:text-emerald-400' : 'bg-sky-100 text-sky-700 dark:bg-sky-950/40 dark:text-sky-400'}`}>
                                 {r.httpStatus}
                               </span>
                               <span className="text-[9px] text-neutral-low font-medium">
@@ -901,6 +989,16 @@ export default function RedirectsPage() {
                               <span className="text-neutral-low italic text-[10px]">Global</span>
                             )}
                           </TableCell>
+                          <TableCell className="py-4">
+                            <div className="flex flex-col gap-1">
+                              <span className="text-[13px] font-medium text-neutral-high">
+                                {r.hitCount.toLocaleString()}
+                              </span>
+                              <span className="text-[9px] text-neutral-low font-medium">
+                                {r.lastHitAt ? `Last ${new Date(r.lastHitAt).toLocaleDateString()}` : 'Never'}
+                              </span>
+                            </div>
+                          </TableCell>
                           <TableCell className="text-right py-4 px-6">
                             <AlertDialog>
                               <AlertDialogTrigger asChild>
@@ -31,6 +31,8 @@ import {
 } from '@fortawesome/free-solid-svg-icons'
 import { HeatmapModal } from '../../components/analytics/HeatmapModal'
 import { Textarea } from '~/components/ui/textarea'
+import { Input } from '~/components/ui/input'
+import { Switch } from '~/components/ui/switch'
 import { MediaIdPicker } from '../../components/media/MediaIdPicker'
 import type { CustomFieldDefinition } from '~/types/custom_field'
 
@@ -54,13 +56,44 @@ type AnalyticsDay = {
   clicks: number
 }
 
+type AnalyticsRange = { from: string; to: string }
+
 type AnalyticsSummary = {
+  range: AnalyticsRange
   summary: {
     totalViews: number
     totalClicks: number
   }
   topPosts: AnalyticsPost[]
   statsOverTime: AnalyticsDay[]
+  previous?: {
+    range: AnalyticsRange
+    summary: { totalViews: number; totalClicks: number }
+  }
+}
+
+/** Last 30 days in UTC, matching the server's default range */
+function defaultRange(): AnalyticsRange {
+  const day = 24 * 60 * 60 * 1000
+  const now = Date.now()
+  return {
+    from: new Date(now - 29 * day).toISOString().slice(0, 10),
+    to: new Date(now).toISOString().slice(0, 10),
+  }
+}
+
+function PeriodChange({ current, previous }: { current?: number; previous?: number }) {
+  if (current === undefined || previous === undefined) return null
+  if (previous === 0) {
+    return <div className="text-xs text-neutral-low">No data in the previous period</div>
+  }
+  const change = ((current - previous) / previous) * 100
+  return (
+    <div className={`text-xs ${change >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+      {change >= 0 ? '+' : ''}
+      {change.toFixed(1)}% vs previous period ({previous.toLocaleString()})
+    </div>
+  )
 }
 
 const chartConfig = {
@@ -88,6 +121,8 @@ export default function SeoSettingsPage() {
   const [loadingAnalytics, setLoadingAnalytics] = useState(false)
   const [selectedPostForHeatmap, setSelectedPostForHeatmap] = useState<AnalyticsPost | null>(null)
   const [heatmapOpen, setHeatmapOpen] = useState(false)
+  const [range, setRange] = useState<AnalyticsRange>(defaultRange)
+  const [compare, setCompare] = useState(false)
 
   const [siteSettings, setSiteSettings] = useState<{
     defaultMetaDescription: string | null
@@ -119,8 +154,18 @@ export default function SeoSettingsPage() {
   async function loadAnalytics() {
     setLoadingAnalytics(true)
     try {
-      const res = await fetch('/api/analytics/summary', { credentials: 'same-origin' })
+      const params = new URLSearchParams()
+      params.set('from', range.from)
+      params.set('to', range.to)
+      if (compare) params.set('compare', '1')
+      const res = await fetch(`/api/analytics/summary?${params.toString()}`, {
+        credentials: 'same-origin',
+      })
       const j = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        toast.error(j?.error || 'Failed to load analytics')
+        return
+      }
       setAnalytics(j)
     } catch {
       toast.error('Failed to load analytics')
@@ -194,9 +239,12 @@ export default function SeoSettingsPage() {
   useEffect(() => {
     loadSiteSettings()
     if (activeTab === 'sitemap') loadStatus()
-    if (activeTab === 'analytics' && features.analytics !== false) loadAnalytics()
   }, [activeTab])
 
+  useEffect(() => {
+    if (activeTab === 'analytics' && features.analytics !== false) loadAnalytics()
+  }, [activeTab, range.from, range.to, compare])
+
   return (
     <div className="min-h-screen bg-backdrop-medium">
       <Head title={activeTab === 'analytics' ? 'Analytics' : 'SEO'} />
@@ -317,6 +365,29 @@ export default function SeoSettingsPage() {
 
         {activeTab === 'analytics' && (
           <div className="space-y-6">
+            {/* Date range */}
+            <div className="flex flex-wrap items-center gap-3">
+              <Input
+                type="date"
+                className="w-auto"
+                value={range.from}
+                max={range.to}
+                onChange={(e) => e.target.value && setRange({ ...range, from: e.target.value })}
+              />
+              <span className="text-sm text-neutral-medium">to</span>
+              <Input
+                type="date"
+                className="w-auto"
+                value={range.to}
+                min={range.from}
+                onChange={(e) => e.target.value && setRange({ ...range, to: e.target.value })}
+              />
+              <label className="flex items-center gap-2 text-sm text-neutral-medium">
+                <Switch checked={compare} onCheckedChange={setCompare} />
+                Compare to previous period
+              </label>
+            </div>
+
             {/* Stats Cards */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div className="bg-backdrop-low rounded-lg border border-line-low p-6">
@@ -325,10 +396,14 @@ export default function SeoSettingsPage() {
                     <FontAwesomeIcon icon={faEye} />
                   </div>
                   <div>
-                    <div className="text-sm text-neutral-medium">Total Page Views</div>
+                    <div className="text-sm text-neutral-medium">Page Views</div>
                     <div className="text-2xl font-bold text-neutral-high">
                       {analytics?.summary?.totalViews?.toLocaleString() ?? '—'}
                     </div>
+                    <PeriodChange
+                      current={analytics?.summary?.totalViews}
+                      previous={analytics?.previous?.summary.totalViews}
+                    />
                   </div>
                 </div>
               </div>
@@ -339,10 +414,14 @@ export default function SeoSettingsPage() {
                     <FontAwesomeIcon icon={faMousePointer} />
                   </div>
                   <div>
-                    <div className="text-sm text-neutral-medium">Total Interactions</div>
+                    <div className="text-sm text-neutral-medium">Interactions</div>
                     <div className="text-2xl font-bold text-neutral-high">
                       {analytics?.summary?.totalClicks?.toLocaleString() ?? '—'}
                     </div>
+                    <PeriodChange
+                      current={analytics?.summary?.totalClicks}
+                      previous={analytics?.previous?.summary.totalClicks}
+                    />
                   </div>
                 </div>
               </div>
@@ -523,6 +602,7 @@ export default function SeoSettingsPage() {
 
       <HeatmapModal
         post={selectedPostForHeatmap}
+        range={range}
         open={heatmapOpen}
         onOpenChange={setHeatmapOpen}
       />
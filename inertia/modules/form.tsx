@@ -4,34 +4,24 @@ import { useInlineValue } from '../components/inline-edit/InlineEditorContext'
 import { getSectionStyles } from '../utils/colors'
 import { SectionBackground } from '../components/SectionBackground'
 import { THEME_OPTIONS } from '#modules/shared_fields'
-
-type FormFieldType =
-  | 'text'
-  | 'email'
-  | 'textarea'
-  | 'checkbox'
-  | 'boolean'
-  | 'number'
-  | 'date'
-  | 'url'
-  | 'select'
-  | 'multiselect'
-
-interface FormFieldConfig {
-  slug: string
-  label: string
-  type: FormFieldType
-  required?: boolean
-  options?: Array<{ label: string; value: any }>
-  placeholder?: string
-}
-
-interface FormDefinition {
-  slug: string
-  title: string
-  description?: string
-  fields: FormFieldConfig[]
-  successMessage?: string
+import { visibleFieldSlugs } from '#services/form_validation_service'
+import type { FormConfig } from '#types/form_types'
+
+type FormDefinition = Omit<
+  FormConfig,
+  'subscriptions' | 'notifications' | 'autoresponder' | 'source' | 'spamProtection'
+> & {
+  spamProtection?: {
+    token: string
+    honeypot: string | null
+    challenge: {
+      provider: string
+      siteKey: string
+      script: string
+      className: string
+      responseField: string
+    } | null
+  } | null
 }
 
 interface FormModuleProps {
@@ -58,6 +48,8 @@ export default function FormModule({
 }: FormModuleProps & { __moduleId?: string }) {
   const [definition, setDefinition] = useState<FormDefinition | null>(null)
   const [values, setValues] = useState<Record<string, any>>({})
+  const [files, setFiles] = useState<Record<string, File[]>>({})
+  const [step, setStep] = useState(0)
   const [errors, setErrors] = useState<Record<string, string>>({})
   const [loading, setLoading] = useState(true)
   const [submitting, setSubmitting] = useState(false)
@@ -82,35 +74,54 @@ export default function FormModule({
     setLoading(true)
     setSubmitted(false)
     setErrors({})
-      ; (async () => {
-        try {
-          const res = await fetch(`/api/forms/${encodeURIComponent(formSlug)}`, {
-            credentials: 'same-origin',
-            headers: { Accept: 'application/json' },
-          })
-          if (!res.ok) {
-            throw new Error('Failed to load form')
-          }
-          const j = await res.json().catch(() => null)
-          if (!cancelled) {
-            const def: FormDefinition | null = j?.data ?? null
-            setDefinition(def)
-            setValues({})
-          }
-        } catch {
-          if (!cancelled) {
-            setDefinition(null)
-          }
-        } finally {
-          if (!cancelled) setLoading(false)
+    ;(async () => {
+      try {
+        const res = await fetch(`/api/forms/${encodeURIComponent(formSlug)}`, {
+          credentials: 'same-origin',
+          headers: { Accept: 'application/json' },
+        })
+        if (!res.ok) {
+          throw new Error('Failed to load form')
+        }
+        const j = await res.json().catch(() => null)
+        if (!cancelled) {
+          const def: FormDefinition | null = j?.data ?? null
+          setDefinition(def)
+          setValues(
+            Object.fromEntries(
+              (def?.fields || [])
+                .filter((f) => f.default !== undefined)
+                .map((f) => [f.slug, f.default])
+            )
+          )
+          setFiles({})
+          setStep(0)
         }
-      })()
+      } catch {
+        if (!cancelled) {
+          setDefinition(null)
+        }
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    })()
 
     return () => {
       cancelled = true
     }
   }, [formSlug])
 
+  // The challenge provider's script renders every widget element on the page, so load it once
+  const challengeScript = definition?.spamProtection?.challenge?.script
+  useEffect(() => {
+    if (!challengeScript || document.querySelector(`script[src="${challengeScript}"]`)) return
+    const script = document.createElement('script')
+    script.src = challengeScript
+    script.async = true
+    script.defer = true
+    document.head.appendChild(script)
+  }, [challengeScript])
+
   const containerVariants = {
     hidden: { opacity: 0 },
     visible: {
@@ -167,33 +178,74 @@ export default function FormModule({
     })
   }
 
-  const handleSubmit = async (e: FormEvent) => {
+  const steps = definition.steps || []
+  const isLastStep = steps.length === 0 || step >= steps.length - 1
+  const visible = visibleFieldSlugs(definition, values)
+
+  // Values go as JSON; forms with files are sent as multipart with the values in `__json`
+  const buildRequest = (extra: Record<string, unknown>): RequestInit => {
+    const body = { ...values, ...extra, __origin_post_id: __postId }
+    const hasFiles = Object.values(files).some((list) => list.length > 0)
+    if (!hasFiles) {
+      return {
+        method: 'POST',
+        credentials: 'same-origin',
+        headers: { 'Accept': 'application/json', 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      }
+    }
+    const data = new FormData()
+    data.append('__json', JSON.stringify(body))
+    for (const [slug, list] of Object.entries(files)) {
+      for (const file of list) data.append(slug, file)
+    }
+    return {
+      method: 'POST',
+      credentials: 'same-origin',
+      headers: { Accept: 'application/json' },
+      body: data,
+    }
+  }
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault()
     setSubmitting(true)
     setErrors({})
 
+    // Spam protection fields live in the DOM: the honeypot and the challenge widget's response
+    const protection = definition.spamProtection
+    const domValues = new FormData(e.currentTarget)
+    const extra: Record<string, unknown> = {}
+    if (protection) {
+      extra.__token = protection.token
+      if (protection.honeypot) extra[protection.honeypot] = domValues.get(protection.honeypot) || ''
+      if (protection.challenge) {
+        extra.__challenge = domValues.get(protection.challenge.responseField) || ''
+      }
+    }
+
     try {
-      const res = await fetch(`/api/forms/${encodeURIComponent(formSlug)}`, {
-        method: 'POST',
-        credentials: 'same-origin',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          ...values,
-          __origin_post_id: __postId,
-        }),
-      })
+      // Intermediate steps are only validated by the server
+      const query = isLastStep ? '' : `?step=${step}`
+      const res = await fetch(
+        `/api/forms/${encodeURIComponent(formSlug)}${query}`,
+        buildRequest(extra)
+      )
 
       const j = await res.json().catch(() => null)
       if (!res.ok) {
         const errMap: Record<string, string> = (j && j.errors) || {}
+        if (j?.error && Object.keys(errMap).length === 0) errMap._form = String(j.error)
         setErrors(errMap)
         setSubmitted(false)
         return
       }
 
+      if (!isLastStep) {
+        setStep(step + 1)
+        return
+      }
+
       const data = j?.data || {}
       if (data && typeof data.redirectTo === 'string' && data.redirectTo) {
         window.location.href = data.redirectTo
@@ -210,6 +262,8 @@ export default function FormModule({
 
       setSubmitted(true)
       setValues({})
+      setFiles({})
+      setStep(0)
     } catch {
       // Network or unexpected error – show generic message
       setErrors({ _form: 'Something went wrong. Please try again.' })
@@ -219,139 +273,222 @@ export default function FormModule({
     }
   }
 
-  const formFields = definition.fields.map((field) => {
-    const fieldError = errors[field.slug]
-    const rawValue = values[field.slug]
-    const fieldId = `form-field-${field.slug}`
-    const isCheckbox = field.type === 'checkbox' || field.type === 'boolean'
-
-    const fieldContent = (
-      <div className="space-y-1">
-        {!isCheckbox && (
-          <label htmlFor={fieldId} className={`block text-sm font-medium ${labelColor}`}>
-            {field.label}
-            {field.required && <span className="text-danger ml-0.5">*</span>}
-          </label>
-        )}
-
-        {(() => {
-          switch (field.type) {
-            case 'textarea':
-              return (
-                <textarea
-                  id={fieldId}
-                  className={`block w-full rounded-md border ${inputBg} px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-standout-high/40 transition-all`}
-                  rows={4}
-                  placeholder={field.placeholder}
-                  value={rawValue ?? ''}
-                  onChange={(e) => handleChange(field.slug, e.target.value)}
-                  required={field.required}
-                />
-              )
-
-            case 'checkbox':
-            case 'boolean':
-              return (
-                <div className="flex items-center gap-2">
+  const stepFields = steps.length
+    ? definition.fields.filter((f) =>
+        steps[Math.min(step, steps.length - 1)].fields.includes(f.slug)
+      )
+    : definition.fields
+
+  const formFields = stepFields
+    .filter((field) => visible.has(field.slug))
+    .map((field) => {
+      const fieldError = errors[field.slug]
+      const rawValue = values[field.slug]
+      const fieldId = `form-field-${field.slug}`
+      const isCheckbox = field.type === 'checkbox' || field.type === 'boolean'
+
+      const fieldContent = (
+        <div className="space-y-1">
+          {!isCheckbox && (
+            <label htmlFor={fieldId} className={`block text-sm font-medium ${labelColor}`}>
+              {field.label}
+              {field.required && <span className="text-danger ml-0.5">*</span>}
+            </label>
+          )}
+          {field.description && <p className={`text-xs ${subtextColor}`}>{field.description}</p>}
+
+          {(() => {
+            switch (field.type) {
+              case 'textarea':
+                return (
+                  <textarea
+                    id={fieldId}
+                    className={`block w-full rounded-md border ${inputBg} px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-standout-high/40 transition-all`}
+                    rows={4}
+                    placeholder={field.placeholder}
+                    value={rawValue ?? ''}
+                    onChange={(e) => handleChange(field.slug, e.target.value)}
+                    required={field.required}
+                  />
+                )
+
+              case 'checkbox':
+              case 'boolean':
+                return (
+                  <div className="flex items-center gap-2">
+                    <input
+                      id={fieldId}
+                      type="checkbox"
+                      className={`h-4 w-4 rounded border-line-low ${styles.inverted ? 'bg-on-high/10 text-on-high' : 'bg-backdrop-input text-standout-high'} focus:ring-standout-high/50`}
+                      checked={Boolean(rawValue)}
+                      onChange={(e) => handleChange(field.slug, e.target.checked)}
+                    />
+                    <label htmlFor={fieldId} className={`text-sm ${subtextColor}`}>
+                      {field.label}
+                      {field.required && <span className="text-danger ml-0.5">*</span>}
+                    </label>
+                  </div>
+                )
+
+              case 'select':
+                return (
+                  <select
+                    id={fieldId}
+                    className={`block w-full rounded-md border ${inputBg} px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-standout-high/40 transition-all`}
+                    value={rawValue ?? ''}
+                    onChange={(e) => handleChange(field.slug, e.target.value)}
+                    required={field.required}
+                  >
+                    <option value="">{field.placeholder || 'Select an option'}</option>
+                    {(field.options || []).map((opt) => (
+                      <option key={String(opt.value)} value={String(opt.value)}>
+                        {opt.label}
+                      </option>
+                    ))}
+                  </select>
+                )
+
+              case 'multiselect':
+                return (
+                  <div
+                    className={`space-y-2 p-3 border ${styles.inverted ? 'border-on-high/20 bg-on-high/5' : 'border-line-low bg-backdrop-input/50'} rounded-md`}
+                  >
+                    {(field.options || []).map((opt) => {
+                      const optId = `${fieldId}-${opt.value}`
+                      const isChecked =
+                        Array.isArray(rawValue) && rawValue.includes(String(opt.value))
+                      return (
+                        <div key={String(opt.value)} className="flex items-center gap-2">
+                          <input
+                            id={optId}
+                            type="checkbox"
+                            className={`h-4 w-4 rounded border-line-low ${styles.inverted ? 'bg-on-high/10 text-on-high' : 'bg-backdrop-input text-standout-high'} focus:ring-standout-high/50`}
+                            checked={isChecked}
+                            onChange={(e) =>
+                              handleMultiselectChange(
+                                field.slug,
+                                String(opt.value),
+                                e.target.checked
+                              )
+                            }
+                          />
+                          <label
+                            htmlFor={optId}
+                            className={`text-sm ${subtextColor} cursor-pointer`}
+                          >
+                            {opt.label}
+                          </label>
+                        </div>
+                      )
+                    })}
+                  </div>
+                )
+
+              case 'file': {
+                const maxFiles = field.file?.maxFiles || 1
+                return (
                   <input
                     id={fieldId}
-                    type="checkbox"
-                    className={`h-4 w-4 rounded border-line-low ${styles.inverted ? 'bg-on-high/10 text-on-high' : 'bg-backdrop-input text-standout-high'} focus:ring-standout-high/50`}
-                    checked={Boolean(rawValue)}
-                    onChange={(e) => handleChange(field.slug, e.target.checked)}
+                    type="file"
+                    className={`block w-full text-sm ${subtextColor} file:mr-3 file:rounded-md file:border-0 file:px-3 file:py-2 file:text-sm file:font-medium file:bg-standout-high file:text-on-high`}
+                    accept={(field.file?.accept || []).join(',') || undefined}
+                    multiple={maxFiles > 1}
+                    onChange={(e) =>
+                      setFiles((prev) => ({
+                        ...prev,
+                        [field.slug]: Array.from(e.target.files || []).slice(0, maxFiles),
+                      }))
+                    }
+                    required={field.required}
                   />
-                  <label htmlFor={fieldId} className={`text-sm ${subtextColor}`}>
-                    {field.label}
-                    {field.required && <span className="text-danger ml-0.5">*</span>}
-                  </label>
-                </div>
-              )
-
-            case 'select':
-              return (
-                <select
-                  id={fieldId}
-                  className={`block w-full rounded-md border ${inputBg} px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-standout-high/40 transition-all`}
-                  value={rawValue ?? ''}
-                  onChange={(e) => handleChange(field.slug, e.target.value)}
-                  required={field.required}
-                >
-                  <option value="">{field.placeholder || 'Select an option'}</option>
-                  {(field.options || []).map((opt) => (
-                    <option key={String(opt.value)} value={String(opt.value)}>
-                      {opt.label}
-                    </option>
-                  ))}
-                </select>
-              )
-
-            case 'multiselect':
-              return (
-                <div
-                  className={`space-y-2 p-3 border ${styles.inverted ? 'border-on-high/20 bg-on-high/5' : 'border-line-low bg-backdrop-input/50'} rounded-md`}
-                >
-                  {(field.options || []).map((opt) => {
-                    const optId = `${fieldId}-${opt.value}`
-                    const isChecked =
-                      Array.isArray(rawValue) && rawValue.includes(String(opt.value))
-                    return (
-                      <div key={String(opt.value)} className="flex items-center gap-2">
-                        <input
-                          id={optId}
-                          type="checkbox"
-                          className={`h-4 w-4 rounded border-line-low ${styles.inverted ? 'bg-on-high/10 text-on-high' : 'bg-backdrop-input text-standout-high'} focus:ring-standout-high/50`}
-                          checked={isChecked}
-                          onChange={(e) =>
-                            handleMultiselectChange(field.slug, String(opt.value), e.target.checked)
-                          }
-                        />
-                        <label htmlFor={optId} className={`text-sm ${subtextColor} cursor-pointer`}>
-                          {opt.label}
-                        </label>
-                      </div>
-                    )
-                  })}
-                </div>
-              )
-
-            case 'number':
-            case 'date':
-            case 'url':
-            case 'email':
-            case 'text':
-            default:
-              return (
-                <input
-                  id={fieldId}
-                  type={
-                    field.type === 'boolean'
-                      ? 'checkbox'
-                      : field.type === 'multiselect'
-                        ? 'text'
-                        : field.type
-                  }
-                  className={`block w-full rounded-md border ${inputBg} px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-standout-high/40 transition-all`}
-                  placeholder={field.placeholder}
-                  value={rawValue ?? ''}
-                  onChange={(e) => handleChange(field.slug, e.target.value)}
-                  required={field.required}
-                />
-              )
-          }
-        })()}
-
-        {fieldError && <p className="text-xs text-danger mt-1">{fieldError}</p>}
-      </div>
-    )
+                )
+              }
+
+              case 'number':
+              case 'date':
+              case 'url':
+              case 'email':
+              case 'phone':
+              case 'text':
+              default:
+                return (
+                  <input
+                    id={fieldId}
+                    type={field.type === 'phone' ? 'tel' : field.type}
+                    className={`block w-full rounded-md border ${inputBg} px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-standout-high/40 transition-all`}
+                    placeholder={field.placeholder}
+                    value={rawValue ?? ''}
+                    onChange={(e) => handleChange(field.slug, e.target.value)}
+                    required={field.required}
+                  />
+                )
+            }
+          })()}
 
-    return _useReact ? (
-      <motion.div key={field.slug} variants={itemVariants}>
-        {fieldContent}
-      </motion.div>
-    ) : (
-      <div key={field.slug}>{fieldContent}</div>
-    )
-  })
+          {fieldError && <p className="text-xs text-danger mt-1">{fieldError}</p>}
+        </div>
+      )
+
+      return _useReact ? (
+        <motion.div key={field.slug} variants={itemVariants}>
+          {fieldContent}
+        </motion.div>
+      ) : (
+        <div key={field.slug}>{fieldContent}</div>
+      )
+    })
+
+  const currentStep = steps.length ? steps[Math.min(step, steps.length - 1)] : null
+  const stepHeader = currentStep && (
+    <div>
+      <p className={`text-xs uppercase tracking-wide ${subtextColor}`}>
+        Step {step + 1} of {steps.length}
+      </p>
+      <h3 className={`text-lg font-semibold ${textColor}`}>{currentStep.title}</h3>
+      {currentStep.description && (
+        <p className={`text-sm ${subtextColor}`}>{currentStep.description}</p>
+      )}
+    </div>
+  )
+  // Off-screen rather than display:none, which some bots detect and skip
+  const spamFields = definition.spamProtection && (
+    <>
+      {definition.spamProtection.honeypot && (
+        <div aria-hidden="true" className="absolute -left-[10000px] w-px h-px overflow-hidden">
+          <label>
+            Leave this field empty
+            <input
+              type="text"
+              name={definition.spamProtection.honeypot}
+              tabIndex={-1}
+              autoComplete="off"
+              defaultValue=""
+            />
+          </label>
+        </div>
+      )}
+      {definition.spamProtection.challenge && (
+        <div
+          className={definition.spamProtection.challenge.className}
+          data-sitekey={definition.spamProtection.challenge.siteKey}
+        />
+      )}
+    </>
+  )
+
+  const backButton = step > 0 && (
+    <button
+      type="button"
+      disabled={submitting}
+      onClick={() => {
+        setErrors({})
+        setStep(step - 1)
+      }}
+      className={`inline-flex items-center px-5 py-2.5 rounded-md border ${styles.inverted ? 'border-on-high/30 text-on-high' : 'border-line-low text-neutral-high'} text-sm font-medium disabled:opacity-60`}
+    >
+      Back
+    </button>
+  )
 
   const formBody = (
     <>
@@ -408,27 +545,33 @@ export default function FormModule({
           whileInView="visible"
           viewport={{ once: true, margin: '-100px' }}
         >
+          {stepHeader}
           {formFields}
-          <motion.div variants={itemVariants}>
+          {spamFields}
+          <motion.div variants={itemVariants} className="flex items-center gap-3">
+            {backButton}
             <button
               type="submit"
               disabled={submitting}
               className={`inline-flex items-center px-5 py-2.5 rounded-md ${styles.inverted ? 'bg-backdrop-low text-neutral-high' : 'bg-standout-high text-on-high'} text-sm font-medium hover:bg-standout-high/90 disabled:opacity-60 focus:outline-none focus:ring-2 focus:ring-standout-high/40 transition-all active:scale-95`}
             >
-              {submitting ? 'Sending...' : 'Submit'}
+              {submitting ? 'Sending...' : isLastStep ? 'Submit' : 'Next'}
             </button>
           </motion.div>
         </motion.form>
       ) : (
         <form onSubmit={handleSubmit} className="space-y-4">
+          {stepHeader}
           {formFields}
-          <div>
+          {spamFields}
+          <div className="flex items-center gap-3">
+            {backButton}
             <button
               type="submit"
               disabled={submitting}
               className={`inline-flex items-center px-5 py-2.5 rounded-md ${styles.inverted ? 'bg-backdrop-low text-neutral-high' : 'bg-standout-high text-on-high'} text-sm font-medium hover:bg-standout-high/90 disabled:opacity-60 focus:outline-none focus:ring-2 focus:ring-standout-high/40 transition-all active:scale-95`}
             >
-              {submitting ? 'Sending...' : 'Submit'}
+              {submitting ? 'Sending...' : isLastStep ? 'Submit' : 'Next'}
             </button>
           </div>
         </form>
@@ -450,7 +593,9 @@ export default function FormModule({
         backgroundTint={backgroundTint}
         isInteractive={_useReact}
       />
-      <div className="container mx-auto px-4 sm:px-6 lg:px-8 max-w-xl relative z-10">{formBody}</div>
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 max-w-xl relative z-10">
+        {formBody}
+      </div>
     </section>
   )
 }
@@ -14,6 +14,7 @@ interface SearchResult {
   id: string
   title: string
   excerpt: string | null
+  snippet?: string | null
   url: string
 }
 
@@ -209,11 +210,20 @@ export function SearchModal({
                       >
                         {result.title}
                       </div>
-                      {result.excerpt && (
-                        <p className={`text-xs line-clamp-1 mt-0.5 ${idx === activeIndex ? 'text-neutral-high/70' : 'text-neutral-medium'
-                          }`}>
-                          {result.excerpt}
-                        </p>
+                      {result.snippet ? (
+                        <p
+                          className={`text-xs line-clamp-1 mt-0.5 [&_mark]:bg-transparent [&_mark]:font-semibold [&_mark]:text-neutral-high ${idx === activeIndex ? 'text-neutral-high/70' : 'text-neutral-medium'
+                            }`}
+                          // Snippet HTML is escaped server-side; only <mark> tags are emitted
+                          dangerouslySetInnerHTML={{ __html: result.snippet }}
+                        />
+                      ) : (
+                        result.excerpt && (
+                          <p className={`text-xs line-clamp-1 mt-0.5 ${idx === activeIndex ? 'text-neutral-high/70' : 'text-neutral-medium'
+                            }`}>
+                            {result.excerpt}
+                          </p>
+                        )
                       )}
                     </div>
                     {idx === activeIndex && (
@@ -2,11 +2,24 @@ import { Head } from '@inertiajs/react'
 import { SiteHeader } from '../../components/SiteHeader'
 import { SiteFooter } from '../../components/SiteFooter'
 
+type SearchFacets = {
+  types: Array<{ type: string; count: number }>
+  terms: Array<{
+    id: string
+    name: string
+    slug: string
+    taxonomy: string
+    taxonomyName: string
+    count: number
+  }>
+}
+
 type SearchResult = {
   id: string
   type: string
   title: string
   excerpt: string | null
+  snippet: string | null
   slug: string
   locale: string
   url: string
@@ -16,13 +29,39 @@ type SearchResult = {
 export default function SearchPage(props: {
   q: string
   type: string
+  term: string
   locale: string
   postTypes: string[]
   results: SearchResult[]
+  facets: SearchFacets
+  total: number
+  page: number
   limit: number
 }) {
   const q = String(props.q || '')
   const type = String(props.type || '')
+  const term = String(props.term || '')
+  const totalPages = Math.max(1, Math.ceil((props.total || 0) / props.limit))
+
+  const buildUrl = (overrides: Partial<{ type: string; term: string; page: number }>) => {
+    const params = new URLSearchParams()
+    params.set('q', q)
+    params.set('locale', props.locale)
+    const nextType = overrides.type !== undefined ? overrides.type : type
+    const nextTerm = overrides.term !== undefined ? overrides.term : term
+    if (nextType) params.set('type', nextType)
+    if (nextTerm) params.set('term', nextTerm)
+    if (overrides.page && overrides.page > 1) params.set('page', String(overrides.page))
+    return `/search?${params.toString()}`
+  }
+
+  const termGroups = (props.facets?.terms || []).reduce<
+    Record<string, { name: string; terms: SearchFacets['terms'] }>
+  >((acc, t) => {
+    if (!acc[t.taxonomy]) acc[t.taxonomy] = { name: t.taxonomyName, terms: [] }
+    acc[t.taxonomy].terms.push(t)
+    return acc
+  }, {})
 
   return (
     <>
@@ -41,6 +80,7 @@ export default function SearchPage(props: {
             className="mt-6 grid grid-cols-1 sm:grid-cols-5 gap-3"
           >
             <input type="hidden" name="locale" value={props.locale} />
+            {term && <input type="hidden" name="term" value={term} />}
             <div className="sm:col-span-3">
               <label className="block text-xs font-medium text-neutral-medium mb-1">Query</label>
               <input
@@ -92,9 +132,55 @@ export default function SearchPage(props: {
           ) : (
             <div className="mt-10">
               <div className="text-xs text-neutral-low mb-3">
-                Showing {props.results.length} result{props.results.length === 1 ? '' : 's'}
-                {props.results.length >= props.limit ? ` (limited to ${props.limit})` : ''}.
+                {props.total} result{props.total === 1 ? '' : 's'}
+                {totalPages > 1 ? ` · page ${props.page} of ${totalPages}` : ''}.
               </div>
+              {(props.facets?.types?.length > 0 || Object.keys(termGroups).length > 0) && (
+                <div className="mb-6 space-y-3">
+                  {props.facets.types.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-xs font-medium text-neutral-medium">Type:</span>
+                      <a
+                        href={buildUrl({ type: '' })}
+                        className={`rounded-full border px-3 py-1 text-xs ${!type ? 'border-standout-high text-standout-high' : 'border-line-low text-neutral-medium hover:text-neutral-high'}`}
+                      >
+                        All
+                      </a>
+                      {props.facets.types.map((f) => (
+                        <a
+                          key={f.type}
+                          href={buildUrl({ type: f.type })}
+                          className={`rounded-full border px-3 py-1 text-xs ${type === f.type ? 'border-standout-high text-standout-high' : 'border-line-low text-neutral-medium hover:text-neutral-high'}`}
+                        >
+                          {f.type} <span className="text-neutral-low">({f.count})</span>
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                  {Object.entries(termGroups).map(([taxonomy, group]) => (
+                    <div key={taxonomy} className="flex flex-wrap items-center gap-2">
+                      <span className="text-xs font-medium text-neutral-medium">{group.name}:</span>
+                      {term && group.terms.some((t) => t.id === term) && (
+                        <a
+                          href={buildUrl({ term: '' })}
+                          className="rounded-full border border-line-low px-3 py-1 text-xs text-neutral-medium hover:text-neutral-high"
+                        >
+                          Any
+                        </a>
+                      )}
+                      {group.terms.map((t) => (
+                        <a
+                          key={t.id}
+                          href={buildUrl({ term: t.id })}
+                          className={`rounded-full border px-3 py-1 text-xs ${term === t.id ? 'border-standout-high text-standout-high' : 'border-line-low text-neutral-medium hover:text-neutral-high'}`}
+                        >
+                          {t.name} <span className="text-neutral-low">({t.count})</span>
+                        </a>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
               {props.results.length === 0 ? (
                 <div className="rounded-lg border border-line-low bg-backdrop px-4 py-4 text-sm text-neutral-medium">
                   No results found.
@@ -119,10 +205,18 @@ export default function SearchPage(props: {
                             <span className="mx-2 text-neutral-low/40">·</span>
                             <span className="font-mono">{r.slug}</span>
                           </div>
-                          {r.excerpt && (
-                            <p className="mt-2 text-sm text-neutral-medium line-clamp-3">
-                              {r.excerpt}
-                            </p>
+                          {r.snippet ? (
+                            <p
+                              className="mt-2 text-sm text-neutral-medium line-clamp-3 [&_mark]:bg-standout-high/15 [&_mark]:text-neutral-high [&_mark]:rounded-sm [&_mark]:px-0.5"
+                              // Snippet HTML is escaped server-side; only <mark> tags are emitted
+                              dangerouslySetInnerHTML={{ __html: r.snippet }}
+                            />
+                          ) : (
+                            r.excerpt && (
+                              <p className="mt-2 text-sm text-neutral-medium line-clamp-3">
+                                {r.excerpt}
+                              </p>
+                            )
                           )}
                         </div>
                         <div className="shrink-0 text-[11px] text-neutral-low whitespace-nowrap" suppressHydrationWarning>
@@ -133,6 +227,28 @@ export default function SearchPage(props: {
                   ))}
                 </ul>
               )}
+              {totalPages > 1 && (
+                <nav className="mt-6 flex items-center justify-between text-sm">
+                  {props.page > 1 ? (
+                    <a
+                      href={buildUrl({ page: props.page - 1 })}
+                      className="text-neutral-medium hover:text-neutral-high"
+                    >
+                      ← Previous
+                    </a>
+                  ) : (
+                    <span />
+                  )}
+                  {props.page < totalPages && (
+                    <a
+                      href={buildUrl({ page: props.page + 1 })}
+                      className="text-neutral-medium hover:text-neutral-high"
+                    >
+                      Next →
+                    </a>
+                  )}
+                </nav>
+              )}
             </div>
           )}
         </div>
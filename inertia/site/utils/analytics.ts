@@ -3,10 +3,39 @@ import { router } from '@inertiajs/react'
 let currentPostId: string | null = null
 let isAuthenticated = false
 let isEnabled = true
+let consentMode: 'off' | 'required' | 'cookieless' = 'off'
+let consentCookie = 'cms_analytics_consent'
 let hasInitialized = false
 let clickBuffer: any[] = []
 let flushTimer: any = null
 
+/**
+ * Record the visitor's analytics consent. Call this from the site's consent banner;
+ * it is also available as `window.cmsAnalytics.setConsent(granted)`.
+ */
+export function setAnalyticsConsent(granted: boolean) {
+  if (typeof document === 'undefined') return
+  const maxAge = 60 * 60 * 24 * 365
+  document.cookie = `${consentCookie}=${granted ? 'granted' : 'denied'}; path=/; max-age=${maxAge}; SameSite=Lax`
+}
+
+function hasConsent(): boolean {
+  if (typeof document === 'undefined') return false
+  const match = document.cookie.match(new RegExp(`(?:^|; )${consentCookie}=([^;]*)`))
+  return (
+    !!match && ['granted', 'true', '1', 'yes'].includes(decodeURIComponent(match[1]).toLowerCase())
+  )
+}
+
+/**
+ * What may be sent right now: everything, page views without details, or nothing
+ * (the server applies the same rules)
+ */
+function trackingLevel(): 'full' | 'anonymous' | 'none' {
+  if (consentMode === 'off' || hasConsent()) return 'full'
+  return consentMode === 'cookieless' ? 'anonymous' : 'none'
+}
+
 /**
  * Lightweight analytics tracker for the public site.
  * Uses Inertia events to track page views and document-level listeners for clicks.
@@ -14,6 +43,7 @@ let flushTimer: any = null
 export function initAnalytics(initialPage?: any) {
   if (typeof window === 'undefined' || hasInitialized) return
   hasInitialized = true
+  ;(window as any).cmsAnalytics = { setConsent: setAnalyticsConsent }
 
   if (initialPage) {
     updateState(initialPage)
@@ -34,21 +64,23 @@ export function initAnalytics(initialPage?: any) {
   router.on('success', (event) => {
     const page = event.detail.page
     const oldPath = window.location.pathname
+    // The page the visitor came from (used for "target URL visit" A/B goals)
+    const fromPostId = currentPostId
     updateState(page)
 
     // Only track if the path actually changed (to avoid double tracking initial load)
-    if (isEnabled && !isAuthenticated) {
+    if (isEnabled && !isAuthenticated && trackingLevel() !== 'none') {
       track({
         eventType: 'view',
         postId: currentPostId,
         viewportWidth: window.innerWidth,
-        metadata: { path: window.location.pathname }
+        metadata: { path: window.location.pathname, ...(fromPostId ? { fromPostId } : {}) },
       })
     }
   })
 
   // 2. Track initial page view
-  if (isEnabled && !isAuthenticated) {
+  if (isEnabled && !isAuthenticated && trackingLevel() !== 'none') {
     track({
       eventType: 'view',
       postId: currentPostId,
@@ -58,36 +90,44 @@ export function initAnalytics(initialPage?: any) {
   }
 
   // 3. Click tracking
-  document.addEventListener('click', (e) => {
-    if (!isEnabled || isAuthenticated) return
+  document.addEventListener(
+    'click',
+    (e) => {
+      if (!isEnabled || isAuthenticated || trackingLevel() !== 'full') return
+
+      // Don't track if clicking on Admin UI elements
+      const target = e.target as HTMLElement
+      if (target.closest('.site-admin-bar') || target.closest('[data-admin-ui]')) {
+        return
+      }
 
-    // Don't track if clicking on Admin UI elements
-    const target = e.target as HTMLElement
-    if (target.closest('.site-admin-bar') || target.closest('[data-admin-ui]')) {
-      return
-    }
+      // Only track clicks on potentially interactive elements (Task 2 fix)
+      const interactive = target.closest(
+        'a, button, [role="button"], input[type="submit"], input[type="button"]'
+      ) as HTMLElement | null
+      if (!interactive) return
 
-    // Only track clicks on potentially interactive elements (Task 2 fix)
-    const interactive = target.closest('a, button, [role="button"], input[type="submit"], input[type="button"]')
-    if (!interactive) return
+      clickBuffer.push({
+        eventType: 'click',
+        postId: currentPostId,
+        x: e.pageX,
+        y: e.pageY,
+        viewportWidth: window.innerWidth,
+        // Describe the link or button, not the inner element that was hit (click goals match it)
+        metadata: {
+          selector: getSelector(interactive),
+          element: describeElement(interactive),
+          path: window.location.pathname,
+          text: interactive.innerText?.substring(0, 50).trim() || '',
+        },
+      })
 
-    clickBuffer.push({
-      eventType: 'click',
-      postId: currentPostId,
-      x: e.pageX,
-      y: e.pageY,
-      viewportWidth: window.innerWidth,
-      metadata: {
-        selector: getSelector(target),
-        path: window.location.pathname,
-        text: target.innerText?.substring(0, 50).trim() || ''
+      if (clickBuffer.length >= 5) {
+        flush()
       }
-    })
-
-    if (clickBuffer.length >= 5) {
-      flush()
-    }
-  }, { passive: true })
+    },
+    { passive: true }
+  )
 
   // 4. Lifecycle hooks
   window.addEventListener('beforeunload', () => flush())
@@ -105,6 +145,10 @@ function updateState(page: any) {
   const currentUser = page.props?.currentUser
   isAuthenticated = !!currentUser && ['admin', 'editor_admin', 'editor', 'translator'].includes(String(currentUser.role || ''))
   isEnabled = page.props?.features?.analytics !== false
+  if (page.props?.analyticsPrivacy) {
+    consentMode = page.props.analyticsPrivacy.consentMode || 'off'
+    consentCookie = page.props.analyticsPrivacy.consentCookie || consentCookie
+  }
 }
 
 function flush() {
@@ -134,6 +178,15 @@ function track(event: any) {
   }).catch(() => { })
 }
 
+/**
+ * Tag, id and classes of a clicked element, matched against A/B click goal selectors
+ */
+function describeElement(el: HTMLElement) {
+  const classes =
+    typeof el.className === 'string' ? el.className.split(/\s+/).filter(Boolean).slice(0, 20) : []
+  return { tag: el.tagName.toLowerCase(), id: el.id || null, classes }
+}
+
 function getSelector(el: HTMLElement): string {
   if (!el) return ''
   if (el.id) return `#${el.id}`
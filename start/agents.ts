@@ -12,7 +12,12 @@ import agentUserService from '#services/agent_user_service'
 
 const agentsPath = join(getDirname(import.meta.url), '..', 'app', 'agents')
 
-try {
+/**
+ * Register every agent definition found in app/agents
+ * Agents already in the registry are left as they are, so tests can re-run this
+ * after another suite has cleared the registry
+ */
+export async function registerAgents(): Promise<void> {
   // Read all files in the agents directory
   const files = await readdir(agentsPath)
 
@@ -33,6 +38,8 @@ try {
         continue
       }
 
+      if (agentRegistry.get(definition.id)) continue
+
       agentRegistry.register(definition)
 
       // In development, log registered agents
@@ -43,6 +50,10 @@ try {
       console.error(`❌ Failed to load agent from ${file}:`, error)
     }
   }
+}
+
+try {
+  await registerAgents()
 
   // Log summary
   const enabledCount = agentRegistry.listEnabled().length
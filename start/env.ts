@@ -129,6 +129,17 @@ export default await Env.create(new URL('../', import.meta.url), {
   CMS_RATE_LIMIT_AUTH_WINDOW: Env.schema.number.optional(),
   CMS_RATE_LIMIT_API_REQUESTS: Env.schema.number.optional(),
   CMS_RATE_LIMIT_API_WINDOW: Env.schema.number.optional(),
+  CMS_GRAPHQL_MAX_DEPTH: Env.schema.number.optional(),
+  CMS_GRAPHQL_MAX_COMPLEXITY: Env.schema.number.optional(),
+  CMS_FORMS_RATE_LIMIT_REQUESTS: Env.schema.number.optional(),
+  CMS_FORMS_RATE_LIMIT_WINDOW: Env.schema.number.optional(),
+  CMS_FORMS_MIN_FILL_SECONDS: Env.schema.number.optional(),
+  CMS_FORMS_SPAM_THRESHOLD: Env.schema.number.optional(),
+  CMS_FORMS_CHALLENGE: Env.schema.string.optional(),
+  CMS_FORMS_CHALLENGE_SITE_KEY: Env.schema.string.optional(),
+  CMS_FORMS_CHALLENGE_SECRET: Env.schema.string.optional(),
+  CMS_FORMS_EMAIL_MAX_ATTEMPTS: Env.schema.number.optional(),
+  CMS_FORMS_UPLOAD_ROOT: Env.schema.string.optional(),
 
   /*
   |----------------------------------------------------------
@@ -140,14 +151,18 @@ export default await Env.create(new URL('../', import.meta.url), {
   CMS_WEBHOOK_MAX_RETRIES: Env.schema.number.optional(),
   CMS_WEBHOOK_SECRET: Env.schema.string.optional(),
   CMS_WEBHOOK_ALLOWED_HOSTS: Env.schema.string.optional(),
+  CMS_DELIVERY_BACKOFF_BASE: Env.schema.number.optional(),
+  CMS_DELIVERY_BACKOFF_MAX: Env.schema.number.optional(),
+  CMS_DELIVERY_BATCH_SIZE: Env.schema.number.optional(),
+  CMS_DELIVERY_RETENTION_DAYS: Env.schema.number.optional(),
 
   /*
   |----------------------------------------------------------
   | Scheduler
   |----------------------------------------------------------
   */
-  CMS_SCHEDULER_DEV_INTERVAL: Env.schema.number.optional(),
-  CMS_SCHEDULER_PROD_INTERVAL: Env.schema.number.optional(),
+  CMS_SCHEDULER_LOCK_TTL: Env.schema.number.optional(),
+  CMS_SCHEDULER_HISTORY_LIMIT: Env.schema.number.optional(),
   SCHEDULER_DISABLED: Env.schema.boolean.optional(),
 
   /*
@@ -171,6 +186,8 @@ export default await Env.create(new URL('../', import.meta.url), {
   AI_PROVIDER_OPENAI_API_KEY: Env.schema.string.optional(),
   AI_PROVIDER_ANTHROPIC_API_KEY: Env.schema.string.optional(),
   AI_PROVIDER_GOOGLE_API_KEY: Env.schema.string.optional(),
+  AI_PROVIDER_OPENAI_COMPATIBLE_API_KEY: Env.schema.string.optional(),
+  AI_PROVIDER_OPENAI_COMPATIBLE_BASE_URL: Env.schema.string.optional(),
   AI_AGENT_DEBUG: Env.schema.boolean.optional(),
   AGENT_SECRET: Env.schema.string.optional(),
   AGENT_USERS_BOOTSTRAP_DISABLED: Env.schema.boolean.optional(),
@@ -227,6 +244,11 @@ export default await Env.create(new URL('../', import.meta.url), {
   |----------------------------------------------------------
   */
   CMS_ANALYTICS_ENABLED: Env.schema.boolean.optional(),
+  CMS_ANALYTICS_RETENTION_DAYS: Env.schema.number.optional(),
+  CMS_ANALYTICS_CONSENT_MODE: Env.schema.enum.optional(['off', 'required', 'cookieless'] as const),
+  CMS_ANALYTICS_CONSENT_COOKIE: Env.schema.string.optional(),
+  CMS_PRIVACY_IP_MODE: Env.schema.enum.optional(['full', 'truncate', 'hash', 'none'] as const),
+  CMS_PRIVACY_SALT_ROTATION_HOURS: Env.schema.number.optional(),
   CMS_AUDIT_LOGS_ENABLED: Env.schema.boolean.optional(),
   CMS_ACTIVE_SESSIONS_ENABLED: Env.schema.boolean.optional(),
   LOTTIE_ENABLED: Env.schema.boolean.optional(),
@@ -0,0 +1,45 @@
+/**
+ * Bootstrap file for the job registry
+ * Scans app/jobs directory and registers all scheduled job definitions
+ */
+
+import { getDirname } from '@adonisjs/core/helpers'
+import { readdir } from 'node:fs/promises'
+import { join } from 'node:path'
+import jobRegistry from '#services/job_registry'
+import type { JobDefinition } from '#types/job_types'
+
+const jobsPath = join(getDirname(import.meta.url), '..', 'app', 'jobs')
+
+try {
+  const files = await readdir(jobsPath)
+  const jobFiles = files.filter(
+    (file) => (file.endsWith('.ts') || file.endsWith('.js')) && !file.endsWith('.d.ts')
+  )
+
+  for (const file of jobFiles) {
+    try {
+      const module = await import(join(jobsPath, file))
+      const definition: JobDefinition = module.default
+
+      if (!definition || !definition.id) {
+        console.warn(`⚠️  Job file ${file} does not export a valid JobDefinition`)
+        continue
+      }
+
+      jobRegistry.register(definition)
+    } catch (error) {
+      console.error(`❌ Failed to load job from ${file}:`, error)
+    }
+  }
+
+  if (process.env.NODE_ENV === 'development' && process.env.MCP_QUIET !== '1') {
+    console.log(
+      `⏱️  Job Registry: ${jobRegistry.listEnabled().length}/${jobRegistry.list().length} jobs enabled`
+    )
+  }
+} catch (error) {
+  if ((error as any).code !== 'ENOENT') {
+    console.error('❌ Failed to bootstrap job registry:', error)
+  }
+}
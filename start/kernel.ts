@@ -46,6 +46,8 @@ router.use([
   () => import('@adonisjs/session/session_middleware'),
   () => import('@adonisjs/shield/shield_middleware'),
   () => import('@adonisjs/auth/initialize_auth_middleware'),
+  // Personal API tokens (Bearer eos_pat_...) act as their user on the admin API
+  () => import('#middleware/api_token_auth_middleware'),
   // Share auth context with Inertia props (must run after auth init)
   () => import('#middleware/inertia_auth_share_middleware'),
   () => import('#middleware/theme_middleware'),
@@ -66,4 +68,6 @@ export const middleware = router.named({
   rateLimit: () => import('#middleware/rate_limit_default_middleware'),
   rateLimitAuth: () => import('#middleware/rate_limit_auth_middleware'),
   rateLimitApi: () => import('#middleware/rate_limit_api_middleware'),
+  rateLimitForms: () => import('#middleware/rate_limit_forms_middleware'),
+  delivery: () => import('#middleware/delivery_auth_middleware'),
 })
@@ -31,10 +31,13 @@ router
 
 // Public analytics tracking
 const AnalyticsController = () => import('#controllers/analytics_controller')
-router.post('/api/public/analytics/track', [AnalyticsController, 'track'])
+router
+  .post('/api/public/analytics/track', [AnalyticsController, 'track'])
+  .use(middleware.rateLimit())
 
 // External agent triggers (authenticated via secret)
 const AgentsController = () => import('#controllers/agents_controller')
+const AgentPlansController = () => import('#controllers/agent_plans_controller')
 router.post('/api/public/agents/:agentId/run', [AgentsController, 'triggerExternal'])
 
 // Public media info (no auth)
@@ -97,6 +100,8 @@ const PostsViewController = () => import('#controllers/posts/posts_view_controll
 const PostsModulesController = () => import('#controllers/posts/posts_modules_controller')
 const PostsRevisionsController = () => import('#controllers/posts/posts_revisions_controller')
 const PostsExportController = () => import('#controllers/posts/posts_export_controller')
+const PostsScheduledApprovalsController = () =>
+  import('#controllers/posts/posts_scheduled_approvals_controller')
 const InlineEditorController = () => import('#controllers/inline_editor_controller')
 
 /**
@@ -127,6 +132,11 @@ router
     router.post('/posts/:id/translations', [TranslationsController, 'store'])
     router.get('/posts/:id/translations/:locale', [TranslationsController, 'show'])
     router.delete('/posts/:id/translations/:locale', [TranslationsController, 'destroy'])
+    router.get('/posts/:id/translations/:locale/staleness', [TranslationsController, 'staleness'])
+    router.post('/posts/:id/translations/:locale/sync', [TranslationsController, 'markSynced'])
+    router.get('/posts/:id/xliff', [TranslationsController, 'exportXliff'])
+    router.post('/translations/xliff/export', [TranslationsController, 'exportXliffBulk'])
+    router.post('/translations/xliff/import', [TranslationsController, 'importXliff'])
   })
   .prefix('/api')
   .use(middleware.auth())
@@ -247,6 +257,7 @@ router
     router.post('/posts/:id/promote-variation', [PostsCrudController, 'promoteVariation'])
     router.delete('/posts/:id/variation', [PostsCrudController, 'deleteVariation'])
     router.get('/posts/:id/ab-stats', [PostsCrudController, 'getAbStats'])
+    router.put('/posts/:id/ab-settings', [PostsCrudController, 'updateAbSettings'])
 
     // Modules
     router.post('/posts/:id/modules', [PostsModulesController, 'store'])
@@ -259,6 +270,14 @@ router
     router.post('/posts/:id/revisions/:revId/revert', [PostsRevisionsController, 'revert'])
     router.post('/posts/:id/revisions/:revId/compare', [PostsRevisionsController, 'compare'])
 
+    // Scheduled review approvals
+    router.get('/posts/:id/scheduled-approvals', [PostsScheduledApprovalsController, 'index'])
+    router.post('/posts/:id/scheduled-approvals', [PostsScheduledApprovalsController, 'store'])
+    router.delete('/posts/:id/scheduled-approvals/:approvalId', [
+      PostsScheduledApprovalsController,
+      'destroy',
+    ])
+
     // Feedback
     const FeedbacksController = () => import('#controllers/feedbacks_controller')
     router.get('/feedbacks', [FeedbacksController, 'index'])
@@ -290,6 +309,24 @@ router
     router
       .get('/posts/:id/agents/:agentId/history', [AgentsController, 'getHistory'])
       .use(middleware.admin())
+    // Agent plans (multi-step runs approved by an editor)
+    router
+      .get('/posts/:id/agents/:agentId/plans', [AgentPlansController, 'index'])
+      .use(middleware.admin())
+    router
+      .post('/posts/:id/agents/:agentId/plan', [AgentPlansController, 'propose'])
+      .use(middleware.admin())
+    router.get('/agent-plans/:planId', [AgentPlansController, 'show']).use(middleware.admin())
+    router.put('/agent-plans/:planId', [AgentPlansController, 'update']).use(middleware.admin())
+    router
+      .post('/agent-plans/:planId/approve', [AgentPlansController, 'approve'])
+      .use(middleware.admin())
+    router
+      .post('/agent-plans/:planId/resume', [AgentPlansController, 'resume'])
+      .use(middleware.admin())
+    router
+      .post('/agent-plans/:planId/cancel', [AgentPlansController, 'cancel'])
+      .use(middleware.admin())
     // Workflows
     router.get('/workflows', [WorkflowsController, 'index']).use(middleware.admin())
     router.get('/workflows/:id', [WorkflowsController, 'show']).use(middleware.admin())
@@ -335,6 +372,12 @@ router
     // AI Settings
     router.get('/ai-settings', [AISettingsController, 'index']).use(middleware.admin())
     router.patch('/ai-settings', [AISettingsController, 'update']).use(middleware.admin())
+    router.get('/ai-settings/usage', [AISettingsController, 'usage']).use(middleware.admin())
+    router.get('/ai-settings/budgets', [AISettingsController, 'budgets']).use(middleware.admin())
+    router.put('/ai-settings/budgets', [AISettingsController, 'saveBudget']).use(middleware.admin())
+    router
+      .delete('/ai-settings/budgets/:id', [AISettingsController, 'destroyBudget'])
+      .use(middleware.admin())
     // Menus (Admin)
     router.get('/menus', [MenusController, 'index'])
     router.post('/menus', [MenusController, 'store']).use(middleware.admin())
@@ -358,9 +401,21 @@ router
     router.get('/modules/static', [GlobalModulesController, 'index'])
     // Forms definitions
     router.get('/forms-definitions', [FormsAdminController, 'listDefinitions'])
+    router.post('/forms-definitions', [FormsAdminController, 'createDefinition'])
+    router.get('/forms-definitions/:slug', [FormsAdminController, 'showDefinition'])
+    router.put('/forms-definitions/:slug', [FormsAdminController, 'updateDefinition'])
+    router.delete('/forms-definitions/:slug', [FormsAdminController, 'deleteDefinition'])
     // Form submissions
     router.get('/forms-submissions/export', [FormsAdminController, 'exportCsv'])
+    router.get('/forms-submissions/analytics', [FormsAdminController, 'analytics'])
     router.post('/forms-submissions/bulk-delete', [FormsAdminController, 'bulkDelete'])
+    router.post('/forms-submissions/bulk-update', [FormsAdminController, 'bulkUpdate'])
+    router.post('/forms-submissions/:id/not-spam', [FormsAdminController, 'markNotSpam'])
+    router.get('/forms-submissions/:id/notes', [FormsAdminController, 'listNotes'])
+    router.post('/forms-submissions/:id/notes', [FormsAdminController, 'addNote'])
+    router.delete('/forms-submissions/:id/notes/:noteId', [FormsAdminController, 'deleteNote'])
+    router.get('/forms-submissions/:id/files/:field/:index', [FormsAdminController, 'downloadFile'])
+    router.patch('/forms-submissions/:id', [FormsAdminController, 'updateSubmission'])
     router.delete('/forms-submissions/:id', [FormsAdminController, 'deleteSubmission'])
     // Taxonomies (editors allowed)
     router.get('/taxonomies', [TaxonomiesController, 'list'])
@@ -385,9 +440,83 @@ router
     router.get('/companies', [CompaniesController, 'index'])
     router.get('/testimonials', [TestimonialsController, 'index'])
     router.get('/forms/:slug', [FormsController, 'show'])
-    router.post('/forms/:slug', [FormsController, 'submit'])
+    router.post('/forms/:slug', [FormsController, 'submit']).use(middleware.rateLimitForms())
+  })
+  .prefix('/api')
+
+/**
+ * Content Delivery API (token-authenticated, published content only)
+ */
+const DeliveryController = () => import('#controllers/delivery_controller')
+router
+  .group(() => {
+    router.get('/posts/:id', [DeliveryController, 'show'])
+    router.get('/resolve', [DeliveryController, 'resolve'])
+    router.get('/menus/:slug', [DeliveryController, 'menu'])
+  })
+  .prefix('/api/delivery/v1')
+  .use(middleware.rateLimitApi())
+  .use(middleware.delivery())
+
+/**
+ * GraphQL (same delivery tokens as the REST delivery API)
+ */
+const GraphqlController = () => import('#controllers/graphql_controller')
+router
+  .group(() => {
+    router.get('/graphql', [GraphqlController, 'handle'])
+    router.post('/graphql', [GraphqlController, 'handle'])
+    router.get('/graphql/schema', [GraphqlController, 'schema'])
+  })
+  .prefix('/api')
+  .use(middleware.rateLimitApi())
+  .use(middleware.delivery())
+
+/**
+ * API Routes - Delivery tokens (Admin)
+ */
+const DeliveryTokensController = () => import('#controllers/delivery_tokens_controller')
+router
+  .group(() => {
+    router.get('/delivery-tokens', [DeliveryTokensController, 'index'])
+    router.post('/delivery-tokens', [DeliveryTokensController, 'store'])
+    router.delete('/delivery-tokens/:id', [DeliveryTokensController, 'destroy'])
+  })
+  .prefix('/api')
+  .use(middleware.auth())
+  .use(middleware.admin())
+
+/**
+ * API Routes - Personal API tokens (current user)
+ */
+const ApiTokensController = () => import('#controllers/api_tokens_controller')
+router
+  .group(() => {
+    router.get('/profile/tokens', [ApiTokensController, 'index'])
+    router.post('/profile/tokens', [ApiTokensController, 'store'])
+    router.delete('/profile/tokens/:id', [ApiTokensController, 'destroy'])
+  })
+  .prefix('/api')
+  .use(middleware.auth())
+
+/**
+ * API Routes - Service accounts (Admin)
+ */
+const ServiceAccountsController = () => import('#controllers/service_accounts_controller')
+router
+  .group(() => {
+    router.get('/service-accounts', [ServiceAccountsController, 'index'])
+    router.post('/service-accounts', [ServiceAccountsController, 'store'])
+    router.get('/service-accounts/:id/tokens', [ServiceAccountsController, 'tokens'])
+    router.post('/service-accounts/:id/tokens', [ServiceAccountsController, 'storeToken'])
+    router.delete('/service-accounts/:id/tokens/:tokenId', [
+      ServiceAccountsController,
+      'destroyToken',
+    ])
   })
   .prefix('/api')
+  .use(middleware.auth())
+  .use(middleware.admin())
 
 /**
  * API Routes - Webhooks (Admin)
@@ -396,10 +525,12 @@ const WebhooksController = () => import('#controllers/webhooks_controller')
 router
   .group(() => {
     router.get('/webhooks', [WebhooksController, 'index'])
+    router.get('/webhooks/events', [WebhooksController, 'events'])
     router.post('/webhooks', [WebhooksController, 'store'])
     router.put('/webhooks/:id', [WebhooksController, 'update'])
     router.delete('/webhooks/:id', [WebhooksController, 'destroy'])
     router.get('/webhooks/:id/deliveries', [WebhooksController, 'deliveries'])
+    router.post('/webhooks/:id/deliveries/:deliveryId/replay', [WebhooksController, 'replay'])
     router.post('/webhooks/:id/test', [WebhooksController, 'test'])
   })
   .prefix('/api')
@@ -424,6 +555,7 @@ router
  */
 const SecurityController = () => import('#controllers/security_controller')
 const PerformanceController = () => import('#controllers/performance_controller')
+const JobsController = () => import('#controllers/jobs_controller')
 router
   .group(() => {
     router.get('/security/sessions', [SecurityController, 'sessions'])
@@ -440,6 +572,11 @@ router
     router.post('/performance/cache/clear', [PerformanceController, 'clearCache'])
     router.post('/performance/temp/purge', [PerformanceController, 'purgeTemp'])
 
+    // Scheduled jobs (admin)
+    router.get('/jobs', [JobsController, 'list'])
+    router.get('/jobs/:id/runs', [JobsController, 'runs'])
+    router.post('/jobs/:id/run', [JobsController, 'run'])
+
     // Analytics (admin)
     router.get('/analytics/summary', [AnalyticsController, 'getSummary'])
     router.get('/analytics/heatmap', [AnalyticsController, 'getHeatmapData'])
@@ -548,6 +685,7 @@ router
 
 // Admin Forms (submissions) - editors allowed
 router.get(adminPath('forms'), [FormsAdminController, 'index']).use(middleware.auth())
+router.get(adminPath('forms/builder'), [FormsAdminController, 'builder']).use(middleware.auth())
 
 // Admin Menus - editors allowed
 router
@@ -596,6 +734,12 @@ router
   .use(middleware.auth())
   .use(middleware.admin())
 
+// Admin Scheduled Jobs
+router
+  .get(adminPath('jobs'), [JobsController, 'index'])
+  .use(middleware.auth())
+  .use(middleware.admin())
+
 // Admin Database (Export/Import and Optimize)
 const DatabaseAdminController = () => import('#controllers/database_admin_controller')
 router
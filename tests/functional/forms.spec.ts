@@ -0,0 +1,63 @@
+import { test } from '@japa/runner'
+import db from '@adonisjs/lucid/services/db'
+import redis from '@adonisjs/redis/services/main'
+import formRegistry from '#services/form_registry'
+
+const SLUG = 'rate-limit-step-test'
+
+test.group('Forms API | rate limit', (group) => {
+  const clearLimit = async () => {
+    const keys = await redis.keys(`ratelimit:rate:forms:${SLUG}:*`)
+    if (keys.length > 0) await redis.del(...keys)
+  }
+
+  group.setup(() => {
+    formRegistry.register({
+      slug: SLUG,
+      title: 'Rate limit test',
+      fields: [{ slug: 'name', label: 'Name', type: 'text', required: true }],
+      spamProtection: {
+        honeypot: false,
+        minFillSeconds: 0,
+        challenge: false,
+        rateLimit: { requests: 1, window: 60 },
+      },
+    })
+  })
+
+  group.each.setup(clearLimit)
+
+  group.each.teardown(async () => {
+    await clearLimit()
+    await db.from('form_submissions').where('form_slug', SLUG).delete()
+  })
+
+  test('should validate a step without counting it', async ({ client }) => {
+    const valid = await client.post(`/api/forms/${SLUG}?step=0`).json({ name: 'Ada' })
+    valid.assertStatus(200)
+    valid.assertBodyContains({ data: { valid: true } })
+
+    const again = await client.post(`/api/forms/${SLUG}?step=0`).json({ name: 'Ada' })
+    again.assertStatus(200)
+  })
+
+  test('should count an empty step and not store it as a submission', async ({
+    client,
+    assert,
+  }) => {
+    const first = await client.post(`/api/forms/${SLUG}`).json({ name: 'Ada' })
+    first.assertStatus(200)
+
+    const empty = await client.post(`/api/forms/${SLUG}?step=`).json({ name: 'Ada' })
+    empty.assertStatus(429)
+
+    const stored = await db.from('form_submissions').where('form_slug', SLUG).count('* as total')
+    assert.equal(Number(stored[0].total), 1)
+  })
+
+  test('should reject a step that is not a step number', async ({ client }) => {
+    const response = await client.post(`/api/forms/${SLUG}?step=`).json({ name: 'Ada' })
+    response.assertStatus(400)
+    response.assertBodyContains({ error: 'Invalid step' })
+  })
+})
@@ -0,0 +1,73 @@
+import { test } from '@japa/runner'
+import { cronMatches, nextCronOccurrence, parseCron } from '#helpers/cron'
+import jobRegistry from '#services/job_registry'
+
+test.group('Cron expressions', () => {
+  test('should parse steps, ranges and lists', ({ assert }) => {
+    const schedule = parseCron('*/15 9-17 * * 1,3,5')
+    assert.deepEqual([...schedule.minutes], [0, 15, 30, 45])
+    assert.deepEqual([...schedule.hours], [9, 10, 11, 12, 13, 14, 15, 16, 17])
+    assert.deepEqual([...schedule.daysOfWeek], [1, 3, 5])
+  })
+
+  test('should reject invalid expressions', ({ assert }) => {
+    assert.throws(() => parseCron('* * * *'))
+    assert.throws(() => parseCron('60 * * * *'))
+    assert.throws(() => parseCron('*/0 * * * *'))
+  })
+
+  test('should match a minute against the schedule', ({ assert }) => {
+    assert.isTrue(cronMatches('30 3 * * *', new Date(2026, 0, 5, 3, 30, 42)))
+    assert.isFalse(cronMatches('30 3 * * *', new Date(2026, 0, 5, 3, 31)))
+    // Sunday can be written as 0 or 7
+    assert.isTrue(cronMatches('@weekly', new Date(2026, 0, 4, 0, 0)))
+    assert.isTrue(cronMatches('0 0 * * 7', new Date(2026, 0, 4, 0, 0)))
+  })
+
+  test('should OR day-of-month and day-of-week when both are restricted', ({ assert }) => {
+    // 2026-01-01 is a Thursday
+    assert.isTrue(cronMatches('0 0 1 * 1', new Date(2026, 0, 1, 0, 0)))
+    assert.isTrue(cronMatches('0 0 1 * 1', new Date(2026, 0, 5, 0, 0)))
+    assert.isFalse(cronMatches('0 0 1 * 1', new Date(2026, 0, 6, 0, 0)))
+  })
+
+  test('should find the next occurrence', ({ assert }) => {
+    const from = new Date(2026, 0, 5, 3, 30, 10)
+    assert.equal(
+      nextCronOccurrence('30 3 * * *', from)?.getTime(),
+      new Date(2026, 0, 6, 3, 30).getTime()
+    )
+    assert.equal(
+      nextCronOccurrence('*/15 * * * *', from)?.getTime(),
+      new Date(2026, 0, 5, 3, 45).getTime()
+    )
+    assert.equal(
+      nextCronOccurrence('@monthly', from)?.getTime(),
+      new Date(2026, 1, 1, 0, 0).getTime()
+    )
+  })
+})
+
+test.group('Job registry', (group) => {
+  group.each.teardown(() => {
+    jobRegistry.clear()
+  })
+
+  test('should reject jobs with an invalid schedule', ({ assert }) => {
+    assert.throws(
+      () =>
+        jobRegistry.register({
+          id: 'broken',
+          name: 'Broken',
+          schedule: 'every day',
+          handler: async () => {},
+        }),
+      /invalid schedule/
+    )
+  })
+
+  test('should default jobs to enabled', ({ assert }) => {
+    jobRegistry.register({ id: 'noop', name: 'Noop', schedule: '@hourly', handler: async () => {} })
+    assert.lengthOf(jobRegistry.listEnabled(), 1)
+  })
+})
@@ -1,7 +1,7 @@
 import { test } from '@japa/runner'
 import db from '@adonisjs/lucid/services/db'
 import Post from '#models/post'
-import localeService from '#services/locale_service'
+import localeService, { normalizeHostname, resolveFallbackChain } from '#services/locale_service'
 import {
   generateHreflangTags,
   buildLocaleSwitcher,
@@ -42,6 +42,28 @@ test.group('i18n - Locale Service', () => {
   })
 })
 
+test.group('i18n - Fallback Chains', () => {
+  test('should follow configured fallbacks and end with the default locale', ({ assert }) => {
+    const chain = resolveFallbackChain('fr-CA', { 'fr-ca': ['fr'], 'fr': [] }, 'en')
+    assert.deepEqual(chain, ['fr-ca', 'fr', 'en'])
+  })
+
+  test('should prefer a locale own fallbacks over transitive ones', ({ assert }) => {
+    const chain = resolveFallbackChain('fr-ca', { 'fr-ca': ['fr', 'es'], 'fr': ['it'] }, 'en')
+    assert.deepEqual(chain, ['fr-ca', 'fr', 'es', 'it', 'en'])
+  })
+
+  test('should ignore cycles and duplicate defaults', ({ assert }) => {
+    const chain = resolveFallbackChain('de', { de: ['en', 'at'], at: ['de'] }, 'en')
+    assert.deepEqual(chain, ['de', 'en', 'at'])
+  })
+
+  test('should normalize hostnames', ({ assert }) => {
+    assert.equal(normalizeHostname(' Example.FR:443 '), 'example.fr')
+    assert.equal(normalizeHostname('example.ca.'), 'example.ca')
+  })
+})
+
 test.group('i18n - Post Model', (group) => {
   group.each.setup(async () => {
     await db.beginGlobalTransaction()
@@ -0,0 +1,36 @@
+import { test } from '@japa/runner'
+import { hasAmbiguousRepeat } from '#helpers/regex_safety'
+
+test.group('Regex safety', () => {
+  test('should detect nested quantifiers and repeated alternatives', ({ assert }) => {
+    for (const unsafe of [
+      '(a+)+b',
+      '/(\\w*\\.)*x',
+      '/(?:[a-z]+/)*end',
+      '/((ab)*)+',
+      '/(a{2,})*',
+      '/((a+)?)*',
+      '(a|a)+x',
+      '(a|aa)+x',
+      '(\\w|\\d)+!',
+      '/(?:x(a|b))*',
+      '/(a|b)+',
+    ]) {
+      assert.isTrue(hasAmbiguousRepeat(unsafe), unsafe)
+    }
+    for (const safe of [
+      '/blog/(\\d+)-(.*)',
+      '/(a|b)?',
+      '/(en|de)/(.*)',
+      '/[a|b]+',
+      '/a\\|b+',
+      '/(a+)?',
+      '/(ab){2}',
+      '/[(+)]+',
+      '/\\(a+\\)+',
+      '/(?<slug>[a-z-]+)/(\\d+)',
+    ]) {
+      assert.isFalse(hasAmbiguousRepeat(safe), safe)
+    }
+  })
+})
@@ -1,6 +1,6 @@
 import { test } from '@japa/runner'
 import db from '@adonisjs/lucid/services/db'
-import { publishDueScheduledPosts } from '../../start/scheduler.js'
+import { publishDueScheduledPosts, unpublishExpiredPosts } from '../../start/scheduler.js'
 
 test.group('Scheduler publish', (group) => {
   group.each.setup(async () => {
@@ -18,7 +18,7 @@ test.group('Scheduler publish', (group) => {
     }
   })
   group.each.teardown(async () => {
-    await db.from('posts').where('slug', 'sched-test').delete()
+    await db.from('posts').whereIn('slug', ['sched-test', 'expire-test']).delete()
   })
 
   test('publishes due scheduled posts', async ({ assert }) => {
@@ -50,4 +50,33 @@ test.group('Scheduler publish', (group) => {
       .first()
     assert.equal((row as any).status, 'published')
   })
+
+  test('archives published posts past their unpublish date', async ({ assert }) => {
+    const user = await db.from('users').where('email', 'scheduler@test.local').first()
+    const now = new Date()
+    const [post] = await db
+      .table('posts')
+      .insert({
+        type: 'blog',
+        slug: 'expire-test',
+        title: 'Expiring Promo',
+        status: 'published',
+        locale: 'en',
+        user_id: (user as any).id,
+        author_id: (user as any).id,
+        order_index: 0,
+        published_at: new Date(now.getTime() - 60_000),
+        unpublish_at: now,
+        created_at: now,
+        updated_at: now,
+      })
+      .returning('*')
+    await unpublishExpiredPosts()
+    const row = await db
+      .from('posts')
+      .where('id', (post as any).id)
+      .first()
+    assert.equal((row as any).status, 'archived')
+    assert.isNull((row as any).unpublish_at)
+  })
 })
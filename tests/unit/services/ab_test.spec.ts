@@ -0,0 +1,316 @@
+import { test } from '@japa/runner'
+import { randomUUID } from 'node:crypto'
+import db from '@adonisjs/lucid/services/db'
+import { UserFactory, PostFactory } from '#database/factories'
+import analyticsService, { addDays, toDay } from '#services/analytics_service'
+import abTestService, {
+  DEFAULT_AB_SETTINGS,
+  decideWinner,
+  normalizeAbSettings,
+  parseGoalSelector,
+  probabilityToBeat,
+  wilsonInterval,
+} from '#services/ab_test_service'
+
+test.group('A/B tests | statistics', () => {
+  test('should compute Wilson intervals', ({ assert }) => {
+    const { low, high } = wilsonInterval(10, 100)
+    assert.closeTo(low, 0.0552, 0.001)
+    assert.closeTo(high, 0.1744, 0.001)
+    assert.deepEqual(wilsonInterval(0, 0), { low: 0, high: 0 })
+  })
+
+  test('should compute the probability to beat the baseline', ({ assert }) => {
+    assert.closeTo(
+      probabilityToBeat({ views: 100, conversions: 10 }, { views: 100, conversions: 10 }),
+      0.5,
+      0.01
+    )
+    assert.isAbove(
+      probabilityToBeat({ views: 1000, conversions: 100 }, { views: 1000, conversions: 140 }),
+      0.99
+    )
+    assert.isBelow(
+      probabilityToBeat({ views: 1000, conversions: 140 }, { views: 1000, conversions: 100 }),
+      0.01
+    )
+    // Exact sum below 5000 conversions, normal approximation above; both match z-scores
+    const exact = probabilityToBeat(
+      { views: 40000, conversions: 4000 },
+      { views: 40000, conversions: 4090 }
+    )
+    const approx = probabilityToBeat(
+      { views: 60000, conversions: 6000 },
+      { views: 60000, conversions: 6135 }
+    )
+    assert.closeTo(exact, 0.855, 0.005)
+    assert.closeTo(approx, 0.903, 0.005)
+  })
+
+  test('should only declare a winner past the minimum sample and threshold', ({ assert }) => {
+    const settings = { minViews: 500, threshold: 0.95 }
+
+    assert.deepEqual(
+      decideWinner(
+        [
+          { label: 'A', views: 400, conversions: 10 },
+          { label: 'B', views: 400, conversions: 90 },
+        ],
+        settings
+      ),
+      { status: 'insufficient_data', minViews: 500 }
+    )
+
+    const challenger = decideWinner(
+      [
+        { label: 'A', views: 1000, conversions: 100 },
+        { label: 'B', views: 1000, conversions: 150 },
+        { label: 'C', views: 1000, conversions: 105 },
+      ],
+      settings
+    )
+    assert.equal(challenger.status, 'winner')
+    assert.equal((challenger as any).winner, 'B')
+
+    const baseline = decideWinner(
+      [
+        { label: 'A', views: 1000, conversions: 150 },
+        { label: 'B', views: 1000, conversions: 100 },
+      ],
+      settings
+    )
+    assert.equal((baseline as any).winner, 'A')
+
+    assert.deepEqual(
+      decideWinner(
+        [
+          { label: 'A', views: 1000, conversions: 100 },
+          { label: 'B', views: 1000, conversions: 104 },
+        ],
+        settings
+      ),
+      { status: 'no_winner' }
+    )
+  })
+
+  test('should normalize settings', ({ assert }) => {
+    const settings = normalizeAbSettings({
+      goalType: 'click',
+      goalSelector: '  a.cta ',
+      minViews: '250',
+      threshold: 2,
+      autoPromote: true,
+    })
+    assert.equal(settings.goalType, 'click')
+    assert.equal(settings.goalSelector, 'a.cta')
+    assert.equal(settings.minViews, 250)
+    assert.equal(settings.threshold, DEFAULT_AB_SETTINGS.threshold)
+    assert.isTrue(settings.autoPromote)
+
+    assert.throws(() => normalizeAbSettings({ goalType: 'url_visit' }), /target URL/)
+  })
+
+  test('should parse click goal selectors for one element', ({ assert }) => {
+    assert.deepEqual(parseGoalSelector('a.btn-primary'), {
+      tag: 'a',
+      id: null,
+      classes: ['btn-primary'],
+    })
+    assert.deepEqual(parseGoalSelector('#signup.large'), {
+      tag: null,
+      id: 'signup',
+      classes: ['large'],
+    })
+    assert.isNull(parseGoalSelector('nav a'))
+    assert.isNull(parseGoalSelector('a[href]'))
+    assert.isNull(parseGoalSelector('#one#two'))
+    assert.throws(
+      () => normalizeAbSettings({ goalType: 'click', goalSelector: '.cta > a' }),
+      /one element/
+    )
+  })
+})
+
+test.group('A/B tests | raw event retention', (group) => {
+  let userId: number | null = null
+
+  group.each.teardown(async () => {
+    if (userId === null) return
+    // Events and rollups are deleted with their posts
+    const posts = db.from('posts').where('user_id', userId).select('id')
+    await db.from('ab_test_settings').whereIn('ab_group_id', posts).delete()
+    await db.from('posts').where('user_id', userId).delete()
+    await db.from('users').where('id', userId).delete()
+    userId = null
+  })
+
+  test('should keep conversions of running tests when pruning raw events', async ({ assert }) => {
+    const user = await UserFactory.create()
+    userId = user.id
+    const owner = { userId: user.id, authorId: user.id }
+    const baseline = await PostFactory.merge(owner).create()
+    baseline.abGroupId = baseline.id
+    baseline.abVariation = 'A'
+    await baseline.save()
+    const challenger = await PostFactory.merge({
+      ...owner,
+      abGroupId: baseline.id,
+      abVariation: 'B',
+    }).create()
+    const unrelated = await PostFactory.merge(owner).create()
+    const settings = await abTestService.saveSettings(baseline.id, { goalType: 'click' }, null)
+
+    const old = new Date(Date.now() - 200 * 24 * 60 * 60 * 1000)
+    await db.table('analytics_events').multiInsert([
+      { post_id: baseline.id, event_type: 'click', created_at: old },
+      { post_id: challenger.id, event_type: 'click', created_at: old },
+      { post_id: challenger.id, event_type: 'click', created_at: old },
+      { post_id: unrelated.id, event_type: 'click', created_at: old },
+    ])
+    // Pruning only starts once a day is rolled up
+    const yesterday = addDays(toDay(new Date()), -1)
+    await db.table('analytics_events').insert({
+      post_id: unrelated.id,
+      event_type: 'view',
+      created_at: new Date(`${yesterday}T12:00:00.000Z`),
+    })
+    await analyticsService.rollupDay(yesterday)
+
+    const before = await abTestService.countConversions(baseline.id, settings)
+    assert.deepEqual(before, { A: 1, B: 2 })
+
+    await analyticsService.pruneRawEvents(90)
+    assert.deepEqual(await abTestService.countConversions(baseline.id, settings), before)
+    const unrelatedClicks = await db
+      .from('analytics_events')
+      .where('post_id', unrelated.id)
+      .where('event_type', 'click')
+    assert.lengthOf(unrelatedClicks, 0)
+
+    // Once a winner is promoted the events age out like any other
+    await db
+      .from('ab_test_settings')
+      .where('ab_group_id', baseline.id)
+      .update({ promoted_at: new Date() })
+    await analyticsService.pruneRawEvents(90)
+    assert.deepEqual(await abTestService.countConversions(baseline.id, settings), {})
+  })
+
+  test('should prune ordinary events while a url_visit test is running', async ({ assert }) => {
+    const user = await UserFactory.create()
+    userId = user.id
+    const owner = { userId: user.id, authorId: user.id }
+    const baseline = await PostFactory.merge(owner).create()
+    baseline.abGroupId = baseline.id
+    baseline.abVariation = 'A'
+    await baseline.save()
+    const unrelated = await PostFactory.merge(owner).create()
+    const settings = await abTestService.saveSettings(
+      baseline.id,
+      { goalType: 'url_visit', goalUrl: '/thanks' },
+      null
+    )
+
+    const old = new Date(Date.now() - 200 * 24 * 60 * 60 * 1000)
+    await db.table('analytics_events').multiInsert([
+      {
+        post_id: unrelated.id,
+        event_type: 'view',
+        metadata: JSON.stringify({ path: '/thanks', fromPostId: baseline.id }),
+        created_at: old,
+      },
+      {
+        post_id: unrelated.id,
+        event_type: 'view',
+        metadata: JSON.stringify({ path: '/about' }),
+        created_at: old,
+      },
+      { post_id: null, event_type: 'click', created_at: old },
+    ])
+    const yesterday = addDays(toDay(new Date()), -1)
+    await db.table('analytics_events').insert({
+      post_id: unrelated.id,
+      event_type: 'view',
+      created_at: new Date(`${yesterday}T12:00:00.000Z`),
+    })
+    await analyticsService.rollupDay(yesterday)
+
+    await analyticsService.pruneRawEvents(90)
+
+    assert.deepEqual(await abTestService.countConversions(baseline.id, settings), { A: 1 })
+    // Only the goal view survives; the view without fromPostId and the click without a post go
+    const remaining = await db.from('analytics_events').where('created_at', '<=', old)
+    assert.lengthOf(remaining, 1)
+    assert.equal(remaining[0].metadata.path, '/thanks')
+  })
+})
+
+test.group('A/B tests | conversion goals', (group) => {
+  let userId: number | null = null
+
+  group.each.teardown(async () => {
+    if (userId === null) return
+    const posts = db.from('posts').where('user_id', userId).select('id')
+    await db.from('ab_test_settings').whereIn('ab_group_id', posts).delete()
+    await db.from('form_submissions').whereIn('ab_group_id', posts).delete()
+    await db.from('posts').where('user_id', userId).delete()
+    await db.from('users').where('id', userId).delete()
+    userId = null
+  })
+
+  test('should not count spam submissions as conversions', async ({ assert }) => {
+    const user = await UserFactory.create()
+    userId = user.id
+    const baseline = await PostFactory.merge({ userId: user.id, authorId: user.id }).create()
+    baseline.abGroupId = baseline.id
+    baseline.abVariation = 'A'
+    await baseline.save()
+    const settings = await abTestService.getSettings(baseline.id)
+
+    const submission = (abVariation: string, status: string) => ({
+      id: randomUUID(),
+      form_slug: 'contact',
+      payload: JSON.stringify({}),
+      ab_group_id: baseline.id,
+      ab_variation: abVariation,
+      status,
+    })
+    await db
+      .table('form_submissions')
+      .multiInsert([submission('A', 'new'), submission('B', 'spam'), submission('B', 'spam')])
+
+    assert.deepEqual(await abTestService.countConversions(baseline.id, settings), { A: 1 })
+  })
+
+  test('should count clicks on the goal button from the UI example', async ({ assert }) => {
+    const user = await UserFactory.create()
+    userId = user.id
+    const baseline = await PostFactory.merge({ userId: user.id, authorId: user.id }).create()
+    baseline.abGroupId = baseline.id
+    baseline.abVariation = 'A'
+    await baseline.save()
+    const settings = await abTestService.saveSettings(
+      baseline.id,
+      { goalType: 'click', goalSelector: 'a.btn-primary' },
+      null
+    )
+
+    // What the tracker records for a click on <a class="btn btn-primary"><span>Go</span></a>
+    const click = (element: Record<string, any>) => ({
+      post_id: baseline.id,
+      event_type: 'click',
+      metadata: JSON.stringify({ selector: 'a.btn.btn-primary', element }),
+      created_at: new Date(),
+    })
+    await db
+      .table('analytics_events')
+      .multiInsert([
+        click({ tag: 'a', id: null, classes: ['btn', 'btn-primary'] }),
+        click({ tag: 'a', id: 'hero-cta', classes: ['btn-primary', 'large'] }),
+        click({ tag: 'a', id: null, classes: ['btn', 'btn-secondary'] }),
+        click({ tag: 'button', id: null, classes: ['btn-primary'] }),
+      ])
+
+    assert.deepEqual(await abTestService.countConversions(baseline.id, settings), { A: 2 })
+  })
+})
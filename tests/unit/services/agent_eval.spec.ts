@@ -0,0 +1,127 @@
+import { test } from '@japa/runner'
+import app from '@adonisjs/core/services/app'
+import agentRegistry from '#services/agent_registry'
+import agentEvalService, {
+  findUntranslated,
+  runAssertions,
+  type EvalFixture,
+  type EvalOutcome,
+} from '#services/agent_eval_service'
+import { registerAgents } from '#start/agents'
+
+const SUITE = app.makePath('tests/agent_evals')
+
+function outcome(overrides: Partial<EvalOutcome> = {}): EvalOutcome {
+  return { success: true, error: null, post: {}, modules: [], toolCalls: [], ...overrides }
+}
+
+test.group('Agent eval | recorded fixtures', (group) => {
+  group.setup(async () => {
+    // The bundled fixtures run against the app's agents; other suites may clear the registry
+    await registerAgents()
+  })
+
+  test('should pass the bundled fixtures without a provider or database', async ({ assert }) => {
+    const fixtures = await agentEvalService.loadSuite(SUITE)
+    assert.isAbove(fixtures.length, 1)
+
+    for (const fixture of fixtures) {
+      const agent = agentRegistry.get(fixture.agent)
+      assert.exists(agent, `agent ${fixture.agent} is registered`)
+      if (!agent) continue
+
+      const { result, outcome: run } = await agentEvalService.runFixture(fixture, agent)
+      assert.isTrue(result.passed, `${fixture.name}: ${JSON.stringify(result.assertions)}`)
+      assert.equal(run.toolCalls[0].tool, 'get_post_context')
+    }
+  })
+
+  test('should fail when a recorded response is missing', async ({ assert }) => {
+    const [fixture] = await agentEvalService.loadSuite(SUITE, 'seo-specialist')
+    const agent = agentRegistry.get('seo-specialist')
+    assert.exists(agent)
+    if (!agent) return
+
+    const { result } = await agentEvalService.runFixture({ ...fixture, responses: [] }, agent)
+    assert.isFalse(result.passed)
+    assert.include(result.error, 'No recorded response for turn 1')
+  })
+})
+
+test.group('Agent eval | assertions', () => {
+  const context = {
+    metadata: { version: '2.0.0', exportedAt: '2026-01-01T00:00:00.000Z' },
+    post: {
+      id: 'p1',
+      type: 'page',
+      locale: 'fr',
+      slug: 'about',
+      title: 'About our company',
+      status: 'draft' as const,
+    },
+    modules: [
+      {
+        postModuleId: 'm1',
+        moduleInstanceId: 'i1',
+        type: 'hero',
+        scope: 'local' as const,
+        orderIndex: 0,
+        props: { subtitle: 'We build publishing tools' },
+      },
+    ],
+  }
+
+  function fixture(assertions: EvalFixture['assertions']): EvalFixture {
+    return { name: 'test', agent: 'seo-specialist', context, responses: [], assertions }
+  }
+
+  test('should check meta lengths and JSON-LD keys', async ({ assert }) => {
+    const results = await runAssertions(
+      fixture([
+        { type: 'metaTitleLength', max: 20 },
+        { type: 'metaDescriptionLength', min: 10 },
+        { type: 'jsonLdKeys', keys: ['@context', '@type', 'headline'] },
+      ]),
+      outcome({
+        post: {
+          metaTitle: 'A meta title that is far too long',
+          jsonldOverrides: '{"@context":"https://schema.org","@graph":[{"@type":"Article"}]}',
+        },
+      })
+    )
+
+    assert.deepEqual(
+      results.map((r) => [r.type, r.passed]),
+      [
+        ['metaTitleLength', false],
+        ['metaDescriptionLength', false],
+        ['jsonLdKeys', false],
+      ]
+    )
+    assert.equal(results[2].message, 'JSON-LD is missing headline')
+  })
+
+  test('should validate save_post_ai_review payloads', async ({ assert }) => {
+    const [result] = await runAssertions(
+      fixture([{ type: 'reviewPayloadSchema' }]),
+      outcome({
+        toolCalls: [
+          { tool: 'save_post_ai_review', params: { postId: 'p1', patch: { slug: 'Not A Slug' } } },
+        ],
+      })
+    )
+    assert.isFalse(result.passed)
+    assert.include(result.message, 'slug')
+  })
+
+  test('should report strings left in the source language', ({ assert }) => {
+    const untranslated = findUntranslated(
+      context,
+      outcome({
+        post: { title: 'À propos de notre entreprise' },
+        modules: [{ postModuleId: 'm1', props: { subtitle: 'We build publishing tools' } }],
+      })
+    )
+    assert.deepEqual(untranslated, ['We build publishing tools'])
+  })
+})
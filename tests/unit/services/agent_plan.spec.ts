@@ -0,0 +1,95 @@
+import { test } from '@japa/runner'
+import { DateTime } from 'luxon'
+import {
+  MAX_PLAN_STEPS,
+  PLAN_STALE_SECONDS,
+  applyStepEdits,
+  buildStepPrompt,
+  isStalePlan,
+  parsePlanSteps,
+} from '#services/agent_plan_service'
+import { requiredScopeFor } from '#services/api_token_service'
+
+test.group('Agent plans | steps', () => {
+  test('should read planning responses and cap the number of steps', ({ assert }) => {
+    const steps = parsePlanSteps({
+      steps: [
+        { title: 'Rewrite the hero', instructions: 'Make the headline shorter' },
+        { name: 'SEO', description: 'Write a meta description' },
+        'Add an FAQ module',
+        { title: '', instructions: '' },
+      ],
+    })
+    assert.deepEqual(
+      steps.map((s) => [s.title, s.instructions, s.status]),
+      [
+        ['Rewrite the hero', 'Make the headline shorter', 'pending'],
+        ['SEO', 'Write a meta description', 'pending'],
+        ['Add an FAQ module', 'Add an FAQ module', 'pending'],
+      ]
+    )
+
+    const many = parsePlanSteps({ steps: Array.from({ length: 20 }, (_, i) => `Step ${i}`) })
+    assert.lengthOf(many, MAX_PLAN_STEPS)
+    assert.deepEqual(parsePlanSteps({ summary: 'No plan' }), [])
+  })
+
+  test('should apply editor edits, reorders and drops', ({ assert }) => {
+    const [a, b, c] = parsePlanSteps({ steps: ['First', 'Second', 'Third'] })
+
+    const steps = applyStepEdits(
+      [a, b, c],
+      [
+        { id: c.id, title: 'Third', instructions: 'Do the third thing carefully' },
+        { id: a.id, skip: true },
+        { title: 'New step', instructions: 'Added by the editor' },
+      ]
+    )
+    assert.deepEqual(
+      steps.map((s) => [s.title, s.status]),
+      [
+        ['Third', 'pending'],
+        ['First', 'skipped'],
+        ['New step', 'pending'],
+        ['Second', 'skipped'],
+      ]
+    )
+    assert.equal(steps[0].instructions, 'Do the third thing carefully')
+    assert.throws(() => applyStepEdits([a], [{ id: 'missing' }]), 'Unknown step: missing')
+  })
+
+  test('should give each step the goal and earlier summaries', ({ assert }) => {
+    const steps = parsePlanSteps({ steps: ['Hero copy', 'Meta tags', 'FAQ'] })
+    steps[0] = { ...steps[0], status: 'completed', summary: 'Shortened the headline' }
+    steps[1] = { ...steps[1], status: 'skipped' }
+
+    const prompt = buildStepPrompt('Refresh the landing page', steps, 2)
+    assert.include(prompt, 'Overall goal: Refresh the landing page')
+    assert.include(prompt, '- Hero copy: Shortened the headline')
+    assert.notInclude(prompt, 'Meta tags')
+    assert.include(prompt, 'Current step (3 of 3): FAQ')
+  })
+
+  test('should only treat running plans without a recent heartbeat as stale', ({ assert }) => {
+    const now = new Date('2026-03-01T12:00:00Z')
+    const old = DateTime.fromJSDate(now).minus({ seconds: PLAN_STALE_SECONDS + 1 })
+    const recent = DateTime.fromJSDate(now).minus({ seconds: 30 })
+
+    assert.isTrue(isStalePlan({ status: 'running', updatedAt: old }, now))
+    assert.isFalse(isStalePlan({ status: 'running', updatedAt: recent }, now))
+    assert.isFalse(isStalePlan({ status: 'failed', updatedAt: old }, now))
+    assert.isFalse(isStalePlan({ status: 'completed', updatedAt: old }, now))
+  })
+
+  test('should require agents.edit for plan routes', ({ assert }) => {
+    assert.equal(requiredScopeFor('GET', '/api/posts/abc/agents/seo/plans'), 'agents.edit')
+    assert.equal(requiredScopeFor('POST', '/api/posts/abc/agents/seo/plan'), 'agents.edit')
+    assert.equal(requiredScopeFor('GET', '/api/agent-plans/abc'), 'agents.edit')
+    assert.equal(requiredScopeFor('PUT', '/api/agent-plans/abc'), 'agents.edit')
+    assert.equal(requiredScopeFor('POST', '/api/agent-plans/abc/approve'), 'agents.edit')
+    assert.equal(requiredScopeFor('POST', '/api/agent-plans/abc/cancel'), 'agents.edit')
+    // Other agent routes keep their scopes
+    assert.equal(requiredScopeFor('GET', '/api/posts/abc/agents/seo/history'), 'agents.view')
+    assert.equal(requiredScopeFor('POST', '/api/posts/abc/agents/seo/run'), 'agents.global')
+  })
+})
@@ -0,0 +1,129 @@
+import { test } from '@japa/runner'
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import aiProviderService, { providerApiKeyEnv } from '#services/ai_provider_service'
+
+/**
+ * Minimal OpenAI-compatible server: lists two models and answers chat
+ * completions with a tool call when tools are offered (or a 400 when the
+ * `rejectTools` model is used, like servers without function calling).
+ */
+function startStubServer(requests: any[]): Promise<{ server: Server; baseUrl: string }> {
+  const server = createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => (body += chunk))
+    req.on('end', () => {
+      res.setHeader('Content-Type', 'application/json')
+      if (req.method === 'GET' && req.url === '/v1/models') {
+        res.end(JSON.stringify({ object: 'list', data: [{ id: 'qwen2.5' }, { id: 'llama3.1' }] }))
+        return
+      }
+      if (req.method === 'POST' && req.url === '/v1/chat/completions') {
+        const payload = JSON.parse(body || '{}')
+        requests.push(payload)
+        if (payload.tools && payload.model === 'rejectTools') {
+          res.statusCode = 400
+          res.end(JSON.stringify({ error: { message: 'tools are not supported' } }))
+          return
+        }
+        const message = payload.tools
+          ? {
+              role: 'assistant',
+              content: null,
+              tool_calls: [
+                {
+                  id: 'call_1',
+                  type: 'function',
+                  function: { name: 'get_post_context', arguments: '{"postId":"p1"}' },
+                },
+              ],
+            }
+          : { role: 'assistant', content: '{"summary":"done"}' }
+        res.end(
+          JSON.stringify({
+            id: 'cmpl-1',
+            object: 'chat.completion',
+            created: 0,
+            model: payload.model,
+            choices: [{ index: 0, message, finish_reason: payload.tools ? 'tool_calls' : 'stop' }],
+            usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+          })
+        )
+        return
+      }
+      res.statusCode = 404
+      res.end('{}')
+    })
+  })
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo
+      resolve({ server, baseUrl: `http://127.0.0.1:${port}/v1` })
+    })
+  })
+}
+
+test.group('AI provider | openai-compatible', (group) => {
+  const requests: any[] = []
+  let server: Server
+  let baseUrl: string
+
+  group.setup(async () => {
+    ;({ server, baseUrl } = await startStubServer(requests))
+    return () => new Promise<void>((resolve) => server.close(() => resolve()))
+  })
+
+  group.each.setup(() => {
+    requests.length = 0
+  })
+
+  test('should list models from the /models endpoint', async ({ assert }) => {
+    const models = await aiProviderService.listModels('openai-compatible', undefined, baseUrl)
+    assert.deepEqual(models, ['llama3.1', 'qwen2.5'])
+    assert.isTrue(aiProviderService.hasCapability('openai-compatible', 'llama3.1', 'text'))
+  })
+
+  test('should return native tool calls in the agent JSON format', async ({ assert }) => {
+    const result = await aiProviderService.complete(
+      [{ role: 'user', content: 'Edit the post' }],
+      { tools: [{ name: 'get_post_context', description: 'Get full post context' }] },
+      { provider: 'openai-compatible', apiKey: '', model: 'qwen2.5', baseUrl }
+    )
+
+    assert.deepEqual(result.toolCalls, [{ tool: 'get_post_context', params: { postId: 'p1' } }])
+    assert.deepEqual(JSON.parse(result.content), {
+      tool_calls: [{ tool: 'get_post_context', params: { postId: 'p1' } }],
+    })
+    assert.equal(result.usage?.totalTokens, 15)
+    assert.equal(requests[0].tools[0].function.name, 'get_post_context')
+  })
+
+  test('should retry without tools when the server rejects them', async ({ assert }) => {
+    const result = await aiProviderService.complete(
+      [{ role: 'user', content: 'Edit the post' }],
+      { tools: [{ name: 'get_post_context', description: 'Get full post context' }] },
+      { provider: 'openai-compatible', apiKey: '', model: 'rejectTools', baseUrl }
+    )
+
+    assert.equal(result.content, '{"summary":"done"}')
+    assert.lengthOf(requests, 2)
+    assert.notProperty(requests[1], 'tools')
+  })
+
+  test('should require a base URL instead of an API key', ({ assert }) => {
+    assert.doesNotThrow(() =>
+      aiProviderService.validateConfig({
+        provider: 'openai-compatible',
+        apiKey: '',
+        model: 'qwen2.5',
+        baseUrl,
+      })
+    )
+    assert.throws(
+      () =>
+        aiProviderService.validateConfig({ provider: 'openai-compatible', apiKey: '', model: 'x' }),
+      /Base URL is required/
+    )
+    assert.equal(providerApiKeyEnv('openai-compatible'), 'AI_PROVIDER_OPENAI_COMPATIBLE_API_KEY')
+  })
+})
@@ -0,0 +1,112 @@
+import { test } from '@japa/runner'
+import db from '@adonisjs/lucid/services/db'
+import agentExecutor from '#services/agent_executor'
+import aiUsageService, {
+  AIBudgetExceededException,
+  DEFAULT_AI_PRICING,
+  estimateCost,
+  findPrice,
+  normalizePricing,
+} from '#services/ai_usage_service'
+import type { AgentDefinition } from '#types/agent_types'
+
+test.group('AI usage | pricing', () => {
+  test('should use the first matching price, with wildcards', ({ assert }) => {
+    assert.equal(findPrice(DEFAULT_AI_PRICING, 'openai', 'gpt-4o-mini')?.inputPerMillion, 0.15)
+    assert.equal(findPrice(DEFAULT_AI_PRICING, 'openai', 'gpt-4o-2024-08-06')?.inputPerMillion, 2.5)
+    assert.equal(findPrice(DEFAULT_AI_PRICING, 'google', 'gemini-2.5-flash')?.inputPerMillion, 0.3)
+    assert.isNull(findPrice(DEFAULT_AI_PRICING, 'openai', 'unknown-model'))
+  })
+
+  test('should estimate text, image and video costs', ({ assert }) => {
+    const pricing = [
+      { provider: 'openai', model: 'gpt-4o', inputPerMillion: 2.5, outputPerMillion: 10 },
+      { provider: 'openai', model: 'dall-e-3', perImage: 0.04 },
+      { provider: 'google', model: 'veo-*', perVideo: 2.5 },
+    ]
+
+    const text = estimateCost(pricing, {
+      provider: 'openai',
+      model: 'gpt-4o',
+      kind: 'text',
+      promptTokens: 1_000_000,
+      completionTokens: 500_000,
+    })
+    assert.closeTo(text, 7.5, 1e-9)
+    assert.equal(
+      estimateCost(pricing, { provider: 'openai', model: 'dall-e-3', kind: 'image', units: 2 }),
+      0.08
+    )
+    assert.equal(
+      estimateCost(pricing, { provider: 'google', model: 'veo-2', kind: 'video', units: 1 }),
+      2.5
+    )
+    assert.equal(
+      estimateCost(pricing, { provider: 'anthropic', model: 'x', kind: 'text', promptTokens: 10 }),
+      0
+    )
+  })
+
+  test('should drop malformed price rows', ({ assert }) => {
+    const pricing = normalizePricing([
+      { provider: ' openai ', model: 'gpt-4o', inputPerMillion: '2.5', outputPerMillion: -1 },
+      { provider: 'openai' },
+      { provider: '', model: 'x' },
+      null,
+    ])
+    assert.deepEqual(pricing, [
+      {
+        provider: 'openai',
+        model: 'gpt-4o',
+        inputPerMillion: 2.5,
+        outputPerMillion: undefined,
+        perImage: undefined,
+        perVideo: undefined,
+      },
+    ])
+  })
+})
+
+test.group('AI usage | budgets', (group) => {
+  const agent: AgentDefinition = {
+    id: 'budget-test-agent',
+    name: 'Budget test',
+    llmConfig: { provider: 'openai', model: 'gpt-4o' },
+    scopes: [],
+  }
+
+  group.each.teardown(async () => {
+    await db.from('ai_budgets').where('scope_key', agent.id).delete()
+    await db.from('ai_usage_events').where('agent_id', agent.id).delete()
+  })
+
+  test('should not run an agent whose monthly budget is used up', async ({ assert }) => {
+    await db
+      .table('ai_budgets')
+      .insert({ scope_type: 'agent', scope_key: agent.id, monthly_limit_usd: 1 })
+    await aiUsageService.record({
+      agentId: agent.id,
+      provider: 'openai',
+      model: 'gpt-4o',
+      kind: 'text',
+      promptTokens: 1_000_000,
+    })
+
+    let completions = 0
+    const result = await agentExecutor.execute(
+      agent,
+      { agent, scope: 'dropdown', data: {}, history: [] },
+      {},
+      {
+        complete: async () => {
+          completions++
+          return { content: 'done' }
+        },
+      }
+    )
+
+    assert.isFalse(result.success)
+    assert.instanceOf(result.error, AIBudgetExceededException)
+    assert.equal(completions, 0)
+  })
+})
@@ -0,0 +1,65 @@
+import { test } from '@japa/runner'
+import {
+  AnalyticsRangeException,
+  MAX_RANGE_DAYS,
+  addDays,
+  parseDateRange,
+  previousPeriod,
+  splitRange,
+} from '#services/analytics_service'
+
+const TODAY = new Date('2026-03-15T12:00:00Z')
+
+test.group('Analytics | date ranges', () => {
+  test('should default to the last 30 days', ({ assert }) => {
+    assert.deepEqual(parseDateRange({}, TODAY), { from: '2026-02-14', to: '2026-03-15' })
+    assert.deepEqual(parseDateRange({ from: '2026-03-01' }, TODAY), {
+      from: '2026-03-01',
+      to: '2026-03-15',
+    })
+    assert.deepEqual(parseDateRange({ to: '2026-01-30' }, TODAY), {
+      from: '2026-01-01',
+      to: '2026-01-30',
+    })
+  })
+
+  test('should reject invalid ranges', ({ assert }) => {
+    assert.throws(
+      () => parseDateRange({ from: '2026-02-30' }, TODAY),
+      'Invalid date "2026-02-30" (expected YYYY-MM-DD)'
+    )
+    assert.throws(() => parseDateRange({ from: 'yesterday' }, TODAY))
+    assert.throws(
+      () => parseDateRange({ from: '2026-03-10', to: '2026-03-01' }, TODAY),
+      '"from" must not be after "to"'
+    )
+    try {
+      parseDateRange({ from: addDays('2026-03-15', -MAX_RANGE_DAYS), to: '2026-03-15' }, TODAY)
+      assert.fail('expected the range to be rejected')
+    } catch (e) {
+      assert.instanceOf(e, AnalyticsRangeException)
+    }
+  })
+
+  test('should compute the previous period of the same length', ({ assert }) => {
+    assert.deepEqual(previousPeriod({ from: '2026-03-01', to: '2026-03-07' }), {
+      from: '2026-02-22',
+      to: '2026-02-28',
+    })
+    assert.deepEqual(previousPeriod({ from: '2026-03-01', to: '2026-03-01' }), {
+      from: '2026-02-28',
+      to: '2026-02-28',
+    })
+  })
+
+  test('should split ranges between rollups and raw events', ({ assert }) => {
+    const range = { from: '2026-03-01', to: '2026-03-15' }
+    assert.deepEqual(splitRange(range, null), { rolled: null, raw: range })
+    assert.deepEqual(splitRange(range, '2026-02-20'), { rolled: null, raw: range })
+    assert.deepEqual(splitRange(range, '2026-03-20'), { rolled: range, raw: null })
+    assert.deepEqual(splitRange(range, '2026-03-14'), {
+      rolled: { from: '2026-03-01', to: '2026-03-14' },
+      raw: { from: '2026-03-15', to: '2026-03-15' },
+    })
+  })
+})
@@ -0,0 +1,83 @@
+import { test } from '@japa/runner'
+import { isPermissionKey, parseTokenExpiry, requiredScopeFor } from '#services/api_token_service'
+
+test.group('API token scopes', () => {
+  test('should map admin API routes to permission keys', ({ assert }) => {
+    assert.equal(requiredScopeFor('GET', '/api/posts?type=blog'), 'posts.view')
+    assert.equal(requiredScopeFor('POST', '/api/posts'), 'posts.create')
+    assert.equal(requiredScopeFor('PUT', '/api/posts/abc'), 'posts.edit')
+    assert.equal(requiredScopeFor('DELETE', '/api/posts/abc'), 'posts.delete')
+    assert.equal(requiredScopeFor('POST', '/api/media'), 'media.upload')
+    assert.equal(requiredScopeFor('DELETE', '/api/media/abc'), 'media.delete')
+    assert.equal(requiredScopeFor('POST', '/api/posts/abc/agents/translator/run'), 'agents.global')
+    assert.equal(requiredScopeFor('GET', '/api/posts/abc/agents/translator/history'), 'agents.view')
+  })
+
+  test('should require delete, publish and approve scopes beyond posts.edit', ({ assert }) => {
+    assert.equal(requiredScopeFor('POST', '/api/posts/bulk', { action: 'delete' }), 'posts.delete')
+    assert.equal(
+      requiredScopeFor('POST', '/api/posts/bulk', { action: 'publish' }),
+      'posts.publish'
+    )
+    assert.equal(
+      requiredScopeFor('POST', '/api/posts/bulk', { action: 'archive' }),
+      'posts.archive'
+    )
+    assert.equal(
+      requiredScopeFor('POST', '/api/posts/bulk', { action: 'regeneratePermalinks' }),
+      'posts.publish'
+    )
+    assert.equal(requiredScopeFor('POST', '/api/posts/bulk', { action: 'duplicate' }), 'posts.edit')
+
+    assert.equal(requiredScopeFor('PUT', '/api/posts/abc', { status: 'draft' }), 'posts.edit')
+    assert.equal(
+      requiredScopeFor('PUT', '/api/posts/abc', { status: 'published' }),
+      'posts.publish'
+    )
+    assert.equal(requiredScopeFor('PUT', '/api/posts/abc', { status: 'archived' }), 'posts.archive')
+    assert.equal(
+      requiredScopeFor('PUT', '/api/posts/abc', { mode: 'approve' }),
+      'posts.review.approve'
+    )
+    assert.equal(
+      requiredScopeFor('PUT', '/api/posts/abc', { mode: 'reject-ai-review' }),
+      'posts.ai-review.approve'
+    )
+    assert.equal(
+      requiredScopeFor('PUT', '/api/posts/abc', { mode: 'review', status: 'published' }),
+      'posts.review.save'
+    )
+
+    assert.equal(requiredScopeFor('DELETE', '/api/posts/abc/variation'), 'posts.delete')
+    assert.equal(requiredScopeFor('DELETE', '/api/posts/abc/translations/fr'), 'posts.delete')
+    assert.equal(
+      requiredScopeFor('POST', '/api/posts/abc/scheduled-approvals'),
+      'posts.review.approve'
+    )
+    assert.equal(
+      requiredScopeFor('DELETE', '/api/posts/abc/scheduled-approvals/xyz'),
+      'posts.review.approve'
+    )
+    assert.equal(requiredScopeFor('GET', '/api/posts/abc/scheduled-approvals'), 'posts.view')
+  })
+
+  test('should keep token management out of reach of tokens', ({ assert }) => {
+    assert.isNull(requiredScopeFor('POST', '/api/profile/tokens'))
+    assert.isNull(requiredScopeFor('POST', '/api/service-accounts'))
+    assert.isNull(requiredScopeFor('POST', '/api/security/sessions/revoke-all'))
+    assert.isNull(requiredScopeFor('GET', '/admin/posts'))
+  })
+
+  test('should recognise permission keys', ({ assert }) => {
+    assert.isTrue(isPermissionKey('media.upload'))
+    assert.isFalse(isPermissionKey('media.everything'))
+  })
+
+  test('should only accept future expiry dates', ({ assert }) => {
+    assert.isNull(parseTokenExpiry(undefined).expiresAt)
+    assert.exists(parseTokenExpiry('not a date').error)
+    assert.exists(parseTokenExpiry('2000-01-01T00:00:00Z').error)
+    const future = new Date(Date.now() + 86_400_000).toISOString()
+    assert.equal(parseTokenExpiry(future).expiresAt?.toISOString(), future)
+  })
+})
@@ -0,0 +1,39 @@
+import { test } from '@japa/runner'
+import db from '@adonisjs/lucid/services/db'
+import { DateTime } from 'luxon'
+import { UserFactory, PostFactory } from '#database/factories'
+import contentDeliveryService from '#services/content_delivery_service'
+import urlPatternService from '#services/url_pattern_service'
+
+test.group('Content delivery | published posts', (group) => {
+  let userId: number | null = null
+
+  group.each.teardown(async () => {
+    if (userId === null) return
+    await db.from('posts').where('user_id', userId).delete()
+    await db.from('users').where('id', userId).delete()
+    userId = null
+  })
+
+  test('should not deliver posts before their publish date', async ({ assert }) => {
+    const user = await UserFactory.create()
+    userId = user.id
+    const post = await PostFactory.merge({ userId: user.id, authorId: user.id })
+      .apply('published')
+      .create()
+    post.publishedAt = DateTime.now().plus({ hours: 1 })
+    await post.save()
+    const path = await urlPatternService.buildPostPathForPost(post.id)
+
+    assert.isNull(await contentDeliveryService.findPublishedById(post.id))
+    assert.isNull(await contentDeliveryService.findPublishedByPath(path))
+
+    post.publishedAt = DateTime.now().minus({ minutes: 1 })
+    await post.save()
+
+    const byId = await contentDeliveryService.findPublishedById(post.id)
+    const byPath = await contentDeliveryService.findPublishedByPath(path)
+    assert.equal(byId?.id, post.id)
+    assert.equal(byPath?.id, post.id)
+  })
+})
@@ -0,0 +1,67 @@
+import { test } from '@japa/runner'
+import db from '@adonisjs/lucid/services/db'
+import deliveryQueueService, { computeBackoffMs } from '#services/delivery_queue_service'
+
+test.group('Delivery queue backoff', () => {
+  test('should double the delay per attempt', ({ assert }) => {
+    assert.equal(computeBackoffMs(1, 30_000, 3_600_000), 30_000)
+    assert.equal(computeBackoffMs(2, 30_000, 3_600_000), 60_000)
+    assert.equal(computeBackoffMs(4, 30_000, 3_600_000), 240_000)
+  })
+
+  test('should cap the delay', ({ assert }) => {
+    assert.equal(computeBackoffMs(20, 30_000, 3_600_000), 3_600_000)
+  })
+})
+
+test.group('Delivery queue', (group) => {
+  group.each.teardown(async () => {
+    await db.from('delivery_queue').where('workflow_id', 'missing-workflow').delete()
+  })
+
+  test('dead-letters items whose target is gone and replays them', async ({ assert }) => {
+    const queued = await deliveryQueueService.enqueue({
+      kind: 'workflow',
+      workflowId: 'missing-workflow',
+      event: 'manual',
+      payload: { hello: 'world' },
+      maxAttempts: 3,
+    })
+
+    await deliveryQueueService.processDue()
+    const dead = await deliveryQueueService.find(queued.id)
+    assert.equal(dead?.status, 'dead')
+    assert.equal(dead?.attempts, 1)
+    assert.match(dead?.lastError || '', /not registered/)
+
+    const replayed = await deliveryQueueService.replay(queued.id)
+    assert.equal(replayed?.status, 'pending')
+    assert.equal(replayed?.replayOf, queued.id)
+    assert.deepEqual(replayed?.payload, { hello: 'world' })
+  })
+
+  test('dead-letters crashed items that used their last attempt', async ({ assert }) => {
+    const queued = await deliveryQueueService.enqueue({
+      kind: 'workflow',
+      workflowId: 'missing-workflow',
+      event: 'manual',
+      payload: {},
+      maxAttempts: 2,
+    })
+    // A worker claimed the last attempt and stopped before recording the outcome
+    await db
+      .from('delivery_queue')
+      .where('id', queued.id)
+      .update({ status: 'processing', attempts: 2, locked_until: new Date(Date.now() - 1000) })
+
+    const claimed = await deliveryQueueService.claimDue()
+    assert.notInclude(
+      claimed.map((item) => item.id),
+      queued.id
+    )
+    const dead = await deliveryQueueService.find(queued.id)
+    assert.equal(dead?.status, 'dead')
+    assert.equal(dead?.attempts, 2)
+    assert.match(dead?.lastError || '', /worker stopped/)
+  })
+})
@@ -0,0 +1,42 @@
+import { test } from '@japa/runner'
+import db from '@adonisjs/lucid/services/db'
+import deliveryTokenService, { hashDeliveryToken } from '#services/delivery_token_service'
+
+test.group('Delivery token hashing', () => {
+  test('should hash deterministically without exposing the token', ({ assert }) => {
+    const hash = hashDeliveryToken('eos_dlv_abc')
+    assert.equal(hash, hashDeliveryToken('eos_dlv_abc'))
+    assert.lengthOf(hash, 64)
+    assert.notInclude(hash, 'abc')
+  })
+})
+
+test.group('Delivery tokens', (group) => {
+  group.each.teardown(async () => {
+    await db.from('delivery_tokens').where('name', 'like', 'test-delivery-%').delete()
+  })
+
+  test('verifies active tokens and rejects revoked ones', async ({ assert }) => {
+    const { token, record } = await deliveryTokenService.create('test-delivery-app', null)
+    assert.isTrue(token.startsWith(record.tokenPrefix))
+
+    const verified = await deliveryTokenService.verify(token)
+    assert.equal(verified?.id, record.id)
+    assert.isNotNull(verified?.lastUsedAt)
+
+    assert.isNull(await deliveryTokenService.verify(`${token}x`))
+
+    assert.isTrue(await deliveryTokenService.revoke(record.id))
+    assert.isNull(await deliveryTokenService.verify(token))
+    assert.isFalse(await deliveryTokenService.revoke(record.id))
+  })
+
+  test('rejects expired tokens', async ({ assert }) => {
+    const { token } = await deliveryTokenService.create(
+      'test-delivery-expired',
+      null,
+      new Date(Date.now() - 1000)
+    )
+    assert.isNull(await deliveryTokenService.verify(token))
+  })
+})
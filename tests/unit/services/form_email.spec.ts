@@ -0,0 +1,129 @@
+import { test } from '@japa/runner'
+import {
+  buildFormEmails,
+  formatSubmittedValue,
+  renderFormTemplate,
+} from '#services/form_email_service'
+import { normalizeFormConfig } from '#services/form_config_service'
+import type { FormConfig } from '#types/form_types'
+
+const form: FormConfig = {
+  slug: 'contact',
+  title: 'Contact',
+  fields: [
+    { slug: 'name', label: 'Name', type: 'text' },
+    { slug: 'email', label: 'Email', type: 'email' },
+    {
+      slug: 'topics',
+      label: 'Topics',
+      type: 'multiselect',
+      options: [
+        { label: 'Pricing', value: 'pricing' },
+        { label: 'Support', value: 'support' },
+      ],
+    },
+    { slug: 'newsletter', label: 'Newsletter', type: 'checkbox' },
+  ],
+  notifications: { recipients: ['team@example.com'], replyToField: 'email' },
+  autoresponder: {
+    toField: 'email',
+    subject: 'Thanks {{name}}',
+    body: 'Hi {{name}},\n\nWe received:\n{{fields}}',
+  },
+}
+
+const payload = {
+  name: 'Ada',
+  email: 'ada@example.com',
+  topics: ['pricing', 'support'],
+  newsletter: true,
+}
+
+test.group('Form emails | templates', () => {
+  test('should format submitted values', ({ assert }) => {
+    assert.equal(formatSubmittedValue(['a', 'b']), 'a, b')
+    assert.equal(formatSubmittedValue(false), 'No')
+    assert.equal(formatSubmittedValue(null), '')
+    assert.equal(
+      formatSubmittedValue([
+        { name: 'cv.pdf', size: 10, type: 'application/pdf', key: 'apply/1/cv.pdf' },
+      ]),
+      'cv.pdf'
+    )
+  })
+
+  test('should interpolate fields and submission details', ({ assert }) => {
+    assert.equal(
+      renderFormTemplate('{{ name }} sent {{form.title}} #{{submission.id}}', form, 's1', payload),
+      'Ada sent Contact #s1'
+    )
+    assert.equal(
+      renderFormTemplate('{{fields}}', form, 's1', payload),
+      'Name: Ada\nEmail: ada@example.com\nTopics: pricing, support\nNewsletter: Yes'
+    )
+    assert.equal(renderFormTemplate('[{{topics}}]', form, 's1', {}), '[]')
+    assert.equal(renderFormTemplate('{{unknown}}', form, 's1', payload), '{{unknown}}')
+  })
+})
+
+test.group('Form emails | building', () => {
+  test('should build the notification and the autoresponder', ({ assert }) => {
+    const [notification, autoresponder] = buildFormEmails(form, 's1', payload)
+    assert.deepInclude(notification, {
+      type: 'notification',
+      to: ['team@example.com'],
+      subject: 'New submission: Contact',
+      replyTo: 'ada@example.com',
+    })
+    assert.deepInclude(autoresponder, {
+      type: 'autoresponder',
+      to: ['ada@example.com'],
+      subject: 'Thanks Ada',
+    })
+    assert.match(autoresponder.text, /^Hi Ada,\n\nWe received:\nName: Ada/)
+  })
+
+  test('should skip the autoresponder without a valid address', ({ assert }) => {
+    const emails = buildFormEmails(form, 's1', { ...payload, email: 'not-an-address' })
+    assert.deepEqual(
+      emails.map((e) => e.type),
+      ['notification']
+    )
+    assert.isUndefined(emails[0].replyTo)
+  })
+
+  test('should keep subjects on one line', ({ assert }) => {
+    const [, autoresponder] = buildFormEmails(form, 's1', { ...payload, name: 'Ada\r\nBcc: x' })
+    assert.equal(autoresponder.subject, 'Thanks Ada Bcc: x')
+  })
+
+  test('should validate email settings in definitions', ({ assert }) => {
+    const definition = {
+      slug: 'contact',
+      title: 'Contact',
+      fields: form.fields,
+      notifications: { recipients: 'a@example.com, b@example.com' },
+      autoresponder: { toField: '' },
+    }
+    const config = normalizeFormConfig(definition)
+    assert.deepEqual(config.notifications, { recipients: ['a@example.com', 'b@example.com'] })
+    assert.isUndefined(config.autoresponder)
+
+    assert.throws(
+      () => normalizeFormConfig({ ...definition, notifications: { recipients: 'nope' } }),
+      /not a valid email address/
+    )
+    assert.throws(
+      () =>
+        normalizeFormConfig({
+          ...definition,
+          autoresponder: { toField: 'name', subject: 'Hi', body: 'Thanks' },
+        }),
+      /not an email field/
+    )
+    assert.throws(
+      () => normalizeFormConfig({ ...definition, autoresponder: { toField: 'email' } }),
+      /subject and message are required/
+    )
+  })
+})
@@ -0,0 +1,114 @@
+import { test } from '@japa/runner'
+import {
+  DEFAULT_HONEYPOT_FIELD,
+  FORM_TOKEN_MAX_AGE_MS,
+  resolveSpamSettings,
+  scoreSubmission,
+  signFormToken,
+  verifyFormToken,
+} from '#services/form_spam_service'
+import type { SpamSettings } from '#services/form_spam_service'
+import type { FormConfig } from '#types/form_types'
+
+const form: FormConfig = {
+  slug: 'contact',
+  title: 'Contact',
+  fields: [{ slug: 'message', type: 'textarea' }],
+}
+
+const settings: SpamSettings = {
+  enabled: true,
+  honeypot: DEFAULT_HONEYPOT_FIELD,
+  minFillSeconds: 3,
+  rateLimit: null,
+  challenge: null,
+  threshold: 1,
+}
+
+const now = 1_800_000_000_000
+
+test.group('Form spam | settings', () => {
+  test('should merge per-form settings over the defaults', ({ assert }) => {
+    const defaults = resolveSpamSettings(form)
+    assert.isTrue(defaults.enabled)
+    assert.equal(defaults.honeypot, DEFAULT_HONEYPOT_FIELD)
+
+    const own = resolveSpamSettings({
+      ...form,
+      spamProtection: {
+        honeypot: false,
+        minFillSeconds: 10,
+        rateLimit: { requests: 2, window: 60 },
+        challenge: 'turnstile',
+      },
+    })
+    assert.isNull(own.honeypot)
+    assert.equal(own.minFillSeconds, 10)
+    assert.deepEqual(own.rateLimit, { requests: 2, window: 60 })
+    assert.equal(own.challenge, 'turnstile')
+
+    assert.isNull(resolveSpamSettings({ ...form, spamProtection: { rateLimit: false } }).rateLimit)
+    assert.isFalse(resolveSpamSettings({ ...form, spamProtection: { enabled: false } }).enabled)
+  })
+})
+
+test.group('Form spam | load tokens', () => {
+  test('should verify tokens for the same form only', ({ assert }) => {
+    const token = signFormToken('secret', 'contact', now - 5000)
+    assert.equal(verifyFormToken('secret', 'contact', token, now), now - 5000)
+    assert.isNull(verifyFormToken('secret', 'newsletter', token, now))
+    assert.isNull(verifyFormToken('other', 'contact', token, now))
+    assert.isNull(verifyFormToken('secret', 'contact', token.replace(/^\d+/, String(now)), now))
+    assert.isNull(verifyFormToken('secret', 'contact', undefined, now))
+    assert.isNull(verifyFormToken('secret', 'contact', 'garbage', now))
+  })
+
+  test('should reject expired and future tokens', ({ assert }) => {
+    const old = signFormToken('secret', 'contact', now - FORM_TOKEN_MAX_AGE_MS - 1)
+    assert.isNull(verifyFormToken('secret', 'contact', old, now))
+    const future = signFormToken('secret', 'contact', now + 1000)
+    assert.isNull(verifyFormToken('secret', 'contact', future, now))
+  })
+})
+
+test.group('Form spam | scoring', () => {
+  const signals = {
+    loadedAt: now - 10_000,
+    now,
+    challengePassed: null,
+    values: { message: 'Hello there' },
+  }
+
+  test('should pass a normal submission', ({ assert }) => {
+    assert.deepEqual(scoreSubmission(settings, signals), { spam: false, score: 0, reasons: [] })
+  })
+
+  test('should flag filled honeypots, fast fills and failed challenges', ({ assert }) => {
+    assert.deepEqual(scoreSubmission(settings, { ...signals, honeypotValue: 'x' }).reasons, [
+      'honeypot',
+    ])
+    assert.isTrue(scoreSubmission(settings, { ...signals, loadedAt: now - 1000 }).spam)
+    assert.isTrue(scoreSubmission(settings, { ...signals, challengePassed: false }).spam)
+  })
+
+  test('should add up weaker signals', ({ assert }) => {
+    const noToken = scoreSubmission(settings, { ...signals, loadedAt: null })
+    assert.deepEqual(noToken, { spam: false, score: 0.5, reasons: ['token'] })
+
+    const links = 'see http://a.test http://b.test www.c.test'
+    const both = scoreSubmission(settings, {
+      ...signals,
+      loadedAt: null,
+      values: { message: links },
+    })
+    assert.deepEqual(both, { spam: true, score: 1, reasons: ['token', 'links'] })
+  })
+
+  test('should not score when disabled', ({ assert }) => {
+    const result = scoreSubmission(
+      { ...settings, enabled: false },
+      { ...signals, honeypotValue: 'x' }
+    )
+    assert.isFalse(result.spam)
+  })
+})
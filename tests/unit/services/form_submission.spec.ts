@@ -0,0 +1,112 @@
+import { test } from '@japa/runner'
+import { randomUUID } from 'node:crypto'
+import db from '@adonisjs/lucid/services/db'
+import formSubmissionService, {
+  conversionRate,
+  fillDailyCounts,
+  parseSubmissionFilters,
+} from '#services/form_submission_service'
+
+test.group('Form submissions | filters', () => {
+  test('should default to the inbox without filters', ({ assert }) => {
+    assert.deepEqual(parseSubmissionFilters({}, 1), {
+      q: '',
+      formSlug: '',
+      status: 'inbox',
+      assignedTo: null,
+      from: null,
+      to: null,
+      abVariation: '',
+      originPostId: '',
+    })
+  })
+
+  test('should read statuses, assignees and dates', ({ assert }) => {
+    const filters = parseSubmissionFilters(
+      {
+        q: ' ada ',
+        form_slug: 'contact',
+        status: 'in_progress',
+        assigned: 'me',
+        from: '2026-01-01',
+        to: '2026-01-31',
+        variation: 'B',
+        origin_post_id: '0b8c2d43-6f5e-4f8a-9d6b-1c2e3f4a5b6c',
+      },
+      7
+    )
+    assert.deepInclude(filters, {
+      q: 'ada',
+      status: 'in_progress',
+      assignedTo: 7,
+      from: '2026-01-01',
+      to: '2026-01-31',
+      abVariation: 'B',
+    })
+    assert.equal(parseSubmissionFilters({ assigned: 'unassigned' }, 7).assignedTo, 'unassigned')
+    assert.equal(parseSubmissionFilters({ assigned: '12' }, 7).assignedTo, 12)
+  })
+
+  test('should ignore invalid values', ({ assert }) => {
+    const filters = parseSubmissionFilters(
+      { status: 'archived', assigned: 'someone', from: '01/02/2026', origin_post_id: "1' OR 1=1" },
+      7
+    )
+    assert.equal(filters.status, 'inbox')
+    assert.isNull(filters.assignedTo)
+    assert.isNull(filters.from)
+    assert.equal(filters.originPostId, '')
+  })
+})
+
+test.group('Form submissions | analytics', () => {
+  test('should fill days without submissions', ({ assert }) => {
+    const days = fillDailyCounts({ from: '2026-02-27', to: '2026-03-02' }, [
+      { date: '2026-02-28', count: 3 },
+      { date: '2026-03-02', count: 1 },
+    ])
+    assert.deepEqual(days, [
+      { date: '2026-02-27', submissions: 0 },
+      { date: '2026-02-28', submissions: 3 },
+      { date: '2026-03-01', submissions: 0 },
+      { date: '2026-03-02', submissions: 1 },
+    ])
+  })
+
+  test('should compute conversion only with views', ({ assert }) => {
+    assert.equal(conversionRate(5, 200), 0.025)
+    assert.isNull(conversionRate(5, 0))
+  })
+})
+
+test.group('Form submissions | spam release', (group) => {
+  const id = randomUUID()
+  const dispatch = formSubmissionService.dispatchSubmitted
+
+  group.each.teardown(async () => {
+    formSubmissionService.dispatchSubmitted = dispatch
+    await db.from('form_submissions').where('id', id).delete()
+  })
+
+  test('should dispatch once when two requests release the same submission', async ({ assert }) => {
+    await db.table('form_submissions').insert({
+      id,
+      form_slug: 'contact',
+      payload: JSON.stringify({ name: 'Ada' }),
+      status: 'spam',
+    })
+    let dispatched = 0
+    formSubmissionService.dispatchSubmitted = async () => {
+      dispatched++
+    }
+
+    await Promise.all([
+      formSubmissionService.update(id, { status: 'new' }),
+      formSubmissionService.update(id, { status: 'in_progress' }),
+    ])
+
+    assert.equal(dispatched, 1)
+    const row = await db.from('form_submissions').where('id', id).first()
+    assert.notEqual(row.status, 'spam')
+  })
+})
@@ -0,0 +1,234 @@
+import { test } from '@japa/runner'
+import {
+  DEFAULT_PATTERN_MAX_LENGTH,
+  fileMatchesAccept,
+  resolveSteps,
+  validateFieldValue,
+  validateSubmission,
+  visibleFieldSlugs,
+} from '#services/form_validation_service'
+import { normalizeFormConfig } from '#services/form_config_service'
+import type { FormConfig } from '#types/form_types'
+
+const form: FormConfig = {
+  slug: 'quote',
+  title: 'Quote',
+  fields: [
+    { slug: 'email', type: 'email', required: true },
+    {
+      slug: 'kind',
+      type: 'select',
+      required: true,
+      options: [
+        { label: 'Company', value: 'company' },
+        { label: 'Private', value: 'private' },
+      ],
+    },
+    { slug: 'company', type: 'text', required: true, showIf: { field: 'kind', equals: 'company' } },
+    { slug: 'vat', type: 'text', required: true, showIf: { field: 'company', filled: true } },
+    { slug: 'budget', type: 'number', validation: { min: 100, max: 5000 } },
+    { slug: 'brief', type: 'file', file: { accept: ['application/pdf'], maxSize: 1024 } },
+  ],
+  steps: [
+    { title: 'Contact', fields: ['email', 'kind'] },
+    { title: 'Details', fields: ['company'] },
+  ],
+}
+
+const pdf = { clientName: 'brief.pdf', size: 512, mime: 'application/pdf', extname: 'pdf' }
+
+test.group('Form validation | fields', () => {
+  test('should validate typed values', ({ assert }) => {
+    assert.equal(
+      validateFieldValue({ slug: 'e', type: 'email' }, 'nope').error,
+      'Please enter a valid email address.'
+    )
+    assert.equal(validateFieldValue({ slug: 'e', type: 'email' }, ' a@b.co ').value, 'a@b.co')
+    assert.exists(validateFieldValue({ slug: 'p', type: 'phone' }, '12-34').error)
+    assert.equal(
+      validateFieldValue({ slug: 'p', type: 'phone' }, '+49 (30) 123 456').value,
+      '+49 (30) 123 456'
+    )
+    assert.exists(validateFieldValue({ slug: 'u', type: 'url' }, 'javascript:alert(1)').error)
+    assert.exists(validateFieldValue({ slug: 'd', type: 'date' }, '2026-02-30').error)
+    assert.equal(
+      validateFieldValue(
+        { slug: 'd', type: 'date', validation: { minDate: '2026-01-01' } },
+        '2025-12-31'
+      ).error,
+      'Must be on or after 2026-01-01.'
+    )
+    assert.equal(
+      validateFieldValue({ slug: 'n', type: 'number', validation: { max: 5 } }, '6').error,
+      'Must be at most 5.'
+    )
+    assert.equal(validateFieldValue({ slug: 'n', type: 'number' }, '4.5').value, 4.5)
+    assert.exists(
+      validateFieldValue({ slug: 's', type: 'select', options: [{ label: 'A', value: 'a' }] }, 'b')
+        .error
+    )
+  })
+
+  test('should apply length and pattern rules to the whole value', ({ assert }) => {
+    const zip = {
+      slug: 'zip',
+      type: 'text' as const,
+      validation: { pattern: '\\d{5}', patternMessage: 'Five digits.' },
+    }
+    assert.equal(validateFieldValue(zip, '123456').error, 'Five digits.')
+    assert.equal(validateFieldValue(zip, '12345').value, '12345')
+    assert.equal(
+      validateFieldValue(zip, '1'.repeat(DEFAULT_PATTERN_MAX_LENGTH + 1)).error,
+      `Must be at most ${DEFAULT_PATTERN_MAX_LENGTH} characters.`
+    )
+    assert.equal(
+      validateFieldValue({ slug: 't', type: 'text', validation: { minLength: 3 } }, 'ab').error,
+      'Must be at least 3 characters.'
+    )
+    assert.equal(validateFieldValue({ slug: 't', type: 'text' }, '').value, null)
+    assert.equal(
+      validateFieldValue({ slug: 'c', type: 'checkbox', required: true }, false).error,
+      'This field is required.'
+    )
+  })
+
+  test('should check file count, size and type', ({ assert }) => {
+    assert.isTrue(fileMatchesAccept(pdf, ['.pdf']))
+    assert.isTrue(fileMatchesAccept({ ...pdf, mime: 'image/png', extname: 'png' }, ['image/*']))
+    assert.isFalse(
+      fileMatchesAccept({ ...pdf, mime: 'text/html', extname: 'pdf' }, ['application/pdf'])
+    )
+
+    const result = validateSubmission(
+      form,
+      { email: 'a@b.co', kind: 'private' },
+      { brief: [{ ...pdf, size: 2048 }] }
+    )
+    assert.equal(result.errors.brief, 'brief.pdf is larger than 1 KB.')
+    const two = validateSubmission(
+      form,
+      { email: 'a@b.co', kind: 'private' },
+      { brief: [pdf, pdf] }
+    )
+    assert.equal(two.errors.brief, 'Upload at most 1 file.')
+  })
+
+  test('should reject active content when no types are configured', ({ assert }) => {
+    assert.isTrue(fileMatchesAccept(pdf, undefined))
+    assert.isTrue(fileMatchesAccept(pdf, []))
+    assert.isFalse(fileMatchesAccept({ ...pdf, mime: 'text/html', extname: 'html' }, []))
+    assert.isFalse(fileMatchesAccept({ ...pdf, mime: 'image/svg+xml', extname: 'pdf' }, undefined))
+    assert.isFalse(fileMatchesAccept({ ...pdf, mime: 'text/plain', extname: 'js' }, undefined))
+    assert.isTrue(fileMatchesAccept({ ...pdf, mime: 'image/svg+xml', extname: 'svg' }, ['.svg']))
+  })
+})
+
+test.group('Form validation | submissions', () => {
+  test('should skip hidden fields, including chained conditions', ({ assert }) => {
+    assert.deepEqual(
+      [...visibleFieldSlugs(form, { kind: 'private', company: 'ACME' })],
+      ['email', 'kind', 'budget', 'brief']
+    )
+
+    const hidden = validateSubmission(form, {
+      email: 'a@b.co',
+      kind: 'private',
+      company: 'ACME',
+      vat: 'X',
+    })
+    assert.deepEqual(hidden.errors, {})
+    assert.notProperty(hidden.payload, 'company')
+    assert.notProperty(hidden.payload, 'vat')
+
+    const shown = validateSubmission(
+      form,
+      { email: 'a@b.co', kind: 'company', company: 'ACME' },
+      { brief: [pdf] }
+    )
+    assert.deepEqual(shown.errors, { vat: 'This field is required.' })
+    assert.lengthOf(shown.files.brief, 1)
+  })
+
+  test('should validate a single step', ({ assert }) => {
+    const steps = resolveSteps(form)
+    assert.deepEqual(steps[1].fields, ['company', 'vat', 'budget', 'brief'])
+
+    assert.deepEqual(
+      validateSubmission(form, { email: 'a@b.co', kind: 'company' }, {}, { step: 0 }).errors,
+      {}
+    )
+    assert.deepEqual(
+      validateSubmission(form, { email: 'a@b.co', kind: 'company' }, {}, { step: 1 }).errors,
+      {
+        company: 'This field is required.',
+      }
+    )
+  })
+})
+
+test.group('Form validation | builder definitions', () => {
+  const valid = {
+    slug: 'signup',
+    title: 'Sign up',
+    fields: [
+      { slug: 'email', type: 'email', required: true, validation: { maxLength: '120' } },
+      { slug: 'topics', type: 'multiselect', options: [{ value: 'news' }] },
+      {
+        slug: 'cv',
+        type: 'file',
+        file: { accept: 'application/pdf, .docx', maxSize: 1000 },
+        showIf: { field: 'topics', filled: true },
+      },
+    ],
+    steps: [{ title: '', fields: ['email'] }],
+  }
+
+  test('should normalize a form definition', ({ assert }) => {
+    const config = normalizeFormConfig(valid)
+    assert.equal(config.source, 'admin')
+    assert.deepEqual(config.fields[0].validation, { maxLength: 120 })
+    assert.deepEqual(config.fields[1].options, [{ label: 'news', value: 'news' }])
+    assert.deepEqual(config.fields[2].file, { accept: ['application/pdf', '.docx'], maxSize: 1000 })
+    assert.deepEqual(config.steps, [{ title: 'Step 1', fields: ['email'] }])
+  })
+
+  test('should reject invalid definitions', ({ assert }) => {
+    const invalid = (patch: Record<string, unknown>) => () =>
+      normalizeFormConfig({ ...valid, ...patch })
+    assert.throws(invalid({ slug: 'Bad Slug' }), /lowercase letters/)
+    assert.throws(invalid({ title: ' ' }), 'Title is required')
+    assert.throws(
+      invalid({ fields: [...valid.fields, { slug: 'email', type: 'text' }] }),
+      /more than once/
+    )
+    assert.throws(invalid({ fields: [{ slug: 'x', type: 'color' }] }), /unknown field type/)
+    assert.throws(
+      invalid({ fields: [{ slug: 'x', type: 'select', options: [] }] }),
+      /at least one option/
+    )
+    assert.throws(
+      invalid({ fields: [{ slug: 'x', type: 'text', validation: { pattern: '(' } }] }),
+      /regular expression/
+    )
+    assert.throws(
+      invalid({ fields: [{ slug: 'x', type: 'text', validation: { pattern: '(a+)+$' } }] }),
+      /repeats a group/
+    )
+    assert.throws(
+      invalid({ fields: [{ slug: 'x', type: 'number', validation: { min: 5, max: 1 } }] }),
+      /greater than/
+    )
+    assert.throws(
+      invalid({ fields: [{ slug: 'x', type: 'text', showIf: { field: 'y' } }] }),
+      /unknown field "y"/
+    )
+    assert.throws(
+      invalid({ steps: [{ fields: ['email'] }, { fields: ['email'] }] }),
+      /more than one step/
+    )
+    assert.throws(
+      invalid({ fields: [{ slug: 'x', type: 'file', file: { maxSize: 50 * 1024 * 1024 } }] }),
+      /20 MB/
+    )
+  })
+})
@@ -0,0 +1,72 @@
+import { test } from '@japa/runner'
+import { parse, printSchema, specifiedRules, validate } from 'graphql'
+import graphqlSchemaService, {
+  queryLimitRule,
+  toGraphqlFieldName,
+  toGraphqlTypeName,
+} from '#services/graphql_schema_service'
+import { registerAllModules } from '../actions/module_test_helper.js'
+
+test.group('GraphQL schema', (group) => {
+  group.setup(async () => {
+    await registerAllModules()
+    graphqlSchemaService.reset()
+  })
+
+  test('should convert slugs to GraphQL names', ({ assert }) => {
+    assert.equal(toGraphqlFieldName('hero_with_media'), 'heroWithMedia')
+    assert.equal(toGraphqlFieldName('post-reference'), 'postReference')
+    assert.equal(toGraphqlFieldName('3col'), '_3col')
+    assert.equal(toGraphqlTypeName('hero_with_media'), 'HeroWithMedia')
+  })
+
+  test('should generate module types from the registry', ({ assert }) => {
+    const sdl = printSchema(graphqlSchemaService.getSchema())
+    assert.include(sdl, 'type ProseModule')
+    assert.include(sdl, 'union Module')
+    assert.include(sdl, 'interface Post')
+    assert.include(sdl, 'scalar JSON')
+  })
+
+  test('should validate queries against the generated schema', ({ assert }) => {
+    const schema = graphqlSchemaService.getSchema()
+    const valid = parse(
+      '{ posts(limit: 5) { id title modules { ... on ProseModule { id type } } } }'
+    )
+    assert.lengthOf(validate(schema, valid), 0)
+
+    const invalid = parse('{ posts { unknownField } }')
+    assert.isAbove(validate(schema, invalid).length, 0)
+  })
+
+  test('should reject queries over the depth and complexity limits', ({ assert }) => {
+    const schema = graphqlSchemaService.getSchema()
+    const rules = [...specifiedRules, queryLimitRule({ maxDepth: 4, maxComplexity: 500 })]
+
+    const nested = parse(
+      '{ post(slug: "a") { translation(locale: "de") { translation(locale: "en") { translation(locale: "fr") { id } } } } }'
+    )
+    const [depthError] = validate(schema, nested, rules)
+    assert.equal(depthError?.message, 'Query depth 5 exceeds the limit of 4')
+
+    const wide = parse('{ posts(limit: 100) { id translations { locale } } }')
+    const [costError] = validate(schema, wide, rules)
+    assert.equal(costError?.message, 'Query complexity 2200 exceeds the limit of 500')
+
+    // A negative limit counts as one item and cannot cancel out other selections
+    const negative = parse(
+      '{ wide: posts(limit: 100) { id translations { locale } } cheap: posts(limit: -100) { id translations { locale } } }'
+    )
+    const [negativeError] = validate(schema, negative, rules)
+    assert.equal(negativeError?.message, 'Query complexity 2222 exceeds the limit of 500')
+
+    // Fragments count where they are spread
+    const viaFragment = parse(
+      '{ ...deep } fragment deep on Query { posts { translation(locale: "de") { translation(locale: "en") { translation(locale: "fr") { id } } } } }'
+    )
+    assert.lengthOf(validate(schema, viaFragment, rules), 1)
+
+    const small = parse('{ posts(limit: 5) { id title } }')
+    assert.lengthOf(validate(schema, small, rules), 0)
+  })
+})
@@ -0,0 +1,113 @@
+import { test } from '@japa/runner'
+import {
+  anonymizeIp,
+  hasConsent,
+  hashValue,
+  isBot,
+  saltPeriod,
+  sanitizeTrackedEvent,
+  submissionUploads,
+  trackingLevel,
+} from '#services/privacy_service'
+
+test.group('Privacy | visitors', () => {
+  test('should truncate IPv4 and IPv6 addresses', ({ assert }) => {
+    assert.equal(anonymizeIp('203.0.113.42'), '203.0.113.0')
+    assert.equal(anonymizeIp('::ffff:203.0.113.42'), '203.0.113.0')
+    assert.equal(anonymizeIp('2001:0db8:85a3:0000:0000:8a2e:0370:7334'), '2001:db8:85a3::')
+    assert.equal(anonymizeIp('2001:db8::1'), '2001:db8:0::')
+    assert.isNull(anonymizeIp('not-an-ip'))
+    assert.isNull(anonymizeIp(null))
+  })
+
+  test('should detect bots by user agent', ({ assert }) => {
+    assert.isTrue(isBot('Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)'))
+    assert.isTrue(isBot('curl/8.4.0'))
+    assert.isTrue(isBot('Mozilla/5.0 (X11; Linux x86_64) HeadlessChrome/120.0.0.0 Safari/537.36'))
+    assert.isTrue(isBot(''))
+    assert.isFalse(
+      isBot(
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.1 Safari/605.1.15'
+      )
+    )
+  })
+
+  test('should hash with rotating salts', ({ assert }) => {
+    assert.equal(hashValue('salt', '203.0.113.42'), hashValue('salt', '203.0.113.42'))
+    assert.notEqual(hashValue('salt', '203.0.113.42'), hashValue('other', '203.0.113.42'))
+    assert.lengthOf(hashValue('salt', '203.0.113.42', 'ua'), 64)
+
+    const day = saltPeriod(new Date('2026-03-15T10:00:00Z'), 24)
+    assert.equal(saltPeriod(new Date('2026-03-15T23:59:59Z'), 24), day)
+    assert.equal(saltPeriod(new Date('2026-03-16T00:00:00Z'), 24), day + 1)
+  })
+})
+
+test.group('Privacy | consent', () => {
+  test('should derive the tracking level from the consent mode', ({ assert }) => {
+    assert.isTrue(hasConsent('granted'))
+    assert.isFalse(hasConsent('denied'))
+    assert.isFalse(hasConsent(undefined))
+
+    assert.equal(trackingLevel('off', false), 'full')
+    assert.equal(trackingLevel('required', false), 'none')
+    assert.equal(trackingLevel('required', true), 'full')
+    assert.equal(trackingLevel('cookieless', false), 'anonymous')
+    assert.equal(trackingLevel('cookieless', true), 'full')
+  })
+
+  test('should strip events down to the tracking level', ({ assert }) => {
+    const click = {
+      eventType: 'click',
+      postId: 'p1',
+      x: 10,
+      y: '20',
+      viewportWidth: 1280,
+      metadata: { path: '/pricing', selector: 'a.cta' },
+    }
+    assert.deepEqual(sanitizeTrackedEvent(click, 'full', 'hash'), {
+      post_id: 'p1',
+      event_type: 'click',
+      x: 10,
+      y: 20,
+      viewport_width: 1280,
+      metadata: { path: '/pricing', selector: 'a.cta' },
+      visitor_hash: 'hash',
+    })
+    assert.isNull(sanitizeTrackedEvent(click, 'anonymous', null))
+    assert.isNull(sanitizeTrackedEvent(click, 'none', null))
+
+    assert.deepEqual(
+      sanitizeTrackedEvent(
+        { ...click, eventType: 'view', metadata: { path: '/', fromPostId: 'p0' } },
+        'anonymous',
+        'hash'
+      ),
+      {
+        post_id: 'p1',
+        event_type: 'view',
+        x: null,
+        y: null,
+        viewport_width: null,
+        metadata: { path: '/' },
+        visitor_hash: null,
+      }
+    )
+    assert.isNull(sanitizeTrackedEvent({ eventType: '' }, 'full', null))
+    assert.isNull(sanitizeTrackedEvent({ eventType: 'x'.repeat(51) }, 'full', null))
+  })
+})
+
+test.group('Privacy | data subject requests', () => {
+  test('should list the files uploaded with submissions', ({ assert }) => {
+    const cv = { name: 'cv.pdf', size: 1200, type: 'application/pdf', key: 'apply/u1/cv.pdf' }
+    const rows = [
+      { id: 's1', form_slug: 'apply', payload: { email: 'jane@example.com', cv: [cv] } },
+      { id: 's2', form_slug: 'contact', payload: JSON.stringify({ tags: ['a', 'b'] }) },
+    ]
+
+    assert.deepEqual(submissionUploads(rows), [
+      { submissionId: 's1', formSlug: 'apply', field: 'cv', ...cv },
+    ])
+  })
+})
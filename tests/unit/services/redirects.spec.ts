@@ -0,0 +1,182 @@
+import { test } from '@japa/runner'
+import {
+  applyQueryString,
+  buildRedirectTable,
+  findRedirectIssues,
+  matchRedirect,
+  matchWildcard,
+  normalizeRedirectInput,
+  type RedirectRule,
+} from '#services/redirect_service'
+
+function rule(fromPath: string, toPath: string | null, overrides: Partial<RedirectRule> = {}) {
+  return {
+    id: fromPath,
+    fromPath,
+    toPath,
+    httpStatus: 301,
+    matchType: 'exact',
+    queryString: 'drop',
+    locale: null,
+    ...overrides,
+  } as RedirectRule
+}
+
+test.group('Redirects | matching', () => {
+  const table = buildRedirectTable([
+    rule('/blog/(\\d+)-(.*)', '/posts/$2?id=$1', { matchType: 'regex' }),
+    rule('/docs/*', '/help/$1', { matchType: 'wildcard' }),
+    rule('/docs/api/*', '/reference/$1', { matchType: 'wildcard' }),
+    rule('/docs/api/intro', '/start'),
+    rule('/retired', null, { httpStatus: 410 }),
+    rule('/go/*', '/$1', { matchType: 'wildcard' }),
+  ])
+
+  test('should prefer exact rules, then the most specific wildcard', ({ assert }) => {
+    assert.equal(matchRedirect(table, '/docs/api/intro')?.location, '/start')
+    assert.equal(matchRedirect(table, '/docs/api/users')?.location, '/reference/users')
+    assert.equal(matchRedirect(table, '/docs/guide/setup')?.location, '/help/guide/setup')
+    assert.isNull(matchRedirect(table, '/documents'))
+  })
+
+  test('should capture greedily with several wildcards', ({ assert }) => {
+    assert.deepEqual(matchWildcard('/a/*/*', '/a/x/y/z'), ['x/y', 'z'])
+    assert.deepEqual(matchWildcard('/a/*-*/x', '/a/b-c-d/x'), ['b-c', 'd'])
+    assert.deepEqual(matchWildcard('/a/**', '/a/bc'), ['bc', ''])
+    assert.isNull(matchWildcard('/a/*/b/*/c', '/a/x/c'))
+  })
+
+  test('should reject long paths that do not match quickly', ({ assert }) => {
+    const nested = buildRedirectTable([rule('/a/*/*/*/*/x', '/b', { matchType: 'wildcard' })])
+    const path = `/a/${'/'.repeat(2000)}`
+    const started = Date.now()
+    assert.isNull(matchRedirect(nested, path))
+    assert.isNull(matchRedirect(nested, `${path}${'a'.repeat(5000)}`))
+    assert.isBelow(Date.now() - started, 100)
+  })
+
+  test('should substitute regex captures', ({ assert }) => {
+    assert.equal(matchRedirect(table, '/blog/42-hello')?.location, '/posts/hello?id=42')
+    assert.isNull(matchRedirect(table, '/blog/new-hello'))
+  })
+
+  test('should answer removed pages without a location', ({ assert }) => {
+    const match = matchRedirect(table, '/retired')
+    assert.equal(match?.rule.httpStatus, 410)
+    assert.isNull(match?.location)
+  })
+
+  test('should not let captures point to other sites', ({ assert }) => {
+    assert.equal(matchRedirect(table, '/go//evil.example')?.location, '/evil.example')
+  })
+
+  test('should keep patterns away from protected paths', ({ assert }) => {
+    const catchAll = buildRedirectTable([rule('/*', '/new/$1', { matchType: 'wildcard' })])
+    const options = { protectedPaths: ['/api', '/admin'] }
+    assert.isNull(matchRedirect(catchAll, '/admin/posts', options))
+    assert.isNull(matchRedirect(catchAll, '/api', options))
+    assert.equal(matchRedirect(catchAll, '/apis', options)?.location, '/new/apis')
+  })
+
+  test('should skip rules outside their active window', ({ assert }) => {
+    const now = Date.UTC(2026, 0, 15)
+    const timed = buildRedirectTable([
+      rule('/sale', '/winter', {
+        activeFrom: Date.UTC(2026, 0, 1),
+        activeTo: Date.UTC(2026, 0, 10),
+      }),
+    ])
+    assert.isNull(matchRedirect(timed, '/sale', { now }))
+    assert.equal(matchRedirect(timed, '/sale')?.location, '/winter')
+  })
+
+  test('should pass query strings on when asked to', ({ assert }) => {
+    assert.equal(applyQueryString('/new', 'utm_source=x&a=1', 'drop'), '/new')
+    assert.equal(
+      applyQueryString('/new?a=2#top', 'utm_source=x&a=1', 'preserve'),
+      '/new?a=2&utm_source=x#top'
+    )
+
+    const preserving = buildRedirectTable([rule('/old', '/new', { queryString: 'preserve' })])
+    assert.equal(
+      matchRedirect(preserving, '/old', { query: 'ref=mail' })?.location,
+      '/new?ref=mail'
+    )
+  })
+})
+
+test.group('Redirects | chains and loops', () => {
+  test('should report chains in both directions', ({ assert }) => {
+    const rules = [rule('/b', '/c'), rule('/c', '/d'), rule('/z', '/a')]
+    assert.deepEqual(findRedirectIssues(rules, rule('/a', '/b', { id: null })), {
+      chain: ['/b', '/c'],
+      loop: false,
+      redirectedFrom: ['/z'],
+    })
+  })
+
+  test('should detect loops', ({ assert }) => {
+    const rules = [rule('/b', '/c'), rule('/c', '/a')]
+    assert.isTrue(findRedirectIssues(rules, rule('/a', '/b', { id: null })).loop)
+    assert.isTrue(findRedirectIssues([], rule('/a', '/a?x=1', { id: null })).loop)
+
+    const growing = rule('/shop/*', '/shop/en/$1', { id: null, matchType: 'wildcard' })
+    assert.isTrue(findRedirectIssues([], growing).loop)
+  })
+
+  test('should check an updated rule instead of its saved version', ({ assert }) => {
+    const rules = [rule('/a', '/b'), rule('/b', '/c')]
+    assert.isFalse(findRedirectIssues(rules, rule('/b', '/d')).loop)
+    assert.isTrue(findRedirectIssues(rules, rule('/b', '/a')).loop)
+  })
+
+  test('should stop at other sites and removed pages', ({ assert }) => {
+    const rules = [rule('/b', 'https://example.com/a'), rule('/c', null, { httpStatus: 410 })]
+    assert.deepEqual(findRedirectIssues(rules, rule('/a', '/b', { id: null })).chain, ['/b'])
+    assert.deepEqual(findRedirectIssues(rules, rule('/a', '/c', { id: null })).chain, ['/c'])
+  })
+})
+
+test.group('Redirects | validation', () => {
+  test('should normalize rule settings', ({ assert }) => {
+    assert.deepEqual(normalizeRedirectInput({ fromPath: ' /old ', toPath: '/new' }), {
+      fromPath: '/old',
+      toPath: '/new',
+      httpStatus: 301,
+      matchType: 'exact',
+      queryString: 'preserve',
+      locale: null,
+    })
+    const gone = normalizeRedirectInput({ fromPath: '/old', toPath: '/x', httpStatus: 410 })
+    assert.isNull(gone.toPath)
+  })
+
+  test('should reject invalid rules', ({ assert }) => {
+    assert.throws(() => normalizeRedirectInput({ fromPath: 'old', toPath: '/new' }), /start with/)
+    assert.throws(
+      () => normalizeRedirectInput({ fromPath: '/old', toPath: 'javascript:alert(1)' }),
+      /toPath must start/
+    )
+    assert.throws(
+      () => normalizeRedirectInput({ fromPath: '/old', toPath: '/new', matchType: 'wildcard' }),
+      /need a "\*"/
+    )
+    assert.throws(
+      () =>
+        normalizeRedirectInput({ fromPath: '/*/*/*/*/*/*', toPath: '/new', matchType: 'wildcard' }),
+      /limited to 5/
+    )
+    assert.throws(
+      () => normalizeRedirectInput({ fromPath: '/(old', toPath: '/new', matchType: 'regex' }),
+      /Invalid regular expression/
+    )
+    assert.throws(
+      () => normalizeRedirectInput({ fromPath: '/old', toPath: '/new', httpStatus: 303 }),
+      /HTTP status/
+    )
+    assert.throws(
+      () => normalizeRedirectInput({ fromPath: '/(a+)+b', toPath: '/new', matchType: 'regex' }),
+      /repeats a group/
+    )
+  })
+})
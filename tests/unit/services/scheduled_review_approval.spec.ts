@@ -0,0 +1,105 @@
+import { test } from '@japa/runner'
+import db from '@adonisjs/lucid/services/db'
+import { UserFactory, PostFactory } from '#database/factories'
+import Post from '#models/post'
+import scheduledReviewApprovalService, {
+  APPLYING_TIMEOUT_SECONDS,
+} from '#services/scheduled_review_approval_service'
+import { applyScheduledReviewApprovals } from '#jobs/apply_scheduled_review_approvals'
+
+test.group('Scheduled review approvals', (group) => {
+  let userId: number | null = null
+
+  group.each.teardown(async () => {
+    if (userId === null) return
+    const posts = db.from('posts').where('user_id', userId).select('id')
+    await db.from('scheduled_review_approvals').whereIn('post_id', posts).delete()
+    await db.from('posts').where('user_id', userId).delete()
+    await db.from('users').where('id', userId).delete()
+    userId = null
+  })
+
+  async function createPost(reviewDraft: Record<string, any> | null = null) {
+    const user = userId === null ? await UserFactory.create() : null
+    if (user) userId = user.id
+    return PostFactory.merge({ userId: userId!, authorId: userId!, reviewDraft }).create()
+  }
+
+  const ago = (seconds: number) => new Date(Date.now() - seconds * 1000)
+
+  async function claimedIds() {
+    const claimed = await scheduledReviewApprovalService.claimDue()
+    return claimed.map((a) => a.id)
+  }
+
+  test('should claim due approvals once and leave future ones pending', async ({ assert }) => {
+    const due = await createPost()
+    const future = await createPost()
+    const dueApproval = await scheduledReviewApprovalService.schedule(due.id, ago(60), userId)
+    const futureApproval = await scheduledReviewApprovalService.schedule(
+      future.id,
+      new Date(Date.now() + 60 * 60 * 1000),
+      userId
+    )
+
+    const claimed = await claimedIds()
+    assert.include(claimed, dueApproval.id)
+    assert.notInclude(claimed, futureApproval.id)
+
+    const again = await claimedIds()
+    assert.notInclude(again, dueApproval.id)
+
+    const [row] = await scheduledReviewApprovalService.listForPost(future.id)
+    assert.equal(row.status, 'pending')
+  })
+
+  test('should reclaim approvals left applying past the timeout', async ({ assert }) => {
+    const post = await createPost()
+    const approval = await scheduledReviewApprovalService.schedule(post.id, ago(60), userId)
+    await scheduledReviewApprovalService.claimDue()
+
+    // A runner that is still inside the timeout keeps its claim
+    await db
+      .from('scheduled_review_approvals')
+      .where('id', approval.id)
+      .update({ updated_at: ago(APPLYING_TIMEOUT_SECONDS - 30) })
+    let claimed = await claimedIds()
+    assert.notInclude(claimed, approval.id)
+
+    await db
+      .from('scheduled_review_approvals')
+      .where('id', approval.id)
+      .update({ updated_at: ago(APPLYING_TIMEOUT_SECONDS + 30) })
+    claimed = await claimedIds()
+    assert.include(claimed, approval.id)
+  })
+
+  test('should apply the review draft when the approval is due', async ({ assert }) => {
+    const post = await createPost({ title: 'Approved on schedule' })
+    const approval = await scheduledReviewApprovalService.schedule(post.id, ago(60), userId)
+
+    const result = await applyScheduledReviewApprovals()
+    assert.isAtLeast(result.applied, 1)
+
+    const [row] = await scheduledReviewApprovalService.listForPost(post.id)
+    assert.equal(row.id, approval.id)
+    assert.equal(row.status, 'applied')
+    assert.isNotNull(row.appliedAt)
+
+    const applied = await Post.findOrFail(post.id)
+    assert.equal(applied.title, 'Approved on schedule')
+  })
+
+  test('should mark the approval failed when there is nothing to apply', async ({ assert }) => {
+    const post = await createPost()
+    const approval = await scheduledReviewApprovalService.schedule(post.id, ago(60), userId)
+
+    const result = await applyScheduledReviewApprovals()
+    assert.isAtLeast(result.failed, 1)
+
+    const [row] = await scheduledReviewApprovalService.listForPost(post.id)
+    assert.equal(row.id, approval.id)
+    assert.equal(row.status, 'failed')
+    assert.equal(row.error, 'No review changes to apply')
+  })
+})
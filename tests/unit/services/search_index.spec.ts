@@ -0,0 +1,117 @@
+import { test } from '@japa/runner'
+import db from '@adonisjs/lucid/services/db'
+import { DateTime } from 'luxon'
+import { UserFactory, PostFactory } from '#database/factories'
+import searchIndexService, { buildPrefixQuery } from '#services/search_index_service'
+import FaqModule from '#modules/faq'
+import ProseModule from '#modules/prose'
+
+test.group('SearchIndexService - text extraction', () => {
+  test('should extract text from repeater items using the module schema', ({ assert }) => {
+    const schema = new FaqModule().getConfig().fieldSchema || []
+    const parts = searchIndexService.extractFieldText(schema, {
+      title: 'Frequently asked',
+      items: [
+        { question: 'How do refunds work?', answer: 'Refunds take   five days.' },
+        { question: 'Do you ship abroad?', answer: 'Yes, worldwide.' },
+      ],
+    })
+
+    assert.includeMembers(parts, [
+      'Frequently asked',
+      'How do refunds work?',
+      'Refunds take five days.',
+      'Do you ship abroad?',
+    ])
+  })
+
+  test('should extract plain text from Lexical richtext fields', ({ assert }) => {
+    const schema = new ProseModule().getConfig().fieldSchema || []
+    const parts = searchIndexService.extractFieldText(schema, {
+      content: {
+        root: {
+          type: 'root',
+          children: [
+            {
+              type: 'paragraph',
+              children: [{ type: 'text', text: 'Deep body copy about kayaks' }],
+            },
+          ],
+        },
+      },
+    })
+
+    assert.include(parts.join(' '), 'Deep body copy about kayaks')
+  })
+
+  test('should ignore non-text fields', ({ assert }) => {
+    const parts = searchIndexService.extractFieldText(
+      [
+        { slug: 'image', type: 'media' },
+        { slug: 'enabled', type: 'boolean' },
+      ],
+      { image: 'some-media-id', enabled: true }
+    )
+
+    assert.lengthOf(parts, 0)
+  })
+})
+
+test.group('SearchIndexService - formatting', () => {
+  test('should build prefix queries from sanitized words', ({ assert }) => {
+    assert.equal(buildPrefixQuery('refu'), 'refu:*')
+    assert.equal(buildPrefixQuery('  how do refu '), 'how & do & refu:*')
+    assert.equal(buildPrefixQuery("it's | !(ship) & <-> café:*"), 'it & s & ship & café:*')
+    assert.isNull(buildPrefixQuery(' :* & | ! '))
+  })
+
+  test('should map locales to Postgres text search configurations', ({ assert }) => {
+    assert.equal(searchIndexService.getSearchConfig('en'), 'english')
+    assert.equal(searchIndexService.getSearchConfig('fr-CA'), 'french')
+    assert.equal(searchIndexService.getSearchConfig('xx'), 'simple')
+  })
+
+  test('should escape snippets and only emit mark tags', ({ assert }) => {
+    const snippet = searchIndexService.formatSnippet('<b>Use</b> the {{{kayak}}} & paddle')
+    assert.equal(snippet, '&lt;b&gt;Use&lt;/b&gt; the <mark>kayak</mark> &amp; paddle')
+  })
+
+  test('should return null when nothing was highlighted', ({ assert }) => {
+    assert.isNull(searchIndexService.formatSnippet('Plain text without a match'))
+  })
+})
+
+test.group('SearchIndexService - missing posts', (group) => {
+  let userId: number | null = null
+
+  group.each.teardown(async () => {
+    if (userId === null) return
+    await db.from('posts').where('user_id', userId).delete()
+    await db.from('users').where('id', userId).delete()
+    userId = null
+  })
+
+  test('should index posts once their future publish date has passed', async ({ assert }) => {
+    const user = await UserFactory.create()
+    userId = user.id
+    const post = await PostFactory.merge({ userId: user.id, authorId: user.id })
+      .apply('published')
+      .create()
+    post.publishedAt = DateTime.now().plus({ hours: 1 })
+    await post.save()
+
+    assert.isFalse(await searchIndexService.indexPost(post.id))
+    await searchIndexService.indexMissing()
+    assert.isNull(await db.from('search_documents').where('post_id', post.id).first())
+
+    post.publishedAt = DateTime.now().minus({ minutes: 1 })
+    await post.save()
+
+    assert.isAtLeast(await searchIndexService.indexMissing(), 1)
+    assert.isNotNull(await db.from('search_documents').where('post_id', post.id).first())
+    // Already indexed posts are left alone
+    await searchIndexService.indexMissing()
+    const rows = await db.from('search_documents').where('post_id', post.id)
+    assert.lengthOf(rows, 1)
+  })
+})
@@ -0,0 +1,117 @@
+import { test } from '@japa/runner'
+import db from '@adonisjs/lucid/services/db'
+import { UserFactory, PostFactory } from '#database/factories'
+import translationStalenessService, {
+  buildAgentInstructions,
+  diffFingerprints,
+  fingerprintUnits,
+} from '#services/translation_staleness_service'
+
+test.group('Translation staleness', () => {
+  const recorded = fingerprintUnits([
+    { id: 'post:title', source: 'Hello world', note: 'title' },
+    { id: 'field:intro', source: 'Welcome', note: 'Intro' },
+    { id: 'module:m1:title', source: 'Old heading', note: 'Hero' },
+  ])
+
+  test('should report nothing when the source is unchanged', ({ assert }) => {
+    const current = fingerprintUnits([
+      { id: 'post:title', source: 'Hello world', note: 'title' },
+      { id: 'field:intro', source: 'Welcome', note: 'Intro' },
+      { id: 'module:m1:title', source: 'Old heading', note: 'Hero' },
+    ])
+    assert.deepEqual(diffFingerprints(recorded, current), [])
+  })
+
+  test('should list changed, added and removed source strings', ({ assert }) => {
+    const current = fingerprintUnits([
+      { id: 'post:title', source: 'Hello there', note: 'title' },
+      { id: 'field:intro', source: 'Welcome', note: 'Intro' },
+      { id: 'module:m2:body', source: 'New text', note: 'Prose' },
+    ])
+
+    const changes = diffFingerprints(recorded, current)
+    assert.deepEqual(
+      changes.map((c) => [c.id, c.status, c.previous, c.current]),
+      [
+        ['post:title', 'changed', 'Hello world', 'Hello there'],
+        ['module:m2:body', 'added', null, 'New text'],
+        ['module:m1:title', 'removed', 'Old heading', null],
+      ]
+    )
+  })
+
+  test('should build agent instructions within the context limit', ({ assert }) => {
+    const changes = diffFingerprints(recorded, {})
+    const text = buildAgentInstructions('en', 'fr', changes)
+    assert.include(text, 'EN source of this FR translation')
+    assert.include(text, 'Hero (module:m1:title): removed')
+
+    const many = Array.from({ length: 200 }, (_, i) => ({
+      id: `field:f${i}`,
+      label: null,
+      status: 'changed' as const,
+      previous: 'x'.repeat(40),
+      current: 'y'.repeat(40),
+    }))
+    const long = buildAgentInstructions('en', 'fr', many)
+    assert.isAtMost(long.length, 5000)
+    assert.include(long, 'More fields changed')
+  })
+})
+
+test.group('Translation staleness | review drafts', (group) => {
+  let userId: number | null = null
+
+  group.each.teardown(async () => {
+    if (userId === null) return
+    await db.from('posts').where('user_id', userId).whereNotNull('translation_of_id').delete()
+    await db.from('posts').where('user_id', userId).delete()
+    await db.from('users').where('id', userId).delete()
+    userId = null
+  })
+
+  test('should only mark an imported translation in sync once approved', async ({ assert }) => {
+    const user = await UserFactory.create()
+    userId = user.id
+    const owner = { userId: user.id, authorId: user.id }
+    const source = await PostFactory.merge(owner).create()
+    const translation = await PostFactory.merge({
+      ...owner,
+      locale: 'fr',
+      translationOfId: source.id,
+    }).create()
+
+    await translationStalenessService.recordForReview(translation)
+    await translation.refresh()
+    assert.isNull(translation.translationSourceHashes)
+    assert.isNotNull(translation.translationReviewSourceHashes)
+
+    await translationStalenessService.approveReview(translation.id)
+    await translation.refresh()
+    assert.isNull(translation.translationReviewSourceHashes)
+    assert.isNotNull(translation.translationSyncedAt)
+    const staleness = await translationStalenessService.check(translation)
+    assert.isTrue(staleness?.tracked)
+    assert.isFalse(staleness?.outdated)
+  })
+
+  test('should forget the import source when the draft is rejected', async ({ assert }) => {
+    const user = await UserFactory.create()
+    userId = user.id
+    const owner = { userId: user.id, authorId: user.id }
+    const source = await PostFactory.merge(owner).create()
+    const translation = await PostFactory.merge({
+      ...owner,
+      locale: 'fr',
+      translationOfId: source.id,
+    }).create()
+
+    await translationStalenessService.recordForReview(translation)
+    await translationStalenessService.discardReview(translation.id)
+    await translationStalenessService.approveReview(translation.id)
+    await translation.refresh()
+    assert.isNull(translation.translationReviewSourceHashes)
+    assert.isNull(translation.translationSourceHashes)
+  })
+})
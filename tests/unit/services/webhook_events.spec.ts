@@ -0,0 +1,30 @@
+import { test } from '@japa/runner'
+import { WEBHOOK_EVENTS, isWebhookEvent } from '#services/webhook_service'
+
+test.group('Webhook events', () => {
+  test('should cover content structure changes', ({ assert }) => {
+    assert.includeMembers(
+      [...WEBHOOK_EVENTS],
+      [
+        'taxonomy.term.created',
+        'taxonomy.term.updated',
+        'taxonomy.term.deleted',
+        'menu.created',
+        'menu.updated',
+        'menu.deleted',
+        'module.global.updated',
+        'translation.created',
+        'redirect.created',
+      ]
+    )
+  })
+
+  test('should not list an event twice', ({ assert }) => {
+    assert.lengthOf(new Set(WEBHOOK_EVENTS), WEBHOOK_EVENTS.length)
+  })
+
+  test('should recognise known events only', ({ assert }) => {
+    assert.isTrue(isWebhookEvent('menu.updated'))
+    assert.isFalse(isWebhookEvent('menu.item.updated'))
+  })
+})
@@ -0,0 +1,143 @@
+import { test } from '@japa/runner'
+import workflowRegistry from '#services/workflow_registry'
+import workflowExecutionService from '#services/workflow_execution_service'
+import workflowStepExecutorService from '#services/workflow_step_executor_service'
+import type { WorkflowDefinition } from '#types/workflow_types'
+
+test.group('Workflow steps', (group) => {
+  let registered: WorkflowDefinition[] = []
+
+  group.setup(() => {
+    registered = workflowRegistry.list()
+  })
+
+  group.each.setup(() => {
+    workflowRegistry.clear()
+  })
+
+  group.teardown(() => {
+    workflowRegistry.clear()
+    for (const definition of registered) workflowRegistry.register(definition)
+  })
+
+  test('should reject steps workflows without valid steps', ({ assert }) => {
+    assert.throws(
+      () =>
+        workflowRegistry.register({
+          id: 'empty',
+          name: 'Empty',
+          type: 'steps',
+          steps: [],
+          triggers: [{ trigger: 'manual' }],
+        }),
+      /has no steps/
+    )
+    assert.throws(
+      () =>
+        workflowRegistry.register({
+          id: 'loop',
+          name: 'Loop',
+          type: 'steps',
+          steps: [{ type: 'call-workflow', workflowId: 'loop' }],
+          triggers: [{ trigger: 'manual' }],
+        }),
+      /cannot call itself/
+    )
+  })
+
+  test('should interpolate payload paths in string values', async ({ assert }) => {
+    const value = await workflowStepExecutorService.resolve(
+      'Published: {{post.title}} ({{missing.key}})',
+      { post: { title: 'Hello' } },
+      { workflowId: 'w', trigger: 'manual', results: {} }
+    )
+    assert.equal(value, 'Published: Hello ({{missing.key}})')
+  })
+
+  test('should escape interpolated values in html only', async ({ assert }) => {
+    const payload = { name: '<img src=x onerror=alert(1)> & "Co"' }
+    const context = { workflowId: 'w', trigger: 'manual' as const, results: {} }
+
+    const html = await workflowStepExecutorService.resolve('<p>{{name}}</p>', payload, context, {
+      html: true,
+    })
+    assert.equal(html, '<p>&lt;img src=x onerror=alert(1)&gt; &amp; &quot;Co&quot;</p>')
+
+    const text = await workflowStepExecutorService.resolve('Hi {{name}}', payload, context)
+    assert.equal(text, 'Hi <img src=x onerror=alert(1)> & "Co"')
+  })
+
+  test('should pass transformed payloads and skip steps by condition', async ({ assert }) => {
+    const seen: any[] = []
+    workflowRegistry.register({
+      id: 'inner',
+      name: 'Inner',
+      type: 'steps',
+      triggers: [{ trigger: 'manual' }],
+      steps: [
+        {
+          id: 'notify',
+          type: 'email',
+          to: 'editor@example.com',
+          subject: 'Never sent',
+          text: 'Never sent',
+          condition: (payload) => {
+            seen.push(payload)
+            return false
+          },
+        },
+      ],
+    })
+    workflowRegistry.register({
+      id: 'outer',
+      name: 'Outer',
+      type: 'steps',
+      triggers: [{ trigger: 'manual' }],
+      transformPayload: (payload) => ({ ...payload, stage: 1 }),
+      steps: [
+        {
+          id: 'call',
+          type: 'call-workflow',
+          workflowId: 'inner',
+          transformPayload: (payload) => ({ ...payload, stage: payload.stage + 1 }),
+        },
+      ],
+    })
+
+    const result = await workflowExecutionService.executeWorkflow(
+      workflowRegistry.get('outer')!,
+      'manual',
+      { post: { id: 'p1' } }
+    )
+
+    assert.isTrue(result.success)
+    assert.deepEqual(seen, [{ post: { id: 'p1' }, stage: 2 }])
+    assert.deepEqual(result.steps?.call?.steps, { notify: { skipped: true } })
+  })
+
+  test('should stop at call cycles between workflows', async ({ assert }) => {
+    workflowRegistry.register({
+      id: 'a',
+      name: 'A',
+      type: 'steps',
+      triggers: [{ trigger: 'manual' }],
+      steps: [{ type: 'call-workflow', workflowId: 'b' }],
+    })
+    workflowRegistry.register({
+      id: 'b',
+      name: 'B',
+      type: 'steps',
+      triggers: [{ trigger: 'manual' }],
+      steps: [{ type: 'call-workflow', workflowId: 'a' }],
+    })
+
+    const result = await workflowExecutionService.executeWorkflow(
+      workflowRegistry.get('a')!,
+      'manual',
+      {}
+    )
+
+    assert.isFalse(result.success)
+    assert.match(result.error || '', /cycle detected/)
+  })
+})
@@ -0,0 +1,115 @@
+import { test } from '@japa/runner'
+import { buildXliff, mapTranslatableText, parseXliff } from '#services/xliff_service'
+import type { CustomFieldDefinition } from '#types/custom_field'
+
+test.group('XLIFF documents', () => {
+  test('should round-trip units through build and parse', ({ assert }) => {
+    const xml = buildXliff({
+      srcLang: 'en',
+      trgLang: 'fr',
+      files: [
+        {
+          id: 'post-1',
+          original: 'post:1',
+          units: [
+            { id: 'post:title', source: 'Fish & <Chips>', target: 'Poisson & "frites"' },
+            { id: 'field:intro', source: 'Hello', note: 'Intro' },
+          ],
+        },
+      ],
+    })
+
+    assert.include(xml, 'urn:oasis:names:tc:xliff:document:2.0')
+    assert.include(xml, '<source>Fish &amp; &lt;Chips&gt;</source>')
+
+    const doc = parseXliff(xml)
+    assert.equal(doc.srcLang, 'en')
+    assert.equal(doc.trgLang, 'fr')
+    assert.equal(doc.files[0].original, 'post:1')
+    assert.deepEqual(
+      doc.files[0].units.map((u) => [u.id, u.source, u.target]),
+      [
+        ['post:title', 'Fish & <Chips>', 'Poisson & "frites"'],
+        ['field:intro', 'Hello', null],
+      ]
+    )
+  })
+
+  test('should strip inline markup added by CAT tools', ({ assert }) => {
+    const doc = parseXliff(`<?xml version="1.0"?>
+<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="en" trgLang="de">
+  <file id="post-1" original="post:1">
+    <group id="g1">
+      <unit id="post:title">
+        <segment><source>Hello</source><target><mrk id="m1">Hallo</mrk> Welt</target></segment>
+        <segment><source> world</source><target><![CDATA[ & mehr]]></target></segment>
+      </unit>
+    </group>
+  </file>
+</xliff>`)
+    assert.equal(doc.files[0].units[0].source, 'Hello world')
+    assert.equal(doc.files[0].units[0].target, 'Hallo Welt & mehr')
+  })
+
+  test('should reject non-XLIFF 2 documents', ({ assert }) => {
+    assert.throws(() => parseXliff('<xliff version="1.2"><file/></xliff>'), /XLIFF 2/)
+    assert.throws(() => parseXliff('<html></html>'), /xliff/)
+  })
+})
+
+test.group('XLIFF translatable fields', () => {
+  const def: CustomFieldDefinition = {
+    slug: 'faq',
+    type: 'repeater',
+    translatable: true,
+    item: {
+      slug: 'item',
+      type: 'object',
+      fields: [
+        { slug: 'question', type: 'text' },
+        { slug: 'answer', type: 'richtext' },
+        { slug: 'link', type: 'url' },
+      ],
+    },
+  }
+
+  test('should visit translatable text in nested repeaters and rich text', ({ assert }) => {
+    const value = [
+      {
+        question: 'Why?',
+        answer: JSON.stringify({
+          root: {
+            type: 'root',
+            children: [{ type: 'paragraph', children: [{ type: 'text', text: 'Because' }] }],
+          },
+        }),
+        link: 'https://example.com',
+      },
+    ]
+
+    const seen: string[] = []
+    const result = mapTranslatableText(value, def, [], (path, text) => {
+      seen.push(path)
+      return text.toUpperCase()
+    })
+
+    assert.deepEqual(seen, ['0.question', '0.answer.root.children.0.children.0.text'])
+    assert.equal(result[0].question, 'WHY?')
+    assert.equal(JSON.parse(result[0].answer).root.children[0].children[0].text, 'BECAUSE')
+    assert.equal(result[0].link, 'https://example.com')
+  })
+
+  test('should skip fields that are not translatable', ({ assert }) => {
+    const seen: string[] = []
+    mapTranslatableText(
+      { title: 'Hi' },
+      { slug: 'x', type: 'object', fields: [{ slug: 'title', type: 'text' }] },
+      [],
+      (path, text) => {
+        seen.push(path)
+        return text
+      }
+    )
+    assert.deepEqual(seen, [])
+  })
+})